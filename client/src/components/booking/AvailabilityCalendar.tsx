@@ -1,12 +1,14 @@
 import { Calendar } from '@/components/ui/calendar';
 import { formatLocalDate } from '@/lib/dateUtils';
 import { isDateDisabled } from '@/lib/bookingAvailability';
-import { isNonWorkingDay } from '@/lib/workingDays';
+import { ClosureRange, isNonWorkingDay } from '@/lib/workingDays';
 
 interface AvailabilityCalendarProps {
   today: Date;
   maxDate: Date;
   workingDays: number[];
+  /** Organization closures (holidays); closed days can't be picked. */
+  closures?: ClosureRange[];
   availabilityMap: Record<string, number>;
   /** Called with the toggled date string (YYYY-MM-DD). In multi mode, parent toggles it in/out. */
   onSelect: (dateStr: string) => void;
@@ -26,6 +28,7 @@ export function AvailabilityCalendar({
   today,
   maxDate,
   workingDays,
+  closures,
   availabilityMap,
   onSelect,
   onCancel,
@@ -45,7 +48,7 @@ export function AvailabilityCalendar({
       available: (date: Date) => {
         const dateStr = formatLocalDate(date);
         return (availabilityMap[dateStr] ?? 0) > 0
-          && !isNonWorkingDay(dateStr, workingDays)
+          && !isNonWorkingDay(dateStr, workingDays, closures)
           && date >= today && date <= maxDate;
       },
     },
@@ -71,7 +74,7 @@ export function AvailabilityCalendar({
             else if (removed) onSelect(removed);
           }}
           disabled={(date: Date) => {
-            if (isDateDisabled({ date, today, maxDate, workingDays, availabilityMap })) return true;
+            if (isDateDisabled({ date, today, maxDate, workingDays, availabilityMap, closures })) return true;
             const dateStr = formatLocalDate(date);
             return atMax && !selectedDates.includes(dateStr);
           }}
@@ -98,7 +101,7 @@ export function AvailabilityCalendar({
         mode="single"
         selected={undefined}
         onSelect={(date) => { if (date) onSelect(formatLocalDate(date)); }}
-        disabled={(date: Date) => isDateDisabled({ date, today, maxDate, workingDays, availabilityMap })}
+        disabled={(date: Date) => isDateDisabled({ date, today, maxDate, workingDays, availabilityMap, closures })}
       />
       <button
         onClick={onCancel}
@@ -0,0 +1,38 @@
+import type { DayPart } from '@shared/schema';
+import { DAY_PART_LABELS } from '@/lib/dayParts';
+
+interface DayPartPickerProps {
+  value: DayPart;
+  onChange: (dayPart: DayPart) => void;
+  /** Public pages are blue, member pages amber. */
+  accent?: 'blue' | 'amber';
+}
+
+const ACCENTS = {
+  blue: { selected: 'border-blue-500 bg-blue-50 text-blue-700', idle: 'hover:border-blue-300' },
+  amber: { selected: 'border-amber-500 bg-amber-50 text-amber-700', idle: 'hover:border-amber-300' },
+};
+
+/**
+ * Full day / morning / afternoon toggle for public and member self-booking
+ * pages. Only shown when the space sells half days.
+ */
+export function DayPartPicker({ value, onChange, accent = 'blue' }: DayPartPickerProps) {
+  const colors = ACCENTS[accent];
+  return (
+    <div className="grid grid-cols-3 gap-2">
+      {(['full', 'am', 'pm'] as const).map((part) => (
+        <button
+          key={part}
+          type="button"
+          onClick={() => onChange(part)}
+          className={`py-2 px-3 rounded-xl border-2 text-sm font-medium transition-all active:scale-[0.97] ${
+            value === part ? colors.selected : `border-gray-200 text-gray-600 ${colors.idle}`
+          }`}
+        >
+          {DAY_PART_LABELS[part]}
+        </button>
+      ))}
+    </div>
+  );
+}
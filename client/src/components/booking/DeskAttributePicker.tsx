@@ -0,0 +1,41 @@
+import { Check } from 'lucide-react';
+
+interface DeskAttributePickerProps {
+  /** Attributes the space has set on at least one desk. */
+  options: string[];
+  selected: string[];
+  onToggle: (attribute: string) => void;
+}
+
+/**
+ * Lets a visitor ask for a desk with particular features. With nothing
+ * selected any free desk is assigned.
+ */
+export function DeskAttributePicker({ options, selected, onToggle }: DeskAttributePickerProps) {
+  if (options.length === 0) return null;
+  const isSelected = (attribute: string) =>
+    selected.some(s => s.toLowerCase() === attribute.toLowerCase());
+
+  return (
+    <div>
+      <p className="text-xs font-medium text-gray-500 mb-2">Desk preferences (optional)</p>
+      <div className="flex flex-wrap gap-2">
+        {options.map((attribute) => (
+          <button
+            key={attribute}
+            type="button"
+            onClick={() => onToggle(attribute)}
+            className={`inline-flex items-center gap-1 px-3 py-1.5 rounded-full border text-xs font-medium transition-colors ${
+              isSelected(attribute)
+                ? 'border-blue-500 bg-blue-50 text-blue-700'
+                : 'border-gray-200 text-gray-600 hover:border-blue-300'
+            }`}
+          >
+            {isSelected(attribute) && <Check className="h-3 w-3" />}
+            {attribute}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+import { useState } from 'react';
+import { SupabaseDataStore } from '@/lib/supabaseDataStore';
+import { soldOutDates } from '@/lib/bookingAvailability';
+import { ClosureRange } from '@/lib/workingDays';
+import { ChevronLeft, Loader2 } from 'lucide-react';
+
+const inputClass = 'w-full px-3.5 py-2.5 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm transition-shadow';
+
+interface PublicWaitlistFormProps {
+  organizationId: string;
+  workingDays: number[];
+  closures?: readonly ClosureRange[];
+  availabilityMap: Record<string, number>;
+  /** First day offered in the form, usually the first sold-out one. */
+  defaultDate: string;
+  minDate: string;
+  requiredAttributes: string[];
+  onBack: () => void;
+  onJoined: (dates: { startDate: string; endDate: string }) => void;
+}
+
+/**
+ * Waiting-list sign-up on the public booking page, for days without a free
+ * desk. The visitor is emailed a claim link once a desk frees up.
+ */
+export function PublicWaitlistForm({
+  organizationId,
+  workingDays,
+  closures,
+  availabilityMap,
+  defaultDate,
+  minDate,
+  requiredAttributes,
+  onBack,
+  onJoined,
+}: PublicWaitlistFormProps) {
+  const [startDate, setStartDate] = useState(defaultDate);
+  const [endDate, setEndDate] = useState(defaultDate);
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [phone, setPhone] = useState('+');
+  const [notes, setNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || !/^\S+@\S+\.\S+$/.test(email.trim())) {
+      setError('Please fill in your name and a valid email address.');
+      return;
+    }
+    if (!startDate || !endDate || endDate < startDate) {
+      setError('Please pick the days you need a desk.');
+      return;
+    }
+    if (soldOutDates(startDate, endDate, availabilityMap, workingDays, closures).length === 0) {
+      setError('A desk is free on all of these days — go back and book it right away.');
+      return;
+    }
+
+    setSubmitting(true);
+    setError('');
+    try {
+      await SupabaseDataStore.joinPublicWaitingList({
+        organizationId,
+        name: name.trim(),
+        email: email.trim(),
+        phone: phone.replace(/[^0-9]/g, '').length > 0 ? phone.trim() : undefined,
+        startDate,
+        endDate,
+        deskAttributes: requiredAttributes,
+        notes: notes.trim() || undefined,
+      });
+      onJoined({ startDate, endDate });
+    } catch {
+      setError('Failed to join the waiting list. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div>
+      <button
+        onClick={onBack}
+        className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800 mb-4 -mt-1"
+      >
+        <ChevronLeft className="h-4 w-4" />
+        Back to booking
+      </button>
+
+      <h2 className="text-sm font-medium text-gray-500 uppercase tracking-wide mb-2">Join the waiting list</h2>
+      <p className="text-sm text-gray-500 mb-4">
+        We'll email you a link as soon as a desk frees up. Claim it in time and it's yours.
+      </p>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label htmlFor="wait-from" className="block text-sm font-medium text-gray-700 mb-1.5">From *</label>
+            <input
+              id="wait-from"
+              type="date"
+              value={startDate}
+              min={minDate}
+              onChange={(e) => {
+                setStartDate(e.target.value);
+                if (endDate < e.target.value) setEndDate(e.target.value);
+              }}
+              required
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label htmlFor="wait-until" className="block text-sm font-medium text-gray-700 mb-1.5">Until *</label>
+            <input
+              id="wait-until"
+              type="date"
+              value={endDate}
+              min={startDate}
+              onChange={(e) => setEndDate(e.target.value)}
+              required
+              className={inputClass}
+            />
+          </div>
+        </div>
+        {requiredAttributes.length > 0 && (
+          <p className="text-xs text-gray-500 -mt-2">Only desks with {requiredAttributes.join(', ')}.</p>
+        )}
+        <div>
+          <label htmlFor="wait-name" className="block text-sm font-medium text-gray-700 mb-1.5">Name *</label>
+          <input
+            id="wait-name"
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            required
+            className={inputClass}
+            placeholder="Your full name"
+          />
+        </div>
+        <div>
+          <label htmlFor="wait-email" className="block text-sm font-medium text-gray-700 mb-1.5">Email *</label>
+          <input
+            id="wait-email"
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            required
+            className={inputClass}
+            placeholder="you@example.com"
+          />
+        </div>
+        <div>
+          <label htmlFor="wait-phone" className="block text-sm font-medium text-gray-700 mb-1.5">Phone</label>
+          <input
+            id="wait-phone"
+            type="tel"
+            value={phone}
+            onChange={(e) => {
+              let val = e.target.value;
+              if (!val.startsWith('+')) val = '+' + val.replace(/^\+*/, '');
+              setPhone(val);
+            }}
+            className={inputClass}
+            placeholder="+359 888 123 456"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1.5">Notes</label>
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            rows={2}
+            className={`${inputClass} resize-none`}
+            placeholder="Anything the space manager should know"
+          />
+        </div>
+
+        <p className="text-xs text-gray-400">
+          By joining, you agree that your contact details will be shared with the space manager.
+        </p>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-xl px-4 py-3">
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={submitting}
+          className="w-full py-3 px-4 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white font-semibold rounded-xl transition-colors text-sm active:scale-[0.98]"
+        >
+          {submitting ? (
+            <span className="flex items-center justify-center gap-2">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Joining...
+            </span>
+          ) : 'Join the waiting list'}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -4,9 +4,11 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Checkbox } from '@/components/ui/checkbox';
-import { Desk, DeskStatus } from '@shared/schema';
-import { formatDateRange } from '@/lib/dateUtils';
-import { CalendarRange } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Desk, DeskBlockReason, DeskStatus } from '@shared/schema';
+import { formatDateRange, todayString } from '@/lib/dateUtils';
+import { DESK_BLOCK_REASON_LABELS } from '@/lib/deskBlocks';
+import { CalendarRange, Wrench } from 'lucide-react';
 import dayjs from 'dayjs';
 
 interface AvailabilityRangeModalProps {
@@ -14,25 +16,34 @@ interface AvailabilityRangeModalProps {
   onClose: () => void;
   desks: Desk[];
   onApply: (startDate: string, endDate: string, deskIds: string[], status: DeskStatus) => void;
+  /** When set, the modal can also take the desks out of service instead of freeing them. */
+  onBlock?: (startDate: string, endDate: string, deskIds: string[], reason: DeskBlockReason, note: string) => void;
 }
 
 export default function AvailabilityRangeModal({
   isOpen,
   onClose,
   desks,
-  onApply
+  onApply,
+  onBlock,
 }: AvailabilityRangeModalProps) {
   const [startDate, setStartDate] = useState('');
   const [endDate, setEndDate] = useState('');
   const [selectedDeskIds, setSelectedDeskIds] = useState<string[]>([]);
+  const [mode, setMode] = useState<'available' | 'blocked'>('available');
+  const [reason, setReason] = useState<DeskBlockReason>('maintenance');
+  const [note, setNote] = useState('');
   useEffect(() => {
     if (isOpen) {
       // Reset form when modal opens
-      const today = dayjs().format('YYYY-MM-DD');
-      const nextWeek = dayjs().add(7, 'day').format('YYYY-MM-DD');
+      const today = todayString();
+      const nextWeek = dayjs(today).add(7, 'day').format('YYYY-MM-DD');
       setStartDate(today);
       setEndDate(nextWeek);
       setSelectedDeskIds([]);
+      setMode('available');
+      setReason('maintenance');
+      setNote('');
     }
   }, [isOpen]);
 
@@ -61,7 +72,11 @@ export default function AvailabilityRangeModal({
       return;
     }
 
-    onApply(startDate, endDate, selectedDeskIds, 'available');
+    if (mode === 'blocked' && onBlock) {
+      onBlock(startDate, endDate, selectedDeskIds, reason, note);
+    } else {
+      onApply(startDate, endDate, selectedDeskIds, 'available');
+    }
     onClose();
   };
 
@@ -81,6 +96,29 @@ export default function AvailabilityRangeModal({
         </DialogHeader>
 
         <div className="space-y-4">
+          {onBlock && (
+            <div className="grid grid-cols-2 gap-2">
+              {([
+                { value: 'available', label: 'Free up desks', Icon: CalendarRange },
+                { value: 'blocked', label: 'Out of service', Icon: Wrench },
+              ] as const).map(({ value, label, Icon }) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => setMode(value)}
+                  className={`flex items-center justify-center gap-2 py-2 px-3 rounded-lg border-2 text-sm font-medium transition-colors ${
+                    mode === value
+                      ? 'border-blue-500 bg-blue-50 text-blue-700'
+                      : 'border-gray-200 text-gray-600 hover:border-gray-300'
+                  }`}
+                >
+                  <Icon className="h-4 w-4" />
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
             <div>
               <Label htmlFor="startDate" className="text-sm font-medium text-gray-700">
@@ -109,6 +147,34 @@ export default function AvailabilityRangeModal({
             </div>
           </div>
 
+          {mode === 'blocked' && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <Label className="text-sm font-medium text-gray-700">Reason</Label>
+                <Select value={reason} onValueChange={(v) => setReason(v as DeskBlockReason)}>
+                  <SelectTrigger className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(DESK_BLOCK_REASON_LABELS) as DeskBlockReason[]).map((r) => (
+                      <SelectItem key={r} value={r}>{DESK_BLOCK_REASON_LABELS[r]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="blockNote" className="text-sm font-medium text-gray-700">Note</Label>
+                <Input
+                  id="blockNote"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="e.g. Team offsite"
+                  className="mt-1"
+                />
+              </div>
+            </div>
+          )}
+
           {dateRangeText && (
             <div className="text-sm text-gray-600 bg-gray-50 p-2 rounded">
               <strong>Date Range:</strong> {dateRangeText}
@@ -157,7 +223,7 @@ export default function AvailabilityRangeModal({
             disabled={!isValidForm}
             className="bg-blue-600 hover:bg-blue-700"
           >
-            Apply
+            {mode === 'blocked' ? 'Take out of service' : 'Apply'}
           </Button>
         </div>
       </DialogContent>
@@ -0,0 +1,250 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DeskStatus, PlanType } from '@shared/schema';
+import { useDataStore } from '@/contexts/DataStoreContext';
+import { useOrganization } from '@/contexts/OrganizationContext';
+import { useToast } from '@/hooks/use-toast';
+import { fetchBookingInvoiceLinks } from '@/hooks/use-invoices';
+import { DEFAULT_DESKS } from '@/lib/deskConfig';
+import { planLabel } from '@/lib/planDates';
+import { SELECT_NONE_VALUE } from '@/lib/invoices';
+import { BookingExportFilters, InvoiceLink, buildExportRows, bookingsToCsv, bookingsToXlsx } from '@/lib/bookingExport';
+import { Download, FileSpreadsheet, Loader2 } from 'lucide-react';
+
+const EXPORT_PLANS: PlanType[] = ['day_pass', 'weekly', 'monthly', 'custom', 'flex'];
+const ALL_STATUSES = 'all';
+
+type ExportFormat = 'csv' | 'xlsx';
+
+interface BookingExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  defaultStartDate: string;
+  defaultEndDate: string;
+  /** Full JSON backup of every booking, offered next to the spreadsheets. */
+  onBackup?: () => void;
+}
+
+function download(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  try {
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+export default function BookingExportDialog({
+  isOpen,
+  onClose,
+  defaultStartDate,
+  defaultEndDate,
+  onBackup,
+}: BookingExportDialogProps) {
+  const dataStore = useDataStore();
+  const { legacyDesks, currentOrg } = useOrganization();
+  const desks = legacyDesks.length > 0 ? legacyDesks : DEFAULT_DESKS;
+  const { toast } = useToast();
+  const [startDate, setStartDate] = useState(defaultStartDate);
+  const [endDate, setEndDate] = useState(defaultEndDate);
+  const [rooms, setRooms] = useState<number[]>([]);
+  const [status, setStatus] = useState<DeskStatus | typeof ALL_STATUSES>(ALL_STATUSES);
+  const [planTypes, setPlanTypes] = useState<PlanType[]>([]);
+  const [clientId, setClientId] = useState(SELECT_NONE_VALUE);
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+
+  const { data: clients = [] } = useQuery({
+    queryKey: ['clients'],
+    queryFn: () => dataStore.getClients!(),
+    enabled: isOpen && !!dataStore.getClients,
+  });
+
+  const roomOptions = useMemo(() => {
+    const seen = new Map<number, string>();
+    for (const desk of desks) {
+      if (!seen.has(desk.room)) seen.set(desk.room, desk.roomName ?? `Room ${desk.room}`);
+    }
+    return Array.from(seen, ([room, name]) => ({ room, name }));
+  }, [desks]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setStartDate(defaultStartDate);
+      setEndDate(defaultEndDate);
+    }
+  }, [isOpen, defaultStartDate, defaultEndDate]);
+
+  const toggle = <T,>(list: T[], value: T) =>
+    list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+  const rangeValid = !!startDate && !!endDate && startDate <= endDate;
+
+  const handleExport = async (format: ExportFormat) => {
+    if (!rangeValid) return;
+    setExporting(format);
+    try {
+      const filters: BookingExportFilters = {
+        startDate,
+        endDate,
+        rooms,
+        statuses: status === ALL_STATUSES ? [] : [status],
+        planTypes,
+        clientId: clientId === SELECT_NONE_VALUE ? null : clientId,
+      };
+      const bookings = await dataStore.getBookingsForDateRange(startDate, endDate);
+      let invoiceLinks = new Map<string, InvoiceLink[]>();
+      try {
+        invoiceLinks = await fetchBookingInvoiceLinks(bookings.map(b => b.id));
+      } catch (error) {
+        // The spreadsheet is still useful without the invoice column
+        console.error('Error loading invoice links:', error);
+      }
+      const rows = buildExportRows(bookings, filters, {
+        desks,
+        clients,
+        invoiceLinks,
+        defaultCurrency: currentOrg?.currency ?? 'EUR',
+      });
+
+      const filename = `bookings-${startDate}-to-${endDate}.${format}`;
+      if (format === 'csv') {
+        download(new Blob([bookingsToCsv(rows)], { type: 'text/csv;charset=utf-8' }), filename);
+      } else {
+        download(
+          new Blob([bookingsToXlsx(rows)], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }),
+          filename,
+        );
+      }
+      toast({
+        title: 'Bookings exported',
+        description: `${rows.length} line${rows.length === 1 ? '' : 's'} written to ${filename}`,
+      });
+      onClose();
+    } catch (error) {
+      console.error('Export error:', error);
+      toast({
+        title: 'Export failed',
+        description: 'Failed to export bookings',
+        variant: 'destructive',
+      });
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5 text-blue-600" />
+            Export bookings
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="exportStart" className="text-sm font-medium text-gray-700">From</Label>
+              <Input id="exportStart" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className="mt-1" />
+            </div>
+            <div>
+              <Label htmlFor="exportEnd" className="text-sm font-medium text-gray-700">Until</Label>
+              <Input id="exportEnd" type="date" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} className="mt-1" />
+            </div>
+          </div>
+
+          {roomOptions.length > 1 && (
+            <div>
+              <Label className="text-sm font-medium text-gray-700">Rooms</Label>
+              <div className="flex flex-wrap gap-x-4 gap-y-2 mt-2">
+                {roomOptions.map(({ room, name }) => (
+                  <label key={room} className="flex items-center gap-2 text-sm text-gray-700">
+                    <Checkbox checked={rooms.includes(room)} onCheckedChange={() => setRooms(prev => toggle(prev, room))} />
+                    {name}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <Label className="text-sm font-medium text-gray-700">Plans</Label>
+            <div className="flex flex-wrap gap-x-4 gap-y-2 mt-2">
+              {EXPORT_PLANS.map(plan => (
+                <label key={plan} className="flex items-center gap-2 text-sm text-gray-700">
+                  <Checkbox checked={planTypes.includes(plan)} onCheckedChange={() => setPlanTypes(prev => toggle(prev, plan))} />
+                  {planLabel(plan)}
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">Leave rooms and plans unticked to include all of them.</p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label className="text-sm font-medium text-gray-700">Payment</Label>
+              <Select value={status} onValueChange={(v) => setStatus(v as DeskStatus | typeof ALL_STATUSES)}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_STATUSES}>Paid and unpaid</SelectItem>
+                  <SelectItem value="assigned">Paid</SelectItem>
+                  <SelectItem value="booked">Unpaid</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="text-sm font-medium text-gray-700">Client</Label>
+              <Select value={clientId} onValueChange={setClientId}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={SELECT_NONE_VALUE}>All clients</SelectItem>
+                  {clients.map(c => (
+                    <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {!rangeValid && (
+            <p className="text-xs text-red-600">The end date is before the start date.</p>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-3 mt-4">
+          {onBackup ? (
+            <Button variant="ghost" size="sm" onClick={() => { onBackup(); onClose(); }} className="text-gray-500">
+              Full backup (JSON)
+            </Button>
+          ) : <span />}
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => handleExport('csv')} disabled={!rangeValid || !!exporting}>
+              {exporting === 'csv' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+              CSV
+            </Button>
+            <Button onClick={() => handleExport('xlsx')} disabled={!rangeValid || !!exporting} className="bg-blue-600 hover:bg-blue-700">
+              {exporting === 'xlsx' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+              XLSX
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
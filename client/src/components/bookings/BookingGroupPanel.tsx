@@ -0,0 +1,145 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { Desk } from '@shared/schema';
+import { useBookingGroup, useBookingGroupActions } from '@/hooks/use-booking-groups';
+import { groupSpan } from '@/lib/bookingGroups';
+import { formatDateRange } from '@/lib/dateUtils';
+import { Loader2, Users } from 'lucide-react';
+
+interface BookingGroupPanelProps {
+  groupId: string;
+  desks: Desk[];
+  /** Called once the whole group was moved or cancelled. */
+  onDone: () => void;
+}
+
+/** Shown in the booking modal for a desk of a group booking. */
+export default function BookingGroupPanel({ groupId, desks, onDone }: BookingGroupPanelProps) {
+  const { data } = useBookingGroup(groupId);
+  const { changeGroupDates, cancelGroup } = useBookingGroupActions(desks);
+  const span = data ? groupSpan(data.rows) : null;
+
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [busy, setBusy] = useState<'dates' | 'cancel' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [confirmCancel, setConfirmCancel] = useState(false);
+
+  useEffect(() => {
+    if (span) {
+      setStartDate(span.startDate);
+      setEndDate(span.endDate);
+    }
+  }, [span?.startDate, span?.endDate]);
+
+  if (!span) return null;
+
+  const datesChanged = startDate !== span.startDate || endDate !== span.endDate;
+  const deskLabels = span.deskIds.map(id => desks.find(d => d.id === id)?.label || id);
+
+  const handleDates = async () => {
+    setBusy('dates');
+    setError(null);
+    try {
+      await changeGroupDates(groupId, startDate, endDate);
+      onDone();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to move the group.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleCancel = async () => {
+    setBusy('cancel');
+    setError(null);
+    try {
+      await cancelGroup(groupId);
+      setConfirmCancel(false);
+      onDone();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel the group.');
+      setConfirmCancel(false);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-sky-200 bg-sky-50 p-3 text-sm">
+      <div className="flex items-start gap-2">
+        <Users className="h-4 w-4 text-sky-600 shrink-0 mt-0.5" />
+        <div className="flex-1">
+          <p className="font-medium text-sky-900">{data?.group?.name || 'Group booking'}</p>
+          <p className="text-sky-800 text-xs mt-0.5">
+            {span.deskIds.length} desk{span.deskIds.length === 1 ? '' : 's'}, {formatDateRange(span.startDate, span.endDate)}
+          </p>
+          <p className="text-sky-700 text-xs mt-0.5">{deskLabels.join(', ')}</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 mt-2">
+        <div>
+          <Label htmlFor="groupFrom" className="text-xs text-sky-900">Group from</Label>
+          <Input id="groupFrom" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className="h-8 mt-0.5" />
+        </div>
+        <div>
+          <Label htmlFor="groupUntil" className="text-xs text-sky-900">Until</Label>
+          <Input id="groupUntil" type="date" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} className="h-8 mt-0.5" />
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-red-600 mt-2 whitespace-pre-line">{error}</p>}
+
+      <div className="flex gap-2 mt-2">
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={handleDates}
+          disabled={!datesChanged || !startDate || endDate < startDate || busy !== null}
+          className="flex-1 border-sky-200 text-sky-700 hover:bg-sky-100"
+        >
+          {busy === 'dates' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Move whole group
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={() => setConfirmCancel(true)}
+          disabled={busy !== null}
+          className="flex-1 border-red-200 text-red-600 hover:bg-red-50 hover:text-red-700"
+        >
+          Cancel group
+        </Button>
+      </div>
+
+      <AlertDialog open={confirmCancel} onOpenChange={setConfirmCancel}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancel group booking</AlertDialogTitle>
+            <AlertDialogDescription>
+              All {span.deskIds.length} desks of {data?.rows[0]?.personName || 'this group'} are released
+              for {formatDateRange(span.startDate, span.endDate)}.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={busy === 'cancel'}>Keep group</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleCancel}
+              disabled={busy === 'cancel'}
+              className="bg-red-600 hover:bg-red-700 text-white"
+            >
+              {busy === 'cancel' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Cancel group
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
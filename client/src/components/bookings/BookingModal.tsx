@@ -4,18 +4,32 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
-import { Desk, DeskBooking, DeskStatus, Currency, Client, PlanType } from '@shared/schema';
+import { DayPart, Desk, DeskBooking, DeskStatus, Currency, Client, PlanType, RecurrenceRule } from '@shared/schema';
 import { useOrganization } from '@/contexts/OrganizationContext';
 import { useDataStore } from '@/contexts/DataStoreContext';
 import { currencySymbols } from '@/lib/settings';
-import { Armchair, CalendarX, User, AlertCircle, Loader2, Check, Trash2, X, Share2, Package, ArrowRightLeft, Snowflake, CalendarDays, CalendarRange, Calendar, Infinity as InfinityIcon, StopCircle, BadgeCheck, Info } from 'lucide-react';
+import { Armchair, CalendarX, User, AlertCircle, Loader2, Check, Trash2, X, Share2, Package, ArrowRightLeft, Snowflake, CalendarDays, CalendarRange, Calendar, Infinity as InfinityIcon, StopCircle, BadgeCheck, Info, Repeat, UserX, UserCheck, Hourglass } from 'lucide-react';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
-import { formatLocalDate } from '@/lib/dateUtils';
+import { getAppTimeZone, todayString } from '@/lib/dateUtils';
 import { Checkbox } from '@/components/ui/checkbox';
 import ClientAutocomplete from '@/components/members/ClientAutocomplete';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { computePlanEnd, planAutoPrice, inferPlanFromBooking } from '@/lib/planDates';
+import { computePlanEnd, planAutoPrice, inferPlanFromBooking, addMonths, addDays } from '@/lib/planDates';
+import { describeBookingConflict, isBookingConflictError } from '@/lib/bookingConflicts';
+import AuditTrail from '@/components/shared/AuditTrail';
+import { bookingEntityId } from '@/lib/auditLog';
+import { DAY_LABELS, DEFAULT_WORKING_DAYS } from '@/lib/workingDays';
+import { describeRecurrence, expandRecurrence, occurrencesProblem, validateRecurrence } from '@/lib/bookingSeries';
+import { useBookingSeries } from '@/hooks/use-booking-series';
+import BookingGroupPanel from '@/components/bookings/BookingGroupPanel';
+import { closureAdjustedPlanPrice } from '@/lib/closures';
+import { lateCancellationFee, noShowFee } from '@/lib/bookingPolicy';
+import { canCheckIn } from '@/lib/checkIn';
+import { DEFAULT_HOLD_HOURS, holdExpiry, holdFromInput, holdInputValue, isHold } from '@/lib/holds';
+import { DAY_PART_LABELS, dayPartOf, dayPartsOverlap } from '@/lib/dayParts';
+import { quotePrice } from '@shared/pricing';
+import { chargedDays } from '@/lib/pricingRules';
 
 const MAX_CONFLICT_SUGGESTIONS = 6;
 
@@ -33,6 +47,8 @@ interface BookingModalProps {
   booking: DeskBooking | null;
   deskId: string;
   date: string;
+  /** Half of the day picked on the calendar for a new booking. */
+  dayPart?: DayPart;
   desks: Desk[];
   currency: Currency;
   onSave: (bookingData: {
@@ -48,12 +64,29 @@ interface BookingModalProps {
     isOngoing?: boolean;
     planType?: PlanType;
     newDeskId?: string;
+    recurrence?: RecurrenceRule;
+    dayPart?: DayPart;
+    heldUntil?: string | null;
   }) => Promise<void>;
-  onDiscard?: () => Promise<void>;
+  /** `waiveFee` skips the late cancellation fee of the organization's policy. */
+  onDiscard?: (options?: { waiveFee?: boolean }) => Promise<void>;
+  onMarkNoShow?: () => Promise<void>;
+  onCheckIn?: () => Promise<void>;
+  onCancelSeries?: (fromDate: string) => Promise<void>;
   onFreezePlan?: (pausedAt: string) => Promise<void>;
   onEndContract?: (newEndDate: string) => Promise<void>;
   onMarkOngoingPaid?: () => Promise<unknown>;
   onShare?: (savedData: { personName: string; startDate: string; endDate: string; status: DeskStatus; title: string; price: number; currency: Currency; clientId?: string }) => void;
+  /** Starting values for a new booking made from elsewhere, e.g. a waiting-list entry. */
+  prefill?: BookingPrefill;
+}
+
+export interface BookingPrefill {
+  personName: string;
+  clientId?: string;
+  title?: string;
+  planType?: PlanType;
+  endDate?: string;
 }
 
 export default function BookingModal({
@@ -62,16 +95,21 @@ export default function BookingModal({
   booking,
   deskId,
   date,
+  dayPart: initialDayPart,
   desks,
   currency,
   onSave,
   onDiscard,
+  onMarkNoShow,
+  onCheckIn,
+  onCancelSeries,
   onFreezePlan,
   onEndContract,
   onMarkOngoingPaid,
   onShare,
+  prefill,
 }: BookingModalProps) {
-  const { currentOrg } = useOrganization();
+  const { currentOrg, desks: orgDesks } = useOrganization();
   const dataStore = useDataStore();
   const defaultPrice = currentOrg?.defaultPricePerDay ?? 8;
   const flexConfigured = !!(currentOrg?.flexPlanDays && currentOrg.flexPlanDays > 0 && currentOrg?.flexPlanPrice && currentOrg.flexPlanPrice > 0);
@@ -83,13 +121,20 @@ export default function BookingModal({
   const [title, setTitle] = useState('');
   const [price, setPrice] = useState('');
   const [status, setStatus] = useState<DeskStatus>('assigned');
+  const [hold, setHold] = useState(false);
+  const [holdUntil, setHoldUntil] = useState('');
   const [startDate, setStartDate] = useState('');
   const [endDate, setEndDate] = useState('');
   const [endDateTouched, setEndDateTouched] = useState(false);
   const [conflictError, setConflictError] = useState<string>('');
+  // Bumped when a save loses a race so the busy-desk scan runs again
+  const [conflictScan, setConflictScan] = useState(0);
   const [isLoading, setIsLoading] = useState(false);
   const [isDiscarding, setIsDiscarding] = useState(false);
   const [confirmDiscard, setConfirmDiscard] = useState(false);
+  const [waiveFee, setWaiveFee] = useState(false);
+  const [isMarkingNoShow, setIsMarkingNoShow] = useState(false);
+  const [isCheckingIn, setIsCheckingIn] = useState(false);
   const [freezeDialogOpen, setFreezeDialogOpen] = useState(false);
   const [freezeDate, setFreezeDate] = useState('');
   const [isFreezing, setIsFreezing] = useState(false);
@@ -103,8 +148,20 @@ export default function BookingModal({
   const [availableDesks, setAvailableDesks] = useState<Desk[]>([]);
   const [loadingDesks, setLoadingDesks] = useState(false);
   const [planKey, setPlanKey] = useState<PlanType>('day_pass');
+  const [dayPart, setDayPart] = useState<DayPart>('full');
   const [busyDeskIds, setBusyDeskIds] = useState<Set<string>>(new Set());
   const planChangedByUser = useRef(false);
+  const workingDays = currentOrg?.workingDays ?? DEFAULT_WORKING_DAYS;
+  const { data: series } = useBookingSeries(booking?.seriesId);
+  const [repeat, setRepeat] = useState(false);
+  const [repeatWeekdays, setRepeatWeekdays] = useState<number[]>([]);
+  const [repeatInterval, setRepeatInterval] = useState('1');
+  const [repeatEnd, setRepeatEnd] = useState<'until' | 'count'>('until');
+  const [repeatUntil, setRepeatUntil] = useState('');
+  const [repeatCount, setRepeatCount] = useState('10');
+  const [cancelSeriesDialogOpen, setCancelSeriesDialogOpen] = useState(false);
+  const [cancelSeriesDate, setCancelSeriesDate] = useState('');
+  const [isCancellingSeries, setIsCancellingSeries] = useState(false);
 
   const weeklyEnabled = !!(currentOrg?.weeklyPlanPrice && currentOrg.weeklyPlanPrice > 0);
   const monthlyEnabled = !!(currentOrg?.monthlyPlanPrice && currentOrg.monthlyPlanPrice > 0);
@@ -122,8 +179,18 @@ export default function BookingModal({
       setClientId(booking?.clientId);
       setSelectedClient(null);
       setTitle(booking?.title || '');
-      setPrice(booking?.price?.toString() || String(defaultPrice));
+      const openingDayPart = booking ? dayPartOf(booking) : (initialDayPart ?? 'full');
+      setDayPart(openingDayPart);
+      setPrice(
+        booking?.price?.toString()
+        || String(openingDayPart !== 'full' && currentOrg?.halfDayPrice ? currentOrg.halfDayPrice : defaultPrice),
+      );
       setStatus(booking?.status || 'assigned');
+      setHold(!!booking && isHold(booking));
+      setHoldUntil(holdInputValue(
+        booking?.heldUntil || holdExpiry(currentOrg?.publicHoldHours ?? DEFAULT_HOLD_HOURS),
+        getAppTimeZone(),
+      ));
       setNewDeskId(deskId);
 
       // Handle date logic more carefully
@@ -148,14 +215,39 @@ export default function BookingModal({
 
       setConflictError('');
       setConfirmDiscard(false);
+      setWaiveFee(false);
       setFreezeDialogOpen(false);
       setShareOnSave(false);
       setEndDateTouched(isOpen && !!booking && booking.startDate !== booking.endDate);
       setPlanKey(booking ? inferPlanFromBooking(booking) : 'day_pass');
       setIsOngoing(!!booking?.isOngoing);
       setEndContractDialogOpen(false);
+      setRepeat(false);
+      const isoDay = new Date(date + 'T00:00:00').getDay() || 7;
+      setRepeatWeekdays([isoDay]);
+      setRepeatInterval('1');
+      setRepeatEnd('until');
+      setRepeatUntil(addDays(addMonths(date, 3), -1));
+      setRepeatCount('10');
+      setCancelSeriesDialogOpen(false);
+
+      if (!booking && prefill) {
+        setPersonName(prefill.personName);
+        setClientId(prefill.clientId);
+        setTitle(prefill.title ?? '');
+        const prefillPlan = prefill.planType && prefill.planType !== 'flex' && availablePlans.includes(prefill.planType)
+          ? prefill.planType
+          : prefill.endDate && prefill.endDate > date ? 'custom' : 'day_pass';
+        setPlanKey(prefillPlan);
+        const auto = planAutoPrice(prefillPlan, currentOrg);
+        if (auto != null) setPrice(auto.toString());
+        if (prefillPlan === 'custom' && prefill.endDate) {
+          setEndDate(prefill.endDate);
+          setEndDateTouched(true);
+        }
+      }
     }
-  }, [isOpen, booking, date]);
+  }, [isOpen, booking, date, initialDayPart, prefill]);
 
   // When the user manually switches plan, reset the auto-price. Skip during
   // modal initialization (planKey set from existing booking on open).
@@ -179,6 +271,16 @@ export default function BookingModal({
     if (nextEnd !== endDate) setEndDate(nextEnd);
   }, [planKey, startDate]);
 
+  // Weekly and monthly plans are priced for a full period; when the space is
+  // closed for part of it, offer the price cut to the days it is open.
+  const closureDiscount = useMemo(() => {
+    if (planKey !== 'weekly' && planKey !== 'monthly') return null;
+    if (!currentOrg?.closures?.length) return null;
+    const planPrice = planAutoPrice(planKey, currentOrg);
+    if (planPrice == null) return null;
+    return closureAdjustedPlanPrice(planPrice, startDate, endDate, workingDays, currentOrg.closures);
+  }, [planKey, currentOrg, startDate, endDate, workingDays]);
+
   // Ongoing is only valid for monthly plans (rolling renewal) that are
   // operator-assigned. Keeps revenue/member-reporting semantics simple since
   // every ongoing booking flows through the same dedicated-plan query path.
@@ -189,9 +291,72 @@ export default function BookingModal({
     if (!ongoingEligible && isOngoing) setIsOngoing(false);
   }, [ongoingEligible, isOngoing]);
 
+  // Morning/afternoon passes are single-day, one-off day passes. The choice
+  // shows when the org sells half days, or when editing one it already sold.
+  const halfDayPrice = currentOrg?.halfDayPrice && currentOrg.halfDayPrice > 0 ? currentOrg.halfDayPrice : null;
+  const halfDayEligible = planKey === 'day_pass'
+    && !flexClient
+    && !repeat
+    && !!startDate && startDate === endDate;
+  const showDayPart = halfDayEligible && (!!halfDayPrice || dayPart !== 'full');
+  const effectiveDayPart: DayPart = halfDayEligible ? dayPart : 'full';
+
+  const changeDayPart = (next: DayPart) => {
+    setDayPart(next);
+    const auto = next === 'full' ? planAutoPrice('day_pass', currentOrg) : halfDayPrice;
+    if (auto != null) setPrice(auto.toString());
+  };
+
+  // Weekly repeat applies to full-day passes only. Editing an existing series
+  // keeps its original start; changes land from today onward.
+  const editingSeries = !!booking?.seriesId && !!series;
+  const repeatEligible = planKey === 'day_pass'
+    && !flexClient
+    && dayPart === 'full'
+    && (!booking || booking.status === 'available' || editingSeries);
+  const recurrence = useMemo<RecurrenceRule | null>(() => {
+    if (!repeat || !repeatEligible) return null;
+    return {
+      weekdays: repeatWeekdays,
+      intervalWeeks: Math.max(1, parseInt(repeatInterval, 10) || 1),
+      startDate: editingSeries && series ? series.rule.startDate : startDate,
+      untilDate: repeatEnd === 'until' ? (repeatUntil || null) : null,
+      occurrenceCount: repeatEnd === 'count' ? (parseInt(repeatCount, 10) || null) : null,
+    };
+  }, [repeat, repeatEligible, repeatWeekdays, repeatInterval, editingSeries, series, startDate, repeatEnd, repeatUntil, repeatCount]);
+  const allOccurrenceDates = useMemo(
+    () => (recurrence ? expandRecurrence(recurrence, workingDays, currentOrg?.closures) : []),
+    [recurrence, workingDays, currentOrg?.closures],
+  );
+  const occurrenceDates = useMemo(
+    () => (editingSeries ? allOccurrenceDates.filter(d => d >= todayString()) : allOccurrenceDates),
+    [allOccurrenceDates, editingSeries],
+  );
+  const recurrenceProblem = recurrence
+    ? validateRecurrence(recurrence)
+      ?? occurrencesProblem(recurrence, allOccurrenceDates)
+      ?? (occurrenceDates.length === 0 ? 'No working days match this repeat rule.' : null)
+    : null;
+
+  const startEditingSeries = () => {
+    if (series) {
+      setRepeatWeekdays(series.rule.weekdays);
+      setRepeatInterval(String(series.rule.intervalWeeks || 1));
+      setRepeatEnd(series.rule.untilDate ? 'until' : 'count');
+      if (series.rule.untilDate) setRepeatUntil(series.rule.untilDate);
+      if (series.rule.occurrenceCount) setRepeatCount(String(series.rule.occurrenceCount));
+    }
+    setRepeat(true);
+  };
+
+  const toggleRepeatWeekday = (day: number) => {
+    setRepeatWeekdays(days => days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort((a, b) => a - b));
+  };
+
   // Scan the current range for conflicts (applies to both new and existing
   // bookings — a plan can stretch dates beyond what the user clicked).
   useEffect(() => {
+    if (recurrence) return;
     if (!isOpen || !startDate || !endDate) {
       setAvailableDesks(desks);
       setBusyDeskIds(new Set());
@@ -212,9 +377,12 @@ export default function BookingModal({
         if (
           booking &&
           b.deskId === booking.deskId &&
+          dayPartOf(b) === dayPartOf(booking) &&
           b.date >= booking.startDate &&
           b.date <= booking.endDate
         ) continue;
+        // A morning pass leaves the desk free for the afternoon
+        if (!dayPartsOverlap(dayPartOf(b), effectiveDayPart)) continue;
         if (b.status !== 'available') {
           busy.add(b.deskId);
         }
@@ -235,9 +403,60 @@ export default function BookingModal({
     });
 
     return () => { cancelled = true; };
-  }, [isOpen, booking, startDate, endDate, deskId, desks, dataStore]);
+  }, [isOpen, booking, startDate, endDate, deskId, desks, dataStore, conflictScan, recurrence, effectiveDayPart]);
+
+  // A repeating booking only needs its desk free on the occurrence dates;
+  // the series' own rows don't count against it.
+  useEffect(() => {
+    if (!isOpen || !recurrence) return;
+    if (occurrenceDates.length === 0) {
+      setAvailableDesks(desks);
+      setBusyDeskIds(new Set());
+      return;
+    }
+    let cancelled = false;
+    setLoadingDesks(true);
+    const wanted = new Set(occurrenceDates);
+
+    dataStore.getBookingsForDateRange(occurrenceDates[0], occurrenceDates[occurrenceDates.length - 1]).then(allBookings => {
+      if (cancelled) return;
+      const busy = new Set<string>();
+      for (const b of allBookings) {
+        if (!wanted.has(b.date) || b.status === 'available') continue;
+        if (booking?.seriesId && b.seriesId === booking.seriesId) continue;
+        busy.add(b.deskId);
+      }
+      setAvailableDesks(desks.filter(d => d.id === deskId || !busy.has(d.id)));
+      setBusyDeskIds(busy);
+      setLoadingDesks(false);
+    }).catch(() => {
+      if (!cancelled) {
+        setAvailableDesks(desks);
+        setBusyDeskIds(new Set());
+        setLoadingDesks(false);
+      }
+    });
+
+    return () => { cancelled = true; };
+  }, [isOpen, recurrence, occurrenceDates, booking, deskId, desks, dataStore, conflictScan]);
 
   const activeDeskId = newDeskId || deskId;
+
+  // What the space's pricing rules make of this booking, itemized under the
+  // price. Spaces without rules keep their flat plan prices as before.
+  const roomId = orgDesks.find(d => d.deskId === activeDeskId)?.roomId;
+  const quote = useMemo(() => {
+    if (!currentOrg?.pricingRules?.length) return null;
+    // A series is priced per visit, from its first day
+    const days = chargedDays(startDate, recurrence ? startDate : endDate, workingDays, currentOrg.closures, { deskId: activeDeskId, roomId });
+    if (days.length === 0) return null;
+    return quotePrice({ ...currentOrg, defaultPricePerDay: defaultPrice }, {
+      plan: flexClient ? 'flex' : planKey,
+      days,
+      dayPart: effectiveDayPart,
+      customer: clientId ? 'member' : 'visitor',
+    });
+  }, [currentOrg, defaultPrice, startDate, endDate, recurrence, workingDays, activeDeskId, roomId, flexClient, planKey, effectiveDayPart, clientId]);
   const hasDeskConflict = !!startDate && !!endDate && busyDeskIds.has(activeDeskId);
   const freeDesks = useMemo(
     () => desks.filter(d => d.id !== activeDeskId && !busyDeskIds.has(d.id)),
@@ -293,6 +512,11 @@ export default function BookingModal({
           isOngoing: isOngoing && ongoingEligible,
           planType: flexClient ? 'flex' : planKey,
           newDeskId: newDeskId !== deskId ? newDeskId : undefined,
+          recurrence: recurrence ?? undefined,
+          dayPart: effectiveDayPart,
+          heldUntil: status === 'booked' && hold && !recurrence && holdUntil
+            ? holdFromInput(holdUntil, getAppTimeZone())
+            : null,
         });
         if (onShare && shareOnSave) {
           onShare({
@@ -309,7 +533,12 @@ export default function BookingModal({
           onClose();
         }
       } catch (error: any) {
-        if (error.message && error.message.includes('conflict')) {
+        if (isBookingConflictError(error)) {
+          // Desk was taken while the modal was open — refresh the free-desk
+          // suggestions so the user can pick another one.
+          setConflictError(describeBookingConflict(error));
+          setConflictScan(n => n + 1);
+        } else if (error.message && (error.message.includes('conflict') || recurrence)) {
           setConflictError(error.message);
         } else {
           setConflictError('An error occurred while saving the booking.');
@@ -328,6 +557,14 @@ export default function BookingModal({
     }
   };
 
+  const cancellationFee = booking
+    ? lateCancellationFee(currentOrg?.bookingPolicy, booking, new Date(), currentOrg?.timezone)
+    : 0;
+  const noShowCharge = booking ? noShowFee(currentOrg?.bookingPolicy, booking) : 0;
+  // Only a day that has come can be missed
+  const canMarkNoShow = !!booking && booking.status !== 'available' && !booking.noShow && !booking.checkedInAt && date <= todayString();
+  const canCheckInToday = !!booking && canCheckIn({ ...booking, date }, todayString());
+
   const handleDiscard = async () => {
     if (!onDiscard) return;
     if (!confirmDiscard) {
@@ -336,7 +573,7 @@ export default function BookingModal({
     }
     try {
       setIsDiscarding(true);
-      await onDiscard();
+      await onDiscard(cancellationFee > 0 ? { waiveFee } : undefined);
       onClose();
     } catch (error) {
       setConflictError('Failed to discard booking.');
@@ -346,8 +583,34 @@ export default function BookingModal({
     }
   };
 
+  const handleMarkNoShow = async () => {
+    if (!onMarkNoShow) return;
+    try {
+      setIsMarkingNoShow(true);
+      await onMarkNoShow();
+      onClose();
+    } catch (error) {
+      setConflictError(error instanceof Error ? error.message : 'Failed to mark the no-show.');
+    } finally {
+      setIsMarkingNoShow(false);
+    }
+  };
+
+  const handleCheckIn = async () => {
+    if (!onCheckIn) return;
+    try {
+      setIsCheckingIn(true);
+      await onCheckIn();
+      onClose();
+    } catch (error) {
+      setConflictError(error instanceof Error ? error.message : 'Failed to check in.');
+    } finally {
+      setIsCheckingIn(false);
+    }
+  };
+
   const openFreezeDialog = () => {
-    const today = formatLocalDate(new Date());
+    const today = todayString();
     // Default to whichever is later: today or the plan's start (can't freeze
     // before the plan started — past days already count as revenue anyway).
     const defaultDate = booking && booking.startDate > today ? booking.startDate : today;
@@ -355,8 +618,28 @@ export default function BookingModal({
     setFreezeDialogOpen(true);
   };
 
+  const openCancelSeriesDialog = () => {
+    const today = todayString();
+    setCancelSeriesDate(date > today ? date : today);
+    setCancelSeriesDialogOpen(true);
+  };
+
+  const handleCancelSeriesConfirm = async () => {
+    if (!onCancelSeries || !cancelSeriesDate) return;
+    try {
+      setIsCancellingSeries(true);
+      await onCancelSeries(cancelSeriesDate);
+      setCancelSeriesDialogOpen(false);
+      onClose();
+    } catch (error) {
+      setConflictError('Failed to cancel the recurring booking.');
+    } finally {
+      setIsCancellingSeries(false);
+    }
+  };
+
   const openEndContractDialog = () => {
-    const today = formatLocalDate(new Date());
+    const today = todayString();
     const defaultDate = booking && booking.startDate > today ? booking.startDate : today;
     setEndContractDate(defaultDate);
     setEndContractDialogOpen(true);
@@ -435,7 +718,7 @@ export default function BookingModal({
   const isValidForm = personName.trim() &&
                      price.trim() && !isNaN(parseFloat(price)) && parseFloat(price) >= 0 &&
                      startDate && endDate && startDate <= endDate &&
-                     !hasDeskConflict;
+                     !hasDeskConflict && !recurrenceProblem;
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
@@ -570,6 +853,162 @@ export default function BookingModal({
             )}
           </div>
 
+          {showDayPart && (
+            <div>
+              <Label className="text-sm font-medium text-gray-700">Time of day</Label>
+              <div className="grid grid-cols-3 gap-1.5 mt-1">
+                {(['full', 'am', 'pm'] as const).map((part) => (
+                  <button
+                    key={part}
+                    type="button"
+                    onClick={() => changeDayPart(part)}
+                    className={`px-2 py-1.5 rounded-lg border-2 text-xs font-medium transition-colors ${
+                      dayPart === part
+                        ? 'border-blue-400 bg-blue-50 text-blue-700'
+                        : 'border-gray-200 text-gray-600 hover:border-gray-300'
+                    }`}
+                  >
+                    {DAY_PART_LABELS[part]}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {isExistingBooking && booking?.bookingGroupId && (
+            <BookingGroupPanel groupId={booking.bookingGroupId} desks={desks} onDone={onClose} />
+          )}
+
+          {isExistingBooking && editingSeries && series && (
+            <div className="rounded-lg border border-violet-200 bg-violet-50 p-3 text-sm">
+              <div className="flex items-start gap-2">
+                <Repeat className="h-4 w-4 text-violet-600 shrink-0 mt-0.5" />
+                <div className="flex-1">
+                  <p className="font-medium text-violet-900">Part of a recurring booking</p>
+                  <p className="text-violet-800 text-xs mt-0.5">{describeRecurrence(series.rule)}</p>
+                  <p className="text-violet-700 text-xs mt-1">
+                    {repeat ? 'Changes apply to visits from today on; past visits stay as they are.' : 'Saving changes only this visit.'}
+                  </p>
+                </div>
+              </div>
+              <div className="flex gap-2 mt-2">
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() => (repeat ? setRepeat(false) : startEditingSeries())}
+                  className="flex-1 border-violet-200 text-violet-700 hover:bg-violet-100"
+                >
+                  {repeat ? 'Edit this visit only' : 'Edit series'}
+                </Button>
+                {onCancelSeries && (
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    onClick={openCancelSeriesDialog}
+                    disabled={isCancellingSeries || isLoading}
+                    className="flex-1 border-red-200 text-red-600 hover:bg-red-50 hover:text-red-700"
+                  >
+                    Cancel series
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {repeatEligible && !editingSeries && (
+            <div className="flex items-center gap-2 rounded-lg border border-gray-200 bg-gray-50 px-3 py-2">
+              <Checkbox
+                id="repeatWeekly"
+                checked={repeat}
+                onCheckedChange={(v) => setRepeat(!!v)}
+              />
+              <label htmlFor="repeatWeekly" className="text-sm text-gray-700 cursor-pointer select-none flex items-center gap-1.5 flex-1">
+                <Repeat className="h-3.5 w-3.5 text-violet-600" />
+                Repeat weekly
+              </label>
+            </div>
+          )}
+
+          {recurrence && (
+            <div className="rounded-lg border border-gray-200 p-3 space-y-3">
+              <div>
+                <Label className="text-sm font-medium text-gray-700">Repeat on</Label>
+                <div className="grid grid-cols-7 gap-1 mt-1">
+                  {[1, 2, 3, 4, 5, 6, 7].map(day => {
+                    const works = workingDays.includes(day);
+                    const selected = repeatWeekdays.includes(day);
+                    return (
+                      <button
+                        key={day}
+                        type="button"
+                        disabled={!works}
+                        onClick={() => toggleRepeatWeekday(day)}
+                        className={`py-1.5 rounded border-2 text-xs font-medium transition-colors ${
+                          !works ? 'opacity-40 cursor-not-allowed border-gray-200 text-gray-400' :
+                          selected
+                            ? 'border-violet-400 bg-violet-50 text-violet-700'
+                            : 'border-gray-200 text-gray-600 hover:border-gray-300'
+                        }`}
+                        title={works ? DAY_LABELS[day] : `${DAY_LABELS[day]} is not a working day`}
+                      >
+                        {DAY_LABELS[day]}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-2 sm:gap-4">
+                <div>
+                  <Label htmlFor="repeatInterval" className="text-sm font-medium text-gray-700">Every (weeks)</Label>
+                  <Input
+                    id="repeatInterval"
+                    type="number"
+                    min="1"
+                    max="8"
+                    value={repeatInterval}
+                    onChange={(e) => setRepeatInterval(e.target.value)}
+                    className="mt-1"
+                  />
+                </div>
+                <div>
+                  <Label className="text-sm font-medium text-gray-700">Ends</Label>
+                  <Select value={repeatEnd} onValueChange={(v) => setRepeatEnd(v as 'until' | 'count')}>
+                    <SelectTrigger className="mt-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="until">On date</SelectItem>
+                      <SelectItem value="count">After visits</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              {repeatEnd === 'until' ? (
+                <Input
+                  type="date"
+                  aria-label="Repeat until"
+                  value={repeatUntil}
+                  min={recurrence.startDate}
+                  onChange={(e) => setRepeatUntil(e.target.value)}
+                />
+              ) : (
+                <Input
+                  type="number"
+                  aria-label="Number of visits"
+                  min="1"
+                  value={repeatCount}
+                  onChange={(e) => setRepeatCount(e.target.value)}
+                />
+              )}
+              <p className={`text-xs ${recurrenceProblem ? 'text-red-600' : 'text-gray-500'}`}>
+                {recurrenceProblem
+                  ?? `${occurrenceDates.length} visit${occurrenceDates.length === 1 ? '' : 's'}${editingSeries ? ' from today' : ''} · ${describeRecurrence(recurrence)}`}
+              </p>
+            </div>
+          )}
+
           {ongoingEligible && (!booking || !booking.isOngoing) && (
             <div className="flex items-center gap-2 rounded-lg border border-gray-200 bg-gray-50 px-3 py-2">
               <Checkbox
@@ -710,11 +1149,38 @@ export default function BookingModal({
                 <span className="text-sm font-medium">Assigned</span>
               </button>
             </div>
+            {status === 'booked' && !recurrence && (
+              <div className="mt-2">
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="holdBooking"
+                    checked={hold}
+                    onCheckedChange={(v) => setHold(!!v)}
+                  />
+                  <label htmlFor="holdBooking" className="text-sm text-gray-600 cursor-pointer select-none flex items-center gap-1.5">
+                    <Hourglass className="h-3.5 w-3.5" />
+                    Hold until
+                  </label>
+                  <Input
+                    type="datetime-local"
+                    value={holdUntil}
+                    onChange={(e) => setHoldUntil(e.target.value)}
+                    disabled={!hold}
+                    className="h-8 w-auto"
+                  />
+                </div>
+                {hold && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Released automatically if it isn't paid by then.
+                  </p>
+                )}
+              </div>
+            )}
           </div>
 
           <div>
             <Label htmlFor="price" className="text-sm font-medium text-gray-700">
-              Price ({currencySymbols[currency]}) *
+              {recurrence ? 'Price per visit' : 'Price'} ({currencySymbols[currency]}) *
             </Label>
             <div className="relative mt-1">
               <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-500 text-sm">
@@ -733,8 +1199,47 @@ export default function BookingModal({
               />
             </div>
             <p className="text-xs text-gray-500 mt-1">
-              Enter the total price for this booking
+              {recurrence ? 'Charged for every visit in the series' : 'Enter the total price for this booking'}
             </p>
+            {closureDiscount && parseFloat(price) !== closureDiscount.price && (
+              <div className="flex items-center justify-between gap-2 mt-2 text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded-md px-2 py-1.5">
+                <span>
+                  Closed {closureDiscount.closedDays} of {closureDiscount.workingDays} working days
+                  ({closureDiscount.labels.join(', ')})
+                </span>
+                <button
+                  type="button"
+                  onClick={() => setPrice(closureDiscount.price.toString())}
+                  className="shrink-0 font-medium text-amber-900 underline underline-offset-2"
+                >
+                  Use {currencySymbols[currency]}{closureDiscount.price.toFixed(2)}
+                </button>
+              </div>
+            )}
+            {quote && quote.lines.length > 1 && (
+              <div className="mt-2 text-xs text-emerald-900 bg-emerald-50 border border-emerald-200 rounded-md px-2 py-1.5 space-y-0.5">
+                {quote.lines.map((line) => (
+                  <div key={line.ruleId ?? 'base'} className="flex justify-between gap-2">
+                    <span>{line.label}</span>
+                    <span>{line.amount < 0 ? '−' : ''}{currencySymbols[currency]}{Math.abs(line.amount).toFixed(2)}</span>
+                  </div>
+                ))}
+                <div className="flex items-center justify-between gap-2 pt-0.5 border-t border-emerald-200 font-medium">
+                  <span>Pricing rules total</span>
+                  {parseFloat(price) !== quote.price ? (
+                    <button
+                      type="button"
+                      onClick={() => setPrice(quote.price.toString())}
+                      className="shrink-0 font-medium text-emerald-900 underline underline-offset-2"
+                    >
+                      Use {currencySymbols[currency]}{quote.price.toFixed(2)}
+                    </button>
+                  ) : (
+                    <span>{currencySymbols[currency]}{quote.price.toFixed(2)}</span>
+                  )}
+                </div>
+              </div>
+            )}
           </div>
 
           {!isExistingBooking && onShare && (
@@ -762,6 +1267,41 @@ export default function BookingModal({
               </div>
             </div>
           )}
+
+          {isExistingBooking && booking?.noShow && (
+            <p className="text-sm text-gray-600 bg-gray-50 border border-gray-200 rounded-lg px-3 py-2 flex items-center gap-2">
+              <UserX className="h-4 w-4 text-gray-500 shrink-0" />
+              {booking.personName || 'The booking'} didn't turn up on this day.
+            </p>
+          )}
+
+          {isExistingBooking && booking?.checkedInAt && (
+            <p className="text-sm text-emerald-700 bg-emerald-50 border border-emerald-200 rounded-lg px-3 py-2 flex items-center gap-2">
+              <UserCheck className="h-4 w-4 text-emerald-600 shrink-0" />
+              Checked in at {new Date(booking.checkedInAt).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit', timeZone: getAppTimeZone() })}.
+            </p>
+          )}
+
+          {confirmDiscard && cancellationFee > 0 && (
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 space-y-2">
+              <p className="text-sm text-amber-800">
+                This is past the free cancellation window: a late cancellation fee
+                of {currencySymbols[booking?.currency || currency]}{cancellationFee.toFixed(2)} is recorded
+                for {booking?.personName || 'this booking'}.
+              </p>
+              <div className="flex items-center gap-2">
+                <Checkbox id="waiveFee" checked={waiveFee} onCheckedChange={(v) => setWaiveFee(!!v)} />
+                <label htmlFor="waiveFee" className="text-sm text-amber-800 cursor-pointer select-none">Waive the fee</label>
+              </div>
+            </div>
+          )}
+
+          {isExistingBooking && booking && (
+            <AuditTrail
+              filter={{ entityType: 'booking', entityId: bookingEntityId(booking) }}
+              emptyText="No changes recorded for this booking yet."
+            />
+          )}
         </div>
 
         <div className="flex flex-wrap gap-2 sm:gap-3 mt-6">
@@ -790,6 +1330,29 @@ export default function BookingModal({
               )}
             </Button>
           )}
+          {isExistingBooking && onCheckIn && canCheckInToday && (
+            <Button
+              variant="outline"
+              onClick={handleCheckIn}
+              disabled={isCheckingIn || isLoading || isDiscarding}
+              className="flex-1 border-emerald-200 text-emerald-700 hover:bg-emerald-50"
+            >
+              {isCheckingIn ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <UserCheck className="h-4 w-4 mr-2" />}
+              Check in
+            </Button>
+          )}
+          {isExistingBooking && onMarkNoShow && canMarkNoShow && (
+            <Button
+              variant="outline"
+              onClick={handleMarkNoShow}
+              disabled={isMarkingNoShow || isLoading || isDiscarding}
+              title={noShowCharge > 0 ? `Records a ${currencySymbols[booking?.currency || currency]}${noShowCharge.toFixed(2)} no-show fee` : undefined}
+              className="flex-1 border-gray-200 text-gray-700 hover:bg-gray-50"
+            >
+              {isMarkingNoShow ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <UserX className="h-4 w-4 mr-2" />}
+              No-show
+            </Button>
+          )}
           {isExistingBooking
             && onFreezePlan
             && booking?.status === 'assigned'
@@ -942,6 +1505,49 @@ export default function BookingModal({
         </AlertDialogContent>
       </AlertDialog>
 
+      <AlertDialog open={cancelSeriesDialogOpen} onOpenChange={setCancelSeriesDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle className="flex items-center gap-2">
+              <Repeat className="h-5 w-5 text-red-600" />
+              Cancel recurring booking
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Visits from this date onward will be removed and the desk released.
+              Earlier visits stay and count as revenue.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="py-2">
+            <Label htmlFor="cancelSeriesDate">Cancel from</Label>
+            <Input
+              id="cancelSeriesDate"
+              type="date"
+              value={cancelSeriesDate}
+              min={series?.rule.startDate}
+              onChange={(e) => setCancelSeriesDate(e.target.value)}
+              className="mt-1"
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isCancellingSeries}>Keep series</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleCancelSeriesConfirm}
+              disabled={isCancellingSeries || !cancelSeriesDate}
+              className="bg-red-600 hover:bg-red-700 text-white"
+            >
+              {isCancellingSeries ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Cancelling...
+                </>
+              ) : (
+                'Cancel series'
+              )}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       <AlertDialog open={endContractDialogOpen} onOpenChange={setEndContractDialogOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
@@ -0,0 +1,153 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DeskBlock, DeskBlockReason } from '@shared/schema';
+import { DESK_BLOCK_REASON_LABELS, validateDeskBlock } from '@/lib/deskBlocks';
+import { formatDateRange } from '@/lib/dateUtils';
+import { Loader2, Wrench } from 'lucide-react';
+
+interface DeskBlockModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  block: DeskBlock | null;
+  deskLabel: string;
+  onSave: (block: DeskBlock) => Promise<void>;
+  onRemove: (id: string) => Promise<void>;
+}
+
+export default function DeskBlockModal({ isOpen, onClose, block, deskLabel, onSave, onRemove }: DeskBlockModalProps) {
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [reason, setReason] = useState<DeskBlockReason>('maintenance');
+  const [note, setNote] = useState('');
+  const [busy, setBusy] = useState<'save' | 'remove' | null>(null);
+
+  useEffect(() => {
+    if (isOpen && block) {
+      setStartDate(block.startDate);
+      setEndDate(block.endDate);
+      setReason(block.reason);
+      setNote(block.note ?? '');
+      setBusy(null);
+    }
+  }, [isOpen, block]);
+
+  if (!block) return null;
+
+  const problem = validateDeskBlock({ deskId: block.deskId, startDate, endDate });
+
+  const handleSave = async () => {
+    if (problem) return;
+    setBusy('save');
+    try {
+      await onSave({ ...block, startDate, endDate, reason, note: note.trim() || undefined });
+      onClose();
+    } catch {
+      // The mutation already toasted the error
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleRemove = async () => {
+    setBusy('remove');
+    try {
+      await onRemove(block.id);
+      onClose();
+    } catch {
+      // The mutation already toasted the error
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Wrench className="h-5 w-5 text-slate-500" />
+            {deskLabel} is out of service
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="blockStart" className="text-sm font-medium text-gray-700">From</Label>
+              <Input
+                id="blockStart"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="blockEnd" className="text-sm font-medium text-gray-700">Until</Label>
+              <Input
+                id="blockEnd"
+                type="date"
+                value={endDate}
+                min={startDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+          </div>
+
+          {problem ? (
+            <p className="text-sm text-red-600">{problem}</p>
+          ) : (
+            <div className="text-sm text-gray-600 bg-gray-50 p-2 rounded">
+              {formatDateRange(startDate, endDate)}
+            </div>
+          )}
+
+          <div>
+            <Label className="text-sm font-medium text-gray-700">Reason</Label>
+            <Select value={reason} onValueChange={(v) => setReason(v as DeskBlockReason)}>
+              <SelectTrigger className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(DESK_BLOCK_REASON_LABELS) as DeskBlockReason[]).map((r) => (
+                  <SelectItem key={r} value={r}>{DESK_BLOCK_REASON_LABELS[r]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <Label htmlFor="blockNote" className="text-sm font-medium text-gray-700">Note</Label>
+            <Input
+              id="blockNote"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="e.g. Monitor being replaced"
+              className="mt-1"
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-between gap-3 mt-6">
+          <Button variant="outline" onClick={handleRemove} disabled={busy !== null}>
+            {busy === 'remove' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Back in service
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={!!problem || busy !== null}
+            className="bg-blue-600 hover:bg-blue-700"
+          >
+            {busy === 'save' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
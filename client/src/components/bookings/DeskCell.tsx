@@ -1,14 +1,32 @@
-import { DeskBooking, DeskStatus } from '@shared/schema';
+import { DeskBlock, DeskBooking, DeskStatus } from '@shared/schema';
 import { currencySymbols } from '@/lib/settings';
+import { DAY_PART_SHORT_LABELS, isHalfDay } from '@/lib/dayParts';
+import { DESK_BLOCK_REASON_LABELS } from '@/lib/deskBlocks';
+import type { RunDragMode } from '@/lib/bookingMoves';
+import { describeHold, isHold } from '@/lib/holds';
 import { cn } from '@/lib/utils';
-import { CheckCircle, CalendarX, User, Sofa } from 'lucide-react';
+import { CheckCircle, CalendarX, User, Sofa, CloudOff, Repeat, Wrench, CalendarOff, Users, UserX, UserCheck, Hourglass } from 'lucide-react';
 
 interface DeskCellProps {
   deskId: string;
   date: string;
   booking: DeskBooking | null;
-  onClick: (event?: React.MouseEvent) => void;
+  /** Morning and afternoon rows. When either is set the cell splits in two. */
+  halves?: { am: DeskBooking | null; pm: DeskBooking | null };
+  /** Out-of-service block covering this day; shown instead of any booking. */
+  block?: DeskBlock | null;
+  /** `dayPart` is set when one half of a split cell was clicked. */
+  onClick: (event?: React.MouseEvent, dayPart?: 'am' | 'pm') => void;
   isNonWorkingDay?: boolean;
+  /** Name of the closure (holiday) the day falls on; shown instead of "Day off". */
+  closedLabel?: string;
+  /** Change made offline and not yet synced to the server */
+  isPending?: boolean;
+  /** Set to make bookings draggable: the body moves the run, its first and last days resize it. */
+  onBookingDragStart?: (booking: DeskBooking, mode: RunDragMode) => void;
+  onBookingDragEnd?: () => void;
+  /** The booking shown here is the one being dragged. */
+  isDragSource?: boolean;
   /** @deprecated Use isNonWorkingDay instead */
   isWeekend?: boolean;
 }
@@ -34,16 +52,74 @@ const statusConfig = {
   }
 };
 
-export default function DeskCell({ booking, date, onClick, isNonWorkingDay, isWeekend }: DeskCellProps) {
-  const nonWorking = isNonWorkingDay ?? isWeekend ?? false;
+// Open-ended contracts keep their runway in step with billing, so they are
+// edited from the booking modal only.
+function isDraggable(booking: DeskBooking | null): booking is DeskBooking {
+  return !!booking && booking.status !== 'available' && !!booking.personName && !booking.isOngoing;
+}
+
+function startDrag(event: React.DragEvent, booking: DeskBooking, mode: RunDragMode, onStart: (booking: DeskBooking, mode: RunDragMode) => void) {
+  event.stopPropagation();
+  event.dataTransfer.effectAllowed = 'move';
+  // Firefox won't start a drag without data
+  event.dataTransfer.setData('text/plain', booking.id);
+  onStart(booking, mode);
+}
+
+function cellStatus(booking: DeskBooking | null): DeskStatus {
   const rawStatus = booking?.status || 'available';
   // Handle legacy 'unavailable' status by converting to 'available'
-  const status: DeskStatus = (rawStatus as any) === 'unavailable' ? 'available' : rawStatus as DeskStatus;
+  return (rawStatus as any) === 'unavailable' ? 'available' : rawStatus as DeskStatus;
+}
+
+function HalfDayCell({ dayPart, booking, onClick, onDragStart, onDragEnd }: {
+  dayPart: 'am' | 'pm';
+  booking: DeskBooking | null;
+  onClick: (event: React.MouseEvent) => void;
+  onDragStart?: (booking: DeskBooking, mode: RunDragMode) => void;
+  onDragEnd?: () => void;
+}) {
+  const status = cellStatus(booking);
+  const config = statusConfig[status] || statusConfig.available;
+  const hasBooking = status !== 'available' && !!booking?.personName;
+  const held = !!booking && isHold(booking);
+  const draggable = !!onDragStart && isDraggable(booking);
+
+  return (
+    <div
+      className={cn(
+        'flex-1 flex items-center justify-center gap-1 px-1 cursor-pointer hover:brightness-95 transition-all duration-150',
+        config.className,
+        held && 'border-2 border-dashed border-orange-400',
+      )}
+      draggable={draggable}
+      onDragStart={draggable ? (e) => startDrag(e, booking, 'move', onDragStart) : undefined}
+      onDragEnd={onDragEnd}
+      onClick={onClick}
+      onContextMenu={onClick}
+      title={`${DAY_PART_SHORT_LABELS[dayPart]}: ${hasBooking ? booking?.personName : config.label}${held ? ` (${describeHold(booking!.heldUntil!)})` : ''}`}
+    >
+      <span className={cn('text-[10px] font-semibold', config.iconColor)}>
+        {DAY_PART_SHORT_LABELS[dayPart]}
+      </span>
+      <span className={cn('text-[10px] truncate', config.iconColor)}>
+        {hasBooking ? booking?.personName : config.label}
+      </span>
+    </div>
+  );
+}
+
+export default function DeskCell({ booking, halves, block, date, onClick, isNonWorkingDay, closedLabel, isWeekend, isPending, onBookingDragStart, onBookingDragEnd, isDragSource }: DeskCellProps) {
+  const nonWorking = isNonWorkingDay ?? isWeekend ?? false;
+  const status = cellStatus(booking);
   const config = statusConfig[status] || statusConfig.available;
   const isBooked = status === 'booked' && booking?.personName;
   const isAssigned = status === 'assigned' && booking?.personName;
   const hasBooking = isBooked || isAssigned;
-  const StatusIcon = config.Icon;
+  // A hold is a booking that frees itself if unpaid: dashed and with an hourglass
+  const held = !!isBooked && isHold(booking!);
+  const StatusIcon = held ? Hourglass : config.Icon;
+  const draggable = !!onBookingDragStart && !nonWorking && isDraggable(booking);
 
   // Calculate days until booking ends (for expiring-soon corner indicator)
   let daysUntilEnd: number | null = null;
@@ -62,27 +138,89 @@ export default function DeskCell({ booking, date, onClick, isNonWorkingDay, isWe
       <div
         className="desk-cell rounded-lg p-1 sm:p-2 min-h-[52px] sm:min-h-[80px] bg-gray-100 cursor-not-allowed flex flex-col items-center justify-center text-center"
         style={{ pointerEvents: 'none' }}
+        title={closedLabel}
       >
-        <Sofa className="h-4 w-4 text-gray-400" />
-        <div className="text-xs font-medium mt-1 text-gray-400">
-          Day off
+        {closedLabel ? <CalendarOff className="h-4 w-4 text-gray-400" /> : <Sofa className="h-4 w-4 text-gray-400" />}
+        <div className="text-xs font-medium mt-1 text-gray-400 line-clamp-2">
+          {closedLabel ?? 'Day off'}
         </div>
       </div>
     );
   }
 
+  if (block && !nonWorking) {
+    const reason = DESK_BLOCK_REASON_LABELS[block.reason] ?? DESK_BLOCK_REASON_LABELS.other;
+    return (
+      <div
+        className="desk-cell desk-blocked rounded-lg p-1 sm:p-2 min-h-[52px] sm:min-h-[80px] flex flex-col items-center justify-center text-center cursor-pointer select-none touch-manipulation transition-all duration-150"
+        onClick={(e) => onClick(e)}
+        onContextMenu={(e) => onClick(e)}
+        title={block.note ? `${reason}: ${block.note}` : reason}
+      >
+        <Wrench className="h-4 w-4 text-slate-500" />
+        <div className="text-xs font-medium mt-1 text-slate-600">{reason}</div>
+        {block.note && (
+          <div className="text-[10px] leading-tight mt-0.5 text-slate-500">
+            {block.note.length > 20 ? `${block.note.slice(0, 20)}...` : block.note}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  // Half-day bookings: morning on top, afternoon below
+  if (!nonWorking && !hasBooking && (halves?.am || halves?.pm)) {
+    return (
+      <div
+        className={cn(
+          'desk-cell rounded-lg min-h-[52px] sm:min-h-[80px] flex flex-col divide-y divide-white select-none touch-manipulation relative overflow-hidden',
+          isPending && 'outline-dashed outline-2 outline-offset-[-2px] outline-gray-400',
+          isDragSource && 'opacity-40',
+        )}
+      >
+        <HalfDayCell dayPart="am" booking={halves.am} onClick={(e) => onClick(e, 'am')} onDragStart={onBookingDragStart} onDragEnd={onBookingDragEnd} />
+        <HalfDayCell dayPart="pm" booking={halves.pm} onClick={(e) => onClick(e, 'pm')} onDragStart={onBookingDragStart} onDragEnd={onBookingDragEnd} />
+      </div>
+    );
+  }
+
   return (
     <div
       className={cn(
         'desk-cell rounded-lg p-1 sm:p-2 min-h-[52px] sm:min-h-[80px] flex flex-col items-center justify-center text-center cursor-pointer select-none touch-manipulation relative overflow-hidden',
         config.className,
         nonWorking && 'opacity-50 cursor-not-allowed',
+        isPending && 'outline-dashed outline-2 outline-offset-[-2px] outline-gray-400',
+        isDragSource && 'opacity-40',
+        held && 'border-2 border-dashed border-orange-400',
         'hover:shadow-md active:scale-95 transition-all duration-150'
       )}
+      title={held ? describeHold(booking!.heldUntil!) : undefined}
       onClick={(e) => !nonWorking && onClick(e)}
       onContextMenu={(e) => !nonWorking && onClick(e)}
+      draggable={draggable}
+      onDragStart={draggable ? (e) => startDrag(e, booking, 'move', onBookingDragStart) : undefined}
+      onDragEnd={onBookingDragEnd}
       style={{ pointerEvents: nonWorking ? 'none' : 'auto' }}
     >
+      {draggable && date === booking.startDate && !isHalfDay(booking) && (
+        <div
+          className="absolute inset-y-0 left-0 w-1.5 cursor-ew-resize hover:bg-black/10"
+          draggable
+          onDragStart={(e) => startDrag(e, booking, 'start', onBookingDragStart)}
+          onDragEnd={onBookingDragEnd}
+          title="Drag to change the start date"
+        />
+      )}
+      {draggable && date === booking.endDate && !isHalfDay(booking) && (
+        <div
+          className="absolute inset-y-0 right-0 w-1.5 cursor-ew-resize hover:bg-black/10"
+          draggable
+          onDragStart={(e) => startDrag(e, booking, 'end', onBookingDragStart)}
+          onDragEnd={onBookingDragEnd}
+          title="Drag to change the end date"
+        />
+      )}
       {booking?.isFlex ? (
         <div
           className="absolute top-0 right-0 w-0 h-0 pointer-events-none"
@@ -114,6 +252,36 @@ export default function DeskCell({ booking, date, onClick, isNonWorkingDay, isWe
           title="Paid via Stripe"
         />
       )}
+      {booking?.seriesId && status !== 'available' && (
+        <Repeat
+          className="absolute bottom-1 left-1 h-3 w-3 text-violet-500 pointer-events-none"
+          aria-label="Recurring booking"
+        />
+      )}
+      {booking?.bookingGroupId && status !== 'available' && (
+        <Users
+          className="absolute bottom-1 left-1 h-3 w-3 text-sky-500 pointer-events-none"
+          aria-label="Group booking"
+        />
+      )}
+      {booking?.checkedInAt && status !== 'available' && (
+        <UserCheck
+          className="absolute bottom-1 right-5 h-3 w-3 text-emerald-600 pointer-events-none"
+          aria-label="Checked in"
+        />
+      )}
+      {booking?.noShow && !booking.checkedInAt && status !== 'available' && (
+        <UserX
+          className="absolute bottom-1 right-5 h-3 w-3 text-rose-500 pointer-events-none"
+          aria-label="No-show"
+        />
+      )}
+      {isPending && (
+        <CloudOff
+          className="absolute bottom-1 right-1 h-3 w-3 text-gray-500 pointer-events-none"
+          aria-label="Not synced yet"
+        />
+      )}
       <StatusIcon className={cn('h-4 w-4', config.iconColor)} />
 
       {hasBooking ? (
@@ -0,0 +1,47 @@
+import { QRCodeSVG } from 'qrcode.react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Printer } from 'lucide-react';
+import { Desk } from '@shared/schema';
+import { deskCheckInUrl } from '@/lib/checkIn';
+
+interface DeskQrCodesDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  orgSlug: string;
+  desks: Desk[];
+}
+
+/** One QR code per desk to print and stick on it; scanning checks the visitor in. */
+export default function DeskQrCodesDialog({ isOpen, onClose, orgSlug, desks }: DeskQrCodesDialogProps) {
+  const origin = typeof window !== 'undefined' ? window.location.origin : '';
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Desk QR codes</DialogTitle>
+          <DialogDescription>
+            Print these and stick each on its desk. Visitors scan the code on the phone they opened
+            their booking link on to check in.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-4 print:grid-cols-3">
+          {desks.map(desk => (
+            <div key={desk.id} className="flex flex-col items-center gap-2 border rounded-lg p-4 break-inside-avoid">
+              <QRCodeSVG value={deskCheckInUrl(origin, orgSlug, desk.id)} size={128} />
+              <div className="text-sm font-medium text-gray-900">{desk.label}</div>
+              {desk.roomName && <div className="text-xs text-gray-500">{desk.roomName}</div>}
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-end print:hidden">
+          <Button variant="outline" onClick={() => window.print()}>
+            <Printer className="mr-2 h-4 w-4" />
+            Print
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
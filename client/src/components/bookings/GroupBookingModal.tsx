@@ -0,0 +1,342 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import ClientAutocomplete from '@/components/members/ClientAutocomplete';
+import { Currency, Desk, DeskBlock, DeskBooking, DeskStatus, GroupPricing } from '@shared/schema';
+import { useDataStore } from '@/contexts/DataStoreContext';
+import { useOrganization } from '@/contexts/OrganizationContext';
+import { useFloorPlan } from '@/hooks/use-floor-plan';
+import { useBookingGroupActions } from '@/hooks/use-booking-groups';
+import { DeskPoint, GROUP_PRICING_LABELS, groupTakenSet, pickGroupDesks, seatPrices } from '@/lib/bookingGroups';
+import { isDeskFree } from '@/lib/bookingAvailability';
+import { formatDateRange, generateDateRange } from '@/lib/dateUtils';
+import { addDays } from '@/lib/planDates';
+import { currencySymbols } from '@/lib/settings';
+import { AlertCircle, Loader2, Users } from 'lucide-react';
+
+interface GroupBookingModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  desks: Desk[];
+  currency: Currency;
+  /** First day shown when the dialog opens. */
+  startDate: string;
+}
+
+const ALL_ROOMS = 'all';
+
+export default function GroupBookingModal({ isOpen, onClose, desks, currency, startDate: initialStart }: GroupBookingModalProps) {
+  const dataStore = useDataStore();
+  const { rooms, desks: orgDesks } = useOrganization();
+  const { loadRoomLayout } = useFloorPlan();
+  const { createGroup } = useBookingGroupActions(desks);
+
+  const [personName, setPersonName] = useState('');
+  const [clientId, setClientId] = useState<string | undefined>(undefined);
+  const [name, setName] = useState('');
+  const [startDate, setStartDate] = useState(initialStart);
+  const [endDate, setEndDate] = useState(addDays(initialStart, 4));
+  const [seats, setSeats] = useState('4');
+  const [room, setRoom] = useState(ALL_ROOMS);
+  const [status, setStatus] = useState<DeskStatus>('booked');
+  const [pricing, setPricing] = useState<GroupPricing>('per_seat');
+  const [price, setPrice] = useState('');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [taken, setTaken] = useState<{ bookings: DeskBooking[]; blocks: DeskBlock[] } | null>(null);
+  const [points, setPoints] = useState<Map<string, DeskPoint>>(new Map());
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setPersonName('');
+    setClientId(undefined);
+    setName('');
+    setStartDate(initialStart);
+    setEndDate(addDays(initialStart, 4));
+    setSeats('4');
+    setRoom(ALL_ROOMS);
+    setStatus('booked');
+    setPricing('per_seat');
+    setPrice('');
+    setError(null);
+  }, [isOpen, initialStart]);
+
+  // Desk positions from the floor plan, so the group sits together
+  useEffect(() => {
+    if (!isOpen || rooms.length === 0) return;
+    let cancelled = false;
+    Promise.all(rooms.map(r => loadRoomLayout(r.id)))
+      .then(layouts => {
+        if (cancelled) return;
+        const next = new Map<string, DeskPoint>();
+        for (const pos of layouts.flatMap(l => l.positions)) {
+          const legacyId = orgDesks.find(d => d.id === pos.deskId)?.deskId;
+          if (legacyId) next.set(legacyId, { x: pos.x + pos.w / 2, y: pos.y + pos.h / 2, size: Math.max(pos.w, pos.h) });
+        }
+        setPoints(next);
+      })
+      .catch(() => {
+        // No floor plan: desks are grouped by room and desk number instead
+      });
+    return () => { cancelled = true; };
+  }, [isOpen, rooms, orgDesks, loadRoomLayout]);
+
+  const validRange = !!startDate && !!endDate && endDate >= startDate;
+
+  useEffect(() => {
+    if (!isOpen || !validRange) return;
+    let cancelled = false;
+    setTaken(null);
+    Promise.all([
+      dataStore.getBookingsForDateRange(startDate, endDate),
+      dataStore.getDeskBlocks ? dataStore.getDeskBlocks(startDate, endDate) : Promise.resolve([]),
+    ])
+      .then(([bookings, blocks]) => { if (!cancelled) setTaken({ bookings, blocks }); })
+      .catch(() => { if (!cancelled) setError('Could not load bookings for these dates.'); });
+    return () => { cancelled = true; };
+  }, [isOpen, validRange, startDate, endDate, dataStore]);
+
+  const dates = useMemo(() => (validRange ? generateDateRange(startDate, endDate) : []), [validRange, startDate, endDate]);
+  const roomDesks = useMemo(
+    () => (room === ALL_ROOMS ? desks : desks.filter(d => String(d.room) === room)),
+    [desks, room],
+  );
+  const takenSet = useMemo(() => (taken ? groupTakenSet(taken.bookings, taken.blocks) : null), [taken]);
+  const freeDesks = useMemo(
+    () => (takenSet ? roomDesks.filter(d => dates.every(date => isDeskFree(takenSet, d.id, date))) : []),
+    [takenSet, roomDesks, dates],
+  );
+  const seatCount = Math.max(0, parseInt(seats, 10) || 0);
+
+  // Suggest desks whenever the request changes; the manager can still swap them
+  useEffect(() => {
+    if (!takenSet) return;
+    const picked = pickGroupDesks(roomDesks, takenSet, dates, seatCount, points);
+    setSelected(picked ? picked.map(d => d.id) : []);
+  }, [takenSet, roomDesks, dates, seatCount, points]);
+
+  const toggleDesk = (deskId: string) => {
+    setSelected(prev => (prev.includes(deskId) ? prev.filter(id => id !== deskId) : [...prev, deskId]));
+  };
+
+  const priceValue = price.trim() === '' ? undefined : parseFloat(price);
+  const perSeat = seatPrices(pricing, priceValue, selected.length);
+  const total = perSeat.reduce<number>((sum, p) => sum + (p ?? 0), 0);
+  const roomNames = Array.from(new Map(desks.map(d => [String(d.room), d.roomName || `Room ${d.room}`])).entries());
+
+  const problem = !personName.trim()
+    ? 'Enter who the desks are for.'
+    : !validRange
+      ? 'The group must end on or after its first day.'
+      : takenSet && selected.length === 0
+        ? (freeDesks.length === 0 ? 'No desk is free on every one of these days.' : 'Pick the desks to book.')
+        : priceValue !== undefined && (isNaN(priceValue) || priceValue < 0)
+          ? 'Enter a valid price.'
+          : null;
+
+  const handleSave = async () => {
+    if (problem || !takenSet) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await createGroup({
+        name: name.trim() || `${personName.trim()} group`,
+        personName: personName.trim(),
+        clientId,
+        deskIds: desks.filter(d => selected.includes(d.id)).map(d => d.id),
+        startDate,
+        endDate,
+        status,
+        pricing,
+        price: priceValue,
+        currency,
+      });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to book the group.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5 text-blue-600" />
+            Group booking
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="groupPerson" className="text-sm font-medium text-gray-700">Company or contact *</Label>
+            <ClientAutocomplete
+              id="groupPerson"
+              value={personName}
+              clientId={clientId}
+              onChange={(value, cId) => {
+                setPersonName(value);
+                setClientId(cId);
+              }}
+              maxLength={40}
+              autoFocus
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="groupName" className="text-sm font-medium text-gray-700">Group name</Label>
+            <Input
+              id="groupName"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Sprint week"
+              className="mt-1"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="groupStart" className="text-sm font-medium text-gray-700">From</Label>
+              <Input id="groupStart" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className="mt-1" />
+            </div>
+            <div>
+              <Label htmlFor="groupEnd" className="text-sm font-medium text-gray-700">Until</Label>
+              <Input id="groupEnd" type="date" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} className="mt-1" />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="groupSeats" className="text-sm font-medium text-gray-700">Desks</Label>
+              <Input
+                id="groupSeats"
+                type="number"
+                min={1}
+                max={desks.length}
+                value={seats}
+                onChange={(e) => setSeats(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label className="text-sm font-medium text-gray-700">Room</Label>
+              <Select value={room} onValueChange={setRoom}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_ROOMS}>Any room</SelectItem>
+                  {roomNames.map(([id, label]) => (
+                    <SelectItem key={id} value={id}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div>
+            <Label className="text-sm font-medium text-gray-700">
+              Desks for {validRange ? formatDateRange(startDate, endDate) : 'these dates'}
+            </Label>
+            {!takenSet ? (
+              <div className="flex items-center gap-2 mt-2 text-sm text-gray-500">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Finding free desks…
+              </div>
+            ) : freeDesks.length === 0 ? (
+              <p className="mt-1 text-sm text-gray-500">No desk is free on every one of these days.</p>
+            ) : (
+              <div className="mt-1 grid grid-cols-2 gap-1 max-h-40 overflow-y-auto rounded border p-2">
+                {freeDesks.map(desk => (
+                  <label key={desk.id} className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                    <Checkbox checked={selected.includes(desk.id)} onCheckedChange={() => toggleDesk(desk.id)} />
+                    {desk.label}
+                  </label>
+                ))}
+              </div>
+            )}
+            {takenSet && seatCount > freeDesks.length && freeDesks.length > 0 && (
+              <p className="mt-1 text-xs text-amber-700">Only {freeDesks.length} desks are free on every day.</p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label className="text-sm font-medium text-gray-700">Status</Label>
+              <Select value={status} onValueChange={(v) => setStatus(v as DeskStatus)}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="booked">Booked</SelectItem>
+                  <SelectItem value="assigned">Assigned</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="text-sm font-medium text-gray-700">Pricing</Label>
+              <Select value={pricing} onValueChange={(v) => setPricing(v as GroupPricing)}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(GROUP_PRICING_LABELS) as GroupPricing[]).map(p => (
+                    <SelectItem key={p} value={p}>{GROUP_PRICING_LABELS[p]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="groupPrice" className="text-sm font-medium text-gray-700">
+              {pricing === 'per_seat' ? 'Price per desk' : 'Price for the group'} ({currencySymbols[currency] ?? currency})
+            </Label>
+            <Input
+              id="groupPrice"
+              type="number"
+              min={0}
+              step="0.01"
+              value={price}
+              onChange={(e) => setPrice(e.target.value)}
+              className="mt-1"
+            />
+            {priceValue !== undefined && !isNaN(priceValue) && selected.length > 0 && (
+              <p className="text-xs text-gray-500 mt-1">
+                {selected.length} desk{selected.length === 1 ? '' : 's'} · {currencySymbols[currency] ?? ''}{total.toFixed(2)} in total
+              </p>
+            )}
+          </div>
+
+          {(error || (problem && personName.trim())) && (
+            <div className="flex items-start gap-2 rounded bg-red-50 p-2 text-sm text-red-700 whitespace-pre-line">
+              <AlertCircle className="h-4 w-4 shrink-0 mt-0.5" />
+              {error || problem}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 mt-6">
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={!!problem || !takenSet || isSaving}
+            className="bg-blue-600 hover:bg-blue-700"
+          >
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Book {selected.length} desk{selected.length === 1 ? '' : 's'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,660 @@
+import { useState, useRef, useMemo, useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Upload, AlertCircle, CheckCircle2, Loader2, FileSpreadsheet } from 'lucide-react';
+import { useDataStore } from '@/contexts/DataStoreContext';
+import { useOrganization } from '@/contexts/OrganizationContext';
+import { useToast } from '@/hooks/use-toast';
+import { useRecordAudit } from '@/hooks/use-audit-log';
+import { invalidateBookingQueries } from '@/hooks/use-booking-actions';
+import { useRecordImportBatch } from '@/hooks/use-import-batches';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Progress } from '@/components/ui/progress';
+import { Client, DeskStatus, ImportSource } from '@shared/schema';
+import { bookingAuditEntry } from '@/lib/auditLog';
+import { isBookingConflictError } from '@/lib/bookingConflicts';
+import { formatDateRange } from '@/lib/dateUtils';
+import { SELECT_NONE_VALUE } from '@/lib/invoices';
+import { DEFAULT_WORKING_DAYS } from '@/lib/workingDays';
+import {
+  parseBookingSheet,
+  autoMapBookingColumns,
+  detectDateOrder,
+  gridRuns,
+  rowRuns,
+  matchDesks,
+  uniqueDeskLabels,
+  planBookingImport,
+  importRowsToCommit,
+  BOOKING_IMPORT_FIELD_LABELS,
+  BOOKING_IMPORT_LIMITS,
+  type BookingImportField,
+  type BookingImportPlan,
+  type BookingSheet,
+  type BookingSheetLayout,
+  type DateOrder,
+  type ImportRun,
+} from '@/lib/bookingImport';
+import { IMPORT_SOURCE_LABELS, presetBookingMapping } from '@/lib/migrationImport';
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Migrating from another tool: read its booking export and record the batch for rollback. */
+  source?: ImportSource;
+}
+
+type Step = 'upload' | 'map' | 'preview' | 'result';
+
+interface ImportResult {
+  bookings: number;
+  days: number;
+  skipped: number;
+  errorMessage: string | null;
+}
+
+// Day rows written per bulkUpdateBookings call
+const WRITE_CHUNK = 200;
+
+const STATUS_ROW_CLASS = {
+  ready: '',
+  error: 'bg-red-50',
+  unmapped: 'bg-gray-50 text-gray-400',
+  conflict: 'bg-amber-50',
+} as const;
+
+export default function ImportBookingsDialog({ open, onOpenChange, source }: Props) {
+  const dataStore = useDataStore();
+  const { currentOrg, desks, rooms } = useOrganization();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const recordAudit = useRecordAudit();
+  const recordImportBatch = useRecordImportBatch();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [step, setStep] = useState<Step>('upload');
+  const [csvText, setCsvText] = useState('');
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [sheet, setSheet] = useState<BookingSheet | null>(null);
+  const [layout, setLayout] = useState<BookingSheetLayout>('grid');
+  const [mapping, setMapping] = useState<BookingImportField[]>([]);
+  const [dateOrder, setDateOrder] = useState<DateOrder>('dmy');
+  const [deskMapping, setDeskMapping] = useState<Record<string, string | null>>({});
+  const [status, setStatus] = useState<Exclude<DeskStatus, 'available'>>('assigned');
+  const [isDragging, setIsDragging] = useState(false);
+  const [isChecking, setIsChecking] = useState(false);
+  const [plan, setPlan] = useState<BookingImportPlan | null>(null);
+  const [isCommitting, setIsCommitting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  useEffect(() => {
+    if (!open) {
+      setStep('upload');
+      setCsvText('');
+      setSheet(null);
+      setMapping([]);
+      setDeskMapping({});
+      setPlan(null);
+      setIsChecking(false);
+      setIsCommitting(false);
+      setProgress(0);
+      setResult(null);
+    }
+  }, [open]);
+
+  const roomName = useMemo(() => new Map(rooms.map(r => [r.id, r.name])), [rooms]);
+
+  const runs: ImportRun[] = useMemo(() => {
+    if (!sheet) return [];
+    const options = {
+      dateOrder,
+      year,
+      workingDays: currentOrg?.workingDays ?? DEFAULT_WORKING_DAYS,
+      closures: currentOrg?.closures,
+    };
+    return layout === 'grid' ? gridRuns(sheet, options) : rowRuns(sheet, mapping, options);
+  }, [sheet, layout, mapping, dateOrder, year, currentOrg?.workingDays, currentOrg?.closures]);
+
+  const deskLabels = useMemo(() => uniqueDeskLabels(runs), [runs]);
+
+  // New labels get a suggested desk; choices already made are kept
+  useEffect(() => {
+    const missing = deskLabels.filter(label => !(label in deskMapping));
+    if (missing.length > 0) setDeskMapping(prev => ({ ...matchDesks(missing, desks), ...prev }));
+  }, [deskLabels, deskMapping, desks]);
+
+  function handleFile(file: File) {
+    if (!file.name.toLowerCase().endsWith('.csv') && file.type !== 'text/csv') {
+      toast({
+        title: 'Unsupported file',
+        description: 'Please upload a .csv file. In Google Sheets use File → Download → CSV.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => {
+      const text = String(reader.result ?? '');
+      setCsvText(text);
+      processInput(text);
+    };
+    reader.readAsText(file);
+  }
+
+  function processInput(text: string) {
+    const parsed = parseBookingSheet(text, year);
+    if (parsed.rows.length === 0) {
+      toast({
+        title: 'No rows found',
+        description: 'The file looks empty or has no data rows below the header.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    // Booking exports from other tools are always one booking per row
+    const sheetLayout = source ? 'rows' : parsed.layout;
+    setSheet(parsed);
+    setLayout(sheetLayout);
+    setMapping(source ? presetBookingMapping(source, parsed.headers) : autoMapBookingColumns(parsed.headers));
+    setDateOrder(detectDateOrder(
+      sheetLayout === 'grid' ? parsed.headers.slice(1) : parsed.rows.flatMap(cols => cols),
+    ));
+    setStep('map');
+  }
+
+  function handleDrop(e: React.DragEvent<HTMLDivElement>) {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files?.[0];
+    if (file) handleFile(file);
+  }
+
+  async function handleCheck() {
+    const dated = runs.filter(r => r.errors.length === 0);
+    if (dated.length === 0) {
+      toast({
+        title: 'No bookings found',
+        description: layout === 'grid'
+          ? 'No names were found under the date columns.'
+          : 'Map the desk, name and date columns first.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    const startDate = dated.reduce((min, r) => (r.startDate < min ? r.startDate : min), dated[0].startDate);
+    const endDate = dated.reduce((max, r) => (r.endDate > max ? r.endDate : max), dated[0].endDate);
+
+    setIsChecking(true);
+    try {
+      const [bookings, blocks, clients] = await Promise.all([
+        dataStore.getBookingsForDateRange(startDate, endDate),
+        dataStore.getDeskBlocks ? dataStore.getDeskBlocks(startDate, endDate) : Promise.resolve([]),
+        dataStore.getClients ? dataStore.getClients() : Promise.resolve([] as Client[]),
+      ]);
+      setPlan(planBookingImport(runs, { deskMapping, desks, clients, bookings, blocks }));
+      setStep('preview');
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error';
+      toast({
+        title: 'Could not check for conflicts',
+        description: message,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsChecking(false);
+    }
+  }
+
+  async function handleCommit() {
+    if (!plan || !currentOrg) return;
+    const rows = importRowsToCommit(plan, { status, currency: currentOrg.currency ?? 'EUR' });
+    if (rows.length === 0) return;
+
+    setIsCommitting(true);
+    setProgress(0);
+    let written = 0;
+    let errorMessage: string | null = null;
+    try {
+      for (let i = 0; i < rows.length; i += WRITE_CHUNK) {
+        const chunk = rows.slice(i, i + WRITE_CHUNK);
+        await dataStore.bulkUpdateBookings(chunk);
+        written += chunk.length;
+        setProgress(Math.round((written / rows.length) * 100));
+      }
+    } catch (e) {
+      errorMessage = isBookingConflictError(e)
+        ? `${e.message}. Someone booked one of these desks while you were importing.`
+        : e instanceof Error ? e.message : 'Unknown error';
+    } finally {
+      setIsCommitting(false);
+    }
+
+    const writtenIds = new Set(rows.slice(0, written).map(r => r.id));
+    const imported = plan.runs.filter(r => r.status === 'ready' && writtenIds.has(`${r.deskId}-${r.endDate}`));
+    recordAudit(...imported.map(run => {
+      const first = rows.find(r => r.id === `${run.deskId}-${run.startDate}`);
+      return first ? bookingAuditEntry(null, first) : null;
+    }));
+    if (source && written > 0) {
+      await recordImportBatch({
+        source,
+        kind: 'bookings',
+        bookingRows: rows.slice(0, written).map(r => ({ deskId: r.deskId, date: r.date, createdAt: r.createdAt })),
+      });
+    }
+    invalidateBookingQueries(queryClient);
+
+    setResult({
+      bookings: imported.length,
+      days: written,
+      skipped: plan.runs.length - plan.readyCount,
+      errorMessage,
+    });
+    setStep('result');
+  }
+
+  const previewRuns = plan?.runs.slice(0, BOOKING_IMPORT_LIMITS.PREVIEW_LIMIT) ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5 text-blue-600" />
+            {source ? `Import bookings from ${IMPORT_SOURCE_LABELS[source]}` : 'Import bookings'}
+          </DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'Drop a spreadsheet saved as CSV: desks down the side and dates across the top, or one booking per row.'}
+            {step === 'map' && 'Tell us how to read the sheet and which desk each row is.'}
+            {step === 'preview' && 'Dry run: nothing has been saved yet.'}
+            {step === 'result' && 'Import complete.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto -mx-6 px-6">
+          {step === 'upload' && (
+            <div className="space-y-4 py-2">
+              <div
+                onDragOver={(e) => {
+                  e.preventDefault();
+                  setIsDragging(true);
+                }}
+                onDragLeave={() => setIsDragging(false)}
+                onDrop={handleDrop}
+                className={`border-2 border-dashed rounded-lg p-8 text-center transition-colors ${
+                  isDragging ? 'border-blue-400 bg-blue-50' : 'border-gray-300'
+                }`}
+              >
+                <Upload className="h-8 w-8 text-gray-400 mx-auto mb-3" />
+                <p className="text-sm text-gray-600 mb-3">
+                  Drop a .csv file here, or
+                </p>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => fileInputRef.current?.click()}
+                >
+                  Choose file
+                </Button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".csv,text/csv"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleFile(file);
+                  }}
+                />
+                <p className="mt-3 text-xs text-gray-400">
+                  Up to {BOOKING_IMPORT_LIMITS.ROW_LIMIT} rows. Comma, semicolon, or tab delimited.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-700">
+                  Or paste the cells
+                </label>
+                <textarea
+                  value={csvText}
+                  onChange={(e) => setCsvText(e.target.value)}
+                  rows={6}
+                  placeholder="Desk,Mon 2 Mar,Tue 3 Mar,Wed 4 Mar&#10;Desk 1,Alice,Alice,Bob&#10;Desk 2,,Carol,Carol"
+                  className="w-full font-mono text-xs border border-gray-300 rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={csvText.trim().length === 0}
+                  onClick={() => processInput(csvText)}
+                >
+                  Read pasted cells
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {step === 'map' && sheet && (
+            <div className="space-y-4 py-2">
+              {sheet.tooManyRows && (
+                <div className="flex items-start gap-2 p-3 rounded-md bg-amber-50 border border-amber-200 text-sm text-amber-900">
+                  <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                  <span>
+                    File has {sheet.rowCount} rows. Only the first{' '}
+                    {BOOKING_IMPORT_LIMITS.ROW_LIMIT} will be imported. Split the file to import the
+                    rest.
+                  </span>
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                <div className="space-y-1">
+                  <label className="text-xs font-medium text-gray-700">Layout</label>
+                  <Select value={layout} onValueChange={(v) => setLayout(v as BookingSheetLayout)}>
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="grid" className="text-xs">Desks × dates grid</SelectItem>
+                      <SelectItem value="rows" className="text-xs">One booking per row</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <label className="text-xs font-medium text-gray-700">Dates are written</label>
+                  <Select value={dateOrder} onValueChange={(v) => setDateOrder(v as DateOrder)}>
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="dmy" className="text-xs">Day first (31/12)</SelectItem>
+                      <SelectItem value="mdy" className="text-xs">Month first (12/31)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <label className="text-xs font-medium text-gray-700">Year if missing</label>
+                  <Input
+                    type="number"
+                    value={year}
+                    onChange={(e) => setYear(Number(e.target.value) || new Date().getFullYear())}
+                    className="h-8 text-xs"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <label className="text-xs font-medium text-gray-700">Import as</label>
+                  <Select value={status} onValueChange={(v) => setStatus(v as Exclude<DeskStatus, 'available'>)}>
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="assigned" className="text-xs">Paid</SelectItem>
+                      <SelectItem value="booked" className="text-xs">Unpaid</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {layout === 'rows' && (
+                <div className="border border-gray-200 rounded-md">
+                  <div className="px-3 py-2 border-b border-gray-200 bg-gray-50 text-xs font-medium text-gray-700">
+                    Column mapping
+                  </div>
+                  <div className="divide-y divide-gray-100">
+                    {sheet.headers.map((header, index) => (
+                      <div
+                        key={index}
+                        className="flex items-center gap-3 px-3 py-2 text-sm"
+                      >
+                        <span className="font-mono text-xs text-gray-600 flex-1 truncate">
+                          {header || `Column ${index + 1}`}
+                        </span>
+                        <span className="text-gray-300">→</span>
+                        <Select
+                          value={mapping[index] ?? 'ignore'}
+                          onValueChange={(v) =>
+                            setMapping((prev) => prev.map((f, i) => (i === index ? v as BookingImportField : f)))
+                          }
+                        >
+                          <SelectTrigger className="w-56 h-8 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Object.entries(BOOKING_IMPORT_FIELD_LABELS).map(([key, label]) => (
+                              <SelectItem key={key} value={key} className="text-xs">
+                                {label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="border border-gray-200 rounded-md">
+                <div className="px-3 py-2 border-b border-gray-200 bg-gray-50 text-xs font-medium text-gray-700">
+                  Desks ({runs.length} booking{runs.length === 1 ? '' : 's'} found)
+                </div>
+                {deskLabels.length === 0 ? (
+                  <p className="px-3 py-4 text-xs text-gray-500 text-center">
+                    {layout === 'grid'
+                      ? 'No bookings found. Check that the first row holds the dates and the first column the desks.'
+                      : 'No bookings found. Map the desk, name and date columns.'}
+                  </p>
+                ) : (
+                  <div className="divide-y divide-gray-100">
+                    {deskLabels.map((label) => (
+                      <div key={label} className="flex items-center gap-3 px-3 py-2 text-sm">
+                        <span className="text-xs text-gray-600 flex-1 truncate">{label}</span>
+                        <span className="text-gray-300">→</span>
+                        <Select
+                          value={deskMapping[label] ?? SELECT_NONE_VALUE}
+                          onValueChange={(v) =>
+                            setDeskMapping((prev) => ({ ...prev, [label]: v === SELECT_NONE_VALUE ? null : v }))
+                          }
+                        >
+                          <SelectTrigger className="w-56 h-8 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={SELECT_NONE_VALUE} className="text-xs">(skip this desk)</SelectItem>
+                            {desks.map((desk) => (
+                              <SelectItem key={desk.id} value={desk.id} className="text-xs">
+                                {roomName.get(desk.roomId) ? `${roomName.get(desk.roomId)} · ${desk.label}` : desk.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
+          {step === 'preview' && plan && (
+            <div className="space-y-4 py-2">
+              <div className="flex flex-wrap items-center gap-3 text-sm">
+                <span className="inline-flex items-center gap-1.5 px-2 py-1 rounded bg-emerald-50 text-emerald-700 font-medium">
+                  <CheckCircle2 className="h-3.5 w-3.5" /> {plan.readyCount} ready
+                </span>
+                {plan.conflictCount > 0 && (
+                  <span className="inline-flex items-center gap-1.5 px-2 py-1 rounded bg-amber-50 text-amber-800 font-medium">
+                    <AlertCircle className="h-3.5 w-3.5" /> {plan.conflictCount}{' '}
+                    {plan.conflictCount === 1 ? 'conflict' : 'conflicts'}
+                  </span>
+                )}
+                {plan.errorCount > 0 && (
+                  <span className="inline-flex items-center gap-1.5 px-2 py-1 rounded bg-red-50 text-red-700 font-medium">
+                    <AlertCircle className="h-3.5 w-3.5" /> {plan.errorCount}{' '}
+                    {plan.errorCount === 1 ? 'error' : 'errors'}
+                  </span>
+                )}
+                {plan.unmappedCount > 0 && (
+                  <span className="inline-flex items-center gap-1.5 px-2 py-1 rounded bg-gray-100 text-gray-700">
+                    {plan.unmappedCount} without a desk
+                  </span>
+                )}
+                {plan.matchedClientCount > 0 && (
+                  <span className="text-xs text-gray-500">
+                    {plan.matchedClientCount} linked to existing members
+                  </span>
+                )}
+              </div>
+
+              <div className="border border-gray-200 rounded-md overflow-hidden">
+                <table className="w-full text-xs">
+                  <thead className="bg-gray-50 border-b border-gray-200">
+                    <tr>
+                      <th className="px-2 py-1.5 text-left font-medium text-gray-600 w-8">#</th>
+                      <th className="px-2 py-1.5 text-left font-medium text-gray-600">Desk</th>
+                      <th className="px-2 py-1.5 text-left font-medium text-gray-600">Name</th>
+                      <th className="px-2 py-1.5 text-left font-medium text-gray-600">Dates</th>
+                      <th className="px-2 py-1.5 text-left font-medium text-gray-600">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {previewRuns.map((run, i) => (
+                      <tr key={i} className={STATUS_ROW_CLASS[run.status]}>
+                        <td className="px-2 py-1 text-gray-400">{run.row + 1}</td>
+                        <td className="px-2 py-1 truncate max-w-[140px]">{run.deskLabel || '—'}</td>
+                        <td className="px-2 py-1 truncate max-w-[180px]">
+                          {run.name || '—'}
+                          {run.clientId && <span className="ml-1 text-emerald-700">(member)</span>}
+                        </td>
+                        <td className="px-2 py-1 whitespace-nowrap">
+                          {run.startDate && run.endDate ? formatDateRange(run.startDate, run.endDate) : '—'}
+                        </td>
+                        <td className="px-2 py-1">
+                          {run.status === 'error' ? (
+                            <span className="text-red-700">{run.errors[0]}</span>
+                          ) : run.status === 'ready' ? (
+                            <span className="text-emerald-700">Ready</span>
+                          ) : (
+                            <span className={run.status === 'conflict' ? 'text-amber-800' : ''}>{run.reason}</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {plan.runs.length > BOOKING_IMPORT_LIMITS.PREVIEW_LIMIT && (
+                  <div className="px-3 py-1.5 bg-gray-50 border-t border-gray-200 text-xs text-gray-500 text-center">
+                    Showing first {BOOKING_IMPORT_LIMITS.PREVIEW_LIMIT} bookings of{' '}
+                    {plan.runs.length}
+                  </div>
+                )}
+              </div>
+
+              {plan.conflictCount > 0 && (
+                <p className="text-xs text-gray-500">
+                  Conflicting bookings are skipped. Existing bookings are never overwritten.
+                </p>
+              )}
+
+              {isCommitting && (
+                <div className="space-y-2">
+                  <Progress value={progress} />
+                  <p className="text-xs text-gray-500 text-center">Importing…</p>
+                </div>
+              )}
+            </div>
+          )}
+
+          {step === 'result' && result && (
+            <div className="py-6 space-y-4 text-center">
+              <CheckCircle2 className="h-12 w-12 text-emerald-500 mx-auto" />
+              <div>
+                <p className="text-lg font-semibold text-gray-900">
+                  Imported {result.bookings} booking{result.bookings === 1 ? '' : 's'}
+                </p>
+                <p className="text-sm text-gray-500 mt-1">
+                  {result.days} desk-day{result.days === 1 ? '' : 's'}
+                  {result.skipped > 0 && `, ${result.skipped} skipped`}
+                </p>
+                {result.errorMessage && (
+                  <p className="text-sm text-red-600 mt-2">
+                    The import stopped early. {result.errorMessage}
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="flex-shrink-0">
+          {step === 'upload' && (
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+          )}
+          {step === 'map' && (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setSheet(null);
+                  setStep('upload');
+                }}
+                disabled={isChecking}
+              >
+                Back
+              </Button>
+              <Button onClick={handleCheck} disabled={isChecking || runs.length === 0}>
+                {isChecking ? (
+                  <>
+                    <Loader2 className="h-4 w-4 mr-1.5 animate-spin" />
+                    Checking
+                  </>
+                ) : (
+                  'Preview import'
+                )}
+              </Button>
+            </>
+          )}
+          {step === 'preview' && plan && (
+            <>
+              <Button variant="outline" onClick={() => setStep('map')} disabled={isCommitting}>
+                Back
+              </Button>
+              <Button onClick={handleCommit} disabled={isCommitting || plan.readyCount === 0}>
+                {isCommitting ? (
+                  <>
+                    <Loader2 className="h-4 w-4 mr-1.5 animate-spin" />
+                    Importing
+                  </>
+                ) : (
+                  <>
+                    Import {plan.readyCount} {plan.readyCount === 1 ? 'booking' : 'bookings'}
+                  </>
+                )}
+              </Button>
+            </>
+          )}
+          {step === 'result' && (
+            <Button onClick={() => onOpenChange(false)}>Done</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
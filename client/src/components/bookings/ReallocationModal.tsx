@@ -0,0 +1,96 @@
+import { useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Desk } from '@shared/schema';
+import { usePlanDeskReallocation, useApplyDeskReallocation, REALLOCATION_WINDOW_DAYS } from '@/hooks/use-desk-reallocation';
+import { formatDateRange } from '@/lib/dateUtils';
+import { ArrowRight, Loader2, Wand2 } from 'lucide-react';
+
+interface ReallocationModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  desks: Desk[];
+}
+
+export default function ReallocationModal({ isOpen, onClose, desks }: ReallocationModalProps) {
+  const plan = usePlanDeskReallocation(desks);
+  const apply = useApplyDeskReallocation();
+  const proposals = plan.data ?? [];
+  const planning = plan.isIdle || plan.isPending;
+
+  useEffect(() => {
+    if (isOpen) plan.mutate();
+    else plan.reset();
+    // Plan afresh each time the dialog opens
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen]);
+
+  const deskLabel = (deskId: string) => desks.find(d => d.id === deskId)?.label || deskId;
+
+  const handleApply = async () => {
+    try {
+      await apply.mutateAsync(proposals);
+      onClose();
+    } catch {
+      // The mutation already toasted the error
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Wand2 className="h-5 w-5 text-blue-600" />
+            Re-optimize desks
+          </DialogTitle>
+          <DialogDescription>
+            Moves flex and visitor bookings in the next {REALLOCATION_WINDOW_DAYS / 7} weeks so people keep
+            one desk across their days and longer free stretches stay open. Nothing changes until you apply.
+          </DialogDescription>
+        </DialogHeader>
+
+        {planning ? (
+          <div className="flex items-center justify-center gap-2 py-8 text-sm text-gray-500">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Working out desk changes…
+          </div>
+        ) : plan.isError ? (
+          <p className="py-4 text-sm text-red-600">Could not plan desk changes.</p>
+        ) : proposals.length === 0 ? (
+          <p className="py-4 text-sm text-gray-600">Desks are already well allocated; nothing to move.</p>
+        ) : (
+          <ul className="max-h-80 overflow-y-auto divide-y rounded border">
+            {proposals.map(({ run, rows, toDeskId }) => (
+              <li key={`${run.deskId}:${run.startDate}:${run.dayPart ?? 'full'}`} className="px-3 py-2 text-sm">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium text-gray-900">{rows[0].visitorName || rows[0].personName}</span>
+                  <span className="text-gray-500">{formatDateRange(run.startDate, run.endDate)}</span>
+                </div>
+                <div className="mt-0.5 flex items-center gap-1 text-gray-600">
+                  {deskLabel(run.deskId)}
+                  <ArrowRight className="h-3 w-3" />
+                  {deskLabel(toDeskId)}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex justify-end gap-3 mt-6">
+          <Button variant="outline" onClick={onClose} disabled={apply.isPending}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleApply}
+            disabled={planning || proposals.length === 0 || apply.isPending}
+            className="bg-blue-600 hover:bg-blue-700"
+          >
+            {apply.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Apply {proposals.length} change{proposals.length === 1 ? '' : 's'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
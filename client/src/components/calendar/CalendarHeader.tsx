@@ -1,16 +1,20 @@
 import { Button } from '@/components/ui/button';
 import StatusLegend from '@/components/calendar/StatusLegend';
-import { CalendarRange, Download } from 'lucide-react';
+import { CalendarRange, Download, Upload, Users, Wand2 } from 'lucide-react';
 
 interface StatusCounts {
   available: number;
   booked: number;
   assigned: number;
+  blocked?: number;
 }
 
 interface CalendarHeaderProps {
   onSetAvailability: () => void;
   onExport: () => void;
+  onImport?: () => void;
+  onOptimize?: () => void;
+  onGroupBooking?: () => void;
   statusCounts?: StatusCounts;
   stripePaidCount?: number;
   totalDeskDays?: number;
@@ -19,6 +23,9 @@ interface CalendarHeaderProps {
 export default function CalendarHeader({
   onSetAvailability,
   onExport,
+  onImport,
+  onOptimize,
+  onGroupBooking,
   statusCounts,
   stripePaidCount,
   totalDeskDays,
@@ -34,6 +41,16 @@ export default function CalendarHeader({
           <CalendarRange className="h-4 w-4 mr-2" />
           Availability
         </Button>
+        {onGroupBooking && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onGroupBooking}
+          >
+            <Users className="h-4 w-4 mr-2" />
+            Group
+          </Button>
+        )}
         <Button
           variant="outline"
           size="sm"
@@ -42,6 +59,26 @@ export default function CalendarHeader({
           <Download className="h-4 w-4 mr-2" />
           Export
         </Button>
+        {onImport && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onImport}
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            Import
+          </Button>
+        )}
+        {onOptimize && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onOptimize}
+          >
+            <Wand2 className="h-4 w-4 mr-2" />
+            Optimize
+          </Button>
+        )}
       </div>
       <StatusLegend counts={statusCounts} totalDeskDays={totalDeskDays} stripePaidCount={stripePaidCount} />
     </div>
@@ -11,11 +11,10 @@ import { ChevronLeft, ChevronRight, PlusCircle, Map, CalendarIcon } from 'lucide
 import { useState } from 'react';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Calendar } from '@/components/ui/calendar';
-import { formatLocalDate } from '@/lib/dateUtils';
+import { formatLocalDate, todayString } from '@/lib/dateUtils';
 
 function formatNextDate(dateStr: string): string {
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+  const today = new Date(todayString() + 'T00:00:00');
   const date = new Date(dateStr + 'T00:00:00');
   const diffDays = Math.round((date.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
   if (diffDays === 0) return 'Today';
@@ -96,7 +95,7 @@ export default function CalendarNavigation({
   }
 
   function todayStr() {
-    return formatLocalDate(new Date());
+    return todayString();
   }
   return (
     <Card className="mb-4">
@@ -125,7 +124,7 @@ export default function CalendarNavigation({
                       selected={new Date(mapDate + 'T00:00:00')}
                       onSelect={(d) => {
                         if (d) {
-                          setMapDate(d.toISOString().split('T')[0]);
+                          setMapDate(formatLocalDate(d));
                           setDatePickerOpen(false);
                         }
                       }}
@@ -0,0 +1,47 @@
+import { SlidersHorizontal, X } from 'lucide-react';
+
+interface DeskAttributeFilterProps {
+  /** Attributes set on at least one desk; the filter hides when empty. */
+  options: string[];
+  selected: string[];
+  onToggle: (attribute: string) => void;
+  onClear: () => void;
+}
+
+export default function DeskAttributeFilter({ options, selected, onToggle, onClear }: DeskAttributeFilterProps) {
+  if (options.length === 0) return null;
+  const isSelected = (attribute: string) =>
+    selected.some(s => s.toLowerCase() === attribute.toLowerCase());
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-3">
+      <span className="flex items-center gap-1 text-xs font-medium text-gray-500">
+        <SlidersHorizontal className="h-3.5 w-3.5" />
+        Desks with
+      </span>
+      {options.map((attribute) => (
+        <button
+          key={attribute}
+          type="button"
+          onClick={() => onToggle(attribute)}
+          className={`px-2.5 py-1 rounded-full border text-xs font-medium transition-colors ${
+            isSelected(attribute)
+              ? 'border-blue-400 bg-blue-50 text-blue-700'
+              : 'border-gray-200 bg-white text-gray-600 hover:border-gray-300'
+          }`}
+        >
+          {attribute}
+        </button>
+      ))}
+      {selected.length > 0 && (
+        <button
+          type="button"
+          onClick={onClear}
+          className="flex items-center gap-0.5 text-xs text-gray-500 hover:text-gray-700"
+        >
+          <X className="h-3 w-3" /> Clear
+        </button>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,12 @@
-import React, { forwardRef } from 'react';
+import React, { forwardRef, useState } from 'react';
 import { Card } from '@/components/ui/card';
 import DeskCell from '@/components/bookings/DeskCell';
-import { DeskBooking, Desk } from '@shared/schema';
-import { isNonWorkingDay, DEFAULT_WORKING_DAYS } from '@/lib/workingDays';
+import { DayPart, DeskBlock, DeskBooking, Desk, OrgClosure } from '@shared/schema';
+import { daySlots } from '@/lib/dayParts';
+import { findDeskBlock } from '@/lib/deskBlocks';
+import { isNonWorkingDay, findClosure, DEFAULT_WORKING_DAYS } from '@/lib/workingDays';
+import { todayString } from '@/lib/dateUtils';
+import { BookingRun, RunDragMode, dragTarget, isRunRow, isSameRun, runMoveConflicts, runOf } from '@/lib/bookingMoves';
 
 interface DateInfo {
   dateString: string;
@@ -14,24 +18,60 @@ interface DeskGridProps {
   desks: Desk[];
   currentDates: DateInfo[];
   bookings: Record<string, DeskBooking>;
-  onDeskClick: (deskId: string, date: string, event?: React.MouseEvent, booking?: DeskBooking | null) => void;
+  onDeskClick: (deskId: string, date: string, event?: React.MouseEvent, booking?: DeskBooking | null, dayPart?: DayPart) => void;
   workingDays?: number[];
+  /** Organization closures; closed days render like days off, with the closure's name. */
+  closures?: OrgClosure[];
+  /** Out-of-service blocks; a blocked cell calls onBlockClick instead of onDeskClick. */
+  blocks?: DeskBlock[];
+  onBlockClick?: (block: DeskBlock) => void;
+  /** Slot keys (`deskId-date`, `deskId-date-am`) with a change still waiting in the offline outbox. */
+  pendingKeys?: Set<string>;
+  /** Makes bookings draggable to another desk or date, and their ends draggable to resize them. */
+  onBookingMove?: (run: BookingRun, target: BookingRun) => void;
+}
+
+interface RunDrag {
+  run: BookingRun;
+  mode: RunDragMode;
+  /** Day the drag was started from */
+  grabDate: string;
 }
 
 function isToday(dateString: string): boolean {
-  const today = new Date();
-  const todayString = today.toISOString().split('T')[0];
-  return dateString === todayString;
+  return dateString === todayString();
 }
 
 const ROOM_COLORS = ['text-blue-600', 'text-pink-600', 'text-emerald-600', 'text-amber-600', 'text-purple-600', 'text-cyan-600', 'text-rose-600', 'text-teal-600', 'text-orange-600', 'text-indigo-600', 'text-lime-600', 'text-fuchsia-600'];
 const ROOM_BG_COLORS = ['bg-blue-50', 'bg-pink-50', 'bg-emerald-50', 'bg-amber-50', 'bg-purple-50', 'bg-cyan-50', 'bg-rose-50', 'bg-teal-50', 'bg-orange-50', 'bg-indigo-50', 'bg-lime-50', 'bg-fuchsia-50'];
 
 const DeskGrid = forwardRef<HTMLDivElement, DeskGridProps>(
-  ({ desks, currentDates, bookings, onDeskClick, workingDays = DEFAULT_WORKING_DAYS }, ref) => {
-    const getBookingForCell = (deskId: string, date: string): DeskBooking | null => {
-      const key = `${deskId}-${date}`;
-      return bookings[key] || null;
+  ({ desks, currentDates, bookings, onDeskClick, workingDays = DEFAULT_WORKING_DAYS, closures, blocks = [], onBlockClick, pendingKeys, onBookingMove }, ref) => {
+    const [drag, setDrag] = useState<RunDrag | null>(null);
+    const [dropCell, setDropCell] = useState<{ deskId: string; date: string } | null>(null);
+    const dropTarget = drag && dropCell
+      ? dragTarget(drag.run, drag.mode, drag.grabDate, drag.mode === 'move' ? dropCell.deskId : drag.run.deskId, dropCell.date)
+      : null;
+    const dropConflicts = new Set(drag && dropTarget ? runMoveConflicts(drag.run, dropTarget, bookings, blocks) : []);
+
+    const endDrag = () => {
+      setDrag(null);
+      setDropCell(null);
+    };
+
+    const handleDragOver = (event: React.DragEvent, deskId: string, date: string) => {
+      if (!drag) return;
+      event.preventDefault();
+      event.dataTransfer.dropEffect = 'move';
+      if (dropCell?.deskId !== deskId || dropCell?.date !== date) setDropCell({ deskId, date });
+    };
+
+    const handleDrop = (event: React.DragEvent) => {
+      event.preventDefault();
+      if (drag && dropTarget && dropConflicts.size === 0 && !isSameRun(drag.run, dropTarget)) {
+        onBookingMove?.(drag.run, dropTarget);
+      }
+      endDrag();
     };
 
     // Group desks by room number
@@ -51,7 +91,8 @@ const DeskGrid = forwardRef<HTMLDivElement, DeskGridProps>(
 
     const dateHeaderCells = currentDates.map((day) => {
       const isTodayColumn = isToday(day.dateString);
-      const isNonWorking = isNonWorkingDay(day.dateString, workingDays);
+      const closure = findClosure(closures, day.dateString);
+      const isNonWorking = isNonWorkingDay(day.dateString, workingDays, closures);
       return (
         <th
           key={day.dateString}
@@ -74,7 +115,9 @@ const DeskGrid = forwardRef<HTMLDivElement, DeskGridProps>(
               <span className="text-xs font-medium text-blue-600 mt-1">TODAY</span>
             )}
             {isNonWorking && (
-              <span className="text-xs font-medium text-gray-400 mt-1">DAY OFF</span>
+              <span className="text-xs font-medium text-gray-400 mt-1 normal-case truncate" title={closure?.label}>
+                {closure ? closure.label : 'DAY OFF'}
+              </span>
             )}
           </div>
         </th>
@@ -135,24 +178,49 @@ const DeskGrid = forwardRef<HTMLDivElement, DeskGridProps>(
                         </td>
                         {currentDates.map((day) => {
                           const isTodayColumn = isToday(day.dateString);
-                          const isNonWorking = isNonWorkingDay(day.dateString, workingDays);
+                          const closure = findClosure(closures, day.dateString);
+                          const isNonWorking = isNonWorkingDay(day.dateString, workingDays, closures);
+                          const slots = daySlots(bookings, desk.id, day.dateString);
+                          const block = findDeskBlock(blocks, desk.id, day.dateString);
+                          const inDropTarget = !!dropTarget
+                            && dropTarget.deskId === desk.id
+                            && dropTarget.startDate <= day.dateString
+                            && day.dateString <= dropTarget.endDate;
+                          const isDragSource = !!drag && [slots.full, slots.am, slots.pm].some(b => b && isRunRow(b, drag.run));
                           return (
                             <td
                               key={day.dateString}
                               className={`px-2 py-3 text-center ${
-                                isTodayColumn
+                                inDropTarget
+                                  ? dropConflicts.has(day.dateString)
+                                    ? 'bg-red-100 ring-2 ring-inset ring-red-400'
+                                    : 'bg-blue-100 ring-2 ring-inset ring-blue-400'
+                                  : isTodayColumn
                                   ? 'bg-blue-50 border-l-2 border-r-2 border-blue-300'
                                   : isNonWorking
                                   ? 'bg-gray-100'
                                   : ''
                               }`}
+                              onDragOver={drag ? (e) => handleDragOver(e, desk.id, day.dateString) : undefined}
+                              onDrop={drag ? handleDrop : undefined}
                             >
                               <DeskCell
                                 deskId={desk.id}
                                 date={day.dateString}
-                                booking={getBookingForCell(desk.id, day.dateString)}
-                                onClick={(e) => onDeskClick(desk.id, day.dateString, e, getBookingForCell(desk.id, day.dateString))}
+                                booking={slots.full}
+                                halves={slots}
+                                block={block}
+                                onClick={(e, part) => block
+                                  ? onBlockClick?.(block)
+                                  : onDeskClick(desk.id, day.dateString, e, part ? slots[part] : slots.full, part)}
                                 isNonWorkingDay={isNonWorking}
+                                closedLabel={closure?.label}
+                                isPending={['', '-am', '-pm'].some(suffix => pendingKeys?.has(`${desk.id}-${day.dateString}${suffix}`))}
+                                onBookingDragStart={onBookingMove
+                                  ? (booking, mode) => setDrag({ run: runOf(booking), mode, grabDate: day.dateString })
+                                  : undefined}
+                                onBookingDragEnd={endDrag}
+                                isDragSource={isDragSource}
                               />
                             </td>
                           );
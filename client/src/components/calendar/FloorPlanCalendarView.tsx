@@ -5,6 +5,7 @@ import { useFloorPlan } from '@/hooks/use-floor-plan';
 import { useBookings } from '@/hooks/use-bookings';
 import { DeskSymbol, ShapeSymbol, SHAPES, getDoorRadius } from '@/components/floor-plan/floor-plan-symbols';
 import type { DeskPosition, FloorPlanObject, DeskBooking } from '@shared/schema';
+import { daySlots } from '@/lib/dayParts';
 
 // ─── Status colours ───────────────────────────────────────────────────────────
 
@@ -172,8 +173,9 @@ export default function FloorPlanCalendarView({ selectedDate, selectedRoomId, on
               const orgDesk = desks.find((d) => d.id === pos.deskId);
               if (!orgDesk) return null;
 
-              const bookingKey = `${orgDesk.deskId}-${selectedDate}`;
-              const booking = bookings[bookingKey] ?? null;
+              // The map has one symbol per desk; a half-day booking stands in for the day
+              const slots = daySlots(bookings, orgDesk.deskId, selectedDate);
+              const booking = slots.full ?? slots.am ?? slots.pm;
               const status = (booking?.status as keyof typeof STATUS_COLORS | undefined) ?? 'available';
               const { fill, stroke } = STATUS_COLORS[status];
 
@@ -2,10 +2,13 @@ import { useState, useMemo, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import DeskCell from '@/components/bookings/DeskCell';
 import { useSwipe } from '@/hooks/use-mobile';
-import { getThreeDayRange, getThreeDayRangeString } from '@/lib/dateUtils';
+import { getThreeDayRange, getThreeDayRangeString, todayString } from '@/lib/dateUtils';
 import { useBookings } from '@/hooks/use-bookings';
-import { DeskBooking, Desk } from '@shared/schema';
-import { isNonWorkingDay, DEFAULT_WORKING_DAYS } from '@/lib/workingDays';
+import { useDeskBlocks } from '@/hooks/use-desk-blocks';
+import { DayPart, DeskBlock, DeskBooking, Desk, OrgClosure } from '@shared/schema';
+import { daySlots } from '@/lib/dayParts';
+import { findDeskBlock } from '@/lib/deskBlocks';
+import { isNonWorkingDay, findClosure, DEFAULT_WORKING_DAYS } from '@/lib/workingDays';
 import {
   PlusCircle,
   CalendarRange,
@@ -17,17 +20,19 @@ import {
 interface MobileCalendarProps {
   desks: Desk[];
   bookings?: Record<string, DeskBooking>;
-  onDeskClick: (deskId: string, date: string, event?: React.MouseEvent, booking?: DeskBooking | null) => void;
+  onDeskClick: (deskId: string, date: string, event?: React.MouseEvent, booking?: DeskBooking | null, dayPart?: DayPart) => void;
+  onBlockClick?: (block: DeskBlock) => void;
   onQuickBook: () => void;
   quickBookDisabled: boolean;
   quickBookLoading: boolean;
   onSetAvailability: () => void;
   onExport: () => void;
   workingDays?: number[];
+  closures?: OrgClosure[];
 }
 
 function isToday(dateString: string): boolean {
-  return dateString === new Date().toISOString().split('T')[0];
+  return dateString === todayString();
 }
 
 const ROOM_COLORS = ['text-blue-600', 'text-pink-600', 'text-emerald-600', 'text-amber-600', 'text-purple-600', 'text-cyan-600'];
@@ -37,12 +42,14 @@ export default function MobileCalendar({
   desks,
   bookings,
   onDeskClick,
+  onBlockClick,
   onQuickBook,
   quickBookDisabled,
   quickBookLoading,
   onSetAvailability,
   onExport,
   workingDays = DEFAULT_WORKING_DAYS,
+  closures,
 }: MobileCalendarProps) {
   const [offset, setOffset] = useState(0);
 
@@ -53,15 +60,12 @@ export default function MobileCalendar({
   const mobileStart = days[0]?.dateString;
   const mobileEnd = days[days.length - 1]?.dateString;
   const { data: mobileBookings = {} } = useBookings(mobileStart, mobileEnd);
+  const { data: mobileBlocks = [] } = useDeskBlocks(mobileStart, mobileEnd);
 
   const handleSwipeLeft = useCallback(() => setOffset((o) => o + 1), []);
   const handleSwipeRight = useCallback(() => setOffset((o) => o - 1), []);
   const swipeHandlers = useSwipe(handleSwipeLeft, handleSwipeRight);
 
-  const getBooking = (deskId: string, date: string): DeskBooking | null => {
-    return mobileBookings[`${deskId}-${date}`] || null;
-  };
-
   // Group desks by room
   const roomGroups: { room: number; roomName: string; desks: Desk[] }[] = [];
   for (const desk of desks) {
@@ -160,7 +164,10 @@ export default function MobileCalendar({
                   <div className="grid grid-cols-3">
                     {days.map((day) => {
                       const today = isToday(day.dateString);
-                      const nonWorking = isNonWorkingDay(day.dateString, workingDays);
+                      const closure = findClosure(closures, day.dateString);
+                      const nonWorking = isNonWorkingDay(day.dateString, workingDays, closures);
+                      const slots = daySlots(mobileBookings, desk.id, day.dateString);
+                      const block = findDeskBlock(mobileBlocks, desk.id, day.dateString);
                       return (
                         <div
                           key={day.dateString}
@@ -184,9 +191,14 @@ export default function MobileCalendar({
                           <DeskCell
                             deskId={desk.id}
                             date={day.dateString}
-                            booking={getBooking(desk.id, day.dateString)}
-                            onClick={(e) => onDeskClick(desk.id, day.dateString, e, getBooking(desk.id, day.dateString))}
+                            booking={slots.full}
+                            halves={slots}
+                            block={block}
+                            onClick={(e, part) => block
+                              ? onBlockClick?.(block)
+                              : onDeskClick(desk.id, day.dateString, e, part ? slots[part] : slots.full, part)}
                             isNonWorkingDay={nonWorking}
+                            closedLabel={closure?.label}
                           />
                         </div>
                       );
@@ -1,6 +1,8 @@
 import { Card, CardContent } from '@/components/ui/card';
 import { CalendarCheck, CalendarX, Bell } from 'lucide-react';
 import { BookedDate, ExpiringAssignment } from '@/hooks/use-next-dates';
+import { todayString } from '@/lib/dateUtils';
+import { addDays } from '@/lib/planDates';
 
 interface NextDatesPanelProps {
   nextAvailableDates: string[];
@@ -94,8 +96,8 @@ export default function NextDatesPanel({
                 const dayName = dateObj.toLocaleDateString('en-US', { weekday: 'short' });
                 const monthName = dateObj.toLocaleDateString('en-US', { month: 'short' });
                 const day = dateObj.getDate();
-                const isTodayDate = new Date().toISOString().split('T')[0] === entry.date;
-                const isTomorrow = new Date(Date.now() + 86400000).toISOString().split('T')[0] === entry.date;
+                const isTodayDate = todayString() === entry.date;
+                const isTomorrow = addDays(todayString(), 1) === entry.date;
 
                 return (
                   <button
@@ -1,5 +1,5 @@
 interface StatusLegendProps {
-  counts?: { available: number; booked: number; assigned: number };
+  counts?: { available: number; booked: number; assigned: number; blocked?: number };
   totalDeskDays?: number;
   stripePaidCount?: number;
 }
@@ -25,6 +25,14 @@ export default function StatusLegend({ counts, totalDeskDays, stripePaidCount }:
           Assigned{counts ? ` (${counts.assigned})` : ''}
         </span>
       </div>
+      {!!counts?.blocked && (
+        <div className="flex items-center">
+          <div className="w-3 h-3 bg-slate-100 border-2 border-dashed border-slate-400 rounded mr-1.5"></div>
+          <span className="text-sm text-gray-600">
+            Out of service ({counts.blocked})
+          </span>
+        </div>
+      )}
       {stripePaidCount !== undefined && stripePaidCount > 0 && (
         <div className="flex items-center" title="Paid via Stripe Checkout">
           <div
@@ -0,0 +1,125 @@
+import { useMemo, useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { UserCheck, UserX, Clock, Loader2 } from 'lucide-react';
+import { Desk, DeskBooking } from '@shared/schema';
+import { useBookings } from '@/hooks/use-bookings';
+import { useCheckIn } from '@/hooks/use-check-in';
+import { useToast } from '@/hooks/use-toast';
+import { canCheckIn, checkInState } from '@/lib/checkIn';
+import { getAppTimeZone, todayString } from '@/lib/dateUtils';
+import { DAY_PART_SHORT_LABELS, dayPartOf, isHalfDay } from '@/lib/dayParts';
+
+interface TodayCheckInListProps {
+  desks: Desk[];
+  /** Release time of unchecked day passes, shown as a reminder. */
+  autoReleaseTime?: string | null;
+  onBookingClick?: (booking: DeskBooking) => void;
+}
+
+/** Today's bookings at the front desk: who has arrived, who is still expected. */
+export default function TodayCheckInList({ desks, autoReleaseTime, onBookingClick }: TodayCheckInListProps) {
+  const today = todayString();
+  const { data: bookings = {} } = useBookings(today, today);
+  const checkIn = useCheckIn();
+  const { toast } = useToast();
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const deskLabels = useMemo(() => new Map(desks.map(d => [d.id, d.label])), [desks]);
+  const rows = useMemo(() => {
+    const deskOrder = new Map(desks.map((d, i) => [d.id, i]));
+    return Object.values(bookings)
+      .filter(b => b.date === today && b.status !== 'available')
+      .sort((a, b) => (deskOrder.get(a.deskId) ?? 0) - (deskOrder.get(b.deskId) ?? 0)
+        || dayPartOf(a).localeCompare(dayPartOf(b)));
+  }, [bookings, desks, today]);
+  const arrived = rows.filter(b => b.checkedInAt).length;
+
+  const handleCheckIn = async (booking: DeskBooking) => {
+    setPendingId(booking.id);
+    try {
+      await checkIn(booking, deskLabels.get(booking.deskId));
+    } catch (error) {
+      toast({
+        title: 'Check-in failed',
+        description: error instanceof Error ? error.message : 'Could not check in.',
+        variant: 'destructive',
+      });
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardContent className="p-4">
+        <div className="flex items-center justify-between mb-2">
+          <div className="flex items-center">
+            <UserCheck className="h-5 w-5 text-emerald-600 mr-2" />
+            <h3 className="text-sm font-medium text-gray-900">Today's Check-ins</h3>
+          </div>
+          <span className="text-xs text-gray-500">
+            {arrived} of {rows.length} arrived
+            {autoReleaseTime && ` · unchecked day passes free up at ${autoReleaseTime}`}
+          </span>
+        </div>
+
+        {rows.length === 0 ? (
+          <p className="text-sm text-gray-500">No bookings today.</p>
+        ) : (
+          <div className="divide-y">
+            {rows.map(booking => {
+              const state = checkInState(booking);
+              return (
+                <div key={booking.id} className="flex items-center justify-between gap-3 py-2">
+                  <button
+                    type="button"
+                    onClick={() => onBookingClick?.(booking)}
+                    className="min-w-0 text-left"
+                  >
+                    <div className="text-sm font-medium text-gray-900 truncate">
+                      {booking.personName || 'Unnamed booking'}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {deskLabels.get(booking.deskId) ?? booking.deskId}
+                      {isHalfDay(booking) && ` · ${DAY_PART_SHORT_LABELS[dayPartOf(booking)]}`}
+                    </div>
+                  </button>
+                  {state === 'checked_in' ? (
+                    <span className="flex items-center gap-1 text-xs text-emerald-700 shrink-0">
+                      <UserCheck className="h-3.5 w-3.5" />
+                      {new Date(booking.checkedInAt!).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit', timeZone: getAppTimeZone() })}
+                    </span>
+                  ) : (
+                    <div className="flex items-center gap-2 shrink-0">
+                      {state === 'no_show' ? (
+                        <span className="flex items-center gap-1 text-xs text-rose-600">
+                          <UserX className="h-3.5 w-3.5" /> No-show
+                        </span>
+                      ) : (
+                        <span className="flex items-center gap-1 text-xs text-gray-400">
+                          <Clock className="h-3.5 w-3.5" /> Expected
+                        </span>
+                      )}
+                      {canCheckIn(booking, today) && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="h-7 border-emerald-200 text-emerald-700 hover:bg-emerald-50"
+                          disabled={pendingId === booking.id}
+                          onClick={() => handleCheckIn(booking)}
+                        >
+                          {pendingId === booking.id ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : 'Check in'}
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -19,6 +19,7 @@ import { useOrganization } from '@/contexts/OrganizationContext';
 import { useSaveExpense, useExpenseCategories, useCreateExpenseCategory } from '@/hooks/use-expenses';
 import { useToast } from '@/hooks/use-toast';
 import { Receipt, Loader2, Check, ChevronsUpDown, Plus, Tag } from 'lucide-react';
+import { todayString } from '@/lib/dateUtils';
 
 interface ExpenseModalProps {
   isOpen: boolean;
@@ -51,7 +52,7 @@ export default function ExpenseModal({ isOpen, onClose, expense }: ExpenseModalP
         setDescription(expense.description || '');
         setCurrency(expense.currency);
       } else {
-        const today = new Date().toISOString().split('T')[0];
+        const today = todayString();
         setDate(today);
         setAmount('');
         setCategoryId(categories[0]?.id ?? '');
@@ -0,0 +1,504 @@
+import { useState, useRef, useMemo, useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Upload, AlertCircle, CheckCircle2, Loader2 } from 'lucide-react';
+import { useDataStore } from '@/contexts/DataStoreContext';
+import { useOrganization } from '@/contexts/OrganizationContext';
+import { useToast } from '@/hooks/use-toast';
+import { useRecordImportBatch } from '@/hooks/use-import-batches';
+import { fetchInvoiceNumbers, insertImportedInvoices } from '@/hooks/use-invoices';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Progress } from '@/components/ui/progress';
+import { Client, ImportSource, InvoiceSellerSnapshot } from '@shared/schema';
+import { parseCsv, CSV_IMPORT_LIMITS, type ParseResult } from '@/lib/csvImport';
+import { detectDateOrder, type DateOrder } from '@/lib/bookingImport';
+import {
+  IMPORT_SOURCE_LABELS,
+  INVOICE_IMPORT_FIELD_LABELS,
+  invoicesToCommit,
+  presetInvoiceMapping,
+  validateInvoiceRows,
+  type InvoiceImportField,
+  type ValidatedInvoiceImport,
+} from '@/lib/migrationImport';
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  source: ImportSource;
+}
+
+type Step = 'upload' | 'map' | 'result';
+
+interface ImportResult {
+  created: number;
+  skippedErrors: number;
+  skippedDuplicates: number;
+}
+
+export default function ImportInvoicesDialog({ open, onOpenChange, source }: Props) {
+  const dataStore = useDataStore();
+  const { currentOrg } = useOrganization();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const recordImportBatch = useRecordImportBatch();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [step, setStep] = useState<Step>('upload');
+  const [csvText, setCsvText] = useState('');
+  const [parseResult, setParseResult] = useState<ParseResult | null>(null);
+  const [mapping, setMapping] = useState<Record<string, InvoiceImportField>>({});
+  const [dateOrder, setDateOrder] = useState<DateOrder>('dmy');
+  const [existingNumbers, setExistingNumbers] = useState<Set<string>>(new Set());
+  const [clients, setClients] = useState<Client[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isCommitting, setIsCommitting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  useEffect(() => {
+    if (!open) {
+      setStep('upload');
+      setCsvText('');
+      setParseResult(null);
+      setMapping({});
+      setIsLoading(false);
+      setIsCommitting(false);
+      setProgress(0);
+      setResult(null);
+    }
+  }, [open]);
+
+  const validated: ValidatedInvoiceImport | null = useMemo(() => {
+    if (!parseResult) return null;
+    return validateInvoiceRows(parseResult.rows, mapping, {
+      existingNumbers,
+      clients,
+      dateOrder,
+      year: new Date().getFullYear(),
+    });
+  }, [parseResult, mapping, existingNumbers, clients, dateOrder]);
+
+  function handleFile(file: File) {
+    if (!file.name.toLowerCase().endsWith('.csv') && file.type !== 'text/csv') {
+      toast({
+        title: 'Unsupported file',
+        description: `Please upload the invoice export from ${IMPORT_SOURCE_LABELS[source]} as a .csv file.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => {
+      const text = String(reader.result ?? '');
+      setCsvText(text);
+      processInput(text);
+    };
+    reader.readAsText(file);
+  }
+
+  async function processInput(text: string) {
+    if (!currentOrg) return;
+    const parsed = parseCsv(text);
+    if (parsed.rows.length === 0) {
+      toast({
+        title: 'No rows found',
+        description: 'The file looks empty or has no data rows below the header.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const [numbers, knownClients] = await Promise.all([
+        fetchInvoiceNumbers(currentOrg.id),
+        dataStore.getClients ? dataStore.getClients() : Promise.resolve([] as Client[]),
+      ]);
+      const nextMapping = presetInvoiceMapping(source, parsed.headers);
+      const dateHeaders = parsed.headers.filter(h => nextMapping[h] === 'issueDate' || nextMapping[h] === 'dueDate');
+      setExistingNumbers(numbers);
+      setClients(knownClients);
+      setParseResult(parsed);
+      setMapping(nextMapping);
+      setDateOrder(detectDateOrder(parsed.rows.flatMap(row => dateHeaders.map(h => row[h] ?? ''))));
+      setStep('map');
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error';
+      toast({
+        title: 'Could not check existing invoices',
+        description: message,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  function handleDrop(e: React.DragEvent<HTMLDivElement>) {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files?.[0];
+    if (file) handleFile(file);
+  }
+
+  async function handleCommit() {
+    if (!validated || !currentOrg) return;
+    const payload = invoicesToCommit(validated, currentOrg.currency ?? 'EUR');
+    if (payload.length === 0) return;
+
+    const sellerSnapshot: InvoiceSellerSnapshot = {
+      legalName: currentOrg.billingLegalName ?? null,
+      taxId: currentOrg.billingTaxId ?? null,
+      vatId: currentOrg.billingVatId ?? null,
+      address: currentOrg.billingAddress ?? null,
+      mol: currentOrg.billingMol ?? null,
+      bankDetails: currentOrg.billingBankDetails ?? null,
+    };
+
+    setIsCommitting(true);
+    setProgress(10);
+    try {
+      const ids = await insertImportedInvoices(currentOrg.id, payload, sellerSnapshot);
+      await recordImportBatch({ source, kind: 'invoices', invoiceIds: ids });
+      setProgress(100);
+      setResult({
+        created: ids.length,
+        skippedErrors: validated.errorCount,
+        skippedDuplicates: validated.duplicateInDbCount + validated.duplicateInFileCount,
+      });
+      setStep('result');
+      queryClient.invalidateQueries({ queryKey: ['invoices'] });
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error';
+      toast({
+        title: 'Import failed',
+        description: message,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsCommitting(false);
+    }
+  }
+
+  const skipped = result ? result.skippedErrors + result.skippedDuplicates : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Import invoices from {IMPORT_SOURCE_LABELS[source]}</DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'Drop the invoice export as CSV. Invoices keep their original numbers.'}
+            {step === 'map' && 'Confirm column mapping and review rows before importing.'}
+            {step === 'result' && 'Import complete.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto -mx-6 px-6">
+          {step === 'upload' && (
+            <div className="space-y-4 py-2">
+              <div
+                onDragOver={(e) => {
+                  e.preventDefault();
+                  setIsDragging(true);
+                }}
+                onDragLeave={() => setIsDragging(false)}
+                onDrop={handleDrop}
+                className={`border-2 border-dashed rounded-lg p-8 text-center transition-colors ${
+                  isDragging ? 'border-blue-400 bg-blue-50' : 'border-gray-300'
+                }`}
+              >
+                <Upload className="h-8 w-8 text-gray-400 mx-auto mb-3" />
+                <p className="text-sm text-gray-600 mb-3">
+                  Drop a .csv file here, or
+                </p>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={isLoading}
+                  onClick={() => fileInputRef.current?.click()}
+                >
+                  {isLoading && <Loader2 className="h-4 w-4 mr-1.5 animate-spin" />}
+                  Choose file
+                </Button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".csv,text/csv"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleFile(file);
+                  }}
+                />
+                <p className="mt-3 text-xs text-gray-400">
+                  Up to {CSV_IMPORT_LIMITS.ROW_LIMIT} rows. Comma, semicolon, or tab delimited.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-700">
+                  Or paste CSV text
+                </label>
+                <textarea
+                  value={csvText}
+                  onChange={(e) => setCsvText(e.target.value)}
+                  rows={6}
+                  placeholder="Invoice Number,Billed To,Invoice Date,Total,Paid&#10;INV-1001,Acme Ltd,2026-03-01,120.00,true"
+                  className="w-full font-mono text-xs border border-gray-300 rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={csvText.trim().length === 0 || isLoading}
+                  onClick={() => processInput(csvText)}
+                >
+                  Parse pasted CSV
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {step === 'map' && parseResult && validated && (
+            <div className="space-y-4 py-2">
+              {parseResult.tooManyRows && (
+                <div className="flex items-start gap-2 p-3 rounded-md bg-amber-50 border border-amber-200 text-sm text-amber-900">
+                  <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                  <span>
+                    File has {parseResult.rowCount} rows. Only the first{' '}
+                    {CSV_IMPORT_LIMITS.ROW_LIMIT} will be imported. Split the file to import the
+                    rest.
+                  </span>
+                </div>
+              )}
+
+              <div className="flex items-center gap-3">
+                <label className="text-xs font-medium text-gray-700">Dates are written</label>
+                <Select value={dateOrder} onValueChange={(v) => setDateOrder(v as DateOrder)}>
+                  <SelectTrigger className="w-48 h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="dmy" className="text-xs">Day first (31/12)</SelectItem>
+                    <SelectItem value="mdy" className="text-xs">Month first (12/31)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="border border-gray-200 rounded-md">
+                <div className="px-3 py-2 border-b border-gray-200 bg-gray-50 text-xs font-medium text-gray-700">
+                  Column mapping
+                </div>
+                <div className="divide-y divide-gray-100">
+                  {parseResult.headers.map((header) => (
+                    <div
+                      key={header}
+                      className="flex items-center gap-3 px-3 py-2 text-sm"
+                    >
+                      <span className="font-mono text-xs text-gray-600 flex-1 truncate">
+                        {header}
+                      </span>
+                      <span className="text-gray-300">→</span>
+                      <Select
+                        value={mapping[header] ?? 'ignore'}
+                        onValueChange={(v) =>
+                          setMapping((prev) => ({ ...prev, [header]: v as InvoiceImportField }))
+                        }
+                      >
+                        <SelectTrigger className="w-56 h-8 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(INVOICE_IMPORT_FIELD_LABELS).map(([key, label]) => (
+                            <SelectItem key={key} value={key} className="text-xs">
+                              {label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-3 text-sm">
+                <span className="inline-flex items-center gap-1.5 px-2 py-1 rounded bg-emerald-50 text-emerald-700 font-medium">
+                  <CheckCircle2 className="h-3.5 w-3.5" /> {validated.validCount} valid
+                </span>
+                {validated.errorCount > 0 && (
+                  <span className="inline-flex items-center gap-1.5 px-2 py-1 rounded bg-red-50 text-red-700 font-medium">
+                    <AlertCircle className="h-3.5 w-3.5" /> {validated.errorCount}{' '}
+                    {validated.errorCount === 1 ? 'error' : 'errors'}
+                  </span>
+                )}
+                {validated.duplicateInDbCount > 0 && (
+                  <span className="inline-flex items-center gap-1.5 px-2 py-1 rounded bg-gray-100 text-gray-700">
+                    {validated.duplicateInDbCount} number{validated.duplicateInDbCount === 1 ? '' : 's'} already used
+                  </span>
+                )}
+                {validated.duplicateInFileCount > 0 && (
+                  <span className="inline-flex items-center gap-1.5 px-2 py-1 rounded bg-gray-100 text-gray-700">
+                    {validated.duplicateInFileCount}{' '}
+                    {validated.duplicateInFileCount === 1
+                      ? 'duplicate in file'
+                      : 'duplicates in file'}
+                  </span>
+                )}
+                {validated.validCount > 0 && (
+                  <span className="text-xs text-gray-500">
+                    {validated.matchedClientCount} of {validated.validCount} linked to existing members
+                  </span>
+                )}
+              </div>
+
+              <div className="border border-gray-200 rounded-md overflow-hidden">
+                <table className="w-full text-xs">
+                  <thead className="bg-gray-50 border-b border-gray-200">
+                    <tr>
+                      <th className="px-2 py-1.5 text-left font-medium text-gray-600 w-8">#</th>
+                      <th className="px-2 py-1.5 text-left font-medium text-gray-600">Number</th>
+                      <th className="px-2 py-1.5 text-left font-medium text-gray-600">Billed to</th>
+                      <th className="px-2 py-1.5 text-left font-medium text-gray-600">Issued</th>
+                      <th className="px-2 py-1.5 text-right font-medium text-gray-600">Total</th>
+                      <th className="px-2 py-1.5 text-left font-medium text-gray-600">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {validated.rows.slice(0, CSV_IMPORT_LIMITS.PREVIEW_LIMIT).map((row) => {
+                      const hasError = row.errors.length > 0;
+                      const isDup = row.isDuplicateInDb || row.isDuplicateInFile;
+                      return (
+                        <tr
+                          key={row.index}
+                          className={
+                            hasError
+                              ? 'bg-red-50'
+                              : isDup
+                              ? 'bg-gray-50 text-gray-400'
+                              : ''
+                          }
+                        >
+                          <td className="px-2 py-1 text-gray-400">{row.index + 1}</td>
+                          <td className="px-2 py-1 truncate max-w-[120px]">
+                            {row.values.number ?? '—'}
+                          </td>
+                          <td className="px-2 py-1 truncate max-w-[200px]">
+                            {row.values.client ?? '—'}
+                          </td>
+                          <td className="px-2 py-1">{row.issueDate ?? '—'}</td>
+                          <td className="px-2 py-1 text-right">
+                            {row.total !== null ? row.total.toFixed(2) : '—'}
+                          </td>
+                          <td className="px-2 py-1">
+                            {hasError ? (
+                              <span className="text-red-700">{row.errors[0]}</span>
+                            ) : row.isDuplicateInDb ? (
+                              <span>Number already used</span>
+                            ) : row.isDuplicateInFile ? (
+                              <span>Duplicate in file</span>
+                            ) : (
+                              <span className="text-emerald-700">
+                                Ready{row.status === 'paid' ? ' (paid)' : row.status === 'void' ? ' (void)' : ''}
+                              </span>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+                {validated.rows.length > CSV_IMPORT_LIMITS.PREVIEW_LIMIT && (
+                  <div className="px-3 py-1.5 bg-gray-50 border-t border-gray-200 text-xs text-gray-500 text-center">
+                    Showing first {CSV_IMPORT_LIMITS.PREVIEW_LIMIT} rows of{' '}
+                    {validated.rows.length}
+                  </div>
+                )}
+              </div>
+
+              {isCommitting && (
+                <div className="space-y-2">
+                  <Progress value={progress} />
+                  <p className="text-xs text-gray-500 text-center">Importing…</p>
+                </div>
+              )}
+            </div>
+          )}
+
+          {step === 'result' && result && (
+            <div className="py-6 space-y-4 text-center">
+              <CheckCircle2 className="h-12 w-12 text-emerald-500 mx-auto" />
+              <div>
+                <p className="text-lg font-semibold text-gray-900">
+                  Imported {result.created} invoice{result.created === 1 ? '' : 's'}
+                </p>
+                {skipped > 0 && (
+                  <p className="text-sm text-gray-500 mt-1">
+                    Skipped {skipped} row{skipped === 1 ? '' : 's'} ({result.skippedErrors} with errors,{' '}
+                    {result.skippedDuplicates} duplicate{result.skippedDuplicates === 1 ? '' : 's'})
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="flex-shrink-0">
+          {step === 'upload' && (
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+          )}
+          {step === 'map' && (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setParseResult(null);
+                  setStep('upload');
+                }}
+                disabled={isCommitting}
+              >
+                Back
+              </Button>
+              <Button
+                onClick={handleCommit}
+                disabled={isCommitting || !validated || validated.validCount === 0}
+              >
+                {isCommitting ? (
+                  <>
+                    <Loader2 className="h-4 w-4 mr-1.5 animate-spin" />
+                    Importing
+                  </>
+                ) : (
+                  <>
+                    Import {validated?.validCount ?? 0}{' '}
+                    {(validated?.validCount ?? 0) === 1 ? 'invoice' : 'invoices'}
+                  </>
+                )}
+              </Button>
+            </>
+          )}
+          {step === 'result' && (
+            <Button onClick={() => onOpenChange(false)}>Done</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
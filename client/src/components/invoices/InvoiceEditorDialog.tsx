@@ -1,4 +1,5 @@
 import { useMemo, useState, useEffect, useRef } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { usePDF, PDFDownloadLink, Document, Page, Text } from '@react-pdf/renderer';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
@@ -12,7 +13,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { Loader2, FileText, Plus, Trash2, Download } from 'lucide-react';
+import { Loader2, FileText, Plus, Trash2, Download, Receipt } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import type {
   Client,
@@ -20,10 +21,15 @@ import type {
   InvoiceSellerSnapshot,
   InvoiceBuyerSnapshot,
   PaymentMethodType,
+  BookingFee,
 } from '@shared/schema';
 import { useCreateInvoice } from '@/hooks/use-invoices';
+import { useUninvoicedFees } from '@/hooks/use-booking-fees';
+import { useDataStore } from '@/contexts/DataStoreContext';
+import { useOrganization } from '@/contexts/OrganizationContext';
+import { feeLineDescription } from '@/lib/bookingPolicy';
 import { PAYMENT_METHOD_LABEL, SELECT_NONE_VALUE, round2 } from '@/lib/invoices';
-import { formatLocalDate } from '@/lib/dateUtils';
+import { todayString } from '@/lib/dateUtils';
 import { InvoicePDF } from './InvoicePDF';
 
 interface InvoiceEditorDialogProps {
@@ -39,6 +45,8 @@ interface EditorLine {
   unit: string;
   unitPrice: string;
   vatRate: string;
+  /** Set when the line bills a cancellation or no-show fee. */
+  feeId?: string;
 }
 
 function blankLine(defaultVatRate: number, currency: string): EditorLine {
@@ -74,12 +82,16 @@ export default function InvoiceEditorDialog({
 }: InvoiceEditorDialogProps) {
   const { toast } = useToast();
   const createInvoice = useCreateInvoice();
+  const queryClient = useQueryClient();
+  const dataStore = useDataStore();
+  const { legacyDesks } = useOrganization();
+  const { data: openFees = [] } = useUninvoicedFees(isOpen ? client?.id : undefined);
 
   const defaultVat = organization.defaultVatRate ?? 0;
   const currency = organization.currency;
 
   // Form state
-  const [issueDate, setIssueDate] = useState(formatLocalDate(new Date()));
+  const [issueDate, setIssueDate] = useState(todayString());
   const [dueDate, setDueDate] = useState('');
   const [lines, setLines] = useState<EditorLine[]>([blankLine(defaultVat, currency)]);
   const [invoiceVatRate, setInvoiceVatRate] = useState(String(defaultVat));
@@ -97,7 +109,7 @@ export default function InvoiceEditorDialog({
   useEffect(() => {
     if (!isOpen) return;
     // Reset each time it opens
-    setIssueDate(formatLocalDate(new Date()));
+    setIssueDate(todayString());
     setDueDate('');
     setLines([blankLine(defaultVat, currency)]);
     setInvoiceVatRate(String(defaultVat));
@@ -211,10 +223,25 @@ export default function InvoiceEditorDialog({
   const removeLine = (idx: number) =>
     setLines(prev => (prev.length > 1 ? prev.filter((_, i) => i !== idx) : prev));
 
+  const billedFeeIds = new Set(lines.map(l => l.feeId).filter(Boolean));
+  const unbilledFees = openFees.filter(fee => !billedFeeIds.has(fee.id));
+  const addFeeLine = (fee: BookingFee) => {
+    const deskLabel = legacyDesks.find(d => d.id === fee.deskId)?.label;
+    const line: EditorLine = {
+      ...blankLine(defaultVat, currency),
+      description: feeLineDescription(fee, deskLabel),
+      unitPrice: String(fee.amount),
+      feeId: fee.id,
+    };
+    // Fill the untouched first line rather than leaving it blank above the fee
+    setLines(prev => (prev.length === 1 && !prev[0].description.trim() ? [line] : [...prev, line]));
+  };
+
   const persist = async (): Promise<boolean> => {
     if (!client || !buyerSnapshot) return false;
     try {
-      await createInvoice.mutateAsync({
+      const billed = lines.filter(l => l.description.trim() && parseQty(l.quantity) > 0);
+      const created = await createInvoice.mutateAsync({
         organizationId: organization.id,
         clientId: client.id,
         issueDate,
@@ -226,9 +253,7 @@ export default function InvoiceEditorDialog({
         signedBy: signedBy.trim() ? signedBy.trim() : null,
         sellerSnapshot,
         buyerSnapshot,
-        lineItems: lines
-          .filter(l => l.description.trim() && parseQty(l.quantity) > 0)
-          .map(l => ({
+        lineItems: billed.map(l => ({
             description: l.description.trim(),
             quantity: parseQty(l.quantity),
             unit: l.unit.trim() ? l.unit.trim() : null,
@@ -237,6 +262,11 @@ export default function InvoiceEditorDialog({
             bookingId: null,
           })),
       });
+      const feeIds = billed.flatMap(l => (l.feeId ? [l.feeId] : []));
+      if (feeIds.length > 0 && dataStore.markFeesInvoiced) {
+        await dataStore.markFeesInvoiced(feeIds, created.id);
+        queryClient.invalidateQueries({ queryKey: ['booking-fees'] });
+      }
       return true;
     } catch (err) {
       toast({
@@ -458,6 +488,26 @@ export default function InvoiceEditorDialog({
                 <div className="text-right">Total</div>
                 <div />
               </div>
+              {unbilledFees.length > 0 && (
+                <div className="rounded-md border border-amber-200 bg-amber-50 p-2 space-y-1">
+                  <div className="text-[11px] font-medium text-amber-800">
+                    Open fees for this member
+                  </div>
+                  {unbilledFees.map(fee => (
+                    <div key={fee.id} className="flex items-center justify-between gap-2 text-xs text-amber-900">
+                      <span className="truncate">
+                        {feeLineDescription(fee, legacyDesks.find(d => d.id === fee.deskId)?.label)}
+                      </span>
+                      <span className="flex items-center gap-2 shrink-0">
+                        <span className="font-mono tabular-nums">{fee.amount.toFixed(2)}</span>
+                        <Button type="button" variant="ghost" size="sm" className="h-6 px-2" onClick={() => addFeeLine(fee)}>
+                          <Receipt className="h-3.5 w-3.5 mr-1" /> Bill
+                        </Button>
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
               <div className="space-y-2">
                 {lines.map((l, idx) => (
                   <div key={idx} className="grid grid-cols-[1fr_60px_60px_80px_90px_32px] gap-1.5 items-start">
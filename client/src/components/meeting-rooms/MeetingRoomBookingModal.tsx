@@ -10,6 +10,7 @@ import { MeetingRoom, MeetingRoomBooking } from '@shared/schema';
 import ClientAutocomplete from '@/components/members/ClientAutocomplete';
 import { useCreateMeetingRoomBooking, useUpdateMeetingRoomBooking, useCancelMeetingRoomBooking } from '@/hooks/use-meeting-room-bookings';
 import { currencySymbols } from '@/lib/settings';
+import { zonedParts, zonedTimeToDate } from '@/lib/dateUtils';
 
 // 08:00 to 20:00 in 30-min increments
 const TIME_SLOTS: string[] = Array.from({ length: 25 }, (_, i) => {
@@ -19,15 +20,14 @@ const TIME_SLOTS: string[] = Array.from({ length: 25 }, (_, i) => {
   return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
 });
 
-function slotToIso(date: string, slot: string): string {
-  return new Date(`${date}T${slot}:00`).toISOString();
+// Slots are wall-clock times in the organization's timezone
+function slotToIso(date: string, slot: string, timeZone: string): string {
+  return zonedTimeToDate(date, slot, timeZone).toISOString();
 }
 
-function isoToSlot(isoString: string): string {
-  const d = new Date(isoString);
-  const h = d.getHours();
-  const m = d.getMinutes() < 30 ? '00' : '30';
-  return `${String(h).padStart(2, '0')}:${m}`;
+function isoToSlot(isoString: string, timeZone: string): string {
+  const { hour, minute } = zonedParts(new Date(isoString), timeZone);
+  return `${String(hour).padStart(2, '0')}:${minute < 30 ? '00' : '30'}`;
 }
 
 function computePrice(startSlot: string, endSlot: string, hourlyRate: number): number {
@@ -41,6 +41,7 @@ interface Props {
   date: string;
   orgId: string;
   currency: string;
+  timeZone: string;
   rooms: MeetingRoom[];
   initialRoomId: string;
   initialSlot: string;
@@ -49,7 +50,7 @@ interface Props {
 }
 
 export default function MeetingRoomBookingModal({
-  date, orgId, currency, rooms, initialRoomId, initialSlot, booking, onClose,
+  date, orgId, currency, timeZone, rooms, initialRoomId, initialSlot, booking, onClose,
 }: Props) {
   const { toast } = useToast();
   const createBooking = useCreateMeetingRoomBooking();
@@ -59,9 +60,9 @@ export default function MeetingRoomBookingModal({
   const isEdit = !!booking;
 
   const [roomId, setRoomId] = useState(isEdit ? booking.meetingRoomId : initialRoomId);
-  const [startSlot, setStartSlot] = useState(isEdit ? isoToSlot(booking.startTime) : initialSlot);
+  const [startSlot, setStartSlot] = useState(isEdit ? isoToSlot(booking.startTime, timeZone) : initialSlot);
   const [endSlot, setEndSlot] = useState(() => {
-    if (isEdit) return isoToSlot(booking.endTime);
+    if (isEdit) return isoToSlot(booking.endTime, timeZone);
     const startIdx = TIME_SLOTS.indexOf(initialSlot);
     return TIME_SLOTS[Math.min(startIdx + 2, TIME_SLOTS.length - 1)]; // default +1 hour
   });
@@ -72,8 +73,8 @@ export default function MeetingRoomBookingModal({
     if (isEdit && booking.price != null) return String(booking.price);
     const room = rooms.find(r => r.id === (isEdit ? booking.meetingRoomId : initialRoomId));
     if (!room) return '0';
-    return String(computePrice(isEdit ? isoToSlot(booking.startTime) : initialSlot,
-      isEdit ? isoToSlot(booking.endTime) : TIME_SLOTS[Math.min(TIME_SLOTS.indexOf(initialSlot) + 2, TIME_SLOTS.length - 1)],
+    return String(computePrice(isEdit ? isoToSlot(booking.startTime, timeZone) : initialSlot,
+      isEdit ? isoToSlot(booking.endTime, timeZone) : TIME_SLOTS[Math.min(TIME_SLOTS.indexOf(initialSlot) + 2, TIME_SLOTS.length - 1)],
       room.hourlyRate));
   });
   const [notes, setNotes] = useState(isEdit ? (booking.notes ?? '') : '');
@@ -97,8 +98,8 @@ export default function MeetingRoomBookingModal({
 
   const handleSave = async () => {
     if (!selectedRoom) return;
-    const startIso = slotToIso(date, startSlot);
-    const endIso = slotToIso(date, endSlot);
+    const startIso = slotToIso(date, startSlot, timeZone);
+    const endIso = slotToIso(date, endSlot, timeZone);
 
     try {
       if (isEdit) {
@@ -3,7 +3,7 @@ import { Button } from '@/components/ui/button';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Calendar } from '@/components/ui/calendar';
 import { ChevronLeft, ChevronRight, CalendarIcon } from 'lucide-react';
-import { formatLocalDate } from '@/lib/dateUtils';
+import { formatLocalDate, todayString } from '@/lib/dateUtils';
 
 interface MeetingRoomHeaderProps {
   date: string;
@@ -14,8 +14,7 @@ interface MeetingRoomHeaderProps {
 
 function formatDate(dateStr: string): string {
   const date = new Date(dateStr + 'T00:00:00');
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+  const today = new Date(todayString() + 'T00:00:00');
   const tomorrow = new Date(today);
   tomorrow.setDate(tomorrow.getDate() + 1);
 
@@ -1,6 +1,7 @@
 import { Card } from '@/components/ui/card';
 import { MeetingRoom, MeetingRoomBooking } from '@shared/schema';
 import { currencySymbols } from '@/lib/settings';
+import { zonedParts, zonedTimeString } from '@/lib/dateUtils';
 
 // Time slots: 08:00 to 20:00 in 30-min increments (25 slots, last bookable start is 19:30)
 const SLOT_COUNT = 24;
@@ -13,9 +14,10 @@ function slotLabel(index: number): string {
   return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
 }
 
-function timeToSlotIndex(isoString: string): number {
-  const d = new Date(isoString);
-  return (d.getHours() - START_HOUR) * 2 + (d.getMinutes() >= 30 ? 1 : 0);
+// Slots are wall-clock times in the organization's timezone
+function timeToSlotIndex(isoString: string, timeZone: string): number {
+  const { hour, minute } = zonedParts(new Date(isoString), timeZone);
+  return (hour - START_HOUR) * 2 + (minute >= 30 ? 1 : 0);
 }
 
 function bookingRowSpan(booking: MeetingRoomBooking): number {
@@ -23,9 +25,8 @@ function bookingRowSpan(booking: MeetingRoomBooking): number {
   return Math.max(1, Math.round(diffMs / (30 * 60 * 1000)));
 }
 
-function formatTime(isoString: string): string {
-  const d = new Date(isoString);
-  return `${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}`;
+function formatTime(isoString: string, timeZone: string): string {
+  return zonedTimeString(new Date(isoString), timeZone);
 }
 
 type SlotState =
@@ -48,9 +49,10 @@ interface TimeGridProps {
   onSlotClick: (roomId: string, slot: string) => void;
   onBookingClick: (booking: MeetingRoomBooking) => void;
   currency: string;
+  timeZone: string;
 }
 
-export default function TimeGrid({ rooms, bookings, onSlotClick, onBookingClick, currency }: TimeGridProps) {
+export default function TimeGrid({ rooms, bookings, onSlotClick, onBookingClick, currency, timeZone }: TimeGridProps) {
   const currencySymbol = currencySymbols[currency] ?? currency;
 
   // Precompute slot states per room
@@ -60,7 +62,7 @@ export default function TimeGrid({ rooms, bookings, onSlotClick, onBookingClick,
     const roomBookings = bookings.filter(b => b.meetingRoomId === room.id);
 
     for (const booking of roomBookings) {
-      const startIdx = timeToSlotIndex(booking.startTime);
+      const startIdx = timeToSlotIndex(booking.startTime, timeZone);
       const rowSpan = bookingRowSpan(booking);
       if (startIdx >= 0 && startIdx < SLOT_COUNT) {
         states[startIdx] = { type: 'booking_start', booking, rowSpan };
@@ -139,7 +141,7 @@ export default function TimeGrid({ rooms, bookings, onSlotClick, onBookingClick,
                             {booking.personName || booking.title || 'Booking'}
                           </p>
                           <p className="text-xs text-gray-500">
-                            {formatTime(booking.startTime)}–{formatTime(booking.endTime)}
+                            {formatTime(booking.startTime, timeZone)}–{formatTime(booking.endTime, timeZone)}
                           </p>
                           {booking.price != null && (
                             <p className="text-xs text-gray-500">{currencySymbol}{booking.price}</p>
@@ -3,6 +3,8 @@ import { Input } from '@/components/ui/input';
 import { Client } from '@shared/schema';
 import { useDataStore } from '@/contexts/DataStoreContext';
 import { useOrganization } from '@/contexts/OrganizationContext';
+import { useRecordAudit } from '@/hooks/use-audit-log';
+import { clientAuditEntry } from '@/lib/auditLog';
 import { UserPlus, User } from 'lucide-react';
 
 interface ClientAutocompleteProps {
@@ -25,6 +27,7 @@ export default function ClientAutocomplete({
   id,
 }: ClientAutocompleteProps) {
   const dataStore = useDataStore();
+  const recordAudit = useRecordAudit();
   const { currentOrg, organizations } = useOrganization();
   const orgNameById = useMemo(() => {
     const map: Record<string, string> = {};
@@ -189,6 +192,7 @@ export default function ClientAutocomplete({
                       createdAt: new Date().toISOString(),
                       updatedAt: new Date().toISOString(),
                     });
+                    recordAudit(clientAuditEntry(null, newClient));
                     onChange(newClient.name, newClient.id);
                     setIsOpen(false);
                     setSuggestions([]);
@@ -4,6 +4,7 @@ import { Upload, FileText, AlertCircle, CheckCircle2, Loader2, X } from 'lucide-
 import { useDataStore } from '@/contexts/DataStoreContext';
 import { useOrganization } from '@/contexts/OrganizationContext';
 import { useToast } from '@/hooks/use-toast';
+import { useRecordImportBatch } from '@/hooks/use-import-batches';
 import { Button } from '@/components/ui/button';
 import {
   Dialog,
@@ -21,7 +22,7 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Progress } from '@/components/ui/progress';
-import { Client } from '@shared/schema';
+import { Client, ImportSource } from '@shared/schema';
 import {
   parseCsv,
   autoMapColumns,
@@ -34,11 +35,14 @@ import {
   type ParseResult,
   type ValidatedImport,
 } from '@/lib/csvImport';
+import { IMPORT_SOURCE_LABELS, presetMemberMapping } from '@/lib/migrationImport';
 
 interface Props {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   existingClients: Client[];
+  /** Migrating from another tool: map its export columns and record the batch for rollback. */
+  source?: ImportSource;
 }
 
 type Step = 'upload' | 'map' | 'result';
@@ -52,11 +56,12 @@ interface ImportResult {
   errorMessage: string | null;
 }
 
-export default function ImportMembersDialog({ open, onOpenChange, existingClients }: Props) {
+export default function ImportMembersDialog({ open, onOpenChange, existingClients, source }: Props) {
   const dataStore = useDataStore();
   const { currentOrg } = useOrganization();
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const recordImportBatch = useRecordImportBatch();
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const [step, setStep] = useState<Step>('upload');
@@ -126,7 +131,7 @@ export default function ImportMembersDialog({ open, onOpenChange, existingClient
       return;
     }
     setParseResult(result);
-    setMapping(autoMapColumns(result.headers));
+    setMapping(source ? presetMemberMapping(source, result.headers) : autoMapColumns(result.headers));
     setStep('map');
   }
 
@@ -160,7 +165,10 @@ export default function ImportMembersDialog({ open, onOpenChange, existingClient
     setIsCommitting(true);
     setProgress(10);
     try {
-      const { created, failed, firstError } = await dataStore.bulkCreateClients(payload);
+      const { created, failed, firstError, ids } = await dataStore.bulkCreateClients(payload);
+      if (source && ids.length > 0) {
+        await recordImportBatch({ source, kind: 'members', clientIds: ids });
+      }
       setProgress(100);
       setResult({
         attempted: payload.length,
@@ -189,7 +197,9 @@ export default function ImportMembersDialog({ open, onOpenChange, existingClient
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-3xl max-h-[90vh] flex flex-col">
         <DialogHeader>
-          <DialogTitle>Import members from CSV</DialogTitle>
+          <DialogTitle>
+            {source ? `Import members from ${IMPORT_SOURCE_LABELS[source]}` : 'Import members from CSV'}
+          </DialogTitle>
           <DialogDescription>
             {step === 'upload' && 'Drop a CSV file or paste its contents below.'}
             {step === 'map' && 'Confirm column mapping and review rows before importing.'}
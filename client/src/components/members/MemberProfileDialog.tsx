@@ -14,6 +14,7 @@ import {
 import { Client, PaymentMethodType } from '@shared/schema';
 import { Loader2, UserCog } from 'lucide-react';
 import { PAYMENT_METHOD_LABEL, SELECT_NONE_VALUE } from '@/lib/invoices';
+import AuditTrail from '@/components/shared/AuditTrail';
 
 interface MemberProfileSavePatch {
   billingAddress: string | null;
@@ -159,6 +160,13 @@ export default function MemberProfileDialog({
               </SelectContent>
             </Select>
           </div>
+
+          {client && (
+            <AuditTrail
+              filter={{ clientId: client.id }}
+              emptyText="No changes recorded for this member yet."
+            />
+          )}
         </div>
 
         <div className="flex justify-end space-x-3 mt-6 pt-4 border-t">
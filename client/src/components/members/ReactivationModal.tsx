@@ -9,7 +9,7 @@ import { useDataStore } from '@/contexts/DataStoreContext';
 import { useOrganization } from '@/contexts/OrganizationContext';
 import { usePlanFreeze } from '@/hooks/use-plan-freeze';
 import { addDays, allocatePlanDays } from '@/lib/planDates';
-import { formatLocalDate } from '@/lib/dateUtils';
+import { todayString } from '@/lib/dateUtils';
 import { AlertCircle, Loader2, Play } from 'lucide-react';
 
 interface ReactivationModalProps {
@@ -30,7 +30,7 @@ export default function ReactivationModal({
   const { reactivate } = usePlanFreeze();
 
   const bankedDays = bankedBookings.length;
-  const today = useMemo(() => formatLocalDate(new Date()), []);
+  const today = useMemo(() => todayString(), []);
   const [startDate, setStartDate] = useState(today);
 
   useEffect(() => {
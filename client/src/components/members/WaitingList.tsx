@@ -1,36 +1,64 @@
-import { useState, useEffect } from 'react';
+import { useState, useMemo } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { WaitingListEntry } from '@shared/schema';
+import { DayPart, DeskBooking, Currency, WaitingListEntry } from '@shared/schema';
 import { useDataStore } from '@/contexts/DataStoreContext';
+import { useOrganization } from '@/contexts/OrganizationContext';
 import WaitingListModal from './WaitingListModal';
+import BookingModal, { BookingPrefill } from '@/components/bookings/BookingModal';
 import { useToast } from '@/hooks/use-toast';
-import { Clock, UserPlus, Users, User, CalendarRange, Mail, StickyNote, Trash2 } from 'lucide-react';
+import { useBookingActions } from '@/hooks/use-booking-actions';
+import { useWaitingListEntries, useWaitingListMatches } from '@/hooks/use-waiting-list';
+import { DEFAULT_DESKS } from '@/lib/deskConfig';
+import { DEFAULT_WORKING_DAYS } from '@/lib/workingDays';
+import { formatDateRange } from '@/lib/dateUtils';
+import { planLabel } from '@/lib/planDates';
+import { WaitlistMatch, isOfferExpired } from '@/lib/waitingList';
+import { Clock, UserPlus, Users, User, CalendarRange, Mail, StickyNote, Trash2, Armchair, Tag, CheckCircle2, CalendarPlus, Send } from 'lucide-react';
 
 export default function WaitingList() {
-  const [entries, setEntries] = useState<WaitingListEntry[]>([]);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const { toast } = useToast();
   const dataStore = useDataStore();
+  const queryClient = useQueryClient();
+  const { currentOrg, legacyDesks } = useOrganization();
+  const desks = legacyDesks.length > 0 ? legacyDesks : DEFAULT_DESKS;
+  const currentCurrency: Currency = currentOrg?.currency || 'EUR';
+  const deskLabels = useMemo(() => new Map(desks.map(d => [d.id, d.label])), [desks]);
 
-  useEffect(() => {
-    loadEntries();
-  }, []);
+  const { data: entries = [] } = useWaitingListEntries();
+  const { matches } = useWaitingListMatches();
+  const matchByEntry = useMemo(() => new Map(matches.map(m => [m.entry.id, m])), [matches]);
 
-  const loadEntries = async () => {
-    try {
-      const allEntries = dataStore.getWaitingListEntries ?
-        await dataStore.getWaitingListEntries() : [];
-      setEntries(allEntries);
-    } catch (error) {
-      console.error('Error loading waiting list:', error);
-      toast({
-        title: "Error",
-        description: "Failed to load waiting list",
-        variant: "destructive",
-      });
-    }
-  };
+  const [converting, setConverting] = useState<WaitlistMatch | null>(null);
+  const [selectedBooking, setSelectedBooking] = useState<{
+    booking: DeskBooking | null;
+    deskId: string;
+    date: string;
+    dayPart?: DayPart;
+  } | null>(null);
+  const [isBookingModalOpen, setIsBookingModalOpen] = useState(false);
+
+  const { handleBookingSave } = useBookingActions(
+    currentCurrency,
+    selectedBooking,
+    setSelectedBooking,
+    setIsBookingModalOpen,
+    [],
+    desks,
+    currentOrg?.workingDays ?? DEFAULT_WORKING_DAYS,
+    currentOrg?.closures
+  );
+
+  const prefill = useMemo<BookingPrefill | undefined>(() => converting ? {
+    personName: converting.entry.name,
+    clientId: converting.entry.clientId ?? undefined,
+    planType: converting.entry.planType ?? undefined,
+    endDate: converting.endDate,
+  } : undefined, [converting]);
+
+  const invalidateEntries = () => queryClient.invalidateQueries({ queryKey: ['waiting-list'] });
 
   const handleAddEntry = async (entry: Omit<WaitingListEntry, 'id' | 'createdAt'>) => {
     try {
@@ -44,7 +72,7 @@ export default function WaitingList() {
         await dataStore.saveWaitingListEntry(newEntry);
       }
 
-      await loadEntries();
+      await invalidateEntries();
       toast({
         title: "Added to Waiting List",
         description: `${entry.name} has been added to the waiting list`,
@@ -64,7 +92,7 @@ export default function WaitingList() {
         await dataStore.deleteWaitingListEntry(id);
       }
 
-      await loadEntries();
+      await invalidateEntries();
       toast({
         title: "Removed from Waiting List",
         description: `${name} has been removed from the waiting list`,
@@ -78,6 +106,24 @@ export default function WaitingList() {
     }
   };
 
+  const handleConvert = (match: WaitlistMatch) => {
+    setConverting(match);
+    setSelectedBooking({ booking: null, deskId: match.deskId, date: match.startDate });
+    setIsBookingModalOpen(true);
+  };
+
+  // The entry leaves the list once its booking is saved; a failed save
+  // throws before that and keeps the modal open.
+  const handleConvertedSave: typeof handleBookingSave = async (bookingData) => {
+    await handleBookingSave(bookingData);
+    if (!converting) return;
+    if (dataStore.deleteWaitingListEntry) {
+      await dataStore.deleteWaitingListEntry(converting.entry.id);
+    }
+    setConverting(null);
+    await invalidateEntries();
+  };
+
   const formatDate = (isoString: string) => {
     return new Date(isoString).toLocaleDateString('en-US', {
       month: 'short',
@@ -111,53 +157,120 @@ export default function WaitingList() {
           </div>
         ) : (
           <div className="space-y-3">
-            {entries.map((entry) => (
-              <div key={entry.id} className="border rounded-lg p-4 bg-gray-50">
-                <div className="flex justify-between items-start">
-                  <div className="flex-1">
-                    <div className="flex items-center gap-2 mb-2">
-                      <User className="h-4 w-4 text-orange-600" />
-                      <h4 className="font-medium text-gray-900">{entry.name}</h4>
-                    </div>
-
-                    <div className="space-y-1 text-sm text-gray-600">
-                      <div className="flex items-center gap-2">
-                        <CalendarRange className="h-3 w-3" />
-                        <span>{entry.preferredDates}</span>
+            {entries.map((entry) => {
+              const match = matchByEntry.get(entry.id);
+              return (
+                <div
+                  key={entry.id}
+                  className={`border rounded-lg p-4 ${match ? 'bg-green-50 border-green-200' : 'bg-gray-50'}`}
+                >
+                  <div className="flex justify-between items-start">
+                    <div className="flex-1">
+                      <div className="flex items-center gap-2 mb-2">
+                        <User className="h-4 w-4 text-orange-600" />
+                        <h4 className="font-medium text-gray-900">{entry.name}</h4>
+                        {entry.planType && (
+                          <span className="text-xs text-gray-500">{planLabel(entry.planType)}</span>
+                        )}
                       </div>
 
-                      {entry.contactInfo && (
-                        <div className="flex items-center gap-2">
-                          <Mail className="h-3 w-3" />
-                          <span>{entry.contactInfo}</span>
+                      <div className="space-y-1 text-sm text-gray-600">
+                        {entry.startDate && (
+                          <div className="flex items-center gap-2">
+                            <CalendarRange className="h-3 w-3" />
+                            <span>
+                              {entry.endDate
+                                ? formatDateRange(entry.startDate, entry.endDate)
+                                : `From ${formatDateRange(entry.startDate, entry.startDate)}`}
+                            </span>
+                          </div>
+                        )}
+
+                        {entry.preferredDates && (
+                          <div className="flex items-center gap-2">
+                            <CalendarRange className="h-3 w-3" />
+                            <span>{entry.preferredDates}</span>
+                          </div>
+                        )}
+
+                        {entry.deskId && (
+                          <div className="flex items-center gap-2">
+                            <Armchair className="h-3 w-3" />
+                            <span>Prefers {deskLabels.get(entry.deskId) ?? entry.deskId}</span>
+                          </div>
+                        )}
+
+                        {entry.deskAttributes && entry.deskAttributes.length > 0 && (
+                          <div className="flex items-center gap-2">
+                            <Tag className="h-3 w-3" />
+                            <span>{entry.deskAttributes.join(', ')}</span>
+                          </div>
+                        )}
+
+                        {entry.contactInfo && (
+                          <div className="flex items-center gap-2">
+                            <Mail className="h-3 w-3" />
+                            <span>{entry.contactInfo}</span>
+                          </div>
+                        )}
+
+                        {entry.contactEmail && (
+                          <div className="flex items-center gap-2">
+                            <Mail className="h-3 w-3" />
+                            <span>{entry.contactEmail}</span>
+                          </div>
+                        )}
+
+                        {entry.offer && (
+                          <div className={`flex items-center gap-2 ${isOfferExpired(entry) ? 'text-gray-400' : 'text-blue-700'}`}>
+                            <Send className="h-3 w-3" />
+                            <span>
+                              {isOfferExpired(entry)
+                                ? `Offer for ${deskLabels.get(entry.offer.deskId) ?? entry.offer.deskId} not claimed in time`
+                                : `${deskLabels.get(entry.offer.deskId) ?? entry.offer.deskId} offered by email until ${formatDate(entry.offer.expiresAt)}`}
+                            </span>
+                          </div>
+                        )}
+
+                        {entry.notes && (
+                          <div className="flex items-start gap-2">
+                            <StickyNote className="h-3 w-3 mt-0.5" />
+                            <span>{entry.notes}</span>
+                          </div>
+                        )}
+
+                        <div className="flex items-center gap-2 text-xs text-gray-400 mt-2">
+                          <Clock className="h-3 w-3" />
+                          <span>Added {formatDate(entry.createdAt)}</span>
                         </div>
-                      )}
+                      </div>
 
-                      {entry.notes && (
-                        <div className="flex items-start gap-2">
-                          <StickyNote className="h-3 w-3 mt-0.5" />
-                          <span>{entry.notes}</span>
+                      {match && (
+                        <div className="flex flex-wrap items-center gap-3 mt-3">
+                          <span className="flex items-center gap-1 text-sm text-green-700">
+                            <CheckCircle2 className="h-4 w-4" />
+                            {deskLabels.get(match.deskId) ?? match.deskId} is free {formatDateRange(match.startDate, match.endDate)}
+                          </span>
+                          <Button size="sm" variant="outline" onClick={() => handleConvert(match)}>
+                            <CalendarPlus className="h-4 w-4 mr-2" />
+                            Convert to booking
+                          </Button>
                         </div>
                       )}
-
-                      <div className="flex items-center gap-2 text-xs text-gray-400 mt-2">
-                        <Clock className="h-3 w-3" />
-                        <span>Added {formatDate(entry.createdAt)}</span>
-                      </div>
                     </div>
-                  </div>
 
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => handleRemoveEntry(entry.id, entry.name)}
-                    className="text-red-600 hover:text-red-800 hover:bg-red-50"
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRemoveEntry(entry.id, entry.name)}
+                      className="text-red-600 hover:text-red-800 hover:bg-red-50"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
                 </div>
-              </div>
-            ))}
+              );
+            })}
           </div>
         )}
       </CardContent>
@@ -167,6 +280,22 @@ export default function WaitingList() {
         onClose={() => setIsModalOpen(false)}
         onSave={handleAddEntry}
       />
+
+      <BookingModal
+        isOpen={isBookingModalOpen}
+        onClose={() => {
+          setIsBookingModalOpen(false);
+          setSelectedBooking(null);
+          setConverting(null);
+        }}
+        booking={null}
+        deskId={selectedBooking?.deskId || ''}
+        date={selectedBooking?.date || ''}
+        desks={desks}
+        currency={currentCurrency}
+        prefill={prefill}
+        onSave={handleConvertedSave}
+      />
     </Card>
   );
 }
@@ -1,11 +1,22 @@
-import { useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
-import { WaitingListEntry } from '@shared/schema';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PlanType, WaitingListEntry } from '@shared/schema';
 import { UserPlus, Plus } from 'lucide-react';
+import ClientAutocomplete from '@/components/members/ClientAutocomplete';
+import { DeskAttributePicker } from '@/components/booking/DeskAttributePicker';
+import { useOrganization } from '@/contexts/OrganizationContext';
+import { DEFAULT_DESKS } from '@/lib/deskConfig';
+import { collectDeskAttributes, toggleDeskAttribute } from '@/lib/deskAttributes';
+import { planLabel } from '@/lib/planDates';
+import { todayString } from '@/lib/dateUtils';
+
+const WAITLIST_PLANS: PlanType[] = ['day_pass', 'weekly', 'monthly', 'custom'];
+const ANY_DESK = 'any';
 
 interface WaitingListModalProps {
   isOpen: boolean;
@@ -18,30 +29,50 @@ export default function WaitingListModal({
   onClose,
   onSave
 }: WaitingListModalProps) {
+  const { legacyDesks } = useOrganization();
+  const desks = legacyDesks.length > 0 ? legacyDesks : DEFAULT_DESKS;
+  const attributeOptions = useMemo(() => collectDeskAttributes(desks), [desks]);
   const [name, setName] = useState('');
-  const [preferredDates, setPreferredDates] = useState('');
+  const [clientId, setClientId] = useState<string | undefined>(undefined);
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [planType, setPlanType] = useState<PlanType>('day_pass');
+  const [deskId, setDeskId] = useState(ANY_DESK);
+  const [deskAttributes, setDeskAttributes] = useState<string[]>([]);
   const [contactInfo, setContactInfo] = useState('');
   const [notes, setNotes] = useState('');
 
-  const handleSave = () => {
-    const trimmedName = name.trim();
-    const trimmedDates = preferredDates.trim();
-
-    if (trimmedName && trimmedDates) {
-      onSave({
-        name: trimmedName,
-        preferredDates: trimmedDates,
-        contactInfo: contactInfo.trim() || undefined,
-        notes: notes.trim() || undefined,
-      });
-
-      // Reset form
+  useEffect(() => {
+    if (isOpen) {
       setName('');
-      setPreferredDates('');
+      setClientId(undefined);
+      setStartDate(todayString());
+      setEndDate('');
+      setPlanType('day_pass');
+      setDeskId(ANY_DESK);
+      setDeskAttributes([]);
       setContactInfo('');
       setNotes('');
-      onClose();
     }
+  }, [isOpen]);
+
+  const rangeError = endDate && startDate && endDate < startDate ? 'The end date is before the start date.' : '';
+  const canSave = !!name.trim() && !!startDate && !rangeError;
+
+  const handleSave = () => {
+    if (!canSave) return;
+    onSave({
+      name: name.trim(),
+      clientId: clientId ?? null,
+      startDate,
+      endDate: endDate || null,
+      planType,
+      deskId: deskId === ANY_DESK ? null : deskId,
+      deskAttributes,
+      contactInfo: contactInfo.trim() || undefined,
+      notes: notes.trim() || undefined,
+    });
+    onClose();
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -52,7 +83,7 @@ export default function WaitingListModal({
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="max-w-md">
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <UserPlus className="h-5 w-5 text-blue-600" />
@@ -65,34 +96,88 @@ export default function WaitingListModal({
             <Label htmlFor="name" className="text-sm font-medium text-gray-700">
               Name *
             </Label>
-            <Input
-              id="name"
-              value={name}
-              onChange={(e) => setName(e.target.value)}
-              onKeyDown={handleKeyDown}
-              placeholder="Enter person's name"
-              className="mt-1"
-              maxLength={50}
-            />
+            <div className="mt-1">
+              <ClientAutocomplete
+                id="name"
+                value={name}
+                clientId={clientId}
+                onChange={(newName, newClientId) => {
+                  setName(newName);
+                  setClientId(newClientId);
+                }}
+                onKeyDown={handleKeyDown}
+                maxLength={50}
+              />
+            </div>
           </div>
 
-          <div>
-            <Label htmlFor="dates" className="text-sm font-medium text-gray-700">
-              Preferred Dates *
-            </Label>
-            <Input
-              id="dates"
-              value={preferredDates}
-              onChange={(e) => setPreferredDates(e.target.value)}
-              onKeyDown={handleKeyDown}
-              placeholder="e.g., Jan 15-20, Weekdays only, etc."
-              className="mt-1"
-            />
-            <p className="text-xs text-gray-500 mt-1">
-              Enter preferred dates or date ranges
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="waitStart" className="text-sm font-medium text-gray-700">From *</Label>
+              <Input
+                id="waitStart"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="waitEnd" className="text-sm font-medium text-gray-700">Until</Label>
+              <Input
+                id="waitEnd"
+                type="date"
+                value={endDate}
+                min={startDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+          </div>
+          {rangeError ? (
+            <p className="text-xs text-red-600 -mt-2">{rangeError}</p>
+          ) : (
+            <p className="text-xs text-gray-500 -mt-2">
+              Leave "Until" empty to wait for a desk for the length of the plan.
             </p>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label className="text-sm font-medium text-gray-700">Plan</Label>
+              <Select value={planType} onValueChange={(v) => setPlanType(v as PlanType)}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WAITLIST_PLANS.map(p => (
+                    <SelectItem key={p} value={p}>{planLabel(p)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="text-sm font-medium text-gray-700">Desk</Label>
+              <Select value={deskId} onValueChange={setDeskId}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY_DESK}>Any desk</SelectItem>
+                  {desks.map(d => (
+                    <SelectItem key={d.id} value={d.id}>{d.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
 
+          <DeskAttributePicker
+            options={attributeOptions}
+            selected={deskAttributes}
+            onToggle={(attribute) => setDeskAttributes(prev => toggleDeskAttribute(prev, attribute))}
+          />
+
           <div>
             <Label htmlFor="contact" className="text-sm font-medium text-gray-700">
               Contact Info
@@ -128,7 +213,7 @@ export default function WaitingListModal({
           </Button>
           <Button
             onClick={handleSave}
-            disabled={!name.trim() || !preferredDates.trim()}
+            disabled={!canSave}
             className="bg-blue-600 hover:bg-blue-700"
           >
             <Plus className="h-4 w-4 mr-2" />
@@ -4,6 +4,8 @@ import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } f
 import { LineChart, Line, XAxis, YAxis, CartesianGrid } from 'recharts';
 import { useRevenueHistory } from '@/hooks/use-monthly-stats';
 import { useMonthlyStats } from '@/hooks/use-monthly-stats';
+import { useOrganization } from '@/contexts/OrganizationContext';
+import { todayString } from '@/lib/dateUtils';
 import { currencySymbols } from '@/lib/settings';
 import { Skeleton } from '@/components/ui/skeleton';
 import { TrendingUp } from 'lucide-react';
@@ -56,8 +58,9 @@ export default function RevenueChart() {
 
   const months = isMobile ? 2 : 3;
   const { data: history, isLoading } = useRevenueHistory(months);
-  const now = new Date();
-  const { data: currentStats } = useMonthlyStats(now.getFullYear(), now.getMonth());
+  const { currentOrg } = useOrganization();
+  const [year, month] = todayString(currentOrg?.timezone).split('-').map(Number);
+  const { data: currentStats } = useMonthlyStats(year, month - 1);
   const symbol = currentStats ? currencySymbols[currentStats.currency] : '$';
 
   if (isLoading) {
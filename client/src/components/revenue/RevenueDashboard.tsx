@@ -4,13 +4,15 @@ import { Progress } from '@/components/ui/progress';
 import { useMonthlyStats, useDateRangeStats } from '@/hooks/use-monthly-stats';
 import { useExpenses } from '@/hooks/use-expenses';
 import { useMeetingRoomBookingsRange } from '@/hooks/use-meeting-room-bookings';
+import { useBookingFees } from '@/hooks/use-booking-fees';
 import { useOrganization } from '@/contexts/OrganizationContext';
 import { currencySymbols } from '@/lib/settings';
-import { formatLocalDate, formatYMD } from '@/lib/dateUtils';
+import { formatLocalDate, formatYMD, todayString } from '@/lib/dateUtils';
+import { sumFees } from '@/lib/bookingPolicy';
 import { Skeleton } from '@/components/ui/skeleton';
 import {
   TrendingUp, TrendingDown, Banknote, Receipt, Armchair, BarChart3,
-  DoorOpen
+  DoorOpen, UserX
 } from 'lucide-react';
 
 interface RevenueDashboardProps {
@@ -24,9 +26,10 @@ export default function RevenueDashboard({ viewMode, monthOffset = 0, startDate,
   const { currentOrg, hasMeetingRooms } = useOrganization();
   const defaultPricePerDay = currentOrg?.defaultPricePerDay ?? 8;
 
-  // Calculate year and month from offset for monthly view
-  const targetDate = new Date();
-  targetDate.setMonth(targetDate.getMonth() + monthOffset);
+  // Calculate year and month from offset for monthly view, counting from the
+  // organization's current month
+  const [currentYear, currentMonth] = todayString(currentOrg?.timezone).split('-').map(Number);
+  const targetDate = new Date(currentYear, currentMonth - 1 + monthOffset, 1);
   const year = targetDate.getFullYear();
   const month = targetDate.getMonth();
 
@@ -47,14 +50,18 @@ export default function RevenueDashboard({ viewMode, monthOffset = 0, startDate,
   const { data: mrBookings = [] } = useMeetingRoomBookingsRange(currentOrg?.id, expensesStartDate, expensesEndDate);
   const meetingRoomRevenue = mrBookings.reduce((sum, b) => sum + (b.price ?? 0), 0);
 
+  // Cancellation and no-show fees charged for days in the period
+  const { data: fees = [] } = useBookingFees(expensesStartDate, expensesEndDate);
+  const feeRevenue = sumFees(fees);
+
   const isWeekView = viewMode === 'week';
   const { data: stats, isLoading } = isWeekView ? dateRangeStats : monthlyStats;
 
   // Calculate total expenses
   const totalExpenses = expenses.reduce((sum, expense) => sum + expense.amount, 0);
 
-  // Calculate net profit (desk revenue + meeting room revenue - expenses)
-  const netProfit = (stats?.totalRevenue || 0) + meetingRoomRevenue - totalExpenses;
+  // Calculate net profit (desk revenue + meeting room revenue + fees - expenses)
+  const netProfit = (stats?.totalRevenue || 0) + meetingRoomRevenue + feeRevenue - totalExpenses;
 
   // Format period label based on view mode
   const periodLabel = isWeekView && startDate && endDate
@@ -140,6 +147,20 @@ export default function RevenueDashboard({ viewMode, monthOffset = 0, startDate,
                   </div>
                 )}
 
+                {/* Cancellation and no-show fees (only once any were charged) */}
+                {fees.length > 0 && (
+                  <div className="p-2 bg-rose-50 rounded-lg border border-rose-100">
+                    <div className="flex items-center gap-1">
+                      <UserX className="h-3.5 w-3.5 text-rose-600 shrink-0" />
+                      <span className="text-xs text-gray-600">Fees</span>
+                    </div>
+                    <div className="text-base font-bold text-rose-600 mt-0.5">
+                      {formatCurrency(feeRevenue)}
+                    </div>
+                    <div className="text-xs text-gray-400">{fees.length} charged</div>
+                  </div>
+                )}
+
                 {/* Total Expenses */}
                 <div className="p-2 bg-red-50 rounded-lg border border-red-100">
                   <div className="flex items-center gap-1">
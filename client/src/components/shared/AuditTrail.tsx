@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import { History, ChevronDown, ChevronRight, Loader2 } from 'lucide-react';
+import { AuditEntry } from '@shared/schema';
+import { useAuditLog } from '@/hooks/use-audit-log';
+import { AUDIT_FIELD_LABELS, AuditLogFilter, formatAuditValue } from '@/lib/auditLog';
+import { cn } from '@/lib/utils';
+
+const ACTION_STYLES: Record<AuditEntry['action'], string> = {
+  create: 'bg-green-100 text-green-700',
+  update: 'bg-blue-100 text-blue-700',
+  delete: 'bg-red-100 text-red-700',
+};
+
+export function AuditEntryItem({ entry }: { entry: AuditEntry }) {
+  const changes = Object.entries(entry.changes);
+  return (
+    <li className="py-2.5">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <p className="text-sm text-gray-900">
+            <span className={cn('inline-block rounded px-1.5 py-0.5 text-[10px] font-semibold uppercase mr-1.5 align-middle', ACTION_STYLES[entry.action])}>
+              {entry.action}
+            </span>
+            {entry.summary}
+          </p>
+          <p className="text-xs text-gray-500 mt-0.5">
+            {entry.actorName || 'Unknown user'} · {formatAuditValue(entry.createdAt)}
+          </p>
+        </div>
+      </div>
+      {entry.action === 'update' && changes.length > 0 && (
+        <ul className="mt-1.5 space-y-0.5 pl-1">
+          {changes.map(([field, change]) => (
+            <li key={field} className="text-xs text-gray-600">
+              <span className="font-medium text-gray-700">{AUDIT_FIELD_LABELS[field] ?? field}:</span>{' '}
+              <span className="line-through text-gray-400">{formatAuditValue(change.before)}</span>
+              {' → '}
+              <span>{formatAuditValue(change.after)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+export function AuditEntryList({
+  entries,
+  isLoading,
+  emptyText = 'No changes recorded yet.',
+}: {
+  entries: AuditEntry[] | undefined;
+  isLoading: boolean;
+  emptyText?: string;
+}) {
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+  if (!entries || entries.length === 0) {
+    return <p className="text-sm text-gray-500 py-3">{emptyText}</p>;
+  }
+  return (
+    <ul className="divide-y divide-gray-100">
+      {entries.map((entry) => (
+        <AuditEntryItem key={entry.id} entry={entry} />
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * Collapsible "History" block for dialogs. The log is only fetched once the
+ * section is expanded.
+ */
+export default function AuditTrail({ filter, emptyText }: { filter: AuditLogFilter; emptyText?: string }) {
+  const [expanded, setExpanded] = useState(false);
+  const { data: entries, isLoading } = useAuditLog(filter, { enabled: expanded });
+
+  return (
+    <div className="border-t pt-3">
+      <button
+        type="button"
+        onClick={() => setExpanded((v) => !v)}
+        className="flex items-center gap-1.5 text-sm font-medium text-gray-700 hover:text-gray-900"
+      >
+        {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+        <History className="h-4 w-4" />
+        History
+      </button>
+      {expanded && (
+        <div className="mt-1 max-h-64 overflow-y-auto">
+          <AuditEntryList entries={entries} isLoading={isLoading} emptyText={emptyText} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import { useState } from 'react';
+import { CloudOff, RefreshCw, AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useOfflineQueue } from '@/hooks/use-offline-queue';
+import { useToast } from '@/hooks/use-toast';
+import { OutboxEntry } from '@/lib/offlineQueue';
+
+function describeEntry(entry: OutboxEntry): string {
+  const { mutation } = entry;
+  switch (mutation.kind) {
+    case 'saveBookings': {
+      const first = mutation.bookings[0];
+      const who = first?.personName ? ` for ${first.personName}` : '';
+      return mutation.bookings.length === 1
+        ? `Booking on ${first.deskId} · ${first.date}${who}`
+        : `${mutation.bookings.length} booking days${who}`;
+    }
+    case 'deleteBookings':
+      return mutation.deletions.length === 1
+        ? `Removal of ${mutation.deletions[0].deskId} · ${mutation.deletions[0].date}`
+        : `Removal of ${mutation.deletions.length} booking days`;
+    case 'saveClient':
+      return `Member "${mutation.client.name}"`;
+    case 'deleteClient':
+      return 'Member deletion';
+    case 'saveExpense':
+      return `Expense on ${mutation.expense.date}`;
+    case 'deleteExpense':
+      return 'Expense deletion';
+  }
+}
+
+function describeServerState(entry: OutboxEntry): string | null {
+  const server = entry.conflict?.serverBookings;
+  if (!server) return null;
+  const rows = Object.values(server);
+  const taken = rows.filter(Boolean);
+  if (taken.length === 0) return 'Someone removed these days in the meantime.';
+  const names = Array.from(new Set(taken.map((b) => b!.personName || b!.status)));
+  return `Changed in the meantime: now ${names.slice(0, 3).join(', ')}.`;
+}
+
+export default function OfflineSyncBanner() {
+  const { isOnline, pendingCount, conflicts, replay, resolveConflict } = useOfflineQueue();
+  const { toast } = useToast();
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  if (isOnline && pendingCount === 0) return null;
+
+  const handleResolve = async (entryId: string, resolution: 'overwrite' | 'discard') => {
+    setBusyId(entryId);
+    try {
+      await resolveConflict(entryId, resolution);
+      toast({
+        title: resolution === 'overwrite' ? 'Your change was applied' : 'Your change was discarded',
+      });
+    } catch (error) {
+      toast({
+        title: 'Could not resolve conflict',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const waiting = pendingCount - conflicts.length;
+
+  return (
+    <div className="border-b border-amber-200 bg-amber-50 text-amber-900 text-sm">
+      <div className="flex items-center justify-between gap-3 px-4 py-2">
+        <p className="flex items-center gap-2 min-w-0 font-medium">
+          <CloudOff className="h-4 w-4 shrink-0" />
+          {!isOnline
+            ? `You're offline. ${waiting > 0 ? `${waiting} change${waiting === 1 ? '' : 's'} will sync when you're back online.` : 'Changes will be saved on this device until you reconnect.'}`
+            : waiting > 0
+            ? `${waiting} change${waiting === 1 ? '' : 's'} waiting to sync.`
+            : 'Some offline changes need your attention.'}
+        </p>
+        {isOnline && waiting > 0 && (
+          <Button variant="ghost" size="sm" className="h-7 text-amber-900" onClick={() => replay()}>
+            <RefreshCw className="h-3.5 w-3.5 mr-1" />
+            Sync now
+          </Button>
+        )}
+      </div>
+      {conflicts.length > 0 && (
+        <ul className="px-4 pb-2 space-y-1.5">
+          {conflicts.map((entry) => (
+            <li
+              key={entry.id}
+              className="flex flex-wrap items-center justify-between gap-2 rounded-md border border-amber-300 bg-white px-3 py-2"
+            >
+              <div className="flex items-start gap-2 min-w-0">
+                <AlertTriangle className="h-4 w-4 text-amber-600 shrink-0 mt-0.5" />
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{describeEntry(entry)}</p>
+                  <p className="text-xs text-amber-800">
+                    {describeServerState(entry) ?? 'The server copy changed while you were offline.'}
+                  </p>
+                </div>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={busyId === entry.id}
+                  onClick={() => handleResolve(entry.id, 'discard')}
+                >
+                  Discard mine
+                </Button>
+                <Button
+                  size="sm"
+                  disabled={busyId === entry.id}
+                  onClick={() => handleResolve(entry.id, 'overwrite')}
+                >
+                  Keep mine
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
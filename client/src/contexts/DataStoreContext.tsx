@@ -1,6 +1,6 @@
 import React, { createContext, useContext, useMemo, useEffect, useRef } from 'react';
 import { useQueryClient } from '@tanstack/react-query';
-import { IDataStore, createDataStore } from '@/lib/dataStore';
+import { IDataStore, StorageType, createDataStore } from '@/lib/dataStore';
 import { useOrganization } from '@/contexts/OrganizationContext';
 
 const DataStoreContext = createContext<IDataStore | undefined>(undefined);
@@ -13,14 +13,21 @@ export function useDataStore(): IDataStore {
   return context;
 }
 
-export function DataStoreProvider({ children }: { children: React.ReactNode }) {
+export function DataStoreProvider({
+  children,
+  storageType,
+}: {
+  children: React.ReactNode;
+  /** Overrides VITE_STORAGE_TYPE, e.g. to force the browser store for demos. */
+  storageType?: StorageType;
+}) {
   const { currentOrg } = useOrganization();
   const queryClient = useQueryClient();
   const prevOrgId = useRef(currentOrg?.id);
 
   const store = useMemo(
-    () => createDataStore(currentOrg?.id, currentOrg?.groupId ?? undefined),
-    [currentOrg?.id, currentOrg?.groupId]
+    () => createDataStore(currentOrg?.id, currentOrg?.groupId ?? undefined, storageType),
+    [currentOrg?.id, currentOrg?.groupId, storageType]
   );
 
   // Clear all org-scoped query caches when the organization changes
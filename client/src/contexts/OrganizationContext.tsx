@@ -3,6 +3,7 @@ import { Organization, Room, OrgDesk, Desk, OrgMemberRole, MeetingRoom } from '@
 import { useUserOrganizations, useOrganizationRooms, useOrganizationDesks } from '@/hooks/use-organization';
 import { useMeetingRooms } from '@/hooks/use-meeting-rooms';
 import { supabaseClient } from '@/lib/supabaseClient';
+import { setAppTimeZone } from '@/lib/dateUtils';
 import { useAuth } from '@/contexts/AuthContext';
 
 const ORG_STORAGE_KEY = 'deskplanner-current-org';
@@ -48,6 +49,10 @@ export function OrganizationProvider({ children }: { children: React.ReactNode }
   const currentOrg = currentMembership?.organization || null;
   const currentRole = (currentMembership?.role as OrgMemberRole) || null;
 
+  // Set while rendering (it's idempotent) so children computing "today" in
+  // this same render already use the organization's timezone.
+  setAppTimeZone(currentOrg?.timezone);
+
   const effectiveOrgId = currentOrg?.id;
 
   const { data: rooms = [], isLoading: roomsLoading } = useOrganizationRooms(effectiveOrgId);
@@ -73,6 +78,7 @@ export function OrganizationProvider({ children }: { children: React.ReactNode }
         number: i + 1,
         label: d.label,
         roomName: room?.name,
+        attributes: d.attributes ?? [],
       };
     });
 
@@ -0,0 +1,32 @@
+import { useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useDataStore } from '@/contexts/DataStoreContext';
+import type { AuditLogFilter, NewAuditEntry } from '@/lib/auditLog';
+
+export function useAuditLog(filter: AuditLogFilter, options: { enabled?: boolean } = {}) {
+  const dataStore = useDataStore();
+  return useQuery({
+    queryKey: ['audit-log', filter],
+    queryFn: () => dataStore.getAuditLog?.(filter) ?? Promise.resolve([]),
+    enabled: options.enabled ?? true,
+    staleTime: 30 * 1000,
+  });
+}
+
+/**
+ * Returns a recorder for audit entries. Recording is fire-and-forget: a failed
+ * audit write is logged but never blocks or rolls back the change itself.
+ */
+export function useRecordAudit() {
+  const dataStore = useDataStore();
+  const queryClient = useQueryClient();
+
+  return useCallback((...entries: (NewAuditEntry | null)[]) => {
+    if (!dataStore.recordAuditEntry) return;
+    const pending = entries.filter((e): e is NewAuditEntry => !!e);
+    if (pending.length === 0) return;
+    Promise.all(pending.map((entry) => dataStore.recordAuditEntry!(entry)))
+      .then(() => queryClient.invalidateQueries({ queryKey: ['audit-log'] }))
+      .catch((err) => console.warn('Failed to record audit entry:', err));
+  }, [dataStore, queryClient]);
+}
@@ -1,13 +1,25 @@
 import { useCallback } from 'react';
 import { useDataStore } from '@/contexts/DataStoreContext';
-import { DeskBooking, DeskStatus, Currency, Desk, PlanType } from '@shared/schema';
-import { generateDateRange } from '@/lib/dateUtils';
+import { useOrganization } from '@/contexts/OrganizationContext';
+import { BookingFee, DayPart, DeskBooking, DeskStatus, Currency, Desk, OrgClosure, PlanType, RecurrenceRule } from '@shared/schema';
+import { formatDateRange, generateDateRange, todayString } from '@/lib/dateUtils';
 import { addDays, addMonths } from '@/lib/planDates';
 import { useToast } from '@/hooks/use-toast';
 import { useQueryClient } from '@tanstack/react-query';
 import { currencySymbols } from '@/lib/settings';
 import { isNonWorkingDay, DEFAULT_WORKING_DAYS } from '@/lib/workingDays';
 import { supabaseClient } from '@/lib/supabaseClient';
+import { isBookingConflictError } from '@/lib/bookingConflicts';
+import { bookingAuditEntry, clientAuditEntry } from '@/lib/auditLog';
+import { useRecordAudit } from '@/hooks/use-audit-log';
+import { useUndoHistory } from '@/hooks/use-undo-history';
+import { buildSlotChanges } from '@/lib/undoHistory';
+import type { BookingSlot } from '@/lib/offlineQueue';
+import { useBookingSeriesActions } from '@/hooks/use-booking-series';
+import { useCheckIn } from '@/hooks/use-check-in';
+import { dayPartOf, dayPartsOverlap, DAY_PART_LABELS } from '@/lib/dayParts';
+import { BookingRun, isRunRow } from '@/lib/bookingMoves';
+import { FEE_KIND_LABELS, buildBookingFee, lateCancellationFee, noShowFee } from '@/lib/bookingPolicy';
 
 export function invalidateBookingQueries(queryClient: ReturnType<typeof useQueryClient>) {
   queryClient.invalidateQueries({ queryKey: ['desk-bookings'] });
@@ -20,6 +32,8 @@ interface SelectedBooking {
   booking: DeskBooking | null;
   deskId: string;
   date: string;
+  /** Half of the day an empty slot was picked from; whole day if unset. */
+  dayPart?: DayPart;
 }
 
 export function useBookingActions(
@@ -30,15 +44,23 @@ export function useBookingActions(
   nextAvailableDates: string[],
   desks: Desk[],
   workingDays: number[] = DEFAULT_WORKING_DAYS,
+  closures?: OrgClosure[],
 ) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const dataStore = useDataStore();
+  const recordAudit = useRecordAudit();
+  const { record: recordUndo } = useUndoHistory();
+  const { saveSeries, cancelSeries } = useBookingSeriesActions(workingDays, closures);
+  const { currentOrg } = useOrganization();
+  const checkIn = useCheckIn();
 
-  const handleDeskClick = useCallback(async (deskId: string, date: string, event?: React.MouseEvent, existingBooking?: DeskBooking | null) => {
-    if (isNonWorkingDay(date, workingDays)) return;
+  const handleDeskClick = useCallback(async (deskId: string, date: string, event?: React.MouseEvent, existingBooking?: DeskBooking | null, emptyDayPart?: DayPart) => {
+    if (isNonWorkingDay(date, workingDays, closures)) return;
 
     const booking = existingBooking ?? null;
+    const dayPart = booking ? booking.dayPart : emptyDayPart;
+    const halfDay = dayPart && dayPart !== 'full' ? dayPart : undefined;
 
     if (event?.ctrlKey || event?.button === 2) {
       event?.preventDefault();
@@ -49,15 +71,23 @@ export function useBookingActions(
       const nextIndex = (currentIndex + 1) % statusCycle.length;
       const nextStatus = statusCycle[nextIndex];
 
+      const deskLabel = desks.find(d => d.id === deskId)?.label || deskId;
+      let undoAction;
       if (nextStatus === 'available') {
-        await dataStore.deleteBooking(deskId, date);
+        await dataStore.deleteBooking(deskId, date, halfDay);
+        recordAudit(bookingAuditEntry(booking, null));
+        undoAction = recordUndo({
+          label: `${deskLabel} cleared on ${date}`,
+          slots: buildSlotChanges(booking ? [booking] : [], []),
+        });
       } else {
         const newBooking: DeskBooking = {
-          id: `${deskId}-${date}`,
+          id: halfDay ? `${deskId}-${date}-${halfDay}` : `${deskId}-${date}`,
           deskId,
           date,
           startDate: date,
           endDate: date,
+          dayPart: halfDay,
           status: nextStatus,
           personName: booking?.personName,
           title: booking?.title,
@@ -65,25 +95,42 @@ export function useBookingActions(
           currency: booking?.currency || currentCurrency || 'EUR',
           createdAt: booking?.createdAt || new Date().toISOString(),
         };
-        await dataStore.saveBooking(newBooking);
+        try {
+          await dataStore.saveBooking(newBooking);
+        } catch (error) {
+          if (!isBookingConflictError(error)) throw error;
+          invalidateBookingQueries(queryClient);
+          toast({
+            title: 'Desk just got taken',
+            description: `${error.conflictingBooking?.personName || 'Someone'} booked this desk a moment ago. Pick another desk.`,
+            variant: 'destructive',
+          });
+          return;
+        }
+        recordAudit(bookingAuditEntry(booking?.status === 'available' ? null : booking, newBooking));
+        undoAction = recordUndo({
+          label: `${deskLabel} set to ${nextStatus} on ${date}`,
+          slots: buildSlotChanges(booking ? [booking] : [], [newBooking]),
+        });
       }
 
       invalidateBookingQueries(queryClient);
       toast({
         title: 'Desk Status Updated',
         description: `Desk status set to ${nextStatus}`,
+        action: undoAction,
       });
       return;
     }
 
     if (booking?.status === 'booked' || booking?.status === 'assigned') {
-      setSelectedBooking({ booking, deskId, date });
+      setSelectedBooking({ booking, deskId, date, dayPart: halfDay });
       setIsBookingModalOpen(true);
     } else if (booking?.status === 'available' || !booking) {
-      setSelectedBooking({ booking: null, deskId, date });
+      setSelectedBooking({ booking: null, deskId, date, dayPart: halfDay });
       setIsBookingModalOpen(true);
     }
-  }, [toast, currentCurrency, queryClient, setSelectedBooking, setIsBookingModalOpen, dataStore, workingDays]);
+  }, [toast, currentCurrency, queryClient, setSelectedBooking, setIsBookingModalOpen, dataStore, workingDays, closures, recordAudit, recordUndo, desks]);
 
   const handleBookingSave = useCallback(async (bookingData: {
     personName: string;
@@ -98,23 +145,38 @@ export function useBookingActions(
     isOngoing?: boolean;
     planType?: PlanType;
     newDeskId?: string;
+    /** Repeat the booking weekly; saves (or rewrites) the whole series. */
+    recurrence?: RecurrenceRule;
+    /** Morning or afternoon only; single-day bookings. */
+    dayPart?: DayPart;
+    /** Expiry of a tentative hold; booked bookings only. */
+    heldUntil?: string | null;
   }) => {
     if (!selectedBooking) return;
 
     const { deskId: originalDeskId, booking: existingBooking } = selectedBooking;
     const deskId = bookingData.newDeskId || originalDeskId;
     const newDateRange = generateDateRange(bookingData.startDate, bookingData.endDate);
+    const isMultiDay = bookingData.startDate !== bookingData.endDate;
+    const dayPart = !isMultiDay && !bookingData.recurrence && bookingData.dayPart !== 'full'
+      ? bookingData.dayPart
+      : undefined;
+    const previousDayPart = existingBooking ? dayPartOf(existingBooking) : 'full';
+    const isOwnRow = (b: DeskBooking) => !!existingBooking
+      && b.deskId === originalDeskId
+      && dayPartOf(b) === previousDayPart
+      && b.date >= existingBooking.startDate
+      && b.date <= existingBooking.endDate;
 
     // Auto-link/create a Client when the admin typed a name but didn't pick one
     // from the autocomplete. Case-insensitive match against existing clients;
     // create a minimal Client if no match. Single-day day-pass bookings without
     // status='assigned' are treated as "walk-in" and keep clientId undefined.
     let resolvedClientId = bookingData.clientId;
-    const isMultiDay = bookingData.startDate !== bookingData.endDate;
     const shouldAutoLink = !resolvedClientId
       && !!bookingData.personName.trim()
       && !bookingData.isFlex
-      && (isMultiDay || bookingData.status === 'assigned');
+      && (isMultiDay || !!bookingData.recurrence || bookingData.status === 'assigned');
     if (shouldAutoLink && dataStore.searchClients && dataStore.saveClient) {
       const normalized = bookingData.personName.trim().toLowerCase();
       try {
@@ -134,6 +196,7 @@ export function useBookingActions(
             updatedAt: new Date().toISOString(),
           });
           resolvedClientId = created.id;
+          recordAudit(clientAuditEntry(null, created));
           queryClient.invalidateQueries({ queryKey: ['clients'] });
         }
       } catch (err) {
@@ -141,6 +204,21 @@ export function useBookingActions(
       }
     }
 
+    if (bookingData.recurrence) {
+      await saveSeries({
+        seriesId: existingBooking?.seriesId,
+        deskId,
+        rule: bookingData.recurrence,
+        status: bookingData.status,
+        personName: bookingData.personName,
+        title: bookingData.title,
+        price: bookingData.price,
+        currency: bookingData.currency || currentCurrency,
+        clientId: resolvedClientId,
+      });
+      return;
+    }
+
     let oldDateRange: string[] = [];
     if (existingBooking) {
       oldDateRange = generateDateRange(existingBooking.startDate, existingBooking.endDate);
@@ -161,9 +239,11 @@ export function useBookingActions(
       bookingData.startDate,
       scanEndDate,
     );
-    const rangeByDate: Record<string, DeskBooking> = {};
+    // Rows on the target desk that share part of the day with the new booking
+    const rangeByDate: Record<string, DeskBooking[]> = {};
     for (const b of rangeBookings) {
-      if (b.deskId === deskId) rangeByDate[b.date] = b;
+      if (b.deskId !== deskId || !dayPartsOverlap(dayPartOf(b), dayPart ?? 'full')) continue;
+      (rangeByDate[b.date] ??= []).push(b);
     }
 
     const scanRange = createRunway
@@ -171,13 +251,12 @@ export function useBookingActions(
       : newDateRange;
     const conflictDetails: string[] = [];
     for (const date of scanRange) {
-      if (existingBooking && oldDateRange.includes(date)) continue;
-      const existingBookingOnDate = rangeByDate[date] ?? null;
-      if (existingBookingOnDate && existingBookingOnDate.status !== 'available') {
+      for (const existingBookingOnDate of rangeByDate[date] ?? []) {
+        if (existingBookingOnDate.status === 'available' || isOwnRow(existingBookingOnDate)) continue;
         const dateObj = new Date(date + 'T00:00:00');
         const formattedDate = dateObj.toLocaleDateString('en-US', {
           weekday: 'short', month: 'short', day: 'numeric',
-        });
+        }) + (dayPartOf(existingBookingOnDate) === 'full' ? '' : ` (${DAY_PART_LABELS[dayPartOf(existingBookingOnDate)].toLowerCase()})`);
         if (existingBookingOnDate.personName) {
           conflictDetails.push(`${formattedDate}: ${existingBookingOnDate.personName} (${existingBookingOnDate.status})`);
         } else {
@@ -190,45 +269,63 @@ export function useBookingActions(
       throw new Error(`Cannot create booking due to conflicts on the following dates:\n\n${conflictDetails.join('\n')}\n\nPlease choose different dates or select available time slots.`);
     }
 
-    if (existingBooking && oldDateRange.length > 0) {
-      // Delete ALL old dates from the ORIGINAL desk — not just removed ones.
-      // This avoids duplicate rows when the existing booking has a different
-      // numeric ID than the new upsert, and handles desk changes correctly.
-      if (dataStore.bulkDeleteBookings) {
-        await dataStore.bulkDeleteBookings(oldDateRange.map(date => ({ deskId: originalDeskId, date })));
-      } else {
-        for (const date of oldDateRange) {
-          await dataStore.deleteBooking(originalDeskId, date);
-        }
-      }
-    }
+    // Stored rows of the booking being edited. Dates it keeps are updated in
+    // place, so the row keeps its id, share link and payment state.
+    const previousRows = existingBooking && oldDateRange.length > 0
+      ? (await dataStore.getBookingsForDateRange(existingBooking.startDate, existingBooking.endDate))
+          .filter(isOwnRow)
+      : [];
+
+    const bookingsToCreate: DeskBooking[] = newDateRange.map(date => {
+      const previousRow = previousRows.find(r => r.date === date);
+      return {
+        id: previousRow?.id
+          ?? (dayPart ? `${deskId}-${date}-${dayPart}` : `${deskId}-${date}`),
+        deskId,
+        date,
+        startDate: bookingData.startDate,
+        endDate: bookingData.endDate,
+        dayPart,
+        status: bookingData.status,
+        personName: bookingData.personName,
+        title: bookingData.title,
+        price: bookingData.price,
+        currency: bookingData.currency || currentCurrency,
+        clientId: resolvedClientId,
+        isFlex: bookingData.isFlex,
+        isOngoing: bookingData.isOngoing,
+        planType: bookingData.planType,
+        // A single occurrence edited on its own stays part of its series
+        seriesId: isMultiDay ? undefined : existingBooking?.seriesId,
+        // A desk of a group booking edited on its own stays in the group
+        bookingGroupId: existingBooking?.bookingGroupId,
+        noShow: previousRow?.noShow,
+        checkedInAt: previousRow?.checkedInAt,
+        heldUntil: bookingData.status === 'booked' ? bookingData.heldUntil ?? null : null,
+        createdAt: previousRow?.createdAt
+          ?? ((existingBooking && oldDateRange.includes(date))
+            ? existingBooking.createdAt
+            : new Date().toISOString()),
+      };
+    });
 
-    const bookingsToCreate: DeskBooking[] = newDateRange.map(date => ({
-      id: `${deskId}-${date}`,
-      deskId,
-      date,
-      startDate: bookingData.startDate,
-      endDate: bookingData.endDate,
-      status: bookingData.status,
-      personName: bookingData.personName,
-      title: bookingData.title,
-      price: bookingData.price,
-      currency: bookingData.currency || currentCurrency,
-      clientId: resolvedClientId,
-      isFlex: bookingData.isFlex,
-      isOngoing: bookingData.isOngoing,
-      planType: bookingData.planType,
-      createdAt: (existingBooking && oldDateRange.includes(date))
-        ? existingBooking.createdAt
-        : new Date().toISOString(),
-    }));
-
-    await dataStore.bulkUpdateBookings(bookingsToCreate);
+    // Clear ALL old dates from the ORIGINAL desk — not just removed ones —
+    // in the same write, so a conflict on a new date leaves the booking as it was.
+    const oldSlots = existingBooking
+      ? oldDateRange.map(date => ({ deskId: originalDeskId, date, dayPart: existingBooking.dayPart }))
+      : [];
+    try {
+      await dataStore.replaceBookings(oldSlots, bookingsToCreate);
+    } catch (error) {
+      if (isBookingConflictError(error)) invalidateBookingQueries(queryClient);
+      throw error;
+    }
 
     // Ongoing runway: append block 2 (next month, booked) after block 1 saves.
+    let runwayBookings: DeskBooking[] = [];
     if (createRunway && runwayStart && runwayEnd) {
       const runwayDates = generateDateRange(runwayStart, runwayEnd);
-      const runwayBookings: DeskBooking[] = runwayDates.map(date => ({
+      runwayBookings = runwayDates.map(date => ({
         id: `${deskId}-${date}`,
         deskId,
         date,
@@ -247,13 +344,22 @@ export function useBookingActions(
       await dataStore.bulkUpdateBookings(runwayBookings);
     }
 
+    recordAudit(
+      bookingAuditEntry(existingBooking, bookingsToCreate[0]),
+      createRunway && runwayStart && runwayEnd
+        ? bookingAuditEntry(null, { ...bookingsToCreate[0], status: 'booked', startDate: runwayStart, endDate: runwayEnd })
+        : null,
+    );
+
     // Reconcile flex balance based on delta between old and new state.
     // Handles: new flex booking, toggling a non-flex booking to flex (or vice versa),
     // and changing the date range of an existing flex booking.
+    let flexDelta = 0;
     if (resolvedClientId && dataStore.deductFlexDay && dataStore.restoreFlexDays) {
       const oldFlexDays = existingBooking?.isFlex ? oldDateRange.length : 0;
       const newFlexDays = bookingData.isFlex ? newDateRange.length : 0;
       const delta = newFlexDays - oldFlexDays;
+      flexDelta = delta;
       if (delta > 0) {
         for (let i = 0; i < delta; i++) {
           await dataStore.deductFlexDay(resolvedClientId);
@@ -277,6 +383,24 @@ export function useBookingActions(
 
     invalidateBookingQueries(queryClient);
 
+    // Only slots that were actually written: the free rows they replaced on
+    // the target desk, plus the edited booking's own rows.
+    const writtenRows = [...bookingsToCreate, ...runwayBookings];
+    const writtenSlots = new Set(writtenRows.map(b => b.date));
+    const undoAction = recordUndo({
+      label: `Booking for ${bookingData.personName}`,
+      slots: buildSlotChanges(
+        [
+          ...Object.values(rangeByDate).flat().filter(b => writtenSlots.has(b.date) && !isOwnRow(b)),
+          ...previousRows,
+        ],
+        writtenRows,
+      ),
+      flexDays: resolvedClientId && flexDelta !== 0
+        ? { clientId: resolvedClientId, days: flexDelta }
+        : undefined,
+    });
+
     const statusText = bookingData.status === 'assigned' ? 'assigned (paid)' : 'booked';
     const dayCount = newDateRange.length;
     const currencySymbol = currencySymbols[bookingData.currency];
@@ -286,17 +410,21 @@ export function useBookingActions(
     toast({
       title: isUpdate ? (deskChanged ? 'Booking Moved' : 'Desk Booking Updated') : 'Desk Booking Created',
       description: `${bookingData.personName} ${statusText} for ${dayCount} day${dayCount > 1 ? 's' : ''} - ${currencySymbol}${bookingData.price} total${movedLabel}`,
+      action: undoAction,
     });
-  }, [selectedBooking, toast, queryClient, currentCurrency, dataStore]);
+  }, [selectedBooking, toast, queryClient, currentCurrency, dataStore, recordAudit, recordUndo, desks, saveSeries]);
 
   const handlePersonSave = useCallback(async (personName: string) => {
     if (!selectedBooking) return;
 
     const { deskId, date } = selectedBooking;
+    const dayPart = selectedBooking.booking ? selectedBooking.booking.dayPart : selectedBooking.dayPart;
+    const halfDay = dayPart && dayPart !== 'full' ? dayPart : undefined;
     const newBooking: DeskBooking = {
-      id: `${deskId}-${date}`,
+      id: halfDay ? `${deskId}-${date}-${halfDay}` : `${deskId}-${date}`,
       deskId,
       date,
+      dayPart: halfDay,
       startDate: selectedBooking.booking?.startDate || date,
       endDate: selectedBooking.booking?.endDate || date,
       status: 'assigned',
@@ -307,14 +435,32 @@ export function useBookingActions(
       createdAt: selectedBooking.booking?.createdAt || new Date().toISOString(),
     };
 
-    await dataStore.saveBooking(newBooking);
+    try {
+      await dataStore.saveBooking(newBooking);
+    } catch (error) {
+      if (!isBookingConflictError(error)) throw error;
+      setSelectedBooking(null);
+      invalidateBookingQueries(queryClient);
+      toast({
+        title: 'Desk just got taken',
+        description: `${error.conflictingBooking?.personName || 'Someone'} booked this desk a moment ago. Pick another desk.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+    recordAudit(bookingAuditEntry(selectedBooking.booking, newBooking));
+    const undoAction = recordUndo({
+      label: `${personName} assigned on ${date}`,
+      slots: buildSlotChanges(selectedBooking.booking ? [selectedBooking.booking] : [], [newBooking]),
+    });
     setSelectedBooking(null);
     invalidateBookingQueries(queryClient);
     toast({
       title: 'Person Assigned',
       description: `${personName} assigned to desk`,
+      action: undoAction,
     });
-  }, [selectedBooking, toast, currentCurrency, queryClient, setSelectedBooking, dataStore]);
+  }, [selectedBooking, toast, currentCurrency, queryClient, setSelectedBooking, dataStore, recordAudit, recordUndo]);
 
   const handleBulkAvailability = useCallback(async (
     startDate: string,
@@ -324,12 +470,29 @@ export function useBookingActions(
   ) => {
     const dateRange = generateDateRange(startDate, endDate);
     const bulkBookings: DeskBooking[] = [];
-    const bookingsToDelete: { deskId: string; date: string }[] = [];
+    const bookingsToDelete: BookingSlot[] = [];
+
+    // Rows about to be replaced, kept for undo; the cleared ones also go to
+    // the audit trail, one entry per run.
+    const replacedRows = (await dataStore.getBookingsForDateRange(startDate, endDate))
+      .filter(b => deskIds.includes(b.deskId));
+    const clearedRuns = new Map<string, DeskBooking>();
+    if (status === 'available') {
+      for (const b of replacedRows) {
+        if (b.status !== 'available') clearedRuns.set(`${b.deskId}-${b.startDate}-${dayPartOf(b)}`, b);
+      }
+    }
 
     for (const deskId of deskIds) {
       for (const date of dateRange) {
         if (status === 'available') {
           bookingsToDelete.push({ deskId, date });
+          // Clearing a desk frees both halves of the day too
+          for (const b of replacedRows) {
+            if (b.deskId === deskId && b.date === date && b.dayPart && b.dayPart !== 'full') {
+              bookingsToDelete.push({ deskId, date, dayPart: b.dayPart });
+            }
+          }
         } else {
           bulkBookings.push({
             id: `${deskId}-${date}`,
@@ -348,12 +511,12 @@ export function useBookingActions(
       }
     }
 
-    await Promise.all([
+    const results = await Promise.allSettled([
       bookingsToDelete.length > 0
         ? (dataStore.bulkDeleteBookings
             ? dataStore.bulkDeleteBookings(bookingsToDelete)
-            : Promise.all(bookingsToDelete.map(({ deskId, date }) =>
-                dataStore.deleteBooking(deskId, date).catch(error =>
+            : Promise.all(bookingsToDelete.map(({ deskId, date, dayPart }) =>
+                dataStore.deleteBooking(deskId, date, dayPart).catch(error =>
                   console.error(`Failed to delete booking ${deskId}-${date}:`, error)
                 )
               )))
@@ -362,11 +525,98 @@ export function useBookingActions(
     ]);
 
     invalidateBookingQueries(queryClient);
+    for (const result of results) {
+      if (result.status === 'fulfilled') continue;
+      if (!isBookingConflictError(result.reason)) throw result.reason;
+      const taken = result.reason.conflicts.length;
+      toast({
+        title: 'Some desks just got taken',
+        description: `${taken} desk-day${taken === 1 ? ' is' : 's are'} already booked, so nothing was marked ${status}. Pick other desks or dates.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+    recordAudit(
+      ...Array.from(clearedRuns.values()).map(b => bookingAuditEntry(b, null)),
+      ...(status === 'available'
+        ? []
+        : deskIds.map(deskId => bookingAuditEntry(null, { deskId, startDate, endDate, status, currency: currentCurrency }))),
+    );
+    const undoAction = recordUndo({
+      label: `${deskIds.length} desks marked ${status} for ${dateRange.length} days`,
+      slots: buildSlotChanges(replacedRows, bulkBookings),
+    });
     toast({
       title: 'Bulk Update Applied',
       description: `${deskIds.length} desks updated for ${dateRange.length} days`,
+      action: undoAction,
+    });
+  }, [toast, currentCurrency, queryClient, dataStore, recordAudit, recordUndo]);
+
+  const handleBookingMove = useCallback(async (run: BookingRun, target: BookingRun) => {
+    if (!dataStore.moveBookingRun) {
+      toast({
+        title: 'Moving not supported',
+        description: 'Open the booking to change its desk or dates.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const originalRows = (await dataStore.getBookingsForDesk(run.deskId, run.startDate, run.endDate))
+      .filter(b => isRunRow(b, run));
+    // Free rows the move writes over, so undo can put them back
+    const replacedRows = (await dataStore.getBookingsForDesk(target.deskId, target.startDate, target.endDate))
+      .filter(b => b.status === 'available' && dayPartOf(b) === dayPartOf(target));
+
+    let movedRows: DeskBooking[];
+    try {
+      movedRows = await dataStore.moveBookingRun(run, target);
+    } catch (error) {
+      invalidateBookingQueries(queryClient);
+      toast({
+        title: isBookingConflictError(error) ? 'Desk is taken' : 'Could not move booking',
+        description: isBookingConflictError(error)
+          ? `${error.conflictingBooking?.personName || 'Another booking'} is already there on ${error.dates.join(', ')}.`
+          : error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const original = originalRows[0] ?? null;
+    recordAudit(bookingAuditEntry(original, movedRows[0]));
+
+    // A flex booking that got longer or shorter uses up or frees flex days
+    let flexDelta = 0;
+    if (original?.isFlex && original.clientId && dataStore.deductFlexDay && dataStore.restoreFlexDays) {
+      flexDelta = movedRows.length - originalRows.length;
+      for (let i = 0; i < flexDelta; i++) {
+        await dataStore.deductFlexDay(original.clientId);
+      }
+      if (flexDelta < 0) await dataStore.restoreFlexDays(original.clientId, -flexDelta);
+    }
+
+    invalidateBookingQueries(queryClient);
+
+    const name = original?.personName || 'Booking';
+    const resized = generateDateRange(run.startDate, run.endDate).length !== movedRows.length;
+    const deskChanged = target.deskId !== run.deskId;
+    const undoAction = recordUndo({
+      label: `${name} moved`,
+      slots: buildSlotChanges([...originalRows, ...replacedRows], movedRows),
+      flexDays: original?.clientId && flexDelta !== 0
+        ? { clientId: original.clientId, days: flexDelta }
+        : undefined,
     });
-  }, [toast, currentCurrency, queryClient, dataStore]);
+    toast({
+      title: resized ? 'Booking Resized' : 'Booking Moved',
+      description: `${name}: ${formatDateRange(target.startDate, target.endDate)}`
+        + (deskChanged ? ` → ${desks.find(d => d.id === target.deskId)?.label || target.deskId}` : '')
+        + (resized && original?.price ? ' - price unchanged, open the booking to adjust it' : ''),
+      action: undoAction,
+    });
+  }, [toast, queryClient, dataStore, recordAudit, recordUndo, desks]);
 
   const handleExport = useCallback(async () => {
     try {
@@ -382,7 +632,7 @@ export function useBookingActions(
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `desk-bookings-${new Date().toISOString().split('T')[0]}.json`;
+      a.download = `desk-bookings-${todayString()}.json`;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
@@ -428,35 +678,119 @@ export function useBookingActions(
     });
   }, [nextAvailableDates, toast, setSelectedBooking, setIsBookingModalOpen, dataStore]);
 
-  const handleDiscardBooking = useCallback(async () => {
+  /** Records a policy fee for `booking`; the saved fee, or undefined when there is none. */
+  const chargeFee = useCallback(async (
+    kind: BookingFee['kind'],
+    booking: DeskBooking,
+    date: string,
+    amount: number,
+  ) => {
+    if (amount <= 0 || !dataStore.saveBookingFee) return undefined;
+    const fee = await dataStore.saveBookingFee(buildBookingFee(kind, booking, date, amount));
+    queryClient.invalidateQueries({ queryKey: ['booking-fees'] });
+    return fee;
+  }, [dataStore, queryClient]);
+
+  const feeNote = (fee: BookingFee | undefined) => fee
+    ? ` - ${FEE_KIND_LABELS[fee.kind].toLowerCase()} fee of ${currencySymbols[fee.currency || currentCurrency]}${fee.amount.toFixed(2)} recorded`
+    : '';
+
+  /**
+   * Deletes the selected booking run. Past the free cancellation window of
+   * the organization's policy a late cancellation fee is recorded, unless the
+   * manager waives it.
+   */
+  const handleDiscardBooking = useCallback(async (options?: { waiveFee?: boolean }) => {
     if (!selectedBooking) return;
     const { deskId, booking } = selectedBooking;
     if (!booking) return;
 
     const dateRange = generateDateRange(booking.startDate, booking.endDate);
+    const discardedRows = (await dataStore.getBookingsForDateRange(booking.startDate, booking.endDate))
+      .filter(b => b.deskId === deskId && dayPartOf(b) === dayPartOf(booking));
     await Promise.all(
-      dateRange.map(date => dataStore.deleteBooking(deskId, date))
+      dateRange.map(date => dataStore.deleteBooking(deskId, date, booking.dayPart))
     );
 
+    let restoredFlexDays = 0;
     if (booking.isFlex && booking.clientId && dataStore.restoreFlexDays) {
       await dataStore.restoreFlexDays(booking.clientId, dateRange.length);
+      restoredFlexDays = dateRange.length;
     }
+    recordAudit(bookingAuditEntry(booking, null));
+    const fee = options?.waiveFee
+      ? undefined
+      : await chargeFee('late_cancellation', booking, booking.startDate, lateCancellationFee(currentOrg?.bookingPolicy, booking, new Date(), currentOrg?.timezone));
 
     invalidateBookingQueries(queryClient);
 
+    const undoAction = recordUndo({
+      label: `Booking for ${booking.personName} discarded`,
+      slots: buildSlotChanges(discardedRows, []),
+      flexDays: booking.clientId && restoredFlexDays > 0
+        ? { clientId: booking.clientId, days: -restoredFlexDays }
+        : undefined,
+      fee,
+    });
     toast({
       title: 'Booking Discarded',
-      description: `Removed booking for ${booking.personName}`,
+      description: `Removed booking for ${booking.personName}${feeNote(fee)}`,
+      action: undoAction,
+    });
+  }, [selectedBooking, queryClient, toast, dataStore, recordAudit, recordUndo, chargeFee, currentOrg]);
+
+  /** Marks the selected day as a no-show and records the policy's no-show fee. */
+  const handleMarkNoShow = useCallback(async () => {
+    if (!selectedBooking?.booking) return;
+    const { deskId, date, booking } = selectedBooking;
+    const row = (await dataStore.getBookingsForDateRange(date, date))
+      .find(b => b.deskId === deskId && dayPartOf(b) === dayPartOf(booking));
+    if (!row) throw new Error('This booking no longer exists');
+    if (row.noShow) return;
+
+    const updated = { ...row, noShow: true };
+    await dataStore.patchBookings([row], { noShow: true });
+    const fee = await chargeFee('no_show', row, date, noShowFee(currentOrg?.bookingPolicy, row));
+
+    invalidateBookingQueries(queryClient);
+    const undoAction = recordUndo({
+      label: `${row.personName || 'Booking'}: no-show`,
+      slots: buildSlotChanges([row], [updated]),
+      fee,
+    });
+    toast({
+      title: 'Marked as No-show',
+      description: `${row.personName || 'Booking'} on ${formatDateRange(date, date)}${feeNote(fee)}`,
+      action: undoAction,
     });
-  }, [selectedBooking, queryClient, toast, dataStore]);
+  }, [selectedBooking, dataStore, chargeFee, currentOrg, queryClient, recordUndo, toast]);
+
+  const handleCheckIn = useCallback(async () => {
+    if (!selectedBooking?.booking) return;
+    const { deskId, date, booking } = selectedBooking;
+    const row = (await dataStore.getBookingsForDateRange(date, date))
+      .find(b => b.deskId === deskId && dayPartOf(b) === dayPartOf(booking));
+    if (!row) throw new Error('This booking no longer exists');
+    await checkIn(row, desks.find(d => d.id === deskId)?.label);
+  }, [selectedBooking, dataStore, checkIn, desks]);
+
+  const handleCancelSeries = useCallback(async (fromDate: string) => {
+    const seriesId = selectedBooking?.booking?.seriesId;
+    if (!seriesId) return;
+    await cancelSeries(seriesId, fromDate);
+  }, [selectedBooking, cancelSeries]);
 
   return {
     handleDeskClick,
     handleBookingSave,
     handlePersonSave,
     handleBulkAvailability,
+    handleBookingMove,
     handleExport,
     handleQuickBook,
     handleDiscardBooking,
+    handleMarkNoShow,
+    handleCheckIn,
+    handleCancelSeries,
   };
 }
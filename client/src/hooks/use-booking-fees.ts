@@ -0,0 +1,23 @@
+import { useQuery } from '@tanstack/react-query';
+import { useDataStore } from '@/contexts/DataStoreContext';
+import { BookingFee } from '@shared/schema';
+
+/** Cancellation and no-show fees charged for days in the range. */
+export function useBookingFees(startDate: string, endDate: string) {
+  const dataStore = useDataStore();
+  return useQuery<BookingFee[]>({
+    queryKey: ['booking-fees', startDate, endDate],
+    queryFn: () => dataStore.getBookingFees ? dataStore.getBookingFees(startDate, endDate) : Promise.resolve([]),
+    enabled: !!startDate && !!endDate,
+  });
+}
+
+/** A member's fees that are not on an invoice yet. */
+export function useUninvoicedFees(clientId: string | undefined) {
+  const dataStore = useDataStore();
+  return useQuery<BookingFee[]>({
+    queryKey: ['booking-fees', 'uninvoiced', clientId],
+    queryFn: () => clientId && dataStore.getUninvoicedFees ? dataStore.getUninvoicedFees(clientId) : Promise.resolve([]),
+    enabled: !!clientId,
+  });
+}
@@ -0,0 +1,219 @@
+import { useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useDataStore } from '@/contexts/DataStoreContext';
+import { useToast } from '@/hooks/use-toast';
+import { useRecordAudit } from '@/hooks/use-audit-log';
+import { useUndoHistory } from '@/hooks/use-undo-history';
+import { invalidateBookingQueries } from '@/hooks/use-booking-actions';
+import { Currency, Desk, DeskBooking, DeskStatus, GroupPricing } from '@shared/schema';
+import {
+  GroupConflict,
+  buildGroupRows,
+  findGroupConflicts,
+  groupRuns,
+  groupSpan,
+  regroupRows,
+} from '@/lib/bookingGroups';
+import { bookingAuditEntry } from '@/lib/auditLog';
+import { isBookingConflictError } from '@/lib/bookingConflicts';
+import { buildSlotChanges } from '@/lib/undoHistory';
+import { formatDateRange } from '@/lib/dateUtils';
+import { daysBetweenInclusive } from '@/lib/planDates';
+import type { BookingSlot } from '@/lib/offlineQueue';
+
+/** The group and its desk rows, for the group panel of a booking. */
+export function useBookingGroup(groupId: string | null | undefined) {
+  const dataStore = useDataStore();
+  return useQuery({
+    queryKey: ['booking-group', groupId],
+    queryFn: async () => {
+      if (!groupId || !dataStore.getBookingGroup || !dataStore.getGroupBookings) return null;
+      const [group, rows] = await Promise.all([
+        dataStore.getBookingGroup(groupId),
+        dataStore.getGroupBookings(groupId),
+      ]);
+      return { group, rows };
+    },
+    enabled: !!groupId && !!dataStore.getBookingGroup,
+  });
+}
+
+export interface GroupInput {
+  name: string;
+  personName: string;
+  clientId?: string;
+  deskIds: string[];
+  startDate: string;
+  endDate: string;
+  status: DeskStatus;
+  pricing: GroupPricing;
+  price?: number;
+  currency: Currency;
+}
+
+function conflictMessage(conflicts: GroupConflict[], desks: readonly Desk[], action: string): string {
+  const details = conflicts.slice(0, 5).map(({ deskId, date, booking }) => {
+    const formattedDate = new Date(date + 'T00:00:00').toLocaleDateString('en-US', {
+      weekday: 'short', month: 'short', day: 'numeric',
+    });
+    const desk = desks.find(d => d.id === deskId)?.label || deskId;
+    if (!booking) return `${formattedDate}, ${desk}: out of service`;
+    return booking.personName
+      ? `${formattedDate}, ${desk}: ${booking.personName} (${booking.status})`
+      : `${formattedDate}, ${desk}: Desk is ${booking.status}`;
+  });
+  if (conflicts.length > 5) details.push(`…and ${conflicts.length - 5} more`);
+  return `Cannot ${action} due to conflicts on the following dates:\n\n${details.join('\n')}\n\nPlease pick other desks or dates.`;
+}
+
+export function useBookingGroupActions(desks: readonly Desk[]) {
+  const dataStore = useDataStore();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const recordAudit = useRecordAudit();
+  const { record: recordUndo } = useUndoHistory();
+
+  const deleteSlots = useCallback(async (slots: BookingSlot[]) => {
+    if (slots.length === 0) return;
+    if (dataStore.bulkDeleteBookings) {
+      await dataStore.bulkDeleteBookings(slots);
+    } else {
+      for (const { deskId, date, dayPart } of slots) await dataStore.deleteBooking(deskId, date, dayPart);
+    }
+  }, [dataStore]);
+
+  /** Conflicts on the group's desks, plus the free rows the write replaces. */
+  const checkDesks = useCallback(async (
+    deskIds: readonly string[],
+    startDate: string,
+    endDate: string,
+    groupId: string | null,
+    action: string,
+  ) => {
+    const [bookings, blocks] = await Promise.all([
+      dataStore.getBookingsForDateRange(startDate, endDate),
+      dataStore.getDeskBlocks ? dataStore.getDeskBlocks(startDate, endDate) : Promise.resolve([]),
+    ]);
+    const conflicts = findGroupConflicts(deskIds, startDate, endDate, bookings, blocks, groupId);
+    if (conflicts.length > 0) throw new Error(conflictMessage(conflicts, desks, action));
+    return bookings.filter(b => deskIds.includes(b.deskId) && b.status === 'available');
+  }, [dataStore, desks]);
+
+  /** Writes `rows`, clearing `cleared` first in the same write. */
+  const writeRows = useCallback(async (rows: DeskBooking[], cleared: BookingSlot[] = []) => {
+    try {
+      await dataStore.replaceBookings(cleared, rows);
+    } catch (error) {
+      if (isBookingConflictError(error)) invalidateBookingQueries(queryClient);
+      throw error;
+    }
+  }, [dataStore, queryClient]);
+
+  const refresh = useCallback(() => {
+    invalidateBookingQueries(queryClient);
+    queryClient.invalidateQueries({ queryKey: ['booking-group'] });
+  }, [queryClient]);
+
+  /** Books every desk of a new group for the whole date range. */
+  const createGroup = useCallback(async (input: GroupInput) => {
+    if (!dataStore.saveBookingGroup) throw new Error('Group bookings are not supported by this data store');
+    if (input.deskIds.length === 0) throw new Error('Pick at least one desk for the group.');
+    const replaced = await checkDesks(input.deskIds, input.startDate, input.endDate, null, 'book the group');
+
+    const group = await dataStore.saveBookingGroup({
+      id: `new-${Date.now()}`,
+      name: input.name,
+      personName: input.personName,
+      clientId: input.clientId,
+      pricing: input.pricing,
+      price: input.price,
+      currency: input.currency,
+      createdAt: new Date().toISOString(),
+    });
+    const rows = buildGroupRows(group, input.deskIds, input.startDate, input.endDate, input.status, input.name);
+    try {
+      await writeRows(rows);
+    } catch (error) {
+      // Don't leave an empty group behind when its first write loses a race
+      if (dataStore.deleteBookingGroup) await dataStore.deleteBookingGroup(group.id).catch(() => {});
+      throw error;
+    }
+
+    for (const { rows: runRows } of groupRuns(rows)) recordAudit(bookingAuditEntry(null, runRows[0]));
+    refresh();
+    const undoAction = recordUndo({
+      label: `${input.personName}: ${input.deskIds.length} desks booked`,
+      slots: buildSlotChanges(replaced, rows),
+    });
+    toast({
+      title: 'Group Booking Created',
+      description: `${input.personName}: ${input.deskIds.length} desk${input.deskIds.length === 1 ? '' : 's'}, ${formatDateRange(input.startDate, input.endDate)}`,
+      action: undoAction,
+    });
+  }, [dataStore, checkDesks, writeRows, recordAudit, refresh, recordUndo, toast]);
+
+  /**
+   * Moves every desk of the group to new dates, or extends or shortens them
+   * all. Seat prices stay as they are, as for any resized booking.
+   */
+  const changeGroupDates = useCallback(async (groupId: string, startDate: string, endDate: string) => {
+    if (!dataStore.getGroupBookings) throw new Error('Group bookings are not supported by this data store');
+    if (endDate < startDate) throw new Error('The group must end on or after its first day.');
+    const rows = await dataStore.getGroupBookings(groupId);
+    const span = groupSpan(rows);
+    if (!span) throw new Error('This group booking no longer has any desks');
+
+    const replaced = await checkDesks(span.deskIds, startDate, endDate, groupId, 'move the group');
+    // Clear every old slot, not just the vacated ones: a group nudged by a day
+    // would otherwise keep its old rows under the new ones
+    const { writes } = regroupRows(rows, startDate, endDate);
+    await writeRows(writes, rows.map(({ deskId, date, dayPart }) => ({ deskId, date, dayPart })));
+
+    const before = groupRuns(rows);
+    for (const { run, rows: runRows } of groupRuns(writes)) {
+      const previous = before.find(b => b.run.deskId === run.deskId);
+      recordAudit(bookingAuditEntry(previous?.rows[0] ?? null, runRows[0]));
+    }
+    refresh();
+    const name = rows[0].personName || 'Group';
+    const resized = daysBetweenInclusive(startDate, endDate) !== daysBetweenInclusive(span.startDate, span.endDate);
+    const undoAction = recordUndo({
+      label: `${name}: group ${resized ? 'resized' : 'moved'}`,
+      slots: buildSlotChanges([...rows, ...replaced], writes),
+    });
+    toast({
+      title: resized ? 'Group Booking Resized' : 'Group Booking Moved',
+      description: `${name}: ${span.deskIds.length} desks, ${formatDateRange(startDate, endDate)}`
+        + (resized && rows.some(r => r.price) ? ' - prices unchanged, open a desk to adjust it' : ''),
+      action: undoAction,
+    });
+  }, [dataStore, checkDesks, writeRows, recordAudit, refresh, recordUndo, toast]);
+
+  /**
+   * Frees every desk of the group. The group record stays, so undo can put
+   * the desks back under it.
+   */
+  const cancelGroup = useCallback(async (groupId: string) => {
+    if (!dataStore.getGroupBookings) throw new Error('Group bookings are not supported by this data store');
+    const rows = await dataStore.getGroupBookings(groupId);
+    if (rows.length === 0) throw new Error('This group booking no longer has any desks');
+    await deleteSlots(rows.map(({ deskId, date, dayPart }) => ({ deskId, date, dayPart })));
+
+    for (const { rows: runRows } of groupRuns(rows)) recordAudit(bookingAuditEntry(runRows[0], null));
+    refresh();
+    const name = rows[0].personName || 'Group';
+    const deskCount = new Set(rows.map(r => r.deskId)).size;
+    const undoAction = recordUndo({
+      label: `${name}: group cancelled`,
+      slots: buildSlotChanges(rows, []),
+    });
+    toast({
+      title: 'Group Booking Cancelled',
+      description: `${name}: ${deskCount} desk${deskCount === 1 ? '' : 's'} released`,
+      action: undoAction,
+    });
+  }, [dataStore, deleteSlots, recordAudit, refresh, recordUndo, toast]);
+
+  return { createGroup, changeGroupDates, cancelGroup };
+}
+
@@ -0,0 +1,182 @@
+import { useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useDataStore } from '@/contexts/DataStoreContext';
+import { useToast } from '@/hooks/use-toast';
+import { useRecordAudit } from '@/hooks/use-audit-log';
+import { invalidateBookingQueries } from '@/hooks/use-booking-actions';
+import { BookingSeries, Currency, DeskStatus, OrgClosure, RecurrenceRule } from '@shared/schema';
+import {
+  buildOccurrenceRows,
+  describeRecurrence,
+  expandRecurrence,
+  occurrencesProblem,
+  planSeriesRewrite,
+  seriesRun,
+  validateRecurrence,
+} from '@/lib/bookingSeries';
+import { bookingAuditEntry } from '@/lib/auditLog';
+import { isBookingConflictError } from '@/lib/bookingConflicts';
+import { todayString } from '@/lib/dateUtils';
+import { addDays } from '@/lib/planDates';
+import { DEFAULT_WORKING_DAYS } from '@/lib/workingDays';
+
+export function useBookingSeries(seriesId: string | null | undefined) {
+  const dataStore = useDataStore();
+  return useQuery({
+    queryKey: ['booking-series', seriesId],
+    queryFn: async () => (seriesId && dataStore.getBookingSeries ? dataStore.getBookingSeries(seriesId) : null),
+    enabled: !!seriesId && !!dataStore.getBookingSeries,
+  });
+}
+
+export interface SeriesInput {
+  /** Set when editing an existing series. */
+  seriesId?: string | null;
+  deskId: string;
+  rule: RecurrenceRule;
+  status: DeskStatus;
+  personName: string;
+  title?: string;
+  price?: number;
+  currency: Currency;
+  clientId?: string;
+}
+
+export function useBookingSeriesActions(workingDays: number[] = DEFAULT_WORKING_DAYS, closures?: OrgClosure[]) {
+  const dataStore = useDataStore();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const recordAudit = useRecordAudit();
+
+  /**
+   * Creates a series, or rewrites an existing one from today on. Past
+   * occurrences are left untouched so revenue already earned doesn't move.
+   */
+  const saveSeries = useCallback(async (input: SeriesInput) => {
+    if (!dataStore.saveBookingSeries || !dataStore.getSeriesBookings || !dataStore.getBookingSeries) {
+      throw new Error('Recurring bookings are not supported by this data store');
+    }
+    const problem = validateRecurrence(input.rule);
+    if (problem) throw new Error(problem);
+
+    const existing = input.seriesId ? await dataStore.getBookingSeries(input.seriesId) : null;
+    const existingRows = existing ? await dataStore.getSeriesBookings(existing.id) : [];
+    const fromDate = existing ? todayString() : input.rule.startDate;
+    const dates = expandRecurrence(input.rule, workingDays, closures);
+    const datesProblem = occurrencesProblem(input.rule, dates);
+    if (datesProblem) throw new Error(datesProblem);
+    const upcoming = dates.filter(date => date >= fromDate);
+    if (!existing && upcoming.length === 0) {
+      throw new Error('This repeat rule has no working days. Pick other weekdays or a later end.');
+    }
+
+    if (upcoming.length > 0) {
+      const upcomingSet = new Set(upcoming);
+      const blockers = (await dataStore.getBookingsForDateRange(upcoming[0], upcoming[upcoming.length - 1]))
+        .filter(b =>
+          b.deskId === input.deskId
+          && upcomingSet.has(b.date)
+          && b.status !== 'available'
+          && !(existing && b.seriesId === existing.id)
+        );
+      if (blockers.length > 0) {
+        const details = blockers.slice(0, 5).map(b => {
+          const formattedDate = new Date(b.date + 'T00:00:00').toLocaleDateString('en-US', {
+            weekday: 'short', month: 'short', day: 'numeric',
+          });
+          return b.personName ? `${formattedDate}: ${b.personName} (${b.status})` : `${formattedDate}: Desk is ${b.status}`;
+        });
+        if (blockers.length > 5) details.push(`…and ${blockers.length - 5} more`);
+        throw new Error(`Cannot create the series due to conflicts on the following dates:\n\n${details.join('\n')}\n\nPlease pick another desk or change the repeat rule.`);
+      }
+    }
+
+    const saved = await dataStore.saveBookingSeries({
+      id: existing?.id ?? `new-${Date.now()}`,
+      deskId: input.deskId,
+      rule: input.rule,
+      status: input.status,
+      personName: input.personName,
+      title: input.title,
+      price: input.price,
+      currency: input.currency,
+      clientId: input.clientId,
+      createdAt: existing?.createdAt ?? new Date().toISOString(),
+    });
+    const { deletions, writes } = planSeriesRewrite(existingRows, buildOccurrenceRows(saved, dates), fromDate);
+
+    try {
+      await dataStore.replaceBookings(
+        deletions.map(({ deskId, date, dayPart }) => ({ deskId, date, dayPart })),
+        writes,
+      );
+    } catch (error) {
+      // The rows are written in one go, so only the rule needs undoing: drop a
+      // new series, or put the old rule back so it still matches its rows
+      if (existing) {
+        await dataStore.saveBookingSeries(existing).catch(() => {});
+      } else if (dataStore.deleteBookingSeries) {
+        await dataStore.deleteBookingSeries(saved.id).catch(() => {});
+      }
+      if (isBookingConflictError(error)) invalidateBookingQueries(queryClient);
+      throw error;
+    }
+
+    recordAudit(bookingAuditEntry(
+      existing ? seriesRun(existing, existingRows.map(b => b.date)) : null,
+      seriesRun(saved, dates),
+    ));
+    invalidateBookingQueries(queryClient);
+    queryClient.invalidateQueries({ queryKey: ['booking-series'] });
+    toast({
+      title: existing ? 'Recurring Booking Updated' : 'Recurring Booking Created',
+      description: `${input.personName}: ${describeRecurrence(input.rule)} (${upcoming.length} visit${upcoming.length === 1 ? '' : 's'})`,
+    });
+  }, [dataStore, queryClient, toast, recordAudit, workingDays, closures]);
+
+  /**
+   * Removes every occurrence on or after `fromDate`. The series ends the day
+   * before; a series with no occurrences left is deleted.
+   */
+  const cancelSeries = useCallback(async (seriesId: string, fromDate: string) => {
+    if (!dataStore.getBookingSeries || !dataStore.getSeriesBookings || !dataStore.saveBookingSeries) {
+      throw new Error('Recurring bookings are not supported by this data store');
+    }
+    const series = await dataStore.getBookingSeries(seriesId);
+    if (!series) throw new Error('This recurring booking no longer exists');
+    const rows = await dataStore.getSeriesBookings(seriesId);
+    const removed = rows.filter(b => b.date >= fromDate);
+    const remaining = rows.filter(b => b.date < fromDate);
+
+    if (removed.length > 0) {
+      if (dataStore.bulkDeleteBookings) {
+        await dataStore.bulkDeleteBookings(removed.map(({ deskId, date }) => ({ deskId, date })));
+      } else {
+        for (const { deskId, date } of removed) await dataStore.deleteBooking(deskId, date);
+      }
+    }
+
+    let ended: BookingSeries | null = null;
+    if (remaining.length === 0 && dataStore.deleteBookingSeries) {
+      await dataStore.deleteBookingSeries(seriesId);
+    } else {
+      ended = await dataStore.saveBookingSeries({
+        ...series,
+        rule: { ...series.rule, untilDate: addDays(fromDate, -1), occurrenceCount: null },
+      });
+    }
+
+    recordAudit(bookingAuditEntry(
+      seriesRun(series, rows.map(b => b.date)),
+      ended ? seriesRun(ended, remaining.map(b => b.date)) : null,
+    ));
+    invalidateBookingQueries(queryClient);
+    queryClient.invalidateQueries({ queryKey: ['booking-series'] });
+    toast({
+      title: 'Recurring Booking Cancelled',
+      description: `${series.personName}: ${removed.length} visit${removed.length === 1 ? '' : 's'} from ${fromDate} removed`,
+    });
+  }, [dataStore, queryClient, toast, recordAudit]);
+
+  return { saveSeries, cancelSeries };
+}
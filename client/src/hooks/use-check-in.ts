@@ -0,0 +1,37 @@
+import { useCallback } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useDataStore } from '@/contexts/DataStoreContext';
+import { DeskBooking } from '@shared/schema';
+import { useToast } from '@/hooks/use-toast';
+import { useUndoHistory } from '@/hooks/use-undo-history';
+import { invalidateBookingQueries } from '@/hooks/use-booking-actions';
+import { buildSlotChanges } from '@/lib/undoHistory';
+
+/** Checks in one booking day from the front desk. */
+export function useCheckIn() {
+  const dataStore = useDataStore();
+  const queryClient = useQueryClient();
+  const { record: recordUndo } = useUndoHistory();
+  const { toast } = useToast();
+
+  return useCallback(async (row: DeskBooking, deskLabel?: string) => {
+    if (row.checkedInAt) return;
+    // Arriving late undoes a no-show mark; a recorded fee stays for the manager to waive
+    const changes = { checkedInAt: new Date().toISOString(), noShow: undefined };
+    const updated: DeskBooking = { ...row, ...changes };
+    await dataStore.patchBookings([row], changes);
+
+    invalidateBookingQueries(queryClient);
+    const who = row.personName || 'Booking';
+    const undoAction = recordUndo({
+      label: `${who} checked in`,
+      slots: buildSlotChanges([row], [updated]),
+    });
+    toast({
+      title: 'Checked in',
+      description: `${who} at ${deskLabel || row.deskId}`,
+      action: undoAction,
+    });
+  }, [dataStore, queryClient, recordUndo, toast]);
+}
+
@@ -0,0 +1,103 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useDataStore } from '@/contexts/DataStoreContext';
+import { useToast } from '@/hooks/use-toast';
+import { DeskBlock, DeskBlockReason } from '@shared/schema';
+import { validateDeskBlock } from '@/lib/deskBlocks';
+
+export function useDeskBlocks(startDate?: string, endDate?: string) {
+  const dataStore = useDataStore();
+  const dateRangeKey = startDate && endDate ? `${startDate}_${endDate}` : 'all';
+
+  return useQuery({
+    queryKey: ['desk-blocks', dateRangeKey],
+    queryFn: async () => (dataStore.getDeskBlocks ? dataStore.getDeskBlocks(startDate, endDate) : []),
+    staleTime: 2 * 60 * 1000,
+    gcTime: 5 * 60 * 1000,
+    refetchOnWindowFocus: false,
+    retry: 1,
+  });
+}
+
+export interface DeskBlockInput {
+  /** Set when editing an existing block. */
+  id?: string;
+  deskIds: string[];
+  startDate: string;
+  endDate: string;
+  reason: DeskBlockReason;
+  note?: string;
+  createdAt?: string;
+}
+
+function invalidateBlockQueries(queryClient: ReturnType<typeof useQueryClient>) {
+  queryClient.invalidateQueries({ queryKey: ['desk-blocks'] });
+  // Blocked desk-days drop out of the occupancy denominators
+  queryClient.invalidateQueries({ queryKey: ['monthly-stats'] });
+  queryClient.invalidateQueries({ queryKey: ['date-range-stats'] });
+  queryClient.invalidateQueries({ queryKey: ['revenue-history'] });
+  queryClient.invalidateQueries({ queryKey: ['next-dates'] });
+}
+
+export function useSaveDeskBlocks() {
+  const dataStore = useDataStore();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (input: DeskBlockInput): Promise<DeskBlock[]> => {
+      if (!dataStore.saveDeskBlock) throw new Error('Out-of-service blocks are not supported by this data store');
+      for (const deskId of input.deskIds) {
+        const problem = validateDeskBlock({ deskId, startDate: input.startDate, endDate: input.endDate });
+        if (problem) throw new Error(problem);
+      }
+      const createdAt = input.createdAt ?? new Date().toISOString();
+      const saved: DeskBlock[] = [];
+      for (const deskId of input.deskIds) {
+        saved.push(await dataStore.saveDeskBlock({
+          id: input.id ?? `new-${deskId}-${Date.now()}`,
+          deskId,
+          startDate: input.startDate,
+          endDate: input.endDate,
+          reason: input.reason,
+          note: input.note?.trim() || undefined,
+          createdAt,
+        }));
+      }
+      return saved;
+    },
+    onSuccess: (saved, input) => {
+      invalidateBlockQueries(queryClient);
+      if (input.id) {
+        toast({ title: 'Block updated' });
+        return;
+      }
+      toast({
+        title: saved.length === 1 ? 'Desk taken out of service' : `${saved.length} desks taken out of service`,
+        description: 'Blocked days are left out of occupancy and public booking.',
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not save block', description: error.message, variant: 'destructive' });
+    },
+  });
+}
+
+export function useDeleteDeskBlock() {
+  const dataStore = useDataStore();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      if (!dataStore.deleteDeskBlock) throw new Error('Out-of-service blocks are not supported by this data store');
+      await dataStore.deleteDeskBlock(id);
+    },
+    onSuccess: () => {
+      invalidateBlockQueries(queryClient);
+      toast({ title: 'Desk back in service' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not remove block', description: error.message, variant: 'destructive' });
+    },
+  });
+}
@@ -0,0 +1,94 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useDataStore } from '@/contexts/DataStoreContext';
+import { useToast } from '@/hooks/use-toast';
+import { useRecordAudit } from '@/hooks/use-audit-log';
+import { useUndoHistory } from '@/hooks/use-undo-history';
+import { invalidateBookingQueries } from '@/hooks/use-booking-actions';
+import { Desk, DeskBooking } from '@shared/schema';
+import { ALLOCATION_HORIZON_DAYS, DeskReassignment, planReallocation } from '@/lib/deskAllocation';
+import { isBookingConflictError } from '@/lib/bookingConflicts';
+import { bookingAuditEntry } from '@/lib/auditLog';
+import { buildSlotChanges } from '@/lib/undoHistory';
+import { todayString } from '@/lib/dateUtils';
+import { addDays } from '@/lib/planDates';
+
+/** How far ahead the re-optimizer looks for bookings to move. */
+export const REALLOCATION_WINDOW_DAYS = 56;
+
+/** Works out which future flex and visitor bookings to move; changes nothing. */
+export function usePlanDeskReallocation(desks: Desk[]) {
+  const dataStore = useDataStore();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (): Promise<DeskReassignment[]> => {
+      const today = todayString();
+      const fromDate = addDays(today, 1);
+      const toDate = addDays(today, REALLOCATION_WINDOW_DAYS);
+      // Read past the window so runs near its end see what follows them
+      const readUntil = addDays(toDate, ALLOCATION_HORIZON_DAYS);
+      const [bookings, blocks] = await Promise.all([
+        dataStore.getBookingsForDateRange(today, readUntil),
+        dataStore.getDeskBlocks ? dataStore.getDeskBlocks(today, readUntil) : Promise.resolve([]),
+      ]);
+      return planReallocation({ desks, bookings, blocks, today, fromDate, toDate });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not plan desk changes', description: error.message, variant: 'destructive' });
+    },
+  });
+}
+
+/**
+ * Applies planned desk changes in order. A booking whose new desk got taken
+ * since the preview is skipped; any other failure stops the run, keeping
+ * what was moved so far (and undoable).
+ */
+export function useApplyDeskReallocation() {
+  const dataStore = useDataStore();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const recordAudit = useRecordAudit();
+  const { record: recordUndo } = useUndoHistory();
+
+  return useMutation({
+    mutationFn: async (proposals: DeskReassignment[]) => {
+      if (!dataStore.moveBookingRun) throw new Error('Moving bookings is not supported by this data store');
+      const before: DeskBooking[] = [];
+      const after: DeskBooking[] = [];
+      let skipped = 0;
+      let failure: string | null = null;
+      for (const { run, rows, toDeskId } of proposals) {
+        try {
+          const moved = await dataStore.moveBookingRun(run, { ...run, deskId: toDeskId });
+          before.push(...rows);
+          after.push(...moved);
+          recordAudit(bookingAuditEntry(rows[0], moved[0]));
+        } catch (error) {
+          if (isBookingConflictError(error)) {
+            skipped++;
+            continue;
+          }
+          failure = error instanceof Error ? error.message : 'Failed to move booking';
+          break;
+        }
+      }
+      return { before, after, skipped, failure };
+    },
+    onSuccess: ({ before, after, skipped, failure }) => {
+      invalidateBookingQueries(queryClient);
+      const moved = new Set(after.map(b => `${b.deskId}:${b.startDate}`)).size;
+      const undoAction = moved > 0
+        ? recordUndo({ label: `${moved} booking${moved === 1 ? '' : 's'} re-optimized`, slots: buildSlotChanges(before, after) })
+        : undefined;
+      const summary = `${moved} booking${moved === 1 ? '' : 's'} moved`
+        + (skipped > 0 ? `, ${skipped} skipped because the desk was taken since the preview` : '');
+      toast({
+        title: failure ? 'Re-optimizing stopped' : 'Desks Re-optimized',
+        description: failure ? `${summary}. ${failure}` : summary,
+        action: undoAction,
+        variant: failure ? 'destructive' : undefined,
+      });
+    },
+  });
+}
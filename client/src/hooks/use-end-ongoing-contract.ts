@@ -2,6 +2,8 @@ import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { useToast } from '@/hooks/use-toast';
 import { useDataStore } from '@/contexts/DataStoreContext';
 import { invalidateBookingQueries } from '@/hooks/use-booking-actions';
+import { useRecordAudit } from '@/hooks/use-audit-log';
+import { bookingAuditEntry } from '@/lib/auditLog';
 
 interface EndContractVariables {
   deskId: string;
@@ -14,6 +16,7 @@ interface EndContractVariables {
 export function useEndOngoingContract() {
   const dataStore = useDataStore();
   const queryClient = useQueryClient();
+  const recordAudit = useRecordAudit();
   const { toast } = useToast();
 
   return useMutation({
@@ -21,7 +24,16 @@ export function useEndOngoingContract() {
       if (!dataStore.endOngoingContract) {
         throw new Error('Ending ongoing contracts is not supported by this data store');
       }
-      return dataStore.endOngoingContract({ deskId, clientId, startDate, newEndDate });
+      // The cycle holding the final day is the one that gets cut short
+      const finalDayRow = async () =>
+        (await dataStore.getBookingsForDesk(deskId, newEndDate, newEndDate))
+          .find(b => (b.clientId ?? null) === clientId) ?? null;
+      const before = await finalDayRow();
+
+      const result = await dataStore.endOngoingContract({ deskId, clientId, startDate, newEndDate });
+
+      if (before) recordAudit(bookingAuditEntry(before, await finalDayRow()));
+      return result;
     },
     onSuccess: (result, variables) => {
       invalidateBookingQueries(queryClient);
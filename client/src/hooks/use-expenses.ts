@@ -2,6 +2,17 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useDataStore } from '@/contexts/DataStoreContext';
 import { Expense, RecurringExpense, ExpenseCategory } from '@shared/schema';
 import { formatLocalDate, formatYMD } from '@/lib/dateUtils';
+import { expenseAuditEntry } from '@/lib/auditLog';
+import { useRecordAudit } from '@/hooks/use-audit-log';
+
+// Last-read copy of an expense, used as the "before" side of its audit entry.
+function findCachedExpense(queryClient: ReturnType<typeof useQueryClient>, id: string): Expense | null {
+  for (const [, expenses] of queryClient.getQueriesData<Expense[]>({ queryKey: ['expenses'] })) {
+    const match = expenses?.find((e) => e.id === id);
+    if (match) return match;
+  }
+  return null;
+}
 
 export function useExpenses(startDate: string, endDate: string) {
   const dataStore = useDataStore();
@@ -31,13 +42,16 @@ export function useRecurringExpenses() {
 export function useSaveExpense() {
   const dataStore = useDataStore();
   const queryClient = useQueryClient();
+  const recordAudit = useRecordAudit();
 
   return useMutation({
-    mutationFn: (expense: Expense) => {
+    mutationFn: async (expense: Expense) => {
       if (!dataStore.saveExpense) {
-        return Promise.reject(new Error('saveExpense not implemented'));
+        throw new Error('saveExpense not implemented');
       }
-      return dataStore.saveExpense(expense);
+      const before = findCachedExpense(queryClient, expense.id);
+      await dataStore.saveExpense(expense);
+      recordAudit(expenseAuditEntry(before, expense));
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['expenses'] });
@@ -50,13 +64,16 @@ export function useSaveExpense() {
 export function useDeleteExpense() {
   const dataStore = useDataStore();
   const queryClient = useQueryClient();
+  const recordAudit = useRecordAudit();
 
   return useMutation({
-    mutationFn: (id: string) => {
+    mutationFn: async (id: string) => {
       if (!dataStore.deleteExpense) {
-        return Promise.reject(new Error('deleteExpense not implemented'));
+        throw new Error('deleteExpense not implemented');
       }
-      return dataStore.deleteExpense(id);
+      const before = findCachedExpense(queryClient, id);
+      await dataStore.deleteExpense(id);
+      recordAudit(expenseAuditEntry(before, null));
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['expenses'] });
@@ -0,0 +1,100 @@
+import { useCallback } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useDataStore } from '@/contexts/DataStoreContext';
+import { useToast } from '@/hooks/use-toast';
+import { invalidateBookingQueries } from '@/hooks/use-booking-actions';
+import { deleteInvoices } from '@/hooks/use-invoices';
+import { ImportBatch } from '@shared/schema';
+import { bookingSlotsToRollBack, importBatchRange, importBatchSummary } from '@/lib/migrationImport';
+
+export function useImportBatches() {
+  const dataStore = useDataStore();
+  return useQuery({
+    queryKey: ['import-batches'],
+    queryFn: async () => (dataStore.getImportBatches ? dataStore.getImportBatches() : []),
+  });
+}
+
+export type ImportBatchInput = Pick<ImportBatch, 'source' | 'kind'> & Partial<Pick<ImportBatch, 'clientIds' | 'bookingRows' | 'invoiceIds'>>;
+
+/**
+ * Records what a migration import created. A failure here only costs the
+ * rollback, so it is logged rather than failing the import.
+ */
+export function useRecordImportBatch() {
+  const dataStore = useDataStore();
+  const queryClient = useQueryClient();
+
+  return useCallback(async (input: ImportBatchInput) => {
+    if (!dataStore.saveImportBatch) return;
+    try {
+      await dataStore.saveImportBatch({
+        id: `new-${Date.now()}`,
+        source: input.source,
+        kind: input.kind,
+        clientIds: input.clientIds ?? [],
+        bookingRows: input.bookingRows ?? [],
+        invoiceIds: input.invoiceIds ?? [],
+        rolledBackAt: null,
+        createdAt: new Date().toISOString(),
+      });
+      queryClient.invalidateQueries({ queryKey: ['import-batches'] });
+    } catch (error) {
+      console.error('Failed to record import batch:', error);
+    }
+  }, [dataStore, queryClient]);
+}
+
+/**
+ * Deletes what the batch created: its invoices, the booked days it wrote that
+ * nobody changed since, and its members.
+ */
+export function useRollbackImportBatch() {
+  const dataStore = useDataStore();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (batch: ImportBatch): Promise<{ kept: number }> => {
+      if (!dataStore.saveImportBatch) throw new Error('Import rollback is not supported by this data store');
+      let kept = 0;
+
+      await deleteInvoices(batch.invoiceIds);
+
+      const range = importBatchRange(batch);
+      if (range) {
+        const current = await dataStore.getBookingsForDateRange(range[0], range[1]);
+        const slots = bookingSlotsToRollBack(batch, current);
+        kept = batch.bookingRows.length - slots.length;
+        if (dataStore.bulkDeleteBookings) {
+          await dataStore.bulkDeleteBookings(slots);
+        } else {
+          for (const { deskId, date } of slots) await dataStore.deleteBooking(deskId, date);
+        }
+      }
+
+      if (batch.clientIds.length > 0) {
+        if (!dataStore.deleteClient) throw new Error('Deleting members is not supported by this data store');
+        for (const id of batch.clientIds) await dataStore.deleteClient(id);
+      }
+
+      await dataStore.saveImportBatch({ ...batch, rolledBackAt: new Date().toISOString() });
+      return { kept };
+    },
+    onSuccess: ({ kept }, batch) => {
+      queryClient.invalidateQueries({ queryKey: ['import-batches'] });
+      queryClient.invalidateQueries({ queryKey: ['clients'] });
+      queryClient.invalidateQueries({ queryKey: ['invoices'] });
+      invalidateBookingQueries(queryClient);
+      toast({
+        title: 'Import rolled back',
+        description: kept > 0
+          ? `Removed ${importBatchSummary(batch)}. ${kept} desk-day${kept === 1 ? ' was' : 's were'} changed since and kept.`
+          : `Removed ${importBatchSummary(batch)}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not roll back the import', description: error.message, variant: 'destructive' });
+    },
+  });
+}
@@ -8,6 +8,10 @@ import type {
   InvoiceSellerSnapshot,
 } from '@shared/schema';
 import { round2 } from '@/lib/invoices';
+import type { InvoiceLink } from '@/lib/bookingExport';
+import type { ImportedInvoice } from '@/lib/migrationImport';
+import { invoiceAuditEntry } from '@/lib/auditLog';
+import { useRecordAudit } from '@/hooks/use-audit-log';
 
 // Row → domain mappers ─────────────────────────────────────────
 
@@ -54,6 +58,15 @@ function mapLineItemRow(row: Record<string, unknown>): InvoiceLineItem {
   };
 }
 
+// Last-read copy of an invoice, used as the "before" side of its audit entry.
+function findCachedInvoice(qc: ReturnType<typeof useQueryClient>, invoiceId: string): Invoice | null {
+  for (const [, invoices] of qc.getQueriesData<Invoice[]>({ queryKey: ['invoices'] })) {
+    const match = Array.isArray(invoices) ? invoices.find((inv) => inv.id === invoiceId) : undefined;
+    if (match) return match;
+  }
+  return null;
+}
+
 // Invoice number preview (not consumed — just shows the next number in the UI
 // before the editor commits). Actual allocation happens in useCreateInvoice via
 // the next_invoice_number RPC, which is atomic.
@@ -89,6 +102,7 @@ interface CreateInvoiceInput {
 
 export function useCreateInvoice() {
   const qc = useQueryClient();
+  const recordAudit = useRecordAudit();
 
   return useMutation({
     mutationFn: async (input: CreateInvoiceInput): Promise<Invoice> => {
@@ -153,7 +167,9 @@ export function useCreateInvoice() {
         if (itemsErr) throw itemsErr;
       }
 
-      return mapInvoiceRow(invRow);
+      const created = mapInvoiceRow(invRow);
+      recordAudit(invoiceAuditEntry(null, created));
+      return created;
     },
     onSuccess: () => {
       qc.invalidateQueries({ queryKey: ['invoices'] });
@@ -182,6 +198,126 @@ export function useClientInvoices(clientId: string | undefined) {
   });
 }
 
+// Sent and not yet paid, oldest due first.
+export function useOpenInvoices(orgId: string | undefined) {
+  return useQuery<Invoice[]>({
+    queryKey: ['invoices', 'open', orgId],
+    queryFn: async () => {
+      if (!orgId) return [];
+      const { data, error } = await supabaseClient
+        .from('invoices')
+        .select('*')
+        .eq('organization_id', orgId)
+        .eq('status', 'sent')
+        .order('due_date', { ascending: true, nullsFirst: false });
+      if (error) throw error;
+      return (data ?? []).map(mapInvoiceRow);
+    },
+    enabled: !!orgId,
+  });
+}
+
+// Invoices billing each booking row, through line items with a booking_id.
+// Voided invoices are left out. Read once per export, so not a query hook.
+export async function fetchBookingInvoiceLinks(bookingIds: string[]): Promise<Map<string, InvoiceLink[]>> {
+  const links = new Map<string, InvoiceLink[]>();
+  const numericIds = bookingIds.filter(id => /^\d+$/.test(id)).map(Number);
+  if (numericIds.length === 0) return links;
+
+  const { data, error } = await supabaseClient
+    .from('invoice_line_items')
+    .select('booking_id, invoices(invoice_number, status)')
+    .in('booking_id', numericIds);
+  if (error) throw error;
+
+  for (const row of (data ?? []) as unknown as { booking_id: number; invoices: { invoice_number: string; status: InvoiceStatus } | null }[]) {
+    if (!row.invoices || row.invoices.status === 'void') continue;
+    const key = String(row.booking_id);
+    links.set(key, [...(links.get(key) ?? []), { invoiceNumber: row.invoices.invoice_number, status: row.invoices.status }]);
+  }
+  return links;
+}
+
+// Imported invoices ──────────────────────────────────────────
+
+// Invoice numbers already used in the org, lower-cased, for duplicate checks.
+export async function fetchInvoiceNumbers(orgId: string): Promise<Set<string>> {
+  const { data, error } = await supabaseClient
+    .from('invoices')
+    .select('invoice_number')
+    .eq('organization_id', orgId);
+  if (error) throw error;
+  return new Set((data ?? []).map((row: { invoice_number: string }) => row.invoice_number.toLowerCase()));
+}
+
+// Invoices issued in another tool keep that tool's number. They take
+// sequence 0 so next_invoice_number carries on from our own numbering.
+export async function insertImportedInvoices(
+  organizationId: string,
+  invoices: ImportedInvoice[],
+  sellerSnapshot: InvoiceSellerSnapshot,
+): Promise<string[]> {
+  const ids: string[] = [];
+  const CHUNK_SIZE = 100;
+  for (let i = 0; i < invoices.length; i += CHUNK_SIZE) {
+    const chunk = invoices.slice(i, i + CHUNK_SIZE);
+    const { data, error } = await supabaseClient
+      .from('invoices')
+      .insert(chunk.map(inv => ({
+        organization_id: organizationId,
+        client_id: inv.clientId != null ? Number(inv.clientId) : null,
+        invoice_number: inv.invoiceNumber,
+        sequence: 0,
+        issue_date: inv.issueDate,
+        due_date: inv.dueDate,
+        status: inv.status,
+        subtotal: inv.subtotal,
+        vat_rate: inv.vatRate,
+        vat_amount: inv.vatAmount,
+        total: inv.total,
+        currency: inv.currency,
+        seller_snapshot: sellerSnapshot,
+        buyer_snapshot: { name: inv.buyerName, email: inv.buyerEmail } satisfies InvoiceBuyerSnapshot,
+        paid_at: inv.status === 'paid' ? `${inv.issueDate}T00:00:00Z` : null,
+      })))
+      .select('id');
+    if (error) throw error;
+    const inserted = (data ?? []).map((row: { id: string | number }) => String(row.id));
+    ids.push(...inserted);
+
+    // One line carrying the whole amount, so the invoice reads the same in the editor
+    const { error: itemsErr } = await supabaseClient
+      .from('invoice_line_items')
+      .insert(chunk.map((inv, idx) => ({
+        invoice_id: inserted[idx],
+        booking_id: null,
+        description: inv.description,
+        quantity: 1,
+        unit: null,
+        unit_price: inv.subtotal,
+        vat_rate: inv.vatRate,
+        line_total: inv.subtotal,
+        sort_order: 0,
+      })));
+    if (itemsErr) throw itemsErr;
+  }
+  return ids;
+}
+
+export async function deleteInvoices(invoiceIds: string[]): Promise<void> {
+  if (invoiceIds.length === 0) return;
+  const { error: itemsErr } = await supabaseClient
+    .from('invoice_line_items')
+    .delete()
+    .in('invoice_id', invoiceIds);
+  if (itemsErr) throw itemsErr;
+  const { error } = await supabaseClient
+    .from('invoices')
+    .delete()
+    .in('id', invoiceIds);
+  if (error) throw error;
+}
+
 // Send / mark paid / void ────────────────────────────────────
 
 interface SendInvoiceInput {
@@ -191,6 +327,7 @@ interface SendInvoiceInput {
 
 export function useSendInvoice() {
   const qc = useQueryClient();
+  const recordAudit = useRecordAudit();
   return useMutation({
     mutationFn: async (input: SendInvoiceInput): Promise<void> => {
       const { data, error } = await supabaseClient.functions.invoke('send-invoice', {
@@ -202,6 +339,12 @@ export function useSendInvoice() {
       }
       const result = data as { sent?: boolean; error?: string } | null;
       if (!result?.sent) throw new Error(result?.error ?? 'Send failed');
+
+      const before = findCachedInvoice(qc, input.invoiceId);
+      if (before) {
+        const sentStatus = before.status === 'draft' ? 'sent' : before.status;
+        recordAudit(invoiceAuditEntry(before, { ...before, status: sentStatus, sentAt: new Date().toISOString() }));
+      }
     },
     onSuccess: () => {
       qc.invalidateQueries({ queryKey: ['invoices'] });
@@ -211,8 +354,10 @@ export function useSendInvoice() {
 
 export function useMarkInvoicePaid() {
   const qc = useQueryClient();
+  const recordAudit = useRecordAudit();
   return useMutation({
     mutationFn: async (invoiceId: string): Promise<Invoice> => {
+      const before = findCachedInvoice(qc, invoiceId);
       const { data, error } = await supabaseClient
         .from('invoices')
         .update({ status: 'paid', paid_at: new Date().toISOString() })
@@ -220,7 +365,9 @@ export function useMarkInvoicePaid() {
         .select('*')
         .single();
       if (error) throw error;
-      return mapInvoiceRow(data);
+      const updated = mapInvoiceRow(data);
+      if (before) recordAudit(invoiceAuditEntry(before, updated));
+      return updated;
     },
     onSuccess: () => {
       qc.invalidateQueries({ queryKey: ['invoices'] });
@@ -230,8 +377,10 @@ export function useMarkInvoicePaid() {
 
 export function useVoidInvoice() {
   const qc = useQueryClient();
+  const recordAudit = useRecordAudit();
   return useMutation({
     mutationFn: async (invoiceId: string): Promise<Invoice> => {
+      const before = findCachedInvoice(qc, invoiceId);
       const { data, error } = await supabaseClient
         .from('invoices')
         .update({ status: 'void' })
@@ -239,7 +388,9 @@ export function useVoidInvoice() {
         .select('*')
         .single();
       if (error) throw error;
-      return mapInvoiceRow(data);
+      const updated = mapInvoiceRow(data);
+      if (before) recordAudit(invoiceAuditEntry(before, updated));
+      return updated;
     },
     onSuccess: () => {
       qc.invalidateQueries({ queryKey: ['invoices'] });
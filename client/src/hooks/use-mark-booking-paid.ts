@@ -0,0 +1,47 @@
+import { useCallback } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useDataStore } from '@/contexts/DataStoreContext';
+import { DeskBooking } from '@shared/schema';
+import { useToast } from '@/hooks/use-toast';
+import { useRecordAudit } from '@/hooks/use-audit-log';
+import { useUndoHistory } from '@/hooks/use-undo-history';
+import { invalidateBookingQueries } from '@/hooks/use-booking-actions';
+import { buildSlotChanges } from '@/lib/undoHistory';
+import { bookingAuditEntry } from '@/lib/auditLog';
+import { isRunRow, runOf } from '@/lib/bookingMoves';
+
+/**
+ * Records payment for a booked (unpaid) booking: every day row of its run
+ * turns assigned. Ongoing plans are paid per cycle through useMarkOngoingPaid.
+ */
+export function useMarkBookingPaid() {
+  const dataStore = useDataStore();
+  const queryClient = useQueryClient();
+  const recordAudit = useRecordAudit();
+  const { record: recordUndo } = useUndoHistory();
+  const { toast } = useToast();
+
+  return useCallback(async (booking: DeskBooking) => {
+    const run = runOf(booking);
+    const before = (await dataStore.getBookingsForDateRange(booking.startDate, booking.endDate))
+      .filter(row => isRunRow(row, run) && row.status === 'booked');
+    if (before.length === 0) return;
+    // Paying ends a tentative hold; both are set on the stored rows
+    const changes = { status: 'assigned' as const, heldUntil: null };
+    const after = before.map(row => ({ ...row, ...changes }));
+    await dataStore.patchBookings(before, changes);
+
+    invalidateBookingQueries(queryClient);
+    recordAudit(bookingAuditEntry(before[0], after[0]));
+    const who = booking.personName || 'Booking';
+    const undoAction = recordUndo({
+      label: `${who} marked paid`,
+      slots: buildSlotChanges(before, after),
+    });
+    toast({
+      title: 'Payment recorded',
+      description: `${who}: ${before.length} day${before.length === 1 ? '' : 's'} paid`,
+      action: undoAction,
+    });
+  }, [dataStore, queryClient, recordAudit, recordUndo, toast]);
+}
@@ -3,7 +3,7 @@ import { useDataStore } from '@/contexts/DataStoreContext';
 import { useOrganization } from '@/contexts/OrganizationContext';
 import { MonthlyStats } from '@shared/schema';
 import { DEFAULT_WORKING_DAYS } from '@/lib/workingDays';
-import { formatLocalDate, formatYMD } from '@/lib/dateUtils';
+import { formatLocalDate, formatYMD, todayString } from '@/lib/dateUtils';
 
 export interface RevenueHistoryEntry {
   month: string;
@@ -19,18 +19,21 @@ export function useRevenueHistory(monthCount = 6) {
   const { currentOrg, legacyDesks } = useOrganization();
   const workingDays = currentOrg?.workingDays ?? DEFAULT_WORKING_DAYS;
   const deskCount = legacyDesks.length || undefined;
+  const closures = currentOrg?.closures;
+  const timeZone = currentOrg?.timezone;
   return useQuery({
-    queryKey: ['revenue-history', monthCount, workingDays, deskCount],
+    queryKey: ['revenue-history', monthCount, workingDays, deskCount, closures, timeZone],
     queryFn: async (): Promise<RevenueHistoryEntry[]> => {
-      const now = new Date();
+      // The current month is the organization's, not the browser's
+      const [currentYear, currentMonth] = todayString(timeZone).split('-').map(Number);
       const results: RevenueHistoryEntry[] = [];
 
       for (let i = monthCount - 1; i >= 0; i--) {
-        const d = new Date(now.getFullYear(), now.getMonth() - i, 1);
+        const d = new Date(currentYear, currentMonth - 1 - i, 1);
         const year = d.getFullYear();
         const month = d.getMonth();
 
-        const stats: MonthlyStats = await dataStore.getMonthlyStats(year, month, workingDays, deskCount);
+        const stats: MonthlyStats = await dataStore.getMonthlyStats(year, month, workingDays, deskCount, closures);
 
         let totalExpenses = 0;
         if (dataStore.getExpenses) {
@@ -65,9 +68,10 @@ export function useMonthlyStats(year: number, month: number) {
   const { currentOrg, legacyDesks } = useOrganization();
   const workingDays = currentOrg?.workingDays ?? DEFAULT_WORKING_DAYS;
   const deskCount = legacyDesks.length || undefined;
+  const closures = currentOrg?.closures;
   return useQuery({
-    queryKey: ['monthly-stats', year, month, workingDays, deskCount],
-    queryFn: () => dataStore.getMonthlyStats(year, month, workingDays, deskCount),
+    queryKey: ['monthly-stats', year, month, workingDays, deskCount, closures],
+    queryFn: () => dataStore.getMonthlyStats(year, month, workingDays, deskCount, closures),
     staleTime: 2 * 60 * 1000, // 2 minutes
     gcTime: 10 * 60 * 1000, // 10 minutes
     refetchOnWindowFocus: false,
@@ -80,9 +84,10 @@ export function useDateRangeStats(startDate: string, endDate: string) {
   const { currentOrg, legacyDesks } = useOrganization();
   const workingDays = currentOrg?.workingDays ?? DEFAULT_WORKING_DAYS;
   const deskCount = legacyDesks.length || undefined;
+  const closures = currentOrg?.closures;
   return useQuery({
-    queryKey: ['date-range-stats', startDate, endDate, workingDays, deskCount],
-    queryFn: () => dataStore.getStatsForDateRange(startDate, endDate, workingDays, deskCount),
+    queryKey: ['date-range-stats', startDate, endDate, workingDays, deskCount, closures],
+    queryFn: () => dataStore.getStatsForDateRange(startDate, endDate, workingDays, deskCount, closures),
     staleTime: 2 * 60 * 1000,
     gcTime: 10 * 60 * 1000,
     refetchOnWindowFocus: false,
@@ -1,9 +1,13 @@
 import { useQuery } from '@tanstack/react-query';
 import { useDataStore } from '@/contexts/DataStoreContext';
 import { IDataStore } from '@/lib/dataStore';
-import { DeskBooking } from '@shared/schema';
+import { DeskBooking, OrgClosure } from '@shared/schema';
+import { todayString } from '@/lib/dateUtils';
+import { addDays } from '@/lib/planDates';
 import { isNonWorkingDay, DEFAULT_WORKING_DAYS } from '@/lib/workingDays';
 import { useOrganization } from '@/contexts/OrganizationContext';
+import { findDeskBlock } from '@/lib/deskBlocks';
+import { occupiesDesk } from '@/lib/holds';
 
 const DESKS = [
   { id: 'room1-desk1', room: 1, number: 1, label: 'Room 1 - Desk 1' },
@@ -31,21 +35,21 @@ export interface ExpiringAssignment {
   deskId: string;
 }
 
-async function calculateNextDates(dataStore: IDataStore, workingDays: number[]) {
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+async function calculateNextDates(dataStore: IDataStore, workingDays: number[], closures?: OrgClosure[]) {
+  // Day boundaries follow the organization's timezone
+  const today = todayString();
 
-  // Calculate date range for next 30 days
-  const startDate = new Date(today);
-  startDate.setDate(startDate.getDate() + 1); // Start from tomorrow
-  const endDate = new Date(today);
-  endDate.setDate(endDate.getDate() + 30);
+  // Calculate date range for next 30 days, starting from tomorrow
+  const startDate = addDays(today, 1);
+  const endDate = addDays(today, 30);
 
   // Fetch bookings for the next 30 days only (optimization)
-  const allBookings = await dataStore.getAllBookings(
-    startDate.toISOString().split('T')[0],
-    endDate.toISOString().split('T')[0]
-  );
+  const allBookings = await dataStore.getAllBookings(startDate, endDate);
+
+  // Out-of-service desks are never offered for quick booking
+  const blocks = dataStore.getDeskBlocks
+    ? await dataStore.getDeskBlocks(startDate, endDate)
+    : [];
 
   // Create lookup map for efficient access
   const bookingLookup = new Map<string, any>();
@@ -56,18 +60,15 @@ async function calculateNextDates(dataStore: IDataStore, workingDays: number[])
 
   const availableDates: string[] = [];
   const bookedDatesMap = new Map<string, { names: Set<string>; booking: DeskBooking; deskId: string }>();
-  let checkDate = new Date(today);
-  checkDate.setDate(checkDate.getDate() + 1); // Start from tomorrow
+  let dateString = startDate;
 
   // Check up to 30 days ahead
   const maxDaysToCheck = 30;
   let daysChecked = 0;
 
   while ((availableDates.length < 5 || bookedDatesMap.size < 3) && daysChecked < maxDaysToCheck) {
-    const dateString = checkDate.toISOString().split('T')[0];
-
-    // Skip non-working days
-    if (!isNonWorkingDay(dateString, workingDays)) {
+    // Skip non-working days and closures
+    if (!isNonWorkingDay(dateString, workingDays, closures)) {
       // Check each desk on this date
       let hasAvailableDesk = false;
       const bookedNames = new Set<string>();
@@ -78,9 +79,11 @@ async function calculateNextDates(dataStore: IDataStore, workingDays: number[])
         const bookingKey = `${desk.id}-${dateString}`;
         const booking = bookingLookup.get(bookingKey);
 
-        if (!booking) {
+        if (findDeskBlock(blocks, desk.id, dateString)) {
+          continue;
+        } else if (!booking) {
           hasAvailableDesk = true;
-        } else if (booking.status === 'available') {
+        } else if (!occupiesDesk(booking)) {
           hasAvailableDesk = true;
         } else if (booking.status === 'booked' && booking.personName) {
           bookedNames.add(booking.personName);
@@ -106,7 +109,7 @@ async function calculateNextDates(dataStore: IDataStore, workingDays: number[])
       }
     }
 
-    checkDate.setDate(checkDate.getDate() + 1);
+    dateString = addDays(dateString, 1);
     daysChecked++;
   }
 
@@ -124,9 +127,7 @@ async function calculateNextDates(dataStore: IDataStore, workingDays: number[])
 
   // Generate dates for the next 10 days
   for (let i = 1; i <= 10; i++) {
-    const futureDate = new Date(today);
-    futureDate.setDate(futureDate.getDate() + i);
-    checkDates.push(futureDate.toISOString().split('T')[0]);
+    checkDates.push(addDays(today, i));
   }
 
   for (const dateString of checkDates) {
@@ -159,10 +160,11 @@ export function useNextDates() {
   const dataStore = useDataStore();
   const { currentOrg } = useOrganization();
   const workingDays = currentOrg?.workingDays ?? DEFAULT_WORKING_DAYS;
+  const closures = currentOrg?.closures;
 
   return useQuery({
-    queryKey: ['next-dates', workingDays],
-    queryFn: () => calculateNextDates(dataStore, workingDays),
+    queryKey: ['next-dates', workingDays, closures, currentOrg?.timezone],
+    queryFn: () => calculateNextDates(dataStore, workingDays, closures),
     staleTime: 5 * 60 * 1000, // 5 minutes - don't refetch too often
     gcTime: 10 * 60 * 1000, // 10 minutes garbage collection
     refetchOnWindowFocus: false, // Don't refetch on window focus
@@ -0,0 +1,84 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useDataStore } from '@/contexts/DataStoreContext';
+import { invalidateBookingQueries } from '@/hooks/use-booking-actions';
+import { OutboxEntry, pendingBookingSlots } from '@/lib/offlineQueue';
+
+/**
+ * Tracks writes queued in the offline outbox. Replays them whenever the
+ * browser comes back online (and once on mount, in case the tab was closed
+ * while offline) and exposes conflict resolution to the UI.
+ */
+export function useOfflineQueue() {
+  const dataStore = useDataStore();
+  const queryClient = useQueryClient();
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [isOnline, setIsOnline] = useState(() =>
+    typeof navigator === 'undefined' ? true : navigator.onLine,
+  );
+  const supported = !!dataStore.getPendingMutations;
+
+  const refresh = useCallback(async () => {
+    if (!dataStore.getPendingMutations) return;
+    setEntries(await dataStore.getPendingMutations());
+  }, [dataStore]);
+
+  const replay = useCallback(async () => {
+    if (!dataStore.replayPendingMutations) return;
+    const result = await dataStore.replayPendingMutations();
+    if (result.synced > 0) {
+      invalidateBookingQueries(queryClient);
+      queryClient.invalidateQueries({ queryKey: ['clients'] });
+      queryClient.invalidateQueries({ queryKey: ['expenses'] });
+    }
+  }, [dataStore, queryClient]);
+
+  useEffect(() => {
+    if (!supported) return;
+    refresh();
+    const unsubscribe = dataStore.subscribeToPendingMutations?.(() => {
+      refresh();
+      // Queued writes are overlaid on reads, so re-read to show them.
+      invalidateBookingQueries(queryClient);
+    });
+    return () => unsubscribe?.();
+  }, [dataStore, supported, refresh, queryClient]);
+
+  useEffect(() => {
+    if (!supported) return;
+    const handleOnline = () => {
+      setIsOnline(true);
+      replay();
+    };
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    if (navigator.onLine) replay();
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [supported, replay]);
+
+  const resolveConflict = useCallback(
+    async (entryId: string, resolution: 'overwrite' | 'discard') => {
+      if (!dataStore.resolveMutationConflict) return;
+      await dataStore.resolveMutationConflict(entryId, resolution);
+      invalidateBookingQueries(queryClient);
+    },
+    [dataStore, queryClient],
+  );
+
+  const pendingSlots = useMemo(() => pendingBookingSlots(entries), [entries]);
+  const conflicts = useMemo(() => entries.filter((e) => e.status === 'conflict'), [entries]);
+
+  return {
+    isOnline,
+    entries,
+    pendingCount: entries.length,
+    pendingSlots,
+    conflicts,
+    replay,
+    resolveConflict,
+  };
+}
@@ -2,6 +2,7 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabaseClient } from '@/lib/supabaseClient';
 import { useAuth } from '@/contexts/AuthContext';
 import { Organization, Room, OrgDesk, OrgMemberRole } from '@shared/schema';
+import { todayString } from '@/lib/dateUtils';
 
 const E2E_EMAILS = ['bodrovphone+e2e@gmail.com'];
 
@@ -23,8 +24,15 @@ function mapOrg(row: Record<string, unknown>): Organization {
     floorPlanUrl: (row.floor_plan_url as string) ?? null,
     logoUrl: (row.logo_url as string) ?? null,
     workingDays: (row.working_days as number[]) ?? [1, 2, 3, 4, 5],
+    closures: (row.closures as Organization['closures']) ?? [],
     publicBookingEnabled: (row.public_booking_enabled as boolean) ?? false,
     publicBookingMaxDaysAhead: (row.public_booking_max_days_ahead as number) ?? 14,
+    visitorChangesEnabled: (row.visitor_changes_enabled as boolean) ?? false,
+    visitorChangeCutoffHours: (row.visitor_change_cutoff_hours as number) ?? 24,
+    visitorMaxReschedules: (row.visitor_max_reschedules as number) ?? 1,
+    bookingPolicy: (row.booking_policy as Organization['bookingPolicy']) ?? null,
+    autoReleaseTime: (row.auto_release_time as string) ?? null,
+    publicHoldHours: (row.public_hold_hours as number) ?? null,
     contactPhone: (row.contact_phone as string) ?? null,
     contactEmail: (row.contact_email as string) ?? null,
     contactTelegram: (row.contact_telegram as string) ?? null,
@@ -34,6 +42,8 @@ function mapOrg(row: Record<string, unknown>): Organization {
     flexPlanPrice: (row.flex_plan_price as number) ?? null,
     weeklyPlanPrice: (row.weekly_plan_price as number) ?? null,
     monthlyPlanPrice: (row.monthly_plan_price as number) ?? null,
+    halfDayPrice: (row.half_day_price as number) ?? null,
+    pricingRules: (row.pricing_rules as Organization['pricingRules']) ?? [],
     groupId: (row.group_id as string) ?? null,
     floorPlanCombined: (row.floor_plan_combined as boolean) ?? false,
     stripePublishableKey: (row.stripe_publishable_key as string) ?? null,
@@ -71,6 +81,7 @@ function mapDesk(row: Record<string, unknown>): OrgDesk {
     label: row.label as string,
     deskId: row.desk_id as string,
     sortOrder: row.sort_order as number,
+    attributes: (row.attributes as string[]) ?? [],
     createdAt: row.created_at as string,
   };
 }
@@ -320,6 +331,24 @@ export function useRenameDesk() {
   });
 }
 
+export function useUpdateDeskAttributes() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ deskId, attributes }: { deskId: string; attributes: string[] }) => {
+      const { error } = await supabaseClient
+        .from('desks')
+        .update({ attributes })
+        .eq('id', deskId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['org-desks'] });
+    },
+  });
+}
+
 export function useAddRoom() {
   const queryClient = useQueryClient();
 
@@ -414,7 +443,7 @@ export function useSetRoomDeskCount() {
 
         // Check for future bookings on desks being removed
         const deskIds = toRemove.map(d => d.deskId);
-        const today = new Date().toISOString().split('T')[0];
+        const today = todayString();
         const { data: bookings, error: checkError } = await supabaseClient
           .from('desk_bookings')
           .select('id')
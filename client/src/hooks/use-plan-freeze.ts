@@ -1,7 +1,11 @@
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { useToast } from '@/hooks/use-toast';
 import { useDataStore } from '@/contexts/DataStoreContext';
+import { DeskBooking } from '@shared/schema';
 import { invalidateBookingQueries } from '@/hooks/use-booking-actions';
+import { useRecordAudit } from '@/hooks/use-audit-log';
+import { bookingAuditEntry } from '@/lib/auditLog';
+import { addDays } from '@/lib/planDates';
 
 interface FreezeVariables {
   clientId: string;
@@ -20,6 +24,7 @@ interface ReactivateVariables {
 export function usePlanFreeze() {
   const dataStore = useDataStore();
   const queryClient = useQueryClient();
+  const recordAudit = useRecordAudit();
   const { toast } = useToast();
 
   const invalidateAll = () => {
@@ -32,7 +37,22 @@ export function usePlanFreeze() {
       if (!dataStore.freezePlanBooking) {
         throw new Error('Plan freeze is not supported by this data store');
       }
-      return dataStore.freezePlanBooking({ clientId, startDate, endDate, pausedAt });
+      const isPlanRow = (b: DeskBooking, end: string) =>
+        b.clientId === clientId && b.startDate === startDate && b.endDate === end;
+      const before = (await dataStore.getBookingsForDateRange(startDate, endDate))
+        .find(b => isPlanRow(b, endDate)) ?? null;
+
+      const result = await dataStore.freezePlanBooking({ clientId, startDate, endDate, pausedAt });
+
+      if (before && result.pausedCount > 0) {
+        // Days before the pause stay on the calendar as a shorter plan
+        const newEndDate = addDays(pausedAt, -1);
+        const after = newEndDate >= startDate
+          ? (await dataStore.getBookingsForDateRange(startDate, newEndDate)).find(b => isPlanRow(b, newEndDate)) ?? null
+          : null;
+        recordAudit(bookingAuditEntry(before, after));
+      }
+      return result;
     },
     onSuccess: (result, variables) => {
       invalidateAll();
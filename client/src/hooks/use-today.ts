@@ -0,0 +1,32 @@
+import { useEffect, useState } from 'react';
+import { todayString } from '@/lib/dateUtils';
+
+const TODAY_CHECK_INTERVAL_MS = 60_000;
+
+/**
+ * Today's date in the space's timezone. Checks every minute and whenever the
+ * tab comes back into view, so a page left open overnight moves on to the
+ * new day.
+ */
+export function useToday(timeZone?: string | null): string {
+  const [today, setToday] = useState(() => todayString(timeZone));
+
+  useEffect(() => {
+    const refresh = () => setToday(todayString(timeZone));
+    const onVisible = () => {
+      if (document.visibilityState === 'visible') refresh();
+    };
+
+    refresh();
+    const timer = setInterval(refresh, TODAY_CHECK_INTERVAL_MS);
+    window.addEventListener('focus', refresh);
+    document.addEventListener('visibilitychange', onVisible);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('focus', refresh);
+      document.removeEventListener('visibilitychange', onVisible);
+    };
+  }, [timeZone]);
+
+  return today;
+}
@@ -0,0 +1,125 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useDataStore } from '@/contexts/DataStoreContext';
+import { useToast } from '@/hooks/use-toast';
+import { useRecordAudit } from '@/hooks/use-audit-log';
+import { invalidateBookingQueries } from '@/hooks/use-booking-actions';
+import { ToastAction, type ToastActionElement } from '@/components/ui/toast';
+import type { IDataStore } from '@/lib/dataStore';
+import { BookingChange, UndoHistory, bookingChangeAuditEntries, isStaleChangeError } from '@/lib/undoHistory';
+import { describeBookingConflict, isBookingConflictError } from '@/lib/bookingConflicts';
+
+// One history per data store, so it survives navigating between pages but
+// starts fresh when the organization (and with it the store) changes.
+const histories = new WeakMap<IDataStore, UndoHistory>();
+
+function historyFor(dataStore: IDataStore): UndoHistory {
+  let history = histories.get(dataStore);
+  if (!history) {
+    history = new UndoHistory();
+    histories.set(dataStore, history);
+  }
+  return history;
+}
+
+export function useUndoHistory() {
+  const dataStore = useDataStore();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const recordAudit = useRecordAudit();
+  const history = historyFor(dataStore);
+  const [, setVersion] = useState(0);
+
+  useEffect(() => history.subscribe(() => setVersion((v) => v + 1)), [history]);
+
+  const run = useCallback(async (direction: 'undo' | 'redo') => {
+    try {
+      const change = await history[direction](dataStore);
+      if (!change) return;
+      recordAudit(...bookingChangeAuditEntries(change, direction));
+      invalidateBookingQueries(queryClient);
+      if (change.flexDays) queryClient.invalidateQueries({ queryKey: ['clients'] });
+      if (change.fee) queryClient.invalidateQueries({ queryKey: ['booking-fees'] });
+      toast({
+        title: direction === 'undo' ? 'Change Undone' : 'Change Redone',
+        description: change.label,
+        action: direction === 'undo' ? (
+          <ToastAction altText="Redo" onClick={() => run('redo')}>Redo</ToastAction>
+        ) : undefined,
+      });
+    } catch (error) {
+      invalidateBookingQueries(queryClient);
+      toast({
+        title: direction === 'undo' ? "Couldn't Undo" : "Couldn't Redo",
+        description: isStaleChangeError(error)
+          ? 'These desks were changed since, so the edit was left as it is.'
+          : isBookingConflictError(error)
+            ? describeBookingConflict(error)
+            : 'Failed to update bookings. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  }, [history, dataStore, queryClient, toast, recordAudit]);
+
+  const undo = useCallback(() => run('undo'), [run]);
+  const redo = useCallback(() => run('redo'), [run]);
+
+  /**
+   * Adds an edit to the history and returns an "Undo" action for the toast
+   * that confirms it. The action only reverts that edit while it is still the
+   * latest one.
+   */
+  const record = useCallback((change: BookingChange): ToastActionElement => {
+    history.push(change);
+    return (
+      <ToastAction
+        altText="Undo"
+        onClick={() => {
+          if (history.peekUndo() === change) {
+            run('undo');
+          } else {
+            toast({
+              title: 'Newer Changes First',
+              description: 'Other edits were made since. Press Ctrl+Z to step back through them.',
+            });
+          }
+        }}
+      >
+        Undo
+      </ToastAction>
+    );
+  }, [history, run, toast]);
+
+  return {
+    record,
+    undo,
+    redo,
+    canUndo: history.canUndo,
+    canRedo: history.canRedo,
+  };
+}
+
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+/** Ctrl+Z / Ctrl+Shift+Z (and Cmd on macOS) for the booking history. */
+export function useUndoShortcuts() {
+  const { undo, redo } = useUndoHistory();
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      const key = event.key.toLowerCase();
+      if (key !== 'z' && key !== 'y') return;
+      // Leave text fields and open dialogs their own undo
+      if (isEditableTarget(event.target) || document.querySelector('[role="dialog"]')) return;
+      event.preventDefault();
+      if (key === 'y' || event.shiftKey) redo();
+      else undo();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+}
@@ -0,0 +1,93 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { useDataStore } from '@/contexts/DataStoreContext';
+import { useOrganization } from '@/contexts/OrganizationContext';
+import { useBookings } from '@/hooks/use-bookings';
+import { useDeskBlocks } from '@/hooks/use-desk-blocks';
+import { useToast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
+import { WaitingListEntry } from '@shared/schema';
+import { DEFAULT_DESKS } from '@/lib/deskConfig';
+import { todayString } from '@/lib/dateUtils';
+import { DEFAULT_WORKING_DAYS } from '@/lib/workingDays';
+import { WaitlistMatch, findWaitlistMatches, waitlistRange } from '@/lib/waitingList';
+
+export function useWaitingListEntries() {
+  const dataStore = useDataStore();
+  return useQuery<WaitingListEntry[]>({
+    queryKey: ['waiting-list'],
+    queryFn: async () => (dataStore.getWaitingListEntries ? dataStore.getWaitingListEntries() : []),
+  });
+}
+
+/**
+ * Waiting-list entries a desk is free for right now. Bookings and blocks are
+ * read over the entries' ranges, so any booking change recomputes them.
+ */
+export function useWaitingListMatches(): { matches: WaitlistMatch[]; isReady: boolean } {
+  const { legacyDesks, currentOrg } = useOrganization();
+  const desks = legacyDesks.length > 0 ? legacyDesks : DEFAULT_DESKS;
+  const today = todayString();
+  const entriesQuery = useWaitingListEntries();
+  const entries = entriesQuery.data ?? [];
+
+  const horizon = useMemo(() => entries.reduce((last, entry) => {
+    const range = waitlistRange(entry, today);
+    return range && range.endDate > last ? range.endDate : last;
+  }, today), [entries, today]);
+
+  const bookingsQuery = useBookings(today, horizon);
+  const blocksQuery = useDeskBlocks(today, horizon);
+
+  const matches = useMemo(() => findWaitlistMatches(
+    entries,
+    desks,
+    Object.values(bookingsQuery.data ?? {}),
+    blocksQuery.data ?? [],
+    today,
+    { workingDays: currentOrg?.workingDays ?? DEFAULT_WORKING_DAYS, closures: currentOrg?.closures },
+  ), [entries, desks, bookingsQuery.data, blocksQuery.data, today, currentOrg?.workingDays, currentOrg?.closures]);
+
+  return {
+    matches,
+    isReady: entriesQuery.isSuccess && bookingsQuery.isSuccess && blocksQuery.isSuccess,
+  };
+}
+
+/**
+ * Tells the manager when a cancelled booking or an ended plan frees a desk
+ * for someone on the waiting list. Entries that already matched when the
+ * page opened are not announced again. Offers to people who signed up with
+ * an email are made and sent by the server (offer_waitlist_desks).
+ */
+export function useWaitingListAlerts() {
+  const { matches, isReady } = useWaitingListMatches();
+  const { currentOrg } = useOrganization();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const announced = useRef<Set<string> | null>(null);
+
+  useEffect(() => {
+    if (!isReady) return;
+    const previous = announced.current;
+    announced.current = new Set(matches.map(m => m.entry.id));
+    if (!previous) return;
+
+    const fresh = matches.filter(m => !previous.has(m.entry.id));
+    if (fresh.length === 0) return;
+    toast({
+      title: fresh.length === 1
+        ? `A desk is free for ${fresh[0].entry.name}`
+        : `Desks are free for ${fresh.length} people on the waiting list`,
+      description: fresh.length === 1
+        ? 'Convert the entry to a booking from the waiting list.'
+        : fresh.map(m => m.entry.name).join(', '),
+      action: currentOrg ? (
+        <ToastAction altText="Open waiting list" onClick={() => navigate(`/${currentOrg.slug}/waiting-list`)}>
+          View
+        </ToastAction>
+      ) : undefined,
+    });
+  }, [matches, isReady, currentOrg, navigate, toast]);
+}
@@ -1,9 +1,10 @@
 import { NavLink, Outlet, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { useOrganization } from '@/contexts/OrganizationContext';
-import { Calendar, BarChart3, Users, UserRoundSearch, Settings, LogOut, Lightbulb, PanelLeftClose, PanelLeftOpen, Shield, DoorOpen, MoreHorizontal, ChevronsUpDown, Plus, MapPin, LayoutGrid, Bell, Package, Globe, Receipt, Pencil } from 'lucide-react';
+import { Calendar, BarChart3, Users, UserRoundSearch, Settings, LogOut, Lightbulb, PanelLeftClose, PanelLeftOpen, Shield, DoorOpen, MoreHorizontal, ChevronsUpDown, Plus, MapPin, LayoutGrid, Bell, Package, Globe, Receipt, Pencil, History, Sun } from 'lucide-react';
 import logoCompact from '@/assets/logo-compact.svg?url';
 import TrialBanner from '@/components/shared/TrialBanner';
+import OfflineSyncBanner from '@/components/shared/OfflineSyncBanner';
 import { useState } from 'react';
 import { isAdmin } from '@/lib/admin';
 import type { User } from '@supabase/supabase-js';
@@ -32,6 +33,7 @@ function getNavGroups(slug: string, user?: User | null, hasMeetingRooms?: boolea
       label: 'Bookings',
       items: [
         { to: `${base}/calendar`, label: 'Calendar', shortLabel: 'Calendar', icon: Calendar },
+        { to: `${base}/today`, label: 'Today', shortLabel: 'Today', icon: Sun },
         ...(hasMeetingRooms ? [{ to: `${base}/meeting-rooms`, label: 'Meeting Rooms', shortLabel: 'Rooms', icon: DoorOpen }] : []),
       ],
     },
@@ -59,6 +61,7 @@ function getNavGroups(slug: string, user?: User | null, hasMeetingRooms?: boolea
         { to: `${base}/team`, label: 'Team', shortLabel: 'Team', icon: Users },
         { to: `${base}/notifications`, label: 'Notifications', shortLabel: 'Alerts', icon: Bell },
         { to: `${base}/integrations`, label: 'Integrations', shortLabel: 'Integr.', icon: Globe },
+        ...(isOwner || role === 'admin' ? [{ to: `${base}/activity`, label: 'Activity', shortLabel: 'Activity', icon: History }] : []),
         ...(isOwner ? [{ to: `${base}/floor-plan-editor`, label: 'Floor Plan ✦', shortLabel: 'Map', icon: Pencil }] : []),
         ...(isAdmin(user) ? [{ to: `${base}/admin`, label: 'Admin', shortLabel: 'Admin', icon: Shield }] : []),
       ],
@@ -288,6 +291,7 @@ export default function DashboardLayout() {
       {/* Main Content */}
       <main className="flex-1 min-w-0 overflow-x-hidden pb-16 lg:pb-0">
         <TrialBanner />
+        <OfflineSyncBanner />
         <Outlet />
       </main>
 
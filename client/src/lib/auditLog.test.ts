@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import {
+  bookingAuditEntry,
+  clientAuditEntry,
+  diffFields,
+  invoiceAuditEntry,
+  matchesAuditFilter,
+} from './auditLog';
+import type { AuditEntry, Client, DeskBooking, Invoice } from '@shared/schema';
+
+function makeRun(overrides: Partial<DeskBooking> = {}): DeskBooking {
+  return {
+    id: 'd1-2026-03-02',
+    deskId: 'd1',
+    date: '2026-03-02',
+    startDate: '2026-03-02',
+    endDate: '2026-03-06',
+    status: 'booked',
+    personName: 'Alice',
+    price: 100,
+    currency: 'EUR',
+    createdAt: '2026-03-01T10:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function makeEntry(overrides: Partial<AuditEntry> = {}): AuditEntry {
+  return {
+    id: '1',
+    entityType: 'booking',
+    entityId: 'd1-2026-03-02',
+    action: 'update',
+    actorName: 'anna@example.com',
+    summary: 'Updated booked booking',
+    changes: {},
+    deskId: 'd1',
+    startDate: '2026-03-02',
+    endDate: '2026-03-06',
+    createdAt: '2026-03-01T10:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('diffFields', () => {
+  it('treats empty strings and missing values as unset', () => {
+    const before = { name: 'Alice', phone: '' } as Partial<Client>;
+    const after = { name: 'Alice', phone: undefined } as Partial<Client>;
+    expect(diffFields(before, after, ['name', 'phone'])).toEqual({});
+  });
+
+  it('reports only the fields that changed', () => {
+    const changes = diffFields<Partial<Client>>({ name: 'Alice', email: 'a@x.io' }, { name: 'Alicia', email: 'a@x.io' }, ['name', 'email']);
+    expect(changes).toEqual({ name: { before: 'Alice', after: 'Alicia' } });
+  });
+});
+
+describe('bookingAuditEntry', () => {
+  it('records a create with every set field as the diff', () => {
+    const entry = bookingAuditEntry(null, makeRun());
+    expect(entry?.action).toBe('create');
+    expect(entry?.changes.personName).toEqual({ before: null, after: 'Alice' });
+    expect(entry?.entityId).toBe('booking-2026-03-01T10:00:00.000Z');
+  });
+
+  it('keeps the same entity id when a booking is moved to another desk', () => {
+    const before = makeRun({ createdAt: '2026-03-01T10:00:00+00:00' });
+    const entry = bookingAuditEntry(before, makeRun({ deskId: 'd2', startDate: '2026-03-09', endDate: '2026-03-13' }));
+    expect(entry?.entityId).toBe(bookingAuditEntry(null, before)?.entityId);
+  });
+
+  it('covers both the old and new range when a booking is moved', () => {
+    const entry = bookingAuditEntry(makeRun(), makeRun({ startDate: '2026-03-04', endDate: '2026-03-10' }));
+    expect(entry?.action).toBe('update');
+    expect(entry?.startDate).toBe('2026-03-02');
+    expect(entry?.endDate).toBe('2026-03-10');
+  });
+
+  it('skips updates that changed nothing', () => {
+    expect(bookingAuditEntry(makeRun(), makeRun({ id: 'other', createdAt: 'later' }))).toBeNull();
+  });
+});
+
+describe('clientAuditEntry and invoiceAuditEntry', () => {
+  it('records a member deletion against the member', () => {
+    const entry = clientAuditEntry({ id: 'c1', name: 'Acme' } as Client, null);
+    expect(entry).toMatchObject({ action: 'delete', clientId: 'c1', summary: 'Deleted member Acme' });
+  });
+
+  it('names the new status when an invoice is marked paid', () => {
+    const invoice = { id: 'i1', invoiceNumber: 'INV-7', status: 'sent', clientId: 'c1' } as Invoice;
+    const entry = invoiceAuditEntry(invoice, { ...invoice, status: 'paid', paidAt: '2026-03-05T09:00:00.000Z' });
+    expect(entry?.summary).toBe('Marked paid invoice INV-7');
+    expect(Object.keys(entry?.changes ?? {})).toEqual(['status', 'paidAt']);
+  });
+});
+
+describe('matchesAuditFilter', () => {
+  it('matches bookings whose range overlaps the requested dates', () => {
+    expect(matchesAuditFilter(makeEntry(), { startDate: '2026-03-05', endDate: '2026-03-20' })).toBe(true);
+    expect(matchesAuditFilter(makeEntry(), { startDate: '2026-03-07', endDate: '2026-03-20' })).toBe(false);
+  });
+
+  it('filters by actor substring and change day', () => {
+    expect(matchesAuditFilter(makeEntry(), { actor: 'ANNA' })).toBe(true);
+    expect(matchesAuditFilter(makeEntry(), { actor: 'bob' })).toBe(false);
+    expect(matchesAuditFilter(makeEntry(), { from: '2026-03-02' })).toBe(false);
+    expect(matchesAuditFilter(makeEntry(), { to: '2026-03-01' })).toBe(true);
+  });
+});
@@ -0,0 +1,243 @@
+import type {
+  AuditAction,
+  AuditChange,
+  AuditEntityType,
+  AuditEntry,
+  Client,
+  DeskBooking,
+  Expense,
+  Invoice,
+} from '@shared/schema';
+
+/**
+ * Change history for bookings, clients, invoices and expenses. Callers build an
+ * entry from the record before and after a write; the data store stamps it
+ * with the organization, the signed-in actor and the time.
+ */
+
+export type NewAuditEntry = Omit<AuditEntry, 'id' | 'organizationId' | 'actorId' | 'actorName' | 'createdAt'>;
+
+export interface AuditLogFilter {
+  entityType?: AuditEntityType;
+  entityId?: string;
+  action?: AuditAction;
+  clientId?: string;
+  deskId?: string;
+  /** Booking entries whose date range overlaps [startDate, endDate]. */
+  startDate?: string;
+  endDate?: string;
+  /** Bounds on when the change happened (YYYY-MM-DD, inclusive). */
+  from?: string;
+  to?: string;
+  /** Case-insensitive substring of the actor's name or email. */
+  actor?: string;
+  limit?: number;
+}
+
+export const DEFAULT_AUDIT_LIMIT = 200;
+
+// A booking is edited as a run (startDate..endDate), not per stored day row.
+type BookingRun = Pick<
+  DeskBooking,
+  'deskId' | 'startDate' | 'endDate' | 'status' | 'personName' | 'title' | 'price' | 'currency' | 'clientId' | 'isFlex' | 'isOngoing' | 'planType' | 'createdAt'
+>;
+
+const BOOKING_FIELDS: (keyof BookingRun)[] = [
+  'deskId', 'startDate', 'endDate', 'status', 'personName', 'title', 'price', 'currency', 'clientId', 'isFlex', 'isOngoing', 'planType',
+];
+const CLIENT_FIELDS: (keyof Client)[] = [
+  'name', 'email', 'phone', 'contact', 'flexActive', 'flexTotalDays', 'flexUsedDays', 'flexStartDate',
+  'billingAddress', 'paymentMethodType', 'representativeName', 'taxId', 'vatId',
+];
+const EXPENSE_FIELDS: (keyof Expense)[] = ['date', 'amount', 'currency', 'categoryId', 'categoryName', 'description'];
+const INVOICE_FIELDS: (keyof Invoice)[] = ['status', 'invoiceNumber', 'issueDate', 'dueDate', 'total', 'currency', 'notes', 'sentAt', 'paidAt'];
+
+export const AUDIT_FIELD_LABELS: Record<string, string> = {
+  deskId: 'Desk',
+  startDate: 'Start',
+  endDate: 'End',
+  status: 'Status',
+  personName: 'Person',
+  title: 'Title',
+  price: 'Price',
+  currency: 'Currency',
+  clientId: 'Member',
+  isFlex: 'Flex',
+  isOngoing: 'Ongoing',
+  planType: 'Plan',
+  name: 'Name',
+  email: 'Email',
+  phone: 'Phone',
+  contact: 'Contact',
+  flexActive: 'Flex plan',
+  flexTotalDays: 'Flex days',
+  flexUsedDays: 'Flex days used',
+  flexStartDate: 'Flex start',
+  billingAddress: 'Billing address',
+  paymentMethodType: 'Payment method',
+  representativeName: 'Contact person',
+  taxId: 'Tax ID',
+  vatId: 'VAT ID',
+  date: 'Date',
+  amount: 'Amount',
+  categoryId: 'Category',
+  categoryName: 'Category',
+  description: 'Description',
+  invoiceNumber: 'Number',
+  issueDate: 'Issued',
+  dueDate: 'Due',
+  total: 'Total',
+  notes: 'Notes',
+  sentAt: 'Sent',
+  paidAt: 'Paid',
+};
+
+// Empty strings, undefined and null all mean "not set".
+function normalize(value: unknown): unknown {
+  return value === undefined || value === '' ? null : value;
+}
+
+/** Field-by-field before/after for the listed fields; unchanged fields are omitted. */
+export function diffFields<T>(
+  before: T | null | undefined,
+  after: T | null | undefined,
+  fields: (keyof T)[],
+): Record<string, AuditChange> {
+  const changes: Record<string, AuditChange> = {};
+  for (const field of fields) {
+    const from = normalize(before ? before[field] : null);
+    const to = normalize(after ? after[field] : null);
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field as string] = { before: from, after: to };
+    }
+  }
+  return changes;
+}
+
+function actionFor(before: unknown, after: unknown): AuditAction {
+  if (!before) return 'create';
+  if (!after) return 'delete';
+  return 'update';
+}
+
+const ACTION_VERBS: Record<AuditAction, string> = {
+  create: 'Created',
+  update: 'Updated',
+  delete: 'Deleted',
+};
+
+/**
+ * Audit id of a booking. Desk and dates change when a booking is edited or
+ * moved, its creation time doesn't, so history follows the booking. Bookings
+ * made in one go (a group, a series) share their history.
+ */
+export function bookingEntityId(booking: Pick<DeskBooking, 'deskId' | 'startDate' | 'createdAt'>): string {
+  if (!booking.createdAt) return `${booking.deskId}-${booking.startDate}`;
+  // Postgres and the browser serialise timestamps differently
+  const time = Date.parse(booking.createdAt);
+  return `booking-${Number.isNaN(time) ? booking.createdAt : new Date(time).toISOString()}`;
+}
+
+/** Null when an update changed none of the audited fields. */
+export function bookingAuditEntry(
+  before: BookingRun | null,
+  after: BookingRun | null,
+): NewAuditEntry | null {
+  const current = after ?? before;
+  if (!current) return null;
+  const action = actionFor(before, after);
+  const changes = diffFields<BookingRun>(before, after, BOOKING_FIELDS);
+  if (action === 'update' && Object.keys(changes).length === 0) return null;
+
+  const startDate = before && after && before.startDate < after.startDate ? before.startDate : current.startDate;
+  const endDate = before && after && before.endDate > after.endDate ? before.endDate : current.endDate;
+  const who = current.personName ? ` for ${current.personName}` : '';
+  return {
+    entityType: 'booking',
+    entityId: bookingEntityId(before ?? current),
+    action,
+    summary: `${ACTION_VERBS[action]} ${current.status} booking${who} on ${current.deskId} (${current.startDate} – ${current.endDate})`,
+    changes,
+    clientId: current.clientId ?? before?.clientId ?? null,
+    deskId: current.deskId,
+    startDate,
+    endDate,
+  };
+}
+
+export function clientAuditEntry(before: Client | null, after: Client | null): NewAuditEntry | null {
+  const current = after ?? before;
+  if (!current) return null;
+  const action = actionFor(before, after);
+  const changes = diffFields<Client>(before, after, CLIENT_FIELDS);
+  if (action === 'update' && Object.keys(changes).length === 0) return null;
+  return {
+    entityType: 'client',
+    entityId: current.id,
+    action,
+    summary: `${ACTION_VERBS[action]} member ${current.name}`,
+    changes,
+    clientId: current.id,
+  };
+}
+
+export function expenseAuditEntry(before: Expense | null, after: Expense | null): NewAuditEntry | null {
+  const current = after ?? before;
+  if (!current) return null;
+  const action = actionFor(before, after);
+  const changes = diffFields<Expense>(before, after, EXPENSE_FIELDS);
+  if (action === 'update' && Object.keys(changes).length === 0) return null;
+  const label = current.description || current.categoryName || 'expense';
+  return {
+    entityType: 'expense',
+    entityId: current.id,
+    action,
+    summary: `${ACTION_VERBS[action]} expense "${label}" on ${current.date}`,
+    changes,
+  };
+}
+
+export function invoiceAuditEntry(before: Invoice | null, after: Invoice | null): NewAuditEntry | null {
+  const current = after ?? before;
+  if (!current) return null;
+  const action = actionFor(before, after);
+  const changes = diffFields<Invoice>(before, after, INVOICE_FIELDS);
+  if (action === 'update' && Object.keys(changes).length === 0) return null;
+  const verb = action === 'update' && changes.status ? `Marked ${current.status}` : ACTION_VERBS[action];
+  return {
+    entityType: 'invoice',
+    entityId: current.id,
+    action,
+    summary: `${verb} invoice ${current.invoiceNumber}`,
+    changes,
+    clientId: current.clientId ?? null,
+  };
+}
+
+/** In-memory equivalent of the server-side audit_log query. */
+export function matchesAuditFilter(entry: AuditEntry, filter: AuditLogFilter): boolean {
+  if (filter.entityType && entry.entityType !== filter.entityType) return false;
+  if (filter.entityId && entry.entityId !== filter.entityId) return false;
+  if (filter.action && entry.action !== filter.action) return false;
+  if (filter.clientId && entry.clientId !== filter.clientId) return false;
+  if (filter.deskId && entry.deskId !== filter.deskId) return false;
+  if (filter.startDate && (!entry.endDate || entry.endDate < filter.startDate)) return false;
+  if (filter.endDate && (!entry.startDate || entry.startDate > filter.endDate)) return false;
+  const day = entry.createdAt.slice(0, 10);
+  if (filter.from && day < filter.from) return false;
+  if (filter.to && day > filter.to) return false;
+  if (filter.actor) {
+    const needle = filter.actor.toLowerCase();
+    if (!(entry.actorName ?? '').toLowerCase().includes(needle)) return false;
+  }
+  return true;
+}
+
+export function formatAuditValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    return new Date(value).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' });
+  }
+  return String(value);
+}
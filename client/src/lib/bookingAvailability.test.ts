@@ -2,13 +2,15 @@ import { describe, it, expect } from 'vitest';
 import {
   buildAvailabilityMap,
   isDateDisabled,
+  soldOutDates,
   pickRandomAvailableDesk,
   getIsoDay,
+  buildBookedSet,
 } from './bookingAvailability';
 import type { PublicAvailability } from '@shared/schema';
 import { formatLocalDate } from './dateUtils';
 
-function makeAvailability(overrides: Partial<PublicAvailability['org']> = {}, bookedSlots: { deskId: string; date: string }[] = []): PublicAvailability {
+function makeAvailability(overrides: Partial<PublicAvailability['org']> = {}, bookedSlots: PublicAvailability['bookedSlots'] = []): PublicAvailability {
   return {
     org: {
       id: 'org-1',
@@ -89,6 +91,66 @@ describe('buildAvailabilityMap', () => {
     const { availabilityMap } = buildAvailabilityMap(avail, now);
     expect(availabilityMap['2026-04-15']).toBe(3);
   });
+
+  it('counts only desks with the requested attributes', () => {
+    const avail = makeAvailability({ maxDaysAhead: 0 }, [{ deskId: 'd1', date: '2026-04-15' }]);
+    avail.rooms[0].desks[0].attributes = ['Window seat'];
+    avail.rooms[0].desks[1].attributes = ['Window seat', 'Dual monitor'];
+    expect(buildAvailabilityMap(avail, now, ['window seat']).availabilityMap['2026-04-15']).toBe(1);
+    expect(buildAvailabilityMap(avail, now, ['Standing desk']).availabilityMap['2026-04-15']).toBe(0);
+  });
+
+  it('counts half-day availability separately', () => {
+    const { availabilityMap, halfDayMaps } = buildAvailabilityMap(
+      makeAvailability({ maxDaysAhead: 0 }, [
+        { deskId: 'd1', date: '2026-04-15', dayPart: 'am' },
+        { deskId: 'd2', date: '2026-04-15', dayPart: 'full' },
+      ]),
+      now,
+    );
+    expect(availabilityMap['2026-04-15']).toBe(0); // d1 is taken for the morning
+    expect(halfDayMaps.am['2026-04-15']).toBe(0);
+    expect(halfDayMaps.pm['2026-04-15']).toBe(1); // d1 afternoon
+  });
+
+  it('never counts out-of-service desks as free', () => {
+    const avail = makeAvailability({ maxDaysAhead: 1 });
+    avail.blockedSlots = [{ deskId: 'd2', date: '2026-04-15' }];
+    const { availabilityMap, halfDayMaps } = buildAvailabilityMap(avail, now);
+    expect(availabilityMap['2026-04-15']).toBe(1);
+    expect(halfDayMaps.am['2026-04-15']).toBe(1);
+    expect(availabilityMap['2026-04-16']).toBe(2);
+  });
+
+  it("starts the window on the organization's date", () => {
+    // 23:30 UTC on Apr 15 is already Apr 16 in Sofia
+    const lateUtc = new Date(Date.UTC(2026, 3, 15, 23, 30));
+    const { availabilityMap } = buildAvailabilityMap(
+      makeAvailability({ maxDaysAhead: 1, timezone: 'Europe/Sofia' }),
+      lateUtc,
+    );
+    expect(Object.keys(availabilityMap)).toEqual(['2026-04-16', '2026-04-17']);
+  });
+
+  it('has no free desks while the space is closed', () => {
+    const { availabilityMap, halfDayMaps } = buildAvailabilityMap(
+      makeAvailability({ maxDaysAhead: 2, closures: [{ startDate: '2026-04-16', endDate: '2026-04-16', label: 'Staff day' }] }),
+      now,
+    );
+    expect(availabilityMap['2026-04-15']).toBe(2);
+    expect(availabilityMap['2026-04-16']).toBe(0);
+    expect(halfDayMaps.pm['2026-04-16']).toBe(0);
+  });
+});
+
+describe('soldOutDates', () => {
+  it('lists open days without a free desk, past the window included', () => {
+    const availabilityMap = { '2026-04-15': 5, '2026-04-16': 0, '2026-04-17': 3 };
+    // April 18-19 is a weekend; April 20 is beyond the map
+    expect(soldOutDates('2026-04-15', '2026-04-20', availabilityMap, [1, 2, 3, 4, 5]))
+      .toEqual(['2026-04-16', '2026-04-20']);
+    expect(soldOutDates('2026-04-15', '2026-04-15', availabilityMap, [1, 2, 3, 4, 5])).toEqual([]);
+  });
 });
 
 describe('isDateDisabled', () => {
@@ -124,6 +186,14 @@ describe('isDateDisabled', () => {
     })).toBe(true);
   });
 
+  it('disables closed days', () => {
+    expect(isDateDisabled({
+      date: new Date(2026, 3, 20),
+      today, maxDate, workingDays, availabilityMap,
+      closures: [{ startDate: '2026-04-20', endDate: '2026-04-20' }],
+    })).toBe(true);
+  });
+
   it('disables fully booked days', () => {
     expect(isDateDisabled({
       date: new Date(2026, 3, 16),
@@ -170,6 +240,25 @@ describe('pickRandomAvailableDesk', () => {
     expect(pick?.deskId).toBe('d1'); // rng=0 → first free desk
   });
 
+  it('picks a desk whose other half is taken for a half day', () => {
+    const booked = buildBookedSet([
+      { deskId: 'd1', date: '2026-04-15', dayPart: 'am' },
+      { deskId: 'd2', date: '2026-04-15' },
+      { deskId: 'd3', date: '2026-04-15', dayPart: 'pm' },
+    ]);
+    expect(pickRandomAvailableDesk(desks, booked, '2026-04-15', () => 0, 'pm')?.deskId).toBe('d1');
+    expect(pickRandomAvailableDesk(desks, booked, '2026-04-15', () => 0, 'full')).toBeNull();
+  });
+
+  it('sells desks whose hold has run out', () => {
+    const booked = buildBookedSet([
+      { deskId: 'd1', date: '2026-04-15', heldUntil: '2026-04-14T09:00:00Z' },
+      { deskId: 'd2', date: '2026-04-15', heldUntil: '2026-04-14T18:00:00Z' },
+      { deskId: 'd3', date: '2026-04-15' },
+    ], [], new Date('2026-04-14T12:00:00Z'));
+    expect(pickRandomAvailableDesk(desks, booked, '2026-04-15', () => 0)?.deskId).toBe('d1');
+  });
+
   it('uses injected rng deterministically', () => {
     const booked = new Set<string>();
     const pickFirst = pickRandomAvailableDesk(desks, booked, '2026-04-15', () => 0);
@@ -1,26 +1,75 @@
-import type { PublicAvailability } from '@shared/schema';
-import { formatLocalDate } from './dateUtils';
-import { isNonWorkingDay } from './workingDays';
+import type { DayPart, PublicAvailability } from '@shared/schema';
+import { formatLocalDate, generateDateRange, todayString } from './dateUtils';
+import { ClosureRange, findClosure, isNonWorkingDay } from './workingDays';
+import { filterDesksByAttributes } from './deskAttributes';
+import { isHoldExpired } from './holds';
+
+/**
+ * Key for a taken slot in a booked set: `deskId:date` for a whole day,
+ * `deskId:date:am` / `deskId:date:pm` for half days.
+ */
+export function bookedSlotKey(deskId: string, date: string, dayPart?: DayPart | null): string {
+  return !dayPart || dayPart === 'full' ? `${deskId}:${date}` : `${deskId}:${date}:${dayPart}`;
+}
+
+/**
+ * Out-of-service desk-days go in as whole-day keys, so they are never sold.
+ * Holds that ran out by `now` are left out: their desks can be sold again.
+ */
+export function buildBookedSet(
+  bookedSlots: PublicAvailability['bookedSlots'],
+  blockedSlots: PublicAvailability['blockedSlots'] = [],
+  now: Date = new Date(),
+): Set<string> {
+  const set = new Set(bookedSlots
+    .filter(s => !isHoldExpired({ status: 'booked', heldUntil: s.heldUntil }, now))
+    .map(s => bookedSlotKey(s.deskId, s.date, s.dayPart)));
+  for (const s of blockedSlots ?? []) set.add(bookedSlotKey(s.deskId, s.date));
+  return set;
+}
+
+/**
+ * Whether a desk can still be sold for `dayPart` on `date`. A whole day needs
+ * both halves free; a half needs only itself and no whole-day booking.
+ */
+export function isDeskFree(bookedSet: Set<string>, deskId: string, date: string, dayPart: DayPart = 'full'): boolean {
+  if (bookedSet.has(bookedSlotKey(deskId, date))) return false;
+  if (dayPart === 'full') {
+    return !bookedSet.has(bookedSlotKey(deskId, date, 'am')) && !bookedSet.has(bookedSlotKey(deskId, date, 'pm'));
+  }
+  return !bookedSet.has(bookedSlotKey(deskId, date, dayPart));
+}
 
 /**
  * Builds a per-day map of free-desk counts for the booking window [now, now + maxDaysAhead].
  * Used by the public and member self-booking pages to gate calendar selection.
+ * `availabilityMap` counts desks free all day; `halfDayMaps` count desks free
+ * for the morning and for the afternoon. With `requiredAttributes`, only desks
+ * that have all of them are counted. Days the space is closed
+ * (`org.closures`) have no free desks.
  *
+ * The window starts on the organization's current date (`org.timezone`).
  * `now` is parameterized so callers and tests can freeze the reference date.
  */
 export function buildAvailabilityMap(
   availability: PublicAvailability,
   now: Date = new Date(),
-): { availabilityMap: Record<string, number>; maxDate: Date } {
-  const { org, rooms, bookedSlots } = availability;
-  const bookedSet = new Set(bookedSlots.map(s => `${s.deskId}:${s.date}`));
-  const allDesks = rooms.flatMap(r => r.desks);
+  requiredAttributes: readonly string[] = [],
+): {
+  availabilityMap: Record<string, number>;
+  halfDayMaps: Record<'am' | 'pm', Record<string, number>>;
+  maxDate: Date;
+} {
+  const { org, rooms, bookedSlots, blockedSlots } = availability;
+  const bookedSet = buildBookedSet(bookedSlots, blockedSlots, now);
+  const allDesks = filterDesksByAttributes(rooms.flatMap(r => r.desks), requiredAttributes);
   const totalDesks = allDesks.length;
 
-  const today = new Date(now);
-  today.setHours(0, 0, 0, 0);
+  // Midnight of the organization's current date
+  const today = new Date(todayString(org.timezone, now) + 'T00:00:00');
 
   const map: Record<string, number> = {};
+  const halfDayMaps: Record<'am' | 'pm', Record<string, number>> = { am: {}, pm: {} };
   const maxDate = new Date(today);
   maxDate.setDate(today.getDate() + org.maxDaysAhead);
 
@@ -28,16 +77,25 @@ export function buildAvailabilityMap(
     const d = new Date(today);
     d.setDate(today.getDate() + i);
     const dateStr = formatLocalDate(d);
-    const bookedCount = allDesks.filter(desk => bookedSet.has(`${desk.deskId}:${dateStr}`)).length;
+    if (findClosure(org.closures, dateStr)) {
+      map[dateStr] = 0;
+      halfDayMaps.am[dateStr] = 0;
+      halfDayMaps.pm[dateStr] = 0;
+      continue;
+    }
+    const bookedCount = allDesks.filter(desk => !isDeskFree(bookedSet, desk.deskId, dateStr)).length;
     map[dateStr] = totalDesks - bookedCount;
+    for (const part of ['am', 'pm'] as const) {
+      halfDayMaps[part][dateStr] = allDesks.filter(desk => isDeskFree(bookedSet, desk.deskId, dateStr, part)).length;
+    }
   }
 
-  return { availabilityMap: map, maxDate };
+  return { availabilityMap: map, halfDayMaps, maxDate };
 }
 
 /**
  * Returns true when the given date should be disabled in the booking calendar:
- * out of range, a non-working day, or fully booked.
+ * out of range, a non-working day or closure, or fully booked.
  */
 export function isDateDisabled(params: {
   date: Date;
@@ -45,26 +103,46 @@ export function isDateDisabled(params: {
   maxDate: Date;
   workingDays: number[];
   availabilityMap: Record<string, number>;
+  closures?: readonly ClosureRange[];
 }): boolean {
-  const { date, today, maxDate, workingDays, availabilityMap } = params;
+  const { date, today, maxDate, workingDays, availabilityMap, closures } = params;
   if (date < today || date > maxDate) return true;
   const dateStr = formatLocalDate(date);
-  if (isNonWorkingDay(dateStr, workingDays)) return true;
+  if (isNonWorkingDay(dateStr, workingDays, closures)) return true;
   if ((availabilityMap[dateStr] ?? 0) <= 0) return true;
   return false;
 }
 
 /**
- * Picks a random desk that is available (not in `bookedSet`) for the given date.
- * Returns null when no desks are free. RNG is injectable for deterministic tests.
+ * Open days between the two dates with no desk left — the days a visitor can
+ * join the waiting list for. Days past the booking window count as sold out,
+ * since they can't be booked online either.
+ */
+export function soldOutDates(
+  startDate: string,
+  endDate: string,
+  availabilityMap: Record<string, number>,
+  workingDays: number[],
+  closures?: readonly ClosureRange[],
+): string[] {
+  return generateDateRange(startDate, endDate).filter(date =>
+    !isNonWorkingDay(date, workingDays, closures) && (availabilityMap[date] ?? 0) <= 0,
+  );
+}
+
+/**
+ * Picks a random desk that is available (not in `bookedSet`) for the given date
+ * and part of the day. Returns null when no desks are free. RNG is injectable
+ * for deterministic tests.
  */
 export function pickRandomAvailableDesk<D extends { deskId: string }>(
   desks: D[],
   bookedSet: Set<string>,
   date: string,
   rng: () => number = Math.random,
+  dayPart: DayPart = 'full',
 ): D | null {
-  const available = desks.filter(desk => !bookedSet.has(`${desk.deskId}:${date}`));
+  const available = desks.filter(desk => isDeskFree(bookedSet, desk.deskId, date, dayPart));
   if (available.length === 0) return null;
   return available[Math.floor(rng() * available.length)];
 }
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BookingConflictError,
+  findBookingConflicts,
+  isBookingConflictError,
+  toBookingConflictError,
+} from './bookingConflicts';
+import type { DeskBooking } from '@shared/schema';
+
+function makeBooking(deskId: string, date: string, overrides: Partial<DeskBooking> = {}): DeskBooking {
+  return {
+    id: `${deskId}-${date}`,
+    deskId,
+    date,
+    startDate: date,
+    endDate: date,
+    status: 'booked',
+    personName: 'Alice',
+    createdAt: '2026-03-01T10:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('findBookingConflicts', () => {
+  it('treats empty, available and frozen slots as free', () => {
+    const incoming = [
+      makeBooking('d1', '2026-03-02', { createdAt: '2026-03-05T09:00:00.000Z' }),
+      makeBooking('d1', '2026-03-03', { createdAt: '2026-03-05T09:00:00.000Z' }),
+      makeBooking('d1', '2026-03-04', { createdAt: '2026-03-05T09:00:00.000Z' }),
+    ];
+    const existing = {
+      'd1-2026-03-02': null,
+      'd1-2026-03-03': makeBooking('d1', '2026-03-03', { status: 'available' }),
+      'd1-2026-03-04': makeBooking('d1', '2026-03-04', { isFrozen: true }),
+    };
+    expect(findBookingConflicts(incoming, existing)).toEqual([]);
+  });
+
+  it('lets the owning booking rewrite its own slot', () => {
+    const incoming = [makeBooking('d1', '2026-03-02', { personName: 'Alice Smith' })];
+    const existing = {
+      'd1-2026-03-02': makeBooking('d1', '2026-03-02', { createdAt: '2026-03-01T10:00:00+00:00' }),
+    };
+    expect(findBookingConflicts(incoming, existing)).toEqual([]);
+  });
+
+  it('reports slots held by a different booking', () => {
+    const bob = makeBooking('d1', '2026-03-02', { personName: 'Bob', createdAt: '2026-03-04T08:00:00.000Z' });
+    const incoming = [makeBooking('d1', '2026-03-02'), makeBooking('d1', '2026-03-03')];
+    expect(findBookingConflicts(incoming, { 'd1-2026-03-02': bob })).toEqual([bob]);
+  });
+
+  it('lets morning and afternoon passes share a desk', () => {
+    const morning = makeBooking('d1', '2026-03-02', { personName: 'Bob', dayPart: 'am', createdAt: '2026-03-04T08:00:00.000Z' });
+    const afternoon = makeBooking('d1', '2026-03-02', { dayPart: 'pm' });
+    const fullDay = makeBooking('d1', '2026-03-02');
+    const existing = { 'd1-2026-03-02-am': morning };
+    expect(findBookingConflicts([afternoon], existing)).toEqual([]);
+    expect(findBookingConflicts([fullDay], existing)).toEqual([morning]);
+  });
+});
+
+describe('toBookingConflictError', () => {
+  it('reads the slot from a unique violation', () => {
+    const error = toBookingConflictError({
+      code: '23505',
+      message: 'duplicate key value violates unique constraint "desk_bookings_org_desk_date_key"',
+      details: 'Key (organization_id, desk_id, date)=(9f0c, room1-desk3, 2026-03-02) already exists.',
+    });
+    expect(error).toBeInstanceOf(BookingConflictError);
+    expect(error?.conflictingBooking).toEqual({ deskId: 'room1-desk3', date: '2026-03-02' });
+  });
+
+  it('reads the slot from an overlapping half-day booking', () => {
+    const error = toBookingConflictError({
+      code: '23P01',
+      message: 'conflicting key value violates exclusion constraint "desk_bookings_no_overlap"',
+      details:
+        'Key (organization_id, desk_id, date, desk_day_span(day_part))=(9f0c, room1-desk3, 2026-03-02, [0,2)) conflicts with existing key (organization_id, desk_id, date, desk_day_span(day_part))=(9f0c, room1-desk3, 2026-03-02, [0,1)).',
+    });
+    expect(error?.conflictingBooking).toEqual({ deskId: 'room1-desk3', date: '2026-03-02' });
+  });
+
+  it('falls back to the attempted slots when the detail is missing', () => {
+    const error = toBookingConflictError({ code: '23505', message: 'conflict' }, [
+      { deskId: 'd1', date: '2026-03-03' },
+      { deskId: 'd2', date: '2026-03-02' },
+    ]);
+    expect(error?.dates).toEqual(['2026-03-02', '2026-03-03']);
+  });
+
+  it('ignores other errors', () => {
+    expect(toBookingConflictError({ code: '42501', message: 'permission denied' })).toBeNull();
+    expect(toBookingConflictError(new Error('boom'))).toBeNull();
+    expect(isBookingConflictError(new BookingConflictError([]))).toBe(true);
+  });
+});
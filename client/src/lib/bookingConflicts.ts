@@ -0,0 +1,127 @@
+import type { DeskBooking } from '@shared/schema';
+import { dayPartOf, overlappingSlotKeys } from './dayParts';
+
+/**
+ * Double-booking protection for desk_bookings writes.
+ *
+ * Staff writes upsert on a per-slot id, so without a check a second manager
+ * silently overwrites the first. Before writing, SupabaseDataStore and
+ * BrowserDataStore compare the incoming rows against what is stored now and
+ * reject the write when a slot was taken by a different booking. Supabase
+ * saves then go through the save_desk_bookings RPC, which repeats the check
+ * under a row lock. Inserts from the public and member pages rely on the
+ * desk_bookings_no_overlap exclusion constraint alone; both server errors are
+ * mapped to the same error here.
+ */
+
+/** A booking occupying a slot the caller tried to write. Rows recovered from a
+ *  unique violation only know their desk and date. */
+export type ConflictingBooking = Pick<DeskBooking, 'deskId' | 'date'> & Partial<DeskBooking>;
+
+export class BookingConflictError extends Error {
+  readonly conflicts: ConflictingBooking[];
+
+  constructor(conflicts: ConflictingBooking[]) {
+    const first = conflicts[0];
+    super(
+      first
+        ? `Booking conflict: desk ${first.deskId} is already taken on ${first.date}`
+        : 'Booking conflict: desk is already taken',
+    );
+    this.name = 'BookingConflictError';
+    this.conflicts = conflicts;
+  }
+
+  /** The first booking standing in the way. */
+  get conflictingBooking(): ConflictingBooking | undefined {
+    return this.conflicts[0];
+  }
+
+  /** Distinct dates with a conflict, sorted. */
+  get dates(): string[] {
+    return Array.from(new Set(this.conflicts.map((c) => c.date))).sort();
+  }
+}
+
+export function isBookingConflictError(error: unknown): error is BookingConflictError {
+  return error instanceof BookingConflictError
+    || (error instanceof Error && error.name === 'BookingConflictError');
+}
+
+function sameCreatedAt(a: string | undefined, b: string | undefined): boolean {
+  if (!a || !b) return false;
+  // Postgres and the browser serialise timestamps differently
+  const ta = Date.parse(a);
+  const tb = Date.parse(b);
+  return Number.isNaN(ta) || Number.isNaN(tb) ? a === b : ta === tb;
+}
+
+/**
+ * Returns the stored rows that an incoming write would clobber. A slot is free
+ * when it has no row, an 'available' one, or a frozen plan day (paused plans
+ * release their desk). An occupied slot may still be written by the booking
+ * that owns it, which callers signal by carrying the stored row's `createdAt`
+ * over to the edited row. A half-day row only clashes with the same half or
+ * a full-day row, so `existing` must hold every part of the desk's day.
+ */
+export function findBookingConflicts(
+  incoming: Pick<DeskBooking, 'deskId' | 'date' | 'createdAt' | 'dayPart'>[],
+  existing: Record<string, DeskBooking | null>,
+): DeskBooking[] {
+  const conflicts: DeskBooking[] = [];
+  for (const booking of incoming) {
+    for (const key of overlappingSlotKeys(booking.deskId, booking.date, dayPartOf(booking))) {
+      const current = existing[key];
+      if (!current || current.status === 'available' || current.isFrozen) continue;
+      if (sameCreatedAt(current.createdAt, booking.createdAt)) continue;
+      if (!conflicts.includes(current)) conflicts.push(current);
+    }
+  }
+  return conflicts;
+}
+
+/** User-facing explanation for the "desk just got taken" flow. */
+export function describeBookingConflict(error: BookingConflictError): string {
+  const lines = error.conflicts.slice(0, 5).map((c) => {
+    const formattedDate = new Date(c.date + 'T00:00:00').toLocaleDateString('en-US', {
+      weekday: 'short', month: 'short', day: 'numeric',
+    });
+    return c.personName
+      ? `${formattedDate}: ${c.personName} (${c.status})`
+      : `${formattedDate}: Desk is taken`;
+  });
+  if (error.conflicts.length > 5) lines.push(`…and ${error.conflicts.length - 5} more`);
+  return `This desk was just taken by another booking:\n\n${lines.join('\n')}\n\nPlease pick another desk or different dates.`;
+}
+
+const UNIQUE_VIOLATION = '23505';
+// Raised by the desk_bookings_no_overlap exclusion constraint
+const EXCLUSION_VIOLATION = '23P01';
+// e.g. Key (organization_id, desk_id, date)=(9f0c…, desk-3, 2026-03-02) already exists.
+// Exclusion keys also name desk_day_span(day_part), hence the lazy matches.
+const SLOT_KEY_DETAIL = /Key \((.*?)\)=\((.*?)\)(?:\s|\.|$)/;
+
+/**
+ * Maps a Postgres unique or exclusion violation on a desk slot to a
+ * BookingConflictError.
+ * Returns null for any other error. `attempted` is reported when the detail
+ * text doesn't name the slot (e.g. a violation raised by a trigger).
+ */
+export function toBookingConflictError(
+  error: unknown,
+  attempted: Pick<DeskBooking, 'deskId' | 'date'>[] = [],
+): BookingConflictError | null {
+  if (isBookingConflictError(error)) return error;
+  const pgError = error as { code?: string; details?: string; message?: string } | null;
+  if (!pgError || (pgError.code !== UNIQUE_VIOLATION && pgError.code !== EXCLUSION_VIOLATION)) return null;
+
+  const match = SLOT_KEY_DETAIL.exec(pgError.details || pgError.message || '');
+  if (match) {
+    const columns = match[1].split(',').map((c) => c.trim());
+    const values = match[2].split(',').map((v) => v.trim());
+    const deskId = values[columns.indexOf('desk_id')];
+    const date = values[columns.indexOf('date')];
+    if (deskId && date) return new BookingConflictError([{ deskId, date }]);
+  }
+  return new BookingConflictError(attempted.map(({ deskId, date }) => ({ deskId, date })));
+}
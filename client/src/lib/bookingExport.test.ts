@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import Papa from 'papaparse';
+import type { Desk, DeskBooking } from '@shared/schema';
+import { BookingExportFilters, buildExportRows, bookingsToCsv, monthPeriods, paymentLabel } from './bookingExport';
+import { generateDateRange } from './dateUtils';
+
+const desks: Desk[] = [
+  { id: 'room1-desk1', room: 1, number: 1, label: 'Desk 1', roomName: 'Main' },
+  { id: 'room2-desk1', room: 2, number: 1, label: 'Desk 4', roomName: 'Quiet' },
+];
+
+const filters: BookingExportFilters = {
+  startDate: '2026-03-01',
+  endDate: '2026-04-30',
+  rooms: [],
+  statuses: [],
+  planTypes: [],
+  clientId: null,
+};
+
+function run(deskId: string, startDate: string, endDate: string, overrides: Partial<DeskBooking> = {}): DeskBooking[] {
+  return generateDateRange(startDate, endDate).map(date => ({
+    id: `${deskId}-${date}`,
+    deskId,
+    date,
+    startDate,
+    endDate,
+    status: 'assigned',
+    personName: 'Alice',
+    price: 300,
+    currency: 'EUR',
+    createdAt: '',
+    ...overrides,
+  }));
+}
+
+describe('monthPeriods', () => {
+  it('slices a range at month ends', () => {
+    expect(monthPeriods('2026-01-20', '2026-03-05')).toEqual([
+      ['2026-01-20', '2026-01-31'],
+      ['2026-02-01', '2026-02-28'],
+      ['2026-03-01', '2026-03-05'],
+    ]);
+  });
+});
+
+describe('buildExportRows', () => {
+  it('collapses a run into one line per month with prorated prices', () => {
+    const rows = buildExportRows(run('room1-desk1', '2026-03-17', '2026-04-15', { planType: 'monthly' }), filters, {
+      desks,
+      defaultCurrency: 'USD',
+    });
+    expect(rows.map(r => [r.period, r.daysInPeriod, r.periodPrice])).toEqual([
+      ['2026-03', 15, 150],
+      ['2026-04', 15, 150],
+    ]);
+    expect(rows[0]).toMatchObject({ desk: 'Desk 1', room: 'Main', plan: 'Monthly', payment: 'Paid', totalDays: 30, price: 300, currency: 'EUR' });
+  });
+
+  it('prices only the part of a run inside the range', () => {
+    const rows = buildExportRows(run('room1-desk1', '2026-02-15', '2026-03-16'), { ...filters, endDate: '2026-03-31' }, {
+      desks,
+      defaultCurrency: 'EUR',
+    });
+    expect(rows.map(r => [r.period, r.daysInPeriod, r.periodPrice])).toEqual([['2026-03', 16, 160]]);
+  });
+
+  it('filters by room, status, plan and client', () => {
+    const bookings = [
+      ...run('room1-desk1', '2026-03-02', '2026-03-02', { clientId: '7', price: 20 }),
+      ...run('room2-desk1', '2026-03-02', '2026-03-06', { status: 'booked', planType: 'weekly' }),
+    ];
+    const desksFor = (f: Partial<BookingExportFilters>) =>
+      buildExportRows(bookings, { ...filters, ...f }, { desks, defaultCurrency: 'EUR' }).map(r => r.desk);
+    expect(desksFor({ rooms: [2] })).toEqual(['Desk 4']);
+    expect(desksFor({ statuses: ['assigned'] })).toEqual(['Desk 1']);
+    expect(desksFor({ planTypes: ['day_pass'] })).toEqual(['Desk 1']);
+    expect(desksFor({ clientId: '7' })).toEqual(['Desk 1']);
+  });
+
+  it('lists the invoices of any day of the run once', () => {
+    const invoiceLinks = new Map([
+      ['room1-desk1-2026-03-02', [{ invoiceNumber: '0000000012', status: 'paid' as const }]],
+      ['room1-desk1-2026-03-03', [{ invoiceNumber: '0000000012', status: 'paid' as const }]],
+    ]);
+    const rows = buildExportRows(run('room1-desk1', '2026-03-02', '2026-03-03'), filters, {
+      desks,
+      invoiceLinks,
+      defaultCurrency: 'EUR',
+    });
+    expect(rows[0].invoices).toBe('0000000012 (paid)');
+  });
+});
+
+describe('paymentLabel', () => {
+  it('prefers the online payment state', () => {
+    expect(paymentLabel({ status: 'booked', paymentStatus: 'refunded' })).toBe('Refunded');
+    expect(paymentLabel({ status: 'booked', heldUntil: '2026-03-02T10:00:00Z' })).toBe('Held');
+    expect(paymentLabel({ status: 'booked' })).toBe('Unpaid');
+  });
+});
+
+describe('bookingsToCsv', () => {
+  it('writes a header and one record per line', () => {
+    const rows = buildExportRows(run('room1-desk1', '2026-03-02', '2026-03-02', { personName: 'Smith, Jo' }), filters, {
+      desks,
+      defaultCurrency: 'EUR',
+    });
+    const parsed = Papa.parse<string[]>(bookingsToCsv(rows)).data;
+    expect(parsed[0][0]).toBe('Period');
+    expect(parsed[1][3]).toBe('Smith, Jo');
+  });
+
+  it('escapes values a spreadsheet would run as formulas', () => {
+    const rows = buildExportRows(run('room1-desk1', '2026-03-02', '2026-03-02', { personName: '=HYPERLINK("x")' }), filters, {
+      desks,
+      defaultCurrency: 'EUR',
+    });
+    const parsed = Papa.parse<string[]>(bookingsToCsv(rows)).data;
+    expect(parsed[1][3]).toBe('\'=HYPERLINK("x")');
+  });
+});
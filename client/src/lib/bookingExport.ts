@@ -0,0 +1,204 @@
+import Papa from 'papaparse';
+import type { Client, Desk, DeskBooking, DeskStatus, InvoiceStatus, PlanType } from '@shared/schema';
+import { calculateProratedRevenue, revenueRun } from './revenueCalculations';
+import { planLabel } from './planDates';
+import { round2 } from './invoices';
+import { buildXlsx, XlsxCell } from './xlsx';
+
+/**
+ * Booking spreadsheets for the accountant. Day rows are collapsed back into
+ * runs, and a run spanning several months gets one line per month with its
+ * price prorated to that month, the way the revenue page counts it.
+ */
+
+export interface BookingExportFilters {
+  startDate: string;
+  endDate: string;
+  /** Legacy room numbers; empty for all rooms. */
+  rooms: number[];
+  /** Empty for both booked (unpaid) and assigned (paid). */
+  statuses: DeskStatus[];
+  /** Empty for all plans. */
+  planTypes: PlanType[];
+  clientId: string | null;
+}
+
+export interface InvoiceLink {
+  invoiceNumber: string;
+  status: InvoiceStatus;
+}
+
+export interface BookingExportRow {
+  /** Month of this line, YYYY-MM. */
+  period: string;
+  desk: string;
+  room: string;
+  person: string;
+  client: string;
+  startDate: string;
+  endDate: string;
+  plan: string;
+  payment: string;
+  totalDays: number;
+  daysInPeriod: number;
+  price: number;
+  periodPrice: number;
+  currency: string;
+  invoices: string;
+}
+
+interface BookingRun {
+  booking: DeskBooking;
+  startDate: string;
+  endDate: string;
+  rowIds: string[];
+}
+
+/** The plan a booking counts as: its own plan, else a day pass or a custom range. */
+export function exportPlanType(booking: Pick<DeskBooking, 'planType' | 'startDate' | 'endDate'>): PlanType {
+  return booking.planType ?? (booking.startDate === booking.endDate ? 'day_pass' : 'custom');
+}
+
+export function paymentLabel(booking: Pick<DeskBooking, 'status' | 'paymentStatus' | 'heldUntil'>): string {
+  if (booking.paymentStatus === 'refunded') return 'Refunded';
+  if (booking.paymentStatus === 'failed') return 'Payment failed';
+  if (booking.paymentStatus === 'paid') return 'Paid online';
+  if (booking.status === 'assigned') return 'Paid';
+  return booking.heldUntil ? 'Held' : 'Unpaid';
+}
+
+/** Day rows matching the filters, collapsed into runs (see revenueRun). */
+export function collapseRuns(
+  bookings: readonly DeskBooking[],
+  filters: BookingExportFilters,
+  desks: readonly Desk[],
+): BookingRun[] {
+  const roomOf = new Map(desks.map(d => [d.id, d.room]));
+  const runs = new Map<string, BookingRun>();
+
+  for (const booking of bookings) {
+    if (booking.isFrozen || booking.status === 'available') continue;
+    if (booking.date < filters.startDate || booking.date > filters.endDate) continue;
+    if (filters.rooms.length > 0 && !filters.rooms.includes(roomOf.get(booking.deskId) ?? -1)) continue;
+    if (filters.statuses.length > 0 && !filters.statuses.includes(booking.status)) continue;
+    if (filters.planTypes.length > 0 && !filters.planTypes.includes(exportPlanType(booking))) continue;
+    if (filters.clientId && booking.clientId !== filters.clientId) continue;
+
+    const run = revenueRun(booking as Parameters<typeof revenueRun>[0]);
+    const existing = runs.get(run.key);
+    if (existing) {
+      existing.rowIds.push(booking.id);
+    } else {
+      runs.set(run.key, { booking, startDate: run.startDate, endDate: run.endDate, rowIds: [booking.id] });
+    }
+  }
+
+  return Array.from(runs.values()).sort((a, b) =>
+    a.startDate.localeCompare(b.startDate) || a.booking.deskId.localeCompare(b.booking.deskId),
+  );
+}
+
+function localDate(date: string): Date {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(y, m - 1, d);
+}
+
+/** Month slices of start..end: [periodStart, periodEnd] pairs, both YYYY-MM-DD. */
+export function monthPeriods(startDate: string, endDate: string): [string, string][] {
+  const periods: [string, string][] = [];
+  let start = startDate;
+  while (start <= endDate) {
+    const [y, m] = start.split('-').map(Number);
+    const lastDay = new Date(y, m, 0).getDate();
+    const monthEnd = `${start.slice(0, 7)}-${String(lastDay).padStart(2, '0')}`;
+    const end = monthEnd < endDate ? monthEnd : endDate;
+    periods.push([start, end]);
+    const next = new Date(y, m, 1);
+    start = `${next.getFullYear()}-${String(next.getMonth() + 1).padStart(2, '0')}-01`;
+  }
+  return periods;
+}
+
+export function buildExportRows(
+  bookings: readonly DeskBooking[],
+  filters: BookingExportFilters,
+  context: {
+    desks: readonly Desk[];
+    clients?: readonly Client[];
+    invoiceLinks?: ReadonlyMap<string, InvoiceLink[]>;
+    defaultCurrency: string;
+  },
+): BookingExportRow[] {
+  const deskById = new Map(context.desks.map(d => [d.id, d]));
+  const clientName = new Map((context.clients ?? []).map(c => [c.id, c.name]));
+  const rows: BookingExportRow[] = [];
+
+  for (const run of collapseRuns(bookings, filters, context.desks)) {
+    const { booking } = run;
+    const desk = deskById.get(booking.deskId);
+    const invoices = Array.from(new Map(
+      run.rowIds.flatMap(id => context.invoiceLinks?.get(id) ?? []).map(link => [link.invoiceNumber, link]),
+    ).values());
+    // Only the part of the run inside the exported range is priced
+    const from = run.startDate > filters.startDate ? run.startDate : filters.startDate;
+    const to = run.endDate < filters.endDate ? run.endDate : filters.endDate;
+
+    for (const [periodStart, periodEnd] of monthPeriods(from, to)) {
+      const { totalBookingDays, daysInPeriod, proratedPrice } = calculateProratedRevenue(
+        { startDate: run.startDate, endDate: run.endDate, price: booking.price },
+        localDate(periodStart),
+        localDate(periodEnd),
+      );
+      rows.push({
+        period: periodStart.slice(0, 7),
+        desk: desk?.label ?? booking.deskId,
+        room: desk ? desk.roomName ?? `Room ${desk.room}` : '',
+        person: booking.personName ?? '',
+        client: booking.clientId ? clientName.get(booking.clientId) ?? '' : '',
+        startDate: run.startDate,
+        endDate: run.endDate,
+        plan: booking.isFlex ? 'Flex' : planLabel(exportPlanType(booking)),
+        payment: paymentLabel(booking),
+        totalDays: totalBookingDays,
+        daysInPeriod,
+        price: round2(booking.price ?? 0),
+        periodPrice: round2(proratedPrice),
+        currency: booking.currency ?? context.defaultCurrency,
+        invoices: invoices.map(link => `${link.invoiceNumber} (${link.status})`).join(', '),
+      });
+    }
+  }
+  return rows;
+}
+
+const COLUMNS: { header: string; value: (row: BookingExportRow) => XlsxCell }[] = [
+  { header: 'Period', value: r => r.period },
+  { header: 'Desk', value: r => r.desk },
+  { header: 'Room', value: r => r.room },
+  { header: 'Person', value: r => r.person },
+  { header: 'Client', value: r => r.client },
+  { header: 'Start date', value: r => r.startDate },
+  { header: 'End date', value: r => r.endDate },
+  { header: 'Plan', value: r => r.plan },
+  { header: 'Payment', value: r => r.payment },
+  { header: 'Total days', value: r => r.totalDays },
+  { header: 'Days in period', value: r => r.daysInPeriod },
+  { header: 'Booking price', value: r => r.price },
+  { header: 'Period price', value: r => r.periodPrice },
+  { header: 'Currency', value: r => r.currency },
+  { header: 'Invoices', value: r => r.invoices },
+];
+
+export function bookingsToCsv(rows: readonly BookingExportRow[]): string {
+  return Papa.unparse({
+    fields: COLUMNS.map(c => c.header),
+    data: rows.map(row => COLUMNS.map(c => c.value(row) ?? '')),
+  }, {
+    // Names and notes come from visitors; keep spreadsheets from running them as formulas
+    escapeFormulae: true,
+  });
+}
+
+export function bookingsToXlsx(rows: readonly BookingExportRow[]): Uint8Array {
+  return buildXlsx('Bookings', COLUMNS.map(c => c.header), rows.map(row => COLUMNS.map(c => c.value(row))));
+}
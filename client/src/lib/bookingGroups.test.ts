@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import type { BookingGroup, Desk, DeskBooking } from '@shared/schema';
+import {
+  buildGroupRows,
+  findGroupConflicts,
+  groupSpan,
+  groupTakenSet,
+  pickGroupDesks,
+  regroupRows,
+  seatPrices,
+} from './bookingGroups';
+
+const desks: Desk[] = [
+  { id: 'room1-desk1', room: 1, number: 1, label: 'Desk 1' },
+  { id: 'room1-desk2', room: 1, number: 2, label: 'Desk 2' },
+  { id: 'room1-desk3', room: 1, number: 3, label: 'Desk 3' },
+  { id: 'room1-desk4', room: 1, number: 4, label: 'Desk 4' },
+  { id: 'room2-desk1', room: 2, number: 5, label: 'Desk 5' },
+  { id: 'room2-desk2', room: 2, number: 6, label: 'Desk 6' },
+];
+
+const group: BookingGroup = {
+  id: '7',
+  name: 'Sprint week',
+  personName: 'Acme',
+  clientId: '3',
+  pricing: 'total',
+  price: 100,
+  currency: 'EUR',
+  createdAt: '2026-03-01T00:00:00.000Z',
+};
+
+function row(deskId: string, date: string, overrides: Partial<DeskBooking> = {}): DeskBooking {
+  return {
+    id: `${deskId}-${date}`,
+    deskId,
+    date,
+    startDate: date,
+    endDate: date,
+    status: 'booked',
+    personName: 'Bob',
+    createdAt: '2026-02-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('seatPrices', () => {
+  it('splits a total to the cent and repeats a per-seat price', () => {
+    expect(seatPrices('total', 100, 3)).toEqual([33.34, 33.33, 33.33]);
+    expect(seatPrices('per_seat', 25, 2)).toEqual([25, 25]);
+    expect(seatPrices('total', undefined, 2)).toEqual([undefined, undefined]);
+  });
+});
+
+describe('pickGroupDesks', () => {
+  const dates = ['2026-03-02', '2026-03-03'];
+
+  it('keeps the group in one room on neighbouring desks', () => {
+    const taken = groupTakenSet([row('room1-desk2', '2026-03-03')]);
+    expect(pickGroupDesks(desks, taken, dates, 2)?.map(d => d.id)).toEqual(['room1-desk3', 'room1-desk4']);
+    expect(pickGroupDesks(desks, taken, dates, 3)?.map(d => d.id)).toEqual(['room1-desk1', 'room1-desk3', 'room1-desk4']);
+  });
+
+  it('prefers desks that sit together on the floor plan', () => {
+    const points = new Map([
+      ['room1-desk1', { x: 0, y: 0, size: 60 }],
+      ['room1-desk2', { x: 500, y: 0, size: 60 }],
+      ['room1-desk3', { x: 0, y: 50, size: 60 }],
+      ['room1-desk4', { x: 500, y: 50, size: 60 }],
+    ]);
+    expect(pickGroupDesks(desks, new Set(), dates, 2, points)?.map(d => d.id)).toEqual(['room1-desk1', 'room1-desk3']);
+  });
+
+  it('returns null when too few desks are free', () => {
+    const taken = groupTakenSet(desks.slice(0, 5).map(d => row(d.id, '2026-03-02')));
+    expect(pickGroupDesks(desks, taken, dates, 2)).toBeNull();
+  });
+});
+
+describe('findGroupConflicts', () => {
+  it('ignores the group itself, free rows and frozen plans', () => {
+    const bookings = [
+      row('room1-desk1', '2026-03-02', { bookingGroupId: '7' }),
+      row('room1-desk1', '2026-03-03', { status: 'available' }),
+      row('room1-desk2', '2026-03-03', { isFrozen: true }),
+      row('room1-desk2', '2026-03-02'),
+    ];
+    const blocks = [{ id: 'b', deskId: 'room1-desk1', startDate: '2026-03-03', endDate: '2026-03-03', reason: 'event' as const, createdAt: '' }];
+
+    const conflicts = findGroupConflicts(['room1-desk1', 'room1-desk2'], '2026-03-02', '2026-03-03', bookings, blocks, '7');
+    expect(conflicts.map(c => [c.deskId, c.date, c.booking?.personName])).toEqual([
+      ['room1-desk1', '2026-03-03', undefined],
+      ['room1-desk2', '2026-03-02', 'Bob'],
+    ]);
+  });
+});
+
+describe('group rows', () => {
+  const rows = buildGroupRows(group, ['room1-desk1', 'room1-desk2'], '2026-03-02', '2026-03-04', 'booked', 'Sprint');
+
+  it('books every desk for every day under the group', () => {
+    expect(rows).toHaveLength(6);
+    expect(rows.every(r => r.bookingGroupId === '7' && r.clientId === '3' && r.createdAt === group.createdAt)).toBe(true);
+    expect(rows.filter(r => r.deskId === 'room1-desk1').map(r => r.price)).toEqual([50, 50, 50]);
+    expect(groupSpan(rows)).toEqual({ deskIds: ['room1-desk1', 'room1-desk2'], startDate: '2026-03-02', endDate: '2026-03-04' });
+  });
+
+  it('moves and extends every desk together', () => {
+    const moved = regroupRows(rows, '2026-03-09', '2026-03-11');
+    expect(moved.writes).toHaveLength(6);
+    expect(moved.writes.every(r => r.startDate === '2026-03-09' && r.bookingGroupId === '7')).toBe(true);
+    expect(moved.vacated).toHaveLength(6);
+
+    const extended = regroupRows(rows, '2026-03-02', '2026-03-05');
+    expect(extended.writes).toHaveLength(8);
+    expect(extended.vacated).toEqual([]);
+  });
+});
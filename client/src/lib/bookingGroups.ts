@@ -0,0 +1,220 @@
+import type { BookingGroup, DeskBlock, DeskBooking, DeskStatus, Desk, GroupPricing } from '@shared/schema';
+import { bookedSlotKey, isDeskFree } from './bookingAvailability';
+import { generateDateRange } from './dateUtils';
+import { findDeskBlock } from './deskBlocks';
+import { BookingRun, movedRunRows, runOf, vacatedSlots } from './bookingMoves';
+import { BookingSlot, slotKey } from './offlineQueue';
+
+/**
+ * Group bookings: a company books several desks for the same dates. Each desk
+ * is a regular full-day run carrying `bookingGroupId`, so the grid, stats and
+ * invoices treat it like any other booking; the helpers here pick the desks,
+ * split the price and move or resize all the runs at once.
+ */
+
+export const GROUP_PRICING_LABELS: Record<GroupPricing, string> = {
+  total: 'Total for the group',
+  per_seat: 'Per seat',
+};
+
+/**
+ * Price of each seat's run. A total is split to the cent, with the odd cents
+ * on the first seats so the seats add up to the total exactly.
+ */
+export function seatPrices(pricing: GroupPricing, price: number | undefined, seats: number): (number | undefined)[] {
+  if (price === undefined || seats <= 0) return Array(Math.max(0, seats)).fill(price);
+  if (pricing === 'per_seat') return Array(seats).fill(price);
+  const cents = Math.round(price * 100);
+  const base = Math.floor(cents / seats);
+  return Array.from({ length: seats }, (_, i) => (base + (i < cents - base * seats ? 1 : 0)) / 100);
+}
+
+/** Centre and size of a desk on the floor plan, keyed by the desk's legacy id. */
+export type DeskPoint = { x: number; y: number; size: number };
+
+// Desks in different rooms are never "next to" each other
+const OTHER_ROOM = 1_000_000;
+
+function deskDistance(a: Desk, b: Desk, points: ReadonlyMap<string, DeskPoint>): number {
+  if (a.room !== b.room) return OTHER_ROOM + Math.abs(a.number - b.number);
+  const pa = points.get(a.id);
+  const pb = points.get(b.id);
+  // In desk sizes, so a desk beside another is about 1 apart, like the next number
+  if (pa && pb) return Math.hypot(pa.x - pb.x, pa.y - pb.y) / Math.max(1, pa.size, pb.size);
+  return Math.abs(a.number - b.number);
+}
+
+/**
+ * `seats` desks free on every date, as close together as possible: nearest
+ * on the floor plan where the desks have positions, otherwise neighbouring
+ * desk numbers in one room. Starting from each free desk in turn, the
+ * cluster grows by the desk closest to those already picked; the tightest
+ * cluster wins. Returned in desk order, or null when too few desks are free.
+ */
+export function pickGroupDesks(
+  desks: readonly Desk[],
+  taken: Set<string>,
+  dates: readonly string[],
+  seats: number,
+  points: ReadonlyMap<string, DeskPoint> = new Map(),
+): Desk[] | null {
+  const free = desks.filter(d => dates.every(date => isDeskFree(taken, d.id, date)));
+  if (seats <= 0 || free.length < seats) return null;
+
+  let best: Desk[] | null = null;
+  let bestCost = Infinity;
+  for (const seed of free) {
+    const cluster = [seed];
+    let cost = 0;
+    while (cluster.length < seats) {
+      let next: Desk | null = null;
+      let nextCost = Infinity;
+      for (const desk of free) {
+        if (cluster.includes(desk)) continue;
+        const added = cluster.reduce((sum, member) => sum + deskDistance(member, desk, points), 0);
+        if (added < nextCost) {
+          next = desk;
+          nextCost = added;
+        }
+      }
+      cluster.push(next!);
+      cost += nextCost;
+    }
+    if (cost < bestCost) {
+      best = cluster;
+      bestCost = cost;
+    }
+  }
+  return best && desks.filter(d => best!.includes(d));
+}
+
+/**
+ * Taken slots for picking group desks: live bookings and blocked desk-days.
+ * Rows of `exceptGroupId` are left out so a group can be re-placed over
+ * its own desks.
+ */
+export function groupTakenSet(
+  bookings: readonly DeskBooking[],
+  blocks: readonly DeskBlock[] = [],
+  exceptGroupId?: string | null,
+): Set<string> {
+  const taken = new Set<string>();
+  for (const b of bookings) {
+    if (b.status === 'available' || b.isFrozen) continue;
+    if (exceptGroupId && b.bookingGroupId === exceptGroupId) continue;
+    taken.add(bookedSlotKey(b.deskId, b.date, b.dayPart));
+  }
+  for (const block of blocks) {
+    for (const date of generateDateRange(block.startDate, block.endDate)) taken.add(bookedSlotKey(block.deskId, date));
+  }
+  return taken;
+}
+
+export interface GroupConflict {
+  deskId: string;
+  date: string;
+  /** Who holds the desk; unset when the desk is out of service. */
+  booking?: DeskBooking;
+}
+
+/** Desk-days in the range that another booking or a block stands in the way of. */
+export function findGroupConflicts(
+  deskIds: readonly string[],
+  startDate: string,
+  endDate: string,
+  bookings: readonly DeskBooking[],
+  blocks: readonly DeskBlock[] = [],
+  groupId?: string | null,
+): GroupConflict[] {
+  const conflicts: GroupConflict[] = [];
+  for (const deskId of deskIds) {
+    for (const date of generateDateRange(startDate, endDate)) {
+      const booking = bookings.find(b =>
+        b.deskId === deskId
+        && b.date === date
+        && b.status !== 'available'
+        && !b.isFrozen
+        && !(groupId && b.bookingGroupId === groupId)
+      );
+      if (booking) conflicts.push({ deskId, date, booking });
+      else if (findDeskBlock(blocks, deskId, date)) conflicts.push({ deskId, date });
+    }
+  }
+  return conflicts;
+}
+
+/** One full-day run per desk, each at its seat price. */
+export function buildGroupRows(
+  group: BookingGroup,
+  deskIds: readonly string[],
+  startDate: string,
+  endDate: string,
+  status: DeskStatus,
+  title?: string,
+): DeskBooking[] {
+  const prices = seatPrices(group.pricing, group.price, deskIds.length);
+  return deskIds.flatMap((deskId, seat) => generateDateRange(startDate, endDate).map(date => ({
+    id: `${deskId}-${date}`,
+    deskId,
+    date,
+    startDate,
+    endDate,
+    status,
+    personName: group.personName,
+    title,
+    price: prices[seat],
+    currency: group.currency,
+    clientId: group.clientId,
+    bookingGroupId: group.id,
+    createdAt: group.createdAt,
+  })));
+}
+
+/** The group's rows split into their desk runs, in desk order. */
+export function groupRuns(rows: readonly DeskBooking[]): { run: BookingRun; rows: DeskBooking[] }[] {
+  const runs = new Map<string, { run: BookingRun; rows: DeskBooking[] }>();
+  for (const row of rows) {
+    const run = runOf(row);
+    const key = `${run.deskId}:${run.startDate}:${run.endDate}:${run.dayPart ?? 'full'}`;
+    if (!runs.has(key)) runs.set(key, { run, rows: [] });
+    runs.get(key)!.rows.push(row);
+  }
+  return Array.from(runs.values()).sort((a, b) =>
+    a.run.deskId.localeCompare(b.run.deskId) || a.run.startDate.localeCompare(b.run.startDate)
+  );
+}
+
+/** Desks and overall dates of a group, from its rows. */
+export function groupSpan(rows: readonly DeskBooking[]): { deskIds: string[]; startDate: string; endDate: string } | null {
+  if (rows.length === 0) return null;
+  return {
+    deskIds: Array.from(new Set(rows.map(r => r.deskId))).sort(),
+    startDate: rows.reduce((min, r) => (r.startDate < min ? r.startDate : min), rows[0].startDate),
+    endDate: rows.reduce((max, r) => (r.endDate > max ? r.endDate : max), rows[0].endDate),
+  };
+}
+
+/**
+ * Puts every desk of a group on `startDate`..`endDate`: a move when the length
+ * stays, an extension or a shortening otherwise. Prices stay as they are,
+ * like any resized booking. A desk whose run was split by hand comes back
+ * as one run.
+ */
+export function regroupRows(
+  rows: readonly DeskBooking[],
+  startDate: string,
+  endDate: string,
+): { writes: DeskBooking[]; vacated: BookingSlot[] } {
+  const writes = new Map<string, DeskBooking>();
+  const vacated = new Map<string, BookingSlot>();
+  for (const { run, rows: runRows } of groupRuns(rows)) {
+    const target = { ...run, startDate, endDate };
+    for (const row of movedRunRows(runRows, run, target)) {
+      const key = slotKey(row.deskId, row.date, row.dayPart);
+      if (!writes.has(key)) writes.set(key, row);
+    }
+    for (const slot of vacatedSlots(run, target)) vacated.set(slotKey(slot.deskId, slot.date, slot.dayPart), slot);
+  }
+  for (const key of writes.keys()) vacated.delete(key);
+  return { writes: Array.from(writes.values()), vacated: Array.from(vacated.values()) };
+}
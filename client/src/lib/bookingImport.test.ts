@@ -0,0 +1,247 @@
+import { describe, it, expect } from 'vitest';
+import type { Client, DeskBooking, OrgDesk } from '@shared/schema';
+import {
+  autoMapBookingColumns,
+  detectDateOrder,
+  gridRuns,
+  importRowsToCommit,
+  matchClient,
+  matchDesks,
+  parseAmount,
+  parseBookingSheet,
+  parseSheetDate,
+  planBookingImport,
+  rowRuns,
+  type ImportRunOptions,
+} from './bookingImport';
+
+const options: ImportRunOptions = { dateOrder: 'dmy', year: 2026, workingDays: [1, 2, 3, 4, 5] };
+
+const desks: OrgDesk[] = [
+  { id: 'd1', roomId: 'r1', organizationId: 'o', label: 'Window 1', deskId: 'room1-desk1', sortOrder: 0, attributes: [], createdAt: '' },
+  { id: 'd2', roomId: 'r1', organizationId: 'o', label: 'Window 2', deskId: 'room1-desk2', sortOrder: 1, attributes: [], createdAt: '' },
+];
+
+const clients: Client[] = [
+  { id: '7', organizationId: 'o', name: 'Alice Smith', createdAt: '' } as Client,
+];
+
+function booking(deskId: string, date: string, personName: string): DeskBooking {
+  return {
+    id: `${deskId}-${date}`,
+    deskId,
+    date,
+    startDate: date,
+    endDate: date,
+    status: 'booked',
+    personName,
+    createdAt: '2026-01-01T00:00:00.000Z',
+  };
+}
+
+describe('parseSheetDate', () => {
+  it('reads ISO dates', () => {
+    expect(parseSheetDate('2026-03-02', 'dmy', 2026)).toBe('2026-03-02');
+  });
+
+  it('reads numeric dates in the given order', () => {
+    expect(parseSheetDate('03/04/2026', 'dmy', 2026)).toBe('2026-04-03');
+    expect(parseSheetDate('03/04/2026', 'mdy', 2026)).toBe('2026-03-04');
+    expect(parseSheetDate('3.4.26', 'dmy', 2026)).toBe('2026-04-03');
+  });
+
+  it('fills in the year when the sheet leaves it out', () => {
+    expect(parseSheetDate('3/4', 'dmy', 2027)).toBe('2027-04-03');
+    expect(parseSheetDate('Mon 2 Mar', 'dmy', 2026)).toBe('2026-03-02');
+    expect(parseSheetDate('March 2', 'dmy', 2026)).toBe('2026-03-02');
+  });
+
+  it('ignores a time after the date', () => {
+    expect(parseSheetDate('2026-03-02T09:00:00Z', 'dmy', 2026)).toBe('2026-03-02');
+    expect(parseSheetDate('02/03/2026 18:30', 'dmy', 2026)).toBe('2026-03-02');
+  });
+
+  it('rejects text and impossible dates', () => {
+    expect(parseSheetDate('Desk', 'dmy', 2026)).toBeNull();
+    expect(parseSheetDate('31/02/2026', 'dmy', 2026)).toBeNull();
+    expect(parseSheetDate('', 'dmy', 2026)).toBeNull();
+  });
+});
+
+describe('parseAmount', () => {
+  it('reads either decimal separator', () => {
+    expect(parseAmount('1,234.50')).toBe(1234.5);
+    expect(parseAmount('1.234,50')).toBe(1234.5);
+    expect(parseAmount('€ 120')).toBe(120);
+    expect(parseAmount('12,5')).toBe(12.5);
+  });
+
+  it('treats a lone separator before three digits as thousands', () => {
+    expect(parseAmount('1,200')).toBe(1200);
+    expect(parseAmount('1.200.000')).toBe(1200000);
+  });
+
+  it('returns undefined without digits', () => {
+    expect(parseAmount('')).toBeUndefined();
+    expect(parseAmount('n/a')).toBeUndefined();
+  });
+});
+
+describe('detectDateOrder', () => {
+  it('is day-first unless a value only fits month-first', () => {
+    expect(detectDateOrder(['01/02', '02/02'])).toBe('dmy');
+    expect(detectDateOrder(['03/02', '03/13'])).toBe('mdy');
+    expect(detectDateOrder(['13/03', '14/03'])).toBe('dmy');
+  });
+});
+
+describe('parseBookingSheet', () => {
+  it('recognises a grid by its date header', () => {
+    const sheet = parseBookingSheet('Desk,2/3,3/3,4/3\nWindow 1,Alice,Alice,\n', 2026);
+    expect(sheet.layout).toBe('grid');
+    expect(sheet.headers).toEqual(['Desk', '2/3', '3/3', '4/3']);
+    expect(sheet.rows).toEqual([['Window 1', 'Alice', 'Alice', '']]);
+  });
+
+  it('treats anything else as one row per booking', () => {
+    const sheet = parseBookingSheet('desk;name;start;end\nWindow 1;Alice;2026-03-02;2026-03-06', 2026);
+    expect(sheet.layout).toBe('rows');
+    expect(sheet.rows).toHaveLength(1);
+  });
+});
+
+describe('autoMapBookingColumns', () => {
+  it('maps known headers once each', () => {
+    expect(autoMapBookingColumns(['Desk', 'Name', 'From', 'Until', 'Notes', 'Person']))
+      .toEqual(['desk', 'name', 'startDate', 'endDate', 'ignore', 'ignore']);
+  });
+});
+
+describe('gridRuns', () => {
+  it('collapses consecutive cells with the same name into a run', () => {
+    const sheet = parseBookingSheet(
+      'Desk,2/3,3/3,4/3,5/3\nWindow 1,Alice,alice ,Bob,Bob\nWindow 2,,Carol,,Carol',
+      2026,
+    );
+    const runs = gridRuns(sheet, options);
+    expect(runs.map(r => [r.deskLabel, r.name, r.startDate, r.endDate])).toEqual([
+      ['Window 1', 'Alice', '2026-03-02', '2026-03-03'],
+      ['Window 1', 'Bob', '2026-03-04', '2026-03-05'],
+      ['Window 2', 'Carol', '2026-03-03', '2026-03-03'],
+      ['Window 2', 'Carol', '2026-03-05', '2026-03-05'],
+    ]);
+  });
+
+  it('joins a run across a weekend', () => {
+    // Friday 6 March and Monday 9 March, with or without weekend columns
+    const withoutWeekend = parseBookingSheet('Desk,6/3,9/3\nWindow 1,Alice,Alice', 2026);
+    const withWeekend = parseBookingSheet('Desk,6/3,7/3,8/3,9/3\nWindow 1,Alice,,,Alice', 2026);
+    for (const sheet of [withoutWeekend, withWeekend]) {
+      const [run] = gridRuns(sheet, options);
+      expect([run.startDate, run.endDate]).toEqual(['2026-03-06', '2026-03-09']);
+    }
+  });
+});
+
+describe('rowRuns', () => {
+  it('keeps start and end rows as they are', () => {
+    const sheet = parseBookingSheet('desk,name,start,end,price\nWindow 1,Alice,02/03/2026,31/03/2026,250', 2026);
+    const runs = rowRuns(sheet, autoMapBookingColumns(sheet.headers), options);
+    expect(runs).toEqual([{
+      row: 0,
+      deskLabel: 'Window 1',
+      name: 'Alice',
+      startDate: '2026-03-02',
+      endDate: '2026-03-31',
+      price: 250,
+      errors: [],
+    }]);
+  });
+
+  it('collapses single-day rows and adds up their prices', () => {
+    const sheet = parseBookingSheet('desk,name,date,price\nWindow 1,Alice,2026-03-02,10\nWindow 1,Alice,2026-03-03,10', 2026);
+    const runs = rowRuns(sheet, autoMapBookingColumns(sheet.headers), options);
+    expect(runs.map(r => [r.startDate, r.endDate, r.price])).toEqual([['2026-03-02', '2026-03-03', 20]]);
+  });
+
+  it('reports rows it cannot read', () => {
+    const sheet = parseBookingSheet('desk,name,start,end\n,Alice,someday,\nWindow 1,Bob,2026-03-05,2026-03-02', 2026);
+    const runs = rowRuns(sheet, autoMapBookingColumns(sheet.headers), options);
+    expect(runs[0].errors).toEqual(['Missing desk', 'Unreadable date "someday"']);
+    expect(runs[1].errors).toEqual(['End date is before start date']);
+  });
+});
+
+describe('matchDesks and matchClient', () => {
+  it('matches desks by label or legacy id, ignoring case and spacing', () => {
+    expect(matchDesks(['window  1', 'ROOM1-DESK2', 'Kitchen'], desks)).toEqual({
+      'window  1': 'd1',
+      'ROOM1-DESK2': 'd2',
+      Kitchen: null,
+    });
+  });
+
+  it('matches clients by name', () => {
+    expect(matchClient(' alice  smith', clients)?.id).toBe('7');
+    expect(matchClient('Bob', clients)).toBeNull();
+  });
+});
+
+describe('planBookingImport', () => {
+  const runs = gridRuns(
+    parseBookingSheet('Desk,2/3,3/3,4/3\nWindow 1,Alice Smith,Alice Smith,\nWindow 2,Bob,Bob,Bob\nKitchen,Dan,,', 2026),
+    options,
+  );
+  const deskMapping = matchDesks(['Window 1', 'Window 2', 'Kitchen'], desks);
+
+  it('marks runs ready, unmapped or in conflict with existing bookings', () => {
+    const plan = planBookingImport(runs, {
+      deskMapping,
+      desks,
+      clients,
+      bookings: [booking('room1-desk2', '2026-03-04', 'Eve'), { ...booking('room1-desk1', '2026-03-02', ''), status: 'available' }],
+    });
+    expect(plan.runs.map(r => [r.name, r.status, r.reason])).toEqual([
+      ['Alice Smith', 'ready', null],
+      ['Bob', 'conflict', 'Taken by Eve on 2026-03-04'],
+      ['Dan', 'unmapped', 'No desk chosen for "Kitchen"'],
+    ]);
+    expect(plan.runs[0].clientId).toBe('7');
+    expect(plan).toMatchObject({ readyCount: 1, conflictCount: 1, unmappedCount: 1, errorCount: 0, matchedClientCount: 1 });
+  });
+
+  it('flags runs of the sheet that overlap each other', () => {
+    const plan = planBookingImport(runs, {
+      deskMapping: { ...deskMapping, Kitchen: 'd1' },
+      desks,
+      clients,
+      bookings: [],
+    });
+    expect(plan.runs[2]).toMatchObject({ status: 'conflict', reason: 'Overlaps Alice Smith on row 1' });
+  });
+
+  it('turns ready runs into day rows', () => {
+    const plan = planBookingImport(runs, { deskMapping, desks, clients, bookings: [] });
+    const rows = importRowsToCommit(plan, { status: 'assigned', currency: 'EUR', now: new Date('2026-02-01T00:00:00.000Z') });
+    expect(rows.map(r => r.id)).toEqual([
+      'room1-desk1-2026-03-02',
+      'room1-desk1-2026-03-03',
+      'room1-desk2-2026-03-02',
+      'room1-desk2-2026-03-03',
+      'room1-desk2-2026-03-04',
+    ]);
+    expect(rows[0]).toEqual({
+      id: 'room1-desk1-2026-03-02',
+      deskId: 'room1-desk1',
+      date: '2026-03-02',
+      startDate: '2026-03-02',
+      endDate: '2026-03-03',
+      status: 'assigned',
+      personName: 'Alice Smith',
+      price: undefined,
+      currency: 'EUR',
+      clientId: '7',
+      createdAt: '2026-02-01T00:00:00.000Z',
+    });
+  });
+});
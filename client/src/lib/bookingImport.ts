@@ -0,0 +1,453 @@
+import Papa from 'papaparse';
+import type { Client, DeskBlock, DeskBooking, DeskStatus, OrgDesk } from '@shared/schema';
+import { formatYMD, generateDateRange } from './dateUtils';
+import { findGroupConflicts } from './bookingGroups';
+import { ClosureRange, isOpenDay } from './workingDays';
+
+/**
+ * Booking import from spreadsheets. Two layouts are understood:
+ *
+ * - a grid, the way most spaces plan in Google Sheets: one row per desk, one
+ *   column per date, the person's name in each booked cell;
+ * - one row per booking, with desk, name and either a date or a start and
+ *   end date.
+ *
+ * Either way the cells are collapsed into runs (same desk, same name, days
+ * in a row) and each run becomes a regular multi-day booking.
+ */
+
+export type BookingSheetLayout = 'grid' | 'rows';
+
+/** How to read ambiguous numeric dates such as 03/04/2026. */
+export type DateOrder = 'dmy' | 'mdy';
+
+export type BookingImportField =
+  | 'desk'
+  | 'name'
+  | 'date'
+  | 'startDate'
+  | 'endDate'
+  | 'price'
+  | 'ignore';
+
+export const BOOKING_IMPORT_FIELD_LABELS: Record<BookingImportField, string> = {
+  desk: 'Desk',
+  name: 'Name',
+  date: 'Date (one day per row)',
+  startDate: 'Start date',
+  endDate: 'End date',
+  price: 'Price',
+  ignore: '(ignore column)',
+};
+
+const HEADER_ALIASES: Record<Exclude<BookingImportField, 'ignore'>, string[]> = {
+  desk: ['desk', 'desk name', 'desk label', 'seat', 'place', 'spot'],
+  name: ['name', 'person', 'member', 'client', 'booked by', 'who', 'full name'],
+  date: ['date', 'day'],
+  startDate: ['start', 'start date', 'from', 'begin', 'check-in', 'check in'],
+  endDate: ['end', 'end date', 'until', 'to', 'check-out', 'check out'],
+  price: ['price', 'amount', 'total', 'fee'],
+};
+
+const ROW_LIMIT = 500;
+const PREVIEW_LIMIT = 50;
+
+export const BOOKING_IMPORT_LIMITS = { ROW_LIMIT, PREVIEW_LIMIT } as const;
+
+export interface BookingSheet {
+  layout: BookingSheetLayout;
+  headers: string[];
+  rows: string[][];
+  tooManyRows: boolean;
+  rowCount: number;
+}
+
+export interface ImportRun {
+  /** Zero-based row of the sheet the run starts on. */
+  row: number;
+  deskLabel: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+  price?: number;
+  errors: string[];
+}
+
+export interface ImportRunOptions {
+  dateOrder: DateOrder;
+  /** Year for dates written without one, e.g. "3 Mar". */
+  year: number;
+  workingDays?: number[] | null;
+  closures?: readonly ClosureRange[] | null;
+}
+
+export type PlannedRunStatus = 'ready' | 'error' | 'unmapped' | 'conflict';
+
+export interface PlannedRun extends ImportRun {
+  /** Legacy desk id ("room1-desk1") the run is booked on. */
+  deskId: string | null;
+  clientId: string | null;
+  status: PlannedRunStatus;
+  /** Why the run can't be imported, for unmapped and conflicting runs. */
+  reason: string | null;
+}
+
+export interface BookingImportPlan {
+  runs: PlannedRun[];
+  readyCount: number;
+  errorCount: number;
+  unmappedCount: number;
+  conflictCount: number;
+  /** Runs that matched an existing client by name. */
+  matchedClientCount: number;
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const WEEKDAY_PREFIX = /^(mon|tue|wed|thu|fri|sat|sun)[a-z]*\.?,?\s+/;
+const NUMERIC_DATE = /^(\d{1,2})[/.-](\d{1,2})(?:[/.-](\d{2}|\d{4}))?\.?$/;
+// Exports from booking tools carry a time: "2026-03-02T09:00:00Z", "02/03/2026 09:00"
+const TIME_SUFFIX = /(?:t|,?\s+)\d{1,2}:\d{2}.*$/;
+
+function toYMD(year: number, month: number, day: number): string | null {
+  if (month < 1 || month > 12 || day < 1) return null;
+  if (day > new Date(year, month, 0).getDate()) return null;
+  return formatYMD(year, month, day);
+}
+
+function monthIndex(name: string): number {
+  return MONTHS.indexOf(name.slice(0, 3)) + 1;
+}
+
+/**
+ * A spreadsheet date as YYYY-MM-DD, or null when the text isn't a date.
+ * Takes ISO dates, numeric dates in either order (with "/", "." or "-"),
+ * and English month names, optionally after a weekday ("Mon 3 Mar"). A time
+ * after the date is ignored.
+ */
+export function parseSheetDate(value: string, dateOrder: DateOrder, year: number): string | null {
+  const text = value.trim().toLowerCase().replace(WEEKDAY_PREFIX, '').replace(TIME_SUFFIX, '');
+  if (!text) return null;
+
+  let m = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/);
+  if (m) return toYMD(Number(m[1]), Number(m[2]), Number(m[3]));
+
+  m = text.match(NUMERIC_DATE);
+  if (m) {
+    const [a, b] = [Number(m[1]), Number(m[2])];
+    const y = m[3] ? (m[3].length === 2 ? 2000 + Number(m[3]) : Number(m[3])) : year;
+    return dateOrder === 'dmy' ? toYMD(y, b, a) : toYMD(y, a, b);
+  }
+
+  m = text.match(/^(\d{1,2})(?:st|nd|rd|th)?\s+([a-z]+)\.?,?(?:\s+(\d{4}))?$/);
+  if (m && monthIndex(m[2]) > 0) return toYMD(m[3] ? Number(m[3]) : year, monthIndex(m[2]), Number(m[1]));
+
+  m = text.match(/^([a-z]+)\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?(?:\s+(\d{4}))?$/);
+  if (m && monthIndex(m[1]) > 0) return toYMD(m[3] ? Number(m[3]) : year, monthIndex(m[1]), Number(m[2]));
+
+  return null;
+}
+
+/**
+ * Day-first unless some value only makes sense month-first (13/01 can only
+ * be day-first, 01/13 only month-first).
+ */
+export function detectDateOrder(values: readonly string[]): DateOrder {
+  for (const value of values) {
+    const m = value.trim().toLowerCase().replace(WEEKDAY_PREFIX, '').match(NUMERIC_DATE);
+    if (!m) continue;
+    if (Number(m[1]) > 12) return 'dmy';
+    if (Number(m[2]) > 12) return 'mdy';
+  }
+  return 'dmy';
+}
+
+/**
+ * Reads the pasted or uploaded text. It's a grid when most header cells after
+ * the first one are dates.
+ */
+export function parseBookingSheet(input: string, year: number): BookingSheet {
+  const trimmed = input.replace(/^﻿/, '');
+  const result = Papa.parse<string[]>(trimmed, {
+    header: false,
+    skipEmptyLines: 'greedy',
+    transform: (v) => (typeof v === 'string' ? v.trim() : v),
+  });
+
+  const [headers = [], ...allRows] = result.data as string[][];
+  const rowCount = allRows.length;
+  const tooManyRows = rowCount > ROW_LIMIT;
+  const rows = tooManyRows ? allRows.slice(0, ROW_LIMIT) : allRows;
+
+  const dateCells = headers.slice(1).filter(h => h.length > 0);
+  const order = detectDateOrder(dateCells);
+  const dateCount = dateCells.filter(h => parseSheetDate(h, order, year) !== null).length;
+  const layout: BookingSheetLayout = dateCount >= 2 && dateCount * 2 >= dateCells.length ? 'grid' : 'rows';
+
+  return { layout, headers, rows, tooManyRows, rowCount };
+}
+
+export function autoMapBookingColumns(headers: readonly string[]): BookingImportField[] {
+  const used = new Set<BookingImportField>();
+  return headers.map(header => {
+    const normalized = header.toLowerCase().trim();
+    for (const [field, aliases] of Object.entries(HEADER_ALIASES) as [
+      Exclude<BookingImportField, 'ignore'>,
+      string[],
+    ][]) {
+      if (!used.has(field) && aliases.includes(normalized)) {
+        used.add(field);
+        return field;
+      }
+    }
+    return 'ignore';
+  });
+}
+
+interface ImportCell {
+  row: number;
+  deskLabel: string;
+  name: string;
+  date: string;
+  price?: number;
+}
+
+function nameKey(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+// Cells of the same desk and name join into one run when only closed days
+// lie between them, so a Friday and the next Monday are one booking.
+function collapseCells(cells: readonly ImportCell[], options: ImportRunOptions): ImportRun[] {
+  const sorted = [...cells].sort((a, b) =>
+    a.deskLabel.localeCompare(b.deskLabel) || a.date.localeCompare(b.date),
+  );
+  const runs: ImportRun[] = [];
+  const openRuns = new Map<string, ImportRun>();
+
+  for (const cell of sorted) {
+    const key = `${cell.deskLabel.toLowerCase()}|${nameKey(cell.name)}`;
+    const run = openRuns.get(key);
+    const gap = run ? generateDateRange(run.endDate, cell.date).slice(1, -1) : [];
+    const joins = run
+      && cell.date > run.endDate
+      && gap.every(date => !isOpenDay(date, options.workingDays, options.closures));
+
+    if (run && joins) {
+      run.endDate = cell.date;
+      if (cell.price !== undefined) run.price = (run.price ?? 0) + cell.price;
+    } else {
+      const next: ImportRun = {
+        row: cell.row,
+        deskLabel: cell.deskLabel,
+        name: cell.name,
+        startDate: cell.date,
+        endDate: cell.date,
+        price: cell.price,
+        errors: [],
+      };
+      runs.push(next);
+      openRuns.set(key, next);
+    }
+  }
+  return runs.sort((a, b) => a.row - b.row || a.startDate.localeCompare(b.startDate));
+}
+
+/** Runs of a grid sheet: the first column names the desk, the header row the dates. */
+export function gridRuns(sheet: BookingSheet, options: ImportRunOptions): ImportRun[] {
+  const dates = sheet.headers.map((h, i) => (i === 0 ? null : parseSheetDate(h, options.dateOrder, options.year)));
+  const cells: ImportCell[] = [];
+
+  sheet.rows.forEach((cols, row) => {
+    const deskLabel = cols[0] ?? '';
+    if (!deskLabel) return;
+    cols.forEach((value, col) => {
+      const date = dates[col];
+      if (date && value) cells.push({ row, deskLabel, name: value, date });
+    });
+  });
+  return collapseCells(cells, options);
+}
+
+/**
+ * A money amount as written in a spreadsheet: "1,234.50", "1.234,50",
+ * "€ 120". The last "." or "," is the decimal point, unless it is the only
+ * kind of separator and three digits follow it, as in "1,200".
+ */
+export function parseAmount(value: string | undefined): number | undefined {
+  const text = (value ?? '').replace(/[^\d.,-]/g, '');
+  if (!/\d/.test(text)) return undefined;
+  const lastSep = Math.max(text.lastIndexOf('.'), text.lastIndexOf(','));
+  let normalized = text;
+  if (lastSep >= 0) {
+    const other = text[lastSep] === '.' ? ',' : '.';
+    const decimals = text.slice(lastSep + 1);
+    const thousandsOnly = decimals.length === 3 && !text.includes(other);
+    const whole = text.slice(0, lastSep).replace(/[.,]/g, '');
+    normalized = thousandsOnly ? `${whole}${decimals}` : `${whole}.${decimals}`;
+  }
+  const n = Number(normalized);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+/**
+ * Runs of a row-per-booking sheet. Rows with a single date are collapsed like
+ * grid cells; rows with a start and end date are runs already.
+ */
+export function rowRuns(
+  sheet: BookingSheet,
+  mapping: readonly BookingImportField[],
+  options: ImportRunOptions,
+): ImportRun[] {
+  const column = (field: BookingImportField) => mapping.indexOf(field);
+  const value = (cols: string[], field: BookingImportField) => {
+    const i = column(field);
+    return i >= 0 ? (cols[i] ?? '').trim() : '';
+  };
+  const date = (text: string) => (text ? parseSheetDate(text, options.dateOrder, options.year) : null);
+
+  const cells: ImportCell[] = [];
+  const runs: ImportRun[] = [];
+
+  sheet.rows.forEach((cols, row) => {
+    const deskLabel = value(cols, 'desk');
+    const name = value(cols, 'name');
+    const price = parseAmount(value(cols, 'price'));
+    const rawStart = value(cols, 'startDate') || value(cols, 'date');
+    const rawEnd = value(cols, 'endDate');
+    const startDate = date(rawStart);
+    const endDate = rawEnd ? date(rawEnd) : startDate;
+
+    const errors: string[] = [];
+    if (!deskLabel) errors.push('Missing desk');
+    if (!name) errors.push('Missing name');
+    if (!rawStart) errors.push('Missing date');
+    else if (!startDate) errors.push(`Unreadable date "${rawStart}"`);
+    if (rawEnd && !endDate) errors.push(`Unreadable end date "${rawEnd}"`);
+    if (startDate && endDate && endDate < startDate) errors.push('End date is before start date');
+
+    if (errors.length === 0 && startDate === endDate && !rawEnd) {
+      cells.push({ row, deskLabel, name, date: startDate!, price });
+    } else {
+      runs.push({
+        row,
+        deskLabel,
+        name,
+        startDate: startDate ?? '',
+        endDate: endDate ?? '',
+        price,
+        errors,
+      });
+    }
+  });
+
+  return [...runs, ...collapseCells(cells, options)].sort((a, b) =>
+    a.row - b.row || a.startDate.localeCompare(b.startDate),
+  );
+}
+
+function deskKey(label: string): string {
+  return label.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Suggested desk for each label in the sheet: an OrgDesk whose label or
+ * legacy id matches, ignoring case and extra spaces. Unknown labels map to null.
+ */
+export function matchDesks(labels: readonly string[], desks: readonly OrgDesk[]): Record<string, string | null> {
+  const byKey = new Map<string, OrgDesk>();
+  for (const desk of desks) {
+    byKey.set(deskKey(desk.deskId), desk);
+    byKey.set(deskKey(desk.label), desk);
+  }
+  const mapping: Record<string, string | null> = {};
+  for (const label of labels) mapping[label] = byKey.get(deskKey(label))?.id ?? null;
+  return mapping;
+}
+
+export function uniqueDeskLabels(runs: readonly ImportRun[]): string[] {
+  return Array.from(new Set(runs.map(r => r.deskLabel).filter(Boolean)));
+}
+
+/** The client whose name matches, ignoring case and extra spaces. */
+export function matchClient(name: string, clients: readonly Client[]): Client | null {
+  const key = nameKey(name);
+  return clients.find(c => nameKey(c.name) === key) ?? null;
+}
+
+/**
+ * Dry run: where each run would land and what stands in its way. A run
+ * conflicts with an existing booking or desk block on its desk, or with an
+ * earlier run of the same sheet.
+ */
+export function planBookingImport(
+  runs: readonly ImportRun[],
+  context: {
+    deskMapping: Readonly<Record<string, string | null>>;
+    desks: readonly OrgDesk[];
+    clients: readonly Client[];
+    bookings: readonly DeskBooking[];
+    blocks?: readonly DeskBlock[];
+  },
+): BookingImportPlan {
+  const legacyId = new Map(context.desks.map(d => [d.id, d.deskId]));
+  const accepted: PlannedRun[] = [];
+
+  const planned = runs.map((run): PlannedRun => {
+    const orgDeskId = context.deskMapping[run.deskLabel] ?? null;
+    const deskId = orgDeskId ? legacyId.get(orgDeskId) ?? null : null;
+    const clientId = run.name ? matchClient(run.name, context.clients)?.id ?? null : null;
+    const base = { ...run, deskId, clientId };
+
+    if (run.errors.length > 0) return { ...base, status: 'error', reason: null };
+    if (!deskId) return { ...base, status: 'unmapped', reason: `No desk chosen for "${run.deskLabel}"` };
+
+    const [existing] = findGroupConflicts([deskId], run.startDate, run.endDate, context.bookings, context.blocks);
+    if (existing) {
+      const reason = existing.booking
+        ? `Taken by ${existing.booking.personName || 'another booking'} on ${existing.date}`
+        : `Desk blocked on ${existing.date}`;
+      return { ...base, status: 'conflict', reason };
+    }
+    const overlap = accepted.find(r =>
+      r.deskId === deskId && r.startDate <= run.endDate && run.startDate <= r.endDate,
+    );
+    if (overlap) return { ...base, status: 'conflict', reason: `Overlaps ${overlap.name} on row ${overlap.row + 1}` };
+
+    const ready: PlannedRun = { ...base, status: 'ready', reason: null };
+    accepted.push(ready);
+    return ready;
+  });
+
+  const count = (status: PlannedRunStatus) => planned.filter(r => r.status === status).length;
+  return {
+    runs: planned,
+    readyCount: count('ready'),
+    errorCount: count('error'),
+    unmappedCount: count('unmapped'),
+    conflictCount: count('conflict'),
+    matchedClientCount: planned.filter(r => r.status === 'ready' && r.clientId).length,
+  };
+}
+
+/** Day rows of every ready run, for bulkUpdateBookings. */
+export function importRowsToCommit(
+  plan: BookingImportPlan,
+  options: { status: Exclude<DeskStatus, 'available'>; currency: DeskBooking['currency']; now?: Date },
+): DeskBooking[] {
+  const createdAt = (options.now ?? new Date()).toISOString();
+  return plan.runs
+    .filter(run => run.status === 'ready' && run.deskId)
+    .flatMap(run => generateDateRange(run.startDate, run.endDate).map((date): DeskBooking => ({
+      id: `${run.deskId}-${date}`,
+      deskId: run.deskId!,
+      date,
+      startDate: run.startDate,
+      endDate: run.endDate,
+      status: options.status,
+      personName: run.name,
+      price: run.price,
+      currency: options.currency,
+      clientId: run.clientId ?? undefined,
+      createdAt,
+    })));
+}
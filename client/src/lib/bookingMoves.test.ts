@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import type { DeskBlock, DeskBooking } from '@shared/schema';
+import { dragTarget, movedRunRows, runMoveConflicts, vacatedSlots } from './bookingMoves';
+
+function row(deskId: string, date: string, overrides: Partial<DeskBooking> = {}): DeskBooking {
+  return {
+    id: `${deskId}-${date}`,
+    deskId,
+    date,
+    startDate: '2026-03-02',
+    endDate: '2026-03-04',
+    status: 'assigned',
+    personName: 'Alice',
+    price: 30,
+    currency: 'EUR',
+    createdAt: '2026-02-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+const run = { deskId: 'room1-desk1', startDate: '2026-03-02', endDate: '2026-03-04' };
+const rows = ['2026-03-02', '2026-03-03', '2026-03-04'].map((date) => row('room1-desk1', date));
+
+describe('dragTarget', () => {
+  it('keeps the grabbed day under the pointer when moving', () => {
+    expect(dragTarget(run, 'move', '2026-03-03', 'room1-desk2', '2026-03-05')).toEqual({
+      deskId: 'room1-desk2',
+      startDate: '2026-03-04',
+      endDate: '2026-03-06',
+      dayPart: undefined,
+    });
+    expect(dragTarget(run, 'move', '2026-03-03', 'room1-desk1', '2026-03-01')).toMatchObject({
+      startDate: '2026-02-28',
+      endDate: '2026-03-02',
+    });
+  });
+
+  it('resizes from either edge but not past the other one', () => {
+    expect(dragTarget(run, 'end', '2026-03-04', 'room1-desk2', '2026-03-08')).toEqual({ ...run, endDate: '2026-03-08' });
+    expect(dragTarget(run, 'start', '2026-03-02', 'room1-desk1', '2026-03-03')).toEqual({ ...run, startDate: '2026-03-03' });
+    expect(dragTarget(run, 'start', '2026-03-02', 'room1-desk1', '2026-03-05')).toBeNull();
+    expect(dragTarget({ ...run, endDate: run.startDate, dayPart: 'am' }, 'end', run.startDate, run.deskId, '2026-03-03')).toBeNull();
+  });
+});
+
+describe('movedRunRows', () => {
+  it('carries each day over to the new desk and dates', () => {
+    const source = rows.map((r, i) => ({ ...r, status: i === 0 ? 'assigned' as const : 'booked' as const }));
+    const moved = movedRunRows(source, run, { deskId: 'room1-desk2', startDate: '2026-03-09', endDate: '2026-03-11' });
+
+    expect(moved.map((b) => [b.id, b.status])).toEqual([
+      ['room1-desk2-2026-03-09', 'assigned'],
+      ['room1-desk2-2026-03-10', 'booked'],
+      ['room1-desk2-2026-03-11', 'booked'],
+    ]);
+    expect(moved.every((b) => b.startDate === '2026-03-09' && b.endDate === '2026-03-11')).toBe(true);
+    expect(moved[0].createdAt).toBe(rows[0].createdAt);
+  });
+
+  it('fills days added by a resize from the nearest end', () => {
+    const source = rows.map((r) => (r.date === '2026-03-04' ? { ...r, title: 'Last day' } : r));
+    const moved = movedRunRows(source, run, { ...run, endDate: '2026-03-06' });
+
+    expect(moved.map((b) => b.date)).toEqual(['2026-03-02', '2026-03-03', '2026-03-04', '2026-03-05', '2026-03-06']);
+    expect(moved[4].title).toBe('Last day');
+    expect(vacatedSlots(run, { ...run, endDate: '2026-03-06' })).toEqual([]);
+  });
+
+  it('lists the slots a shortened or moved run leaves behind', () => {
+    expect(vacatedSlots(run, { ...run, startDate: '2026-03-03' })).toEqual([
+      { deskId: 'room1-desk1', date: '2026-03-02', dayPart: undefined },
+    ]);
+    expect(vacatedSlots(run, { ...run, deskId: 'room1-desk2' })).toHaveLength(3);
+  });
+});
+
+describe('runMoveConflicts', () => {
+  it('flags other bookings and blocks but not the run itself', () => {
+    const bookings: Record<string, DeskBooking> = {};
+    for (const r of rows) bookings[r.id] = r;
+    bookings['room1-desk1-2026-03-06'] = row('room1-desk1', '2026-03-06', {
+      personName: 'Bob',
+      startDate: '2026-03-06',
+      endDate: '2026-03-06',
+    });
+    const blocks: DeskBlock[] = [{
+      id: '1',
+      deskId: 'room1-desk1',
+      startDate: '2026-03-07',
+      endDate: '2026-03-07',
+      reason: 'maintenance',
+      createdAt: '',
+    }];
+
+    expect(runMoveConflicts(run, { ...run, startDate: '2026-03-03', endDate: '2026-03-05' }, bookings, blocks)).toEqual([]);
+    expect(runMoveConflicts(run, { ...run, startDate: '2026-03-05', endDate: '2026-03-07' }, bookings, blocks)).toEqual([
+      '2026-03-06',
+      '2026-03-07',
+    ]);
+  });
+});
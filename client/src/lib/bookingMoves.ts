@@ -0,0 +1,138 @@
+import type { DeskBlock, DeskBooking } from '@shared/schema';
+import { generateDateRange } from './dateUtils';
+import { addDays, daysBetweenInclusive } from './planDates';
+import { dayPartOf, isHalfDay, overlappingSlotKeys } from './dayParts';
+import { findDeskBlock } from './deskBlocks';
+import { BookingSlot, slotKey } from './offlineQueue';
+
+/**
+ * Drag-and-drop moves in the desk grid. A booking run — the day rows of one
+ * booking, sharing desk, part of the day and start/end dates — can be dragged
+ * to another desk or date, or have either end dragged to lengthen or shorten
+ * it. The helpers here work out where a drag lands, what stands in the way
+ * and which rows the data store writes.
+ */
+
+export type BookingRun = Pick<DeskBooking, 'deskId' | 'startDate' | 'endDate' | 'dayPart'>;
+
+/** What the drag grabbed: the whole run, or its first or last day. */
+export type RunDragMode = 'move' | 'start' | 'end';
+
+export function runOf(booking: DeskBooking): BookingRun {
+  return {
+    deskId: booking.deskId,
+    startDate: booking.startDate,
+    endDate: booking.endDate,
+    dayPart: isHalfDay(booking) ? booking.dayPart : undefined,
+  };
+}
+
+/** Whether a stored row is one of the run's day rows. */
+export function isRunRow(booking: DeskBooking, run: BookingRun): boolean {
+  return booking.deskId === run.deskId
+    && booking.startDate === run.startDate
+    && booking.endDate === run.endDate
+    && dayPartOf(booking) === dayPartOf(run)
+    && booking.date >= run.startDate
+    && booking.date <= run.endDate;
+}
+
+export function isSameRun(a: BookingRun, b: BookingRun): boolean {
+  return a.deskId === b.deskId
+    && a.startDate === b.startDate
+    && a.endDate === b.endDate
+    && dayPartOf(a) === dayPartOf(b);
+}
+
+/**
+ * Where a run ends up when the drag is released over (`deskId`, `date`).
+ * `grabDate` is the day the drag started on, so a run grabbed by its third
+ * day keeps that day under the pointer. Edges only resize on their own desk.
+ * Null when the drop makes no sense: an edge dragged past the other end, or
+ * a resize of a half-day booking, which is always a single day.
+ */
+export function dragTarget(
+  run: BookingRun,
+  mode: RunDragMode,
+  grabDate: string,
+  deskId: string,
+  date: string,
+): BookingRun | null {
+  if (mode === 'move') {
+    const shift = daysBetweenInclusive(grabDate, date) - 1;
+    return {
+      deskId,
+      startDate: addDays(run.startDate, shift),
+      endDate: addDays(run.endDate, shift),
+      dayPart: run.dayPart,
+    };
+  }
+  if (isHalfDay(run)) return null;
+  if (mode === 'start') {
+    return date <= run.endDate ? { ...run, startDate: date } : null;
+  }
+  return date >= run.startDate ? { ...run, endDate: date } : null;
+}
+
+/**
+ * The rows a run is rewritten as. A moved run carries each day's row over to
+ * the matching day of the new range; a resized run keeps its rows and copies
+ * the nearest end into the added days. Rows keep their `createdAt`, so the
+ * write is recognised as the same booking.
+ */
+export function movedRunRows(rows: readonly DeskBooking[], run: BookingRun, target: BookingRun): DeskBooking[] {
+  if (rows.length === 0) return [];
+  const byDate = new Map(rows.map((row) => [row.date, row]));
+  const sorted = [...rows].sort((a, b) => a.date.localeCompare(b.date));
+  const isMove = daysBetweenInclusive(run.startDate, run.endDate)
+    === daysBetweenInclusive(target.startDate, target.endDate);
+  const isMultiDay = target.startDate !== target.endDate;
+
+  return generateDateRange(target.startDate, target.endDate).map((date, index) => {
+    const sourceDate = isMove ? addDays(run.startDate, index) : date;
+    const source = byDate.get(sourceDate)
+      ?? (sourceDate < sorted[0].date ? sorted[0] : sorted[sorted.length - 1]);
+    return {
+      ...source,
+      id: slotKey(target.deskId, date, target.dayPart),
+      deskId: target.deskId,
+      date,
+      startDate: target.startDate,
+      endDate: target.endDate,
+      dayPart: target.dayPart,
+      // A single occurrence moved on its own stays part of its series
+      seriesId: isMultiDay ? undefined : source.seriesId,
+    };
+  });
+}
+
+/** Slots the run held that the move leaves empty. */
+export function vacatedSlots(run: BookingRun, target: BookingRun): BookingSlot[] {
+  const kept = new Set(generateDateRange(target.startDate, target.endDate).map((date) => slotKey(target.deskId, date, target.dayPart)));
+  return generateDateRange(run.startDate, run.endDate)
+    .filter((date) => !kept.has(slotKey(run.deskId, date, run.dayPart)))
+    .map((date) => ({ deskId: run.deskId, date, dayPart: run.dayPart }));
+}
+
+/**
+ * Dates in the target range that are taken by another booking or by an
+ * out-of-service block, sorted. The run's own rows never count, so a run can
+ * be nudged along its own desk.
+ */
+export function runMoveConflicts(
+  run: BookingRun,
+  target: BookingRun,
+  bookings: Record<string, DeskBooking>,
+  blocks: readonly DeskBlock[] = [],
+): string[] {
+  const conflicts: string[] = [];
+  for (const date of generateDateRange(target.startDate, target.endDate)) {
+    const taken = overlappingSlotKeys(target.deskId, date, dayPartOf(target)).some((key) => {
+      const current = bookings[key];
+      if (!current || current.status === 'available' || current.isFrozen) return false;
+      return !isRunRow(current, run);
+    });
+    if (taken || findDeskBlock(blocks, target.deskId, date)) conflicts.push(date);
+  }
+  return conflicts;
+}
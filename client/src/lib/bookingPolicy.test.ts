@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import type { BookingPolicy, DeskBooking } from '@shared/schema';
+import {
+  buildBookingFee,
+  describePolicy,
+  feeLineDescription,
+  lateCancellationFee,
+  noShowFee,
+  policyFee,
+  sumFees,
+} from './bookingPolicy';
+
+const policy: BookingPolicy = {
+  freeCancellationHours: 24,
+  lateCancellationFeeType: 'percent',
+  lateCancellationFee: 50,
+  noShowFeeType: 'fixed',
+  noShowFee: 15,
+};
+
+const booking: DeskBooking = {
+  id: 'room1-desk1-2026-03-10',
+  deskId: 'room1-desk1',
+  date: '2026-03-10',
+  startDate: '2026-03-10',
+  endDate: '2026-03-13',
+  status: 'booked',
+  personName: 'Alice',
+  clientId: '4',
+  price: 80,
+  currency: 'EUR',
+  createdAt: '2026-03-01T00:00:00.000Z',
+};
+
+describe('policyFee', () => {
+  it('takes a percentage of the price or the fixed amount', () => {
+    expect(policyFee('percent', 50, 33.33)).toBe(16.67);
+    expect(policyFee('percent', 50, undefined)).toBe(0);
+    expect(policyFee('fixed', 10, undefined)).toBe(10);
+    expect(policyFee('fixed', 0, 80)).toBe(0);
+  });
+});
+
+describe('lateCancellationFee', () => {
+  it('is free until the window before the first day closes in the space timezone', () => {
+    // Midnight of Mar 10 in Sofia is 22:00 UTC on Mar 9; the window closes a day earlier
+    expect(lateCancellationFee(policy, booking, new Date('2026-03-08T21:59:00Z'), 'Europe/Sofia')).toBe(0);
+    expect(lateCancellationFee(policy, booking, new Date('2026-03-08T22:00:00Z'), 'Europe/Sofia')).toBe(40);
+  });
+
+  it('charges nothing without a policy, for a free desk or once the booking ended', () => {
+    const late = new Date('2026-03-12T00:00:00Z');
+    expect(lateCancellationFee(null, booking, late)).toBe(0);
+    expect(lateCancellationFee(policy, { ...booking, status: 'available' }, late)).toBe(0);
+    expect(lateCancellationFee(policy, booking, new Date('2026-03-14T12:00:00Z'), 'Europe/Sofia')).toBe(0);
+  });
+});
+
+describe('noShowFee', () => {
+  it("charges on the missed day's share of the run price", () => {
+    expect(noShowFee(policy, booking)).toBe(15);
+    expect(noShowFee({ ...policy, noShowFeeType: 'percent', noShowFee: 100 }, booking)).toBe(20);
+  });
+});
+
+describe('fees', () => {
+  it('keeps who to bill and describes the line for the invoice', () => {
+    const fee = buildBookingFee('no_show', booking, '2026-03-11', 15);
+    expect(fee).toMatchObject({ kind: 'no_show', deskId: 'room1-desk1', date: '2026-03-11', clientId: '4', amount: 15, invoiceId: null });
+    expect(feeLineDescription(fee, 'Desk 1')).toBe('No-show fee, Desk 1, 11 Mar 2026');
+    expect(sumFees([fee, { ...fee, amount: 0.1 }, { ...fee, amount: 0.2 }])).toBe(15.3);
+  });
+});
+
+describe('describePolicy', () => {
+  it('writes the policy out unless the space has its own text', () => {
+    expect(describePolicy(policy, 'EUR')).toBe(
+      'Free cancellation up to 1 day before your booking starts. Later cancellations are charged 50% of the booking price. Not turning up is charged €15.00.',
+    );
+    expect(describePolicy({ ...policy, lateCancellationFee: 0, noShowFee: 0 }, 'EUR')).toBe('Cancellation is free.');
+    expect(describePolicy({ ...policy, text: ' Our rules. ' }, 'EUR')).toBe('Our rules.');
+    expect(describePolicy(null, 'EUR')).toBeNull();
+  });
+});
@@ -0,0 +1,114 @@
+import type { BookingFee, BookingFeeKind, BookingPolicy, DeskBooking, PolicyFeeType } from '@shared/schema';
+import { currencySymbol } from './settings';
+import { round2 } from './invoices';
+import { todayString } from './dateUtils';
+import { daysBetweenInclusive } from './planDates';
+import { revenueRun } from './revenueCalculations';
+import { hoursLabel, visitorChangeDeadline } from './visitorChanges';
+
+/**
+ * Cancellation and no-show fees. A space's policy gives a free cancellation
+ * window and the fees charged after it or for not turning up; the fee is
+ * recorded as its own item, billed on an invoice and counted apart from desk
+ * revenue.
+ */
+
+export const FEE_KIND_LABELS: Record<BookingFeeKind, string> = {
+  late_cancellation: 'Late cancellation',
+  no_show: 'No-show',
+};
+
+/** A percentage of `price`, or the fixed amount itself. */
+export function policyFee(type: PolicyFeeType, value: number, price: number | undefined): number {
+  if (!(value > 0)) return 0;
+  return type === 'fixed' ? round2(value) : round2(((price ?? 0) * value) / 100);
+}
+
+type FeeBooking = Pick<DeskBooking, 'deskId' | 'date' | 'startDate' | 'endDate' | 'status' | 'price' | 'seriesId' | 'dayPart'>;
+
+// The run the booking's price covers: its date range, or one day of a series
+function priceRun(booking: FeeBooking) {
+  return revenueRun(booking as Parameters<typeof revenueRun>[0]);
+}
+
+/**
+ * Fee for cancelling the booking at `now`: nothing before the free window
+ * closes (counted back from midnight of its first day in the space's
+ * timezone), the late cancellation fee on its whole price after. Removing a
+ * booking that has already ended cancels nothing and is free.
+ */
+export function lateCancellationFee(
+  policy: BookingPolicy | null | undefined,
+  booking: FeeBooking,
+  now: Date = new Date(),
+  timeZone?: string | null,
+): number {
+  if (!policy || booking.status === 'available') return 0;
+  const { startDate, endDate } = priceRun(booking);
+  if (now < visitorChangeDeadline(startDate, policy.freeCancellationHours, timeZone)) return 0;
+  if (todayString(timeZone, now) > endDate) return 0;
+  return policyFee(policy.lateCancellationFeeType, policy.lateCancellationFee, booking.price);
+}
+
+/** Fee for missing one day of the booking, on that day's share of its price. */
+export function noShowFee(policy: BookingPolicy | null | undefined, booking: FeeBooking): number {
+  if (!policy || booking.status === 'available') return 0;
+  const run = priceRun(booking);
+  const dayPrice = booking.price === undefined ? undefined : booking.price / daysBetweenInclusive(run.startDate, run.endDate);
+  return policyFee(policy.noShowFeeType, policy.noShowFee, dayPrice);
+}
+
+export function buildBookingFee(
+  kind: BookingFeeKind,
+  booking: Pick<DeskBooking, 'deskId' | 'personName' | 'clientId' | 'currency'>,
+  date: string,
+  amount: number,
+): BookingFee {
+  return {
+    id: `new-${Date.now()}`,
+    kind,
+    deskId: booking.deskId,
+    date,
+    personName: booking.personName,
+    clientId: booking.clientId,
+    amount,
+    currency: booking.currency,
+    invoiceId: null,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+function feeLabel(type: PolicyFeeType, value: number, currency: string, priceOf: string): string {
+  if (type === 'fixed') return `${currencySymbol(currency)}${value.toFixed(2)}`;
+  return value >= 100 ? `the full ${priceOf}` : `${value}% of the ${priceOf}`;
+}
+
+/** The policy as shown to visitors: the space's own text, or one written from the rules. */
+export function describePolicy(policy: BookingPolicy | null | undefined, currency: string): string | null {
+  if (!policy) return null;
+  if (policy.text?.trim()) return policy.text.trim();
+
+  const sentences: string[] = [];
+  if (policy.lateCancellationFee > 0) {
+    sentences.push(policy.freeCancellationHours > 0
+      ? `Free cancellation up to ${hoursLabel(policy.freeCancellationHours)} before your booking starts.`
+      : 'Free cancellation until your booking starts.');
+    sentences.push(`Later cancellations are charged ${feeLabel(policy.lateCancellationFeeType, policy.lateCancellationFee, currency, 'booking price')}.`);
+  } else {
+    sentences.push('Cancellation is free.');
+  }
+  if (policy.noShowFee > 0) {
+    sentences.push(`Not turning up is charged ${feeLabel(policy.noShowFeeType, policy.noShowFee, currency, "day's price")}.`);
+  }
+  return sentences.join(' ');
+}
+
+/** Invoice line text for a fee, e.g. "No-show fee, Desk 3, 2 Mar 2026". */
+export function feeLineDescription(fee: BookingFee, deskLabel?: string): string {
+  const date = new Date(fee.date + 'T00:00:00').toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+  return [`${FEE_KIND_LABELS[fee.kind]} fee`, deskLabel, date].filter(Boolean).join(', ');
+}
+
+export function sumFees(fees: readonly BookingFee[]): number {
+  return round2(fees.reduce((sum, fee) => sum + fee.amount, 0));
+}
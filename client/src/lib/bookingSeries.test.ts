@@ -0,0 +1,169 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildOccurrenceRows,
+  describeRecurrence,
+  expandRecurrence,
+  occurrencesProblem,
+  planSeriesRewrite,
+  validateRecurrence,
+} from './bookingSeries';
+import type { BookingSeries, RecurrenceRule } from '@shared/schema';
+
+function rule(overrides: Partial<RecurrenceRule> = {}): RecurrenceRule {
+  return {
+    weekdays: [2, 4],
+    intervalWeeks: 1,
+    startDate: '2026-03-02', // Monday
+    untilDate: '2026-03-15',
+    ...overrides,
+  };
+}
+
+function series(overrides: Partial<BookingSeries> = {}): BookingSeries {
+  return {
+    id: 's1',
+    deskId: 'd1',
+    rule: rule(),
+    status: 'booked',
+    personName: 'Alice',
+    price: 15,
+    currency: 'EUR',
+    createdAt: '2026-02-20T09:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('expandRecurrence', () => {
+  it('returns the chosen weekdays up to the end date', () => {
+    expect(expandRecurrence(rule())).toEqual([
+      '2026-03-03', '2026-03-05', '2026-03-10', '2026-03-12',
+    ]);
+  });
+
+  it('skips weeks when repeating every N weeks', () => {
+    expect(expandRecurrence(rule({ weekdays: [1], intervalWeeks: 2, untilDate: '2026-03-31' }))).toEqual([
+      '2026-03-02', '2026-03-16', '2026-03-30',
+    ]);
+  });
+
+  it('stops after the requested number of visits', () => {
+    expect(expandRecurrence(rule({ untilDate: null, occurrenceCount: 3 }))).toEqual([
+      '2026-03-03', '2026-03-05', '2026-03-10',
+    ]);
+  });
+
+  it('ignores days before the start within the first week', () => {
+    expect(expandRecurrence(rule({ startDate: '2026-03-04' }))[0]).toBe('2026-03-05');
+  });
+
+  it("skips days the organization doesn't work without counting them", () => {
+    const dates = expandRecurrence(rule({ weekdays: [4, 6], untilDate: null, occurrenceCount: 2 }), [1, 2, 3, 4, 5]);
+    expect(dates).toEqual(['2026-03-05', '2026-03-12']);
+  });
+
+  it('returns nothing for an invalid rule', () => {
+    expect(expandRecurrence(rule({ weekdays: [] }))).toEqual([]);
+  });
+});
+
+describe('validateRecurrence', () => {
+  it('requires an end', () => {
+    expect(validateRecurrence(rule({ untilDate: null }))).toMatch(/ends/);
+  });
+
+  it('rejects an end before the start', () => {
+    expect(validateRecurrence(rule({ untilDate: '2026-03-01' }))).toMatch(/before it starts/);
+  });
+
+  it('accepts a complete rule', () => {
+    expect(validateRecurrence(rule())).toBeNull();
+  });
+
+  it('rejects series longer than the limits instead of cutting them short', () => {
+    expect(validateRecurrence(rule({ untilDate: '2028-03-15' }))).toMatch(/two years/);
+    expect(validateRecurrence(rule({ untilDate: null, occurrenceCount: 300 }))).toMatch(/at most 260/);
+  });
+});
+
+describe('occurrencesProblem', () => {
+  it('flags an end date that yields too many visits', () => {
+    const daily = rule({ weekdays: [1, 2, 3, 4, 5], untilDate: '2027-06-30' });
+    const dates = expandRecurrence(daily);
+    expect(dates.length).toBeGreaterThan(260);
+    expect(occurrencesProblem(daily, dates)).toMatch(/at most 260/);
+  });
+
+  it('flags a visit count that does not fit in two years', () => {
+    const sparse = rule({ weekdays: [1], intervalWeeks: 4, untilDate: null, occurrenceCount: 40 });
+    const dates = expandRecurrence(sparse);
+    expect(dates).toHaveLength(26);
+    expect(occurrencesProblem(sparse, dates)).toMatch(/Only 26 of the 40/);
+  });
+
+  it('accepts dates within the limits', () => {
+    expect(occurrencesProblem(rule(), expandRecurrence(rule()))).toBeNull();
+  });
+});
+
+describe('describeRecurrence', () => {
+  it('describes a weekly rule with an end date', () => {
+    expect(describeRecurrence(rule({ weekdays: [4, 2] }))).toBe('Every Tue, Thu until Mar 15, 2026');
+  });
+
+  it('describes a fortnightly rule with a visit count', () => {
+    expect(describeRecurrence(rule({ weekdays: [1], intervalWeeks: 2, untilDate: null, occurrenceCount: 10 })))
+      .toBe('Every 2 weeks on Mon · 10 visits');
+  });
+});
+
+describe('buildOccurrenceRows', () => {
+  it('creates single-day rows linked to the series', () => {
+    const [row] = buildOccurrenceRows(series(), ['2026-03-03']);
+    expect(row).toMatchObject({
+      id: 'd1-2026-03-03',
+      startDate: '2026-03-03',
+      endDate: '2026-03-03',
+      seriesId: 's1',
+      planType: 'day_pass',
+      createdAt: '2026-02-20T09:00:00.000Z',
+    });
+  });
+});
+
+describe('planSeriesRewrite', () => {
+  it('removes dropped occurrences and keeps history before the cut-off', () => {
+    const existing = buildOccurrenceRows(series(), ['2026-03-03', '2026-03-05', '2026-03-10', '2026-03-12']);
+    const next = buildOccurrenceRows(series(), ['2026-03-03', '2026-03-05', '2026-03-12']);
+
+    const { deletions, writes } = planSeriesRewrite(existing, next, '2026-03-05');
+
+    expect(deletions.map((b) => b.date)).toEqual(['2026-03-10']);
+    expect(writes.map((b) => b.date)).toEqual(['2026-03-05', '2026-03-12']);
+  });
+
+  it('deletes the old desk rows when the series moves desk', () => {
+    const existing = buildOccurrenceRows(series(), ['2026-03-10']);
+    const next = buildOccurrenceRows(series({ deskId: 'd2' }), ['2026-03-10']);
+
+    const { deletions, writes } = planSeriesRewrite(existing, next, '2026-03-01');
+
+    expect(deletions.map((b) => b.deskId)).toEqual(['d1']);
+    expect(writes.map((b) => b.deskId)).toEqual(['d2']);
+  });
+
+  it('updates kept occurrences in place', () => {
+    const existing = buildOccurrenceRows(series(), ['2026-03-10']).map((b) => ({
+      ...b,
+      id: '4711',
+      checkedInAt: '2026-03-10T08:55:00.000Z',
+    }));
+    const next = buildOccurrenceRows(series({ personName: 'Alice B.' }), ['2026-03-10']);
+
+    const { deletions, writes } = planSeriesRewrite(existing, next, '2026-03-01');
+
+    expect(deletions).toEqual([]);
+    expect(writes).toEqual([
+      expect.objectContaining({ id: '4711', personName: 'Alice B.', checkedInAt: '2026-03-10T08:55:00.000Z' }),
+    ]);
+  });
+});
@@ -0,0 +1,178 @@
+import dayjs from 'dayjs';
+import type { BookingSeries, DeskBooking, RecurrenceRule } from '@shared/schema';
+import { ClosureRange, DAY_LABELS, DEFAULT_WORKING_DAYS, isNonWorkingDay } from './workingDays';
+
+/**
+ * Recurring desk bookings ("every Tuesday and Thursday"). A series stores the
+ * rule and the booking details once; each occurrence is materialised as a
+ * regular single-day desk_bookings row carrying `seriesId`, so the grid,
+ * conflict checks and revenue treat it like any other day booking.
+ */
+
+/** Upper bound on materialised occurrences — five visits a week for a year. */
+export const MAX_SERIES_OCCURRENCES = 260;
+
+// A series spans at most two years from the week it starts in. Also stops
+// the scan for rules that never produce a date (e.g. only non-working
+// weekdays selected).
+const MAX_SERIES_WEEKS = 104;
+
+// Monday of the ISO week containing `date`
+function weekStart(date: string) {
+  const day = dayjs(date);
+  return day.subtract((day.day() + 6) % 7, 'day');
+}
+
+/** Returns a user-facing problem with the rule, or null when it is usable. */
+export function validateRecurrence(rule: RecurrenceRule): string | null {
+  if (!rule.weekdays || rule.weekdays.length === 0) return 'Pick at least one weekday.';
+  if (!rule.startDate) return 'Pick a start date.';
+  if (!rule.untilDate && !rule.occurrenceCount) return 'Choose when the series ends.';
+  if (rule.untilDate && rule.untilDate < rule.startDate) return 'The series ends before it starts.';
+  if (rule.untilDate && dayjs(rule.untilDate).diff(weekStart(rule.startDate), 'day') >= MAX_SERIES_WEEKS * 7) {
+    return 'A series can run for at most two years. Pick an earlier end date.';
+  }
+  if (rule.occurrenceCount != null && rule.occurrenceCount < 1) return 'The series needs at least one visit.';
+  if (rule.occurrenceCount != null && rule.occurrenceCount > MAX_SERIES_OCCURRENCES) {
+    return `A series can have at most ${MAX_SERIES_OCCURRENCES} visits.`;
+  }
+  return null;
+}
+
+/**
+ * Problems only visible once the rule is expanded: too many visits before the
+ * end date, or fewer than the requested count within two years. Null when the
+ * dates can be saved as they are.
+ */
+export function occurrencesProblem(rule: RecurrenceRule, dates: string[]): string | null {
+  if (dates.length > MAX_SERIES_OCCURRENCES) {
+    return `This rule makes ${dates.length} visits; a series can have at most ${MAX_SERIES_OCCURRENCES}. Pick an earlier end date.`;
+  }
+  if (rule.occurrenceCount && dates.length > 0 && dates.length < rule.occurrenceCount) {
+    return `Only ${dates.length} of the ${rule.occurrenceCount} visits fall within two years. Repeat more often or ask for fewer visits.`;
+  }
+  return null;
+}
+
+/**
+ * Occurrence dates for a rule, oldest first. Weeks are counted from the ISO
+ * week containing `startDate`; days the organization doesn't work or is closed
+ * are skipped and do not count towards `occurrenceCount`. Dates are not capped
+ * at MAX_SERIES_OCCURRENCES; check them with occurrencesProblem.
+ */
+export function expandRecurrence(
+  rule: RecurrenceRule,
+  workingDays: number[] = DEFAULT_WORKING_DAYS,
+  closures?: readonly ClosureRange[],
+): string[] {
+  if (validateRecurrence(rule)) return [];
+  const weekdays = new Set(rule.weekdays);
+  const interval = Math.max(1, rule.intervalWeeks || 1);
+  const limit = rule.occurrenceCount ?? Infinity;
+  const monday = weekStart(rule.startDate);
+
+  const dates: string[] = [];
+  for (let week = 0; week < MAX_SERIES_WEEKS; week += interval) {
+    for (let offset = 0; offset < 7; offset++) {
+      if (!weekdays.has(offset + 1)) continue;
+      const date = monday.add(week * 7 + offset, 'day').format('YYYY-MM-DD');
+      if (date < rule.startDate) continue;
+      if (rule.untilDate && date > rule.untilDate) return dates;
+      if (isNonWorkingDay(date, workingDays, closures)) continue;
+      dates.push(date);
+      if (dates.length >= limit) return dates;
+    }
+  }
+  return dates;
+}
+
+/** e.g. "Every Tue, Thu until Jun 30, 2026" or "Every 2 weeks on Mon · 10 visits". */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const days = [...rule.weekdays].sort((a, b) => a - b).map((d) => DAY_LABELS[d]).join(', ');
+  const interval = Math.max(1, rule.intervalWeeks || 1);
+  const cadence = interval === 1 ? `Every ${days}` : `Every ${interval} weeks on ${days}`;
+  if (rule.untilDate) {
+    const until = new Date(rule.untilDate + 'T00:00:00').toLocaleDateString('en-US', {
+      month: 'short', day: 'numeric', year: 'numeric',
+    });
+    return `${cadence} until ${until}`;
+  }
+  if (rule.occurrenceCount) {
+    return `${cadence} · ${rule.occurrenceCount} visit${rule.occurrenceCount === 1 ? '' : 's'}`;
+  }
+  return cadence;
+}
+
+/** One single-day row per occurrence. All rows share the series' createdAt,
+ *  which lets the series rewrite its own slots past the conflict check. */
+export function buildOccurrenceRows(series: BookingSeries, dates: string[]): DeskBooking[] {
+  return dates.map((date) => ({
+    id: `${series.deskId}-${date}`,
+    deskId: series.deskId,
+    date,
+    startDate: date,
+    endDate: date,
+    status: series.status,
+    personName: series.personName,
+    title: series.title,
+    price: series.price,
+    currency: series.currency,
+    clientId: series.clientId,
+    planType: 'day_pass',
+    seriesId: series.id,
+    createdAt: series.createdAt,
+  }));
+}
+
+/** Run-shaped summary of a series, for the audit trail. */
+export function seriesRun(series: BookingSeries, dates: string[]) {
+  return {
+    deskId: series.deskId,
+    startDate: dates[0] ?? series.rule.startDate,
+    endDate: dates[dates.length - 1] ?? series.rule.startDate,
+    status: series.status,
+    personName: series.personName,
+    title: series.title,
+    price: series.price,
+    currency: series.currency,
+    clientId: series.clientId,
+    planType: 'day_pass' as const,
+  };
+}
+
+export interface SeriesRewrite {
+  /** Stored occurrences to remove (dropped from the rule or moved to another desk). */
+  deletions: DeskBooking[];
+  /** Occurrences to write. Kept occurrences carry their stored row id. */
+  writes: DeskBooking[];
+}
+
+/**
+ * Diff between the stored occurrences of a series and the rows its (edited)
+ * rule produces. Occurrences before `fromDate` are history and left alone;
+ * occurrences the rule keeps are updated in place, with their check-in and
+ * no-show marks.
+ */
+export function planSeriesRewrite(
+  existing: DeskBooking[],
+  next: DeskBooking[],
+  fromDate: string,
+): SeriesRewrite {
+  const upcoming = next.filter((b) => b.date >= fromDate);
+  const kept = new Set(upcoming.map((b) => `${b.deskId}|${b.date}`));
+  const stored = new Map(existing.map((b) => [`${b.deskId}|${b.date}`, b]));
+  return {
+    deletions: existing.filter((b) => b.date >= fromDate && !kept.has(`${b.deskId}|${b.date}`)),
+    writes: upcoming.map((b) => {
+      const previous = stored.get(`${b.deskId}|${b.date}`);
+      if (!previous) return b;
+      return {
+        ...b,
+        id: previous.id,
+        noShow: previous.noShow,
+        checkedInAt: previous.checkedInAt,
+        createdAt: previous.createdAt ?? b.createdAt,
+      };
+    }),
+  };
+}
@@ -0,0 +1,350 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { BrowserDataStore } from './browserDataStore';
+import { MemoryTableStorage } from './browserStorage';
+import { BookingConflictError } from './bookingConflicts';
+import type { Client, DeskBooking } from '@shared/schema';
+
+function makeBooking(deskId: string, date: string, overrides: Partial<DeskBooking> = {}): DeskBooking {
+  return {
+    id: `${deskId}-${date}`,
+    deskId,
+    date,
+    startDate: date,
+    endDate: date,
+    status: 'booked',
+    personName: 'Alice',
+    price: 10,
+    currency: 'EUR',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function makeRun(deskId: string, startDate: string, endDate: string, overrides: Partial<DeskBooking> = {}) {
+  const rows: DeskBooking[] = [];
+  const cursor = new Date(startDate + 'T00:00:00');
+  const end = new Date(endDate + 'T00:00:00');
+  while (cursor <= end) {
+    const date = `${cursor.getFullYear()}-${String(cursor.getMonth() + 1).padStart(2, '0')}-${String(cursor.getDate()).padStart(2, '0')}`;
+    rows.push(makeBooking(deskId, date, { startDate, endDate, ...overrides }));
+    cursor.setDate(cursor.getDate() + 1);
+  }
+  return rows;
+}
+
+function newClient(name: string): Client {
+  return {
+    id: 'new-1',
+    organizationId: 'org-1',
+    name,
+    flexActive: false,
+    flexTotalDays: 0,
+    flexUsedDays: 0,
+    createdAt: '',
+    updatedAt: '',
+  };
+}
+
+describe('BrowserDataStore', () => {
+  let storage: MemoryTableStorage;
+  let store: BrowserDataStore;
+
+  beforeEach(() => {
+    storage = new MemoryTableStorage();
+    store = new BrowserDataStore('org-1', undefined, storage);
+  });
+
+  describe('bookings', () => {
+    it('saves, reads and deletes a booking', async () => {
+      await store.saveBooking(makeBooking('room1-desk1', '2026-03-02'));
+
+      expect(await store.getBooking('room1-desk1', '2026-03-02')).toMatchObject({ personName: 'Alice' });
+
+      await store.deleteBooking('room1-desk1', '2026-03-02');
+      expect(await store.getBooking('room1-desk1', '2026-03-02')).toBeNull();
+    });
+
+    it('rejects a write over another booking on the same desk and day', async () => {
+      await store.saveBooking(makeBooking('room1-desk1', '2026-03-02'));
+
+      await expect(
+        store.bulkUpdateBookings(
+          makeRun('room1-desk1', '2026-03-01', '2026-03-03', {
+            personName: 'Bob',
+            createdAt: '2026-02-01T00:00:00.000Z',
+          }),
+        ),
+      ).rejects.toBeInstanceOf(BookingConflictError);
+      expect(await store.getBooking('room1-desk1', '2026-03-01')).toBeNull();
+      expect(await store.getBooking('room1-desk1', '2026-03-02')).toMatchObject({ personName: 'Alice' });
+    });
+
+    it('keys getAllBookings by desk and date within the range', async () => {
+      await store.bulkUpdateBookings(makeRun('room1-desk1', '2026-03-01', '2026-03-05'));
+
+      const bookings = await store.getAllBookings('2026-03-02', '2026-03-03');
+      expect(Object.keys(bookings).sort()).toEqual(['room1-desk1-2026-03-02', 'room1-desk1-2026-03-03']);
+    });
+
+    it('isolates bookings between organizations sharing one database', async () => {
+      const other = new BrowserDataStore('org-2', undefined, storage);
+      await store.saveBooking(makeBooking('room1-desk1', '2026-03-02'));
+      await other.saveBooking(makeBooking('room1-desk1', '2026-03-02', { personName: 'Bob' }));
+
+      expect((await store.getBooking('room1-desk1', '2026-03-02'))?.personName).toBe('Alice');
+      expect((await other.getBooking('room1-desk1', '2026-03-02'))?.personName).toBe('Bob');
+      expect(await other.getBookingsForDateRange('2026-03-01', '2026-03-31')).toHaveLength(1);
+    });
+
+    it('bulk deletes only the listed slots', async () => {
+      await store.bulkUpdateBookings(makeRun('room1-desk1', '2026-03-02', '2026-03-04'));
+      await store.bulkDeleteBookings([{ deskId: 'room1-desk1', date: '2026-03-03' }]);
+
+      const remaining = await store.getBookingsForDesk('room1-desk1');
+      expect(remaining.map((b) => b.date)).toEqual(['2026-03-02', '2026-03-04']);
+    });
+
+    it('replaces old dates with new ones, or keeps them when a new date is taken', async () => {
+      await store.bulkUpdateBookings(makeRun('room1-desk1', '2026-03-02', '2026-03-03'));
+      await store.saveBooking(
+        makeBooking('room1-desk1', '2026-03-05', { personName: 'Bob', createdAt: '2026-02-01T00:00:00.000Z' }),
+      );
+      const oldSlots = [
+        { deskId: 'room1-desk1', date: '2026-03-02' },
+        { deskId: 'room1-desk1', date: '2026-03-03' },
+      ];
+
+      await expect(
+        store.replaceBookings(oldSlots, makeRun('room1-desk1', '2026-03-04', '2026-03-05')),
+      ).rejects.toBeInstanceOf(BookingConflictError);
+      expect((await store.getBookingsForDesk('room1-desk1')).map((b) => b.date)).toEqual([
+        '2026-03-02',
+        '2026-03-03',
+        '2026-03-05',
+      ]);
+
+      await store.replaceBookings(oldSlots, makeRun('room1-desk1', '2026-03-03', '2026-03-04'));
+      expect((await store.getBookingsForDesk('room1-desk1')).map((b) => b.date)).toEqual([
+        '2026-03-03',
+        '2026-03-04',
+        '2026-03-05',
+      ]);
+    });
+
+    it('moves a whole run to another desk and refuses to land on a taken slot', async () => {
+      await store.bulkUpdateBookings(makeRun('room1-desk1', '2026-03-02', '2026-03-04'));
+      await store.saveBooking(
+        makeBooking('room1-desk2', '2026-03-06', { personName: 'Bob', createdAt: '2026-02-01T00:00:00.000Z' }),
+      );
+      const run = { deskId: 'room1-desk1', startDate: '2026-03-02', endDate: '2026-03-04' };
+
+      await store.moveBookingRun(run, { deskId: 'room1-desk2', startDate: '2026-03-03', endDate: '2026-03-05' });
+      expect(await store.getBookingsForDesk('room1-desk1')).toEqual([]);
+      const moved = await store.getBookingsForDesk('room1-desk2', '2026-03-01', '2026-03-05');
+      expect(moved.map((b) => b.date)).toEqual(['2026-03-03', '2026-03-04', '2026-03-05']);
+      expect(moved[0]).toMatchObject({ personName: 'Alice', startDate: '2026-03-03', endDate: '2026-03-05' });
+
+      const movedRun = { deskId: 'room1-desk2', startDate: '2026-03-03', endDate: '2026-03-05' };
+      await expect(
+        store.moveBookingRun(movedRun, { ...movedRun, endDate: '2026-03-06' }),
+      ).rejects.toBeInstanceOf(BookingConflictError);
+      expect(await store.getBookingsForDesk('room1-desk2')).toHaveLength(4);
+    });
+  });
+
+  describe('stats', () => {
+    it('prorates run revenue and counts assigned working days', async () => {
+      // 10-day run Mar 27 – Apr 5, 2026 at 100; 5 days fall in March
+      await store.bulkUpdateBookings(
+        makeRun('room1-desk1', '2026-03-27', '2026-04-05', { status: 'assigned', price: 100 }),
+      );
+
+      const stats = await store.getMonthlyStats(2026, 2, [1, 2, 3, 4, 5], 2);
+      expect(stats.confirmedRevenue).toBeCloseTo(50);
+      // Mar 27 (Fri), 30 (Mon), 31 (Tue) are working days
+      expect(stats.occupiedDays).toBe(3);
+      expect(stats.totalDeskDays).toBe(2 * 22);
+    });
+
+    it('excludes frozen rows from revenue', async () => {
+      await store.bulkUpdateBookings(
+        makeRun('room1-desk1', '2026-03-02', '2026-03-03', { status: 'assigned', price: 20, isFrozen: true }),
+      );
+
+      const stats = await store.getStatsForDateRange('2026-03-01', '2026-03-31');
+      expect(stats.totalRevenue).toBe(0);
+    });
+
+    it('leaves out-of-service desk-days out of the total', async () => {
+      await store.saveDeskBlock({
+        id: 'new-1',
+        deskId: 'room1-desk2',
+        startDate: '2026-03-02',
+        endDate: '2026-03-08',
+        reason: 'maintenance',
+        createdAt: '2026-03-01T00:00:00.000Z',
+      });
+
+      const stats = await store.getMonthlyStats(2026, 2, [1, 2, 3, 4, 5], 2);
+      // Five blocked weekdays; the weekend was never counted
+      expect(stats.totalDeskDays).toBe(2 * 22 - 5);
+      expect(await store.getDeskBlocks('2026-04-01', '2026-04-30')).toEqual([]);
+    });
+  });
+
+  describe('clients', () => {
+    it('assigns an id to new clients and syncs renames to linked bookings', async () => {
+      const created = await store.saveClient(newClient('Alice'));
+      expect(created.id).toMatch(/^\d+$/);
+
+      await store.saveBooking(makeBooking('room1-desk1', '2026-03-02', { clientId: created.id }));
+      await store.saveClient({ ...created, name: 'Alice Smith' });
+
+      expect((await store.getBooking('room1-desk1', '2026-03-02'))?.personName).toBe('Alice Smith');
+    });
+
+    it('shares clients across organizations in the same group', async () => {
+      const a = new BrowserDataStore('org-1', 'group-1', storage);
+      const b = new BrowserDataStore('org-2', 'group-1', storage);
+      const outsider = new BrowserDataStore('org-3', undefined, storage);
+      await a.saveClient(newClient('Shared'));
+
+      expect((await b.getClients()).map((c) => c.name)).toEqual(['Shared']);
+      expect(await outsider.getClients()).toEqual([]);
+    });
+
+    it('deducts and restores flex days without going negative', async () => {
+      const client = await store.saveClient({ ...newClient('Flexer'), flexActive: true, flexTotalDays: 5 });
+
+      expect((await store.deductFlexDay(client.id)).flexUsedDays).toBe(1);
+      expect((await store.restoreFlexDays(client.id, 3)).flexUsedDays).toBe(0);
+    });
+  });
+
+  describe('expenses', () => {
+    it('seeds default categories and resolves category names', async () => {
+      const categories = await store.getExpenseCategories();
+      expect(categories.length).toBeGreaterThan(0);
+
+      await store.saveExpense({
+        id: '1',
+        date: '2026-03-10',
+        amount: 120,
+        currency: 'EUR',
+        categoryId: categories[0].id,
+        isRecurring: false,
+        createdAt: '2026-03-10T00:00:00.000Z',
+      });
+
+      const [expense] = await store.getExpenses('2026-03-01', '2026-03-31');
+      expect(expense.categoryName).toBe(categories[0].name);
+    });
+
+    it('generates recurring expenses once per month', async () => {
+      const [category] = await store.getExpenseCategories();
+      await store.saveRecurringExpense({
+        id: '7',
+        amount: 500,
+        currency: 'EUR',
+        categoryId: category.id,
+        dayOfMonth: 5,
+        isActive: true,
+        createdAt: '2026-01-01T00:00:00.000Z',
+      });
+
+      expect(await store.generateRecurringExpenses(2026, 2)).toHaveLength(1);
+      expect(await store.generateRecurringExpenses(2026, 2)).toHaveLength(0);
+
+      const [expense] = await store.getExpenses('2026-03-01', '2026-03-31');
+      expect(expense).toMatchObject({ date: '2026-03-05', amount: 500, recurringExpenseId: '7' });
+    });
+  });
+
+  describe('plan pause', () => {
+    it('freezes the tail of a plan and reactivates it on new dates', async () => {
+      await store.bulkUpdateBookings(
+        makeRun('room1-desk1', '2026-03-02', '2026-03-05', {
+          status: 'assigned',
+          price: 40,
+          clientId: '42',
+          planType: 'weekly',
+        }),
+      );
+
+      const { pausedCount } = await store.freezePlanBooking({
+        clientId: '42',
+        startDate: '2026-03-02',
+        endDate: '2026-03-05',
+        pausedAt: '2026-03-04',
+      });
+      expect(pausedCount).toBe(2);
+
+      const active = await store.getBookingsForDesk('room1-desk1');
+      expect(active.map((b) => b.date)).toEqual(['2026-03-02', '2026-03-03']);
+      expect(active[0]).toMatchObject({ price: 20, endDate: '2026-03-03' });
+
+      await store.reactivatePlan('42', [
+        { deskId: 'room1-desk2', date: '2026-03-09' },
+        { deskId: 'room1-desk2', date: '2026-03-10' },
+      ]);
+
+      const reactivated = await store.getBookingsForDesk('room1-desk2');
+      expect(reactivated.map((b) => b.date)).toEqual(['2026-03-09', '2026-03-10']);
+      expect(reactivated[0]).toMatchObject({ startDate: '2026-03-09', endDate: '2026-03-10', price: 20 });
+      expect(await store.getOrgPlanBookings()).toHaveLength(4);
+    });
+  });
+
+  describe('ongoing contracts', () => {
+    it('marks a cycle paid and appends the next booked cycle', async () => {
+      await store.bulkUpdateBookings(
+        makeRun('room1-desk1', '2026-03-01', '2026-03-31', { isOngoing: true, clientId: '9' }),
+      );
+
+      const result = await store.markOngoingCyclePaid({
+        deskId: 'room1-desk1',
+        clientId: '9',
+        startDate: '2026-03-01',
+        endDate: '2026-03-31',
+      });
+
+      expect(result).toEqual({ paidDays: 31, nextCycleStart: '2026-04-01', nextCycleEnd: '2026-04-30' });
+      expect((await store.getBooking('room1-desk1', '2026-03-15'))?.status).toBe('assigned');
+      expect((await store.getBooking('room1-desk1', '2026-04-15'))?.status).toBe('booked');
+    });
+
+    it('refuses to advance over a non-contract booking', async () => {
+      await store.bulkUpdateBookings(
+        makeRun('room1-desk1', '2026-03-01', '2026-03-31', { isOngoing: true, clientId: '9' }),
+      );
+      await store.saveBooking(makeBooking('room1-desk1', '2026-04-10', { personName: 'Walk-in' }));
+
+      await expect(
+        store.markOngoingCyclePaid({
+          deskId: 'room1-desk1',
+          clientId: '9',
+          startDate: '2026-03-01',
+          endDate: '2026-03-31',
+        }),
+      ).rejects.toThrow(/overlaps existing bookings/);
+    });
+
+    it('ends a contract by trimming future rows', async () => {
+      await store.bulkUpdateBookings(
+        makeRun('room1-desk1', '2026-03-01', '2026-03-31', { isOngoing: true, clientId: '9' }),
+      );
+
+      const { rowsDeleted } = await store.endOngoingContract({
+        deskId: 'room1-desk1',
+        clientId: '9',
+        startDate: '2026-03-01',
+        newEndDate: '2026-03-20',
+      });
+
+      expect(rowsDeleted).toBe(11);
+      const remaining = await store.getBookingsForDesk('room1-desk1');
+      expect(remaining).toHaveLength(20);
+      expect(remaining.every((b) => !b.isOngoing && b.endDate === '2026-03-20')).toBe(true);
+    });
+  });
+});
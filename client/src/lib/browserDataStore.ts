@@ -0,0 +1,854 @@
+import {
+  DayPart,
+  DeskBooking,
+  WaitingListEntry,
+  MonthlyStats,
+  Expense,
+  RecurringExpense,
+  Client,
+  ExpenseCategory,
+  AuditEntry,
+  BookingSeries,
+  BookingGroup,
+  BookingFee,
+  DeskBlock,
+  OrgClosure,
+  ImportBatch,
+} from '@shared/schema';
+import type { BookingPatch, IDataStore } from './dataStore';
+import { BrowserTableStorage, createBrowserStorage } from './browserStorage';
+import { BookingConflictError, findBookingConflicts } from './bookingConflicts';
+import { BookingRun, isRunRow, movedRunRows, vacatedSlots } from './bookingMoves';
+import { BookingSlot, slotKey } from './offlineQueue';
+import { AuditLogFilter, DEFAULT_AUDIT_LIMIT, NewAuditEntry, matchesAuditFilter } from './auditLog';
+import { DESK_COUNT } from './deskConfig';
+import { blocksInRange, countBlockedDeskDays } from './deskBlocks';
+import { isOpenDay } from './workingDays';
+import { formatLocalDate, formatYMD } from './dateUtils';
+import { DEDICATED_PLAN_TYPES, addDays, addMonths, daysBetweenInclusive } from './planDates';
+import {
+  calculateDerivedMetrics,
+  calculateRevenueByStatus,
+  countOccupiedDays,
+  generateDaysInRange,
+} from './revenueCalculations';
+
+export const BROWSER_DB_NAME = 'deskplanner-local';
+export const BROWSER_DB_VERSION = 7;
+
+export const BROWSER_TABLES = [
+  'bookings',
+  'waitingList',
+  'expenses',
+  'recurringExpenses',
+  'expenseCategories',
+  'clients',
+  'auditLog',
+  'bookingSeries',
+  'deskBlocks',
+  'bookingGroups',
+  'bookingFees',
+  'importBatches',
+] as const;
+
+type BrowserTable = (typeof BROWSER_TABLES)[number];
+
+// Seeded on first read, mirroring the categories the org-creation trigger
+// inserts server-side.
+const DEFAULT_EXPENSE_CATEGORIES = ['Rent', 'Utilities', 'Internet', 'Supplies', 'Cleaning', 'Other'];
+
+// Records carry their org (and group, for clients) so one IndexedDB database
+// can hold several workspaces — the browser equivalent of scopeQuery().
+type Scoped<T> = T & { organizationId?: string; groupId?: string | null };
+
+/**
+ * IDataStore backed by IndexedDB (falling back to memory when IndexedDB is
+ * unavailable). Used for the no-signup demo and for running the planner
+ * fully offline. Behaviour mirrors SupabaseDataStore: frozen rows are hidden
+ * from regular booking reads, stats are prorated per desk+startDate run and
+ * clients are shared across an org group.
+ */
+export class BrowserDataStore implements IDataStore {
+  private organizationId: string | null;
+  private groupId: string | null;
+  private storage: BrowserTableStorage;
+  private idCounter = 0;
+
+  constructor(organizationId?: string, groupId?: string, storage?: BrowserTableStorage) {
+    this.organizationId = organizationId || null;
+    this.groupId = groupId || null;
+    this.storage =
+      storage ?? createBrowserStorage(BROWSER_DB_NAME, BROWSER_TABLES, BROWSER_DB_VERSION);
+  }
+
+  // ─── Scoping helpers ───────────────────────────────────────────────
+
+  private orgKey(): string {
+    return this.organizationId ?? 'local';
+  }
+
+  private bookingStorageKey(deskId: string, date: string, dayPart?: DayPart | null): string {
+    return `${this.orgKey()}:${slotKey(deskId, date, dayPart)}`;
+  }
+
+  private inScope<T>(record: Scoped<T>): boolean {
+    if (!this.organizationId) return true;
+    return record.organizationId === this.organizationId;
+  }
+
+  private inClientScope(record: Scoped<Client>): boolean {
+    if (this.groupId) return record.groupId === this.groupId;
+    return this.inScope(record);
+  }
+
+  private async readScoped<T>(table: BrowserTable): Promise<Scoped<T>[]> {
+    const rows = await this.storage.getAll<Scoped<T>>(table);
+    return rows.filter((row) => this.inScope(row));
+  }
+
+  private async readBookings(opts: { includeFrozen?: boolean } = {}): Promise<DeskBooking[]> {
+    const rows = await this.readScoped<DeskBooking>('bookings');
+    const visible = opts.includeFrozen ? rows : rows.filter((b) => !b.isFrozen);
+    return visible.sort((a, b) => a.date.localeCompare(b.date) || a.deskId.localeCompare(b.deskId));
+  }
+
+  private withOrg<T>(record: T): Scoped<T> {
+    return this.organizationId ? { ...record, organizationId: this.organizationId } : record;
+  }
+
+  // Numeric-looking ids keep parity with the Supabase store, where callers
+  // parseInt() client and expense ids.
+  private nextNumericId(): string {
+    this.idCounter = (this.idCounter + 1) % 1000;
+    return String(Date.now() * 1000 + this.idCounter);
+  }
+
+  private async putBookings(bookings: DeskBooking[]): Promise<void> {
+    await this.storage.putMany(
+      'bookings',
+      bookings.map((b) => [this.bookingStorageKey(b.deskId, b.date, b.dayPart), this.withOrg(b)]),
+    );
+  }
+
+  /**
+   * Same double-booking guard as the Supabase store's staff writes. Slots
+   * held by `replacing` rows are being rewritten in the same step and count
+   * as free.
+   */
+  private async assertSlotsFree(
+    bookings: DeskBooking[],
+    replacing: Pick<DeskBooking, 'deskId' | 'date' | 'dayPart'>[] = [],
+  ): Promise<void> {
+    const current: Record<string, DeskBooking | null> = {};
+    for (const b of bookings) {
+      for (const dayPart of ['full', 'am', 'pm'] as const) {
+        current[slotKey(b.deskId, b.date, dayPart)] =
+          (await this.storage.get<DeskBooking>('bookings', this.bookingStorageKey(b.deskId, b.date, dayPart))) ?? null;
+      }
+    }
+    for (const row of replacing) current[slotKey(row.deskId, row.date, row.dayPart)] = null;
+    const conflicts = findBookingConflicts(bookings, current);
+    if (conflicts.length > 0) throw new BookingConflictError(conflicts);
+  }
+
+  // ─── Bookings ─────────────────────────────────────────────────────
+
+  async getBooking(deskId: string, date: string, dayPart?: DayPart): Promise<DeskBooking | null> {
+    const row = await this.storage.get<DeskBooking>('bookings', this.bookingStorageKey(deskId, date, dayPart));
+    if (!row || row.isFrozen) return null;
+    return row;
+  }
+
+  async getAllBookings(startDate?: string, endDate?: string): Promise<Record<string, DeskBooking>> {
+    const bookings: Record<string, DeskBooking> = {};
+    for (const booking of await this.readBookings()) {
+      if (startDate && booking.date < startDate) continue;
+      if (endDate && booking.date > endDate) continue;
+      bookings[slotKey(booking.deskId, booking.date, booking.dayPart)] = booking;
+    }
+    return bookings;
+  }
+
+  async saveBooking(booking: DeskBooking): Promise<void> {
+    await this.assertSlotsFree([booking]);
+    await this.putBookings([booking]);
+  }
+
+  async deleteBooking(deskId: string, date: string, dayPart?: DayPart): Promise<void> {
+    await this.storage.delete('bookings', this.bookingStorageKey(deskId, date, dayPart));
+  }
+
+  async bulkUpdateBookings(bookings: DeskBooking[]): Promise<void> {
+    await this.assertSlotsFree(bookings);
+    await this.putBookings(bookings);
+  }
+
+  async bulkDeleteBookings(deletions: BookingSlot[]): Promise<void> {
+    await this.storage.deleteMany(
+      'bookings',
+      deletions.map(({ deskId, date, dayPart }) => this.bookingStorageKey(deskId, date, dayPart)),
+    );
+  }
+
+  async replaceBookings(deletions: BookingSlot[], bookings: DeskBooking[]): Promise<void> {
+    await this.assertSlotsFree(bookings, deletions);
+    await this.bulkDeleteBookings(deletions);
+    await this.putBookings(bookings);
+  }
+
+  async patchBookings(bookings: DeskBooking[], changes: BookingPatch): Promise<void> {
+    const patched: DeskBooking[] = [];
+    for (const b of bookings) {
+      const stored = await this.storage.get<DeskBooking>('bookings', this.bookingStorageKey(b.deskId, b.date, b.dayPart));
+      if (stored) patched.push({ ...stored, ...changes });
+    }
+    await this.putBookings(patched);
+  }
+
+  async moveBookingRun(run: BookingRun, target: BookingRun): Promise<DeskBooking[]> {
+    const rows = (await this.getBookingsForDesk(run.deskId, run.startDate, run.endDate)).filter((b) =>
+      isRunRow(b, run),
+    );
+    if (rows.length === 0) throw new Error('Booking not found');
+    const moved = movedRunRows(rows, run, target);
+    await this.assertSlotsFree(moved, rows);
+    await this.bulkDeleteBookings(vacatedSlots(run, target));
+    await this.putBookings(moved);
+    return moved;
+  }
+
+  async getBookingsForDateRange(startDate: string, endDate: string): Promise<DeskBooking[]> {
+    const bookings = await this.readBookings();
+    return bookings.filter((b) => b.date >= startDate && b.date <= endDate);
+  }
+
+  async getBookingsForDesk(deskId: string, startDate?: string, endDate?: string): Promise<DeskBooking[]> {
+    const bookings = await this.readBookings();
+    return bookings.filter(
+      (b) =>
+        b.deskId === deskId &&
+        (!startDate || b.date >= startDate) &&
+        (!endDate || b.date <= endDate),
+    );
+  }
+
+  async getDeskStats(dates: string[]): Promise<{ available: number; assigned: number; booked: number }> {
+    const dateSet = new Set(dates);
+    const bookings = (await this.readBookings()).filter((b) => dateSet.has(b.date));
+    const assigned = bookings.filter((b) => b.status === 'assigned').length;
+    const booked = bookings.filter((b) => b.status === 'booked').length;
+    return { available: DESK_COUNT * dates.length - assigned - booked, assigned, booked };
+  }
+
+  async getMonthlyStats(
+    year: number,
+    month: number,
+    workingDays?: number[],
+    deskCount?: number,
+    closures?: OrgClosure[],
+  ): Promise<MonthlyStats> {
+    return this.calculatePeriodStats(
+      new Date(year, month, 1),
+      new Date(year, month + 1, 0),
+      workingDays,
+      deskCount,
+      closures,
+    );
+  }
+
+  async getStatsForDateRange(
+    startDate: string,
+    endDate: string,
+    workingDays?: number[],
+    deskCount?: number,
+    closures?: OrgClosure[],
+  ): Promise<MonthlyStats> {
+    return this.calculatePeriodStats(
+      new Date(startDate + 'T00:00:00'),
+      new Date(endDate + 'T00:00:00'),
+      workingDays,
+      deskCount,
+      closures,
+    );
+  }
+
+  // Same semantics as SupabaseDataStore.calculateStatsFromRows: occupancy and
+  // revenue-per-day count assigned working days only.
+  private async calculatePeriodStats(
+    periodStart: Date,
+    periodEnd: Date,
+    workingDays?: number[],
+    deskCount?: number,
+    closures?: OrgClosure[],
+  ): Promise<MonthlyStats> {
+    const currency = 'EUR';
+    const daysInPeriod = generateDaysInRange(periodStart, periodEnd);
+    const workingDayCount = daysInPeriod.filter((d) => isOpenDay(d, workingDays, closures)).length;
+    const blockedDeskDays = countBlockedDeskDays(
+      await this.getDeskBlocks(daysInPeriod[0], daysInPeriod[daysInPeriod.length - 1]),
+      daysInPeriod,
+      workingDays,
+      closures,
+    );
+    const totalDeskDays = Math.max(0, (deskCount ?? DESK_COUNT) * workingDayCount - blockedDeskDays);
+
+    const bookings = await this.getBookingsForDateRange(daysInPeriod[0], daysInPeriod[daysInPeriod.length - 1]);
+    const { assignedDays } = countOccupiedDays(bookings, daysInPeriod, workingDays, closures);
+    const revenue = calculateRevenueByStatus(bookings, daysInPeriod, periodStart, periodEnd);
+    const metrics = calculateDerivedMetrics(assignedDays, assignedDays, totalDeskDays, revenue.confirmedRevenue);
+
+    return {
+      totalRevenue: revenue.totalRevenue,
+      confirmedRevenue: revenue.confirmedRevenue,
+      expectedRevenue: revenue.expectedRevenue,
+      occupiedDays: assignedDays,
+      totalDeskDays,
+      occupancyRate: metrics.occupancyRate,
+      revenuePerOccupiedDay: metrics.revenuePerOccupiedDay,
+      currency,
+    };
+  }
+
+  async clearAllBookings(): Promise<void> {
+    const rows = await this.readScoped<DeskBooking>('bookings');
+    await this.storage.deleteMany(
+      'bookings',
+      rows.map((b) => this.bookingStorageKey(b.deskId, b.date, b.dayPart)),
+    );
+  }
+
+  // ─── Waiting list ─────────────────────────────────────────────────
+
+  async getWaitingListEntries(): Promise<WaitingListEntry[]> {
+    const entries = await this.readScoped<WaitingListEntry>('waitingList');
+    return entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async saveWaitingListEntry(entry: WaitingListEntry): Promise<void> {
+    await this.storage.put('waitingList', entry.id, this.withOrg(entry));
+  }
+
+  async deleteWaitingListEntry(id: string): Promise<void> {
+    await this.storage.delete('waitingList', id);
+  }
+
+  // ─── Expenses ─────────────────────────────────────────────────────
+
+  private async withCategoryName<T extends { categoryId?: string; categoryName?: string }>(
+    rows: T[],
+  ): Promise<T[]> {
+    const categories = await this.getExpenseCategories();
+    const names = new Map(categories.map((c) => [c.id, c.name]));
+    return rows.map((row) => ({ ...row, categoryName: names.get(row.categoryId ?? '') ?? '' }));
+  }
+
+  async getExpenses(startDate: string, endDate: string): Promise<Expense[]> {
+    const expenses = (await this.readScoped<Expense>('expenses'))
+      .filter((e) => e.date >= startDate && e.date <= endDate)
+      .sort((a, b) => b.date.localeCompare(a.date));
+    return this.withCategoryName(expenses);
+  }
+
+  async saveExpense(expense: Expense): Promise<void> {
+    await this.storage.put('expenses', expense.id, this.withOrg(expense));
+  }
+
+  async deleteExpense(id: string): Promise<void> {
+    await this.storage.delete('expenses', id);
+  }
+
+  async getRecurringExpenses(): Promise<RecurringExpense[]> {
+    const expenses = (await this.readScoped<RecurringExpense>('recurringExpenses')).filter(
+      (e) => e.isActive,
+    );
+    return this.withCategoryName(expenses);
+  }
+
+  async saveRecurringExpense(expense: RecurringExpense): Promise<void> {
+    await this.storage.put('recurringExpenses', expense.id, this.withOrg(expense));
+  }
+
+  async deleteRecurringExpense(id: string): Promise<void> {
+    await this.storage.delete('recurringExpenses', id);
+  }
+
+  async generateRecurringExpenses(year: number, month: number): Promise<Expense[]> {
+    const recurringExpenses = await this.getRecurringExpenses();
+    const monthStart = formatYMD(year, month + 1, 1);
+    const monthEnd = formatLocalDate(new Date(year, month + 1, 0));
+    const existingExpenses = await this.getExpenses(monthStart, monthEnd);
+
+    const generatedExpenses: Expense[] = [];
+    for (const recurring of recurringExpenses) {
+      const alreadyExists = existingExpenses.some(
+        (e) => e.isRecurring && e.recurringExpenseId === recurring.id,
+      );
+      if (alreadyExists) continue;
+
+      const newExpense: Expense = {
+        id: this.nextNumericId(),
+        date: formatYMD(year, month + 1, recurring.dayOfMonth),
+        amount: recurring.amount,
+        currency: recurring.currency,
+        categoryId: recurring.categoryId,
+        categoryName: recurring.categoryName,
+        description: recurring.description,
+        isRecurring: true,
+        recurringExpenseId: recurring.id,
+        createdAt: new Date().toISOString(),
+      };
+      await this.saveExpense(newExpense);
+      generatedExpenses.push(newExpense);
+    }
+    return generatedExpenses;
+  }
+
+  async getExpenseCategories(): Promise<ExpenseCategory[]> {
+    let categories = await this.readScoped<ExpenseCategory>('expenseCategories');
+    if (categories.length === 0) {
+      categories = DEFAULT_EXPENSE_CATEGORIES.map((name) =>
+        this.withOrg({ id: crypto.randomUUID(), name, isDefault: true }),
+      );
+      await this.storage.putMany(
+        'expenseCategories',
+        categories.map((c) => [c.id, c]),
+      );
+    }
+    return categories
+      .map(({ id, name, isDefault }) => ({ id, name, isDefault }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async createExpenseCategory(name: string): Promise<ExpenseCategory> {
+    const category: ExpenseCategory = { id: crypto.randomUUID(), name: name.trim(), isDefault: false };
+    await this.storage.put('expenseCategories', category.id, this.withOrg(category));
+    return category;
+  }
+
+  async renameExpenseCategory(id: string, name: string): Promise<void> {
+    const existing = await this.storage.get<Scoped<ExpenseCategory>>('expenseCategories', id);
+    if (!existing) throw new Error('Failed to rename expense category');
+    await this.storage.put('expenseCategories', id, { ...existing, name: name.trim() });
+  }
+
+  async deleteExpenseCategory(id: string): Promise<void> {
+    await this.storage.delete('expenseCategories', id);
+  }
+
+  // ─── Clients ──────────────────────────────────────────────────────
+
+  private async readClients(): Promise<Scoped<Client>[]> {
+    const rows = await this.storage.getAll<Scoped<Client>>('clients');
+    return rows.filter((row) => this.inClientScope(row));
+  }
+
+  async getClients(): Promise<Client[]> {
+    const clients = await this.readClients();
+    const lastBooking = new Map<string, string>();
+    for (const booking of await this.readBookings({ includeFrozen: true })) {
+      if (!booking.clientId) continue;
+      const prev = lastBooking.get(booking.clientId);
+      if (!prev || booking.date > prev) lastBooking.set(booking.clientId, booking.date);
+    }
+
+    const withLastBooking = clients.map((c) => ({
+      ...c,
+      lastBookingDate: lastBooking.get(c.id) ?? null,
+    }));
+    withLastBooking.sort((a, b) => {
+      if (a.lastBookingDate && b.lastBookingDate) return b.lastBookingDate.localeCompare(a.lastBookingDate);
+      if (a.lastBookingDate) return -1;
+      if (b.lastBookingDate) return 1;
+      return a.name.localeCompare(b.name);
+    });
+    return withLastBooking;
+  }
+
+  async searchClients(query: string): Promise<Client[]> {
+    const needle = query.toLowerCase();
+    return (await this.readClients())
+      .filter((c) => c.name.toLowerCase().includes(needle))
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .slice(0, 10);
+  }
+
+  async saveClient(client: Client): Promise<Client> {
+    const isNew = !client.id || client.id.startsWith('new-');
+    const now = new Date().toISOString();
+
+    if (isNew) {
+      const created: Scoped<Client> = {
+        ...client,
+        id: this.nextNumericId(),
+        organizationId: this.organizationId ?? client.organizationId,
+        groupId: this.groupId,
+        flexActive: client.flexActive || false,
+        flexTotalDays: client.flexTotalDays || 0,
+        flexUsedDays: client.flexUsedDays || 0,
+        createdAt: now,
+        updatedAt: now,
+      };
+      await this.storage.put('clients', created.id, created);
+      return created;
+    }
+
+    const existing = await this.storage.get<Scoped<Client>>('clients', client.id);
+    const updated: Scoped<Client> = {
+      ...existing,
+      ...client,
+      groupId: existing?.groupId ?? this.groupId,
+      updatedAt: now,
+    };
+    await this.storage.put('clients', client.id, updated);
+
+    // Sync person_name on all linked bookings
+    const linked = (await this.readScoped<DeskBooking>('bookings')).filter((b) => b.clientId === client.id);
+    if (linked.length > 0) {
+      await this.putBookings(linked.map((b) => ({ ...b, personName: client.name })));
+    }
+    return updated;
+  }
+
+  async bulkCreateClients(
+    clients: Array<
+      Pick<Client, 'name' | 'email' | 'phone' | 'contact' | 'billingAddress' | 'taxId' | 'vatId' | 'representativeName'>
+    >,
+  ): Promise<{ created: number; failed: number; firstError: string | null; ids: string[] }> {
+    if (!this.organizationId) {
+      throw new Error('Organization context required for bulk client import');
+    }
+    const ids: string[] = [];
+    for (const c of clients) {
+      const saved = await this.saveClient({
+        ...c,
+        id: 'new-import',
+        organizationId: this.organizationId,
+        flexActive: false,
+        flexTotalDays: 0,
+        flexUsedDays: 0,
+        createdAt: '',
+        updatedAt: '',
+      });
+      ids.push(saved.id);
+    }
+    return { created: clients.length, failed: 0, firstError: null, ids };
+  }
+
+  async deleteClient(id: string): Promise<void> {
+    await this.storage.delete('clients', id);
+  }
+
+  async getClientById(id: string): Promise<Client | null> {
+    return (await this.storage.get<Client>('clients', id)) ?? null;
+  }
+
+  private async adjustFlexUsedDays(clientId: string, delta: number): Promise<Client> {
+    const client = await this.getClientById(clientId);
+    if (!client) throw new Error('Client not found');
+    const updated: Client = {
+      ...client,
+      flexUsedDays: Math.max(0, client.flexUsedDays + delta),
+      updatedAt: new Date().toISOString(),
+    };
+    await this.storage.put('clients', clientId, updated);
+    return updated;
+  }
+
+  async deductFlexDay(clientId: string): Promise<Client> {
+    return this.adjustFlexUsedDays(clientId, 1);
+  }
+
+  async restoreFlexDays(clientId: string, days: number): Promise<Client> {
+    return this.adjustFlexUsedDays(clientId, -days);
+  }
+
+  // ─── Plan pause (DES-87 v2) ───────────────────────────────────────
+
+  async freezePlanBooking(args: {
+    clientId: string;
+    startDate: string;
+    endDate: string;
+    pausedAt: string;
+  }): Promise<{ pausedCount: number }> {
+    const rows = (await this.readBookings()).filter(
+      (b) => b.clientId === args.clientId && b.startDate === args.startDate && b.endDate === args.endDate,
+    );
+    if (rows.length === 0) return { pausedCount: 0 };
+
+    const active = rows.filter((b) => b.date < args.pausedAt);
+    const frozen = rows.filter((b) => b.date >= args.pausedAt);
+    if (frozen.length === 0) return { pausedCount: 0 };
+
+    const originalPrice = rows[0].price ?? 0;
+    const activePrice = active.length > 0 ? Math.round((originalPrice * active.length) / rows.length) : 0;
+    const newEndDate = addDays(args.pausedAt, -1);
+
+    await this.putBookings([
+      ...active.map((b) => ({ ...b, price: activePrice, endDate: newEndDate })),
+      ...frozen.map((b) => ({ ...b, isFrozen: true, pausedAt: args.pausedAt })),
+    ]);
+    return { pausedCount: frozen.length };
+  }
+
+  async reactivatePlan(
+    clientId: string,
+    allocations: { deskId: string; date: string }[],
+  ): Promise<{ reactivatedCount: number }> {
+    if (allocations.length === 0) return { reactivatedCount: 0 };
+
+    const banked = (await this.readBookings({ includeFrozen: true }))
+      .filter((b) => b.clientId === clientId && b.pausedAt)
+      .slice(0, allocations.length);
+    if (banked.length < allocations.length) {
+      throw new Error(
+        `Not enough banked days to reactivate (need ${allocations.length}, found ${banked.length})`,
+      );
+    }
+
+    const newStart = allocations[0].date;
+    const newEnd = allocations[allocations.length - 1].date;
+    const originalPrice = banked[0].price ?? 0;
+    const origTotalDays = daysBetweenInclusive(banked[0].startDate, banked[0].endDate);
+    const reactivatedPrice =
+      origTotalDays > 0 ? Math.round((originalPrice * allocations.length) / origTotalDays) : 0;
+
+    await this.bulkDeleteBookings(banked.map((b) => ({ deskId: b.deskId, date: b.date })));
+    await this.putBookings(
+      allocations.map((target, i) => ({
+        ...banked[i],
+        id: `${target.deskId}-${target.date}`,
+        deskId: target.deskId,
+        date: target.date,
+        startDate: newStart,
+        endDate: newEnd,
+        price: reactivatedPrice,
+        isFrozen: false,
+        pausedAt: null,
+      })),
+    );
+    return { reactivatedCount: allocations.length };
+  }
+
+  async getClientPlanBookings(clientId: string): Promise<DeskBooking[]> {
+    return (await this.readBookings({ includeFrozen: true })).filter(
+      (b) =>
+        b.clientId === clientId &&
+        b.status === 'assigned' &&
+        !!b.planType &&
+        DEDICATED_PLAN_TYPES.includes(b.planType),
+    );
+  }
+
+  async getOrgPlanBookings(): Promise<DeskBooking[]> {
+    return (await this.readBookings({ includeFrozen: true })).filter(
+      (b) =>
+        b.status === 'assigned' &&
+        !b.isFlex &&
+        !!b.planType &&
+        DEDICATED_PLAN_TYPES.includes(b.planType),
+    );
+  }
+
+  // ─── Open-ended contracts (DES-88) ────────────────────────────────
+
+  private isContractRow(b: DeskBooking, deskId: string, clientId: string | null): boolean {
+    return b.deskId === deskId && !!b.isOngoing && (b.clientId ?? null) === clientId;
+  }
+
+  async endOngoingContract(args: {
+    deskId: string;
+    clientId: string | null;
+    startDate: string;
+    newEndDate: string;
+  }): Promise<{ endedDate: string; rowsDeleted: number }> {
+    const rows = (await this.readBookings({ includeFrozen: true })).filter((b) =>
+      this.isContractRow(b, args.deskId, args.clientId),
+    );
+    const past = rows.filter((b) => b.date > args.newEndDate);
+    const remaining = rows.filter((b) => b.date <= args.newEndDate);
+
+    await this.bulkDeleteBookings(past.map((b) => ({ deskId: b.deskId, date: b.date })));
+    await this.putBookings(remaining.map((b) => ({ ...b, isOngoing: false, endDate: args.newEndDate })));
+    return { endedDate: args.newEndDate, rowsDeleted: past.length };
+  }
+
+  async markOngoingCyclePaid(args: {
+    deskId: string;
+    clientId: string | null;
+    startDate: string;
+    endDate: string;
+  }): Promise<{ paidDays: number; nextCycleStart: string; nextCycleEnd: string }> {
+    const nextStart = addDays(args.endDate, 1);
+    const nextEnd = addDays(addMonths(nextStart, 1), -1);
+
+    const deskRows = await this.getBookingsForDesk(args.deskId, nextStart, nextEnd);
+    const blockers = deskRows.filter((b) => !b.isOngoing);
+    if (blockers.length > 0) {
+      const sample = blockers.slice(0, 3).map((b) => `${b.date}: ${b.personName ?? b.status}`).join(', ');
+      throw new Error(`Next cycle overlaps existing bookings (${sample}). Move or cancel them before marking paid.`);
+    }
+
+    const block = (await this.readBookings()).filter(
+      (b) =>
+        this.isContractRow(b, args.deskId, args.clientId) &&
+        b.startDate === args.startDate &&
+        b.endDate === args.endDate &&
+        b.status === 'booked',
+    );
+    if (block.length === 0) throw new Error('No booked ongoing cycle matches this block');
+
+    const template = block[0];
+    const nextCycle: DeskBooking[] = [];
+    for (let cursor = nextStart; cursor <= nextEnd; cursor = addDays(cursor, 1)) {
+      nextCycle.push({
+        ...template,
+        id: `${template.deskId}-${cursor}`,
+        date: cursor,
+        startDate: nextStart,
+        endDate: nextEnd,
+        status: 'booked',
+        isFlex: false,
+        isFrozen: false,
+        isOngoing: true,
+        pausedAt: null,
+        createdAt: new Date().toISOString(),
+      });
+    }
+
+    await this.putBookings([...block.map((b) => ({ ...b, status: 'assigned' as const })), ...nextCycle]);
+    return { paidDays: block.length, nextCycleStart: nextStart, nextCycleEnd: nextEnd };
+  }
+
+  // ─── Recurring series ─────────────────────────────────────────────
+
+  async getBookingSeries(id: string): Promise<BookingSeries | null> {
+    const series = await this.storage.get<Scoped<BookingSeries>>('bookingSeries', id);
+    return series && this.inScope(series) ? series : null;
+  }
+
+  async saveBookingSeries(series: BookingSeries): Promise<BookingSeries> {
+    const isNew = !series.id || series.id.startsWith('new-');
+    const saved = this.withOrg({ ...series, id: isNew ? this.nextNumericId() : series.id });
+    await this.storage.put('bookingSeries', saved.id, saved);
+    return saved;
+  }
+
+  async deleteBookingSeries(id: string): Promise<void> {
+    await this.storage.delete('bookingSeries', id);
+  }
+
+  async getSeriesBookings(seriesId: string): Promise<DeskBooking[]> {
+    return (await this.readBookings()).filter((b) => b.seriesId === seriesId);
+  }
+
+  // ─── Group bookings ───────────────────────────────────────────────
+
+  async getBookingGroup(id: string): Promise<BookingGroup | null> {
+    const group = await this.storage.get<Scoped<BookingGroup>>('bookingGroups', id);
+    return group && this.inScope(group) ? group : null;
+  }
+
+  async saveBookingGroup(group: BookingGroup): Promise<BookingGroup> {
+    const isNew = !group.id || group.id.startsWith('new-');
+    const saved = this.withOrg({ ...group, id: isNew ? this.nextNumericId() : group.id });
+    await this.storage.put('bookingGroups', saved.id, saved);
+    return saved;
+  }
+
+  async deleteBookingGroup(id: string): Promise<void> {
+    await this.storage.delete('bookingGroups', id);
+  }
+
+  async getGroupBookings(groupId: string): Promise<DeskBooking[]> {
+    return (await this.readBookings())
+      .filter((b) => b.bookingGroupId === groupId)
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  // ─── Cancellation and no-show fees ────────────────────────────────
+
+  async getBookingFees(startDate: string, endDate: string): Promise<BookingFee[]> {
+    return (await this.readScoped<BookingFee>('bookingFees'))
+      .filter((f) => f.date >= startDate && f.date <= endDate)
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  async getUninvoicedFees(clientId: string): Promise<BookingFee[]> {
+    return (await this.readScoped<BookingFee>('bookingFees'))
+      .filter((f) => f.clientId === clientId && !f.invoiceId)
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  async saveBookingFee(fee: BookingFee): Promise<BookingFee> {
+    const isNew = !fee.id || fee.id.startsWith('new-');
+    const saved = this.withOrg({ ...fee, id: isNew ? this.nextNumericId() : fee.id });
+    await this.storage.put('bookingFees', saved.id, saved);
+    return saved;
+  }
+
+  async deleteBookingFee(id: string): Promise<void> {
+    await this.storage.delete('bookingFees', id);
+  }
+
+  async markFeesInvoiced(ids: string[], invoiceId: string): Promise<void> {
+    for (const id of ids) {
+      const fee = await this.storage.get<Scoped<BookingFee>>('bookingFees', id);
+      if (fee && this.inScope(fee)) await this.storage.put('bookingFees', id, { ...fee, invoiceId });
+    }
+  }
+
+  // ─── Out-of-service blocks ────────────────────────────────────────
+
+  async getDeskBlocks(startDate?: string, endDate?: string): Promise<DeskBlock[]> {
+    const blocks = await this.readScoped<DeskBlock>('deskBlocks');
+    const inRange = blocksInRange(blocks, startDate ?? '0000-01-01', endDate ?? '9999-12-31');
+    return inRange.sort((a, b) => a.startDate.localeCompare(b.startDate));
+  }
+
+  async saveDeskBlock(block: DeskBlock): Promise<DeskBlock> {
+    const isNew = !block.id || block.id.startsWith('new-');
+    const saved = this.withOrg({ ...block, id: isNew ? this.nextNumericId() : block.id });
+    await this.storage.put('deskBlocks', saved.id, saved);
+    return saved;
+  }
+
+  async deleteDeskBlock(id: string): Promise<void> {
+    await this.storage.delete('deskBlocks', id);
+  }
+
+  // ─── Migration import batches ─────────────────────────────────────
+
+  async getImportBatches(): Promise<ImportBatch[]> {
+    return (await this.readScoped<ImportBatch>('importBatches'))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async saveImportBatch(batch: ImportBatch): Promise<ImportBatch> {
+    const isNew = !batch.id || batch.id.startsWith('new-');
+    const saved = this.withOrg({ ...batch, id: isNew ? this.nextNumericId() : batch.id });
+    await this.storage.put('importBatches', saved.id, saved);
+    return saved;
+  }
+
+  // ─── Audit log ────────────────────────────────────────────────────
+
+  async recordAuditEntry(entry: NewAuditEntry): Promise<void> {
+    const id = crypto.randomUUID();
+    const record: AuditEntry = this.withOrg({
+      ...entry,
+      id,
+      actorId: null,
+      actorName: 'This device',
+      createdAt: new Date().toISOString(),
+    });
+    await this.storage.put('auditLog', id, record);
+  }
+
+  async getAuditLog(filter: AuditLogFilter = {}): Promise<AuditEntry[]> {
+    const rows = await this.readScoped<AuditEntry>('auditLog');
+    return rows
+      .filter((entry) => matchesAuditFilter(entry, filter))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, filter.limit ?? DEFAULT_AUDIT_LIMIT);
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * Minimal table storage used by the browser-only data store. Records are
+ * keyed by string and grouped into named tables. IndexedDB is used when the
+ * runtime provides it; otherwise (SSR, tests, private browsing that blocks
+ * IndexedDB) everything lives in memory for the lifetime of the page.
+ */
+export interface BrowserTableStorage {
+  getAll<T>(table: string): Promise<T[]>;
+  get<T>(table: string, key: string): Promise<T | undefined>;
+  put<T>(table: string, key: string, value: T): Promise<void>;
+  putMany<T>(table: string, entries: Array<[string, T]>): Promise<void>;
+  delete(table: string, key: string): Promise<void>;
+  deleteMany(table: string, keys: string[]): Promise<void>;
+  clear(table: string): Promise<void>;
+}
+
+export class MemoryTableStorage implements BrowserTableStorage {
+  private tables = new Map<string, Map<string, unknown>>();
+
+  private table(name: string): Map<string, unknown> {
+    let table = this.tables.get(name);
+    if (!table) {
+      table = new Map();
+      this.tables.set(name, table);
+    }
+    return table;
+  }
+
+  async getAll<T>(table: string): Promise<T[]> {
+    // Structured clones so callers can't mutate stored records in place,
+    // matching what IndexedDB hands back.
+    return Array.from(this.table(table).values()).map((v) => structuredClone(v) as T);
+  }
+
+  async get<T>(table: string, key: string): Promise<T | undefined> {
+    const value = this.table(table).get(key);
+    return value === undefined ? undefined : (structuredClone(value) as T);
+  }
+
+  async put<T>(table: string, key: string, value: T): Promise<void> {
+    this.table(table).set(key, structuredClone(value));
+  }
+
+  async putMany<T>(table: string, entries: Array<[string, T]>): Promise<void> {
+    const target = this.table(table);
+    for (const [key, value] of entries) target.set(key, structuredClone(value));
+  }
+
+  async delete(table: string, key: string): Promise<void> {
+    this.table(table).delete(key);
+  }
+
+  async deleteMany(table: string, keys: string[]): Promise<void> {
+    const target = this.table(table);
+    for (const key of keys) target.delete(key);
+  }
+
+  async clear(table: string): Promise<void> {
+    this.table(table).clear();
+  }
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function promisifyTransaction(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export class IndexedDbTableStorage implements BrowserTableStorage {
+  private dbPromise: Promise<IDBDatabase>;
+
+  constructor(
+    private readonly dbName: string,
+    private readonly tables: readonly string[],
+    version = 1,
+  ) {
+    this.dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(dbName, version);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const name of tables) {
+          if (!db.objectStoreNames.contains(name)) db.createObjectStore(name);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private async store(table: string, mode: IDBTransactionMode) {
+    if (!this.tables.includes(table)) {
+      throw new Error(`Unknown table "${table}" in ${this.dbName}`);
+    }
+    const db = await this.dbPromise;
+    const tx = db.transaction(table, mode);
+    return { tx, store: tx.objectStore(table) };
+  }
+
+  async getAll<T>(table: string): Promise<T[]> {
+    const { store } = await this.store(table, 'readonly');
+    return promisifyRequest(store.getAll() as IDBRequest<T[]>);
+  }
+
+  async get<T>(table: string, key: string): Promise<T | undefined> {
+    const { store } = await this.store(table, 'readonly');
+    return promisifyRequest(store.get(key) as IDBRequest<T | undefined>);
+  }
+
+  async put<T>(table: string, key: string, value: T): Promise<void> {
+    await this.putMany(table, [[key, value]]);
+  }
+
+  async putMany<T>(table: string, entries: Array<[string, T]>): Promise<void> {
+    const { tx, store } = await this.store(table, 'readwrite');
+    for (const [key, value] of entries) store.put(value, key);
+    await promisifyTransaction(tx);
+  }
+
+  async delete(table: string, key: string): Promise<void> {
+    await this.deleteMany(table, [key]);
+  }
+
+  async deleteMany(table: string, keys: string[]): Promise<void> {
+    const { tx, store } = await this.store(table, 'readwrite');
+    for (const key of keys) store.delete(key);
+    await promisifyTransaction(tx);
+  }
+
+  async clear(table: string): Promise<void> {
+    const { tx, store } = await this.store(table, 'readwrite');
+    store.clear();
+    await promisifyTransaction(tx);
+  }
+}
+
+export function isIndexedDbAvailable(): boolean {
+  return typeof indexedDB !== 'undefined' && indexedDB !== null;
+}
+
+export function createBrowserStorage(
+  dbName: string,
+  tables: readonly string[],
+  version = 1,
+): BrowserTableStorage {
+  return isIndexedDbAvailable()
+    ? new IndexedDbTableStorage(dbName, tables, version)
+    : new MemoryTableStorage();
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import type { DeskBooking } from '@shared/schema';
+import { autoReleaseAt, bookingsToAutoRelease, canCheckIn, checkInState, deskCheckInUrl } from './checkIn';
+
+const dayPass: DeskBooking = {
+  id: 'room1-desk1-2026-03-10',
+  deskId: 'room1-desk1',
+  date: '2026-03-10',
+  startDate: '2026-03-10',
+  endDate: '2026-03-10',
+  status: 'booked',
+  personName: 'Alice',
+  planType: 'day_pass',
+  createdAt: '2026-03-01T00:00:00.000Z',
+};
+
+describe('checkInState', () => {
+  it('prefers a check-in over a no-show mark', () => {
+    expect(checkInState(dayPass)).toBe('expected');
+    expect(checkInState({ ...dayPass, noShow: true })).toBe('no_show');
+    expect(checkInState({ ...dayPass, noShow: true, checkedInAt: '2026-03-10T08:00:00Z' })).toBe('checked_in');
+  });
+});
+
+describe('canCheckIn', () => {
+  it("allows only today's booked desks nobody checked in to", () => {
+    expect(canCheckIn(dayPass, '2026-03-10')).toBe(true);
+    expect(canCheckIn(dayPass, '2026-03-11')).toBe(false);
+    expect(canCheckIn({ ...dayPass, status: 'available' }, '2026-03-10')).toBe(false);
+    expect(canCheckIn({ ...dayPass, checkedInAt: '2026-03-10T08:00:00Z' }, '2026-03-10')).toBe(false);
+  });
+});
+
+describe('bookingsToAutoRelease', () => {
+  const monthly: DeskBooking = {
+    ...dayPass,
+    id: 'room1-desk2-2026-03-10',
+    deskId: 'room1-desk2',
+    startDate: '2026-03-01',
+    endDate: '2026-03-31',
+    status: 'assigned',
+    planType: 'monthly',
+  };
+  const checkedIn = { ...dayPass, deskId: 'room1-desk3', checkedInAt: '2026-03-10T07:30:00Z' };
+  const bookings = [dayPass, monthly, checkedIn];
+
+  it('releases unchecked day passes once the time has passed in the space timezone', () => {
+    // 10:00 in Sofia is 08:00 UTC in March
+    expect(autoReleaseAt('2026-03-10', '10:00', 'Europe/Sofia').toISOString()).toBe('2026-03-10T08:00:00.000Z');
+    expect(bookingsToAutoRelease(bookings, '10:00', 'Europe/Sofia', new Date('2026-03-10T07:59:00Z'))).toEqual([]);
+    expect(bookingsToAutoRelease(bookings, '10:00', 'Europe/Sofia', new Date('2026-03-10T08:00:00Z'))).toEqual([dayPass]);
+  });
+
+  it('keeps everything when the space has no release time or the booking is not today', () => {
+    const later = new Date('2026-03-10T15:00:00Z');
+    expect(bookingsToAutoRelease(bookings, null, 'Europe/Sofia', later)).toEqual([]);
+    expect(bookingsToAutoRelease(bookings, '10:00', 'Europe/Sofia', new Date('2026-03-11T15:00:00Z'))).toEqual([]);
+  });
+});
+
+describe('deskCheckInUrl', () => {
+  it('encodes the space and desk', () => {
+    expect(deskCheckInUrl('https://app.example.com', 'my space', 'room1-desk1'))
+      .toBe('https://app.example.com/check-in/my%20space/room1-desk1');
+  });
+});
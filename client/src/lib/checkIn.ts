@@ -0,0 +1,84 @@
+import type { DeskBooking } from '@shared/schema';
+import { isValidTimeZone, todayString, zonedTimeToDate } from './dateUtils';
+import { inferPlanFromBooking } from './planDates';
+
+/**
+ * Check-in per booking day. A day is checked in once the person arrives, a
+ * no-show when staff mark it so, and expected until then. Spaces can set a
+ * time of day after which day-pass desks nobody checked in to are released
+ * and can be sold again; members' plan desks are never released.
+ */
+
+export type CheckInState = 'checked_in' | 'no_show' | 'expected';
+
+type CheckInBooking = Pick<DeskBooking, 'date' | 'status' | 'checkedInAt' | 'noShow'>;
+
+export function checkInState(booking: Pick<DeskBooking, 'checkedInAt' | 'noShow'>): CheckInState {
+  if (booking.checkedInAt) return 'checked_in';
+  if (booking.noShow) return 'no_show';
+  return 'expected';
+}
+
+/** Only today's bookings that nobody has checked in to yet can be checked in. */
+export function canCheckIn(booking: CheckInBooking, today: string): boolean {
+  return booking.status !== 'available' && booking.date === today && !booking.checkedInAt;
+}
+
+/** The moment today's unchecked day-pass desks are released, in the space's timezone. */
+export function autoReleaseAt(date: string, time: string, timeZone?: string | null): Date {
+  return isValidTimeZone(timeZone)
+    ? zonedTimeToDate(date, time, timeZone)
+    : new Date(`${date}T${time}:00`);
+}
+
+/**
+ * Today's day-pass bookings to release at `now`: nobody checked in and the
+ * space's release time has passed. Empty when the space keeps desks all day.
+ * The release itself runs on the server (release_unchecked_desks), by the
+ * same rule.
+ */
+export function bookingsToAutoRelease<T extends CheckInBooking & Pick<DeskBooking, 'startDate' | 'endDate' | 'isFlex' | 'planType'>>(
+  bookings: readonly T[],
+  releaseTime: string | null | undefined,
+  timeZone?: string | null,
+  now: Date = new Date(),
+): T[] {
+  if (!releaseTime) return [];
+  const today = todayString(timeZone, now);
+  if (now < autoReleaseAt(today, releaseTime, timeZone)) return [];
+  return bookings.filter(b =>
+    b.date === today
+    && b.status !== 'available'
+    && !b.checkedInAt
+    && inferPlanFromBooking(b) === 'day_pass',
+  );
+}
+
+/** Link printed as a QR code on a desk; opening it checks in today's booking there. */
+export function deskCheckInUrl(origin: string, orgSlug: string, deskId: string): string {
+  return `${origin}/check-in/${encodeURIComponent(orgSlug)}/${encodeURIComponent(deskId)}`;
+}
+
+const SHARE_TOKENS_KEY = 'deskplanner-share-tokens';
+
+/**
+ * Share links opened on this device, newest first, so a desk's QR code can
+ * check the visitor in without asking who they are.
+ */
+export function rememberShareToken(token: string): void {
+  try {
+    const tokens = [token, ...rememberedShareTokens().filter(t => t !== token)].slice(0, 10);
+    localStorage.setItem(SHARE_TOKENS_KEY, JSON.stringify(tokens));
+  } catch {
+    // Private mode or storage full: the share page's button still works
+  }
+}
+
+export function rememberedShareTokens(): string[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(SHARE_TOKENS_KEY) ?? '[]');
+    return Array.isArray(parsed) ? parsed.filter((t): t is string => typeof t === 'string') : [];
+  } catch {
+    return [];
+  }
+}
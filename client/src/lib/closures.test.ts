@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import type { OrgClosure } from '@shared/schema';
+import { closureAdjustedPlanPrice, closuresInRange, mergeClosures, validateClosure } from './closures';
+import { findClosure, isNonWorkingDay } from './workingDays';
+
+const WEEKDAYS = [1, 2, 3, 4, 5];
+
+function closure(startDate: string, endDate = startDate, label = 'Closed'): OrgClosure {
+  return { id: `${startDate}-${endDate}`, startDate, endDate, label };
+}
+
+describe('isNonWorkingDay with closures', () => {
+  const closures = [closure('2026-08-10', '2026-08-14', 'Summer break')];
+
+  it('treats closed weekdays as non-working', () => {
+    expect(isNonWorkingDay('2026-08-12', WEEKDAYS, closures)).toBe(true);
+    expect(isNonWorkingDay('2026-08-17', WEEKDAYS, closures)).toBe(false);
+  });
+
+  it('keeps the weekly pattern without closures', () => {
+    expect(isNonWorkingDay('2026-08-12', WEEKDAYS)).toBe(false);
+    expect(isNonWorkingDay('2026-08-15', WEEKDAYS)).toBe(true);
+  });
+
+  it('finds the covering closure', () => {
+    expect(findClosure(closures, '2026-08-14')?.label).toBe('Summer break');
+    expect(findClosure(closures, '2026-08-15')).toBeNull();
+  });
+});
+
+describe('validateClosure', () => {
+  it('needs a label and ordered dates', () => {
+    expect(validateClosure({ label: ' ', startDate: '2026-08-10', endDate: '2026-08-10' })).toMatch(/name/);
+    expect(validateClosure({ label: 'Break', startDate: '2026-08-10', endDate: '2026-08-01' })).toMatch(/end date/);
+    expect(validateClosure({ label: 'Break', startDate: '2026-08-10', endDate: '2026-08-14' })).toBeNull();
+  });
+});
+
+describe('mergeClosures', () => {
+  it('skips closures already on the calendar and keeps the list sorted', () => {
+    const existing = [closure('2026-12-25', '2026-12-25', 'Christmas')];
+    const { closures, added } = mergeClosures(existing, [closure('2026-12-25'), closure('2026-01-01')]);
+    expect(added).toBe(1);
+    expect(closures.map(c => c.startDate)).toEqual(['2026-01-01', '2026-12-25']);
+  });
+});
+
+describe('closuresInRange', () => {
+  it('keeps closures overlapping the range', () => {
+    const closures = [closure('2026-07-30', '2026-08-03'), closure('2026-09-01')];
+    expect(closuresInRange(closures, '2026-08-01', '2026-08-31')).toHaveLength(1);
+  });
+});
+
+describe('closureAdjustedPlanPrice', () => {
+  it('prorates by the closed share of working days', () => {
+    // Mon 2026-12-21 .. Sun 12-27: 5 working days, 25th is closed
+    const result = closureAdjustedPlanPrice(100, '2026-12-21', '2026-12-27', WEEKDAYS, [closure('2026-12-25', '2026-12-25', 'Christmas')]);
+    expect(result).toEqual({ price: 80, closedDays: 1, workingDays: 5, labels: ['Christmas'] });
+  });
+
+  it('ignores closures on days the space is shut anyway', () => {
+    expect(closureAdjustedPlanPrice(100, '2026-12-21', '2026-12-27', WEEKDAYS, [closure('2026-12-26')])).toBeNull();
+  });
+});
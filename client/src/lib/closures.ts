@@ -0,0 +1,65 @@
+import type { OrgClosure } from '@shared/schema';
+import { findClosure, isNonWorkingDay } from './workingDays';
+import { generateDaysInRange } from './revenueCalculations';
+
+/**
+ * Organization closure calendar: public holidays and closure ranges on which
+ * the whole space is shut. `isNonWorkingDay` takes them as its third
+ * argument; the helpers here edit the list and price plans around it.
+ */
+
+export const MAX_CLOSURE_DAYS = 366;
+
+export function sortClosures<C extends OrgClosure>(closures: readonly C[]): C[] {
+  return [...closures].sort((a, b) => a.startDate.localeCompare(b.startDate) || a.endDate.localeCompare(b.endDate));
+}
+
+/** Returns a message describing what's wrong, or null when the closure is valid. */
+export function validateClosure(closure: Pick<OrgClosure, 'startDate' | 'endDate' | 'label'>): string | null {
+  if (!closure.label.trim()) return 'Give the closure a name, e.g. "Summer break".';
+  if (!closure.startDate || !closure.endDate) return 'Pick a start and end date.';
+  if (closure.endDate < closure.startDate) return 'The end date must be on or after the start date.';
+  if (generateDaysInRange(new Date(closure.startDate + 'T00:00:00'), new Date(closure.endDate + 'T00:00:00')).length > MAX_CLOSURE_DAYS) {
+    return 'A closure can be at most a year long.';
+  }
+  return null;
+}
+
+/**
+ * Adds `incoming` closures that aren't already on the calendar (same dates).
+ * Used when importing a holiday set, so re-importing a year is harmless.
+ */
+export function mergeClosures(existing: readonly OrgClosure[], incoming: readonly OrgClosure[]): {
+  closures: OrgClosure[];
+  added: number;
+} {
+  const taken = new Set(existing.map(c => `${c.startDate}:${c.endDate}`));
+  const fresh = incoming.filter(c => !taken.has(`${c.startDate}:${c.endDate}`));
+  return { closures: sortClosures([...existing, ...fresh]), added: fresh.length };
+}
+
+/** The closures touching [startDate, endDate]. */
+export function closuresInRange<C extends OrgClosure>(closures: readonly C[], startDate: string, endDate: string): C[] {
+  return closures.filter(c => c.startDate <= endDate && c.endDate >= startDate);
+}
+
+/**
+ * A weekly or monthly plan's price cut by the share of its working days the
+ * space is closed. Null when no working day in the period is closed.
+ */
+export function closureAdjustedPlanPrice(
+  price: number,
+  startDate: string,
+  endDate: string,
+  workingDays: number[],
+  closures: readonly OrgClosure[],
+): { price: number; closedDays: number; workingDays: number; labels: string[] } | null {
+  if (!startDate || !endDate || endDate < startDate) return null;
+  const days = generateDaysInRange(new Date(startDate + 'T00:00:00'), new Date(endDate + 'T00:00:00'))
+    .filter(d => !isNonWorkingDay(d, workingDays));
+  const closed = days.filter(d => findClosure(closures, d));
+  if (closed.length === 0 || days.length === 0) return null;
+  const labels = Array.from(new Set(closed.map(d => findClosure(closures, d)!.label)));
+  const adjusted = Math.round((price * (days.length - closed.length) / days.length) * 100) / 100;
+  return { price: adjusted, closedDays: closed.length, workingDays: days.length, labels };
+}
@@ -1,19 +1,36 @@
-import { DeskBooking, MonthlyStats, Currency, Expense, RecurringExpense, Client, ExpenseCategory } from '@shared/schema';
+import { DayPart, DeskBooking, MonthlyStats, Currency, Expense, RecurringExpense, Client, ExpenseCategory, AuditEntry, BookingSeries, BookingGroup, BookingFee, DeskBlock, OrgClosure, ImportBatch } from '@shared/schema';
+import type { BookingSlot, OutboxEntry, ReplayResult } from './offlineQueue';
+import type { AuditLogFilter, NewAuditEntry } from './auditLog';
+import type { BookingRun } from './bookingMoves';
+
+/** Day-to-day marks set on stored rows without rewriting the rest of them. */
+export type BookingPatch = Partial<Pick<DeskBooking, 'status' | 'noShow' | 'checkedInAt' | 'heldUntil'>>;
 
 /**
  * Abstract data store interface for desk bookings
  * This interface can be implemented with different storage backends
  */
 export interface IDataStore {
-  // Basic CRUD operations
-  getBooking(deskId: string, date: string): Promise<DeskBooking | null>;
+  // Basic CRUD operations. Slots are full-day unless a dayPart is given;
+  // getAllBookings keys rows by slotKey(), so half days get their own keys.
+  getBooking(deskId: string, date: string, dayPart?: DayPart): Promise<DeskBooking | null>;
   getAllBookings(startDate?: string, endDate?: string): Promise<Record<string, DeskBooking>>;
   saveBooking(booking: DeskBooking): Promise<void>;
-  deleteBooking(deskId: string, date: string): Promise<void>;
+  deleteBooking(deskId: string, date: string, dayPart?: DayPart): Promise<void>;
 
   // Bulk operations
   bulkUpdateBookings(bookings: DeskBooking[]): Promise<void>;
-  bulkDeleteBookings?(deletions: { deskId: string; date: string }[]): Promise<void>;
+  bulkDeleteBookings?(deletions: BookingSlot[]): Promise<void>;
+  // Clears the `deletions` slots and writes `bookings` as one change, e.g. an
+  // edited booking replacing its old dates. Nothing changes on a conflict.
+  replaceBookings(deletions: BookingSlot[], bookings: DeskBooking[]): Promise<void>;
+  // Sets only `changes` on the stored rows (check-in, no-show, payment), so an
+  // edit another manager saved meanwhile keeps its other fields.
+  patchBookings(bookings: DeskBooking[], changes: BookingPatch): Promise<void>;
+  // Drag-and-drop in the desk grid: rewrites every day row of a run on its new
+  // desk and dates and clears the slots it left, or changes nothing if any
+  // target slot is taken. Returns the rows written.
+  moveBookingRun?(run: BookingRun, target: BookingRun): Promise<DeskBooking[]>;
 
   // Query operations
   getBookingsForDateRange(startDate: string, endDate: string): Promise<DeskBooking[]>;
@@ -26,8 +43,8 @@ export interface IDataStore {
     booked: number;
   }>;
 
-  getMonthlyStats(year: number, month: number, workingDays?: number[], deskCount?: number): Promise<MonthlyStats>;
-  getStatsForDateRange(startDate: string, endDate: string, workingDays?: number[], deskCount?: number): Promise<MonthlyStats>;
+  getMonthlyStats(year: number, month: number, workingDays?: number[], deskCount?: number, closures?: OrgClosure[]): Promise<MonthlyStats>;
+  getStatsForDateRange(startDate: string, endDate: string, workingDays?: number[], deskCount?: number, closures?: OrgClosure[]): Promise<MonthlyStats>;
 
   // Utility
   clearAllBookings(): Promise<void>;
@@ -75,7 +92,7 @@ export interface IDataStore {
         | 'representativeName'
       >
     >,
-  ): Promise<{ created: number; failed: number; firstError: string | null }>;
+  ): Promise<{ created: number; failed: number; firstError: string | null; ids: string[] }>;
   deleteClient?(id: string): Promise<void>;
   getClientById?(id: string): Promise<Client | null>;
   deductFlexDay?(clientId: string): Promise<Client>;
@@ -108,10 +125,75 @@ export interface IDataStore {
     startDate: string;
     endDate: string;
   }): Promise<{ paidDays: number; nextCycleStart: string; nextCycleEnd: string }>;
+
+  // Recurring booking series — occurrences are regular rows carrying seriesId
+  getBookingSeries?(id: string): Promise<BookingSeries | null>;
+  saveBookingSeries?(series: BookingSeries): Promise<BookingSeries>;
+  deleteBookingSeries?(id: string): Promise<void>;
+  getSeriesBookings?(seriesId: string): Promise<DeskBooking[]>;
+
+  // Group bookings — each desk is a regular run carrying bookingGroupId
+  getBookingGroup?(id: string): Promise<BookingGroup | null>;
+  saveBookingGroup?(group: BookingGroup): Promise<BookingGroup>;
+  deleteBookingGroup?(id: string): Promise<void>;
+  getGroupBookings?(groupId: string): Promise<DeskBooking[]>;
+
+  // Cancellation and no-show fees (see lib/bookingPolicy). Kept apart from
+  // bookings, which a cancellation deletes.
+  getBookingFees?(startDate: string, endDate: string): Promise<BookingFee[]>;
+  getUninvoicedFees?(clientId: string): Promise<BookingFee[]>;
+  saveBookingFee?(fee: BookingFee): Promise<BookingFee>;
+  deleteBookingFee?(id: string): Promise<void>;
+  markFeesInvoiced?(ids: string[], invoiceId: string): Promise<void>;
+
+  // Out-of-service desk blocks. Stats leave blocked desk-days out of the
+  // total, so occupancy is measured against desks that could be used.
+  getDeskBlocks?(startDate?: string, endDate?: string): Promise<DeskBlock[]>;
+  saveDeskBlock?(block: DeskBlock): Promise<DeskBlock>;
+  deleteDeskBlock?(id: string): Promise<void>;
+
+  // Migration imports from other tools, newest first, so the last batch can
+  // be rolled back
+  getImportBatches?(): Promise<ImportBatch[]>;
+  saveImportBatch?(batch: ImportBatch): Promise<ImportBatch>;
+
+  // Offline outbox — writes queued while the network was down
+  getPendingMutations?(): Promise<OutboxEntry[]>;
+  subscribeToPendingMutations?(listener: () => void): () => void;
+  replayPendingMutations?(): Promise<ReplayResult>;
+  resolveMutationConflict?(entryId: string, resolution: 'overwrite' | 'discard'): Promise<void>;
+
+  // Audit log — who changed bookings, clients, invoices and expenses
+  recordAuditEntry?(entry: NewAuditEntry): Promise<void>;
+  getAuditLog?(filter?: AuditLogFilter): Promise<AuditEntry[]>;
 }
 
 import { SupabaseDataStore } from './supabaseDataStore';
+import { BrowserDataStore } from './browserDataStore';
+
+/**
+ * 'supabase' is the hosted backend. 'browser' keeps everything in IndexedDB
+ * on this device — used for the no-signup demo and fully offline use.
+ */
+export type StorageType = 'supabase' | 'browser';
+
+// VITE_STORAGE_TYPE predates the browser store; the legacy 'localStorage'
+// value maps onto it so old .env files keep working.
+export function getConfiguredStorageType(): StorageType {
+  const configured = import.meta.env.VITE_STORAGE_TYPE;
+  if (configured === 'browser' || configured === 'indexeddb' || configured === 'localStorage') {
+    return 'browser';
+  }
+  return 'supabase';
+}
 
-export function createDataStore(organizationId?: string, groupId?: string): IDataStore {
+export function createDataStore(
+  organizationId?: string,
+  groupId?: string,
+  storageType: StorageType = getConfiguredStorageType(),
+): IDataStore {
+  if (storageType === 'browser') {
+    return new BrowserDataStore(organizationId, groupId);
+  }
   return new SupabaseDataStore(organizationId, groupId);
 }
@@ -1,5 +1,14 @@
-import { describe, it, expect } from 'vitest';
-import { formatLocalDate, formatYMD } from './dateUtils';
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  formatLocalDate,
+  formatYMD,
+  setAppTimeZone,
+  timeZoneOffsetMinutes,
+  todayString,
+  zonedDateString,
+  zonedTimeString,
+  zonedTimeToDate,
+} from './dateUtils';
 
 describe('formatLocalDate', () => {
   it('formats a regular local date as YYYY-MM-DD', () => {
@@ -57,3 +66,51 @@ describe('formatYMD', () => {
     expect(formatYMD(2025, 12, 15)).toBe('2025-12-15');
   });
 });
+
+describe('organization timezone', () => {
+  afterEach(() => setAppTimeZone(null));
+
+  it('puts "today" on the organization\'s calendar, not the browser\'s', () => {
+    // 22:30 UTC is already the next day in Sofia and still the same day in New York
+    const instant = new Date(Date.UTC(2026, 5, 15, 22, 30));
+    expect(todayString('Europe/Sofia', instant)).toBe('2026-06-16');
+    expect(todayString('America/New_York', instant)).toBe('2026-06-15');
+  });
+
+  it('uses the app timezone when none is passed', () => {
+    const instant = new Date(Date.UTC(2026, 5, 15, 22, 30));
+    setAppTimeZone('Europe/Sofia');
+    expect(todayString(undefined, instant)).toBe('2026-06-16');
+    setAppTimeZone('Not/AZone');
+    expect(todayString(undefined, instant)).toBe(formatLocalDate(instant));
+  });
+
+  it('follows the offset across DST transitions', () => {
+    // Sofia: UTC+2 in winter, UTC+3 from Mar 29, 2026 01:00 UTC to Oct 25, 2026 01:00 UTC
+    expect(timeZoneOffsetMinutes(new Date(Date.UTC(2026, 2, 29, 0, 59)), 'Europe/Sofia')).toBe(120);
+    expect(timeZoneOffsetMinutes(new Date(Date.UTC(2026, 2, 29, 1, 0)), 'Europe/Sofia')).toBe(180);
+    expect(timeZoneOffsetMinutes(new Date(Date.UTC(2026, 9, 25, 1, 0)), 'Europe/Sofia')).toBe(120);
+    expect(zonedTimeString(new Date(Date.UTC(2026, 2, 29, 1, 0)), 'Europe/Sofia')).toBe('04:00');
+  });
+
+  it('converts wall-clock times to instants on either side of a DST change', () => {
+    expect(zonedTimeToDate('2026-03-28', '09:00', 'Europe/Sofia').toISOString()).toBe('2026-03-28T07:00:00.000Z');
+    expect(zonedTimeToDate('2026-03-29', '09:00', 'Europe/Sofia').toISOString()).toBe('2026-03-29T06:00:00.000Z');
+    expect(zonedTimeToDate('2026-11-01', '09:00', 'America/New_York').toISOString()).toBe('2026-11-01T14:00:00.000Z');
+    expect(zonedTimeToDate('2026-10-31', '09:00', 'America/New_York').toISOString()).toBe('2026-10-31T13:00:00.000Z');
+  });
+
+  it('moves a time skipped by spring-forward to after the jump', () => {
+    const instant = zonedTimeToDate('2026-03-29', '03:30', 'Europe/Sofia');
+    expect(zonedTimeString(instant, 'Europe/Sofia')).toBe('04:30');
+    expect(zonedDateString(instant, 'Europe/Sofia')).toBe('2026-03-29');
+  });
+
+  it('round-trips every half hour of a DST day', () => {
+    for (let minutes = 8 * 60; minutes <= 20 * 60; minutes += 30) {
+      const time = `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+      const instant = zonedTimeToDate('2026-10-25', time, 'Europe/Sofia');
+      expect(zonedTimeString(instant, 'Europe/Sofia')).toBe(time);
+    }
+  });
+});
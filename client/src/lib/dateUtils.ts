@@ -17,6 +17,117 @@ export function formatYMD(year: number, month: number, day: number): string {
   return `${year}-${mm}-${dd}`;
 }
 
+// ── Organization timezone ──────────────────────────────────────────────
+// Day boundaries ("today", booking windows, meeting room hours) follow the
+// organization's timezone, not the browser's, so a manager travelling abroad
+// sees the same calendar as the front desk.
+
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function zoneFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = zoneFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    zoneFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string | null | undefined): timeZone is string {
+  if (!timeZone) return false;
+  try {
+    zoneFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Wall-clock fields of `instant` in `timeZone`. */
+export function zonedParts(instant: Date, timeZone: string): {
+  year: number; month: number; day: number; hour: number; minute: number; second: number;
+} {
+  const fields: Record<string, number> = {};
+  for (const part of zoneFormatter(timeZone).formatToParts(instant)) {
+    if (part.type !== 'literal') fields[part.type] = Number(part.value);
+  }
+  return {
+    year: fields.year,
+    month: fields.month,
+    day: fields.day,
+    hour: fields.hour,
+    minute: fields.minute,
+    second: fields.second,
+  };
+}
+
+/** The calendar date (YYYY-MM-DD) of `instant` in `timeZone`. */
+export function zonedDateString(instant: Date, timeZone: string): string {
+  const { year, month, day } = zonedParts(instant, timeZone);
+  return formatYMD(year, month, day);
+}
+
+/** The wall-clock time (HH:mm) of `instant` in `timeZone`. */
+export function zonedTimeString(instant: Date, timeZone: string): string {
+  const { hour, minute } = zonedParts(instant, timeZone);
+  return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+}
+
+/** Minutes `timeZone` is ahead of UTC at `instant` (120 for Sofia in winter). */
+export function timeZoneOffsetMinutes(instant: Date, timeZone: string): number {
+  const { year, month, day, hour, minute, second } = zonedParts(instant, timeZone);
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+  return Math.round((asUtc - Math.floor(instant.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * The instant a wall-clock `date` + `time` (HH:mm) happens in `timeZone`.
+ * A time skipped by a DST jump moves forward by the jump (03:30 on the
+ * spring-forward night in Sofia becomes 04:30); a time repeated when clocks
+ * go back resolves to its second, standard-time occurrence.
+ */
+export function zonedTimeToDate(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute);
+  const guess = asUtc - timeZoneOffsetMinutes(new Date(asUtc), timeZone) * 60000;
+  return new Date(asUtc - timeZoneOffsetMinutes(new Date(guess), timeZone) * 60000);
+}
+
+let appTimeZone: string | null = null;
+
+/**
+ * Sets the timezone "today" and the calendar ranges below are computed in.
+ * OrganizationContext keeps it on the current organization's; null falls back
+ * to the browser's.
+ */
+export function setAppTimeZone(timeZone: string | null | undefined): void {
+  appTimeZone = isValidTimeZone(timeZone) ? timeZone : null;
+}
+
+export function getAppTimeZone(): string {
+  return appTimeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/** Today's date (YYYY-MM-DD) in `timeZone`, or in the app timezone when omitted. */
+export function todayString(timeZone?: string | null, now: Date = new Date()): string {
+  const zone = isValidTimeZone(timeZone) ? timeZone : appTimeZone;
+  return zone ? zonedDateString(now, zone) : formatLocalDate(now);
+}
+
+function today(): Dayjs {
+  return dayjs(todayString());
+}
+
 export interface WeekDay {
   date: Dayjs;
   dayName: string;
@@ -33,8 +144,7 @@ export interface MonthDay {
 }
 
 export function getCurrentWeek(): WeekDay[] {
-  const today = dayjs();
-  const startOfWeek = today.startOf('isoWeek');
+  const startOfWeek = today().startOf('isoWeek');
   
   const weekDays: WeekDay[] = [];
   for (let i = 0; i < 7; i++) {
@@ -51,8 +161,7 @@ export function getCurrentWeek(): WeekDay[] {
 }
 
 export function getWeekRange(weekOffset: number = 0): WeekDay[] {
-  const today = dayjs().add(weekOffset, 'week');
-  const startOfWeek = today.startOf('isoWeek');
+  const startOfWeek = today().add(weekOffset, 'week').startOf('isoWeek');
   
   const weekDays: WeekDay[] = [];
   for (let i = 0; i < 7; i++) {
@@ -69,7 +178,7 @@ export function getWeekRange(weekOffset: number = 0): WeekDay[] {
 }
 
 export function getMonthRange(monthOffset: number = 0): MonthDay[] {
-  const baseDate = dayjs().add(monthOffset, 'month');
+  const baseDate = today().add(monthOffset, 'month');
   const startOfMonth = baseDate.startOf('month');
   const endOfMonth = baseDate.endOf('month');
   const monthDays: MonthDay[] = [];
@@ -103,8 +212,7 @@ export function getWeekRangeString(weekOffset: number = 0): string {
 }
 
 export function getMonthRangeString(monthOffset: number = 0): string {
-  const today = dayjs().add(monthOffset, 'month');
-  return today.format('MMMM YYYY');
+  return today().add(monthOffset, 'month').format('MMMM YYYY');
 }
 
 export function formatInvoiceDate(iso: string): string {
@@ -125,9 +233,9 @@ export function formatDateRange(startDate: string, endDate: string): string {
 }
 
 export function getThreeDayRange(offset: number = 0): WeekDay[] {
-  const today = dayjs().add(offset * 3, 'day');
+  const first = today().add(offset * 3, 'day');
   return [0, 1, 2].map(i => {
-    const date = today.add(i, 'day');
+    const date = first.add(i, 'day');
     return {
       date,
       dayName: date.format('ddd'),
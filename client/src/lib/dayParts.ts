@@ -0,0 +1,62 @@
+import type { DayPart, DeskBooking } from '@shared/schema';
+import { slotKey } from './offlineQueue';
+
+/**
+ * Half-day bookings. A desk can be sold as a whole day or as separate morning
+ * (AM) and afternoon (PM) passes. Half-day rows live next to full-day rows
+ * under their own slot key (`deskId-date-am`), so two people can share a
+ * desk on one date as long as their parts of the day don't overlap.
+ */
+
+export const DAY_PART_LABELS: Record<DayPart, string> = {
+  full: 'Full day',
+  am: 'Morning',
+  pm: 'Afternoon',
+};
+
+export const DAY_PART_SHORT_LABELS: Record<DayPart, string> = {
+  full: 'Day',
+  am: 'AM',
+  pm: 'PM',
+};
+
+export function dayPartOf(booking: { dayPart?: DayPart | null } | null | undefined): DayPart {
+  return booking?.dayPart ?? 'full';
+}
+
+export function isHalfDay(booking: { dayPart?: DayPart | null } | null | undefined): boolean {
+  return dayPartOf(booking) !== 'full';
+}
+
+/** Whether two bookings on the same desk and date would clash. */
+export function dayPartsOverlap(a: DayPart, b: DayPart): boolean {
+  return a === 'full' || b === 'full' || a === b;
+}
+
+/** Keys of every slot a booking for `dayPart` would collide with. */
+export function overlappingSlotKeys(deskId: string, date: string, dayPart: DayPart): string[] {
+  if (dayPart === 'full') {
+    return [slotKey(deskId, date), slotKey(deskId, date, 'am'), slotKey(deskId, date, 'pm')];
+  }
+  return [slotKey(deskId, date), slotKey(deskId, date, dayPart)];
+}
+
+export interface DaySlots {
+  full: DeskBooking | null;
+  am: DeskBooking | null;
+  pm: DeskBooking | null;
+}
+
+/** The rows stored for one desk on one date, by part of the day. */
+export function daySlots(bookings: Record<string, DeskBooking>, deskId: string, date: string): DaySlots {
+  return {
+    full: bookings[slotKey(deskId, date)] ?? null,
+    am: bookings[slotKey(deskId, date, 'am')] ?? null,
+    pm: bookings[slotKey(deskId, date, 'pm')] ?? null,
+  };
+}
+
+/** Share of a desk-day a booking takes up, for occupancy figures. */
+export function dayPartWeight(booking: { dayPart?: DayPart | null }): number {
+  return isHalfDay(booking) ? 0.5 : 1;
+}
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import type { DeskBooking } from '@shared/schema';
+import { buildBookedSet } from './bookingAvailability';
+import { allocateDesks, freeStretchAround, isReallocatable, planReallocation } from './deskAllocation';
+
+const desks = [
+  { deskId: 'd1', label: 'Desk 1' },
+  { deskId: 'd2', label: 'Desk 2' },
+  { deskId: 'd3', label: 'Desk 3' },
+];
+
+function row(deskId: string, date: string, overrides: Partial<DeskBooking> = {}): DeskBooking {
+  return {
+    id: `${deskId}-${date}`,
+    deskId,
+    date,
+    startDate: date,
+    endDate: date,
+    status: 'assigned',
+    personName: 'Alice',
+    clientId: '1',
+    isFlex: true,
+    currency: 'EUR',
+    createdAt: '2026-04-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('freeStretchAround', () => {
+  it('measures the free days around a date up to the horizon', () => {
+    const taken = buildBookedSet([
+      { deskId: 'd1', date: '2026-04-13' },
+      { deskId: 'd1', date: '2026-04-17' },
+    ]);
+    expect(freeStretchAround(taken, 'd1', '2026-04-15')).toBe(3);
+    expect(freeStretchAround(taken, 'd2', '2026-04-15', 'full', 2)).toBe(5);
+  });
+
+  it('scores a half day next to a taken half as a perfect fit', () => {
+    const taken = buildBookedSet([{ deskId: 'd1', date: '2026-04-15', dayPart: 'am' }]);
+    expect(freeStretchAround(taken, 'd1', '2026-04-15', 'pm')).toBe(0);
+  });
+});
+
+describe('allocateDesks', () => {
+  it('keeps one person on one desk across all their days', () => {
+    const taken = buildBookedSet([{ deskId: 'd1', date: '2026-04-16' }]);
+    const { assignments, unassigned } = allocateDesks(desks, taken, ['2026-04-15', '2026-04-16', '2026-04-17']);
+
+    expect(unassigned).toEqual([]);
+    expect(new Set(assignments.map(a => a.desk.deskId)).size).toBe(1);
+    expect(assignments[0].desk.deskId).not.toBe('d1');
+  });
+
+  it('packs a short booking into the tightest gap', () => {
+    // d2 has a one-day hole on the 15th; d1 and d3 are wide open
+    const taken = buildBookedSet([
+      { deskId: 'd2', date: '2026-04-14' },
+      { deskId: 'd2', date: '2026-04-16' },
+    ]);
+    const { assignments } = allocateDesks(desks, taken, ['2026-04-15']);
+    expect(assignments[0].desk.deskId).toBe('d2');
+  });
+
+  it('falls back to day by day and reports dates with no desk', () => {
+    const taken = buildBookedSet([
+      { deskId: 'd1', date: '2026-04-16' },
+      { deskId: 'd2', date: '2026-04-15' },
+      { deskId: 'd3', date: '2026-04-15' },
+      { deskId: 'd1', date: '2026-04-17' },
+      { deskId: 'd2', date: '2026-04-17' },
+      { deskId: 'd3', date: '2026-04-17' },
+    ]);
+    const { assignments, unassigned } = allocateDesks(desks, taken, ['2026-04-16', '2026-04-15', '2026-04-17']);
+
+    expect(unassigned).toEqual(['2026-04-17']);
+    expect(assignments.map(a => [a.date, a.desk.deskId])).toEqual([
+      ['2026-04-15', 'd1'],
+      ['2026-04-16', 'd2'],
+    ]);
+  });
+
+  it('does not modify the booked set it is given', () => {
+    const taken = buildBookedSet([]);
+    allocateDesks(desks, taken, ['2026-04-15']);
+    expect(taken.size).toBe(0);
+  });
+});
+
+describe('isReallocatable', () => {
+  it('only moves future flex and visitor bookings', () => {
+    expect(isReallocatable(row('d1', '2026-04-20'), '2026-04-15')).toBe(true);
+    expect(isReallocatable(row('d1', '2026-04-20', { isFlex: false, visitorName: 'Eve' }), '2026-04-15')).toBe(true);
+    expect(isReallocatable(row('d1', '2026-04-15'), '2026-04-15')).toBe(false);
+    expect(isReallocatable(row('d1', '2026-04-20', { isFlex: false }), '2026-04-15')).toBe(false);
+    expect(isReallocatable(row('d1', '2026-04-20', { planType: 'monthly' }), '2026-04-15')).toBe(false);
+  });
+});
+
+describe('planReallocation', () => {
+  const range = { today: '2026-04-12', fromDate: '2026-04-13', toDate: '2026-05-10' };
+
+  it('moves a member next to their own neighbouring day', () => {
+    const bookings = [
+      row('d1', '2026-04-14'),
+      row('d2', '2026-04-15'),
+      row('d3', '2026-04-15', { personName: 'Bob', clientId: '2', isFlex: false }),
+    ];
+    const proposals = planReallocation({ desks: [{ id: 'd1' }, { id: 'd2' }, { id: 'd3' }], bookings, ...range });
+
+    // Either day may move; both end up on one desk and Bob stays put
+    expect(proposals).toHaveLength(1);
+    const [{ run, toDeskId }] = proposals;
+    const otherDay = bookings.find(b => b.personName === 'Alice' && b.date !== run.startDate);
+    expect(toDeskId).toBe(otherDay?.deskId);
+  });
+
+  it('keeps bookings on desks with the same attributes and leaves blocked desks alone', () => {
+    const bookings = [row('d1', '2026-04-14'), row('d2', '2026-04-15')];
+    const proposals = planReallocation({
+      desks: [{ id: 'd1', attributes: ['Window seat'] }, { id: 'd2' }, { id: 'd3' }],
+      bookings,
+      blocks: [{ id: 'b', deskId: 'd3', startDate: '2026-04-15', endDate: '2026-04-15', reason: 'maintenance', createdAt: '' }],
+      ...range,
+    });
+    expect(proposals).toEqual([]);
+  });
+});
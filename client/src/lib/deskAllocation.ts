@@ -0,0 +1,236 @@
+import type { DayPart, Desk, DeskBlock, DeskBooking } from '@shared/schema';
+import { bookedSlotKey, isDeskFree } from './bookingAvailability';
+import { generateDateRange } from './dateUtils';
+import { DEDICATED_PLAN_TYPES, addDays } from './planDates';
+import { dayPartOf } from './dayParts';
+import { BookingRun, runOf } from './bookingMoves';
+
+/**
+ * Desk allocation for bookings where nobody picks the desk: member flex
+ * bookings and public visitor bookings. Picking at random scatters people
+ * over the grid and leaves no desk free for a whole week when a weekly
+ * customer calls. Instead we keep a person on one desk across their days,
+ * and put short bookings where the free stretch is shortest (best fit), so
+ * long free stretches stay whole.
+ */
+
+/** Days looked at on either side of a date when measuring its free stretch. */
+export const ALLOCATION_HORIZON_DAYS = 14;
+
+type HasDeskId = { deskId: string };
+
+/**
+ * Length of the free stretch on a desk around `date`, the date included, up
+ * to the horizon on each side. Lower is a better fit. A half day scores 0 on
+ * a desk whose other half is already taken, so half days pair up.
+ */
+export function freeStretchAround(
+  taken: Set<string>,
+  deskId: string,
+  date: string,
+  dayPart: DayPart = 'full',
+  horizon: number = ALLOCATION_HORIZON_DAYS,
+): number {
+  if (dayPart !== 'full') {
+    const otherHalf = dayPart === 'am' ? 'pm' : 'am';
+    if (!isDeskFree(taken, deskId, date, otherHalf)) return 0;
+  }
+  let length = 1;
+  for (const step of [-1, 1]) {
+    for (let i = 1; i <= horizon; i++) {
+      if (!isDeskFree(taken, deskId, addDays(date, step * i))) break;
+      length++;
+    }
+  }
+  return length;
+}
+
+function fitScore(taken: Set<string>, deskId: string, dates: readonly string[], dayPart: DayPart): number {
+  return dates.reduce((sum, date) => sum + freeStretchAround(taken, deskId, date, dayPart), 0);
+}
+
+/** Free desk with the best fit for all of `dates`; earlier desks win ties. */
+function bestFit<D extends HasDeskId>(
+  desks: readonly D[],
+  taken: Set<string>,
+  dates: readonly string[],
+  dayPart: DayPart,
+): D | null {
+  let best: D | null = null;
+  let bestScore = Infinity;
+  for (const desk of desks) {
+    if (!dates.every(date => isDeskFree(taken, desk.deskId, date, dayPart))) continue;
+    const score = fitScore(taken, desk.deskId, dates, dayPart);
+    if (score < bestScore) {
+      best = desk;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/** Splits sorted dates into runs of consecutive calendar days. */
+function consecutiveRuns(dates: readonly string[]): string[][] {
+  const runs: string[][] = [];
+  for (const date of dates) {
+    const last = runs[runs.length - 1];
+    if (last && addDays(last[last.length - 1], 1) === date) last.push(date);
+    else runs.push([date]);
+  }
+  return runs;
+}
+
+/**
+ * Assigns a desk to each of one person's dates. One desk for every date when
+ * there is one; otherwise one desk per run of consecutive days, and failing
+ * that day by day, staying on the previous day's desk where it is free.
+ * `taken` is the booked set of the public availability (see buildBookedSet)
+ * and is not modified. Dates no desk is free on come back in `unassigned`.
+ */
+export function allocateDesks<D extends HasDeskId>(
+  desks: readonly D[],
+  taken: Set<string>,
+  dates: readonly string[],
+  dayPart: DayPart = 'full',
+): { assignments: { date: string; desk: D }[]; unassigned: string[] } {
+  const sorted = Array.from(new Set(dates)).sort();
+  const booked = new Set(taken);
+  const assignments: { date: string; desk: D }[] = [];
+  const unassigned: string[] = [];
+  const assign = (date: string, desk: D) => {
+    booked.add(bookedSlotKey(desk.deskId, date, dayPart));
+    assignments.push({ date, desk });
+  };
+
+  const single = bestFit(desks, booked, sorted, dayPart);
+  if (single) {
+    for (const date of sorted) assign(date, single);
+    return { assignments, unassigned };
+  }
+
+  let previous: D | null = null;
+  for (const run of consecutiveRuns(sorted)) {
+    const runDesk = bestFit(desks, booked, run, dayPart);
+    if (runDesk) {
+      for (const date of run) assign(date, runDesk);
+      previous = runDesk;
+      continue;
+    }
+    for (const date of run) {
+      const desk = previous && isDeskFree(booked, previous.deskId, date, dayPart)
+        ? previous
+        : bestFit(desks, booked, [date], dayPart);
+      if (desk) assign(date, desk);
+      else unassigned.push(date);
+      previous = desk;
+    }
+  }
+  assignments.sort((a, b) => a.date.localeCompare(b.date));
+  return { assignments, unassigned };
+}
+
+/**
+ * Bookings the system placed rather than a manager: member flex days and
+ * public visitor bookings. Those the re-optimizer may move, as long as they
+ * haven't started, aren't a dedicated plan or contract, and aren't paused.
+ */
+export function isReallocatable(booking: DeskBooking, today: string): boolean {
+  if (!booking.isFlex && !booking.visitorName) return false;
+  if (booking.status === 'available' || booking.isFrozen || booking.isOngoing) return false;
+  if (booking.planType && DEDICATED_PLAN_TYPES.includes(booking.planType)) return false;
+  return booking.startDate > today;
+}
+
+export interface DeskReassignment {
+  run: BookingRun;
+  /** The run's day rows as stored now, by date. */
+  rows: DeskBooking[];
+  toDeskId: string;
+}
+
+function personKey(booking: DeskBooking): string {
+  return booking.clientId ? `client:${booking.clientId}` : `name:${(booking.personName ?? '').trim().toLowerCase()}`;
+}
+
+function attributeSignature(desk: { attributes?: string[] | null }): string {
+  return (desk.attributes ?? []).map(a => a.trim().toLowerCase()).sort().join('|');
+}
+
+/**
+ * Proposes desk changes for future auto-placed bookings in [fromDate, toDate].
+ * Each run in turn is lifted off the grid and put back on the desk that fits
+ * best, next to the same person's neighbouring days where possible. Runs only
+ * move between desks with the same attributes, since the visitor may have
+ * asked for them. Every proposal is valid given the ones before it, so
+ * applying them in order never hits a conflict.
+ */
+export function planReallocation(params: {
+  desks: readonly Pick<Desk, 'id' | 'attributes'>[];
+  bookings: readonly DeskBooking[];
+  blocks?: readonly DeskBlock[];
+  today: string;
+  fromDate: string;
+  toDate: string;
+}): DeskReassignment[] {
+  const { desks, bookings, blocks = [], today, fromDate, toDate } = params;
+  const taken = new Set<string>();
+  const placedBy = new Map<string, string>();
+
+  const runs = new Map<string, DeskBooking[]>();
+  for (const booking of bookings) {
+    if (booking.status === 'available' || booking.isFrozen) continue;
+    taken.add(bookedSlotKey(booking.deskId, booking.date, booking.dayPart));
+    placedBy.set(bookedSlotKey(booking.deskId, booking.date, booking.dayPart), personKey(booking));
+    if (isReallocatable(booking, today) && booking.startDate >= fromDate && booking.endDate <= toDate) {
+      const key = `${booking.deskId}:${booking.startDate}:${booking.endDate}:${dayPartOf(booking)}`;
+      runs.set(key, [...(runs.get(key) ?? []), booking]);
+    }
+  }
+  for (const block of blocks) {
+    for (const date of generateDateRange(block.startDate, block.endDate)) taken.add(bookedSlotKey(block.deskId, date));
+  }
+
+  const signatureOf = new Map(desks.map(d => [d.id, attributeSignature(d)]));
+  const ordered = Array.from(runs.values())
+    .map(rows => rows.sort((a, b) => a.date.localeCompare(b.date)))
+    .sort((a, b) => a[0].startDate.localeCompare(b[0].startDate) || b.length - a.length);
+
+  const proposals: DeskReassignment[] = [];
+  for (const rows of ordered) {
+    const first = rows[0];
+    const run = runOf(first);
+    const dayPart = dayPartOf(first);
+    const dates = rows.map(r => r.date);
+    const person = personKey(first);
+    for (const date of dates) {
+      taken.delete(bookedSlotKey(run.deskId, date, run.dayPart));
+      placedBy.delete(bookedSlotKey(run.deskId, date, run.dayPart));
+    }
+
+    const candidates = desks
+      .filter(d => signatureOf.get(d.id) === signatureOf.get(run.deskId))
+      .filter(d => dates.every(date => isDeskFree(taken, d.id, date, dayPart)));
+    const score = (deskId: string) => {
+      const nextToSelf = [addDays(run.startDate, -1), addDays(run.endDate, 1)]
+        .some(date => placedBy.get(bookedSlotKey(deskId, date)) === person);
+      // Staying with your own neighbouring days beats any packing gain
+      return (nextToSelf ? -1000 : 0) + fitScore(taken, deskId, dates, dayPart);
+    };
+    let toDeskId = run.deskId;
+    let bestScore = score(run.deskId);
+    for (const desk of candidates) {
+      const s = score(desk.id);
+      if (s < bestScore) {
+        toDeskId = desk.id;
+        bestScore = s;
+      }
+    }
+
+    for (const date of dates) {
+      taken.add(bookedSlotKey(toDeskId, date, run.dayPart));
+      placedBy.set(bookedSlotKey(toDeskId, date, run.dayPart), person);
+    }
+    if (toDeskId !== run.deskId) proposals.push({ run, rows, toDeskId });
+  }
+  return proposals;
+}
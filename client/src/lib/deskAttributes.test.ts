@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import {
+  collectDeskAttributes,
+  filterDesksByAttributes,
+  hasDeskAttributes,
+  normalizeDeskAttribute,
+  toggleDeskAttribute,
+} from './deskAttributes';
+
+describe('normalizeDeskAttribute', () => {
+  it('trims and collapses whitespace', () => {
+    expect(normalizeDeskAttribute('  Dual   monitor ')).toBe('Dual monitor');
+  });
+
+  it('rejects blank and overlong attributes', () => {
+    expect(normalizeDeskAttribute('   ')).toBeNull();
+    expect(normalizeDeskAttribute('x'.repeat(41))).toBeNull();
+  });
+});
+
+describe('toggleDeskAttribute', () => {
+  it('adds a missing attribute', () => {
+    expect(toggleDeskAttribute(['Window seat'], 'Standing desk')).toEqual(['Window seat', 'Standing desk']);
+  });
+
+  it('removes an attribute regardless of case', () => {
+    expect(toggleDeskAttribute(['Window seat', 'Standing desk'], 'window SEAT')).toEqual(['Standing desk']);
+  });
+});
+
+describe('collectDeskAttributes', () => {
+  it('dedupes across desks ignoring case and sorts', () => {
+    const desks = [
+      { attributes: ['Window seat', 'Dual monitor'] },
+      { attributes: ['window seat'] },
+      { attributes: null },
+      {},
+    ];
+    expect(collectDeskAttributes(desks)).toEqual(['Dual monitor', 'Window seat']);
+  });
+});
+
+describe('hasDeskAttributes', () => {
+  const desk = { attributes: ['Dual monitor', 'Window seat'] };
+
+  it('matches every desk when nothing is required', () => {
+    expect(hasDeskAttributes({}, [])).toBe(true);
+  });
+
+  it('requires all attributes', () => {
+    expect(hasDeskAttributes(desk, ['dual monitor'])).toBe(true);
+    expect(hasDeskAttributes(desk, ['Dual monitor', 'Standing desk'])).toBe(false);
+  });
+});
+
+describe('filterDesksByAttributes', () => {
+  it('keeps only matching desks', () => {
+    const desks = [
+      { id: 'd1', attributes: ['Standing desk'] },
+      { id: 'd2', attributes: [] },
+    ];
+    expect(filterDesksByAttributes(desks, ['Standing desk']).map(d => d.id)).toEqual(['d1']);
+    expect(filterDesksByAttributes(desks, [])).toBe(desks);
+  });
+});
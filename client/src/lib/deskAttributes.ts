@@ -0,0 +1,59 @@
+/**
+ * Desk attributes are free-text tags set per desk in Rooms & Desks ("Dual
+ * monitor", "Window seat"). The calendar filters on them and public visitors
+ * can ask for a desk that has them. Matching ignores case, so "window seat"
+ * and "Window Seat" are the same attribute.
+ */
+
+export const SUGGESTED_DESK_ATTRIBUTES = [
+  'Dual monitor',
+  'Standing desk',
+  'Window seat',
+  'Near phone booth',
+] as const;
+
+export const MAX_ATTRIBUTE_LENGTH = 40;
+
+type WithAttributes = { attributes?: string[] | null };
+
+function attributeKey(attribute: string): string {
+  return attribute.trim().toLowerCase();
+}
+
+/** Collapses whitespace; returns null for a blank or overlong attribute. */
+export function normalizeDeskAttribute(raw: string): string | null {
+  const cleaned = raw.trim().replace(/\s+/g, ' ');
+  if (!cleaned || cleaned.length > MAX_ATTRIBUTE_LENGTH) return null;
+  return cleaned;
+}
+
+/** Adds the attribute, or removes it when the desk already has it. */
+export function toggleDeskAttribute(attributes: readonly string[], attribute: string): string[] {
+  const key = attributeKey(attribute);
+  return attributes.some(a => attributeKey(a) === key)
+    ? attributes.filter(a => attributeKey(a) !== key)
+    : [...attributes, attribute];
+}
+
+/** Every attribute used by at least one desk, first spelling wins, sorted. */
+export function collectDeskAttributes(desks: readonly WithAttributes[]): string[] {
+  const seen = new Map<string, string>();
+  for (const desk of desks) {
+    for (const attribute of desk.attributes ?? []) {
+      const key = attributeKey(attribute);
+      if (key && !seen.has(key)) seen.set(key, attribute.trim());
+    }
+  }
+  return Array.from(seen.values()).sort((a, b) => a.localeCompare(b));
+}
+
+/** True when the desk has every required attribute. */
+export function hasDeskAttributes(desk: WithAttributes, required: readonly string[]): boolean {
+  if (required.length === 0) return true;
+  const own = new Set((desk.attributes ?? []).map(attributeKey));
+  return required.every(a => own.has(attributeKey(a)));
+}
+
+export function filterDesksByAttributes<D extends WithAttributes>(desks: D[], required: readonly string[]): D[] {
+  return required.length === 0 ? desks : desks.filter(d => hasDeskAttributes(d, required));
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import type { DeskBlock } from '@shared/schema';
+import {
+  blockCoversDate,
+  blocksInRange,
+  countBlockedDeskDays,
+  findDeskBlock,
+  validateDeskBlock,
+} from './deskBlocks';
+
+function block(overrides: Partial<DeskBlock>): DeskBlock {
+  return {
+    id: 'b1',
+    deskId: 'desk-1',
+    startDate: '2026-03-02',
+    endDate: '2026-03-06',
+    reason: 'maintenance',
+    createdAt: '2026-03-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('blockCoversDate', () => {
+  it('includes both ends of the range', () => {
+    const b = block({});
+    expect(blockCoversDate(b, '2026-03-02')).toBe(true);
+    expect(blockCoversDate(b, '2026-03-06')).toBe(true);
+    expect(blockCoversDate(b, '2026-03-07')).toBe(false);
+  });
+});
+
+describe('findDeskBlock', () => {
+  it('matches on desk and date', () => {
+    const blocks = [block({ id: 'b1' }), block({ id: 'b2', deskId: 'desk-2' })];
+    expect(findDeskBlock(blocks, 'desk-2', '2026-03-04')?.id).toBe('b2');
+    expect(findDeskBlock(blocks, 'desk-3', '2026-03-04')).toBeNull();
+  });
+});
+
+describe('blocksInRange', () => {
+  it('keeps blocks that overlap the range', () => {
+    const blocks = [
+      block({ id: 'before', startDate: '2026-02-01', endDate: '2026-02-28' }),
+      block({ id: 'straddles', startDate: '2026-02-25', endDate: '2026-03-03' }),
+      block({ id: 'inside' }),
+    ];
+    expect(blocksInRange(blocks, '2026-03-01', '2026-03-31').map(b => b.id)).toEqual(['straddles', 'inside']);
+  });
+});
+
+describe('countBlockedDeskDays', () => {
+  const days = ['2026-03-05', '2026-03-06', '2026-03-07', '2026-03-08', '2026-03-09'];
+
+  it('counts overlapping blocks on one desk once', () => {
+    const blocks = [block({ id: 'b1' }), block({ id: 'b2', reason: 'event', startDate: '2026-03-06', endDate: '2026-03-09' })];
+    expect(countBlockedDeskDays(blocks, days)).toBe(5);
+  });
+
+  it('skips days off when working days are given', () => {
+    const blocks = [block({ endDate: '2026-03-09' })];
+    // 7th and 8th are a weekend
+    expect(countBlockedDeskDays(blocks, days, [1, 2, 3, 4, 5])).toBe(3);
+  });
+
+  it('counts each desk separately', () => {
+    const blocks = [block({}), block({ id: 'b2', deskId: 'desk-2' })];
+    expect(countBlockedDeskDays(blocks, ['2026-03-05'])).toBe(2);
+  });
+});
+
+describe('validateDeskBlock', () => {
+  it('rejects an end before the start', () => {
+    expect(validateDeskBlock({ deskId: 'desk-1', startDate: '2026-03-06', endDate: '2026-03-02' })).toMatch(/end date/);
+    expect(validateDeskBlock({ deskId: 'desk-1', startDate: '2026-03-02', endDate: '2026-03-02' })).toBeNull();
+  });
+});
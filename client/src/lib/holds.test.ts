@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { describeHold, expiredHolds, holdExpiry, holdFromInput, holdInputValue, isHold, occupiesDesk } from './holds';
+
+const now = new Date('2026-03-10T12:00:00Z');
+
+describe('isHold and occupiesDesk', () => {
+  it('only treats booked rows with an expiry as holds', () => {
+    expect(isHold({ status: 'booked', heldUntil: '2026-03-11T12:00:00Z' })).toBe(true);
+    expect(isHold({ status: 'booked', heldUntil: null })).toBe(false);
+    expect(isHold({ status: 'assigned', heldUntil: '2026-03-11T12:00:00Z' })).toBe(false);
+  });
+
+  it('frees the desk once the hold has run out', () => {
+    expect(occupiesDesk({ status: 'booked', heldUntil: '2026-03-10T12:30:00Z' }, now)).toBe(true);
+    expect(occupiesDesk({ status: 'booked', heldUntil: '2026-03-10T12:00:00Z' }, now)).toBe(false);
+    expect(occupiesDesk({ status: 'booked' }, now)).toBe(true);
+    expect(occupiesDesk({ status: 'available' }, now)).toBe(false);
+  });
+});
+
+describe('expiredHolds', () => {
+  it('picks holds past their expiry and leaves paid bookings alone', () => {
+    const expired = { id: 'a', status: 'booked' as const, heldUntil: '2026-03-10T09:00:00Z' };
+    const running = { id: 'b', status: 'booked' as const, heldUntil: '2026-03-10T18:00:00Z' };
+    const paid = { id: 'c', status: 'assigned' as const, heldUntil: '2026-03-10T09:00:00Z' };
+    expect(expiredHolds([expired, running, paid], now)).toEqual([expired]);
+  });
+});
+
+describe('holdExpiry and describeHold', () => {
+  it('adds the hold length and shows it in the space timezone', () => {
+    const until = holdExpiry(24, now);
+    expect(until).toBe('2026-03-11T12:00:00.000Z');
+    expect(describeHold(until, 'Europe/Sofia')).toBe('Held until 2026-03-11 14:00');
+  });
+});
+
+describe('holdInputValue and holdFromInput', () => {
+  it('round-trips the expiry through a wall-clock input value', () => {
+    expect(holdInputValue('2026-03-11T16:30:00Z', 'Europe/Sofia')).toBe('2026-03-11T18:30');
+    expect(holdFromInput('2026-03-11T18:30', 'Europe/Sofia')).toBe('2026-03-11T16:30:00.000Z');
+  });
+});
@@ -0,0 +1,56 @@
+import type { DeskBooking } from '@shared/schema';
+import { getAppTimeZone, isValidTimeZone, zonedDateString, zonedTimeString, zonedTimeToDate } from './dateUtils';
+
+/**
+ * Tentative holds. A hold is a booked (unpaid) booking with an expiry: the
+ * desk stays taken until `heldUntil`, then it is released unless someone
+ * paid for it first. Expired holds count as free desks everywhere, even
+ * before the release has removed them.
+ */
+
+type HoldBooking = Pick<DeskBooking, 'status' | 'heldUntil'>;
+
+/** Hold length offered for a new hold when the space has none configured. */
+export const DEFAULT_HOLD_HOURS = 24;
+
+export function isHold(booking: HoldBooking): boolean {
+  return booking.status === 'booked' && !!booking.heldUntil;
+}
+
+export function isHoldExpired(booking: HoldBooking, now: Date = new Date()): boolean {
+  return isHold(booking) && new Date(booking.heldUntil!).getTime() <= now.getTime();
+}
+
+/** Whether the booking still keeps its desk from being sold. */
+export function occupiesDesk(booking: HoldBooking, now: Date = new Date()): boolean {
+  return booking.status !== 'available' && !isHoldExpired(booking, now);
+}
+
+/** Holds whose time ran out at `now`, due to be released. */
+export function expiredHolds<T extends HoldBooking>(bookings: readonly T[], now: Date = new Date()): T[] {
+  return bookings.filter(b => isHoldExpired(b, now));
+}
+
+/** Expiry of a hold placed at `now` for `hours` hours, as an ISO timestamp. */
+export function holdExpiry(hours: number, now: Date = new Date()): string {
+  return new Date(now.getTime() + hours * 60 * 60 * 1000).toISOString();
+}
+
+/** "Held until 2026-03-10 18:00" in `timeZone`, or in the app timezone when omitted. */
+export function describeHold(heldUntil: string, timeZone?: string | null): string {
+  const instant = new Date(heldUntil);
+  const tz = isValidTimeZone(timeZone) ? timeZone : getAppTimeZone();
+  return `Held until ${zonedDateString(instant, tz)} ${zonedTimeString(instant, tz)}`;
+}
+
+/** A hold's expiry as a datetime-local input value ("YYYY-MM-DDTHH:mm") in `timeZone`. */
+export function holdInputValue(heldUntil: string, timeZone: string): string {
+  const instant = new Date(heldUntil);
+  return `${zonedDateString(instant, timeZone)}T${zonedTimeString(instant, timeZone)}`;
+}
+
+/** Reads a datetime-local input value in `timeZone` back into an ISO timestamp. */
+export function holdFromInput(value: string, timeZone: string): string {
+  const [date, time] = value.split('T');
+  return zonedTimeToDate(date, time, timeZone).toISOString();
+}
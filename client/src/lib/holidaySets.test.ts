@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { HOLIDAY_SETS, easterSunday, getHolidaySet, holidayClosures, holidaysForYear } from './holidaySets';
+
+describe('easterSunday', () => {
+  it('computes Western Easter', () => {
+    expect(easterSunday(2025, 'western')).toEqual([4, 20]);
+    expect(easterSunday(2026, 'western')).toEqual([4, 5]);
+  });
+
+  it('computes Orthodox Easter on the Gregorian calendar', () => {
+    expect(easterSunday(2025, 'orthodox')).toEqual([4, 20]);
+    expect(easterSunday(2026, 'orthodox')).toEqual([4, 12]);
+    expect(easterSunday(2027, 'orthodox')).toEqual([5, 2]);
+  });
+});
+
+describe('holidaysForYear', () => {
+  it('resolves weekday rules, including the last weekday of a month', () => {
+    const us = holidaysForYear(getHolidaySet('US')!, 2026);
+    expect(us.find(h => h.label === 'Thanksgiving Day')?.date).toBe('2026-11-26');
+    expect(us.find(h => h.label === 'Memorial Day')?.date).toBe('2026-05-25');
+    const gb = holidaysForYear(getHolidaySet('GB')!, 2026);
+    expect(gb.find(h => h.label === 'Early May bank holiday')?.date).toBe('2026-05-04');
+    expect(gb.find(h => h.label === 'Summer bank holiday')?.date).toBe('2026-08-31');
+  });
+
+  it('places Easter-relative holidays', () => {
+    const bg = holidaysForYear(getHolidaySet('BG')!, 2026);
+    expect(bg.find(h => h.label === 'Good Friday')?.date).toBe('2026-04-10');
+    const de = holidaysForYear(getHolidaySet('DE')!, 2026);
+    expect(de.find(h => h.label === 'Pfingstmontag')?.date).toBe('2026-05-25');
+  });
+
+  it('returns dates in order for every set', () => {
+    for (const set of HOLIDAY_SETS) {
+      const dates = holidaysForYear(set, 2027).map(h => h.date);
+      expect(dates).toEqual([...dates].sort());
+      expect(dates.every(d => d.startsWith('2027-'))).toBe(true);
+    }
+  });
+});
+
+describe('holidayClosures', () => {
+  it('creates single-day closures tagged with the set', () => {
+    const [first] = holidayClosures(getHolidaySet('BG')!, 2026);
+    expect(first).toEqual({
+      id: 'BG-2026-01-01',
+      startDate: '2026-01-01',
+      endDate: '2026-01-01',
+      label: "New Year's Day",
+      holidaySet: 'BG',
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import type { OrgClosure } from '@shared/schema';
+import { formatLocalDate, formatYMD } from './dateUtils';
+
+/**
+ * National public holiday sets an organization can import into its closure
+ * calendar. Rules rather than date tables, so any year can be imported.
+ * Only the holidays themselves are listed — substitute days off for holidays
+ * that fall on a weekend vary too much to model and are left to the operator.
+ */
+
+type HolidayRule =
+  | { kind: 'fixed'; month: number; day: number; label: string }
+  /** Days relative to Easter Sunday (Western or Orthodox reckoning). */
+  | { kind: 'easter'; offset: number; label: string }
+  /** nth ISO weekday of a month; nth = -1 means the last one. */
+  | { kind: 'weekday'; month: number; weekday: number; nth: number; label: string };
+
+export interface HolidaySet {
+  code: string;
+  name: string;
+  easter: 'western' | 'orthodox';
+  rules: HolidayRule[];
+}
+
+export const HOLIDAY_SETS: HolidaySet[] = [
+  {
+    code: 'BG',
+    name: 'Bulgaria',
+    easter: 'orthodox',
+    rules: [
+      { kind: 'fixed', month: 1, day: 1, label: "New Year's Day" },
+      { kind: 'fixed', month: 3, day: 3, label: 'Liberation Day' },
+      { kind: 'easter', offset: -2, label: 'Good Friday' },
+      { kind: 'easter', offset: -1, label: 'Holy Saturday' },
+      { kind: 'easter', offset: 0, label: 'Easter Sunday' },
+      { kind: 'easter', offset: 1, label: 'Easter Monday' },
+      { kind: 'fixed', month: 5, day: 1, label: 'Labour Day' },
+      { kind: 'fixed', month: 5, day: 6, label: "St George's Day" },
+      { kind: 'fixed', month: 5, day: 24, label: 'Education and Culture Day' },
+      { kind: 'fixed', month: 9, day: 6, label: 'Unification Day' },
+      { kind: 'fixed', month: 9, day: 22, label: 'Independence Day' },
+      { kind: 'fixed', month: 12, day: 24, label: 'Christmas Eve' },
+      { kind: 'fixed', month: 12, day: 25, label: 'Christmas Day' },
+      { kind: 'fixed', month: 12, day: 26, label: 'Second day of Christmas' },
+    ],
+  },
+  {
+    code: 'GB',
+    name: 'United Kingdom (England & Wales)',
+    easter: 'western',
+    rules: [
+      { kind: 'fixed', month: 1, day: 1, label: "New Year's Day" },
+      { kind: 'easter', offset: -2, label: 'Good Friday' },
+      { kind: 'easter', offset: 1, label: 'Easter Monday' },
+      { kind: 'weekday', month: 5, weekday: 1, nth: 1, label: 'Early May bank holiday' },
+      { kind: 'weekday', month: 5, weekday: 1, nth: -1, label: 'Spring bank holiday' },
+      { kind: 'weekday', month: 8, weekday: 1, nth: -1, label: 'Summer bank holiday' },
+      { kind: 'fixed', month: 12, day: 25, label: 'Christmas Day' },
+      { kind: 'fixed', month: 12, day: 26, label: 'Boxing Day' },
+    ],
+  },
+  {
+    code: 'DE',
+    name: 'Germany (nationwide)',
+    easter: 'western',
+    rules: [
+      { kind: 'fixed', month: 1, day: 1, label: 'Neujahr' },
+      { kind: 'easter', offset: -2, label: 'Karfreitag' },
+      { kind: 'easter', offset: 1, label: 'Ostermontag' },
+      { kind: 'fixed', month: 5, day: 1, label: 'Tag der Arbeit' },
+      { kind: 'easter', offset: 39, label: 'Christi Himmelfahrt' },
+      { kind: 'easter', offset: 50, label: 'Pfingstmontag' },
+      { kind: 'fixed', month: 10, day: 3, label: 'Tag der Deutschen Einheit' },
+      { kind: 'fixed', month: 12, day: 25, label: '1. Weihnachtstag' },
+      { kind: 'fixed', month: 12, day: 26, label: '2. Weihnachtstag' },
+    ],
+  },
+  {
+    code: 'US',
+    name: 'United States (federal)',
+    easter: 'western',
+    rules: [
+      { kind: 'fixed', month: 1, day: 1, label: "New Year's Day" },
+      { kind: 'weekday', month: 1, weekday: 1, nth: 3, label: 'Martin Luther King Jr. Day' },
+      { kind: 'weekday', month: 2, weekday: 1, nth: 3, label: "Washington's Birthday" },
+      { kind: 'weekday', month: 5, weekday: 1, nth: -1, label: 'Memorial Day' },
+      { kind: 'fixed', month: 6, day: 19, label: 'Juneteenth' },
+      { kind: 'fixed', month: 7, day: 4, label: 'Independence Day' },
+      { kind: 'weekday', month: 9, weekday: 1, nth: 1, label: 'Labor Day' },
+      { kind: 'weekday', month: 10, weekday: 1, nth: 2, label: 'Columbus Day' },
+      { kind: 'fixed', month: 11, day: 11, label: 'Veterans Day' },
+      { kind: 'weekday', month: 11, weekday: 4, nth: 4, label: 'Thanksgiving Day' },
+      { kind: 'fixed', month: 12, day: 25, label: 'Christmas Day' },
+    ],
+  },
+];
+
+/** Easter Sunday as [month, day]. Orthodox dates are Gregorian, valid 1900–2099. */
+export function easterSunday(year: number, reckoning: 'western' | 'orthodox'): [number, number] {
+  if (reckoning === 'orthodox') {
+    // Meeus' Julian algorithm, shifted 13 days onto the Gregorian calendar
+    const a = year % 4;
+    const b = year % 7;
+    const c = year % 19;
+    const d = (19 * c + 15) % 30;
+    const e = (2 * a + 4 * b - d + 34) % 7;
+    const julianMonth = Math.floor((d + e + 114) / 31);
+    const julianDay = ((d + e + 114) % 31) + 1;
+    const date = new Date(year, julianMonth - 1, julianDay + 13);
+    return [date.getMonth() + 1, date.getDate()];
+  }
+  // Anonymous Gregorian algorithm
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return [month, day];
+}
+
+function nthWeekday(year: number, month: number, isoWeekday: number, nth: number): Date {
+  if (nth > 0) {
+    const first = new Date(year, month - 1, 1);
+    const firstIso = first.getDay() || 7;
+    const offset = (isoWeekday - firstIso + 7) % 7;
+    return new Date(year, month - 1, 1 + offset + (nth - 1) * 7);
+  }
+  const last = new Date(year, month, 0);
+  const lastIso = last.getDay() || 7;
+  const offset = (lastIso - isoWeekday + 7) % 7;
+  return new Date(year, month - 1, last.getDate() - offset);
+}
+
+/** The set's holidays in `year`, sorted by date. */
+export function holidaysForYear(set: HolidaySet, year: number): { date: string; label: string }[] {
+  const [easterMonth, easterDay] = easterSunday(year, set.easter);
+  const holidays = set.rules.map((rule) => {
+    switch (rule.kind) {
+      case 'fixed':
+        return { date: formatYMD(year, rule.month, rule.day), label: rule.label };
+      case 'easter':
+        return { date: formatLocalDate(new Date(year, easterMonth - 1, easterDay + rule.offset)), label: rule.label };
+      case 'weekday':
+        return { date: formatLocalDate(nthWeekday(year, rule.month, rule.weekday, rule.nth)), label: rule.label };
+    }
+  });
+  return holidays.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/** One single-day closure per holiday, tagged with the set's code. */
+export function holidayClosures(set: HolidaySet, year: number): OrgClosure[] {
+  return holidaysForYear(set, year).map(({ date, label }) => ({
+    id: `${set.code}-${date}`,
+    startDate: date,
+    endDate: date,
+    label,
+    holidaySet: set.code,
+  }));
+}
+
+export function getHolidaySet(code: string): HolidaySet | null {
+  return HOLIDAY_SETS.find(s => s.code === code) ?? null;
+}
@@ -0,0 +1,213 @@
+import { describe, it, expect } from 'vitest';
+import type { Client, DeskBooking, ImportBatch } from '@shared/schema';
+import { parseCsv } from './csvImport';
+import {
+  bookingSlotsToRollBack,
+  headerKey,
+  importBatchRange,
+  importBatchSummary,
+  invoiceStatusFromText,
+  invoicesToCommit,
+  lastImportBatch,
+  presetBookingMapping,
+  presetInvoiceMapping,
+  presetMemberMapping,
+  validateInvoiceRows,
+} from './migrationImport';
+
+const clients: Client[] = [
+  { id: '3', organizationId: 'o', name: 'Acme Ltd', email: 'billing@acme.test', createdAt: '' } as Client,
+  { id: '4', organizationId: 'o', name: 'Bob Jones', createdAt: '' } as Client,
+];
+
+function batch(overrides: Partial<ImportBatch> = {}): ImportBatch {
+  return {
+    id: '1',
+    source: 'nexudus',
+    kind: 'bookings',
+    clientIds: [],
+    bookingRows: [],
+    invoiceIds: [],
+    rolledBackAt: null,
+    createdAt: '2026-03-01T10:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function row(deskId: string, date: string, createdAt: string, overrides: Partial<DeskBooking> = {}): DeskBooking {
+  return {
+    id: `${deskId}-${date}`,
+    deskId,
+    date,
+    startDate: date,
+    endDate: date,
+    status: 'assigned',
+    createdAt,
+    ...overrides,
+  };
+}
+
+describe('headerKey', () => {
+  it('ignores case, spaces and punctuation', () => {
+    expect(headerKey('Coworker Full Name')).toBe('coworkerfullname');
+    expect(headerKey('coworker_full_name')).toBe('coworkerfullname');
+  });
+});
+
+describe('preset mappings', () => {
+  it('maps a Nexudus coworker export', () => {
+    expect(presetMemberMapping('nexudus', ['FullName', 'Email', 'MobilePhone', 'CompanyName', 'TaxIDNumber', 'Notes']))
+      .toEqual({
+        FullName: 'name',
+        Email: 'email',
+        MobilePhone: 'phone',
+        CompanyName: 'contact',
+        TaxIDNumber: 'taxId',
+        Notes: 'ignore',
+      });
+  });
+
+  it('falls back to the generic aliases for columns the preset does not know', () => {
+    expect(presetMemberMapping('cobot', ['Name', 'Mobile'])).toEqual({ Name: 'name', Mobile: 'phone' });
+  });
+
+  it('maps Cobot bookings without mapping a field twice', () => {
+    expect(presetBookingMapping('cobot', ['Resource', 'Member', 'From', 'To', 'Price', 'Name']))
+      .toEqual(['desk', 'name', 'startDate', 'endDate', 'price', 'ignore']);
+  });
+
+  it('maps OfficeRnD invoices', () => {
+    expect(presetInvoiceMapping('officernd', ['Number', 'Company', 'Date', 'Due Date', 'Total', 'Tax', 'Status']))
+      .toEqual({
+        Number: 'number',
+        Company: 'client',
+        Date: 'issueDate',
+        'Due Date': 'dueDate',
+        Total: 'total',
+        Tax: 'vatAmount',
+        Status: 'status',
+      });
+  });
+});
+
+describe('invoiceStatusFromText', () => {
+  it('reads paid flags and statuses', () => {
+    expect(invoiceStatusFromText('TRUE')).toBe('paid');
+    expect(invoiceStatusFromText('Fully paid')).toBe('paid');
+    expect(invoiceStatusFromText('Cancelled')).toBe('void');
+    expect(invoiceStatusFromText('Draft')).toBe('draft');
+    expect(invoiceStatusFromText('Overdue')).toBe('sent');
+    expect(invoiceStatusFromText(undefined)).toBe('sent');
+  });
+});
+
+describe('validateInvoiceRows', () => {
+  const csv = [
+    'Invoice Number,Recipient,Email,Invoice Date,Due Date,Total Amount,Tax Amount,Currency,Paid Status',
+    'INV-1,Acme,billing@acme.test,02/03/2026,16/03/2026,"1.200,00",200,eur,paid',
+    'INV-2,bob jones,,2026-03-05,,60,,,unpaid',
+    'INV-2,Carol,,2026-03-06,,30,,,paid',
+    'INV-0,Dan,,2026-01-01,,10,,,paid',
+    ',Eve,,someday,,abc,,,',
+  ].join('\n');
+  const parsed = parseCsv(csv);
+  const validated = validateInvoiceRows(parsed.rows, presetInvoiceMapping('cobot', parsed.headers), {
+    existingNumbers: new Set(['inv-0']),
+    clients,
+    dateOrder: 'dmy',
+    year: 2026,
+  });
+
+  it('counts valid rows, errors and duplicates', () => {
+    expect(validated).toMatchObject({
+      validCount: 2,
+      errorCount: 1,
+      duplicateInFileCount: 1,
+      duplicateInDbCount: 1,
+      matchedClientCount: 2,
+    });
+    expect(validated.rows[4].errors).toEqual([
+      'Missing invoice number',
+      'Unreadable issue date "someday"',
+      'Missing or unreadable total',
+    ]);
+  });
+
+  it('matches clients by email, then by name', () => {
+    expect(validated.rows[0].clientId).toBe('3');
+    expect(validated.rows[1].clientId).toBe('4');
+    expect(validated.rows[2].clientId).toBeNull();
+  });
+
+  it('builds invoices with VAT split out of the total', () => {
+    expect(invoicesToCommit(validated, 'BGN')).toEqual([
+      {
+        invoiceNumber: 'INV-1',
+        clientId: '3',
+        buyerName: 'Acme',
+        buyerEmail: 'billing@acme.test',
+        issueDate: '2026-03-02',
+        dueDate: '2026-03-16',
+        status: 'paid',
+        subtotal: 1000,
+        vatRate: 20,
+        vatAmount: 200,
+        total: 1200,
+        currency: 'EUR',
+        description: 'Invoice INV-1',
+      },
+      {
+        invoiceNumber: 'INV-2',
+        clientId: '4',
+        buyerName: 'bob jones',
+        buyerEmail: null,
+        issueDate: '2026-03-05',
+        dueDate: null,
+        status: 'sent',
+        subtotal: 60,
+        vatRate: 0,
+        vatAmount: 0,
+        total: 60,
+        currency: 'BGN',
+        description: 'Invoice INV-2',
+      },
+    ]);
+  });
+});
+
+describe('import batches', () => {
+  it('only offers the newest batch for rollback, once', () => {
+    const older = batch({ id: '1', createdAt: '2026-03-01T10:00:00.000Z' });
+    const newer = batch({ id: '2', createdAt: '2026-03-02T10:00:00.000Z' });
+    expect(lastImportBatch([older, newer])?.id).toBe('2');
+    expect(lastImportBatch([older, { ...newer, rolledBackAt: '2026-03-03T00:00:00.000Z' }])).toBeNull();
+    expect(lastImportBatch([])).toBeNull();
+  });
+
+  it('summarises a batch', () => {
+    expect(importBatchSummary(batch({ kind: 'members', clientIds: ['1', '2'] }))).toBe('2 members from Nexudus');
+    expect(importBatchSummary(batch({ source: 'cobot', kind: 'invoices', invoiceIds: ['9'] }))).toBe('1 invoice from Cobot');
+  });
+
+  it('rolls back only rows still as the import left them', () => {
+    const imported = batch({
+      bookingRows: [
+        { deskId: 'room1-desk1', date: '2026-03-03', createdAt: '2026-03-01T10:00:00.000Z' },
+        { deskId: 'room1-desk1', date: '2026-03-02', createdAt: '2026-03-01T10:00:00.000Z' },
+        { deskId: 'room1-desk2', date: '2026-03-02', createdAt: '2026-03-01T10:00:00.000Z' },
+      ],
+    });
+    expect(importBatchRange(imported)).toEqual(['2026-03-02', '2026-03-03']);
+    const current = [
+      row('room1-desk1', '2026-03-02', '2026-03-01T10:00:00+00:00'),
+      row('room1-desk1', '2026-03-03', '2026-03-01T10:00:00.000Z'),
+      // Rebooked after the import
+      row('room1-desk2', '2026-03-02', '2026-03-02T08:00:00.000Z'),
+      row('room1-desk3', '2026-03-02', '2026-03-01T10:00:00.000Z'),
+    ];
+    expect(bookingSlotsToRollBack(imported, current)).toEqual([
+      { deskId: 'room1-desk1', date: '2026-03-02' },
+      { deskId: 'room1-desk1', date: '2026-03-03' },
+    ]);
+  });
+});
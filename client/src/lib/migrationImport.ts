@@ -0,0 +1,422 @@
+import type { Client, DeskBooking, ImportBatch, ImportKind, ImportSource, InvoiceStatus } from '@shared/schema';
+import { autoMapColumns, type ImportableField } from './csvImport';
+import {
+  autoMapBookingColumns,
+  matchClient,
+  parseAmount,
+  parseSheetDate,
+  type BookingImportField,
+  type DateOrder,
+} from './bookingImport';
+import type { BookingSlot } from './offlineQueue';
+import { round2 } from './invoices';
+
+/**
+ * Moving over from Nexudus, OfficeRnD or Cobot. Their standard CSV exports
+ * go through the same importers as any spreadsheet (csvImport for members,
+ * bookingImport for bookings); the presets here only know what each tool
+ * calls its columns. Invoices have their own validation below. Every import
+ * is recorded as an ImportBatch so the last one can be rolled back.
+ */
+
+export const IMPORT_SOURCE_LABELS: Record<ImportSource, string> = {
+  nexudus: 'Nexudus',
+  officernd: 'OfficeRnD',
+  cobot: 'Cobot',
+};
+
+export const IMPORT_KIND_LABELS: Record<ImportKind, string> = {
+  members: 'Members and companies',
+  bookings: 'Bookings and memberships',
+  invoices: 'Invoices',
+};
+
+export type InvoiceImportField =
+  | 'number'
+  | 'client'
+  | 'email'
+  | 'issueDate'
+  | 'dueDate'
+  | 'total'
+  | 'vatAmount'
+  | 'currency'
+  | 'status'
+  | 'description'
+  | 'ignore';
+
+export const INVOICE_IMPORT_FIELD_LABELS: Record<InvoiceImportField, string> = {
+  number: 'Invoice number',
+  client: 'Billed to',
+  email: 'Email',
+  issueDate: 'Issue date',
+  dueDate: 'Due date',
+  total: 'Total (incl. VAT)',
+  vatAmount: 'VAT amount',
+  currency: 'Currency',
+  status: 'Paid / status',
+  description: 'Description',
+  ignore: '(ignore column)',
+};
+
+type Preset<F extends string> = Partial<Record<Exclude<F, 'ignore'>, string[]>>;
+
+// Column names of each tool's exports, compared with headerKey()
+const MEMBER_PRESETS: Record<ImportSource, Preset<ImportableField>> = {
+  nexudus: {
+    name: ['fullname', 'coworkerfullname', 'name'],
+    email: ['email', 'coworkeremail'],
+    phone: ['mobilephone', 'landline', 'phone'],
+    contact: ['companyname', 'billingname'],
+    billingAddress: ['billingaddress', 'address'],
+    taxId: ['taxidnumber', 'companytaxid'],
+    vatId: ['vatnumber', 'billingvatnumber'],
+  },
+  officernd: {
+    name: ['name', 'membername', 'companyname'],
+    email: ['email', 'billingemail'],
+    phone: ['phone', 'phonenumber'],
+    contact: ['company', 'team'],
+    billingAddress: ['billingaddress', 'address'],
+    taxId: ['taxnumber', 'taxid', 'registrationnumber'],
+    vatId: ['vatnumber', 'vatid'],
+  },
+  cobot: {
+    name: ['name', 'membername', 'fullname'],
+    email: ['email', 'emailaddress'],
+    phone: ['phone', 'phonenumber'],
+    contact: ['company', 'companyname'],
+    billingAddress: ['address', 'billingaddress'],
+    taxId: ['taxid', 'taxnumber'],
+    vatId: ['vatid', 'vatnumber'],
+  },
+};
+
+const BOOKING_PRESETS: Record<ImportSource, Preset<BookingImportField>> = {
+  nexudus: {
+    desk: ['resource', 'resourcename', 'desk'],
+    name: ['coworker', 'coworkerfullname', 'customer', 'bookedby'],
+    startDate: ['fromtime', 'from', 'startdate', 'start'],
+    endDate: ['totime', 'to', 'enddate', 'end'],
+    price: ['price', 'chargeamount', 'tariffprice'],
+  },
+  officernd: {
+    desk: ['resource', 'resourcename', 'desk'],
+    name: ['member', 'membername', 'company', 'companyname'],
+    startDate: ['start', 'startdate'],
+    endDate: ['end', 'enddate'],
+    price: ['price', 'amount', 'totalprice'],
+  },
+  cobot: {
+    desk: ['resource', 'resourcename'],
+    name: ['member', 'membername', 'booker'],
+    startDate: ['from', 'startsat', 'startdate'],
+    endDate: ['to', 'endsat', 'enddate'],
+    price: ['price', 'totalprice'],
+  },
+};
+
+const INVOICE_PRESETS: Record<ImportSource, Preset<InvoiceImportField>> = {
+  nexudus: {
+    number: ['invoicenumber', 'number', 'reference'],
+    client: ['coworkerfullname', 'billto', 'coworker', 'customer', 'billingname'],
+    email: ['coworkeremail', 'email'],
+    issueDate: ['invoicedate', 'createdon', 'date', 'issuedon'],
+    dueDate: ['duedate'],
+    total: ['totalamount', 'total', 'grosstotal', 'amount'],
+    vatAmount: ['taxamount', 'vatamount', 'tax'],
+    currency: ['currency', 'currencycode'],
+    status: ['paid', 'ispaid', 'status'],
+    description: ['description', 'notes'],
+  },
+  officernd: {
+    number: ['number', 'invoicenumber', 'documentnumber'],
+    client: ['member', 'company', 'customer', 'membername', 'companyname'],
+    email: ['email', 'billingemail'],
+    issueDate: ['date', 'issuedate', 'invoicedate'],
+    dueDate: ['duedate'],
+    total: ['total', 'totalamount', 'amount'],
+    vatAmount: ['tax', 'taxamount', 'vat'],
+    currency: ['currency'],
+    status: ['status', 'paymentstatus'],
+    description: ['description', 'reference'],
+  },
+  cobot: {
+    number: ['invoicenumber', 'number'],
+    client: ['recipient', 'member', 'membername', 'billto'],
+    email: ['email', 'recipientemail'],
+    issueDate: ['invoicedate', 'date', 'createdat'],
+    dueDate: ['duedate'],
+    total: ['totalamount', 'total', 'grosstotal'],
+    vatAmount: ['taxamount', 'tax', 'vat'],
+    currency: ['currency'],
+    status: ['paidstatus', 'status', 'paid'],
+    description: ['description', 'items'],
+  },
+};
+
+/** "Coworker Full Name", "CoworkerFullName" and "coworker_full_name" all read alike. */
+export function headerKey(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+// Each field goes to the first header the preset knows for it; the rest keep
+// the generic mapping, unless the preset already used that field.
+function applyPreset<F extends string>(headers: readonly string[], preset: Preset<F>, generic: readonly F[]): F[] {
+  const used = new Set<string>();
+  const byPreset = headers.map(header => {
+    const key = headerKey(header);
+    for (const [field, aliases] of Object.entries(preset) as [F, string[]][]) {
+      if (!used.has(field) && aliases.includes(key)) {
+        used.add(field);
+        return field;
+      }
+    }
+    return null;
+  });
+  return byPreset.map((field, i) =>
+    field ?? (used.has(generic[i]) ? 'ignore' as F : generic[i]),
+  );
+}
+
+export function presetMemberMapping(source: ImportSource, headers: string[]): Record<string, ImportableField> {
+  const generic = autoMapColumns(headers);
+  const fields = applyPreset(headers, MEMBER_PRESETS[source], headers.map(h => generic[h]));
+  return Object.fromEntries(headers.map((h, i) => [h, fields[i]]));
+}
+
+export function presetBookingMapping(source: ImportSource, headers: readonly string[]): BookingImportField[] {
+  return applyPreset(headers, BOOKING_PRESETS[source], autoMapBookingColumns(headers));
+}
+
+export function presetInvoiceMapping(source: ImportSource | null, headers: string[]): Record<string, InvoiceImportField> {
+  const generic = headers.map(() => 'ignore' as InvoiceImportField);
+  const preset: Preset<InvoiceImportField> = source
+    ? INVOICE_PRESETS[source]
+    : mergePresets(Object.values(INVOICE_PRESETS));
+  const fields = applyPreset(headers, preset, generic);
+  return Object.fromEntries(headers.map((h, i) => [h, fields[i]]));
+}
+
+function mergePresets<F extends string>(presets: Preset<F>[]): Preset<F> {
+  const merged: Record<string, string[]> = {};
+  for (const preset of presets) {
+    for (const [field, aliases] of Object.entries(preset) as [string, string[]][]) {
+      merged[field] = Array.from(new Set([...(merged[field] ?? []), ...aliases]));
+    }
+  }
+  return merged as Preset<F>;
+}
+
+// ─── Invoices ──────────────────────────────────────────────────────
+
+const PAID_WORDS = ['paid', 'true', 'yes', 'y', '1', 'settled', 'fullypaid', 'closed'];
+const VOID_WORDS = ['void', 'voided', 'cancelled', 'canceled', 'credited', 'refunded'];
+
+/** Invoice status from a paid flag or status column. Anything unrecognised is unpaid. */
+export function invoiceStatusFromText(value: string | undefined): InvoiceStatus {
+  const key = headerKey(value ?? '');
+  if (PAID_WORDS.includes(key)) return 'paid';
+  if (VOID_WORDS.includes(key)) return 'void';
+  if (key === 'draft') return 'draft';
+  return 'sent';
+}
+
+export interface InvoiceImportRow {
+  index: number;
+  raw: Record<string, string>;
+  values: Partial<Record<Exclude<InvoiceImportField, 'ignore'>, string>>;
+  issueDate: string | null;
+  dueDate: string | null;
+  total: number | null;
+  vatAmount: number;
+  status: InvoiceStatus;
+  clientId: string | null;
+  errors: string[];
+  isDuplicateInFile: boolean;
+  isDuplicateInDb: boolean;
+}
+
+export interface ValidatedInvoiceImport {
+  rows: InvoiceImportRow[];
+  validCount: number;
+  errorCount: number;
+  duplicateInFileCount: number;
+  duplicateInDbCount: number;
+  /** Valid rows billed to a member who already exists. */
+  matchedClientCount: number;
+}
+
+export interface ImportedInvoice {
+  invoiceNumber: string;
+  clientId: string | null;
+  buyerName: string;
+  buyerEmail: string | null;
+  issueDate: string;
+  dueDate: string | null;
+  status: InvoiceStatus;
+  subtotal: number;
+  vatRate: number;
+  vatAmount: number;
+  total: number;
+  currency: string;
+  description: string;
+}
+
+export function validateInvoiceRows(
+  rows: Record<string, string>[],
+  mapping: Record<string, InvoiceImportField>,
+  context: {
+    existingNumbers: Set<string>;
+    clients: readonly Client[];
+    dateOrder: DateOrder;
+    year: number;
+  },
+): ValidatedInvoiceImport {
+  const seenNumbers = new Set<string>();
+  const clientByEmail = new Map(
+    context.clients.filter(c => c.email).map(c => [c.email!.toLowerCase(), c]),
+  );
+
+  const mapped = rows.map((raw, index): InvoiceImportRow => {
+    const values: InvoiceImportRow['values'] = {};
+    for (const [header, field] of Object.entries(mapping)) {
+      if (field === 'ignore') continue;
+      const v = (raw[header] ?? '').trim();
+      if (v.length > 0) values[field] = v;
+    }
+
+    const errors: string[] = [];
+    const issueDate = values.issueDate ? parseSheetDate(values.issueDate, context.dateOrder, context.year) : null;
+    const dueDate = values.dueDate ? parseSheetDate(values.dueDate, context.dateOrder, context.year) : null;
+    const total = parseAmount(values.total) ?? null;
+    const vatAmount = parseAmount(values.vatAmount) ?? 0;
+
+    if (!values.number) errors.push('Missing invoice number');
+    if (!values.client) errors.push('Missing who it was billed to');
+    if (!values.issueDate) errors.push('Missing issue date');
+    else if (!issueDate) errors.push(`Unreadable issue date "${values.issueDate}"`);
+    if (values.dueDate && !dueDate) errors.push(`Unreadable due date "${values.dueDate}"`);
+    if (total === null) errors.push('Missing or unreadable total');
+
+    const client = (values.email && clientByEmail.get(values.email.toLowerCase()))
+      || (values.client ? matchClient(values.client, context.clients) : null);
+
+    let isDuplicateInFile = false;
+    let isDuplicateInDb = false;
+    if (values.number) {
+      const key = values.number.toLowerCase();
+      if (context.existingNumbers.has(key)) isDuplicateInDb = true;
+      if (seenNumbers.has(key)) isDuplicateInFile = true;
+      else seenNumbers.add(key);
+    }
+
+    return {
+      index,
+      raw,
+      values,
+      issueDate,
+      dueDate,
+      total,
+      vatAmount,
+      status: invoiceStatusFromText(values.status),
+      clientId: client ? client.id : null,
+      errors,
+      isDuplicateInFile,
+      isDuplicateInDb,
+    };
+  });
+
+  let validCount = 0;
+  let errorCount = 0;
+  let duplicateInFileCount = 0;
+  let duplicateInDbCount = 0;
+  let matchedClientCount = 0;
+
+  for (const r of mapped) {
+    if (r.errors.length > 0) errorCount++;
+    else if (r.isDuplicateInDb) duplicateInDbCount++;
+    else if (r.isDuplicateInFile) duplicateInFileCount++;
+    else {
+      validCount++;
+      if (r.clientId) matchedClientCount++;
+    }
+  }
+
+  return { rows: mapped, validCount, errorCount, duplicateInFileCount, duplicateInDbCount, matchedClientCount };
+}
+
+export function invoicesToCommit(validated: ValidatedInvoiceImport, defaultCurrency: string): ImportedInvoice[] {
+  return validated.rows
+    .filter(r => r.errors.length === 0 && !r.isDuplicateInFile && !r.isDuplicateInDb)
+    .map(r => {
+      const total = round2(r.total!);
+      const vatAmount = round2(r.vatAmount);
+      const subtotal = round2(total - vatAmount);
+      return {
+        invoiceNumber: r.values.number!,
+        clientId: r.clientId,
+        buyerName: r.values.client!,
+        buyerEmail: r.values.email ?? null,
+        issueDate: r.issueDate!,
+        dueDate: r.dueDate,
+        status: r.status,
+        subtotal,
+        vatRate: subtotal > 0 ? round2((vatAmount / subtotal) * 100) : 0,
+        vatAmount,
+        total,
+        currency: (r.values.currency ?? defaultCurrency).toUpperCase(),
+        description: r.values.description ?? `Invoice ${r.values.number}`,
+      };
+    });
+}
+
+// ─── Batches and rollback ──────────────────────────────────────────
+
+/** The batch "Roll back" undoes: the newest one, unless it already was. */
+export function lastImportBatch(batches: readonly ImportBatch[]): ImportBatch | null {
+  const [latest] = [...batches].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  return latest && !latest.rolledBackAt ? latest : null;
+}
+
+export function importBatchSize(batch: ImportBatch): number {
+  if (batch.kind === 'members') return batch.clientIds.length;
+  if (batch.kind === 'invoices') return batch.invoiceIds.length;
+  return batch.bookingRows.length;
+}
+
+export function importBatchSummary(batch: ImportBatch): string {
+  const size = importBatchSize(batch);
+  const noun = batch.kind === 'members'
+    ? (size === 1 ? 'member' : 'members')
+    : batch.kind === 'invoices'
+      ? (size === 1 ? 'invoice' : 'invoices')
+      : (size === 1 ? 'booked desk-day' : 'booked desk-days');
+  return `${size} ${noun} from ${IMPORT_SOURCE_LABELS[batch.source]}`;
+}
+
+/** First and last day the batch wrote bookings on. */
+export function importBatchRange(batch: ImportBatch): [string, string] | null {
+  if (batch.bookingRows.length === 0) return null;
+  const dates = batch.bookingRows.map(r => r.date).sort();
+  return [dates[0], dates[dates.length - 1]];
+}
+
+// Postgres and the browser serialise timestamps differently
+function sameInstant(a: string, b: string): boolean {
+  return (Date.parse(a) || a) === (Date.parse(b) || b);
+}
+
+/**
+ * Slots that still hold the row the batch wrote. Rows edited or rebooked
+ * since the import carry another createdAt and are left alone.
+ */
+export function bookingSlotsToRollBack(batch: ImportBatch, current: readonly DeskBooking[]): BookingSlot[] {
+  const written = new Map(batch.bookingRows.map(r => [`${r.deskId}|${r.date}`, r.createdAt]));
+  return current
+    .filter(b => !b.dayPart)
+    .filter(b => {
+      const createdAt = written.get(`${b.deskId}|${b.date}`);
+      return createdAt !== undefined && sameInstant(createdAt, b.createdAt);
+    })
+    .map(b => ({ deskId: b.deskId, date: b.date }));
+}
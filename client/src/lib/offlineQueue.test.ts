@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  MutationOutbox,
+  OutboxExecutor,
+  OutboxMutation,
+  findChangedSlots,
+  isNetworkError,
+  overlayPendingBookings,
+  pendingBookingSlots,
+} from './offlineQueue';
+import { MemoryTableStorage } from './browserStorage';
+import type { DeskBooking } from '@shared/schema';
+
+function makeBooking(deskId: string, date: string, overrides: Partial<DeskBooking> = {}): DeskBooking {
+  return {
+    id: `${deskId}-${date}`,
+    deskId,
+    date,
+    startDate: date,
+    endDate: date,
+    status: 'booked',
+    personName: 'Alice',
+    createdAt: '2026-03-01T10:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function saveMutation(booking: DeskBooking, baseline: DeskBooking | null = null): OutboxMutation {
+  return {
+    kind: 'saveBookings',
+    bookings: [booking],
+    baseline: { [`${booking.deskId}-${booking.date}`]: baseline },
+  };
+}
+
+function makeExecutor(server: Record<string, DeskBooking | null> = {}) {
+  const executed: OutboxMutation[] = [];
+  let offline = false;
+  const executor: OutboxExecutor = {
+    async execute(mutation) {
+      if (offline) throw new TypeError('Failed to fetch');
+      executed.push(mutation);
+      if (mutation.kind === 'saveBookings') {
+        for (const b of mutation.bookings) server[`${b.deskId}-${b.date}`] = b;
+      }
+    },
+    async fetchBookingSlots(slots) {
+      if (offline) throw new TypeError('Failed to fetch');
+      return Object.fromEntries(slots.map((s) => [`${s.deskId}-${s.date}`, server[`${s.deskId}-${s.date}`] ?? null]));
+    },
+    async fetchClientUpdatedAt() {
+      return null;
+    },
+  };
+  return { executor, executed, server, goOffline: () => (offline = true) };
+}
+
+describe('isNetworkError', () => {
+  it('recognises browser fetch failures', () => {
+    expect(isNetworkError(new TypeError('Failed to fetch'))).toBe(true);
+    expect(isNetworkError({ message: 'TypeError: NetworkError when attempting to fetch resource.' })).toBe(true);
+    expect(isNetworkError('Load failed')).toBe(true);
+  });
+
+  it('does not treat server rejections as network errors', () => {
+    expect(isNetworkError({ message: 'duplicate key value violates unique constraint', code: '23505' })).toBe(false);
+    expect(isNetworkError(null)).toBe(false);
+  });
+});
+
+describe('findChangedSlots', () => {
+  it('ignores timestamp formatting differences between Postgres and the browser', () => {
+    const baseline = { 'd1-2026-03-02': makeBooking('d1', '2026-03-02') };
+    const current = {
+      'd1-2026-03-02': makeBooking('d1', '2026-03-02', { id: '991', createdAt: '2026-03-01T10:00:00+00:00' }),
+    };
+    expect(findChangedSlots(baseline, current)).toEqual([]);
+  });
+
+  it('flags slots booked or edited by someone else', () => {
+    const baseline = { 'd1-2026-03-02': null, 'd1-2026-03-03': makeBooking('d1', '2026-03-03') };
+    const current = {
+      'd1-2026-03-02': makeBooking('d1', '2026-03-02', { personName: 'Bob' }),
+      'd1-2026-03-03': makeBooking('d1', '2026-03-03', { status: 'assigned' }),
+    };
+    expect(findChangedSlots(baseline, current)).toEqual(['d1-2026-03-02', 'd1-2026-03-03']);
+  });
+
+  it('flags check-ins, no-shows, holds and payments recorded on the server', () => {
+    const booking = makeBooking('d1', '2026-03-02', { heldUntil: '2026-03-02T12:00:00.000Z' });
+    const baseline = { 'd1-2026-03-02': booking };
+    const changes: Partial<DeskBooking>[] = [
+      { checkedInAt: '2026-03-02T08:55:00+00:00' },
+      { noShow: true },
+      { heldUntil: null },
+      { paymentStatus: 'paid' },
+    ];
+    for (const change of changes) {
+      expect(findChangedSlots(baseline, { 'd1-2026-03-02': { ...booking, ...change } })).toEqual(['d1-2026-03-02']);
+    }
+    expect(
+      findChangedSlots(baseline, { 'd1-2026-03-02': { ...booking, heldUntil: '2026-03-02T12:00:00+00:00' } }),
+    ).toEqual([]);
+  });
+});
+
+describe('overlayPendingBookings', () => {
+  it('applies queued saves and deletions in order within the range', async () => {
+    const outbox = new MutationOutbox(new MemoryTableStorage());
+    await outbox.enqueue('org', saveMutation(makeBooking('d1', '2026-03-02', { personName: 'Offline' })));
+    await outbox.enqueue('org', {
+      kind: 'deleteBookings',
+      deletions: [{ deskId: 'd2', date: '2026-03-02' }],
+      baseline: {},
+    });
+    await outbox.enqueue('org', saveMutation(makeBooking('d1', '2026-04-01')));
+
+    const server = { 'd2-2026-03-02': makeBooking('d2', '2026-03-02') };
+    const result = overlayPendingBookings(server, await outbox.list('org'), {
+      startDate: '2026-03-01',
+      endDate: '2026-03-31',
+    });
+
+    expect(Object.keys(result)).toEqual(['d1-2026-03-02']);
+    expect(result['d1-2026-03-02'].personName).toBe('Offline');
+  });
+});
+
+describe('MutationOutbox', () => {
+  let outbox: MutationOutbox;
+
+  beforeEach(() => {
+    outbox = new MutationOutbox(new MemoryTableStorage());
+  });
+
+  it('replays pending mutations oldest first and empties the queue', async () => {
+    const { executor, executed } = makeExecutor();
+    await outbox.enqueue('org', saveMutation(makeBooking('d1', '2026-03-02')));
+    await outbox.enqueue('org', { kind: 'deleteExpense', id: '5' });
+
+    const result = await outbox.replay('org', executor);
+
+    expect(result).toEqual({ synced: 2, conflicts: 0, remaining: 0 });
+    expect(executed.map((m) => m.kind)).toEqual(['saveBookings', 'deleteExpense']);
+  });
+
+  it('parks a conflict and holds later writes to the same slot behind it', async () => {
+    const { executor, executed } = makeExecutor({
+      'd1-2026-03-02': makeBooking('d1', '2026-03-02', { personName: 'Bob' }),
+    });
+    await outbox.enqueue('org', saveMutation(makeBooking('d1', '2026-03-02', { personName: 'Mine' })));
+    await outbox.enqueue('org', saveMutation(makeBooking('d1', '2026-03-02', { personName: 'Mine again' })));
+    await outbox.enqueue('org', saveMutation(makeBooking('d2', '2026-03-02')));
+
+    const result = await outbox.replay('org', executor);
+
+    expect(result).toEqual({ synced: 1, conflicts: 1, remaining: 2 });
+    expect(executed).toHaveLength(1);
+    const [conflict] = (await outbox.list('org')).filter((e) => e.status === 'conflict');
+    expect(conflict.conflict?.serverBookings?.['d1-2026-03-02']?.personName).toBe('Bob');
+  });
+
+  it('stops replaying while still offline', async () => {
+    const { executor, goOffline } = makeExecutor();
+    goOffline();
+    await outbox.enqueue('org', saveMutation(makeBooking('d1', '2026-03-02')));
+
+    const result = await outbox.replay('org', executor);
+    expect(result).toEqual({ synced: 0, conflicts: 0, remaining: 1 });
+    expect((await outbox.list('org'))[0].status).toBe('pending');
+  });
+
+  it('overwrites or discards a conflict on request', async () => {
+    const { executor, executed, server } = makeExecutor({
+      'd1-2026-03-02': makeBooking('d1', '2026-03-02', { personName: 'Bob' }),
+    });
+    await outbox.enqueue('org', saveMutation(makeBooking('d1', '2026-03-02', { personName: 'Mine' })));
+    await outbox.replay('org', executor);
+    const [entry] = await outbox.list('org');
+
+    await outbox.resolveConflict(entry.id, 'overwrite', executor);
+
+    expect(executed).toHaveLength(1);
+    expect(server['d1-2026-03-02']?.personName).toBe('Mine');
+    expect(await outbox.list('org')).toEqual([]);
+  });
+
+  it('only lists entries for the requested organization', async () => {
+    await outbox.enqueue('org-a', saveMutation(makeBooking('d1', '2026-03-02')));
+    await outbox.enqueue('org-b', saveMutation(makeBooking('d1', '2026-03-02')));
+
+    expect(await outbox.list('org-a')).toHaveLength(1);
+    expect(pendingBookingSlots(await outbox.list('org-b'))).toEqual(new Set(['d1-2026-03-02']));
+  });
+});
@@ -0,0 +1,349 @@
+import type { Client, DayPart, DeskBooking, Expense } from '@shared/schema';
+import { BrowserTableStorage, createBrowserStorage } from './browserStorage';
+
+/**
+ * Persistent outbox for writes that failed because the device was offline.
+ * SupabaseDataStore records the mutation together with the server state it
+ * last saw (the baseline); on replay, a booking or client whose server row no
+ * longer matches that baseline is parked as a conflict instead of being
+ * silently overwritten.
+ */
+
+export type SlotBaseline = Record<string, DeskBooking | null>;
+
+/** A desk on a date; half-day bookings also name their part of the day. */
+export interface BookingSlot {
+  deskId: string;
+  date: string;
+  dayPart?: DayPart;
+}
+
+export type OutboxMutation =
+  | { kind: 'saveBookings'; bookings: DeskBooking[]; baseline: SlotBaseline }
+  | { kind: 'deleteBookings'; deletions: BookingSlot[]; baseline: SlotBaseline }
+  | { kind: 'saveClient'; client: Client; baselineUpdatedAt: string | null }
+  | { kind: 'deleteClient'; id: string }
+  | { kind: 'saveExpense'; expense: Expense }
+  | { kind: 'deleteExpense'; id: string };
+
+export interface OutboxConflict {
+  /** Slot keys (`deskId-date[-am|pm]`) or the client id whose server state moved on. */
+  keys: string[];
+  /** Current server rows for the conflicting slots (bookings only). */
+  serverBookings?: Record<string, DeskBooking | null>;
+  detectedAt: string;
+}
+
+export interface OutboxEntry {
+  id: string;
+  seq: number;
+  organizationId: string | null;
+  createdAt: string;
+  mutation: OutboxMutation;
+  status: 'pending' | 'conflict';
+  conflict?: OutboxConflict;
+}
+
+export interface ReplayResult {
+  synced: number;
+  conflicts: number;
+  remaining: number;
+}
+
+/** Executes mutations against the server and reads current server state. */
+export interface OutboxExecutor {
+  execute(mutation: OutboxMutation): Promise<void>;
+  fetchBookingSlots(slots: BookingSlot[]): Promise<Record<string, DeskBooking | null>>;
+  fetchClientUpdatedAt(id: string): Promise<string | null>;
+}
+
+const NETWORK_ERROR_PATTERN = /failed to fetch|networkerror|network request failed|load failed|fetch failed|err_internet_disconnected/i;
+
+/** False when the browser knows it has no connection; true outside a browser. */
+export function isOnline(): boolean {
+  return typeof navigator === 'undefined' || navigator.onLine !== false;
+}
+
+/** True when an error means "couldn't reach the server" rather than "server said no". */
+export function isNetworkError(error: unknown): boolean {
+  if (!isOnline()) return true;
+  if (!error) return false;
+  const message =
+    typeof error === 'string'
+      ? error
+      : error instanceof Error
+        ? error.message
+        : typeof (error as { message?: unknown }).message === 'string'
+          ? (error as { message: string }).message
+          : '';
+  return NETWORK_ERROR_PATTERN.test(message);
+}
+
+/** Map key of a slot. Full-day slots keep the historical `deskId-date` form. */
+export function slotKey(deskId: string, date: string, dayPart?: DayPart | null): string {
+  return dayPart && dayPart !== 'full' ? `${deskId}-${date}-${dayPart}` : `${deskId}-${date}`;
+}
+
+function mutationSlots(mutation: OutboxMutation): BookingSlot[] {
+  if (mutation.kind === 'saveBookings') {
+    return mutation.bookings.map((b) => ({ deskId: b.deskId, date: b.date, dayPart: b.dayPart }));
+  }
+  if (mutation.kind === 'deleteBookings') return mutation.deletions;
+  return [];
+}
+
+/** Keys a mutation touches — slots for bookings, `client:<id>` for clients. */
+export function mutationKeys(mutation: OutboxMutation): string[] {
+  switch (mutation.kind) {
+    case 'saveBookings':
+    case 'deleteBookings':
+      return mutationSlots(mutation).map((s) => slotKey(s.deskId, s.date, s.dayPart));
+    case 'saveClient':
+      return [`client:${mutation.client.id}`];
+    case 'deleteClient':
+      return [`client:${mutation.id}`];
+    case 'saveExpense':
+      return [`expense:${mutation.expense.id}`];
+    case 'deleteExpense':
+      return [`expense:${mutation.id}`];
+  }
+}
+
+/** Slot keys with an unsynced change, for highlighting cells in the grid. */
+export function pendingBookingSlots(entries: OutboxEntry[]): Set<string> {
+  const keys = new Set<string>();
+  for (const entry of entries) {
+    for (const slot of mutationSlots(entry.mutation)) keys.add(slotKey(slot.deskId, slot.date, slot.dayPart));
+  }
+  return keys;
+}
+
+/**
+ * Applies queued booking writes on top of rows read from the server (or the
+ * last-known cache while offline) so the calendar reflects what the user did.
+ */
+export function overlayPendingBookings(
+  bookings: Record<string, DeskBooking>,
+  entries: OutboxEntry[],
+  range?: { startDate?: string; endDate?: string },
+): Record<string, DeskBooking> {
+  const result = { ...bookings };
+  const inRange = (date: string) =>
+    (!range?.startDate || date >= range.startDate) && (!range?.endDate || date <= range.endDate);
+
+  for (const entry of [...entries].sort((a, b) => a.seq - b.seq)) {
+    const { mutation } = entry;
+    if (mutation.kind === 'saveBookings') {
+      for (const booking of mutation.bookings) {
+        if (inRange(booking.date)) result[slotKey(booking.deskId, booking.date, booking.dayPart)] = booking;
+      }
+    } else if (mutation.kind === 'deleteBookings') {
+      for (const { deskId, date, dayPart } of mutation.deletions) delete result[slotKey(deskId, date, dayPart)];
+    }
+  }
+  return result;
+}
+
+// Postgres and the browser serialise timestamps differently
+function timestampFingerprint(value: string | null | undefined): string | number {
+  return value ? Date.parse(value) || value : '';
+}
+
+// Fields that matter for "did someone else change this booking?". The
+// server-assigned id and share token are deliberately left out. In-place
+// updates (check-in, no-show, hold, payment) count too: a queued booking
+// replays as a whole row and would undo them.
+function bookingFingerprint(booking: DeskBooking | null | undefined): string {
+  if (!booking) return '∅';
+  return [
+    booking.status,
+    booking.personName ?? '',
+    booking.clientId ?? '',
+    booking.price ?? '',
+    booking.startDate,
+    booking.endDate,
+    booking.isFrozen ? 1 : 0,
+    booking.isOngoing ? 1 : 0,
+    booking.noShow ? 1 : 0,
+    timestampFingerprint(booking.checkedInAt),
+    timestampFingerprint(booking.heldUntil),
+    booking.paymentStatus ?? '',
+    timestampFingerprint(booking.createdAt),
+  ].join('|');
+}
+
+/** Slot keys whose server row differs from the baseline captured at enqueue time. */
+export function findChangedSlots(
+  baseline: SlotBaseline,
+  current: Record<string, DeskBooking | null>,
+): string[] {
+  return Object.keys(baseline).filter(
+    (key) => bookingFingerprint(baseline[key]) !== bookingFingerprint(current[key] ?? null),
+  );
+}
+
+// ─── Outbox ──────────────────────────────────────────────────────────
+
+export const OUTBOX_DB_NAME = 'deskplanner-outbox';
+const OUTBOX_TABLE = 'mutations';
+
+type Listener = () => void;
+
+export class MutationOutbox {
+  private storage: BrowserTableStorage;
+  private listeners = new Set<Listener>();
+  private seq = 0;
+  private cache: OutboxEntry[] | null = null;
+  private replaying: Promise<ReplayResult> | null = null;
+
+  constructor(storage?: BrowserTableStorage) {
+    this.storage = storage ?? createBrowserStorage(OUTBOX_DB_NAME, [OUTBOX_TABLE]);
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private notify() {
+    for (const listener of this.listeners) listener();
+  }
+
+  async list(organizationId?: string | null): Promise<OutboxEntry[]> {
+    if (!this.cache) {
+      this.cache = (await this.storage.getAll<OutboxEntry>(OUTBOX_TABLE)).sort((a, b) => a.seq - b.seq);
+      this.seq = this.cache.reduce((max, e) => Math.max(max, e.seq), 0);
+    }
+    return organizationId === undefined
+      ? [...this.cache]
+      : this.cache.filter((e) => e.organizationId === organizationId);
+  }
+
+  async hasPending(organizationId: string | null): Promise<boolean> {
+    return (await this.list(organizationId)).length > 0;
+  }
+
+  async enqueue(organizationId: string | null, mutation: OutboxMutation): Promise<OutboxEntry> {
+    await this.list();
+    const entry: OutboxEntry = {
+      id: crypto.randomUUID(),
+      seq: ++this.seq,
+      organizationId,
+      createdAt: new Date().toISOString(),
+      mutation,
+      status: 'pending',
+    };
+    await this.storage.put(OUTBOX_TABLE, entry.id, entry);
+    this.cache!.push(entry);
+    this.notify();
+    return entry;
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.list();
+    await this.storage.delete(OUTBOX_TABLE, id);
+    this.cache = this.cache!.filter((e) => e.id !== id);
+    this.notify();
+  }
+
+  private async update(entry: OutboxEntry): Promise<void> {
+    await this.storage.put(OUTBOX_TABLE, entry.id, entry);
+    this.cache = this.cache!.map((e) => (e.id === entry.id ? entry : e));
+    this.notify();
+  }
+
+  /**
+   * Replays pending entries oldest-first. Entries touching a key held by an
+   * unresolved conflict wait behind it so later edits never jump the queue.
+   * Stops at the first network failure — we're still offline.
+   */
+  replay(organizationId: string | null, executor: OutboxExecutor): Promise<ReplayResult> {
+    if (!this.replaying) {
+      this.replaying = this.runReplay(organizationId, executor).finally(() => {
+        this.replaying = null;
+      });
+    }
+    return this.replaying;
+  }
+
+  private async runReplay(organizationId: string | null, executor: OutboxExecutor): Promise<ReplayResult> {
+    const entries = await this.list(organizationId);
+    const blockedKeys = new Set<string>();
+    let synced = 0;
+    let conflicts = 0;
+
+    for (const entry of entries) {
+      const keys = mutationKeys(entry.mutation);
+      if (entry.status === 'conflict' || keys.some((k) => blockedKeys.has(k))) {
+        keys.forEach((k) => blockedKeys.add(k));
+        continue;
+      }
+
+      try {
+        const conflict = await this.detectConflict(entry.mutation, executor);
+        if (conflict) {
+          await this.update({ ...entry, status: 'conflict', conflict });
+          keys.forEach((k) => blockedKeys.add(k));
+          conflicts++;
+          continue;
+        }
+        await executor.execute(entry.mutation);
+        await this.remove(entry.id);
+        synced++;
+      } catch (error) {
+        if (isNetworkError(error)) break;
+        // Server rejected the write outright — park it for the user to decide.
+        await this.update({
+          ...entry,
+          status: 'conflict',
+          conflict: { keys, detectedAt: new Date().toISOString() },
+        });
+        keys.forEach((k) => blockedKeys.add(k));
+        conflicts++;
+      }
+    }
+
+    return { synced, conflicts, remaining: (await this.list(organizationId)).length };
+  }
+
+  private async detectConflict(
+    mutation: OutboxMutation,
+    executor: OutboxExecutor,
+  ): Promise<OutboxConflict | null> {
+    if (mutation.kind === 'saveBookings' || mutation.kind === 'deleteBookings') {
+      const current = await executor.fetchBookingSlots(mutationSlots(mutation));
+      const changed = findChangedSlots(mutation.baseline, current);
+      if (changed.length === 0) return null;
+      return {
+        keys: changed,
+        serverBookings: Object.fromEntries(changed.map((k) => [k, current[k] ?? null])),
+        detectedAt: new Date().toISOString(),
+      };
+    }
+    if (mutation.kind === 'saveClient' && mutation.baselineUpdatedAt) {
+      const updatedAt = await executor.fetchClientUpdatedAt(mutation.client.id);
+      if (updatedAt && updatedAt !== mutation.baselineUpdatedAt) {
+        return { keys: [`client:${mutation.client.id}`], detectedAt: new Date().toISOString() };
+      }
+    }
+    return null;
+  }
+
+  /** Resolves a parked conflict: push our version anyway, or drop it. */
+  async resolveConflict(id: string, resolution: 'overwrite' | 'discard', executor: OutboxExecutor): Promise<void> {
+    const entry = (await this.list()).find((e) => e.id === id);
+    if (!entry) return;
+    if (resolution === 'overwrite') {
+      await executor.execute(entry.mutation);
+    }
+    await this.remove(id);
+  }
+}
+
+let sharedOutbox: MutationOutbox | null = null;
+
+/** One outbox per page so every data store instance sees the same queue. */
+export function getMutationOutbox(): MutationOutbox {
+  if (!sharedOutbox) sharedOutbox = new MutationOutbox();
+  return sharedOutbox;
+}
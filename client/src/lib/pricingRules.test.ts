@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { chargedDays, describeAdjustment, describePricingRule, newPricingRule } from './pricingRules';
+
+describe('newPricingRule', () => {
+  it('starts each kind with usable defaults', () => {
+    expect(newPricingRule('day_rate')).toMatchObject({ adjustmentType: 'fixed', weekdays: [6, 7] });
+    expect(newPricingRule('long_stay')).toMatchObject({ adjustmentType: 'percent', minDays: 10 });
+    expect(newPricingRule('customer_rate')).toMatchObject({ adjustmentType: 'percent', customer: 'member' });
+    expect(newPricingRule('season')).not.toHaveProperty('weekdays');
+  });
+});
+
+describe('describeAdjustment', () => {
+  it('names surcharges and discounts', () => {
+    expect(describeAdjustment({ adjustmentType: 'percent', amount: 15 }, 'EUR')).toBe('+15%');
+    expect(describeAdjustment({ adjustmentType: 'percent', amount: -10 }, 'EUR')).toBe('10% off');
+    expect(describeAdjustment({ adjustmentType: 'fixed', amount: 2.5 }, 'EUR')).toBe('+€2.50 a day');
+    expect(describeAdjustment({ adjustmentType: 'fixed', amount: -3 }, 'EUR')).toBe('€3.00 a day off');
+  });
+});
+
+describe('describePricingRule', () => {
+  it('describes each kind of rule', () => {
+    expect(describePricingRule({ ...newPricingRule('day_rate'), amount: 5 }, 'EUR')).toBe('Sat, Sun at €5.00 a day');
+    expect(describePricingRule({ ...newPricingRule('season'), amount: 20, startDate: '2026-07-01', endDate: '2026-08-31' }, 'EUR'))
+      .toBe('+20% from 2026-07-01 to 2026-08-31');
+    expect(describePricingRule({ ...newPricingRule('premium'), adjustmentType: 'fixed', amount: 2 }, 'EUR', 'Window 1'))
+      .toBe('+€2.00 a day on Window 1');
+    expect(describePricingRule({ ...newPricingRule('long_stay'), amount: -10 }, 'EUR')).toBe('10% off for stays of 10+ days');
+    expect(describePricingRule({ ...newPricingRule('customer_rate'), amount: -15 }, 'EUR')).toBe('15% off for members');
+  });
+
+  it('falls back when the premium target or the customer is unknown', () => {
+    expect(describePricingRule({ ...newPricingRule('premium'), amount: 10 }, 'EUR')).toBe('+10% on the chosen desks');
+    expect(describePricingRule({ ...newPricingRule('customer_rate'), customer: 'visitor', amount: 5 }, 'EUR'))
+      .toBe('+5% for visitors');
+  });
+});
+
+describe('chargedDays', () => {
+  it('keeps the open days of the range', () => {
+    const closures = [{ startDate: '2026-03-04', endDate: '2026-03-04', label: 'Holiday' }];
+    expect(chargedDays('2026-03-02', '2026-03-08', [1, 2, 3, 4, 5], closures, { deskId: 'room1-desk1' })).toEqual([
+      { date: '2026-03-02', deskId: 'room1-desk1' },
+      { date: '2026-03-03', deskId: 'room1-desk1' },
+      { date: '2026-03-05', deskId: 'room1-desk1' },
+      { date: '2026-03-06', deskId: 'room1-desk1' },
+    ]);
+    expect(chargedDays('2026-03-02', '2026-03-01', [1, 2, 3, 4, 5])).toEqual([]);
+  });
+
+  it('charges weekends where the space opens on them', () => {
+    expect(chargedDays('2026-03-06', '2026-03-08', [1, 2, 3, 4, 5, 6])).toEqual([
+      { date: '2026-03-06' },
+      { date: '2026-03-07' },
+    ]);
+  });
+});
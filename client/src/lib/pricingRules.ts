@@ -0,0 +1,74 @@
+import type { PricingCustomer, PricingRule, PricingRuleKind } from '@shared/schema';
+import type { PricedDay } from '@shared/pricing';
+import { currencySymbol } from './settings';
+import { generateDateRange } from './dateUtils';
+import { DAY_LABELS, isNonWorkingDay, type ClosureRange } from './workingDays';
+
+/**
+ * Pricing rules as the settings page and the booking forms show them. The
+ * engine itself is shared/pricing.ts, so the Stripe checkout function charges
+ * what these pages quote.
+ */
+
+export const PRICING_RULE_KIND_LABELS: Record<PricingRuleKind, string> = {
+  day_rate: 'Weekday / weekend rate',
+  season: 'Seasonal period',
+  premium: 'Room or desk premium',
+  long_stay: 'Length-of-stay discount',
+  customer_rate: 'Member / visitor rate',
+};
+
+export const PRICING_CUSTOMER_LABELS: Record<PricingCustomer, string> = {
+  member: 'Members',
+  visitor: 'Visitors',
+};
+
+export function newPricingRule(kind: PricingRuleKind): PricingRule {
+  return {
+    id: `rule-${Date.now()}`,
+    kind,
+    label: '',
+    adjustmentType: kind === 'day_rate' ? 'fixed' : 'percent',
+    amount: 0,
+    ...(kind === 'day_rate' && { weekdays: [6, 7] }),
+    ...(kind === 'long_stay' && { minDays: 10 }),
+    ...(kind === 'customer_rate' && { customer: 'member' as const }),
+  };
+}
+
+/** "10% off", "+€2.00 a day". */
+export function describeAdjustment(rule: Pick<PricingRule, 'adjustmentType' | 'amount'>, currency: string): string {
+  const size = Math.abs(rule.amount);
+  const value = rule.adjustmentType === 'fixed' ? `${currencySymbol(currency)}${size.toFixed(2)} a day` : `${size}%`;
+  return rule.amount < 0 ? `${value} off` : `+${value}`;
+}
+
+/** One line for the settings list, e.g. "Sat, Sun at €5.00 a day". `target` names a premium's room or desk. */
+export function describePricingRule(rule: PricingRule, currency: string, target?: string): string {
+  switch (rule.kind) {
+    case 'day_rate':
+      return `${(rule.weekdays ?? []).map(d => DAY_LABELS[d]).join(', ')} at ${currencySymbol(currency)}${rule.amount.toFixed(2)} a day`;
+    case 'season':
+      return `${describeAdjustment(rule, currency)} from ${rule.startDate} to ${rule.endDate}`;
+    case 'premium':
+      return `${describeAdjustment(rule, currency)} on ${target ?? 'the chosen desks'}`;
+    case 'long_stay':
+      return `${describeAdjustment(rule, currency)} for stays of ${rule.minDays}+ days`;
+    case 'customer_rate':
+      return `${describeAdjustment(rule, currency)} for ${PRICING_CUSTOMER_LABELS[rule.customer ?? 'member'].toLowerCase()}`;
+  }
+}
+
+/** The days a booking from `startDate` to `endDate` is charged for: the open ones. */
+export function chargedDays(
+  startDate: string,
+  endDate: string,
+  workingDays: number[],
+  closures?: readonly ClosureRange[] | null,
+  desk?: Pick<PricedDay, 'deskId' | 'roomId'>,
+): PricedDay[] {
+  if (!startDate || !endDate || endDate < startDate) return [];
+  return generateDateRange(startDate, endDate)
+    .filter(date => !isNonWorkingDay(date, workingDays, closures))
+    .map(date => ({ date, ...desk }));
+}
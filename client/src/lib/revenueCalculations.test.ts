@@ -463,6 +463,75 @@ describe('calculateStats', () => {
     expect(stats.occupancyRate).toBe(0);
     expect(stats.revenuePerOccupiedDay).toBe(0);
   });
+
+  it('charges every occurrence of a recurring series as its own visit', () => {
+    const periodStart = localDate(2026, 3, 1);
+    const periodEnd = localDate(2026, 3, 31);
+    const daysInPeriod = generateDaysInRange(periodStart, periodEnd);
+
+    // Tue/Thu series; even a row carrying the series span is priced per visit
+    const bookings = ['2026-03-03', '2026-03-05', '2026-03-10'].map(date => ({
+      ...createBooking('room1-desk1', date, '2026-03-03', '2026-04-30', 'assigned', 15),
+      seriesId: '42',
+    }));
+
+    const stats = calculateStats({
+      bookings,
+      daysInPeriod,
+      periodStart,
+      periodEnd,
+      currency: 'EUR',
+    });
+
+    expect(stats.confirmedRevenue).toBe(45);
+    expect(stats.occupiedDays).toBe(3);
+  });
+
+  it('counts morning and afternoon passes as separate half days', () => {
+    const periodStart = localDate(2026, 3, 2);
+    const periodEnd = localDate(2026, 3, 6);
+    const daysInPeriod = generateDaysInRange(periodStart, periodEnd);
+
+    const bookings: DeskBooking[] = [
+      { ...createBooking('room1-desk1', '2026-03-03', '2026-03-03', '2026-03-03', 'assigned', 6), id: 'room1-desk1-2026-03-03-am', dayPart: 'am' },
+      { ...createBooking('room1-desk1', '2026-03-03', '2026-03-03', '2026-03-03', 'assigned', 7), id: 'room1-desk1-2026-03-03-pm', dayPart: 'pm' },
+    ];
+
+    const stats = calculateStats({
+      bookings,
+      daysInPeriod,
+      periodStart,
+      periodEnd,
+      currency: 'EUR',
+    });
+
+    expect(stats.confirmedRevenue).toBe(13);
+    expect(stats.occupiedDays).toBe(1);
+  });
+
+  it('leaves closed days out of the total and the occupied count', () => {
+    const periodStart = localDate(2026, 1, 5);
+    const periodEnd = localDate(2026, 1, 9);
+    const daysInPeriod = generateDaysInRange(periodStart, periodEnd);
+
+    const bookings = daysInPeriod.map(date =>
+      createBooking('room1-desk1', date, '2026-01-05', '2026-01-09', 'assigned', 100)
+    );
+
+    const stats = calculateStats({
+      bookings,
+      daysInPeriod,
+      periodStart,
+      periodEnd,
+      currency: 'EUR',
+      workingDays: [1, 2, 3, 4, 5],
+      closures: [{ id: 'c1', startDate: '2026-01-06', endDate: '2026-01-06', label: 'Epiphany' }],
+    });
+
+    expect(stats.totalDeskDays).toBe(DESK_COUNT * 4);
+    expect(stats.occupiedDays).toBe(5);
+    expect(stats.confirmedRevenue).toBe(100);
+  });
 });
 
 describe('calculateMonthlyStats', () => {
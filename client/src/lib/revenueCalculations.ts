@@ -1,7 +1,8 @@
-import { DeskBooking, MonthlyStats, Currency } from '@shared/schema';
+import { DeskBooking, MonthlyStats, Currency, OrgClosure } from '@shared/schema';
 import { DESK_COUNT } from './deskConfig';
-import { isNonWorkingDay } from './workingDays';
+import { findClosure, isOpenDay } from './workingDays';
 import { formatLocalDate } from './dateUtils';
+import { dayPartWeight } from './dayParts';
 
 function createLocalDate(source: Date): Date {
   return new Date(source.getFullYear(), source.getMonth(), source.getDate());
@@ -60,10 +61,37 @@ export function calculateProratedRevenue(
   return { totalBookingDays, daysInPeriod, proratedPrice };
 }
 
+/**
+ * The run a booking row's price is spread over, plus the key that counts the
+ * run once. A regular booking shares its price across startDate..endDate; an
+ * occurrence of a recurring series is priced per visit, so every row is its
+ * own run — even when occurrences fall on adjacent days. Morning and
+ * afternoon passes on the same desk are separate runs.
+ */
+export function revenueRun(row: {
+  deskId: string;
+  date: string;
+  startDate: string;
+  endDate: string;
+  seriesId?: string | null;
+  dayPart?: string | null;
+}): { key: string; startDate: string; endDate: string } {
+  const part = row.dayPart && row.dayPart !== 'full' ? `-${row.dayPart}` : '';
+  if (row.seriesId) {
+    return { key: `series:${row.seriesId}:${row.date}${part}`, startDate: row.date, endDate: row.date };
+  }
+  return { key: `${row.deskId}-${row.startDate}${part}`, startDate: row.startDate, endDate: row.endDate };
+}
+
+/**
+ * Half-day bookings count as half an occupied (or assigned) desk-day.
+ * Assigned days on a closure don't count, like assigned days off.
+ */
 export function countOccupiedDays(
   bookings: DeskBooking[],
   daysInPeriod: string[],
-  workingDays?: number[]
+  workingDays?: number[],
+  closures?: readonly OrgClosure[]
 ): { occupiedDays: number; assignedDays: number } {
   let occupiedDays = 0;
   let assignedDays = 0;
@@ -72,11 +100,12 @@ export function countOccupiedDays(
     if (booking.isFrozen) continue;
     if (!daysInPeriod.includes(booking.date)) continue;
 
+    const weight = dayPartWeight(booking);
     if (booking.status === 'assigned' || booking.status === 'booked') {
-      occupiedDays++;
+      occupiedDays += weight;
     }
-    if (booking.status === 'assigned' && (!workingDays || !isNonWorkingDay(booking.date, workingDays))) {
-      assignedDays++;
+    if (booking.status === 'assigned' && isOpenDay(booking.date, workingDays, closures)) {
+      assignedDays += weight;
     }
   }
 
@@ -103,11 +132,11 @@ export function calculateRevenueByStatus(
     if (booking.isFrozen) continue;
     if (!daysInPeriod.includes(booking.date)) continue;
 
-    const bookingKey = `${booking.deskId}-${booking.startDate}`;
-    if (processedBookings.has(bookingKey)) continue;
-    processedBookings.add(bookingKey);
+    const run = revenueRun(booking as { deskId: string; date: string; startDate: string; endDate: string; seriesId?: string | null; dayPart?: string | null });
+    if (processedBookings.has(run.key)) continue;
+    processedBookings.add(run.key);
 
-    const { proratedPrice } = calculateProratedRevenue(booking as { startDate: string; endDate: string; price?: number }, periodStart, periodEnd);
+    const { proratedPrice } = calculateProratedRevenue({ ...run, price: booking.price }, periodStart, periodEnd);
 
     if (booking.status === 'assigned') {
       confirmedRevenue += proratedPrice;
@@ -147,13 +176,16 @@ export interface StatsInput {
   periodEnd: Date;
   currency: Currency;
   workingDays?: number[];
+  /** Closed days drop out of the total desk-days. */
+  closures?: readonly OrgClosure[];
 }
 
 export function calculateStats(input: StatsInput): MonthlyStats {
-  const { bookings, daysInPeriod, periodStart, periodEnd, currency, workingDays } = input;
-  const totalDeskDays = DESK_COUNT * daysInPeriod.length;
+  const { bookings, daysInPeriod, periodStart, periodEnd, currency, workingDays, closures } = input;
+  const openDays = daysInPeriod.filter(d => !findClosure(closures, d)).length;
+  const totalDeskDays = DESK_COUNT * openDays;
 
-  const { occupiedDays, assignedDays } = countOccupiedDays(bookings, daysInPeriod, workingDays);
+  const { occupiedDays, assignedDays } = countOccupiedDays(bookings, daysInPeriod, workingDays, closures);
   const revenue = calculateRevenueByStatus(bookings, daysInPeriod, periodStart, periodEnd);
   const metrics = calculateDerivedMetrics(occupiedDays, assignedDays, totalDeskDays, revenue.confirmedRevenue);
 
@@ -0,0 +1,391 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { DeskBooking } from '@shared/schema';
+
+// In-memory stand-in for the Supabase client: enough of the PostgREST query
+// builder for the data store's booking reads and writes to run end to end.
+const fake = vi.hoisted(() => {
+  type Row = Record<string, any>;
+  type Filter = (row: Row) => boolean;
+
+  const state = {
+    tables: {} as Record<string, Row[]>,
+    rpcs: {} as Record<string, (args: any) => { data?: any; error?: any }>,
+    rpcCalls: [] as { name: string; args: any }[],
+    offline: false,
+    nextId: 1000,
+  };
+
+  const networkError = { message: 'TypeError: Failed to fetch' };
+  const same = (a: unknown, b: unknown) => String(a ?? null) === String(b ?? null);
+
+  function splitTopLevel(expr: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const ch of expr) {
+      if (ch === '(') depth++;
+      if (ch === ')') depth--;
+      if (ch === ',' && depth === 0) {
+        parts.push(current);
+        current = '';
+      } else {
+        current += ch;
+      }
+    }
+    if (current) parts.push(current);
+    return parts;
+  }
+
+  // Parses PostgREST logic trees like `and(desk_id.eq.d1,or(day_part.is.null,day_part.eq.full))`
+  function parseCondition(term: string): Filter {
+    const group = /^(and|or)\((.*)\)$/.exec(term);
+    if (group) {
+      const children = splitTopLevel(group[2]).map(parseCondition);
+      return group[1] === 'and'
+        ? (row) => children.every((f) => f(row))
+        : (row) => children.some((f) => f(row));
+    }
+    const [column, op, ...rest] = term.split('.');
+    const value = rest.join('.');
+    if (op === 'is') return (row) => (row[column] ?? null) === null;
+    if (op === 'neq') return (row) => !same(row[column], value);
+    return (row) => same(row[column], value);
+  }
+
+  class Query {
+    private op: 'select' | 'insert' | 'upsert' | 'update' | 'delete' = 'select';
+    private payload: Row[] = [];
+    private changes: Row = {};
+    private filters: Filter[] = [];
+    private sortColumn: string | null = null;
+    private max: number | null = null;
+    private single = false;
+
+    constructor(private table: string) {}
+
+    select() { return this; }
+    insert(rows: Row | Row[]) { this.op = 'insert'; this.payload = [rows].flat(); return this; }
+    upsert(rows: Row | Row[]) { this.op = 'upsert'; this.payload = [rows].flat(); return this; }
+    update(changes: Row) { this.op = 'update'; this.changes = changes; return this; }
+    delete() { this.op = 'delete'; return this; }
+    eq(column: string, value: unknown) { this.filters.push((r) => same(r[column], value)); return this; }
+    neq(column: string, value: unknown) { this.filters.push((r) => !same(r[column], value)); return this; }
+    gte(column: string, value: string) { this.filters.push((r) => r[column] >= value); return this; }
+    lte(column: string, value: string) { this.filters.push((r) => r[column] <= value); return this; }
+    in(column: string, values: unknown[]) { this.filters.push((r) => values.some((v) => same(r[column], v))); return this; }
+    is(column: string) { this.filters.push((r) => (r[column] ?? null) === null); return this; }
+    or(expr: string) { this.filters.push(parseCondition(`or(${expr})`)); return this; }
+    order(column: string) { this.sortColumn = column; return this; }
+    limit(n: number) { this.max = n; return this; }
+    maybeSingle() { this.single = true; return this; }
+
+    then<T>(resolve: (value: { data: any; error: any }) => T, reject?: (reason: unknown) => T) {
+      return Promise.resolve().then(() => this.run()).then(resolve, reject);
+    }
+
+    private run(): { data: any; error: any } {
+      if (state.offline) return { data: null, error: networkError };
+      const rows = (state.tables[this.table] ??= []);
+      const matches = (row: Row) => this.filters.every((f) => f(row));
+      let data: Row[];
+      switch (this.op) {
+        case 'insert':
+        case 'upsert':
+          data = this.payload.map((incoming) => {
+            const row = { id: state.nextId++, ...incoming };
+            const existing = rows.findIndex((r) => same(r.id, row.id));
+            if (existing >= 0 && this.op === 'upsert') rows[existing] = { ...rows[existing], ...row };
+            else rows.push(row);
+            return row;
+          });
+          break;
+        case 'update':
+          data = rows.filter(matches);
+          for (const row of data) Object.assign(row, this.changes);
+          break;
+        case 'delete':
+          data = rows.filter(matches);
+          state.tables[this.table] = rows.filter((r) => !matches(r));
+          break;
+        default:
+          data = rows.filter(matches).map((r) => ({ ...r }));
+      }
+      if (this.sortColumn) {
+        const column = this.sortColumn;
+        data = [...data].sort((a, b) => String(a[column]).localeCompare(String(b[column])));
+      }
+      if (this.max !== null) data = data.slice(0, this.max);
+      return { data: this.single ? data[0] ?? null : data, error: null };
+    }
+  }
+
+  const client = {
+    from: (table: string) => new Query(table),
+    rpc: (name: string, args: any) => {
+      state.rpcCalls.push({ name, args });
+      const result = state.offline
+        ? { data: null, error: networkError }
+        : { data: null, error: null, ...state.rpcs[name]?.(args) };
+      const promise = Promise.resolve(result);
+      return Object.assign(promise, { single: () => promise, maybeSingle: () => promise });
+    },
+    auth: { getUser: async () => ({ data: { user: null } }) },
+    functions: { invoke: async () => ({ data: null, error: null }) },
+  };
+
+  return { state, client };
+});
+
+vi.mock('./supabaseClient', () => ({ supabaseClient: fake.client }));
+
+import { SupabaseDataStore } from './supabaseDataStore';
+import { getMutationOutbox } from './offlineQueue';
+import { BookingConflictError } from './bookingConflicts';
+import { UndoHistory, buildSlotChanges } from './undoHistory';
+
+const ORG = '8d7f2c1e-0000-4000-8000-000000000001';
+
+function dbRow(deskId: string, date: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id: fake.state.nextId++,
+    organization_id: ORG,
+    desk_id: deskId,
+    date,
+    start_date: date,
+    end_date: date,
+    status: 'booked',
+    person_name: 'Alice',
+    price: 25,
+    currency: 'EUR',
+    is_frozen: false,
+    day_part: 'full',
+    created_at: '2026-03-01T10:00:00+00:00',
+    ...overrides,
+  };
+}
+
+function makeBooking(deskId: string, date: string, overrides: Partial<DeskBooking> = {}): DeskBooking {
+  return {
+    id: `${deskId}-${date}`,
+    deskId,
+    date,
+    startDate: date,
+    endDate: date,
+    status: 'booked',
+    personName: 'Bob',
+    createdAt: '2026-03-05T09:00:00.000Z',
+    ...overrides,
+  };
+}
+
+// Mirrors supabase/migrations/*_add_save_desk_bookings.sql
+function saveDeskBookings({ p_organization_id, p_rows, p_deletions }: any) {
+  const sameSlot = (b: any, d: any) => b.desk_id === d.desk_id && b.date === d.date && (b.day_part ?? 'full') === d.day_part;
+  const keep = new Set(p_rows.map((r: any) => String(r.id)));
+  const table = (fake.state.tables.desk_bookings ?? []).filter(
+    (b) => keep.has(String(b.id)) || !p_deletions.some((d: any) => sameSlot(b, d)),
+  );
+  for (const row of p_rows) {
+    const existing = table.find((b) => String(b.id) === String(row.id));
+    if (existing && existing.status !== 'available' && !existing.is_frozen
+      && Date.parse(existing.created_at) !== Date.parse(row.created_at)) {
+      return {
+        error: {
+          code: '23505',
+          details: `Key (organization_id, desk_id, date)=(${p_organization_id}, ${row.desk_id}, ${row.date}) already exists.`,
+        },
+      };
+    }
+  }
+  for (const row of p_rows) {
+    const existing = table.find((b) => String(b.id) === String(row.id));
+    if (existing) Object.assign(existing, row);
+    else table.push({ ...row });
+  }
+  fake.state.tables.desk_bookings = table;
+  return {};
+}
+
+beforeEach(() => {
+  fake.state.tables = {};
+  fake.state.rpcs = { save_desk_bookings: saveDeskBookings };
+  fake.state.rpcCalls = [];
+  fake.state.offline = false;
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  const outbox = getMutationOutbox();
+  for (const entry of await outbox.list()) await outbox.remove(entry.id);
+  vi.restoreAllMocks();
+});
+
+describe('SupabaseDataStore offline reads', () => {
+  it('shows queued writes in range and desk reads until they replay', async () => {
+    fake.state.tables.desk_bookings = [dbRow('room1-desk1', '2026-03-02')];
+    const store = new SupabaseDataStore(ORG);
+    await store.getBookingsForDateRange('2026-03-01', '2026-03-31');
+
+    fake.state.offline = true;
+    await store.saveBooking(makeBooking('room1-desk2', '2026-03-03'));
+    await store.deleteBooking('room1-desk1', '2026-03-02');
+    fake.state.offline = false;
+
+    const range = await store.getBookingsForDateRange('2026-03-01', '2026-03-31');
+    expect(range.map((b) => [b.deskId, b.date])).toEqual([['room1-desk2', '2026-03-03']]);
+
+    const desk = await store.getBookingsForDesk('room1-desk2');
+    expect(desk.map((b) => b.personName)).toEqual(['Bob']);
+    expect(await store.getBookingsForDesk('room1-desk1')).toEqual([]);
+  });
+
+  it('serves range reads from the last known state while offline', async () => {
+    fake.state.tables.desk_bookings = [dbRow('room1-desk1', '2026-03-02')];
+    const store = new SupabaseDataStore(ORG);
+    await store.getBookingsForDateRange('2026-03-01', '2026-03-31');
+
+    fake.state.offline = true;
+    await store.saveBooking(makeBooking('room1-desk1', '2026-03-04'));
+
+    const range = await store.getBookingsForDateRange('2026-03-01', '2026-03-31');
+    expect(range.map((b) => b.date)).toEqual(['2026-03-02', '2026-03-04']);
+  });
+});
+
+describe('SupabaseDataStore booking writes', () => {
+  it('updates rows read back from the server in place', async () => {
+    fake.state.tables.desk_bookings = [dbRow('room1-desk1', '2026-03-02', { id: 41 })];
+    const store = new SupabaseDataStore(ORG);
+    const [booking] = await store.getBookingsForDateRange('2026-03-01', '2026-03-31');
+
+    await store.bulkUpdateBookings([{ ...booking, personName: 'Carol' }]);
+
+    expect(fake.state.tables.desk_bookings).toHaveLength(1);
+    expect(fake.state.tables.desk_bookings[0]).toMatchObject({ id: 41, person_name: 'Carol' });
+  });
+
+  it('clears old dates and writes new ones in a single server call', async () => {
+    fake.state.tables.desk_bookings = [
+      dbRow('room1-desk1', '2026-03-02', { id: 41 }),
+      dbRow('room1-desk1', '2026-03-03', { id: 42 }),
+    ];
+    const store = new SupabaseDataStore(ORG);
+    const rows = await store.getBookingsForDateRange('2026-03-01', '2026-03-31');
+
+    await store.replaceBookings(
+      rows.map(({ deskId, date }) => ({ deskId, date })),
+      [{ ...rows[1], personName: 'Carol' }, makeBooking('room1-desk1', '2026-03-04', { createdAt: rows[1].createdAt })],
+    );
+
+    expect(fake.state.rpcCalls.map((c) => c.name)).toEqual(['save_desk_bookings']);
+    expect(fake.state.tables.desk_bookings.map((r) => [r.id, r.date, r.person_name])).toEqual([
+      [42, '2026-03-03', 'Carol'],
+      [expect.any(Number), '2026-03-04', 'Bob'],
+    ]);
+  });
+
+  it('rejects a slot another client booked first', async () => {
+    const first = new SupabaseDataStore(ORG);
+    const second = new SupabaseDataStore(ORG);
+    await first.saveBooking(makeBooking('room1-desk1', '2026-03-02', { personName: 'Alice' }));
+
+    await expect(
+      second.saveBooking(makeBooking('room1-desk1', '2026-03-02', { createdAt: '2026-03-05T09:30:00.000Z' })),
+    ).rejects.toBeInstanceOf(BookingConflictError);
+    expect(fake.state.tables.desk_bookings.map((r) => r.person_name)).toEqual(['Alice']);
+  });
+
+  it('maps a server-side slot violation to a booking conflict', async () => {
+    fake.state.rpcs.save_desk_bookings = () => ({
+      error: {
+        code: '23P01',
+        details: `Key (organization_id, desk_id, date, desk_day_span(day_part))=(${ORG}, room1-desk1, 2026-03-02, [0,2)) conflicts with existing key.`,
+      },
+    });
+    const store = new SupabaseDataStore(ORG);
+
+    const error = await store.saveBooking(makeBooking('room1-desk1', '2026-03-02')).catch((e) => e);
+    expect(error).toBeInstanceOf(BookingConflictError);
+    expect(error.conflictingBooking).toEqual({ deskId: 'room1-desk1', date: '2026-03-02' });
+  });
+});
+
+describe('SupabaseDataStore booking marks', () => {
+  it('sets a no-show on the stored row without rewriting the rest of it', async () => {
+    fake.state.tables.desk_bookings = [dbRow('room1-desk1', '2026-03-02', { id: 41 })];
+    const store = new SupabaseDataStore(ORG);
+    const [row] = await store.getBookingsForDateRange('2026-03-01', '2026-03-31');
+    // Another manager renames the booking after this client read it
+    fake.state.tables.desk_bookings[0].person_name = 'Carol';
+
+    await store.patchBookings([row], { noShow: true });
+
+    expect(fake.state.rpcCalls).toEqual([]);
+    expect(fake.state.tables.desk_bookings).toEqual([
+      expect.objectContaining({ id: 41, person_name: 'Carol', no_show: true }),
+    ]);
+  });
+
+  it('checks in a day and clears its no-show, read back through the row mapping', async () => {
+    fake.state.tables.desk_bookings = [dbRow('room1-desk1', '2026-03-02', { id: 41, no_show: true })];
+    const store = new SupabaseDataStore(ORG);
+    const [row] = await store.getBookingsForDateRange('2026-03-01', '2026-03-31');
+    expect(row.noShow).toBe(true);
+
+    await store.patchBookings([row], { checkedInAt: '2026-03-02T08:55:00.000Z', noShow: undefined });
+
+    expect(fake.state.tables.desk_bookings[0]).toMatchObject({
+      checked_in_at: '2026-03-02T08:55:00.000Z',
+      no_show: false,
+    });
+    const [after] = await new SupabaseDataStore(ORG).getBookingsForDateRange('2026-03-01', '2026-03-31');
+    expect(after).toMatchObject({ id: '41', checkedInAt: '2026-03-02T08:55:00.000Z', noShow: undefined });
+  });
+
+  it('records a payment and ends the hold on the stored row', async () => {
+    fake.state.tables.desk_bookings = [dbRow('room1-desk1', '2026-03-02', { id: 41, held_until: '2026-03-01T18:00:00+00:00' })];
+    const store = new SupabaseDataStore(ORG);
+    const [row] = await store.getBookingsForDateRange('2026-03-01', '2026-03-31');
+
+    await store.patchBookings([row], { status: 'assigned', heldUntil: null });
+
+    expect(fake.state.tables.desk_bookings[0]).toMatchObject({ id: 41, status: 'assigned', held_until: null });
+  });
+});
+
+describe('SupabaseDataStore moves', () => {
+  it('nudges a run along its own desk without leaving the old rows behind', async () => {
+    fake.state.tables.desk_bookings = [
+      dbRow('room1-desk1', '2026-03-02', { id: 41, start_date: '2026-03-02', end_date: '2026-03-03' }),
+      dbRow('room1-desk1', '2026-03-03', { id: 42, start_date: '2026-03-02', end_date: '2026-03-03' }),
+    ];
+    const store = new SupabaseDataStore(ORG);
+    const run = { deskId: 'room1-desk1', startDate: '2026-03-02', endDate: '2026-03-03' };
+
+    await store.moveBookingRun(run, { ...run, startDate: '2026-03-03', endDate: '2026-03-04' });
+
+    expect(fake.state.rpcCalls.map((c) => c.name)).toEqual(['save_desk_bookings']);
+    expect(fake.state.tables.desk_bookings.map((r) => [r.date, r.start_date, r.end_date])).toEqual([
+      ['2026-03-03', '2026-03-03', '2026-03-04'],
+      ['2026-03-04', '2026-03-03', '2026-03-04'],
+    ]);
+  });
+});
+
+describe('SupabaseDataStore undo', () => {
+  it('puts an edited booking back in place instead of adding a copy', async () => {
+    fake.state.tables.desk_bookings = [dbRow('room1-desk1', '2026-03-02', { id: 41 })];
+    const store = new SupabaseDataStore(ORG);
+    const history = new UndoHistory();
+    const [before] = await store.getBookingsForDateRange('2026-03-01', '2026-03-31');
+    const after = { ...before, deskId: 'room1-desk2', personName: 'Carol' };
+    await store.replaceBookings([{ deskId: 'room1-desk1', date: '2026-03-02' }], [after]);
+    history.push({ label: 'Move', slots: buildSlotChanges([before], [after]) });
+
+    await history.undo(store);
+
+    expect(fake.state.tables.desk_bookings).toEqual([
+      expect.objectContaining({ id: 41, desk_id: 'room1-desk1', person_name: 'Alice' }),
+    ]);
+  });
+});
@@ -1,5 +1,6 @@
 import { SupabaseClient } from '@supabase/supabase-js';
 import {
+  DayPart,
   DeskBooking,
   WaitingListEntry,
   AppSettings,
@@ -7,28 +8,67 @@ import {
   Expense,
   RecurringExpense,
   SharedBooking,
+  SharedBookingChange,
+  CheckInResult,
+  WaitlistClaim,
+  WaitlistClaimResult,
   PublicAvailability,
+  PublicBookingResult,
+  MemberBookingResult,
   Client,
   ExpenseCategory,
   Currency,
+  AuditEntry,
+  BookingSeries,
+  BookingGroup,
+  BookingFee,
+  DeskBlock,
+  OrgClosure,
+  ImportBatch,
 } from '@shared/schema';
-import { IDataStore } from './dataStore';
+import { BookingPatch, IDataStore } from './dataStore';
 import { supabaseClient } from './supabaseClient';
 import { DESK_COUNT } from './deskConfig';
-import { isNonWorkingDay } from './workingDays';
+import { isOpenDay } from './workingDays';
 import { formatLocalDate, formatYMD } from './dateUtils';
 import { DEDICATED_PLAN_TYPES, addDays, addMonths, daysBetweenInclusive } from './planDates';
+import {
+  MutationOutbox,
+  OutboxEntry,
+  OutboxExecutor,
+  OutboxMutation,
+  ReplayResult,
+  BookingSlot,
+  SlotBaseline,
+  getMutationOutbox,
+  isNetworkError,
+  isOnline,
+  overlayPendingBookings,
+  slotKey,
+} from './offlineQueue';
+import { BookingConflictError, findBookingConflicts, toBookingConflictError } from './bookingConflicts';
+import { BookingRun, isRunRow, movedRunRows, vacatedSlots } from './bookingMoves';
+import { revenueRun } from './revenueCalculations';
+import { dayPartWeight } from './dayParts';
+import { AuditLogFilter, DEFAULT_AUDIT_LIMIT, NewAuditEntry } from './auditLog';
+import { countBlockedDeskDays } from './deskBlocks';
 
 export class SupabaseDataStore implements IDataStore {
   public client: SupabaseClient; // Made public for metadata access
   private readonly DAYS_TO_KEEP = 60; // Keep bookings for 60 days
   private organizationId: string | null;
   private groupId: string | null;
+  private outbox: MutationOutbox;
+  // Last server state seen per slot / client. Serves reads while offline and
+  // is the baseline queued writes are checked against on replay.
+  private knownBookings = new Map<string, DeskBooking>();
+  private knownClientUpdatedAt = new Map<string, string>();
 
   constructor(organizationId?: string, groupId?: string) {
     this.client = supabaseClient;
     this.organizationId = organizationId || null;
     this.groupId = groupId || null;
+    this.outbox = getMutationOutbox();
 
     // Check authentication status on initialization
     this.checkAuthStatus();
@@ -61,8 +101,8 @@ export class SupabaseDataStore implements IDataStore {
     );
   }
 
-  private getBookingKey(deskId: string, date: string): string {
-    return `${deskId}-${date}`;
+  private getBookingKey(booking: DeskBooking): string {
+    return slotKey(booking.deskId, booking.date, booking.dayPart);
   }
 
   private scopeQuery<T>(query: T): T {
@@ -94,15 +134,19 @@ export class SupabaseDataStore implements IDataStore {
     return scoped.eq('is_frozen', false) as T;
   }
 
-  async getBooking(deskId: string, date: string): Promise<DeskBooking | null> {
+  async getBooking(deskId: string, date: string, dayPart?: DayPart): Promise<DeskBooking | null> {
     try {
-      const { data, error } = await this.scopeBookingsQuery(
+      let query = this.scopeBookingsQuery(
         this.client
           .from('desk_bookings')
           .select('*')
           .eq('desk_id', deskId)
           .eq('date', date),
-      ).limit(1);
+      );
+      query = dayPart && dayPart !== 'full'
+        ? query.eq('day_part', dayPart)
+        : query.or('day_part.is.null,day_part.eq.full');
+      const { data, error } = await query.limit(1);
 
       if (error) {
         console.error('Supabase error fetching booking:', error);
@@ -135,6 +179,7 @@ export class SupabaseDataStore implements IDataStore {
 
       if (error) {
         console.error('Supabase error fetching bookings:', error);
+        if (isNetworkError(error)) return this.getOfflineBookings(startDate, endDate);
         return {}; // Return empty object instead of throwing
       }
 
@@ -142,46 +187,307 @@ export class SupabaseDataStore implements IDataStore {
 
       for (const row of data || []) {
         const booking = this.mapFromDatabase(row);
-        const key = this.getBookingKey(booking.deskId, booking.date);
+        const key = this.getBookingKey(booking);
         bookings[key] = booking;
       }
+      this.rememberBookings(Object.values(bookings), startDate, endDate);
 
-      return bookings;
+      const pending = await this.outbox.list(this.organizationId);
+      return overlayPendingBookings(bookings, pending, { startDate, endDate });
     } catch (error) {
       console.error('Error fetching all bookings:', error);
+      if (isNetworkError(error)) return this.getOfflineBookings(startDate, endDate);
       return {}; // Return empty object to gracefully handle errors
     }
   }
 
-  async saveBooking(booking: DeskBooking): Promise<void> {
-    try {
-      const dbData = this.mapToDatabase(booking);
+  // ─── Offline outbox ──────────────────────────────────────────────
 
-      // First try to update existing record, then insert if not found
-      const { error } = await this.client.from('desk_bookings').upsert(dbData, {
-        onConflict: 'id',
-        ignoreDuplicates: false,
-      });
+  private rememberBookings(bookings: DeskBooking[], startDate?: string, endDate?: string): void {
+    // A fresh read of a range is authoritative: forget slots that vanished.
+    if (startDate && endDate) {
+      for (const [key, booking] of this.knownBookings) {
+        if (booking.date >= startDate && booking.date <= endDate) this.knownBookings.delete(key);
+      }
+    }
+    for (const booking of bookings) {
+      this.knownBookings.set(this.getBookingKey(booking), booking);
+    }
+  }
 
-      if (error) {
-        console.error('Supabase upsert error:', error);
-        throw error;
+  private async getOfflineBookings(
+    startDate?: string,
+    endDate?: string,
+  ): Promise<Record<string, DeskBooking>> {
+    const cached: Record<string, DeskBooking> = {};
+    for (const [key, booking] of this.knownBookings) {
+      if (startDate && booking.date < startDate) continue;
+      if (endDate && booking.date > endDate) continue;
+      cached[key] = booking;
+    }
+    const pending = await this.outbox.list(this.organizationId);
+    return overlayPendingBookings(cached, pending, { startDate, endDate });
+  }
+
+  // List reads show queued offline writes too, like getAllBookings, so the
+  // calendar doesn't jump back to the server state until replay finishes.
+  private async withPendingBookings(
+    bookings: DeskBooking[],
+    startDate?: string,
+    endDate?: string,
+  ): Promise<DeskBooking[]> {
+    const pending = await this.outbox.list(this.organizationId);
+    if (pending.length === 0) return bookings;
+    const keyed: Record<string, DeskBooking> = {};
+    for (const booking of bookings) keyed[this.getBookingKey(booking)] = booking;
+    return Object.values(overlayPendingBookings(keyed, pending, { startDate, endDate }))
+      .filter((b) => !b.isFrozen)
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  private baselineFor(slots: BookingSlot[]): SlotBaseline {
+    const baseline: SlotBaseline = {};
+    for (const { deskId, date, dayPart } of slots) {
+      const key = slotKey(deskId, date, dayPart);
+      baseline[key] = this.knownBookings.get(key) ?? null;
+    }
+    return baseline;
+  }
+
+  private applyToKnown(mutation: OutboxMutation): void {
+    if (mutation.kind === 'saveBookings') {
+      this.rememberBookings(mutation.bookings);
+    } else if (mutation.kind === 'deleteBookings') {
+      for (const { deskId, date, dayPart } of mutation.deletions) {
+        this.knownBookings.delete(slotKey(deskId, date, dayPart));
       }
+    } else if (mutation.kind === 'deleteClient') {
+      this.knownClientUpdatedAt.delete(mutation.id);
+    }
+  }
+
+  /**
+   * Runs a write, or queues it in the outbox when the network is down. Writes
+   * also queue while older offline writes are still waiting, so replay keeps
+   * the order the user made them in. A write made of several mutations
+   * queues them in order.
+   */
+  private async writeOrQueue(
+    mutation: OutboxMutation | OutboxMutation[],
+    write: () => Promise<void>,
+  ): Promise<void> {
+    const mutations = Array.isArray(mutation) ? mutation : [mutation];
+    if (await this.outbox.hasPending(this.organizationId)) {
+      for (const m of mutations) await this.outbox.enqueue(this.organizationId, m);
+      if (isOnline()) void this.replayPendingMutations();
+      return;
+    }
+    try {
+      await write();
+      for (const m of mutations) this.applyToKnown(m);
     } catch (error) {
+      if (!isNetworkError(error)) throw error;
+      for (const m of mutations) await this.outbox.enqueue(this.organizationId, m);
+    }
+  }
+
+  private get outboxExecutor(): OutboxExecutor {
+    return {
+      execute: async (mutation) => {
+        await this.executeMutation(mutation);
+        this.applyToKnown(mutation);
+      },
+      fetchBookingSlots: (slots) => this.fetchBookingSlots(slots),
+      fetchClientUpdatedAt: async (id) => {
+        const { data, error } = await this.client
+          .from('clients')
+          .select('updated_at')
+          .eq('id', parseInt(id, 10))
+          .maybeSingle();
+        if (error) throw error;
+        return data?.updated_at ?? null;
+      },
+    };
+  }
+
+  private async executeMutation(mutation: OutboxMutation): Promise<void> {
+    switch (mutation.kind) {
+      case 'saveBookings':
+        return this.upsertBookingRows(mutation.bookings);
+      case 'deleteBookings':
+        return this.deleteBookingRows(mutation.deletions);
+      case 'saveClient':
+        await this.persistClient(mutation.client);
+        return;
+      case 'deleteClient':
+        return this.deleteClientRow(mutation.id);
+      case 'saveExpense':
+        return this.upsertExpenseRow(mutation.expense);
+      case 'deleteExpense':
+        return this.deleteExpenseRow(mutation.id);
+    }
+  }
+
+  // Reads every part of each slot's day, so half-day conflicts are visible
+  private async fetchBookingSlots(
+    slots: BookingSlot[],
+  ): Promise<Record<string, DeskBooking | null>> {
+    const result: Record<string, DeskBooking | null> = {};
+    if (slots.length === 0) return result;
+    const orConditions = slots.map(
+      ({ deskId, date }) => `and(desk_id.eq.${deskId},date.eq.${date})`,
+    );
+    const { data, error } = await this.scopeBookingsQuery(
+      this.client.from('desk_bookings').select('*').or(orConditions.join(',')),
+      { includeFrozen: true },
+    );
+    if (error) throw error;
+    for (const row of data || []) {
+      const booking = this.mapFromDatabase(row);
+      result[this.getBookingKey(booking)] = booking;
+    }
+    return result;
+  }
+
+  async getPendingMutations(): Promise<OutboxEntry[]> {
+    return this.outbox.list(this.organizationId);
+  }
+
+  subscribeToPendingMutations(listener: () => void): () => void {
+    return this.outbox.subscribe(listener);
+  }
+
+  async replayPendingMutations(): Promise<ReplayResult> {
+    return this.outbox.replay(this.organizationId, this.outboxExecutor);
+  }
+
+  async resolveMutationConflict(entryId: string, resolution: 'overwrite' | 'discard'): Promise<void> {
+    await this.outbox.resolveConflict(entryId, resolution, this.outboxExecutor);
+    await this.replayPendingMutations();
+  }
+
+  private async upsertBookingRows(bookings: DeskBooking[]): Promise<void> {
+    const dbData = bookings.map((booking) => this.mapToDatabase(booking));
+
+    // First try to update existing record, then insert if not found
+    const { error } = await this.client
+      .from('desk_bookings')
+      .upsert(dbData, { onConflict: 'id', ignoreDuplicates: false });
+
+    if (error) throw error;
+  }
+
+  private async deleteBookingRows(deletions: BookingSlot[]): Promise<void> {
+    // Build a filter to delete multiple bookings in one query
+    // Use OR conditions to match any of the desk_id + date (+ day part)
+    // combinations; legacy rows without a day part are full-day rows.
+    const orConditions = deletions.map(({ deskId, date, dayPart }) =>
+      dayPart && dayPart !== 'full'
+        ? `and(desk_id.eq.${deskId},date.eq.${date},day_part.eq.${dayPart})`
+        : `and(desk_id.eq.${deskId},date.eq.${date},or(day_part.is.null,day_part.eq.full))`,
+    );
+
+    const { error } = await this.client
+      .from('desk_bookings')
+      .delete()
+      .or(orConditions.join(','));
+
+    if (error) throw error;
+  }
+
+  /**
+   * Clears `deletions` and writes `bookings` in one transaction through the
+   * save_desk_bookings RPC, which re-checks every slot on the server. A slot
+   * held by another booking fails as a BookingConflictError either way.
+   */
+  private async saveBookingRowsChecked(
+    bookings: DeskBooking[],
+    deletions: BookingSlot[] = [],
+  ): Promise<void> {
+    if (bookings.length === 0 && deletions.length === 0) return;
+    const current = await this.fetchBookingSlots(
+      bookings.map((b) => ({ deskId: b.deskId, date: b.date, dayPart: b.dayPart })),
+    );
+    for (const { deskId, date, dayPart } of deletions) current[slotKey(deskId, date, dayPart)] = null;
+    const conflicts = findBookingConflicts(bookings, current);
+    if (conflicts.length > 0) throw new BookingConflictError(conflicts);
+
+    const { error } = await this.client.rpc('save_desk_bookings', {
+      p_organization_id: this.organizationId,
+      p_rows: bookings.map((booking) => this.mapToDatabase(booking)),
+      p_deletions: deletions.map(({ deskId, date, dayPart }) => ({
+        desk_id: deskId,
+        date,
+        day_part: dayPart ?? 'full',
+      })),
+    });
+    // Lost the race to a concurrent save between the check and the write
+    if (error) throw toBookingConflictError(error, bookings) ?? error;
+  }
+
+  private bookingSaveMutation(bookings: DeskBooking[]): OutboxMutation {
+    const slots = bookings.map((b) => ({ deskId: b.deskId, date: b.date, dayPart: b.dayPart }));
+    return { kind: 'saveBookings', bookings, baseline: this.baselineFor(slots) };
+  }
+
+  private bookingDeleteMutation(deletions: BookingSlot[]): OutboxMutation {
+    return { kind: 'deleteBookings', deletions, baseline: this.baselineFor(deletions) };
+  }
+
+  async saveBooking(booking: DeskBooking): Promise<void> {
+    try {
+      await this.writeOrQueue(this.bookingSaveMutation([booking]), () =>
+        this.saveBookingRowsChecked([booking]),
+      );
+    } catch (error) {
+      if (error instanceof BookingConflictError) throw error;
       console.error('Error saving booking:', error);
       throw new Error('Failed to save booking');
     }
   }
 
-  async deleteBooking(deskId: string, date: string): Promise<void> {
+  async replaceBookings(deletions: BookingSlot[], bookings: DeskBooking[]): Promise<void> {
+    const mutations: OutboxMutation[] = [];
+    if (deletions.length > 0) mutations.push(this.bookingDeleteMutation(deletions));
+    if (bookings.length > 0) mutations.push(this.bookingSaveMutation(bookings));
+    if (mutations.length === 0) return;
     try {
-      const { error } = await this.client
-        .from('desk_bookings')
-        .delete()
-        .eq('desk_id', deskId)
-        .eq('date', date);
+      await this.writeOrQueue(mutations, () => this.saveBookingRowsChecked(bookings, deletions));
+    } catch (error) {
+      if (error instanceof BookingConflictError) throw error;
+      console.error('Error replacing bookings:', error);
+      throw new Error('Failed to save booking');
+    }
+  }
 
-      if (error) throw error;
+  async patchBookings(bookings: DeskBooking[], changes: BookingPatch): Promise<void> {
+    if (bookings.length === 0) return;
+    const record: Record<string, unknown> = {};
+    if ('status' in changes) record.status = changes.status;
+    if ('noShow' in changes) record.no_show = changes.noShow || false;
+    if ('checkedInAt' in changes) record.checked_in_at = changes.checkedInAt ?? null;
+    if ('heldUntil' in changes) record.held_until = changes.heldUntil ?? null;
+    try {
+      await this.writeOrQueue(this.bookingSaveMutation(bookings.map((b) => ({ ...b, ...changes }))), async () => {
+        const { error } = await this.scopeQuery(
+          this.client
+            .from('desk_bookings')
+            .update(record)
+            .in('id', bookings.map((b) => this.bookingRowId(b))),
+        );
+        if (error) throw error;
+      });
+    } catch (error) {
+      console.error('Error updating bookings:', error);
+      throw new Error('Failed to update booking');
+    }
+  }
+
+  async deleteBooking(deskId: string, date: string, dayPart?: DayPart): Promise<void> {
+    try {
+      await this.writeOrQueue(this.bookingDeleteMutation([{ deskId, date, dayPart }]), () =>
+        this.deleteBookingRows([{ deskId, date, dayPart }]),
+      );
     } catch (error) {
       console.error('Error deleting booking:', error);
       throw new Error('Failed to delete booking');
@@ -190,41 +496,64 @@ export class SupabaseDataStore implements IDataStore {
 
   async bulkUpdateBookings(bookings: DeskBooking[]): Promise<void> {
     try {
-      const dbData = bookings.map((booking) => this.mapToDatabase(booking));
-
-      const { error } = await this.client
-        .from('desk_bookings')
-        .upsert(dbData, { onConflict: 'id' });
-
-      if (error) throw error;
+      await this.writeOrQueue(this.bookingSaveMutation(bookings), () =>
+        this.saveBookingRowsChecked(bookings),
+      );
     } catch (error) {
+      if (error instanceof BookingConflictError) throw error;
       console.error('Error bulk updating bookings:', error);
       throw new Error('Failed to bulk update bookings');
     }
   }
 
   async bulkDeleteBookings(
-    deletions: { deskId: string; date: string }[],
+    deletions: BookingSlot[],
   ): Promise<void> {
     try {
-      // Build a filter to delete multiple bookings in one query
-      // Use OR conditions to match any of the desk_id + date combinations
-      const orConditions = deletions.map(
-        ({ deskId, date }) => `and(desk_id.eq.${deskId},date.eq.${date})`,
+      await this.writeOrQueue(this.bookingDeleteMutation(deletions), () =>
+        this.deleteBookingRows(deletions),
       );
-
-      const { error } = await this.client
-        .from('desk_bookings')
-        .delete()
-        .or(orConditions.join(','));
-
-      if (error) throw error;
     } catch (error) {
       console.error('Error bulk deleting bookings:', error);
       throw new Error('Failed to bulk delete bookings');
     }
   }
 
+  /**
+   * Moves or resizes a booking run. The run's old slots are cleared and the
+   * new rows written in one transaction, so a run nudged along its own desk
+   * doesn't keep its old rows next to the new ones, and a failed move leaves
+   * it where it was. Moves aren't queued offline: replaying one against a
+   * grid that changed meanwhile is too easy to get wrong.
+   */
+  async moveBookingRun(run: BookingRun, target: BookingRun): Promise<DeskBooking[]> {
+    if (await this.outbox.hasPending(this.organizationId)) {
+      throw new Error('Sync your offline changes before moving bookings');
+    }
+    try {
+      const rows = (await this.getBookingsForDesk(run.deskId, run.startDate, run.endDate)).filter((b) =>
+        isRunRow(b, run),
+      );
+      if (rows.length === 0) throw new Error('Booking not found');
+      const moved = movedRunRows(rows, run, target);
+
+      await this.saveBookingRowsChecked(
+        moved,
+        rows.map(({ deskId, date, dayPart }) => ({ deskId, date, dayPart })),
+      );
+
+      for (const { deskId, date, dayPart } of vacatedSlots(run, target)) {
+        this.knownBookings.delete(slotKey(deskId, date, dayPart));
+      }
+      this.rememberBookings(moved);
+      return moved;
+    } catch (error) {
+      if (error instanceof BookingConflictError) throw error;
+      console.error('Error moving booking:', error);
+      throw new Error('Failed to move booking');
+    }
+  }
+
   async getBookingsForDateRange(
     startDate: string,
     endDate: string,
@@ -240,8 +569,14 @@ export class SupabaseDataStore implements IDataStore {
 
       if (error) throw error;
 
-      return (data || []).map((row) => this.mapFromDatabase(row));
+      const bookings = (data || []).map((row) => this.mapFromDatabase(row));
+      this.rememberBookings(bookings, startDate, endDate);
+      return this.withPendingBookings(bookings, startDate, endDate);
     } catch (error) {
+      if (isNetworkError(error)) {
+        return Object.values(await this.getOfflineBookings(startDate, endDate))
+          .sort((a, b) => a.date.localeCompare(b.date));
+      }
       console.error('Error fetching bookings for date range:', error);
       throw new Error('Failed to fetch bookings for date range');
     }
@@ -266,8 +601,15 @@ export class SupabaseDataStore implements IDataStore {
 
       if (error) throw error;
 
-      return (data || []).map((row) => this.mapFromDatabase(row));
+      const bookings = (data || []).map((row) => this.mapFromDatabase(row));
+      return (await this.withPendingBookings(bookings, startDate, endDate))
+        .filter((b) => b.deskId === deskId);
     } catch (error) {
+      if (isNetworkError(error)) {
+        return Object.values(await this.getOfflineBookings(startDate, endDate))
+          .filter((b) => b.deskId === deskId)
+          .sort((a, b) => a.date.localeCompare(b.date));
+      }
       console.error('Error fetching bookings for desk:', error);
       throw new Error('Failed to fetch bookings for desk');
     }
@@ -323,6 +665,7 @@ export class SupabaseDataStore implements IDataStore {
     month: number,
     workingDays?: number[],
     deskCount?: number,
+    closures?: OrgClosure[],
   ): Promise<MonthlyStats> {
     const currency = 'EUR';
     // Uses DESK_COUNT from deskConfig
@@ -334,16 +677,18 @@ export class SupabaseDataStore implements IDataStore {
     // Generate all calendar days in month
     const daysInMonth = this.generateDateRange(monthStart, monthEnd);
 
-    const workingDayCount = workingDays
-      ? daysInMonth.filter((d) => !isNonWorkingDay(d, workingDays)).length
-      : daysInMonth.length;
-    const totalDeskDays = (deskCount ?? DESK_COUNT) * workingDayCount;
+    const workingDayCount = daysInMonth.filter((d) => isOpenDay(d, workingDays, closures)).length;
+    const totalDeskDays = Math.max(
+      0,
+      (deskCount ?? DESK_COUNT) * workingDayCount -
+        (await this.getBlockedDeskDays(daysInMonth, workingDays, closures)),
+    );
 
     try {
       const { data, error } = await this.scopeBookingsQuery(
         this.client
           .from('desk_bookings')
-          .select('date, start_date, end_date, status, price, desk_id')
+          .select('date, start_date, end_date, status, price, desk_id, series_id, day_part')
           .in('date', daysInMonth),
       );
 
@@ -356,6 +701,7 @@ export class SupabaseDataStore implements IDataStore {
         totalDeskDays,
         workingDays,
         currency,
+        closures,
       );
     } catch (error) {
       console.error('Error fetching monthly stats:', error);
@@ -372,6 +718,22 @@ export class SupabaseDataStore implements IDataStore {
     }
   }
 
+  // Blocked desk-days in the period. A failed lookup counts as none, so stats
+  // still load — occupancy just reads a little low.
+  private async getBlockedDeskDays(
+    days: string[],
+    workingDays?: number[],
+    closures?: OrgClosure[],
+  ): Promise<number> {
+    if (days.length === 0) return 0;
+    try {
+      const blocks = await this.getDeskBlocks(days[0], days[days.length - 1]);
+      return countBlockedDeskDays(blocks, days, workingDays, closures);
+    } catch {
+      return 0;
+    }
+  }
+
   private generateDateRange(start: Date, end: Date): string[] {
     const dates: string[] = [];
     const current = new Date(start);
@@ -393,12 +755,15 @@ export class SupabaseDataStore implements IDataStore {
       price: number | null;
       start_date: string;
       end_date: string;
+      series_id?: number | null;
+      day_part?: DayPart | null;
     }>,
     periodStart: Date,
     periodEnd: Date,
     totalDeskDays: number,
     workingDays?: number[],
     currency: Currency = 'EUR',
+    closures?: OrgClosure[],
   ): MonthlyStats {
     const processedBookings = new Set<string>();
     const seenSlots = new Set<string>();
@@ -408,27 +773,35 @@ export class SupabaseDataStore implements IDataStore {
     let assignedWorkingDays = 0;
 
     for (const row of rows) {
-      const slotKey = `${row.desk_id}:${row.date}`;
-      const isWorking = !workingDays || !isNonWorkingDay(row.date, workingDays);
+      const slotKey = `${row.desk_id}:${row.date}:${row.day_part ?? 'full'}`;
+      const isWorking = isOpenDay(row.date, workingDays, closures);
       if (!seenSlots.has(slotKey)) {
         seenSlots.add(slotKey);
+        const weight = dayPartWeight({ dayPart: row.day_part });
         if (
           (row.status === 'assigned' || row.status === 'booked') &&
           isWorking
         ) {
-          occupiedDays++;
+          occupiedDays += weight;
         }
         if (row.status === 'assigned' && isWorking) {
-          assignedWorkingDays++;
+          assignedWorkingDays += weight;
         }
       }
 
-      const bookingKey = `${row.desk_id}-${row.start_date}`;
-      if (processedBookings.has(bookingKey)) continue;
-      processedBookings.add(bookingKey);
+      const run = revenueRun({
+        deskId: row.desk_id,
+        date: row.date,
+        startDate: row.start_date,
+        endDate: row.end_date,
+        seriesId: row.series_id ? String(row.series_id) : null,
+        dayPart: row.day_part,
+      });
+      if (processedBookings.has(run.key)) continue;
+      processedBookings.add(run.key);
 
-      const bookingStart = new Date(row.start_date);
-      const bookingEnd = new Date(row.end_date);
+      const bookingStart = new Date(run.startDate);
+      const bookingEnd = new Date(run.endDate);
       const totalBookingDays = this.countCalendarDays(bookingStart, bookingEnd);
       const effectiveStart =
         bookingStart > periodStart ? bookingStart : periodStart;
@@ -478,6 +851,7 @@ export class SupabaseDataStore implements IDataStore {
     endDate: string,
     workingDays?: number[],
     deskCount?: number,
+    closures?: OrgClosure[],
   ): Promise<MonthlyStats> {
     const currency = 'EUR';
     // Uses DESK_COUNT from deskConfig
@@ -487,16 +861,18 @@ export class SupabaseDataStore implements IDataStore {
 
     const daysInRange = this.generateDateRange(rangeStart, rangeEnd);
 
-    const workingDayCount = workingDays
-      ? daysInRange.filter((d) => !isNonWorkingDay(d, workingDays)).length
-      : daysInRange.length;
-    const totalDeskDays = (deskCount ?? DESK_COUNT) * workingDayCount;
+    const workingDayCount = daysInRange.filter((d) => isOpenDay(d, workingDays, closures)).length;
+    const totalDeskDays = Math.max(
+      0,
+      (deskCount ?? DESK_COUNT) * workingDayCount -
+        (await this.getBlockedDeskDays(daysInRange, workingDays, closures)),
+    );
 
     try {
       const { data, error } = await this.scopeBookingsQuery(
         this.client
           .from('desk_bookings')
-          .select('date, start_date, end_date, status, price, desk_id')
+          .select('date, start_date, end_date, status, price, desk_id, series_id, day_part')
           .in('date', daysInRange),
       );
 
@@ -509,6 +885,7 @@ export class SupabaseDataStore implements IDataStore {
         totalDeskDays,
         workingDays,
         currency,
+        closures,
       );
     } catch (error) {
       console.error('Error fetching stats for date range:', error);
@@ -558,8 +935,20 @@ export class SupabaseDataStore implements IDataStore {
       const dbData: any = {
         id: numericId,
         name: entry.name,
-        preferred_dates: entry.preferredDates,
+        preferred_dates: entry.preferredDates ?? null,
+        start_date: entry.startDate ?? null,
+        end_date: entry.endDate ?? null,
+        plan_type: entry.planType ?? null,
+        desk_id: entry.deskId ?? null,
+        desk_attributes: entry.deskAttributes ?? [],
+        client_id: entry.clientId ? parseInt(entry.clientId, 10) || null : null,
         contact_info: entry.contactInfo,
+        contact_email: entry.contactEmail ?? null,
+        offer_desk_id: entry.offer?.deskId ?? null,
+        offer_start_date: entry.offer?.startDate ?? null,
+        offer_end_date: entry.offer?.endDate ?? null,
+        claim_token: entry.offer?.token ?? null,
+        claim_expires_at: entry.offer?.expiresAt ?? null,
         notes: entry.notes,
         created_at: entry.createdAt,
       };
@@ -583,15 +972,34 @@ export class SupabaseDataStore implements IDataStore {
     try {
       const { data, error } = await this.scopeQuery(
         this.client.from('waiting_list_entries').select('*'),
-      ).order('created_at');
+      )
+        // Claimed offers stay behind for their claim link only
+        .is('claimed_at', null)
+        .order('created_at');
 
       if (error) throw error;
 
       return (data || []).map((row) => ({
         id: row.id.toString(), // Convert numeric ID back to string for consistency
         name: row.name,
-        preferredDates: row.preferred_dates,
+        preferredDates: row.preferred_dates || undefined,
+        startDate: row.start_date ?? null,
+        endDate: row.end_date ?? null,
+        planType: row.plan_type ?? null,
+        deskId: row.desk_id ?? null,
+        deskAttributes: row.desk_attributes ?? [],
+        clientId: row.client_id ? String(row.client_id) : null,
         contactInfo: row.contact_info,
+        contactEmail: row.contact_email ?? null,
+        offer: row.claim_token
+          ? {
+              deskId: row.offer_desk_id,
+              startDate: row.offer_start_date,
+              endDate: row.offer_end_date,
+              token: row.claim_token,
+              expiresAt: row.claim_expires_at,
+            }
+          : null,
         notes: row.notes,
         createdAt: row.created_at,
       }));
@@ -674,15 +1082,20 @@ export class SupabaseDataStore implements IDataStore {
   }
 
   // Helper methods for data mapping
-  private mapToDatabase(booking: DeskBooking): any {
-    // Include organizationId in hash to avoid cross-org ID collisions
+  private bookingRowId(booking: DeskBooking): number {
+    // Rows read back from the database carry their primary key, so writing
+    // them updates the row in place. Only ids made up on the client (e.g.
+    // "room1-desk2-2026-03-02") are hashed, with the organizationId included
+    // to avoid cross-org ID collisions.
     const hashInput = this.organizationId
       ? `${this.organizationId}:${booking.id}`
       : booking.id;
-    const numericId = this.stringToNumericId(hashInput);
+    return /^\d+$/.test(booking.id) ? Number(booking.id) : this.stringToNumericId(hashInput);
+  }
 
+  private mapToDatabase(booking: DeskBooking): any {
     const record: any = {
-      id: numericId,
+      id: this.bookingRowId(booking),
       desk_id: booking.deskId,
       date: booking.date,
       start_date: booking.startDate,
@@ -701,8 +1114,23 @@ export class SupabaseDataStore implements IDataStore {
       is_ongoing: booking.isOngoing || false,
       paused_at: booking.pausedAt ?? null,
       plan_type: booking.planType ?? null,
+      series_id: booking.seriesId ? parseInt(booking.seriesId, 10) || null : null,
+      booking_group_id: booking.bookingGroupId ? parseInt(booking.bookingGroupId, 10) || null : null,
+      day_part: booking.dayPart ?? 'full',
+      no_show: booking.noShow || false,
+      checked_in_at: booking.checkedInAt ?? null,
+      // Paid bookings are never held
+      held_until: booking.status === 'booked' ? booking.heldUntil ?? null : null,
     };
 
+    // Public bookings keep their visitor details when moved to another desk.
+    // Only sent when known, so staff edits don't blank them.
+    if (booking.visitorName) {
+      record.visitor_name = booking.visitorName;
+      record.visitor_phone = booking.visitorPhone ?? null;
+      record.visitor_notes = booking.visitorNotes ?? null;
+    }
+
     if (this.organizationId) {
       record.organization_id = this.organizationId;
     }
@@ -723,6 +1151,9 @@ export class SupabaseDataStore implements IDataStore {
       price: row.price,
       currency: row.currency || 'EUR', // Use database currency or default to EUR
       shareToken: row.share_token || undefined,
+      visitorName: row.visitor_name || undefined,
+      visitorPhone: row.visitor_phone || undefined,
+      visitorNotes: row.visitor_notes || undefined,
       clientId: row.client_id ? String(row.client_id) : undefined,
       isFlex: row.is_flex || false,
       isFrozen: row.is_frozen || false,
@@ -732,6 +1163,12 @@ export class SupabaseDataStore implements IDataStore {
       paymentStatus: row.payment_status ?? null,
       stripeCheckoutSessionId: row.stripe_checkout_session_id ?? null,
       stripePaymentIntentId: row.stripe_payment_intent_id ?? null,
+      seriesId: row.series_id ? String(row.series_id) : null,
+      bookingGroupId: row.booking_group_id ? String(row.booking_group_id) : null,
+      dayPart: row.day_part === 'am' || row.day_part === 'pm' ? row.day_part : undefined,
+      noShow: row.no_show || undefined,
+      checkedInAt: row.checked_in_at ?? null,
+      heldUntil: row.held_until ?? null,
       createdAt: row.created_at,
     };
   }
@@ -770,15 +1207,33 @@ export class SupabaseDataStore implements IDataStore {
     }
   }
 
-  async saveExpense(expense: Expense): Promise<void> {
-    try {
-      const dbData = this.mapExpenseToDatabase(expense);
+  private async upsertExpenseRow(expense: Expense): Promise<void> {
+    const dbData = this.mapExpenseToDatabase(expense);
 
-      const { error } = await this.client
-        .from('expenses')
-        .upsert(dbData, { onConflict: 'id' });
+    const { error } = await this.client
+      .from('expenses')
+      .upsert(dbData, { onConflict: 'id' });
 
-      if (error) throw error;
+    if (error) throw error;
+  }
+
+  private async deleteExpenseRow(id: string): Promise<void> {
+    // ID from database is numeric, stored as string - parse it back
+    const numericId = parseInt(id, 10);
+
+    const { error } = await this.client
+      .from('expenses')
+      .delete()
+      .eq('id', numericId);
+
+    if (error) throw error;
+  }
+
+  async saveExpense(expense: Expense): Promise<void> {
+    try {
+      await this.writeOrQueue({ kind: 'saveExpense', expense }, () =>
+        this.upsertExpenseRow(expense),
+      );
     } catch (error) {
       console.error('Error saving expense:', error);
       throw new Error('Failed to save expense');
@@ -787,15 +1242,7 @@ export class SupabaseDataStore implements IDataStore {
 
   async deleteExpense(id: string): Promise<void> {
     try {
-      // ID from database is numeric, stored as string - parse it back
-      const numericId = parseInt(id, 10);
-
-      const { error } = await this.client
-        .from('expenses')
-        .delete()
-        .eq('id', numericId);
-
-      if (error) throw error;
+      await this.writeOrQueue({ kind: 'deleteExpense', id }, () => this.deleteExpenseRow(id));
     } catch (error) {
       console.error('Error deleting expense:', error);
       throw new Error('Failed to delete expense');
@@ -1044,7 +1491,7 @@ export class SupabaseDataStore implements IDataStore {
             )
           : null;
       return {
-        ...this.mapClientFromDatabase(row),
+        ...this.rememberClient(this.mapClientFromDatabase(row)),
         lastBookingDate,
       };
     });
@@ -1073,6 +1520,22 @@ export class SupabaseDataStore implements IDataStore {
   }
 
   async saveClient(client: Client): Promise<Client> {
+    const isNew = !client.id || client.id.startsWith('new-');
+    let saved: Client = client;
+    await this.writeOrQueue(
+      {
+        kind: 'saveClient',
+        client,
+        baselineUpdatedAt: isNew ? null : this.knownClientUpdatedAt.get(client.id) ?? null,
+      },
+      async () => {
+        saved = await this.persistClient(client);
+      },
+    );
+    return saved;
+  }
+
+  private async persistClient(client: Client): Promise<Client> {
     const isNew = !client.id || client.id.startsWith('new-');
     const now = new Date().toISOString();
 
@@ -1104,7 +1567,7 @@ export class SupabaseDataStore implements IDataStore {
         .single();
 
       if (error) throw error;
-      return this.mapClientFromDatabase(data);
+      return this.rememberClient(this.mapClientFromDatabase(data));
     } else {
       const numericId = parseInt(client.id, 10);
       const { data, error } = await this.client
@@ -1137,11 +1600,16 @@ export class SupabaseDataStore implements IDataStore {
         .update({ person_name: client.name })
         .eq('client_id', numericId);
 
-      return this.mapClientFromDatabase(data);
+      return this.rememberClient(this.mapClientFromDatabase(data));
     }
   }
 
-  async deleteClient(id: string): Promise<void> {
+  private rememberClient(client: Client): Client {
+    this.knownClientUpdatedAt.set(client.id, client.updatedAt);
+    return client;
+  }
+
+  private async deleteClientRow(id: string): Promise<void> {
     const { error } = await this.client
       .from('clients')
       .delete()
@@ -1150,6 +1618,10 @@ export class SupabaseDataStore implements IDataStore {
     if (error) throw error;
   }
 
+  async deleteClient(id: string): Promise<void> {
+    await this.writeOrQueue({ kind: 'deleteClient', id }, () => this.deleteClientRow(id));
+  }
+
   async bulkCreateClients(
     clients: Array<
       Pick<
@@ -1164,12 +1636,12 @@ export class SupabaseDataStore implements IDataStore {
         | 'representativeName'
       >
     >,
-  ): Promise<{ created: number; failed: number; firstError: string | null }> {
+  ): Promise<{ created: number; failed: number; firstError: string | null; ids: string[] }> {
     if (!this.organizationId) {
       throw new Error('Organization context required for bulk client import');
     }
     if (clients.length === 0) {
-      return { created: 0, failed: 0, firstError: null };
+      return { created: 0, failed: 0, firstError: null, ids: [] };
     }
 
     const now = new Date().toISOString();
@@ -1195,6 +1667,7 @@ export class SupabaseDataStore implements IDataStore {
     let created = 0;
     let failed = 0;
     let firstError: string | null = null;
+    const ids: string[] = [];
 
     for (let i = 0; i < records.length; i += CHUNK_SIZE) {
       const chunk = records.slice(i, i + CHUNK_SIZE);
@@ -1205,9 +1678,10 @@ export class SupabaseDataStore implements IDataStore {
         continue;
       }
       created += data?.length ?? chunk.length;
+      ids.push(...(data ?? []).map((row: { id: number }) => String(row.id)));
     }
 
-    return { created, failed, firstError };
+    return { created, failed, firstError, ids };
   }
 
   async getClientById(id: string): Promise<Client | null> {
@@ -1218,7 +1692,7 @@ export class SupabaseDataStore implements IDataStore {
       .single();
 
     if (error || !data) return null;
-    return this.mapClientFromDatabase(data);
+    return this.rememberClient(this.mapClientFromDatabase(data));
   }
 
   async deductFlexDay(clientId: string): Promise<Client> {
@@ -1551,6 +2025,487 @@ export class SupabaseDataStore implements IDataStore {
     };
   }
 
+  // Recurring booking series operations
+  async getBookingSeries(id: string): Promise<BookingSeries | null> {
+    try {
+      const { data, error } = await this.scopeQuery(
+        this.client.from('booking_series').select('*').eq('id', parseInt(id, 10)),
+      ).maybeSingle();
+      if (error) throw error;
+      return data ? this.mapSeriesFromDatabase(data) : null;
+    } catch (error) {
+      console.error('Error fetching booking series:', error);
+      throw new Error('Failed to fetch booking series');
+    }
+  }
+
+  async saveBookingSeries(series: BookingSeries): Promise<BookingSeries> {
+    try {
+      const isNew = !series.id || series.id.startsWith('new-');
+      const record: any = {
+        id: isNew ? this.stringToNumericId(`${this.organizationId}:${series.id}`) : parseInt(series.id, 10),
+        desk_id: series.deskId,
+        weekdays: series.rule.weekdays,
+        interval_weeks: series.rule.intervalWeeks,
+        start_date: series.rule.startDate,
+        until_date: series.rule.untilDate ?? null,
+        occurrence_count: series.rule.occurrenceCount ?? null,
+        status: series.status,
+        person_name: series.personName,
+        title: series.title ?? null,
+        price: series.price ?? null,
+        currency: series.currency ?? null,
+        client_id: series.clientId ? parseInt(series.clientId, 10) || null : null,
+        created_at: series.createdAt,
+      };
+      if (this.organizationId) record.organization_id = this.organizationId;
+
+      const { data, error } = await this.client
+        .from('booking_series')
+        .upsert(record, { onConflict: 'id' })
+        .select()
+        .single();
+      if (error) throw error;
+      return this.mapSeriesFromDatabase(data);
+    } catch (error) {
+      console.error('Error saving booking series:', error);
+      throw new Error('Failed to save booking series');
+    }
+  }
+
+  async deleteBookingSeries(id: string): Promise<void> {
+    try {
+      const { error } = await this.scopeQuery(
+        this.client.from('booking_series').delete().eq('id', parseInt(id, 10)),
+      );
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error deleting booking series:', error);
+      throw new Error('Failed to delete booking series');
+    }
+  }
+
+  async getSeriesBookings(seriesId: string): Promise<DeskBooking[]> {
+    try {
+      const { data, error } = await this.scopeBookingsQuery(
+        this.client
+          .from('desk_bookings')
+          .select('*')
+          .eq('series_id', parseInt(seriesId, 10)),
+      ).order('date', { ascending: true });
+      if (error) throw error;
+      return (data || []).map((row: any) => this.mapFromDatabase(row));
+    } catch (error) {
+      console.error('Error fetching series bookings:', error);
+      throw new Error('Failed to fetch series bookings');
+    }
+  }
+
+  private mapSeriesFromDatabase(row: any): BookingSeries {
+    return {
+      id: String(row.id),
+      organizationId: row.organization_id ?? undefined,
+      deskId: row.desk_id,
+      rule: {
+        weekdays: row.weekdays || [],
+        intervalWeeks: row.interval_weeks || 1,
+        startDate: row.start_date,
+        untilDate: row.until_date ?? null,
+        occurrenceCount: row.occurrence_count ?? null,
+      },
+      status: row.status,
+      personName: row.person_name,
+      title: row.title ?? undefined,
+      price: row.price ?? undefined,
+      currency: row.currency ?? undefined,
+      clientId: row.client_id ? String(row.client_id) : undefined,
+      createdAt: row.created_at,
+    };
+  }
+
+  // Group bookings
+  async getBookingGroup(id: string): Promise<BookingGroup | null> {
+    try {
+      const { data, error } = await this.scopeQuery(
+        this.client.from('booking_groups').select('*').eq('id', parseInt(id, 10)),
+      ).maybeSingle();
+      if (error) throw error;
+      return data ? this.mapGroupFromDatabase(data) : null;
+    } catch (error) {
+      console.error('Error fetching booking group:', error);
+      throw new Error('Failed to fetch booking group');
+    }
+  }
+
+  async saveBookingGroup(group: BookingGroup): Promise<BookingGroup> {
+    try {
+      const isNew = !group.id || group.id.startsWith('new-');
+      const record: any = {
+        id: isNew ? this.stringToNumericId(`${this.organizationId}:${group.id}`) : parseInt(group.id, 10),
+        name: group.name,
+        person_name: group.personName,
+        client_id: group.clientId ? parseInt(group.clientId, 10) || null : null,
+        pricing: group.pricing,
+        price: group.price ?? null,
+        currency: group.currency ?? null,
+        created_at: group.createdAt,
+      };
+      if (this.organizationId) record.organization_id = this.organizationId;
+
+      const { data, error } = await this.client
+        .from('booking_groups')
+        .upsert(record, { onConflict: 'id' })
+        .select()
+        .single();
+      if (error) throw error;
+      return this.mapGroupFromDatabase(data);
+    } catch (error) {
+      console.error('Error saving booking group:', error);
+      throw new Error('Failed to save booking group');
+    }
+  }
+
+  async deleteBookingGroup(id: string): Promise<void> {
+    try {
+      const { error } = await this.scopeQuery(
+        this.client.from('booking_groups').delete().eq('id', parseInt(id, 10)),
+      );
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error deleting booking group:', error);
+      throw new Error('Failed to delete booking group');
+    }
+  }
+
+  async getGroupBookings(groupId: string): Promise<DeskBooking[]> {
+    try {
+      const { data, error } = await this.scopeBookingsQuery(
+        this.client
+          .from('desk_bookings')
+          .select('*')
+          .eq('booking_group_id', parseInt(groupId, 10)),
+      ).order('date', { ascending: true });
+      if (error) throw error;
+      return (data || []).map((row: any) => this.mapFromDatabase(row));
+    } catch (error) {
+      console.error('Error fetching group bookings:', error);
+      throw new Error('Failed to fetch group bookings');
+    }
+  }
+
+  private mapGroupFromDatabase(row: any): BookingGroup {
+    return {
+      id: String(row.id),
+      organizationId: row.organization_id ?? undefined,
+      name: row.name,
+      personName: row.person_name,
+      clientId: row.client_id ? String(row.client_id) : undefined,
+      pricing: row.pricing === 'per_seat' ? 'per_seat' : 'total',
+      price: row.price ?? undefined,
+      currency: row.currency ?? undefined,
+      createdAt: row.created_at,
+    };
+  }
+
+  // Late cancellation and no-show fees
+  async getBookingFees(startDate: string, endDate: string): Promise<BookingFee[]> {
+    try {
+      const { data, error } = await (this.scopeQuery(this.client.from('booking_fees').select('*')) as any)
+        .gte('date', startDate)
+        .lte('date', endDate)
+        .order('date', { ascending: true });
+      if (error) throw error;
+      return (data || []).map((row: any) => this.mapBookingFeeFromDatabase(row));
+    } catch (error) {
+      console.error('Error fetching booking fees:', error);
+      throw new Error('Failed to fetch booking fees');
+    }
+  }
+
+  async getUninvoicedFees(clientId: string): Promise<BookingFee[]> {
+    try {
+      const { data, error } = await (this.scopeQuery(this.client.from('booking_fees').select('*')) as any)
+        .eq('client_id', parseInt(clientId, 10))
+        .is('invoice_id', null)
+        .order('date', { ascending: true });
+      if (error) throw error;
+      return (data || []).map((row: any) => this.mapBookingFeeFromDatabase(row));
+    } catch (error) {
+      console.error('Error fetching uninvoiced fees:', error);
+      throw new Error('Failed to fetch uninvoiced fees');
+    }
+  }
+
+  async saveBookingFee(fee: BookingFee): Promise<BookingFee> {
+    try {
+      const isNew = !fee.id || fee.id.startsWith('new-');
+      const record: any = {
+        id: isNew ? this.stringToNumericId(`${this.organizationId}:${fee.deskId}:${fee.id}`) : parseInt(fee.id, 10),
+        kind: fee.kind,
+        desk_id: fee.deskId,
+        date: fee.date,
+        person_name: fee.personName ?? null,
+        client_id: fee.clientId ? parseInt(fee.clientId, 10) || null : null,
+        amount: fee.amount,
+        currency: fee.currency ?? null,
+        invoice_id: fee.invoiceId ?? null,
+        created_at: fee.createdAt,
+      };
+      if (this.organizationId) record.organization_id = this.organizationId;
+
+      const { data, error } = await this.client
+        .from('booking_fees')
+        .upsert(record, { onConflict: 'id' })
+        .select()
+        .single();
+      if (error) throw error;
+      return this.mapBookingFeeFromDatabase(data);
+    } catch (error) {
+      console.error('Error saving booking fee:', error);
+      throw new Error('Failed to save booking fee');
+    }
+  }
+
+  async deleteBookingFee(id: string): Promise<void> {
+    try {
+      const { error } = await this.scopeQuery(
+        this.client.from('booking_fees').delete().eq('id', parseInt(id, 10)),
+      );
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error deleting booking fee:', error);
+      throw new Error('Failed to delete booking fee');
+    }
+  }
+
+  async markFeesInvoiced(ids: string[], invoiceId: string): Promise<void> {
+    if (ids.length === 0) return;
+    try {
+      const { error } = await this.scopeQuery(
+        this.client
+          .from('booking_fees')
+          .update({ invoice_id: invoiceId })
+          .in('id', ids.map((id) => parseInt(id, 10))),
+      );
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error marking fees invoiced:', error);
+      throw new Error('Failed to mark fees invoiced');
+    }
+  }
+
+  private mapBookingFeeFromDatabase(row: any): BookingFee {
+    return {
+      id: String(row.id),
+      organizationId: row.organization_id ?? undefined,
+      kind: row.kind,
+      deskId: row.desk_id,
+      date: row.date,
+      personName: row.person_name ?? undefined,
+      clientId: row.client_id ? String(row.client_id) : undefined,
+      amount: Number(row.amount),
+      currency: row.currency ?? undefined,
+      invoiceId: row.invoice_id != null ? String(row.invoice_id) : null,
+      createdAt: row.created_at,
+    };
+  }
+
+  // Out-of-service desk blocks
+  async getDeskBlocks(startDate?: string, endDate?: string): Promise<DeskBlock[]> {
+    try {
+      let query = this.scopeQuery(this.client.from('desk_blocks').select('*')) as any;
+      if (startDate) query = query.gte('end_date', startDate);
+      if (endDate) query = query.lte('start_date', endDate);
+      const { data, error } = await query.order('start_date', { ascending: true });
+      if (error) throw error;
+      return (data || []).map((row: any) => this.mapDeskBlockFromDatabase(row));
+    } catch (error) {
+      console.error('Error fetching desk blocks:', error);
+      throw new Error('Failed to fetch desk blocks');
+    }
+  }
+
+  async saveDeskBlock(block: DeskBlock): Promise<DeskBlock> {
+    try {
+      const isNew = !block.id || block.id.startsWith('new-');
+      const record: any = {
+        id: isNew ? this.stringToNumericId(`${this.organizationId}:${block.deskId}:${block.id}`) : parseInt(block.id, 10),
+        desk_id: block.deskId,
+        start_date: block.startDate,
+        end_date: block.endDate,
+        reason: block.reason,
+        note: block.note ?? null,
+        created_at: block.createdAt,
+      };
+      if (this.organizationId) record.organization_id = this.organizationId;
+
+      const { data, error } = await this.client
+        .from('desk_blocks')
+        .upsert(record, { onConflict: 'id' })
+        .select()
+        .single();
+      if (error) throw error;
+      return this.mapDeskBlockFromDatabase(data);
+    } catch (error) {
+      console.error('Error saving desk block:', error);
+      throw new Error('Failed to save desk block');
+    }
+  }
+
+  async deleteDeskBlock(id: string): Promise<void> {
+    try {
+      const { error } = await this.scopeQuery(
+        this.client.from('desk_blocks').delete().eq('id', parseInt(id, 10)),
+      );
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error deleting desk block:', error);
+      throw new Error('Failed to delete desk block');
+    }
+  }
+
+  private mapDeskBlockFromDatabase(row: any): DeskBlock {
+    return {
+      id: String(row.id),
+      organizationId: row.organization_id ?? undefined,
+      deskId: row.desk_id,
+      startDate: row.start_date,
+      endDate: row.end_date,
+      reason: row.reason,
+      note: row.note ?? undefined,
+      createdAt: row.created_at,
+    };
+  }
+
+  // Migration import batches
+  async getImportBatches(): Promise<ImportBatch[]> {
+    try {
+      const { data, error } = await (this.scopeQuery(this.client.from('import_batches').select('*')) as any)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return (data || []).map((row: any) => this.mapImportBatchFromDatabase(row));
+    } catch (error) {
+      console.error('Error fetching import batches:', error);
+      throw new Error('Failed to fetch import batches');
+    }
+  }
+
+  async saveImportBatch(batch: ImportBatch): Promise<ImportBatch> {
+    try {
+      const isNew = !batch.id || batch.id.startsWith('new-');
+      const record: any = {
+        id: isNew ? this.stringToNumericId(`${this.organizationId}:import:${batch.createdAt}`) : parseInt(batch.id, 10),
+        source: batch.source,
+        kind: batch.kind,
+        client_ids: batch.clientIds,
+        booking_rows: batch.bookingRows,
+        invoice_ids: batch.invoiceIds,
+        rolled_back_at: batch.rolledBackAt ?? null,
+        created_at: batch.createdAt,
+      };
+      if (this.organizationId) record.organization_id = this.organizationId;
+
+      const { data, error } = await this.client
+        .from('import_batches')
+        .upsert(record, { onConflict: 'id' })
+        .select()
+        .single();
+      if (error) throw error;
+      return this.mapImportBatchFromDatabase(data);
+    } catch (error) {
+      console.error('Error saving import batch:', error);
+      throw new Error('Failed to save import batch');
+    }
+  }
+
+  private mapImportBatchFromDatabase(row: any): ImportBatch {
+    return {
+      id: String(row.id),
+      organizationId: row.organization_id ?? undefined,
+      source: row.source,
+      kind: row.kind,
+      clientIds: row.client_ids ?? [],
+      bookingRows: row.booking_rows ?? [],
+      invoiceIds: row.invoice_ids ?? [],
+      rolledBackAt: row.rolled_back_at ?? null,
+      createdAt: row.created_at,
+    };
+  }
+
+  // Audit log operations
+  async recordAuditEntry(entry: NewAuditEntry): Promise<void> {
+    const {
+      data: { user },
+    } = await this.client.auth.getUser();
+
+    const { error } = await this.client.from('audit_log').insert({
+      organization_id: this.organizationId,
+      entity_type: entry.entityType,
+      entity_id: entry.entityId,
+      action: entry.action,
+      actor_id: user?.id ?? null,
+      actor_name: user?.email ?? null,
+      summary: entry.summary,
+      changes: entry.changes,
+      client_id: entry.clientId ?? null,
+      desk_id: entry.deskId ?? null,
+      start_date: entry.startDate ?? null,
+      end_date: entry.endDate ?? null,
+    });
+    if (error) {
+      console.error('Error recording audit entry:', error);
+      throw new Error('Failed to record audit entry');
+    }
+  }
+
+  async getAuditLog(filter: AuditLogFilter = {}): Promise<AuditEntry[]> {
+    try {
+      let query = this.scopeQuery(
+        this.client.from('audit_log').select('*'),
+      )
+        .order('created_at', { ascending: false })
+        .limit(filter.limit ?? DEFAULT_AUDIT_LIMIT);
+
+      if (filter.entityType) query = query.eq('entity_type', filter.entityType);
+      if (filter.entityId) query = query.eq('entity_id', filter.entityId);
+      if (filter.action) query = query.eq('action', filter.action);
+      if (filter.clientId) query = query.eq('client_id', filter.clientId);
+      if (filter.deskId) query = query.eq('desk_id', filter.deskId);
+      // Overlap with the requested booking range
+      if (filter.startDate) query = query.gte('end_date', filter.startDate);
+      if (filter.endDate) query = query.lte('start_date', filter.endDate);
+      if (filter.from) query = query.gte('created_at', `${filter.from}T00:00:00`);
+      if (filter.to) query = query.lte('created_at', `${filter.to}T23:59:59.999`);
+      if (filter.actor) query = query.ilike('actor_name', `%${filter.actor}%`);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return (data || []).map((row: any) => this.mapAuditEntryFromDatabase(row));
+    } catch (error) {
+      console.error('Error fetching audit log:', error);
+      throw new Error('Failed to fetch audit log');
+    }
+  }
+
+  private mapAuditEntryFromDatabase(row: any): AuditEntry {
+    return {
+      id: String(row.id),
+      organizationId: row.organization_id ?? undefined,
+      entityType: row.entity_type,
+      entityId: row.entity_id,
+      action: row.action,
+      actorId: row.actor_id ?? null,
+      actorName: row.actor_name ?? null,
+      summary: row.summary,
+      changes: row.changes || {},
+      clientId: row.client_id ?? null,
+      deskId: row.desk_id ?? null,
+      startDate: row.start_date ?? null,
+      endDate: row.end_date ?? null,
+      createdAt: row.created_at,
+    };
+  }
+
   // Share token operations
   async getOrCreateShareToken(
     bookingId: string,
@@ -1605,6 +2560,83 @@ export class SupabaseDataStore implements IDataStore {
     return data as SharedBooking;
   }
 
+  /**
+   * Cancels a booking from its share link. The RPC checks the space's cutoff
+   * and frees the desk, and queues the manager's notification, with a refund
+   * flag when the visitor had paid online.
+   */
+  static async cancelSharedBooking(token: string): Promise<SharedBookingChange> {
+    const { data, error } = await supabaseClient.rpc('cancel_shared_booking', {
+      p_token: token,
+    });
+    if (error || !data) {
+      console.error('Error cancelling shared booking:', error);
+      throw new Error(error?.message || 'Failed to cancel booking');
+    }
+    return data as SharedBookingChange;
+  }
+
+  /**
+   * Moves a one-day booking from its share link to `date`. The RPC checks the
+   * cutoff and the reschedule limit, and keeps the desk when it is free on
+   * the new day or picks another free one. The manager is notified from the
+   * server, like a cancellation.
+   */
+  static async rescheduleSharedBooking(token: string, date: string): Promise<SharedBookingChange> {
+    const { data, error } = await supabaseClient.rpc('reschedule_shared_booking', {
+      p_token: token,
+      p_date: date,
+    });
+    if (error || !data) {
+      console.error('Error rescheduling shared booking:', error);
+      throw toBookingConflictError(error) ?? new Error(error?.message || 'Failed to move booking');
+    }
+    return data as SharedBookingChange;
+  }
+
+  /** Checks in today's booking behind a share link. */
+  static async checkInSharedBooking(token: string): Promise<CheckInResult> {
+    const { data, error } = await supabaseClient.rpc('check_in_shared_booking', {
+      p_token: token,
+    });
+    if (error || !data) {
+      console.error('Error checking in shared booking:', error);
+      throw new Error(error?.message || 'Failed to check in');
+    }
+    return data as CheckInResult;
+  }
+
+  /**
+   * Checks in today's booking on a desk from its QR code. The visitor is
+   * recognised by a share link opened on the same device; null when none of
+   * `tokens` is for a booking on that desk today.
+   */
+  static async checkInAtDesk(orgSlug: string, deskId: string, tokens: string[]): Promise<CheckInResult | null> {
+    const { data, error } = await supabaseClient.rpc('check_in_at_desk', {
+      p_org_slug: orgSlug,
+      p_desk_id: deskId,
+      p_tokens: tokens,
+    });
+    if (error) {
+      console.error('Error checking in at desk:', error);
+      throw new Error(error.message || 'Failed to check in');
+    }
+    return (data as CheckInResult | null) ?? null;
+  }
+
+  /** Checks in a member's booking for today from their booking page. */
+  static async checkInMemberBooking(memberId: string, orgSlug: string): Promise<CheckInResult> {
+    const { data, error } = await supabaseClient.rpc('check_in_member_booking', {
+      p_client_id: parseInt(memberId, 10),
+      p_org_slug: orgSlug,
+    });
+    if (error || !data) {
+      console.error('Error checking in member booking:', error);
+      throw new Error(error?.message || 'Failed to check in');
+    }
+    return data as CheckInResult;
+  }
+
   static async getPublicAvailability(
     orgSlug: string,
   ): Promise<PublicAvailability | null> {
@@ -1616,67 +2648,144 @@ export class SupabaseDataStore implements IDataStore {
     return data as PublicAvailability;
   }
 
+  /**
+   * Books the desk picked for each day for a visitor of the public page. The
+   * RPC checks the days and desks, prices the stay with the space's rules
+   * and holds it when the space set hold hours. The manager gets one email
+   * listing the days.
+   */
   static async submitPublicBooking(params: {
     organizationId: string;
-    deskId: string;
-    date: string;
+    orgSlug: string;
+    dayPart: DayPart;
+    assignments: { date: string; deskId: string; deskLabel: string }[];
     visitorName: string;
-    visitorEmail: string;
     visitorPhone?: string;
     visitorNotes?: string;
-  }): Promise<void> {
-    // Build a title with contact info for calendar visibility
-    const titleParts: string[] = [];
-    if (params.visitorPhone) titleParts.push(params.visitorPhone);
-    if (params.visitorNotes) titleParts.push(params.visitorNotes);
-    const title = titleParts.length > 0 ? titleParts.join(' | ') : null;
-
-    const { error } = await supabaseClient.from('desk_bookings').insert({
-      desk_id: params.deskId,
-      date: params.date,
-      start_date: params.date,
-      end_date: params.date,
-      status: 'booked',
-      organization_id: params.organizationId,
-      visitor_name: params.visitorName,
-      visitor_email: params.visitorEmail,
-      visitor_phone: params.visitorPhone || null,
-      visitor_notes: params.visitorNotes || null,
-      person_name: params.visitorName,
-      title,
-      created_at: new Date().toISOString(),
+  }): Promise<PublicBookingResult> {
+    const { data, error } = await supabaseClient.rpc('submit_public_booking', {
+      p_org_slug: params.orgSlug,
+      p_assignments: params.assignments.map(({ date, deskId }) => ({ date, deskId })),
+      p_day_part: params.dayPart,
+      p_visitor_name: params.visitorName,
+      p_visitor_phone: params.visitorPhone || null,
+      p_visitor_notes: params.visitorNotes || null,
     });
-
-    if (error) throw error;
-
-    // Fire-and-forget Telegram notification
-    try {
-      await supabaseClient.functions.invoke('notify-public-booking', {
-        body: {
-          organization_id: params.organizationId,
-          visitor_name: params.visitorName,
-          visitor_phone: params.visitorPhone || null,
-          desk_id: params.deskId,
-          date: params.date,
-          notes: params.visitorNotes || null,
-        },
-      });
-    } catch {
-      // Non-critical — don't block the booking
+    if (error || !data) {
+      console.error('Error submitting public booking:', error);
+      throw toBookingConflictError(error, params.assignments) ?? new Error(error?.message || 'Failed to submit booking');
     }
 
-    // Fire-and-forget email notification to owner
     supabaseClient.functions
       .invoke('notify-public-booking-email', {
         body: {
           organizationId: params.organizationId,
           visitorName: params.visitorName,
           visitorPhone: params.visitorPhone || null,
-          deskId: params.deskId,
-          date: params.date,
+          dates: params.assignments.map(a => ({ date: a.date, deskLabel: a.deskLabel })),
           notes: params.visitorNotes || null,
         },
       })
       .catch(() => {});
+
+    // Telegram notification for the first date
+    const [first] = params.assignments;
+    supabaseClient.functions
+      .invoke('notify-public-booking', {
+        body: {
+          organization_id: params.organizationId,
+          visitor_name: params.visitorName,
+          visitor_phone: params.visitorPhone || null,
+          desk_id: first.deskId,
+          date: first.date,
+          notes: params.assignments.length > 1 ? `${params.assignments.length} days booked` : (params.visitorNotes || null),
+        },
+      })
+      .catch(() => {});
+
+    return data as PublicBookingResult;
+  }
+
+  /**
+   * Books a flex member's visits from their booking link. The server checks
+   * the days and desks and prices each visit from the flex plan and the
+   * space's pricing rules.
+   */
+  static async submitMemberBooking(params: {
+    orgSlug: string;
+    clientId: number;
+    dayPart: DayPart;
+    assignments: { date: string; deskId: string }[];
+  }): Promise<MemberBookingResult> {
+    const { data, error } = await supabaseClient.rpc('submit_member_booking', {
+      p_org_slug: params.orgSlug,
+      p_client_id: params.clientId,
+      p_assignments: params.assignments.map(({ date, deskId }) => ({ date, deskId })),
+      p_day_part: params.dayPart,
+    });
+    if (error || !data) {
+      console.error('Error submitting member booking:', error);
+      throw toBookingConflictError(error, params.assignments) ?? new Error(error?.message || 'Failed to submit booking');
+    }
+    return data as MemberBookingResult;
+  }
+
+  /**
+   * Puts a visitor of the public booking page on the space's waiting list for
+   * days that are sold out. The RPC tells the manager; offers follow by email
+   * from the server once a desk frees up.
+   */
+  static async joinPublicWaitingList(params: {
+    organizationId: string;
+    name: string;
+    email: string;
+    phone?: string;
+    startDate: string;
+    endDate: string;
+    deskAttributes: string[];
+    notes?: string;
+  }): Promise<void> {
+    const { error } = await supabaseClient.rpc('join_public_waiting_list', {
+      p_organization_id: params.organizationId,
+      p_name: params.name,
+      p_email: params.email,
+      p_phone: params.phone ?? null,
+      p_start_date: params.startDate,
+      p_end_date: params.endDate,
+      p_desk_attributes: params.deskAttributes,
+      p_notes: params.notes ?? null,
+    });
+    if (error) {
+      console.error('Error joining waiting list:', error);
+      throw new Error('Failed to join the waiting list');
+    }
+  }
+
+  static async getWaitlistClaim(token: string): Promise<WaitlistClaim | null> {
+    const { data, error } = await supabaseClient.rpc('get_waitlist_claim', {
+      p_token: token,
+    });
+    if (error) {
+      console.error('Error fetching waitlist claim:', error);
+      return null;
+    }
+    return (data as WaitlistClaim | null) ?? null;
+  }
+
+  /**
+   * Books the offered days for the visitor and takes them off the waiting
+   * list. The RPC keeps the offered desk when it is still free or picks
+   * another free one, refuses expired or claimed offers, and tells the
+   * manager.
+   */
+  static async claimWaitlistOffer(token: string): Promise<WaitlistClaimResult> {
+    const { data, error } = await supabaseClient.rpc('claim_waitlist_offer', {
+      p_token: token,
+    });
+    if (error || !data) {
+      console.error('Error claiming waitlist offer:', error);
+      throw toBookingConflictError(error) ?? new Error(error?.message || 'Failed to claim the desk');
+    }
+    return data as WaitlistClaimResult;
   }
 }
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import type { Desk, DeskBooking } from '@shared/schema';
+import { freeDesks, pausedPlans, plansEndingOn, unpaidOn } from './todayDashboard';
+
+const desks: Desk[] = [1, 2, 3, 4].map(n => ({ id: `room1-desk${n}`, room: 1, number: n, label: `Desk ${n}` }));
+const today = '2026-03-10';
+
+function row(overrides: Partial<DeskBooking>): DeskBooking {
+  return {
+    id: 'x',
+    deskId: 'room1-desk1',
+    date: today,
+    startDate: today,
+    endDate: today,
+    status: 'assigned',
+    personName: 'Alice',
+    createdAt: '2026-03-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('freeDesks', () => {
+  it('lists whole free desks and the open half of half-booked ones', () => {
+    const bookings: Record<string, DeskBooking> = {
+      [`room1-desk1-${today}`]: row({}),
+      [`room1-desk2-${today}-am`]: row({ deskId: 'room1-desk2', dayPart: 'am' }),
+    };
+    const blocks = [{ id: 'b1', deskId: 'room1-desk4', startDate: today, endDate: today, reason: 'maintenance' as const, createdAt: '' }];
+    expect(freeDesks(desks, bookings, blocks, today).map(f => [f.desk.id, f.dayPart])).toEqual([
+      ['room1-desk2', 'pm'],
+      ['room1-desk3', 'full'],
+    ]);
+  });
+});
+
+describe('plansEndingOn and unpaidOn', () => {
+  it('picks plans ending today and booked rows', () => {
+    const monthly = row({ deskId: 'room1-desk2', startDate: '2026-02-11', endDate: today });
+    const dayPass = row({ deskId: 'room1-desk3', status: 'booked' });
+    expect(plansEndingOn([monthly, dayPass], today)).toEqual([monthly]);
+    expect(unpaidOn([monthly, dayPass], today)).toEqual([dayPass]);
+  });
+});
+
+describe('pausedPlans', () => {
+  it('groups banked days per member', () => {
+    const banked = [
+      row({ clientId: '7', personName: 'Bob', date: '2026-04-01', pausedAt: '2026-03-05' }),
+      row({ clientId: '7', personName: 'Bob', date: '2026-04-02', pausedAt: '2026-03-04' }),
+      row({ clientId: '8', personName: 'Ann', date: '2026-04-01' }),
+    ];
+    expect(pausedPlans(banked)).toEqual([
+      { clientId: '7', personName: 'Bob', deskId: 'room1-desk1', bankedDays: 2, pausedAt: '2026-03-04' },
+    ]);
+  });
+});
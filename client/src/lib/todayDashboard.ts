@@ -0,0 +1,79 @@
+import type { DayPart, Desk, DeskBlock, DeskBooking } from '@shared/schema';
+import { findDeskBlock } from './deskBlocks';
+import { daySlots } from './dayParts';
+import { occupiesDesk } from './holds';
+
+/**
+ * The front desk's view of one day: which desks are still free, whose plan
+ * ends, who is on a paused plan and what is still unpaid.
+ */
+
+export interface FreeDesk {
+  desk: Desk;
+  /** Part of the day still open: the whole day, or the half nobody booked. */
+  dayPart: DayPart;
+}
+
+/**
+ * Desks with any part of `date` left to sell, skipping out-of-service ones.
+ * A hold that ran out by `now` no longer takes its desk.
+ */
+export function freeDesks(
+  desks: readonly Desk[],
+  bookings: Record<string, DeskBooking>,
+  blocks: readonly DeskBlock[],
+  date: string,
+  now: Date = new Date(),
+): FreeDesk[] {
+  const free: FreeDesk[] = [];
+  for (const desk of desks) {
+    if (findDeskBlock(blocks, desk.id, date)) continue;
+    const slots = daySlots(bookings, desk.id, date);
+    const taken = (b: DeskBooking | null) => !!b && occupiesDesk(b, now);
+    if (taken(slots.full) || (taken(slots.am) && taken(slots.pm))) continue;
+    const dayPart: DayPart = taken(slots.am) ? 'pm' : taken(slots.pm) ? 'am' : 'full';
+    free.push({ desk, dayPart });
+  }
+  return free;
+}
+
+/** Plans of several days whose last day is `date`. */
+export function plansEndingOn(rows: readonly DeskBooking[], date: string): DeskBooking[] {
+  return rows.filter(b =>
+    b.date === date
+    && b.endDate === date
+    && b.startDate < b.endDate
+    && b.status !== 'available',
+  );
+}
+
+/** Booked but not yet paid on `date`; assigned rows are paid for. */
+export function unpaidOn(rows: readonly DeskBooking[], date: string): DeskBooking[] {
+  return rows.filter(b => b.date === date && b.status === 'booked');
+}
+
+export interface PausedPlan {
+  clientId?: string;
+  personName?: string;
+  deskId: string;
+  /** Days banked while paused, to be used when the plan resumes. */
+  bankedDays: number;
+  pausedAt: string;
+}
+
+/** Members on a paused plan, one entry each, with their banked days. */
+export function pausedPlans(planBookings: readonly DeskBooking[]): PausedPlan[] {
+  const byMember = new Map<string, PausedPlan>();
+  for (const b of planBookings) {
+    if (!b.pausedAt) continue;
+    const key = b.clientId ?? b.personName ?? b.deskId;
+    const entry = byMember.get(key);
+    if (entry) {
+      entry.bankedDays += 1;
+      if (b.pausedAt < entry.pausedAt) entry.pausedAt = b.pausedAt;
+    } else {
+      byMember.set(key, { clientId: b.clientId, personName: b.personName, deskId: b.deskId, bankedDays: 1, pausedAt: b.pausedAt });
+    }
+  }
+  return Array.from(byMember.values()).sort((a, b) => (a.personName ?? '').localeCompare(b.personName ?? ''));
+}
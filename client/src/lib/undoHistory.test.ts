@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { BrowserDataStore } from './browserDataStore';
+import { MemoryTableStorage } from './browserStorage';
+import { StaleChangeError, UndoHistory, bookingChangeAuditEntries, buildSlotChanges } from './undoHistory';
+import type { DeskBooking } from '@shared/schema';
+
+function makeBooking(deskId: string, date: string, overrides: Partial<DeskBooking> = {}): DeskBooking {
+  return {
+    id: `${deskId}-${date}`,
+    deskId,
+    date,
+    startDate: date,
+    endDate: date,
+    status: 'booked',
+    personName: 'Alice',
+    price: 10,
+    currency: 'EUR',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+async function stored(store: BrowserDataStore, deskId: string, date: string) {
+  return store.getBooking(deskId, date);
+}
+
+describe('UndoHistory', () => {
+  let store: BrowserDataStore;
+  let history: UndoHistory;
+
+  beforeEach(() => {
+    store = new BrowserDataStore('org-1', undefined, new MemoryTableStorage());
+    history = new UndoHistory();
+  });
+
+  it('undoes and redoes a new booking', async () => {
+    const created = makeBooking('d1', '2026-03-02');
+    await store.bulkUpdateBookings([created]);
+    history.push({ label: 'Booking for Alice', slots: buildSlotChanges([], [created]) });
+
+    await history.undo(store);
+    expect(await stored(store, 'd1', '2026-03-02')).toBeNull();
+    expect(history.canRedo).toBe(true);
+
+    await history.redo(store);
+    expect((await stored(store, 'd1', '2026-03-02'))?.personName).toBe('Alice');
+    expect(history.canUndo).toBe(true);
+  });
+
+  it('moves a booking back to its original desk', async () => {
+    const original = makeBooking('d1', '2026-03-02');
+    await store.bulkUpdateBookings([original]);
+    const moved = { ...original, id: 'd2-2026-03-02', deskId: 'd2' };
+    await store.deleteBooking('d1', '2026-03-02');
+    await store.bulkUpdateBookings([moved]);
+    history.push({ label: 'Move', slots: buildSlotChanges([original], [moved]) });
+
+    await history.undo(store);
+
+    expect(await stored(store, 'd2', '2026-03-02')).toBeNull();
+    expect((await stored(store, 'd1', '2026-03-02'))?.personName).toBe('Alice');
+  });
+
+  it('refuses to undo over a slot changed since and drops the change', async () => {
+    const created = makeBooking('d1', '2026-03-02');
+    await store.bulkUpdateBookings([created]);
+    history.push({ label: 'Booking for Alice', slots: buildSlotChanges([], [created]) });
+    await store.saveBooking({ ...created, personName: 'Bob' });
+
+    await expect(history.undo(store)).rejects.toBeInstanceOf(StaleChangeError);
+    expect((await stored(store, 'd1', '2026-03-02'))?.personName).toBe('Bob');
+    expect(history.canUndo).toBe(false);
+  });
+
+  it('clears the redo stack when a new change is recorded', async () => {
+    const created = makeBooking('d1', '2026-03-02');
+    await store.bulkUpdateBookings([created]);
+    history.push({ label: 'First', slots: buildSlotChanges([], [created]) });
+    await history.undo(store);
+
+    history.push({ label: 'Second', slots: buildSlotChanges([], [makeBooking('d2', '2026-03-02')]) });
+
+    expect(history.canRedo).toBe(false);
+    expect(history.peekUndo()?.label).toBe('Second');
+  });
+
+  it('keeps the rows and the change when the write fails', async () => {
+    const original = makeBooking('d1', '2026-03-02');
+    await store.bulkUpdateBookings([original]);
+    const moved = { ...original, deskId: 'd2' };
+    await store.replaceBookings([{ deskId: 'd1', date: '2026-03-02' }], [moved]);
+    history.push({ label: 'Move', slots: buildSlotChanges([original], [moved]) });
+    vi.spyOn(store, 'replaceBookings').mockRejectedValueOnce(new Error('Failed to save booking'));
+
+    await expect(history.undo(store)).rejects.toThrow('Failed to save booking');
+
+    expect((await stored(store, 'd2', '2026-03-02'))?.personName).toBe('Alice');
+    expect(history.canUndo).toBe(true);
+    await history.undo(store);
+    expect((await stored(store, 'd1', '2026-03-02'))?.personName).toBe('Alice');
+  });
+});
+
+describe('bookingChangeAuditEntries', () => {
+  it('reports an undone edit as an update back to the old values', () => {
+    const before = makeBooking('d1', '2026-03-02', { personName: 'Alice' });
+    const after = { ...before, personName: 'Alicia' };
+    const [entry] = bookingChangeAuditEntries(
+      { label: 'Edit', slots: buildSlotChanges([before], [after]) },
+      'undo',
+    );
+    expect(entry.action).toBe('update');
+    expect(entry.changes.personName).toEqual({ before: 'Alicia', after: 'Alice' });
+  });
+
+  it('reports an undone creation as a deletion', () => {
+    const created = makeBooking('d1', '2026-03-02');
+    const entries = bookingChangeAuditEntries({ label: 'New', slots: buildSlotChanges([], [created]) }, 'undo');
+    expect(entries.map((e) => e.action)).toEqual(['delete']);
+  });
+});
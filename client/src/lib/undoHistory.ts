@@ -0,0 +1,261 @@
+import type { BookingFee, DayPart, DeskBooking } from '@shared/schema';
+import type { IDataStore } from './dataStore';
+import { SlotBaseline, findChangedSlots, slotKey } from './offlineQueue';
+import { NewAuditEntry, bookingAuditEntry } from './auditLog';
+
+/**
+ * Session-level undo/redo for desk booking edits. Each change records the
+ * stored row of every slot it touched before and after the write; undo writes
+ * the "before" rows back (and deletes slots that were empty) through the data
+ * store, redo writes the "after" rows again. Nothing is persisted — history
+ * lives as long as the data store instance, so it resets on reload and when
+ * switching organization.
+ */
+
+export interface SlotChange {
+  deskId: string;
+  date: string;
+  dayPart?: DayPart;
+  before: DeskBooking | null;
+  after: DeskBooking | null;
+}
+
+export interface BookingChange {
+  /** Short description for toasts, e.g. "Booking for Alice". */
+  label: string;
+  slots: SlotChange[];
+  /** Flex days the edit deducted from a member (negative when it restored them). */
+  flexDays?: { clientId: string; days: number };
+  /** Cancellation or no-show fee the edit charged; undo takes it back. */
+  fee?: BookingFee;
+}
+
+export type UndoDataStore = Pick<
+  IDataStore,
+  | 'getBookingsForDateRange' | 'replaceBookings' | 'deductFlexDay' | 'restoreFlexDays'
+  | 'saveBookingFee' | 'deleteBookingFee'
+>;
+
+export const UNDO_LIMIT = 50;
+
+/** Thrown when a slot no longer holds what the change left there. */
+export class StaleChangeError extends Error {
+  readonly keys: string[];
+
+  constructor(keys: string[]) {
+    super('Bookings changed since this edit, so it can no longer be reverted');
+    this.name = 'StaleChangeError';
+    this.keys = keys;
+  }
+}
+
+export function isStaleChangeError(error: unknown): error is StaleChangeError {
+  return error instanceof StaleChangeError
+    || (error instanceof Error && error.name === 'StaleChangeError');
+}
+
+/**
+ * Pairs the rows a write replaced with the rows it wrote. Slots present in
+ * only one list are filled with null on the other side.
+ */
+export function buildSlotChanges(before: DeskBooking[], after: DeskBooking[]): SlotChange[] {
+  const slots = new Map<string, SlotChange>();
+  const slotFor = (row: DeskBooking) => {
+    const key = slotKey(row.deskId, row.date, row.dayPart);
+    let slot = slots.get(key);
+    if (!slot) {
+      slot = { deskId: row.deskId, date: row.date, dayPart: row.dayPart, before: null, after: null };
+      slots.set(key, slot);
+    }
+    return slot;
+  };
+  for (const row of before) slotFor(row).before = row;
+  for (const row of after) slotFor(row).after = row;
+  return Array.from(slots.values());
+}
+
+// Postgres and the browser serialise timestamps differently
+function sameCreatedAt(a: DeskBooking, b: DeskBooking): boolean {
+  return (Date.parse(a.createdAt) || a.createdAt) === (Date.parse(b.createdAt) || b.createdAt);
+}
+
+function snapshot(slots: SlotChange[], side: 'before' | 'after'): SlotBaseline {
+  return Object.fromEntries(slots.map((s) => [slotKey(s.deskId, s.date, s.dayPart), s[side]]));
+}
+
+async function readSlots(store: UndoDataStore, slots: SlotChange[]): Promise<Record<string, DeskBooking | null>> {
+  const dates = slots.map((s) => s.date).sort();
+  const wanted = new Set(slots.map((s) => slotKey(s.deskId, s.date, s.dayPart)));
+  const current: Record<string, DeskBooking | null> = {};
+  for (const row of await store.getBookingsForDateRange(dates[0], dates[dates.length - 1])) {
+    const key = slotKey(row.deskId, row.date, row.dayPart);
+    if (wanted.has(key)) current[key] = row;
+  }
+  return current;
+}
+
+async function adjustFlexDays(store: UndoDataStore, clientId: string, days: number) {
+  if (days > 0 && store.deductFlexDay) {
+    for (let i = 0; i < days; i++) await store.deductFlexDay(clientId);
+  } else if (days < 0 && store.restoreFlexDays) {
+    await store.restoreFlexDays(clientId, -days);
+  }
+}
+
+/**
+ * Moves every slot of `change` from one side to the other. Refuses when a
+ * slot no longer matches the side being replaced, so an undo never clobbers
+ * an edit made since (by this user or anyone else).
+ */
+export async function applyBookingChange(
+  store: UndoDataStore,
+  change: BookingChange,
+  direction: 'undo' | 'redo',
+): Promise<void> {
+  const from = direction === 'undo' ? 'after' : 'before';
+  const to = direction === 'undo' ? 'before' : 'after';
+  if (change.slots.length === 0) return;
+
+  const current = await readSlots(store, change.slots);
+  const stale = findChangedSlots(snapshot(change.slots, from), current);
+  if (stale.length > 0) throw new StaleChangeError(stale);
+
+  // Clear slots that end up empty, or that will hold a different booking —
+  // the conflict check would otherwise reject writing over them. Rows keep
+  // their ids, so a booking still stored is updated in place, and the clear
+  // and the write happen together: a failed write leaves everything as is.
+  const deletions = change.slots
+    .filter((s) => {
+      const existing = current[slotKey(s.deskId, s.date, s.dayPart)];
+      if (!existing) return false;
+      const target = s[to];
+      return !target || !sameCreatedAt(target, existing);
+    })
+    .map(({ deskId, date, dayPart }) => ({ deskId, date, dayPart }));
+  const rows = change.slots.map((s) => s[to]).filter((b): b is DeskBooking => !!b);
+  await store.replaceBookings(deletions, rows);
+
+  if (change.flexDays) {
+    const { clientId, days } = change.flexDays;
+    await adjustFlexDays(store, clientId, direction === 'undo' ? -days : days);
+  }
+
+  if (change.fee) {
+    if (direction === 'undo') await store.deleteBookingFee?.(change.fee.id);
+    else await store.saveBookingFee?.(change.fee);
+  }
+}
+
+// One representative row per booking run, keyed by desk, start and createdAt.
+function runsOf(rows: (DeskBooking | null)[]): Map<string, DeskBooking> {
+  const runs = new Map<string, DeskBooking>();
+  for (const row of rows) {
+    if (!row || row.status === 'available') continue;
+    const key = `${row.deskId}|${row.startDate}|${row.dayPart ?? 'full'}|${Date.parse(row.createdAt) || row.createdAt}`;
+    if (!runs.has(key)) runs.set(key, row);
+  }
+  return runs;
+}
+
+/** Audit entries for moving a change's slots from one side to the other. */
+export function bookingChangeAuditEntries(change: BookingChange, direction: 'undo' | 'redo'): NewAuditEntry[] {
+  const fromRuns = runsOf(change.slots.map((s) => (direction === 'undo' ? s.after : s.before)));
+  const toRuns = runsOf(change.slots.map((s) => (direction === 'undo' ? s.before : s.after)));
+  const byCreatedAt = (runs: Map<string, DeskBooking>, row: DeskBooking) =>
+    Array.from(runs.values()).find((r) => r.deskId === row.deskId && sameCreatedAt(r, row)) ?? null;
+
+  const entries: (NewAuditEntry | null)[] = [];
+  for (const run of fromRuns.values()) entries.push(bookingAuditEntry(run, byCreatedAt(toRuns, run)));
+  for (const run of toRuns.values()) {
+    if (!byCreatedAt(fromRuns, run)) entries.push(bookingAuditEntry(null, run));
+  }
+  return entries.filter((e): e is NewAuditEntry => !!e);
+}
+
+type Listener = () => void;
+
+export class UndoHistory {
+  private undoStack: BookingChange[] = [];
+  private redoStack: BookingChange[] = [];
+  private listeners = new Set<Listener>();
+  private running: Promise<unknown> | null = null;
+
+  constructor(private readonly limit: number = UNDO_LIMIT) {}
+
+  /** Records a new edit. Clears the redo stack, like any editor. */
+  push(change: BookingChange) {
+    if (change.slots.length === 0 && !change.flexDays) return;
+    this.undoStack.push(change);
+    if (this.undoStack.length > this.limit) this.undoStack.shift();
+    this.redoStack = [];
+    this.emit();
+  }
+
+  get canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /** The change the next undo would revert. */
+  peekUndo(): BookingChange | undefined {
+    return this.undoStack[this.undoStack.length - 1];
+  }
+
+  peekRedo(): BookingChange | undefined {
+    return this.redoStack[this.redoStack.length - 1];
+  }
+
+  /**
+   * Reverts the latest change. Returns null when there is nothing to undo or
+   * another undo/redo is still running. A stale change is dropped from the
+   * history, since it can never be applied again.
+   */
+  undo(store: UndoDataStore): Promise<BookingChange | null> {
+    return this.step(store, 'undo');
+  }
+
+  redo(store: UndoDataStore): Promise<BookingChange | null> {
+    return this.step(store, 'redo');
+  }
+
+  clear() {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.emit();
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private async step(store: UndoDataStore, direction: 'undo' | 'redo'): Promise<BookingChange | null> {
+    if (this.running) return null;
+    const source = direction === 'undo' ? this.undoStack : this.redoStack;
+    const target = direction === 'undo' ? this.redoStack : this.undoStack;
+    const change = source[source.length - 1];
+    if (!change) return null;
+
+    const run = applyBookingChange(store, change, direction);
+    this.running = run;
+    try {
+      await run;
+      source.pop();
+      target.push(change);
+      return change;
+    } catch (error) {
+      if (isStaleChangeError(error)) source.pop();
+      throw error;
+    } finally {
+      this.running = null;
+      this.emit();
+    }
+  }
+
+  private emit() {
+    for (const listener of this.listeners) listener();
+  }
+}
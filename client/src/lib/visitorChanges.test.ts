@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { visitorChangeDeadline, visitorChangeStatus } from './visitorChanges';
+
+const booking = {
+  startDate: '2026-03-10',
+  endDate: '2026-03-10',
+  expired: false,
+  timezone: 'Europe/Sofia',
+  rescheduleCount: 0,
+  visitorChanges: { cutoffHours: 24, maxReschedules: 1 },
+};
+
+describe('visitorChangeDeadline', () => {
+  it('counts the cutoff back from midnight in the space timezone', () => {
+    // Midnight in Sofia is 22:00 UTC the day before in winter
+    expect(visitorChangeDeadline('2026-03-10', 24, 'Europe/Sofia').toISOString()).toBe('2026-03-08T22:00:00.000Z');
+    expect(visitorChangeDeadline('2026-03-10', 0, 'UTC').toISOString()).toBe('2026-03-10T00:00:00.000Z');
+  });
+});
+
+describe('visitorChangeStatus', () => {
+  it('allows both changes before the cutoff', () => {
+    const status = visitorChangeStatus(booking, new Date('2026-03-08T21:59:00Z'));
+    expect(status.cancelBlocked).toBeNull();
+    expect(status.rescheduleBlocked).toBeNull();
+    expect(status.reschedulesLeft).toBe(1);
+  });
+
+  it('closes both changes once the cutoff has passed', () => {
+    const status = visitorChangeStatus(booking, new Date('2026-03-08T22:00:00Z'));
+    expect(status.cancelBlocked).toBe('Changes close 1 day before the booking starts. Contact the space instead.');
+    expect(status.rescheduleBlocked).toBe(status.cancelBlocked);
+  });
+
+  it('stops moving after the allowed reschedules and for multi-day bookings', () => {
+    const now = new Date('2026-03-01T00:00:00Z');
+    const moved = visitorChangeStatus({ ...booking, rescheduleCount: 1 }, now);
+    expect(moved.cancelBlocked).toBeNull();
+    expect(moved.rescheduleBlocked).toBe('This booking was already moved as often as the space allows.');
+
+    const week = visitorChangeStatus({ ...booking, endDate: '2026-03-14' }, now);
+    expect(week.cancelBlocked).toBeNull();
+    expect(week.rescheduleBlocked).toBe('Bookings of several days can only be moved by the space.');
+  });
+
+  it('leaves changes to the space when it has not enabled them', () => {
+    const status = visitorChangeStatus({ ...booking, visitorChanges: null }, new Date('2026-03-01T00:00:00Z'));
+    expect(status.cancelBlocked).toBe('Contact the space to change this booking.');
+    expect(status.deadline).toBeNull();
+  });
+});
@@ -0,0 +1,67 @@
+import type { SharedBooking } from '@shared/schema';
+import { isValidTimeZone, zonedTimeToDate } from './dateUtils';
+
+/**
+ * Self-service changes from a booking's share link. The space decides whether
+ * visitors may cancel or move their booking, until how many hours before it
+ * starts, and how often it can be moved. The RPCs enforce the same rules;
+ * these helpers only decide what the share page offers.
+ */
+
+export interface VisitorChangeStatus {
+  /** Why the visitor can't cancel; null when they can. */
+  cancelBlocked: string | null;
+  /** Why the visitor can't move the booking; null when they can. */
+  rescheduleBlocked: string | null;
+  /** Last moment a change is accepted; null when changes are off. */
+  deadline: Date | null;
+  reschedulesLeft: number;
+}
+
+type ChangeableBooking = Pick<
+  SharedBooking,
+  'startDate' | 'endDate' | 'expired' | 'timezone' | 'rescheduleCount' | 'visitorChanges'
+>;
+
+/** Midnight of the booking's first day in the space's timezone, minus the cutoff. */
+export function visitorChangeDeadline(startDate: string, cutoffHours: number, timeZone?: string | null): Date {
+  const start = isValidTimeZone(timeZone)
+    ? zonedTimeToDate(startDate, '00:00', timeZone)
+    : new Date(startDate + 'T00:00:00');
+  return new Date(start.getTime() - cutoffHours * 3600_000);
+}
+
+export function hoursLabel(hours: number): string {
+  if (hours > 0 && hours % 24 === 0) return `${hours / 24} day${hours === 24 ? '' : 's'}`;
+  return `${hours} hour${hours === 1 ? '' : 's'}`;
+}
+
+export function visitorChangeStatus(booking: ChangeableBooking, now: Date = new Date()): VisitorChangeStatus {
+  const rules = booking.visitorChanges;
+  if (!rules) {
+    const blocked = 'Contact the space to change this booking.';
+    return { cancelBlocked: blocked, rescheduleBlocked: blocked, deadline: null, reschedulesLeft: 0 };
+  }
+
+  const deadline = visitorChangeDeadline(booking.startDate, rules.cutoffHours, booking.timezone);
+  const reschedulesLeft = Math.max(0, rules.maxReschedules - (booking.rescheduleCount ?? 0));
+  let closed: string | null = null;
+  if (booking.expired) {
+    closed = 'This booking has ended.';
+  } else if (now >= deadline) {
+    closed = rules.cutoffHours > 0
+      ? `Changes close ${hoursLabel(rules.cutoffHours)} before the booking starts. Contact the space instead.`
+      : 'The booking has started. Contact the space instead.';
+  }
+
+  let rescheduleBlocked = closed;
+  if (!rescheduleBlocked && booking.startDate !== booking.endDate) {
+    rescheduleBlocked = 'Bookings of several days can only be moved by the space.';
+  } else if (!rescheduleBlocked && reschedulesLeft === 0) {
+    rescheduleBlocked = rules.maxReschedules === 0
+      ? 'This space does not allow moving bookings online.'
+      : 'This booking was already moved as often as the space allows.';
+  }
+
+  return { cancelBlocked: closed, rescheduleBlocked, deadline, reschedulesLeft };
+}
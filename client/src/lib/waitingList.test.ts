@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import type { Desk, DeskBooking, WaitingListEntry } from '@shared/schema';
+import { buildOffer, findWaitlistMatches, matchesToOffer, waitlistRange } from './waitingList';
+
+const today = '2026-03-09'; // Monday
+const desks: Desk[] = [1, 2, 3].map(n => ({
+  id: `room1-desk${n}`,
+  room: 1,
+  number: n,
+  label: `Desk ${n}`,
+  attributes: n === 3 ? ['Window seat'] : [],
+}));
+
+function entry(overrides: Partial<WaitingListEntry>): WaitingListEntry {
+  return { id: 'w1', name: 'Alice', createdAt: '2026-03-01T00:00:00Z', ...overrides };
+}
+
+function booked(deskId: string, date: string): DeskBooking {
+  return { id: `${deskId}-${date}`, deskId, date, startDate: date, endDate: date, status: 'assigned', personName: 'Bob', createdAt: '' };
+}
+
+describe('waitlistRange', () => {
+  it('starts past dates today and derives the end from the plan', () => {
+    expect(waitlistRange(entry({ startDate: '2026-03-02', planType: 'weekly' }), today))
+      .toEqual({ startDate: today, endDate: '2026-03-15' });
+    expect(waitlistRange(entry({ startDate: '2026-03-12', endDate: '2026-03-13' }), today))
+      .toEqual({ startDate: '2026-03-12', endDate: '2026-03-13' });
+  });
+
+  it('skips free-text entries and ranges already over', () => {
+    expect(waitlistRange(entry({ preferredDates: 'Weekdays in May' }), today)).toBeNull();
+    expect(waitlistRange(entry({ startDate: '2026-03-01', endDate: '2026-03-06' }), today)).toBeNull();
+  });
+});
+
+describe('findWaitlistMatches', () => {
+  it('needs a desk free on every open day and honours attributes', () => {
+    const bookings = [booked('room1-desk1', '2026-03-11'), booked('room1-desk3', '2026-03-10')];
+    const matches = findWaitlistMatches([
+      entry({ id: 'a', startDate: '2026-03-10', endDate: '2026-03-11', deskId: 'room1-desk1' }),
+      entry({ id: 'b', startDate: '2026-03-12', endDate: '2026-03-12', deskAttributes: ['window seat'] }),
+    ], desks, bookings, [], today);
+    expect(matches.map(m => [m.entry.id, m.deskId])).toEqual([
+      ['a', 'room1-desk2'],
+      ['b', 'room1-desk3'],
+    ]);
+  });
+
+  it('promises a desk to the longest-waiting entry only', () => {
+    const bookings = [booked('room1-desk1', '2026-03-10'), booked('room1-desk3', '2026-03-10')];
+    const matches = findWaitlistMatches([
+      entry({ id: 'late', startDate: '2026-03-10', endDate: '2026-03-10', createdAt: '2026-03-05T00:00:00Z' }),
+      entry({ id: 'early', startDate: '2026-03-10', endDate: '2026-03-10', createdAt: '2026-03-02T00:00:00Z' }),
+    ], desks, bookings, [], today);
+    expect(matches.map(m => m.entry.id)).toEqual(['early']);
+  });
+
+  it('keeps an open offer on its desk and passes over lapsed offers', () => {
+    const now = new Date('2026-03-09T12:00:00Z');
+    const offer = (deskId: string, expiresAt: string) =>
+      ({ deskId, startDate: '2026-03-10', endDate: '2026-03-10', token: 't', expiresAt });
+    const matches = findWaitlistMatches([
+      entry({ id: 'lapsed', startDate: '2026-03-10', endDate: '2026-03-10', createdAt: '2026-03-01T00:00:00Z', offer: offer('room1-desk1', '2026-03-09T11:00:00Z') }),
+      entry({ id: 'open', startDate: '2026-03-10', endDate: '2026-03-10', createdAt: '2026-03-02T00:00:00Z', offer: offer('room1-desk2', '2026-03-10T11:00:00Z') }),
+    ], desks, [], [], today, { now });
+    expect(matches.map(m => [m.entry.id, m.deskId])).toEqual([['open', 'room1-desk2']]);
+  });
+});
+
+describe('offers', () => {
+  it('offers only to entries with an email and no offer yet', () => {
+    const match = (e: WaitingListEntry) => ({ entry: e, deskId: 'room1-desk1', startDate: '2026-03-10', endDate: '2026-03-12' });
+    const toOffer = matchesToOffer([
+      match(entry({ id: 'phone' })),
+      match(entry({ id: 'email', contactEmail: 'a@example.com' })),
+      match(entry({ id: 'offered', contactEmail: 'b@example.com', offer: buildOffer(match(entry({})), 'x') })),
+    ]);
+    expect(toOffer.map(m => m.entry.id)).toEqual(['email']);
+  });
+
+  it('expires the claim link after the given hours', () => {
+    const offer = buildOffer(
+      { entry: entry({}), deskId: 'room1-desk1', startDate: '2026-03-10', endDate: '2026-03-12' },
+      'token', 6, new Date('2026-03-09T08:00:00Z'),
+    );
+    expect(offer).toEqual({
+      deskId: 'room1-desk1', startDate: '2026-03-10', endDate: '2026-03-12', token: 'token', expiresAt: '2026-03-09T14:00:00.000Z',
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import type { Desk, DeskBlock, DeskBooking, WaitingListEntry, WaitlistOffer } from '@shared/schema';
+import { computePlanEnd } from './planDates';
+import { generateDateRange } from './dateUtils';
+import { findDeskBlock } from './deskBlocks';
+import { hasDeskAttributes } from './deskAttributes';
+import { occupiesDesk } from './holds';
+import { ClosureRange, isNonWorkingDay, DEFAULT_WORKING_DAYS } from './workingDays';
+
+/**
+ * Waiting-list matching. An entry asks for a desk over a date range, maybe a
+ * particular desk or desk features. Whenever bookings change, entries are
+ * matched against the free desks: the first desk free on every open day of
+ * the range goes to the entry that has waited longest.
+ *
+ * Entries with an email get the desk offered to them by link. An offer not
+ * claimed in time lapses, and the desk moves on to the next person. The
+ * server makes and sends the offers by the same rules (offer_waitlist_desks).
+ */
+
+export const DEFAULT_CLAIM_HOURS = 24;
+
+export interface WaitlistRange {
+  startDate: string;
+  endDate: string;
+}
+
+export interface WaitlistMatch {
+  entry: WaitingListEntry;
+  deskId: string;
+  startDate: string;
+  endDate: string;
+}
+
+/**
+ * The days the entry still needs, from `today` on. Null for free-text entries
+ * and for ranges already over.
+ */
+export function waitlistRange(entry: WaitingListEntry, today: string): WaitlistRange | null {
+  if (!entry.startDate && !entry.endDate && !entry.planType) return null;
+  const startDate = entry.startDate && entry.startDate > today ? entry.startDate : today;
+  if (entry.endDate) {
+    return entry.endDate < startDate ? null : { startDate, endDate: entry.endDate };
+  }
+  return { startDate, endDate: computePlanEnd(entry.planType ?? 'day_pass', startDate) };
+}
+
+export interface WaitlistMatchOptions {
+  workingDays?: number[];
+  closures?: readonly ClosureRange[] | null;
+  now?: Date;
+}
+
+/**
+ * Matches entries, oldest first, to desks free over their range. Each desk
+ * is promised once per day, so two entries never get the same desk. The
+ * preferred desk is tried first, then the others that have the asked-for
+ * attributes. Entries whose offer lapsed are passed over.
+ */
+export function findWaitlistMatches(
+  entries: readonly WaitingListEntry[],
+  desks: readonly Desk[],
+  bookings: readonly DeskBooking[],
+  blocks: readonly DeskBlock[],
+  today: string,
+  options: WaitlistMatchOptions = {},
+): WaitlistMatch[] {
+  const { workingDays = DEFAULT_WORKING_DAYS, closures, now = new Date() } = options;
+  const taken = new Set(bookings.filter(b => occupiesDesk(b, now)).map(b => `${b.deskId}:${b.date}`));
+  const matches: WaitlistMatch[] = [];
+
+  const oldestFirst = [...entries].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  for (const entry of oldestFirst) {
+    if (isOfferExpired(entry, now)) continue;
+    const range = waitlistRange(entry, today);
+    if (!range) continue;
+    const days = generateDateRange(range.startDate, range.endDate)
+      .filter(date => !isNonWorkingDay(date, workingDays, closures));
+    if (days.length === 0) continue;
+
+    // An open offer keeps its desk while that desk stays free
+    const preferred = entry.offer?.deskId ?? entry.deskId;
+    const candidates = desks
+      .filter(d => hasDeskAttributes(d, entry.deskAttributes ?? []))
+      .sort((a, b) => Number(b.id === preferred) - Number(a.id === preferred));
+    const desk = candidates.find(d =>
+      days.every(date => !taken.has(`${d.id}:${date}`) && !findDeskBlock(blocks, d.id, date)),
+    );
+    if (!desk) continue;
+
+    for (const date of days) taken.add(`${desk.id}:${date}`);
+    matches.push({ entry, deskId: desk.id, ...range });
+  }
+  return matches;
+}
+
+export function isOfferExpired(entry: WaitingListEntry, now: Date = new Date()): boolean {
+  return !!entry.offer && new Date(entry.offer.expiresAt) <= now;
+}
+
+/** Matches to email an offer for: the entry has an address and no offer yet. */
+export function matchesToOffer(matches: readonly WaitlistMatch[]): WaitlistMatch[] {
+  return matches.filter(m => !!m.entry.contactEmail && !m.entry.offer);
+}
+
+export function buildOffer(
+  match: WaitlistMatch,
+  token: string,
+  hours: number = DEFAULT_CLAIM_HOURS,
+  now: Date = new Date(),
+): WaitlistOffer {
+  return {
+    deskId: match.deskId,
+    startDate: match.startDate,
+    endDate: match.endDate,
+    token,
+    expiresAt: new Date(now.getTime() + hours * 3600_000).toISOString(),
+  };
+}
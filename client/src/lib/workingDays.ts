@@ -1,14 +1,46 @@
+import type { OrgClosure } from '@shared/schema';
+
+/** A closed day or inclusive date range (YYYY-MM-DD). */
+export type ClosureRange = Pick<OrgClosure, 'startDate' | 'endDate'>;
+
+/** The closure covering `dateString`, if any. */
+export function findClosure<C extends ClosureRange>(
+  closures: readonly C[] | null | undefined,
+  dateString: string,
+): C | null {
+  return closures?.find(c => c.startDate <= dateString && dateString <= c.endDate) ?? null;
+}
+
 /**
- * Check if a date falls on a non-working day.
+ * Check if a date falls on a non-working day: outside the weekly pattern, or
+ * on one of the organization's closures.
  * @param dateString - Date in YYYY-MM-DD format
  * @param workingDays - Array of ISO 8601 day numbers (1=Monday ... 7=Sunday)
+ * @param closures - Holidays and closure ranges (organization.closures)
  */
-export function isNonWorkingDay(dateString: string, workingDays: number[]): boolean {
+export function isNonWorkingDay(
+  dateString: string,
+  workingDays: number[],
+  closures?: readonly ClosureRange[] | null,
+): boolean {
   const date = new Date(dateString + 'T00:00:00');
   const jsDay = date.getDay(); // 0=Sunday, 1=Monday ... 6=Saturday
   // Convert JS day (0=Sun) to ISO day (7=Sun)
   const isoDay = jsDay === 0 ? 7 : jsDay;
-  return !workingDays.includes(isoDay);
+  if (!workingDays.includes(isoDay)) return true;
+  return findClosure(closures, dateString) !== null;
+}
+
+/**
+ * Whether the space is open on `dateString`. Without `workingDays` every day
+ * of the week counts, so only closures rule a day out.
+ */
+export function isOpenDay(
+  dateString: string,
+  workingDays?: number[] | null,
+  closures?: readonly ClosureRange[] | null,
+): boolean {
+  return workingDays ? !isNonWorkingDay(dateString, workingDays, closures) : !findClosure(closures, dateString);
 }
 
 export const DEFAULT_WORKING_DAYS = [1, 2, 3, 4, 5];
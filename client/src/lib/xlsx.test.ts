@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { strFromU8, unzipSync } from 'fflate';
+import { buildXlsx, columnName } from './xlsx';
+
+describe('columnName', () => {
+  it('names columns like a spreadsheet', () => {
+    expect([0, 25, 26, 51, 52, 701, 702].map(columnName)).toEqual(['A', 'Z', 'AA', 'AZ', 'BA', 'ZZ', 'AAA']);
+  });
+});
+
+describe('buildXlsx', () => {
+  it('packs a workbook with a bold header, strings and numbers', () => {
+    const files = unzipSync(buildXlsx('Bookings', ['Name', 'Price'], [['Tom & Jerry', 12.5], [null, 3]]));
+    expect(Object.keys(files)).toContain('[Content_Types].xml');
+    const sheet = strFromU8(files['xl/worksheets/sheet1.xml']);
+    expect(sheet).toContain('<c r="A1" s="1" t="inlineStr"><is><t xml:space="preserve">Name</t></is></c>');
+    expect(sheet).toContain('<t xml:space="preserve">Tom &amp; Jerry</t>');
+    expect(sheet).toContain('<c r="B2"><v>12.5</v></c>');
+    expect(sheet).toContain('<row r="3"><c r="B3"><v>3</v></c></row>');
+    expect(strFromU8(files['xl/workbook.xml'])).toContain('<sheet name="Bookings"');
+  });
+});
@@ -0,0 +1,72 @@
+import { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { CheckInResult } from '@shared/schema';
+import { SupabaseDataStore } from '@/lib/supabaseDataStore';
+import { rememberedShareTokens } from '@/lib/checkIn';
+import { Loader2, UserCheck, QrCode } from 'lucide-react';
+import { PoweredByFooter } from '@/components/booking/PoweredByFooter';
+
+/**
+ * Desk QR code landing page.
+ * URL: /check-in/:orgSlug/:deskId
+ *
+ * Checks in today's booking on the desk when the visitor opened its share
+ * link on this device before; otherwise points them to that link.
+ */
+export default function CheckInPage() {
+  const { orgSlug, deskId } = useParams<{ orgSlug: string; deskId: string }>();
+  const [result, setResult] = useState<CheckInResult | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!orgSlug || !deskId) return;
+    const tokens = rememberedShareTokens();
+    if (tokens.length === 0) {
+      setLoading(false);
+      return;
+    }
+    SupabaseDataStore.checkInAtDesk(orgSlug, deskId, tokens)
+      .then(setResult)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to check in.'))
+      .finally(() => setLoading(false));
+  }, [orgSlug, deskId]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <div className="max-w-md w-full">
+        <div className="bg-white rounded-2xl shadow-sm border p-8 text-center">
+          {result ? (
+            <>
+              <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-green-100 mb-6">
+                <UserCheck className="h-8 w-8 text-green-600" />
+              </div>
+              <h1 className="text-2xl font-bold text-gray-900">You're checked in!</h1>
+              <p className="text-gray-500 mt-3">
+                {result.personName ? `Welcome, ${result.personName}. ` : ''}
+                <span className="font-medium">{result.deskLabel}</span> is yours for today.
+              </p>
+            </>
+          ) : (
+            <>
+              <QrCode className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+              <h1 className="text-xl font-semibold text-gray-900">Check in</h1>
+              <p className="text-gray-500 mt-2">
+                {error ?? "We couldn't find your booking for this desk today. Open the link from your booking confirmation and tap Check in there."}
+              </p>
+            </>
+          )}
+        </div>
+        <PoweredByFooter />
+      </div>
+    </div>
+  );
+}
@@ -3,11 +3,17 @@ import PersonModal from '@/components/members/PersonModal';
 import BookingModal from '@/components/bookings/BookingModal';
 import ShareBookingModal from '@/components/bookings/ShareBookingModal';
 import AvailabilityRangeModal from '@/components/bookings/AvailabilityRangeModal';
+import DeskBlockModal from '@/components/bookings/DeskBlockModal';
+import ReallocationModal from '@/components/bookings/ReallocationModal';
+import GroupBookingModal from '@/components/bookings/GroupBookingModal';
+import BookingExportDialog from '@/components/bookings/BookingExportDialog';
+import ImportBookingsDialog from '@/components/bookings/ImportBookingsDialog';
 import CalendarHeader from '@/components/calendar/CalendarHeader';
 import FloorPlanCalendarView from '@/components/calendar/FloorPlanCalendarView';
 import CalendarNavigation from '@/components/calendar/CalendarNavigation';
 import DeskGrid from '@/components/calendar/DeskGrid';
 import MobileCalendar from '@/components/calendar/MobileCalendar';
+import DeskAttributeFilter from '@/components/calendar/DeskAttributeFilter';
 import { DEFAULT_DESKS } from '@/lib/deskConfig';
 import { useOrganization } from '@/contexts/OrganizationContext';
 import {
@@ -15,18 +21,25 @@ import {
   getWeekRangeString,
   getMonthRange,
   getMonthRangeString,
-  formatLocalDate,
+  todayString,
 } from '@/lib/dateUtils';
-import { DeskBooking, Currency } from '@shared/schema';
+import { DayPart, DeskBlock, DeskBooking, Currency } from '@shared/schema';
 import { useNextDates } from '@/hooks/use-next-dates';
 import { useRealtimeBookings } from '@/hooks/use-realtime-bookings';
+import { useOfflineQueue } from '@/hooks/use-offline-queue';
 import { useBookings } from '@/hooks/use-bookings';
+import { useDeskBlocks, useSaveDeskBlocks, useDeleteDeskBlock } from '@/hooks/use-desk-blocks';
+import { useWaitingListAlerts } from '@/hooks/use-waiting-list';
 import { useGenerateRecurringExpenses } from '@/hooks/use-expenses';
 import { useBookingActions } from '@/hooks/use-booking-actions';
+import { useUndoShortcuts } from '@/hooks/use-undo-history';
 import { usePlanFreeze } from '@/hooks/use-plan-freeze';
 import { useEndOngoingContract } from '@/hooks/use-end-ongoing-contract';
 import { useMarkOngoingPaid } from '@/hooks/use-mark-ongoing-paid';
 import { DEFAULT_WORKING_DAYS, isNonWorkingDay } from '@/lib/workingDays';
+import { daySlots } from '@/lib/dayParts';
+import { findDeskBlock } from '@/lib/deskBlocks';
+import { collectDeskAttributes, filterDesksByAttributes, toggleDeskAttribute } from '@/lib/deskAttributes';
 
 const MOBILE_BREAKPOINT = 1024;
 
@@ -34,6 +47,7 @@ export default function DeskCalendar() {
   const { legacyDesks, currentOrg, rooms: orgRooms } = useOrganization();
   const desks = legacyDesks.length > 0 ? legacyDesks : DEFAULT_DESKS;
   const workingDays = currentOrg?.workingDays ?? DEFAULT_WORKING_DAYS;
+  const closures = currentOrg?.closures;
 
   // Derive unique rooms from desks
   const rooms = useMemo(() => {
@@ -48,7 +62,7 @@ export default function DeskCalendar() {
 
   const [isMobile, setIsMobile] = useState(() => window.innerWidth < MOBILE_BREAKPOINT);
   const [viewMode, setViewMode] = useState<'week' | 'month' | 'floor-plan'>('week');
-  const [mapDate, setMapDate] = useState(() => formatLocalDate(new Date()));
+  const [mapDate, setMapDate] = useState(() => todayString());
   const [mapRoomId, setMapRoomId] = useState('all');
   const [roomViewMode, setRoomViewMode] = useState<'all' | 'single'>(() =>
     rooms.length >= 4 ? 'single' : 'all'
@@ -62,11 +76,24 @@ export default function DeskCalendar() {
     setSelectedRoom(rooms[0]?.room ?? null);
   }, [rooms]);
 
+  const deskAttributes = useMemo(() => collectDeskAttributes(desks), [desks]);
+  const [attributeFilter, setAttributeFilter] = useState<string[]>([]);
   const filteredDesks = useMemo(
-    () => roomViewMode === 'single' && selectedRoom !== null
-      ? desks.filter((d) => d.room === selectedRoom)
-      : desks,
-    [desks, roomViewMode, selectedRoom]
+    () => filterDesksByAttributes(
+      roomViewMode === 'single' && selectedRoom !== null
+        ? desks.filter((d) => d.room === selectedRoom)
+        : desks,
+      attributeFilter,
+    ),
+    [desks, roomViewMode, selectedRoom, attributeFilter]
+  );
+  const attributeFilterBar = (
+    <DeskAttributeFilter
+      options={deskAttributes}
+      selected={attributeFilter}
+      onToggle={(attribute) => setAttributeFilter((prev) => toggleDeskAttribute(prev, attribute))}
+      onClear={() => setAttributeFilter([])}
+    />
   );
 
   const handleRoomViewChange = useCallback((mode: 'all' | 'single') => {
@@ -82,12 +109,18 @@ export default function DeskCalendar() {
     booking: DeskBooking | null;
     deskId: string;
     date: string;
+    dayPart?: DayPart;
   } | null>(null);
   const [currentCurrency, setCurrentCurrency] = useState<Currency>(currentOrg?.currency || 'EUR');
   const [isPersonModalOpen, setIsPersonModalOpen] = useState(false);
   const [isBookingModalOpen, setIsBookingModalOpen] = useState(false);
   const [isRangeModalOpen, setIsRangeModalOpen] = useState(false);
   const [isShareModalOpen, setIsShareModalOpen] = useState(false);
+  const [isReallocationOpen, setIsReallocationOpen] = useState(false);
+  const [isGroupModalOpen, setIsGroupModalOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [selectedBlock, setSelectedBlock] = useState<DeskBlock | null>(null);
   const tableRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -96,10 +129,12 @@ export default function DeskCalendar() {
     return () => window.removeEventListener('resize', onResize);
   }, []);
 
-  const currentWeek = useMemo(() => getWeekRange(weekOffset), [weekOffset]);
-  const currentMonth = useMemo(() => getMonthRange(monthOffset), [monthOffset]);
-  const weekRangeString = useMemo(() => getWeekRangeString(weekOffset), [weekOffset]);
-  const monthRangeString = useMemo(() => getMonthRangeString(monthOffset), [monthOffset]);
+  // Ranges start from "today" in the organization's timezone
+  const timeZone = currentOrg?.timezone;
+  const currentWeek = useMemo(() => getWeekRange(weekOffset), [weekOffset, timeZone]);
+  const currentMonth = useMemo(() => getMonthRange(monthOffset), [monthOffset, timeZone]);
+  const weekRangeString = useMemo(() => getWeekRangeString(weekOffset), [weekOffset, timeZone]);
+  const monthRangeString = useMemo(() => getMonthRangeString(monthOffset), [monthOffset, timeZone]);
 
   const currentDates = useMemo(
     () => (viewMode === 'week' ? currentWeek : currentMonth),
@@ -111,13 +146,18 @@ export default function DeskCalendar() {
   const endDate = useMemo(() => (dates.length > 0 ? dates[dates.length - 1] : undefined), [dates]);
 
   const { data: bookings = {} } = useBookings(startDate, endDate);
+  const { data: blocks = [] } = useDeskBlocks(startDate, endDate);
+  const saveDeskBlocks = useSaveDeskBlocks();
+  const deleteDeskBlock = useDeleteDeskBlock();
   const { data: nextDatesData, isLoading: nextDatesLoading } = useNextDates();
 
   useRealtimeBookings();
+  useWaitingListAlerts();
+  const { pendingSlots } = useOfflineQueue();
 
   const generateRecurringExpenses = useGenerateRecurringExpenses();
   useEffect(() => {
-    const today = new Date();
+    const today = new Date(todayString() + 'T00:00:00');
     generateRecurringExpenses.mutate(
       { year: today.getFullYear(), month: today.getMonth() },
       {
@@ -140,7 +180,7 @@ export default function DeskCalendar() {
   // Auto-scroll to today's column (desktop only)
   useEffect(() => {
     if (viewMode === 'month' && monthOffset === 0 && tableRef.current && !isMobile) {
-      const todayStr = new Date().toISOString().split('T')[0];
+      const todayStr = todayString();
       const todayIndex = currentDates.findIndex((day) => day.dateString === todayStr);
       if (todayIndex >= 0) {
         setTimeout(() => {
@@ -156,11 +196,15 @@ export default function DeskCalendar() {
   const {
     handleDeskClick,
     handleBookingSave,
+    handleBookingMove,
     handlePersonSave,
     handleBulkAvailability,
     handleExport,
     handleQuickBook,
     handleDiscardBooking,
+    handleMarkNoShow,
+    handleCheckIn,
+    handleCancelSeries,
   } = useBookingActions(
     currentCurrency,
     selectedBooking,
@@ -168,9 +212,12 @@ export default function DeskCalendar() {
     setIsBookingModalOpen,
     nextAvailableDates,
     desks,
-    workingDays
+    workingDays,
+    closures
   );
 
+  useUndoShortcuts();
+
   const { freeze: freezePlanMutation } = usePlanFreeze();
   const endOngoingContractMutation = useEndOngoingContract();
   const markOngoingPaidMutation = useMarkOngoingPaid();
@@ -178,12 +225,17 @@ export default function DeskCalendar() {
   const rangeString = viewMode === 'week' ? weekRangeString : monthRangeString;
 
   const statusCounts = useMemo(() => {
-    const counts = { available: 0, booked: 0, assigned: 0, stripePaid: 0 };
+    const counts = { available: 0, booked: 0, assigned: 0, blocked: 0, stripePaid: 0 };
     for (const desk of filteredDesks) {
       for (const day of currentDates) {
-        if (isNonWorkingDay(day.dateString, workingDays)) continue;
-        const key = `${desk.id}-${day.dateString}`;
-        const booking = bookings[key];
+        if (isNonWorkingDay(day.dateString, workingDays, closures)) continue;
+        if (findDeskBlock(blocks, desk.id, day.dateString)) {
+          counts.blocked++;
+          continue;
+        }
+        // A desk sold by the half counts as taken when either half is
+        const slots = daySlots(bookings, desk.id, day.dateString);
+        const booking = slots.full ?? slots.am ?? slots.pm;
         const status = booking?.status;
         if (status === 'booked' && booking?.personName) counts.booked++;
         else if (status === 'assigned' && booking?.personName) counts.assigned++;
@@ -192,27 +244,35 @@ export default function DeskCalendar() {
       }
     }
     return counts;
-  }, [filteredDesks, currentDates, bookings, workingDays]);
+  }, [filteredDesks, currentDates, bookings, blocks, workingDays, closures]);
 
   return (
     <div className="max-w-7xl mx-auto px-2 sm:px-4 lg:px-8 py-4 sm:py-8">
       {isMobile ? (
-        <MobileCalendar
-          desks={filteredDesks}
-          bookings={bookings}
-          onDeskClick={handleDeskClick}
-          onQuickBook={handleQuickBook}
-          quickBookDisabled={nextAvailableDates.length === 0}
-          quickBookLoading={nextDatesLoading}
-          onSetAvailability={() => setIsRangeModalOpen(true)}
-          onExport={handleExport}
-          workingDays={workingDays}
-        />
+        <>
+          {attributeFilterBar}
+          <MobileCalendar
+            desks={filteredDesks}
+            bookings={bookings}
+            onDeskClick={handleDeskClick}
+            onBlockClick={setSelectedBlock}
+            onQuickBook={handleQuickBook}
+            quickBookDisabled={nextAvailableDates.length === 0}
+            quickBookLoading={nextDatesLoading}
+            onSetAvailability={() => setIsRangeModalOpen(true)}
+            onExport={() => setIsExportOpen(true)}
+            workingDays={workingDays}
+            closures={closures}
+          />
+        </>
       ) : (
         <>
           <CalendarHeader
             onSetAvailability={() => setIsRangeModalOpen(true)}
-            onExport={handleExport}
+            onExport={() => setIsExportOpen(true)}
+            onImport={() => setIsImportOpen(true)}
+            onOptimize={() => setIsReallocationOpen(true)}
+            onGroupBooking={() => setIsGroupModalOpen(true)}
             statusCounts={statusCounts}
             stripePaidCount={statusCounts.stripePaid}
             totalDeskDays={statusCounts.available + statusCounts.booked + statusCounts.assigned}
@@ -250,14 +310,22 @@ export default function DeskCalendar() {
           {viewMode === 'floor-plan' ? (
             <FloorPlanCalendarView selectedDate={mapDate} selectedRoomId={mapRoomId} onDeskClick={handleDeskClick} />
           ) : (
-            <DeskGrid
-              ref={tableRef}
-              desks={filteredDesks}
-              currentDates={currentDates}
-              bookings={bookings}
-              onDeskClick={handleDeskClick}
-              workingDays={workingDays}
-            />
+            <>
+              {attributeFilterBar}
+              <DeskGrid
+                ref={tableRef}
+                desks={filteredDesks}
+                currentDates={currentDates}
+                bookings={bookings}
+                onDeskClick={handleDeskClick}
+                workingDays={workingDays}
+                closures={closures}
+                blocks={blocks}
+                onBlockClick={setSelectedBlock}
+                pendingKeys={pendingSlots}
+                onBookingMove={handleBookingMove}
+              />
+            </>
           )}
         </>
       )}
@@ -271,10 +339,14 @@ export default function DeskCalendar() {
         booking={selectedBooking?.booking || null}
         deskId={selectedBooking?.deskId || ''}
         date={selectedBooking?.date || ''}
+        dayPart={selectedBooking?.dayPart}
         desks={desks}
         currency={currentCurrency}
         onSave={handleBookingSave}
         onDiscard={handleDiscardBooking}
+        onMarkNoShow={handleMarkNoShow}
+        onCheckIn={handleCheckIn}
+        onCancelSeries={handleCancelSeries}
         onFreezePlan={async (pausedAt) => {
           const b = selectedBooking?.booking;
           if (!b || !b.clientId) return;
@@ -309,7 +381,7 @@ export default function DeskCalendar() {
           });
           // Jump the calendar to the newly-booked runway so the operator sees
           // the fresh orange block immediately without having to scroll.
-          const today = new Date(formatLocalDate(new Date()) + 'T00:00:00');
+          const today = new Date(todayString() + 'T00:00:00');
           const nextStart = new Date(result.nextCycleStart + 'T00:00:00');
           const daysAhead = Math.round((nextStart.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
           if (viewMode === 'week') {
@@ -377,6 +449,57 @@ export default function DeskCalendar() {
         onClose={() => setIsRangeModalOpen(false)}
         desks={desks}
         onApply={handleBulkAvailability}
+        onBlock={(blockStart, blockEnd, deskIds, reason, note) =>
+          saveDeskBlocks.mutate({ deskIds, startDate: blockStart, endDate: blockEnd, reason, note })
+        }
+      />
+
+      <GroupBookingModal
+        isOpen={isGroupModalOpen}
+        onClose={() => setIsGroupModalOpen(false)}
+        desks={desks}
+        currency={currentCurrency}
+        startDate={dates[0] > todayString() ? dates[0] : todayString()}
+      />
+
+      <BookingExportDialog
+        isOpen={isExportOpen}
+        onClose={() => setIsExportOpen(false)}
+        defaultStartDate={dates[0]}
+        defaultEndDate={dates[dates.length - 1]}
+        onBackup={handleExport}
+      />
+
+      <ImportBookingsDialog
+        open={isImportOpen}
+        onOpenChange={setIsImportOpen}
+      />
+
+      <ReallocationModal
+        isOpen={isReallocationOpen}
+        onClose={() => setIsReallocationOpen(false)}
+        desks={desks}
+      />
+
+      <DeskBlockModal
+        isOpen={!!selectedBlock}
+        onClose={() => setSelectedBlock(null)}
+        block={selectedBlock}
+        deskLabel={desks.find(d => d.id === selectedBlock?.deskId)?.label || selectedBlock?.deskId || ''}
+        onSave={async (block) => {
+          await saveDeskBlocks.mutateAsync({
+            id: block.id,
+            deskIds: [block.deskId],
+            startDate: block.startDate,
+            endDate: block.endDate,
+            reason: block.reason,
+            note: block.note,
+            createdAt: block.createdAt,
+          });
+        }}
+        onRemove={async (id) => {
+          await deleteDeskBlock.mutateAsync(id);
+        }}
       />
 
     </div>
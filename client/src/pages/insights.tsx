@@ -7,8 +7,8 @@ import { useBookingStats } from '@/hooks/use-bookings';
 import { useBookingActions } from '@/hooks/use-booking-actions';
 import { useOrganization } from '@/contexts/OrganizationContext';
 import { DEFAULT_DESKS } from '@/lib/deskConfig';
-import { getMonthRange, getMonthRangeString } from '@/lib/dateUtils';
-import { DeskBooking, Currency } from '@shared/schema';
+import { getMonthRange, getMonthRangeString, todayString } from '@/lib/dateUtils';
+import { DayPart, DeskBooking, Currency } from '@shared/schema';
 import { isNonWorkingDay, DEFAULT_WORKING_DAYS } from '@/lib/workingDays';
 
 export default function InsightsPage() {
@@ -16,16 +16,16 @@ export default function InsightsPage() {
   const desks = legacyDesks.length > 0 ? legacyDesks : DEFAULT_DESKS;
   const workingDays = currentOrg?.workingDays ?? DEFAULT_WORKING_DAYS;
 
-  const monthDays = useMemo(() => getMonthRange(0), []);
-  const today = useMemo(() => new Date().toISOString().split('T')[0], []);
+  const monthDays = useMemo(() => getMonthRange(0), [currentOrg?.timezone]);
+  const today = useMemo(() => todayString(), [currentOrg?.timezone]);
   const dates = useMemo(() => {
     return monthDays
       .filter(d => {
         if (d.dateString <= today) return false;
-        return !isNonWorkingDay(d.dateString, workingDays);
+        return !isNonWorkingDay(d.dateString, workingDays, currentOrg?.closures);
       })
       .map(d => d.dateString);
-  }, [monthDays, today, workingDays]);
+  }, [monthDays, today, workingDays, currentOrg?.closures]);
 
   const { data: nextDatesData } = useNextDates();
   const { data: stats = { available: 0, assigned: 0, booked: 0 } } = useBookingStats(dates);
@@ -40,19 +40,25 @@ export default function InsightsPage() {
     booking: DeskBooking | null;
     deskId: string;
     date: string;
+    dayPart?: DayPart;
   } | null>(null);
   const [isBookingModalOpen, setIsBookingModalOpen] = useState(false);
 
   const {
     handleBookingSave,
     handleDiscardBooking,
+    handleMarkNoShow,
+    handleCheckIn,
+    handleCancelSeries,
   } = useBookingActions(
     currentCurrency,
     selectedBooking,
     setSelectedBooking,
     setIsBookingModalOpen,
     nextAvailableDates,
-    desks
+    desks,
+    workingDays,
+    currentOrg?.closures
   );
 
   const handleAvailableDateClick = useCallback((date: string) => {
@@ -97,10 +103,14 @@ export default function InsightsPage() {
         booking={selectedBooking?.booking || null}
         deskId={selectedBooking?.deskId || ''}
         date={selectedBooking?.date || ''}
+        dayPart={selectedBooking?.dayPart}
         desks={desks}
         currency={currentCurrency}
         onSave={handleBookingSave}
         onDiscard={handleDiscardBooking}
+        onMarkNoShow={handleMarkNoShow}
+        onCheckIn={handleCheckIn}
+        onCancelSeries={handleCancelSeries}
       />
     </div>
   );
@@ -8,11 +8,7 @@ import MeetingRoomBookingModal from '@/components/meeting-rooms/MeetingRoomBooki
 import { MeetingRoomBooking } from '@shared/schema';
 import { DoorOpen, Settings } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { formatLocalDate } from '@/lib/dateUtils';
-
-function todayString(): string {
-  return formatLocalDate(new Date());
-}
+import { formatLocalDate, getAppTimeZone, todayString } from '@/lib/dateUtils';
 
 function offsetDate(dateStr: string, days: number): string {
   const d = new Date(dateStr + 'T00:00:00');
@@ -70,6 +66,7 @@ export default function MeetingRoomsPage() {
         rooms={meetingRooms}
         bookings={bookings}
         currency={currentOrg.currency}
+        timeZone={getAppTimeZone()}
         onSlotClick={(roomId, slot) => setModal({ roomId, slot })}
         onBookingClick={(booking) => setModal({ roomId: booking.meetingRoomId, slot: '', booking })}
       />
@@ -79,6 +76,7 @@ export default function MeetingRoomsPage() {
           date={date}
           orgId={currentOrg.id}
           currency={currentOrg.currency}
+          timeZone={getAppTimeZone()}
           rooms={meetingRooms}
           initialRoomId={modal.roomId}
           initialSlot={modal.slot || '09:00'}
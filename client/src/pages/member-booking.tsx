@@ -1,23 +1,25 @@
 import { useEffect, useState, useMemo } from 'react';
 import { useParams } from 'react-router-dom';
-import { PublicAvailability, Client } from '@shared/schema';
+import { DayPart, PublicAvailability, Client } from '@shared/schema';
 import { SupabaseDataStore } from '@/lib/supabaseDataStore';
 import { supabaseClient } from '@/lib/supabaseClient';
 import { loadPublicFloorPlan, type FloorPlanData } from '@/hooks/use-floor-plan';
 import { isNonWorkingDay, DAY_LABELS } from '@/lib/workingDays';
-import { formatLocalDate } from '@/lib/dateUtils';
-import { buildAvailabilityMap, pickRandomAvailableDesk, getIsoDay } from '@/lib/bookingAvailability';
+import { formatLocalDate, todayString } from '@/lib/dateUtils';
+import { buildAvailabilityMap, buildBookedSet, getIsoDay } from '@/lib/bookingAvailability';
+import { allocateDesks } from '@/lib/deskAllocation';
+import { BookingConflictError } from '@/lib/bookingConflicts';
 import {
   mapClientRowToClient,
   computeFlexRemaining,
   buildDeskLabelMap,
   dedupeUpcomingBookingsByDate,
-  computePerVisitPrice,
 } from '@/lib/memberBookingUtils';
-import { Loader2, CalendarCheck, Check, MapPin, CalendarDays, Package } from 'lucide-react';
+import { Loader2, CalendarCheck, Check, MapPin, CalendarDays, Package, UserCheck } from 'lucide-react';
 import { SpaceContactBar } from '@/components/shared/SpaceContactBar';
 import { FloorPlanReadOnly } from '@/components/floor-plan/FloorPlanReadOnly';
 import { AvailabilityCalendar } from '@/components/booking/AvailabilityCalendar';
+import { DayPartPicker } from '@/components/booking/DayPartPicker';
 import { PoweredByFooter } from '@/components/booking/PoweredByFooter';
 
 /**
@@ -38,6 +40,7 @@ export default function MemberBookingPage() {
   const [loading, setLoading] = useState(true);
   const [notFound, setNotFound] = useState(false);
   const [selectedDates, setSelectedDates] = useState<string[]>([]);
+  const [dayPart, setDayPart] = useState<DayPart>('full');
   const [submitting, setSubmitting] = useState(false);
   const [submitted, setSubmitted] = useState(false);
   const [assignments, setAssignments] = useState<{ date: string; deskId: string; deskLabel: string }[]>([]);
@@ -45,30 +48,29 @@ export default function MemberBookingPage() {
   const [showCalendar, setShowCalendar] = useState(false);
   const [updatedBalance, setUpdatedBalance] = useState<{ remaining: number; total: number } | null>(null);
   const [floorPlan, setFloorPlan] = useState<FloorPlanData | null>(null);
-  const [flexConfig, setFlexConfig] = useState<{ days: number; price: number } | null>(null);
   const [upcomingBookings, setUpcomingBookings] = useState<{ date: string; deskLabel: string }[]>([]);
+  // Today's booking: null when checked in yet, undefined when there is none
+  const [todayCheckIn, setTodayCheckIn] = useState<string | null | undefined>(undefined);
+  const [checkingIn, setCheckingIn] = useState(false);
 
   useEffect(() => {
     if (!orgSlug || !memberId) return;
 
-    const todayStr = formatLocalDate(new Date());
+    const todayStr = todayString();
 
     Promise.all([
       SupabaseDataStore.getPublicAvailability(orgSlug),
       supabaseClient.from('clients').select('*').eq('id', parseInt(memberId, 10)).single(),
-      supabaseClient.from('organizations').select('flex_plan_days, flex_plan_price, id').eq('slug', orgSlug).single(),
+      supabaseClient.from('organizations').select('id').eq('slug', orgSlug).single(),
     ]).then(async ([avail, { data: clientRow }, { data: orgRow }]) => {
       if (avail && clientRow) {
         setAvailability(avail);
-        if (orgRow?.flex_plan_days && orgRow?.flex_plan_price) {
-          setFlexConfig({ days: orgRow.flex_plan_days, price: orgRow.flex_plan_price });
-        }
         setMember(mapClientRowToClient(clientRow));
         // Fetch upcoming bookings for this member
         if (orgRow?.id) {
           const { data: bookingRows } = await supabaseClient
             .from('desk_bookings')
-            .select('date, desk_id')
+            .select('date, desk_id, checked_in_at')
             .eq('client_id', parseInt(clientRow.id, 10))
             .eq('organization_id', orgRow.id)
             .gte('date', todayStr)
@@ -79,6 +81,10 @@ export default function MemberBookingPage() {
             setUpcomingBookings(
               dedupeUpcomingBookingsByDate(bookingRows, buildDeskLabelMap(avail)),
             );
+            const todayRows = bookingRows.filter(r => r.date === todayStr);
+            if (todayRows.length > 0) {
+              setTodayCheckIn(todayRows.find(r => r.checked_in_at)?.checked_in_at ?? null);
+            }
           }
         }
       } else {
@@ -91,10 +97,11 @@ export default function MemberBookingPage() {
     });
   }, [orgSlug, memberId]);
 
-  const { availabilityMap, maxDate } = useMemo(() => {
-    if (!availability) return { availabilityMap: {} as Record<string, number>, maxDate: new Date() };
+  const { availabilityMap: fullDayMap, halfDayMaps, maxDate } = useMemo(() => {
+    if (!availability) return { availabilityMap: {} as Record<string, number>, halfDayMaps: { am: {}, pm: {} }, maxDate: new Date() };
     return buildAvailabilityMap(availability);
   }, [availability]);
+  const availabilityMap = dayPart === 'full' ? fullDayMap : halfDayMaps[dayPart];
 
   if (loading) {
     return (
@@ -117,6 +124,19 @@ export default function MemberBookingPage() {
     );
   }
 
+  const handleCheckIn = async () => {
+    if (!memberId || !orgSlug) return;
+    setCheckingIn(true);
+    setError('');
+    try {
+      setTodayCheckIn((await SupabaseDataStore.checkInMemberBooking(memberId, orgSlug)).checkedInAt);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to check in.');
+    } finally {
+      setCheckingIn(false);
+    }
+  };
+
   const flexRemaining = computeFlexRemaining(member);
   const noBalance = member.flexActive && flexRemaining <= 0;
 
@@ -197,23 +217,21 @@ export default function MemberBookingPage() {
     );
   }
 
-  const { org, rooms, bookedSlots } = availability;
-  const bookedSet = new Set(bookedSlots.map(s => `${s.deskId}:${s.date}`));
+  const { org, rooms, bookedSlots, blockedSlots } = availability;
+  const bookedSet = buildBookedSet(bookedSlots, blockedSlots);
   const allDesks = rooms.flatMap(r => r.desks);
 
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+  // Midnight of the organization's "today", whatever the visitor's timezone
+  const today = new Date(todayString(org.timezone) + 'T00:00:00');
   const todayStr = formatLocalDate(today);
   const tomorrow = new Date(today);
   tomorrow.setDate(today.getDate() + 1);
   const tomorrowStr = formatLocalDate(tomorrow);
 
-  const todayAvailable = (availabilityMap[todayStr] ?? 0) > 0 && !isNonWorkingDay(todayStr, org.workingDays);
-  const tomorrowAvailable = (availabilityMap[tomorrowStr] ?? 0) > 0 && !isNonWorkingDay(tomorrowStr, org.workingDays);
-  const todayIsWorkingDay = !isNonWorkingDay(todayStr, org.workingDays);
-  const tomorrowIsWorkingDay = !isNonWorkingDay(tomorrowStr, org.workingDays);
-
-  const perVisitPrice = computePerVisitPrice(flexConfig);
+  const todayAvailable = (availabilityMap[todayStr] ?? 0) > 0 && !isNonWorkingDay(todayStr, org.workingDays, org.closures);
+  const tomorrowAvailable = (availabilityMap[tomorrowStr] ?? 0) > 0 && !isNonWorkingDay(tomorrowStr, org.workingDays, org.closures);
+  const todayIsWorkingDay = !isNonWorkingDay(todayStr, org.workingDays, org.closures);
+  const tomorrowIsWorkingDay = !isNonWorkingDay(tomorrowStr, org.workingDays, org.closures);
 
   const toggleDate = (dateStr: string) => {
     setSelectedDates(prev =>
@@ -221,6 +239,34 @@ export default function MemberBookingPage() {
     );
   };
 
+  // Switching between full and half days keeps only dates still free for it
+  const changeDayPart = (next: DayPart) => {
+    const nextMap = next === 'full' ? fullDayMap : halfDayMaps[next];
+    setDayPart(next);
+    setSelectedDates(prev => prev.filter(d => (nextMap[d] ?? 0) > 0));
+  };
+
+  // Someone else took the desk we picked between loading availability and
+  // submitting. The visits are booked in one statement, so nothing was saved —
+  // reload availability and let the visitor pick again.
+  const handleDeskTaken = async (conflict: BookingConflictError) => {
+    const fresh = orgSlug ? await SupabaseDataStore.getPublicAvailability(orgSlug) : null;
+    if (fresh) setAvailability(fresh);
+    const freshMaps = fresh ? buildAvailabilityMap(fresh) : null;
+    const freshMap = !freshMaps ? availabilityMap : dayPart === 'full' ? freshMaps.availabilityMap : freshMaps.halfDayMaps[dayPart];
+    const formatDate = (date: string) =>
+      new Date(date + 'T00:00:00').toLocaleDateString('en-GB', { month: 'short', day: 'numeric' });
+
+    const soldOut = conflict.dates.filter(d => (freshMap[d] ?? 0) <= 0);
+    if (soldOut.length > 0) {
+      const remaining = selectedDates.filter(d => !soldOut.includes(d));
+      setSelectedDates(remaining);
+      setError(`Sorry, the last desk on ${soldOut.map(formatDate).join(', ')} just got taken. Please pick another date.`);
+    } else {
+      setError(`Sorry, the desk we picked for ${conflict.dates.map(formatDate).join(', ')} just got taken. Availability is refreshed — submit again to get another desk.`);
+    }
+  };
+
   const handleSubmit = async () => {
     if (selectedDates.length === 0) return;
 
@@ -233,38 +279,22 @@ export default function MemberBookingPage() {
     setError('');
 
     try {
-      // Assign a desk for each selected date
-      const newAssignments: { date: string; deskId: string; deskLabel: string }[] = [];
-      for (const date of selectedDates) {
-        const desk = pickRandomAvailableDesk(allDesks, bookedSet, date);
-        if (!desk) {
-          setError(`Sorry, no desks are available on ${date}. Please adjust your selection.`);
-          setSubmitting(false);
-          return;
-        }
-        bookedSet.add(`${desk.deskId}:${date}`);
-        newAssignments.push({ date, deskId: desk.deskId, deskLabel: desk.label });
+      // Assign a desk for each selected date, keeping the member on one desk
+      // where possible
+      const { assignments, unassigned } = allocateDesks(allDesks, bookedSet, selectedDates, dayPart);
+      if (unassigned.length > 0) {
+        setError(`Sorry, no desks are available on ${unassigned[0]}. Please adjust your selection.`);
+        setSubmitting(false);
+        return;
       }
-
-      // Batch insert — atomic single Postgres statement
-      const { error: insertError } = await supabaseClient
-        .from('desk_bookings')
-        .insert(newAssignments.map(a => ({
-          desk_id: a.deskId,
-          date: a.date,
-          start_date: a.date,
-          end_date: a.date,
-          status: 'assigned',
-          organization_id: org.id,
-          person_name: member.name,
-          client_id: parseInt(member.id, 10),
-          is_flex: true,
-          price: Math.round((perVisitPrice || 0) * 100) / 100,
-          currency: org.currency || 'EUR',
-          created_at: new Date().toISOString(),
-        })));
-
-      if (insertError) throw insertError;
+      const newAssignments = assignments.map(({ date, desk }) => ({ date, deskId: desk.deskId, deskLabel: desk.label }));
+      // Each visit carries its share of the flex plan, priced by the server
+      await SupabaseDataStore.submitMemberBooking({
+        orgSlug: org.slug,
+        clientId: parseInt(member.id, 10),
+        dayPart,
+        assignments: newAssignments,
+      });
 
       // Deduct N flex days in one update
       const n = newAssignments.length;
@@ -315,6 +345,10 @@ export default function MemberBookingPage() {
         }).catch(() => {});
       }
     } catch (err) {
+      if (err instanceof BookingConflictError) {
+        await handleDeskTaken(err);
+        return;
+      }
       console.error('Member booking error:', err);
       setError('Failed to book. Please try again.');
     } finally {
@@ -364,7 +398,24 @@ export default function MemberBookingPage() {
                         <span className="text-gray-700">
                           {DAY_LABELS[getIsoDay(d)]}, {d.toLocaleDateString('en-GB', { month: 'short', day: 'numeric' })}
                         </span>
-                        <span className="text-gray-400 text-xs">{b.deskLabel}</span>
+                        <span className="flex items-center gap-2">
+                          <span className="text-gray-400 text-xs">{b.deskLabel}</span>
+                          {b.date === todayString() && todayCheckIn !== undefined && (
+                            todayCheckIn ? (
+                              <span className="flex items-center gap-1 text-xs text-green-700">
+                                <UserCheck className="h-3.5 w-3.5" /> Checked in
+                              </span>
+                            ) : (
+                              <button
+                                onClick={handleCheckIn}
+                                disabled={checkingIn}
+                                className="px-2.5 py-1 bg-green-600 hover:bg-green-700 disabled:bg-green-400 text-white text-xs font-semibold rounded-lg transition-colors"
+                              >
+                                {checkingIn ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : 'Check in'}
+                              </button>
+                            )
+                          )}
+                        </span>
                       </div>
                     );
                   })}
@@ -389,6 +440,9 @@ export default function MemberBookingPage() {
               <div>
                 <h2 className="text-sm font-medium text-gray-500 uppercase tracking-wide mb-4">Pick your dates</h2>
                 <div className="space-y-3">
+                  {!!org.halfDayPrice && (
+                    <DayPartPicker value={dayPart} onChange={changeDayPart} accent="amber" />
+                  )}
                   <div className="grid grid-cols-2 gap-3">
                     {[{ dateStr: todayStr, label: 'Today', available: todayAvailable, isWorkingDay: todayIsWorkingDay },
                       { dateStr: tomorrowStr, label: 'Tomorrow', available: tomorrowAvailable, isWorkingDay: tomorrowIsWorkingDay }]
@@ -436,6 +490,7 @@ export default function MemberBookingPage() {
                       today={today}
                       maxDate={maxDate}
                       workingDays={org.workingDays}
+                      closures={org.closures}
                       availabilityMap={availabilityMap}
                       onSelect={toggleDate}
                       onCancel={() => setShowCalendar(false)}
@@ -445,6 +500,12 @@ export default function MemberBookingPage() {
                     />
                   )}
 
+                  {error && selectedDates.length === 0 && (
+                    <div className="bg-red-50 border border-red-200 rounded-xl px-4 py-3">
+                      <p className="text-sm text-red-700">{error}</p>
+                    </div>
+                  )}
+
                   {selectedDates.length > 0 && (
                     <>
                       <div className="space-y-1.5">
@@ -6,7 +6,7 @@ import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { UserPlus, Trash2, Loader2, Users, Search, X, Copy, Check, Link as LinkIcon, Package, Play, Snowflake, Infinity as InfinityIcon, CreditCard, FileText, Upload } from 'lucide-react';
 import ImportMembersDialog from '@/components/members/ImportMembersDialog';
 import { DeskBooking, PaymentMethodType } from '@shared/schema';
-import { formatLocalDate } from '@/lib/dateUtils';
+import { todayString } from '@/lib/dateUtils';
 import ReactivationModal from '@/components/members/ReactivationModal';
 import MemberProfileDialog from '@/components/members/MemberProfileDialog';
 import InvoiceEditorDialog from '@/components/invoices/InvoiceEditorDialog';
@@ -21,6 +21,8 @@ import {
 } from '@/components/ui/alert-dialog';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { supabaseClient } from '@/lib/supabaseClient';
+import { clientAuditEntry } from '@/lib/auditLog';
+import { useRecordAudit } from '@/hooks/use-audit-log';
 
 const DEFAULT_VISIBLE = 20;
 
@@ -127,17 +129,27 @@ function BalanceCell({
   );
 }
 
-function useDebouncedSave(dataStore: ReturnType<typeof useDataStore>, toast: ReturnType<typeof useToast>['toast']) {
+function useDebouncedSave(
+  dataStore: ReturnType<typeof useDataStore>,
+  toast: ReturnType<typeof useToast>['toast'],
+  recordAudit: ReturnType<typeof useRecordAudit>,
+) {
   const timers = useRef<Map<string, NodeJS.Timeout>>(new Map());
+  // Client as it was before the current burst of keystrokes — one audit
+  // entry per debounced save, not per keystroke.
+  const baselines = useRef<Map<string, Client>>(new Map());
 
-  const save = useCallback((client: Client) => {
+  const save = useCallback((client: Client, before: Client | null) => {
     const existing = timers.current.get(client.id);
     if (existing) clearTimeout(existing);
+    if (before && !baselines.current.has(client.id)) baselines.current.set(client.id, before);
 
     const timer = setTimeout(async () => {
       timers.current.delete(client.id);
       try {
         await dataStore.saveClient!(client);
+        recordAudit(clientAuditEntry(baselines.current.get(client.id) ?? null, client));
+        baselines.current.delete(client.id);
         toast({ title: 'Saved', description: `${client.name || 'Client'} updated`, duration: 1500 });
       } catch {
         toast({ title: 'Failed to save', description: 'Changes could not be saved', variant: 'destructive', duration: 2000 });
@@ -145,7 +157,7 @@ function useDebouncedSave(dataStore: ReturnType<typeof useDataStore>, toast: Ret
     }, 1500);
 
     timers.current.set(client.id, timer);
-  }, [dataStore, toast]);
+  }, [dataStore, toast, recordAudit]);
 
   useEffect(() => {
     return () => {
@@ -166,7 +178,8 @@ export default function MembersPage() {
     organizations.forEach(o => { map[o.id] = o.name; });
     return map;
   }, [organizations]);
-  const debouncedSave = useDebouncedSave(dataStore, toast);
+  const recordAudit = useRecordAudit();
+  const debouncedSave = useDebouncedSave(dataStore, toast, recordAudit);
   const [localClients, setLocalClients] = useState<Client[]>([]);
   const [deleteTarget, setDeleteTarget] = useState<Client | null>(null);
   const [deletingId, setDeletingId] = useState<string | null>(null);
@@ -185,7 +198,7 @@ export default function MembersPage() {
   const [importOpen, setImportOpen] = useState(false);
   const newNameRef = useRef<HTMLInputElement>(null);
   const searchRef = useRef<HTMLInputElement>(null);
-  const today = formatLocalDate(new Date());
+  const today = todayString();
 
   const flexConfigured = !!(currentOrg?.flexPlanDays && currentOrg.flexPlanDays > 0 && currentOrg?.flexPlanPrice && currentOrg.flexPlanPrice > 0);
 
@@ -258,7 +271,7 @@ export default function MembersPage() {
       const updated = prev.map(c => c.id === id ? { ...c, [field]: value } : c);
       const client = updated.find(c => c.id === id);
       if (client && client.name.trim()) {
-        debouncedSave(client);
+        debouncedSave(client, prev.find(c => c.id === id) ?? null);
       }
       return updated;
     });
@@ -296,6 +309,7 @@ export default function MembersPage() {
     setDeleteTarget(null);
     try {
       await dataStore.deleteClient(id);
+      recordAudit(clientAuditEntry(localClients.find(c => c.id === id) ?? deleteTarget, null));
       setLocalClients(prev => prev.filter(c => c.id !== id));
       queryClient.invalidateQueries({ queryKey: ['clients'] });
       toast({ title: 'Deleted', description: 'Member removed', duration: 1500 });
@@ -592,9 +606,10 @@ export default function MembersPage() {
                         flexActive: true,
                         flexTotalDays: currentOrg.flexPlanDays,
                         flexUsedDays: 0,
-                        flexStartDate: new Date().toISOString().split('T')[0],
+                        flexStartDate: todayString(),
                       };
                       await dataStore.saveClient(updated);
+                      recordAudit(clientAuditEntry(flexActivateTarget, updated));
                       setLocalClients(prev => prev.map(c => c.id === updated.id ? updated : c));
                       queryClient.invalidateQueries({ queryKey: ['clients'] });
 
@@ -670,6 +685,7 @@ export default function MembersPage() {
               vatId,
             };
             const saved = await dataStore.saveClient(updated);
+            recordAudit(clientAuditEntry(profileTarget, saved));
             setLocalClients(prev => prev.map(c => c.id === saved.id ? saved : c));
             queryClient.invalidateQueries({ queryKey: ['clients'] });
             toast({ title: 'Saved', description: 'Billing details updated.', duration: 1500 });
@@ -1,13 +1,23 @@
 import { useEffect, useState, useMemo } from 'react';
 import { useParams, useSearchParams } from 'react-router-dom';
-import { PublicAvailability } from '@shared/schema';
+import { DayPart, PublicAvailability } from '@shared/schema';
 import { SupabaseDataStore } from '@/lib/supabaseDataStore';
 import { supabaseClient } from '@/lib/supabaseClient';
 import { loadPublicFloorPlan, type FloorPlanData } from '@/hooks/use-floor-plan';
 import { isNonWorkingDay, DAY_LABELS } from '@/lib/workingDays';
-import { formatLocalDate } from '@/lib/dateUtils';
-import { buildAvailabilityMap, pickRandomAvailableDesk, getIsoDay } from '@/lib/bookingAvailability';
-import { Loader2, CalendarCheck, ChevronLeft, Check, MapPin, CalendarDays } from 'lucide-react';
+import { formatLocalDate, todayString } from '@/lib/dateUtils';
+import { buildAvailabilityMap, buildBookedSet, getIsoDay, soldOutDates } from '@/lib/bookingAvailability';
+import { allocateDesks } from '@/lib/deskAllocation';
+import { DAY_PART_LABELS } from '@/lib/dayParts';
+import { describePolicy } from '@/lib/bookingPolicy';
+import { describeHold } from '@/lib/holds';
+import { quotePrice } from '@shared/pricing';
+import { DayPartPicker } from '@/components/booking/DayPartPicker';
+import { DeskAttributePicker } from '@/components/booking/DeskAttributePicker';
+import { PublicWaitlistForm } from '@/components/booking/PublicWaitlistForm';
+import { collectDeskAttributes, filterDesksByAttributes, toggleDeskAttribute } from '@/lib/deskAttributes';
+import { BookingConflictError } from '@/lib/bookingConflicts';
+import { Loader2, CalendarCheck, ChevronLeft, Check, MapPin, CalendarDays, BellRing } from 'lucide-react';
 import { SpaceContactBar } from '@/components/shared/SpaceContactBar';
 import { FloorPlanReadOnly } from '@/components/floor-plan/FloorPlanReadOnly';
 import { AvailabilityCalendar } from '@/components/booking/AvailabilityCalendar';
@@ -22,7 +32,11 @@ export default function PublicBookingPage() {
   const [notFound, setNotFound] = useState(false);
 
   const [selectedDates, setSelectedDates] = useState<string[]>([]);
+  const [dayPart, setDayPart] = useState<DayPart>('full');
+  const [requiredAttributes, setRequiredAttributes] = useState<string[]>([]);
   const [showContactForm, setShowContactForm] = useState(false);
+  const [showWaitlist, setShowWaitlist] = useState(false);
+  const [waitlistJoined, setWaitlistJoined] = useState<{ startDate: string; endDate: string } | null>(null);
 
   // Form state
   const [visitorName, setVisitorName] = useState('');
@@ -30,6 +44,8 @@ export default function PublicBookingPage() {
   const [visitorNotes, setVisitorNotes] = useState('');
   const [submitting, setSubmitting] = useState(false);
   const [submitted, setSubmitted] = useState(false);
+  const [heldUntil, setHeldUntil] = useState<string | null>(null);
+  const [bookedPrice, setBookedPrice] = useState<{ price: number; currency: string } | null>(null);
   const [bookingAssignments, setBookingAssignments] = useState<{ date: string; deskId: string; deskLabel: string }[]>([]);
   const [error, setError] = useState('');
   const [showCalendar, setShowCalendar] = useState(false);
@@ -62,10 +78,11 @@ export default function PublicBookingPage() {
   }, [searchParams, setSearchParams]);
 
   // All hooks must be above early returns
-  const { availabilityMap, maxDate } = useMemo(() => {
-    if (!availability) return { availabilityMap: {} as Record<string, number>, maxDate: new Date() };
-    return buildAvailabilityMap(availability);
-  }, [availability]);
+  const { availabilityMap: fullDayMap, halfDayMaps, maxDate } = useMemo(() => {
+    if (!availability) return { availabilityMap: {} as Record<string, number>, halfDayMaps: { am: {}, pm: {} }, maxDate: new Date() };
+    return buildAvailabilityMap(availability, undefined, requiredAttributes);
+  }, [availability, requiredAttributes]);
+  const availabilityMap = dayPart === 'full' ? fullDayMap : halfDayMaps[dayPart];
 
   if (loading) {
     return (
@@ -88,6 +105,8 @@ export default function PublicBookingPage() {
     );
   }
 
+  const policyText = describePolicy(availability.org.bookingPolicy, availability.org.currency);
+
   if (submitted) {
     const isPaid = bookingAssignments.length === 0; // Stripe redirect path sets submitted=true with no assignments
     return (
@@ -131,6 +150,22 @@ export default function PublicBookingPage() {
                 />
               </div>
             )}
+            {bookedPrice && (
+              <p className="mt-4 flex justify-between text-sm font-medium text-gray-900">
+                <span>Total</span>
+                <span>{formatCurrency(bookedPrice.price, bookedPrice.currency)}</span>
+              </p>
+            )}
+            {heldUntil && (
+              <p className="mt-4 text-sm text-orange-700 bg-orange-50 border border-orange-200 rounded-lg px-3 py-2 text-left">
+                {describeHold(heldUntil, availability.org.timezone)}. Pay the space before then, or the desk is released.
+              </p>
+            )}
+            {policyText && (
+              <p className="mt-4 text-xs text-gray-500 text-left">
+                <span className="font-medium text-gray-700">Cancellation policy: </span>{policyText}
+              </p>
+            )}
             <SpaceContactBar
               phone={availability.org.contactPhone}
               email={availability.org.contactEmail}
@@ -146,30 +181,90 @@ export default function PublicBookingPage() {
     );
   }
 
-  const { org, rooms, bookedSlots } = availability;
-  const bookedSet = new Set(bookedSlots.map(s => `${s.deskId}:${s.date}`));
-  const allDesks = rooms.flatMap(r => r.desks);
-  const totalDesks = allDesks.length;
+  if (waitlistJoined) {
+    const formatDate = (date: string) =>
+      new Date(date + 'T00:00:00').toLocaleDateString('en-GB', { weekday: 'short', month: 'short', day: 'numeric' });
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-blue-50 to-white flex items-center justify-center p-4">
+        <div className="max-w-md w-full">
+          <div className="bg-white rounded-2xl shadow-lg border p-8 text-center">
+            <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-blue-100 mb-6">
+              <BellRing className="h-8 w-8 text-blue-600" />
+            </div>
+            <h1 className="text-2xl font-bold text-gray-900">You're on the waiting list</h1>
+            <p className="text-gray-500 mt-3">
+              We'll email you as soon as a desk at <span className="font-medium">{availability.org.name}</span> frees
+              up for {waitlistJoined.startDate === waitlistJoined.endDate
+                ? formatDate(waitlistJoined.startDate)
+                : `${formatDate(waitlistJoined.startDate)} - ${formatDate(waitlistJoined.endDate)}`}.
+              The link in the email lets you claim it for a limited time.
+            </p>
+            <SpaceContactBar
+              phone={availability.org.contactPhone}
+              email={availability.org.contactEmail}
+              telegram={availability.org.contactTelegram}
+              viberEnabled={availability.org.contactViberEnabled}
+              whatsappEnabled={availability.org.contactWhatsappEnabled}
+              className="mt-6 pt-6 border-t"
+            />
+          </div>
+          <PoweredByFooter />
+        </div>
+      </div>
+    );
+  }
 
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+  const { org, rooms, bookedSlots, blockedSlots } = availability;
+  const bookedSet = buildBookedSet(bookedSlots, blockedSlots);
+  const deskAttributes = collectDeskAttributes(rooms.flatMap(r => r.desks));
+  const allDesks = filterDesksByAttributes(rooms.flatMap(r => r.desks), requiredAttributes);
+
+  // Keep the person on one desk where possible and pack short stays. The
+  // same desks are submitted, so the quote below has their premiums.
+  const allocation = allocateDesks(allDesks, bookedSet, selectedDates, dayPart);
+  const roomOfDesk = new Map(rooms.flatMap(r => r.desks.map(d => [d.deskId, r.id] as const)));
+  // The selected days are priced as one stay, so length-of-stay discounts
+  // apply. submit_public_booking charges the same: shared/pricing.parity.test.ts
+  // checks it against quotePrice.
+  const quote = allocation.assignments.length > 0
+    ? quotePrice(org, {
+        plan: 'day_pass',
+        days: allocation.assignments.map(({ date, desk }) => ({ date, deskId: desk.deskId, roomId: roomOfDesk.get(desk.deskId) })),
+        dayPart,
+        customer: 'visitor',
+      })
+    : null;
+  const hasPricingRules = (org.pricingRules?.length ?? 0) > 0;
+  // The stripe-checkout function books one full day on any free desk at the
+  // flat day price, so it only takes spaces without pricing rules. Anything
+  // else is booked here and paid at the space.
+  const payOnline = org.stripePublicBookingPayments
+    && !hasPricingRules
+    && selectedDates.length === 1
+    && dayPart === 'full'
+    && requiredAttributes.length === 0;
+
+  // Midnight of the organization's "today", whatever the visitor's timezone
+  const today = new Date(todayString(org.timezone) + 'T00:00:00');
 
   const todayStr = formatLocalDate(today);
   const tomorrow = new Date(today);
   tomorrow.setDate(today.getDate() + 1);
   const tomorrowStr = formatLocalDate(tomorrow);
 
-  const todayAvailable = (availabilityMap[todayStr] ?? 0) > 0 && !isNonWorkingDay(todayStr, org.workingDays);
-  const tomorrowAvailable = (availabilityMap[tomorrowStr] ?? 0) > 0 && !isNonWorkingDay(tomorrowStr, org.workingDays);
-  const todayIsWorkingDay = !isNonWorkingDay(todayStr, org.workingDays);
-  const tomorrowIsWorkingDay = !isNonWorkingDay(tomorrowStr, org.workingDays);
+  const todayAvailable = (availabilityMap[todayStr] ?? 0) > 0 && !isNonWorkingDay(todayStr, org.workingDays, org.closures);
+  const tomorrowAvailable = (availabilityMap[tomorrowStr] ?? 0) > 0 && !isNonWorkingDay(tomorrowStr, org.workingDays, org.closures);
+  const todayIsWorkingDay = !isNonWorkingDay(todayStr, org.workingDays, org.closures);
+  // The waiting list form opens on the first day nobody can book
+  const firstSoldOut = soldOutDates(todayStr, formatLocalDate(maxDate), availabilityMap, org.workingDays, org.closures)[0] ?? todayStr;
+  const tomorrowIsWorkingDay = !isNonWorkingDay(tomorrowStr, org.workingDays, org.closures);
 
   const dates: { date: string; dayLabel: string; dateLabel: string; available: number }[] = [];
   for (let i = 0; i <= org.maxDaysAhead; i++) {
     const d = new Date(today);
     d.setDate(today.getDate() + i);
     const dateStr = formatLocalDate(d);
-    if (isNonWorkingDay(dateStr, org.workingDays)) continue;
+    if (isNonWorkingDay(dateStr, org.workingDays, org.closures)) continue;
     const available = availabilityMap[dateStr] ?? 0;
     if (available <= 0) continue;
     dates.push({
@@ -186,8 +281,45 @@ export default function PublicBookingPage() {
     );
   };
 
+  // Switching between full and half days keeps only dates still free for it
+  const changeDayPart = (next: DayPart) => {
+    const nextMap = next === 'full' ? fullDayMap : halfDayMaps[next];
+    setDayPart(next);
+    setSelectedDates(prev => prev.filter(d => (nextMap[d] ?? 0) > 0));
+  };
+
+  const toggleAttribute = (attribute: string) => {
+    const next = toggleDeskAttribute(requiredAttributes, attribute);
+    const maps = buildAvailabilityMap(availability, undefined, next);
+    const nextMap = dayPart === 'full' ? maps.availabilityMap : maps.halfDayMaps[dayPart];
+    setRequiredAttributes(next);
+    setSelectedDates(prev => prev.filter(d => (nextMap[d] ?? 0) > 0));
+  };
+
   const step = showContactForm ? 2 : 1;
 
+  // Someone else took the desk we picked between loading availability and
+  // submitting. The batch insert is one statement, so nothing was saved —
+  // reload availability and let the visitor pick again.
+  const handleDeskTaken = async (conflict: BookingConflictError) => {
+    const fresh = orgSlug ? await SupabaseDataStore.getPublicAvailability(orgSlug) : null;
+    if (fresh) setAvailability(fresh);
+    const freshMaps = fresh ? buildAvailabilityMap(fresh, undefined, requiredAttributes) : null;
+    const freshMap = !freshMaps ? availabilityMap : dayPart === 'full' ? freshMaps.availabilityMap : freshMaps.halfDayMaps[dayPart];
+    const formatDate = (date: string) =>
+      new Date(date + 'T00:00:00').toLocaleDateString('en-GB', { month: 'short', day: 'numeric' });
+
+    const soldOut = conflict.dates.filter(d => (freshMap[d] ?? 0) <= 0);
+    if (soldOut.length > 0) {
+      const remaining = selectedDates.filter(d => !soldOut.includes(d));
+      setSelectedDates(remaining);
+      if (remaining.length === 0) setShowContactForm(false);
+      setError(`Sorry, the last desk on ${soldOut.map(formatDate).join(', ')} just got taken. Please pick another date.`);
+    } else {
+      setError(`Sorry, the desk we picked for ${conflict.dates.map(formatDate).join(', ')} just got taken. Availability is refreshed — submit again to get another desk.`);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (selectedDates.length === 0 || !visitorName.trim()) {
@@ -206,8 +338,8 @@ export default function PublicBookingPage() {
     setPaymentCancelled(false);
 
     try {
-      if (availability.org.stripePublicBookingPayments && selectedDates.length === 1) {
-        // Paid path — single-date only (multi-date Stripe is a future task)
+      if (payOnline) {
+        // Paid path — single full day only (multi-date Stripe is a future task)
         const { data, error: fnError } = await supabaseClient.functions.invoke('stripe-checkout', {
           body: {
             orgSlug,
@@ -231,63 +363,27 @@ export default function PublicBookingPage() {
         return;
       }
 
-      // Free path — assign desk per date, batch insert, single owner email
-      const newAssignments: { date: string; deskId: string; deskLabel: string }[] = [];
-      for (const date of selectedDates) {
-        const desk = pickRandomAvailableDesk(allDesks, bookedSet, date);
-        if (!desk) {
-          setError(`Sorry, all desks are taken on ${date}. Please adjust your selection.`);
-          setSubmitting(false);
-          return;
-        }
-        bookedSet.add(`${desk.deskId}:${date}`);
-        newAssignments.push({ date, deskId: desk.deskId, deskLabel: desk.label });
+      // Free path — the desks picked above; the server prices and books them together
+      const { assignments, unassigned } = allocation;
+      if (unassigned.length > 0) {
+        setError(`Sorry, all desks are taken on ${unassigned[0]}. Please adjust your selection.`);
+        setSubmitting(false);
+        return;
       }
-
-      const title = [visitorPhone.trim(), visitorNotes.trim()].filter(Boolean).join(' | ') || null;
-      const { error: insertError } = await supabaseClient.from('desk_bookings').insert(
-        newAssignments.map(a => ({
-          desk_id: a.deskId,
-          date: a.date,
-          start_date: a.date,
-          end_date: a.date,
-          status: 'booked',
-          organization_id: org.id,
-          visitor_name: visitorName.trim(),
-          visitor_email: '',
-          visitor_phone: visitorPhone.trim() || null,
-          visitor_notes: visitorNotes.trim() || null,
-          person_name: visitorName.trim(),
-          title,
-          created_at: new Date().toISOString(),
-        }))
-      );
-      if (insertError) throw insertError;
-
-      // ONE owner notification email listing all dates
-      supabaseClient.functions.invoke('notify-public-booking-email', {
-        body: {
-          organizationId: org.id,
-          visitorName: visitorName.trim(),
-          visitorPhone: visitorPhone.trim() || null,
-          dates: newAssignments.map(a => ({ date: a.date, deskLabel: a.deskLabel })),
-          notes: visitorNotes.trim() || null,
-        },
-      }).catch(() => {});
-
-      // Telegram notification for first date
-      supabaseClient.functions.invoke('notify-public-booking', {
-        body: {
-          organization_id: org.id,
-          visitor_name: visitorName.trim(),
-          visitor_phone: visitorPhone.trim() || null,
-          desk_id: newAssignments[0].deskId,
-          date: newAssignments[0].date,
-          notes: newAssignments.length > 1 ? `${newAssignments.length} days booked` : (visitorNotes.trim() || null),
-        },
-      }).catch(() => {});
+      const newAssignments = assignments.map(({ date, desk }) => ({ date, deskId: desk.deskId, deskLabel: desk.label }));
+      const booked = await SupabaseDataStore.submitPublicBooking({
+        organizationId: org.id,
+        orgSlug: org.slug,
+        dayPart,
+        assignments: newAssignments,
+        visitorName: visitorName.trim(),
+        visitorPhone: visitorPhone.trim() || undefined,
+        visitorNotes: visitorNotes.trim() || undefined,
+      });
 
       setBookingAssignments(newAssignments);
+      setHeldUntil(booked.heldUntil);
+      setBookedPrice(booked.price > 0 ? { price: booked.price, currency: booked.currency } : null);
       setSubmitted(true);
 
       if (newAssignments.length === 1) {
@@ -296,6 +392,10 @@ export default function PublicBookingPage() {
           .catch(() => {});
       }
     } catch (err) {
+      if (err instanceof BookingConflictError) {
+        await handleDeskTaken(err);
+        return;
+      }
       console.error('Public booking error:', err);
       setError('Failed to submit booking. Please try again.');
     } finally {
@@ -335,14 +435,27 @@ export default function PublicBookingPage() {
             )}
 
             {/* Step 1: Date selection */}
-            {!showContactForm && (
+            {!showContactForm && !showWaitlist && (
               <div>
                 <h2 className="text-sm font-medium text-gray-500 uppercase tracking-wide mb-4">When do you want to come?</h2>
 
+                {(!!org.halfDayPrice || deskAttributes.length > 0) && (
+                  <div className="space-y-3 mb-3">
+                    {!!org.halfDayPrice && (
+                      <DayPartPicker value={dayPart} onChange={changeDayPart} />
+                    )}
+                    <DeskAttributePicker options={deskAttributes} selected={requiredAttributes} onToggle={toggleAttribute} />
+                  </div>
+                )}
+
                 {dates.length === 0 ? (
                   <div className="text-center py-8">
                     <CalendarCheck className="h-10 w-10 text-gray-300 mx-auto mb-3" />
-                    <p className="text-gray-500 text-sm">No available dates in the next {org.maxDaysAhead} days.</p>
+                    <p className="text-gray-500 text-sm">
+                      {requiredAttributes.length > 0
+                        ? `No desk with these features is free in the next ${org.maxDaysAhead} days.`
+                        : `No available dates in the next ${org.maxDaysAhead} days.`}
+                    </p>
                   </div>
                 ) : (
                   <div className="space-y-3">
@@ -410,6 +523,7 @@ export default function PublicBookingPage() {
                         today={today}
                         maxDate={maxDate}
                         workingDays={org.workingDays}
+                        closures={org.closures}
                         availabilityMap={availabilityMap}
                         onSelect={toggleDate}
                         onCancel={() => setShowCalendar(false)}
@@ -418,6 +532,12 @@ export default function PublicBookingPage() {
                       />
                     )}
 
+                    {error && (
+                      <div className="bg-red-50 border border-red-200 rounded-xl px-4 py-3">
+                        <p className="text-sm text-red-700">{error}</p>
+                      </div>
+                    )}
+
                     {selectedDates.length > 0 && (
                       <>
                         <div className="space-y-1.5">
@@ -443,9 +563,31 @@ export default function PublicBookingPage() {
                     )}
                   </div>
                 )}
+
+                <button
+                  onClick={() => { setShowWaitlist(true); setError(''); }}
+                  className="w-full flex items-center justify-center gap-2 mt-4 text-sm text-gray-500 hover:text-blue-600"
+                >
+                  <BellRing className="h-4 w-4" />
+                  Fully booked when you need a desk? Join the waiting list
+                </button>
               </div>
             )}
 
+            {showWaitlist && (
+              <PublicWaitlistForm
+                organizationId={org.id}
+                workingDays={org.workingDays}
+                closures={org.closures}
+                availabilityMap={availabilityMap}
+                defaultDate={firstSoldOut}
+                minDate={todayStr}
+                requiredAttributes={requiredAttributes}
+                onBack={() => setShowWaitlist(false)}
+                onJoined={setWaitlistJoined}
+              />
+            )}
+
             {/* Step 2: Contact form (desk auto-assigned) */}
             {showContactForm && (
               <div>
@@ -466,7 +608,9 @@ export default function PublicBookingPage() {
                           <p className="font-semibold text-blue-900 text-sm">
                             {info ? `${info.dayLabel}, ${info.dateLabel}` : dateStr}
                           </p>
-                          <p className="text-xs text-blue-600 mt-0.5">Desk will be assigned</p>
+                          <p className="text-xs text-blue-600 mt-0.5">
+                            {dayPart === 'full' ? 'Desk will be assigned' : `${DAY_PART_LABELS[dayPart]} · Desk will be assigned`}
+                          </p>
                         </div>
                         <button onClick={() => toggleDate(dateStr)} className="text-blue-300 hover:text-blue-500 text-xs ml-2">✕</button>
                       </div>
@@ -474,6 +618,21 @@ export default function PublicBookingPage() {
                   })}
                 </div>
 
+                {hasPricingRules && quote && (
+                  <div className="mb-5 rounded-xl border border-gray-200 px-4 py-3 text-sm space-y-1">
+                    {quote.lines.map(line => (
+                      <div key={line.ruleId ?? 'base'} className="flex justify-between gap-2 text-gray-600">
+                        <span>{line.label}</span>
+                        <span>{formatCurrency(line.amount, org.currency)}</span>
+                      </div>
+                    ))}
+                    <div className="flex justify-between gap-2 pt-1 border-t border-gray-100 font-semibold text-gray-900">
+                      <span>Total</span>
+                      <span>{formatCurrency(quote.price, org.currency)}</span>
+                    </div>
+                  </div>
+                )}
+
                 <h2 className="text-sm font-medium text-gray-500 uppercase tracking-wide mb-4">Your details</h2>
 
                 <form onSubmit={handleSubmit} className="space-y-4">
@@ -520,6 +679,12 @@ export default function PublicBookingPage() {
                     />
                   </div>
 
+                  {policyText && (
+                    <p className="text-xs text-gray-500 bg-gray-50 border border-gray-200 rounded-xl px-3.5 py-2.5">
+                      <span className="font-medium text-gray-700">Cancellation policy: </span>{policyText}
+                    </p>
+                  )}
+
                   <p className="text-xs text-gray-400">
                     By submitting, you agree that your contact details will be shared with the space manager for booking purposes.
                   </p>
@@ -538,10 +703,10 @@ export default function PublicBookingPage() {
                     {submitting ? (
                       <span className="flex items-center justify-center gap-2">
                         <Loader2 className="h-4 w-4 animate-spin" />
-                        {availability.org.stripePublicBookingPayments ? 'Redirecting to payment...' : 'Booking...'}
+                        {payOnline ? 'Redirecting to payment...' : 'Booking...'}
                       </span>
-                    ) : availability.org.stripePublicBookingPayments && selectedDates.length === 1 ? (
-                      `Pay ${formatCurrency(availability.org.defaultPricePerDay, availability.org.currency)} & Book`
+                    ) : payOnline ? (
+                      `Pay ${formatCurrency(org.defaultPricePerDay, availability.org.currency)} & Book`
                     ) : (
                       selectedDates.length > 1 ? `Book ${selectedDates.length} Days` : 'Book Desk'
                     )}
@@ -1,10 +1,14 @@
 import { useState, useMemo } from 'react';
 import RevenueDashboard from '@/components/revenue/RevenueDashboard';
 import RevenueChart from '@/components/revenue/RevenueChart';
+import BookingExportDialog from '@/components/bookings/BookingExportDialog';
+import { Button } from '@/components/ui/button';
 import { getMonthRange } from '@/lib/dateUtils';
+import { Download } from 'lucide-react';
 
 export default function RevenuePage() {
   const [monthOffset, setMonthOffset] = useState(0);
+  const [isExportOpen, setIsExportOpen] = useState(false);
   const currentMonth = useMemo(() => getMonthRange(monthOffset), [monthOffset]);
 
   const startDate = currentMonth[0]?.dateString;
@@ -12,7 +16,13 @@ export default function RevenuePage() {
 
   return (
     <div className="max-w-7xl mx-auto px-2 sm:px-6 lg:px-8 py-4 sm:py-8 overflow-x-hidden">
-      <h1 className="text-2xl font-bold text-gray-900 mb-6">Revenue Dashboard</h1>
+      <div className="flex items-center justify-between gap-4 mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Revenue Dashboard</h1>
+        <Button variant="outline" size="sm" onClick={() => setIsExportOpen(true)}>
+          <Download className="h-4 w-4 mr-2" />
+          Export
+        </Button>
+      </div>
       <RevenueChart />
       <div className="mt-6">
         <RevenueDashboard
@@ -22,6 +32,13 @@ export default function RevenuePage() {
           endDate={endDate}
         />
       </div>
+
+      <BookingExportDialog
+        isOpen={isExportOpen}
+        onClose={() => setIsExportOpen(false)}
+        defaultStartDate={startDate}
+        defaultEndDate={endDate}
+      />
     </div>
   );
 }
@@ -9,13 +9,14 @@ import { Switch } from '@/components/ui/switch';
 import { Checkbox } from '@/components/ui/checkbox';
 import { supabaseClient } from '@/lib/supabaseClient';
 import { useToast } from '@/hooks/use-toast';
-import { useQueryClient } from '@tanstack/react-query';
-import { useRenameRoom, useRenameDesk, useAddRoom, useSetRoomDeskCount, useMergeRooms } from '@/hooks/use-organization';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useDataStore } from '@/contexts/DataStoreContext';
+import { useRenameRoom, useRenameDesk, useUpdateDeskAttributes, useAddRoom, useSetRoomDeskCount, useMergeRooms } from '@/hooks/use-organization';
 import { useTelegramSettings, useConnectTelegram, useDisconnectTelegram, useToggleNotifications, useManualConnect, useToggleEmailNotifications } from '@/hooks/use-telegram';
 import { useCreateMeetingRoom, useUpdateMeetingRoom, useDeleteMeetingRoom } from '@/hooks/use-meeting-rooms';
-import { Building2, LayoutGrid, Save, Pencil, Plus, X, Bell, Send, Unplug, ChevronDown, Globe, Copy, Check, Upload, Trash2, RefreshCw, ImageIcon, DoorOpen, Mail, Phone, Package, CalendarDays, CalendarRange, Users, Shield, UserMinus, Loader2, AlertTriangle, FileText } from 'lucide-react';
+import { Building2, LayoutGrid, Save, Pencil, Plus, X, Bell, Send, Unplug, ChevronDown, Globe, Copy, Check, Upload, Trash2, RefreshCw, ImageIcon, DoorOpen, Mail, Phone, Package, CalendarDays, CalendarRange, Users, Shield, UserMinus, Loader2, AlertTriangle, FileText, History, Tag, CalendarOff, Scale, QrCode, Hourglass, ArrowRightLeft, Undo2, BadgePercent } from 'lucide-react';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
-import { Organization } from '@shared/schema';
+import { Organization, OrgClosure, BookingPolicy, PolicyFeeType, ImportKind, ImportSource, PricingRule, PricingRuleKind } from '@shared/schema';
 import { currencySymbols } from '@/lib/settings';
 import { useTeamMembersWithEmails, useGroupTeamMembers, useInviteManager, useRemoveManager } from '@/hooks/use-team-members';
 import { useManagerCalendarSettings, useRegenerateManagerCalendarToken, useUpdateManagerCalendarAlarm, buildCalendarFeedUrl, buildCalendarWebcalUrl, type CalendarFeedMode } from '@/hooks/use-calendar-sync';
@@ -26,7 +27,24 @@ import viberIcon from '@/assets/viber.svg?url';
 import whatsappIcon from '@/assets/whatsapp.svg?url';
 import { activeCurrencies, currencyLabels } from '@/lib/settings';
 import { DAY_LABELS } from '@/lib/workingDays';
+import { mergeClosures, sortClosures, validateClosure } from '@/lib/closures';
+import { HOLIDAY_SETS, getHolidaySet, holidayClosures } from '@/lib/holidaySets';
+import { formatDateRange, todayString } from '@/lib/dateUtils';
 import { groupDesksByRoom } from '@/lib/deskGrouping';
+import { SUGGESTED_DESK_ATTRIBUTES, collectDeskAttributes, normalizeDeskAttribute, toggleDeskAttribute } from '@/lib/deskAttributes';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useAuditLog } from '@/hooks/use-audit-log';
+import { AuditEntryList } from '@/components/shared/AuditTrail';
+import type { AuditLogFilter } from '@/lib/auditLog';
+import { describePolicy } from '@/lib/bookingPolicy';
+import { validatePricingRule } from '@shared/pricing';
+import { PRICING_CUSTOMER_LABELS, PRICING_RULE_KIND_LABELS, describePricingRule, newPricingRule } from '@/lib/pricingRules';
+import DeskQrCodesDialog from '@/components/bookings/DeskQrCodesDialog';
+import ImportBookingsDialog from '@/components/bookings/ImportBookingsDialog';
+import ImportMembersDialog from '@/components/members/ImportMembersDialog';
+import ImportInvoicesDialog from '@/components/invoices/ImportInvoicesDialog';
+import { useImportBatches, useRollbackImportBatch } from '@/hooks/use-import-batches';
+import { IMPORT_KIND_LABELS, IMPORT_SOURCE_LABELS, importBatchSummary, lastImportBatch } from '@/lib/migrationImport';
 
 function InlineEdit({
   value,
@@ -100,6 +118,11 @@ function OrgSettingsCard() {
   const [orgName, setOrgName] = useState(currentOrg?.name || '');
   const [currency, setCurrency] = useState(currentOrg?.currency || 'EUR');
   const [workingDays, setWorkingDays] = useState<number[]>(currentOrg?.workingDays || [1, 2, 3, 4, 5]);
+  const [timezone, setTimezone] = useState(currentOrg?.timezone || 'Europe/Sofia');
+  const timezoneOptions = useMemo(() => {
+    const zones = Intl.supportedValuesOf('timeZone');
+    return zones.includes(timezone) ? zones : [timezone, ...zones];
+  }, [timezone]);
 
   const toggleWorkingDay = (day: number) => {
     setWorkingDays(prev =>
@@ -110,6 +133,7 @@ function OrgSettingsCard() {
   const hasOrgChanges =
     orgName !== (currentOrg?.name || '') ||
     currency !== (currentOrg?.currency || 'EUR') ||
+    timezone !== (currentOrg?.timezone || 'Europe/Sofia') ||
     JSON.stringify(workingDays) !== JSON.stringify(currentOrg?.workingDays || [1, 2, 3, 4, 5]);
 
   const handleSave = async () => {
@@ -118,7 +142,7 @@ function OrgSettingsCard() {
     try {
       const { error } = await supabaseClient
         .from('organizations')
-        .update({ name: orgName, currency, working_days: workingDays })
+        .update({ name: orgName, currency, working_days: workingDays, timezone })
         .eq('id', currentOrg.id);
 
       if (error) throw error;
@@ -206,6 +230,22 @@ function OrgSettingsCard() {
             ))}
           </div>
         </div>
+        <div>
+          <Label>Timezone</Label>
+          <p className="text-xs text-gray-500 mb-2">
+            "Today", booking windows and meeting room hours follow this timezone for everyone.
+          </p>
+          <Select value={timezone} onValueChange={setTimezone}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="max-h-72">
+              {timezoneOptions.map(zone => (
+                <SelectItem key={zone} value={zone}>{zone.replace(/_/g, ' ')}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
         <LogoUploadInline orgId={currentOrg.id} logoUrl={currentOrg.logoUrl ?? null} />
         <Button onClick={handleSave} disabled={saving || !hasOrgChanges}>
           <Save className="mr-2 h-4 w-4" />
@@ -216,6 +256,185 @@ function OrgSettingsCard() {
   );
 }
 
+function ClosuresSettingsCard() {
+  const { currentOrg } = useOrganization();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [saving, setSaving] = useState(false);
+  const [label, setLabel] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [holidaySet, setHolidaySet] = useState(HOLIDAY_SETS[0].code);
+  const [holidayYear, setHolidayYear] = useState(String(new Date().getFullYear()));
+
+  const closures = useMemo(() => sortClosures(currentOrg?.closures ?? []), [currentOrg?.closures]);
+  const today = todayString();
+  const upcoming = closures.filter(c => c.endDate >= today);
+  const draftProblem = label || startDate || endDate
+    ? validateClosure({ label, startDate, endDate: endDate || startDate })
+    : null;
+
+  const saveClosures = async (next: OrgClosure[], message: string) => {
+    if (!currentOrg) return false;
+    setSaving(true);
+    try {
+      const { error } = await supabaseClient
+        .from('organizations')
+        .update({ closures: next })
+        .eq('id', currentOrg.id);
+      if (error) throw error;
+      queryClient.invalidateQueries({ queryKey: ['user-organizations'] });
+      // Closed days change occupancy and what can be booked
+      queryClient.invalidateQueries({ queryKey: ['monthly-stats'] });
+      queryClient.invalidateQueries({ queryKey: ['date-range-stats'] });
+      queryClient.invalidateQueries({ queryKey: ['revenue-history'] });
+      queryClient.invalidateQueries({ queryKey: ['next-dates'] });
+      toast({ title: 'Saved', description: message });
+      return true;
+    } catch {
+      toast({ title: 'Error', description: 'Failed to save closures.', variant: 'destructive' });
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    const closure: OrgClosure = {
+      id: `closure-${Date.now()}`,
+      label: label.trim(),
+      startDate,
+      endDate: endDate || startDate,
+      holidaySet: null,
+    };
+    if (validateClosure(closure)) return;
+    if (await saveClosures(sortClosures([...closures, closure]), `${closure.label} added.`)) {
+      setLabel('');
+      setStartDate('');
+      setEndDate('');
+    }
+  };
+
+  const handleImport = async () => {
+    const set = getHolidaySet(holidaySet);
+    const year = parseInt(holidayYear, 10);
+    if (!set || !year) return;
+    const { closures: next, added } = mergeClosures(closures, holidayClosures(set, year));
+    if (added === 0) {
+      toast({ title: 'Nothing to import', description: `${set.name} ${year} holidays are already on the calendar.` });
+      return;
+    }
+    await saveClosures(next, `${added} ${set.name} holidays for ${year} added.`);
+  };
+
+  const handleRemove = (id: string) => {
+    const removed = closures.find(c => c.id === id);
+    saveClosures(closures.filter(c => c.id !== id), `${removed?.label ?? 'Closure'} removed.`);
+  };
+
+  if (!currentOrg) return null;
+
+  const thisYear = new Date().getFullYear();
+
+  return (
+    <Card className="flex flex-col">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <CalendarOff className="h-5 w-5 text-blue-600" />
+          <CardTitle>Holidays &amp; Closures</CardTitle>
+        </div>
+        <CardDescription>
+          Days the whole space is shut. They can't be booked, are skipped by repeat bookings and
+          don't count towards occupancy.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label>Import public holidays</Label>
+          <div className="flex gap-2">
+            <Select value={holidaySet} onValueChange={setHolidaySet}>
+              <SelectTrigger className="flex-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {HOLIDAY_SETS.map(set => (
+                  <SelectItem key={set.code} value={set.code}>{set.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={holidayYear} onValueChange={setHolidayYear}>
+              <SelectTrigger className="w-24">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[thisYear, thisYear + 1].map(y => (
+                  <SelectItem key={y} value={String(y)}>{y}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={handleImport} disabled={saving}>
+              Import
+            </Button>
+          </div>
+          <p className="text-xs text-gray-500">
+            Substitute days off for holidays on a weekend aren't included — add them below.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="closureLabel">Add a closure</Label>
+          <Input
+            id="closureLabel"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="e.g. Summer break"
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} aria-label="First closed day" />
+            <Input type="date" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} aria-label="Last closed day" />
+          </div>
+          {draftProblem && <p className="text-xs text-red-600">{draftProblem}</p>}
+          <Button onClick={handleAdd} disabled={saving || !label || !startDate || !!draftProblem}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Closure
+          </Button>
+        </div>
+
+        <div className="border-t pt-4">
+          <Label>Upcoming</Label>
+          {upcoming.length === 0 ? (
+            <p className="text-sm text-gray-500 mt-1">No upcoming closures.</p>
+          ) : (
+            <ul className="mt-2 divide-y max-h-64 overflow-y-auto">
+              {upcoming.map(c => (
+                <li key={c.id} className="flex items-center justify-between gap-2 py-1.5">
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium text-gray-900 truncate">{c.label}</div>
+                    <div className="text-xs text-gray-500">
+                      {formatDateRange(c.startDate, c.endDate)}
+                      {c.holidaySet && <span className="ml-1.5 text-gray-400">· {c.holidaySet}</span>}
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 shrink-0"
+                    onClick={() => handleRemove(c.id)}
+                    disabled={saving}
+                    aria-label={`Remove ${c.label}`}
+                  >
+                    <X className="h-4 w-4 text-gray-400" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
 function BillingSettingsCard() {
   const { currentOrg, currentRole } = useOrganization();
   const { toast } = useToast();
@@ -468,17 +687,88 @@ function BillingSettingsCard() {
   );
 }
 
+function DeskAttributesPopover({
+  attributes,
+  options,
+  onChange,
+}: {
+  attributes: string[];
+  /** Attributes offered as one-click toggles. */
+  options: string[];
+  onChange: (attributes: string[]) => void;
+}) {
+  const [custom, setCustom] = useState('');
+  const has = (attribute: string) => attributes.some((a) => a.toLowerCase() === attribute.toLowerCase());
+
+  const addCustom = () => {
+    const attribute = normalizeDeskAttribute(custom);
+    if (attribute && !has(attribute)) onChange([...attributes, attribute]);
+    setCustom('');
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className={`flex items-center gap-0.5 ${attributes.length > 0 ? 'text-blue-600' : 'text-gray-400 hover:text-gray-600'}`}
+          title={attributes.length > 0 ? attributes.join(', ') : 'Add desk attributes'}
+        >
+          <Tag className="h-3 w-3" />
+          {attributes.length > 0 && <span className="text-[10px]">{attributes.length}</span>}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-3" align="start">
+        <p className="text-xs font-medium text-gray-700 mb-2">Desk attributes</p>
+        <div className="flex flex-wrap gap-1.5">
+          {Array.from(new Set([...options, ...attributes])).map((attribute) => (
+            <button
+              key={attribute}
+              type="button"
+              onClick={() => onChange(toggleDeskAttribute(attributes, attribute))}
+              className={`px-2 py-0.5 rounded-full border text-xs transition-colors ${
+                has(attribute)
+                  ? 'border-blue-400 bg-blue-50 text-blue-700'
+                  : 'border-gray-200 text-gray-600 hover:border-gray-300'
+              }`}
+            >
+              {attribute}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-1.5 mt-3">
+          <Input
+            value={custom}
+            onChange={(e) => setCustom(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); addCustom(); } }}
+            placeholder="Other, e.g. Ergonomic chair"
+            className="h-7 text-xs"
+          />
+          <Button size="sm" variant="outline" className="h-7 px-2" onClick={addCustom} disabled={!normalizeDeskAttribute(custom)}>
+            <Plus className="h-3 w-3" />
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
 function RoomsSettingsCard() {
   const { currentOrg, rooms, desks } = useOrganization();
   const { toast } = useToast();
   const renameRoom = useRenameRoom();
   const renameDesk = useRenameDesk();
+  const updateDeskAttributes = useUpdateDeskAttributes();
   const addRoom = useAddRoom();
   const setRoomDeskCount = useSetRoomDeskCount();
   const mergeRooms = useMergeRooms();
 
   // Precompute desks-per-room in O(n) instead of filtering inside rooms.map() which was O(rooms × desks).
   const desksByRoom = useMemo(() => groupDesksByRoom(desks), [desks]);
+  const attributeOptions = useMemo(
+    () => collectDeskAttributes([{ attributes: [...SUGGESTED_DESK_ATTRIBUTES] }, ...desks]),
+    [desks],
+  );
 
   const [addingRoom, setAddingRoom] = useState(false);
   const [mergeDialogOpen, setMergeDialogOpen] = useState(false);
@@ -491,6 +781,7 @@ function RoomsSettingsCard() {
   // Draft state for Rooms & Desks (buffered until Save)
   const [draftRoomNames, setDraftRoomNames] = useState<Record<string, string>>({});
   const [draftDeskLabels, setDraftDeskLabels] = useState<Record<string, string>>({});
+  const [draftDeskAttributes, setDraftDeskAttributes] = useState<Record<string, string[]>>({});
   const [draftDeskCounts, setDraftDeskCounts] = useState<Record<string, number>>({});
   const [pendingNewRooms, setPendingNewRooms] = useState<Array<{ name: string; deskCount: number }>>([]);
   const [savingRooms, setSavingRooms] = useState(false);
@@ -498,6 +789,7 @@ function RoomsSettingsCard() {
   const hasRoomChanges =
     Object.keys(draftRoomNames).length > 0 ||
     Object.keys(draftDeskLabels).length > 0 ||
+    Object.keys(draftDeskAttributes).length > 0 ||
     Object.keys(draftDeskCounts).length > 0 ||
     pendingNewRooms.length > 0;
 
@@ -525,6 +817,18 @@ function RoomsSettingsCard() {
     }
   };
 
+  const handleDraftDeskAttributes = (deskId: string, attributes: string[]) => {
+    const original = desks.find((d) => d.id === deskId);
+    const unchanged = original
+      && original.attributes.length === attributes.length
+      && original.attributes.every((a) => attributes.includes(a));
+    if (unchanged) {
+      setDraftDeskAttributes((prev) => { const next = { ...prev }; delete next[deskId]; return next; });
+    } else {
+      setDraftDeskAttributes((prev) => ({ ...prev, [deskId]: attributes }));
+    }
+  };
+
   const handleDraftDeskCountChange = (roomId: string, targetCount: number) => {
     const roomDesks = desksByRoom.get(roomId) ?? [];
     if (targetCount === roomDesks.length) {
@@ -592,6 +896,15 @@ function RoomsSettingsCard() {
         );
       }
 
+      // Desk attributes
+      for (const [deskId, attributes] of Object.entries(draftDeskAttributes)) {
+        promises.push(
+          new Promise((resolve, reject) =>
+            updateDeskAttributes.mutate({ deskId, attributes }, { onSuccess: () => resolve(), onError: reject })
+          )
+        );
+      }
+
       // Desk count changes
       for (const [roomId, targetCount] of Object.entries(draftDeskCounts)) {
         const room = rooms.find((r) => r.id === roomId);
@@ -636,6 +949,7 @@ function RoomsSettingsCard() {
       // Clear draft state
       setDraftRoomNames({});
       setDraftDeskLabels({});
+      setDraftDeskAttributes({});
       setDraftDeskCounts({});
       setPendingNewRooms([]);
       toast({ title: 'Rooms & Desks Saved', description: 'All changes have been applied.' });
@@ -655,7 +969,7 @@ function RoomsSettingsCard() {
           <LayoutGrid className="h-5 w-5 text-blue-600" />
           <CardTitle>Rooms & Desks</CardTitle>
         </div>
-        <CardDescription>Click any name to rename it. Change desk counts by editing the number.</CardDescription>
+        <CardDescription>Click any name to rename it. Change desk counts by editing the number. Tag desks with attributes like "Dual monitor" to filter the calendar.</CardDescription>
       </CardHeader>
       <CardContent className="flex flex-col flex-1">
         <div className="space-y-3 flex-1">
@@ -682,13 +996,18 @@ function RoomsSettingsCard() {
                   {roomDesks.map((desk) => (
                     <div
                       key={desk.id}
-                      className="px-2 py-1 bg-white border rounded text-xs text-gray-600"
+                      className="flex items-center gap-1.5 px-2 py-1 bg-white border rounded text-xs text-gray-600"
                     >
                       <InlineEdit
                         value={draftDeskLabels[desk.id] ?? desk.label}
                         onSave={(newLabel) => handleDraftDeskRename(desk.id, newLabel)}
                         className="text-xs"
                       />
+                      <DeskAttributesPopover
+                        attributes={draftDeskAttributes[desk.id] ?? desk.attributes}
+                        options={attributeOptions}
+                        onChange={(attributes) => handleDraftDeskAttributes(desk.id, attributes)}
+                      />
                     </div>
                   ))}
                 </div>
@@ -843,6 +1162,7 @@ export default function SettingsPage() {
         <OrgSettingsCard />
         <SpaceContactCard orgId={currentOrg.id} org={currentOrg} isAdmin={isAdmin} />
         <BillingSettingsCard />
+        <ClosuresSettingsCard />
       </div>
     </div>
   );
@@ -1918,12 +2238,18 @@ function PublicBookingCard({
   isAdmin,
   enabled,
   maxDaysAhead,
+  visitorChangesEnabled,
+  visitorChangeCutoffHours,
+  visitorMaxReschedules,
 }: {
   orgId: string;
   orgSlug: string;
   isAdmin: boolean;
   enabled: boolean;
   maxDaysAhead: number;
+  visitorChangesEnabled: boolean;
+  visitorChangeCutoffHours: number;
+  visitorMaxReschedules: number;
 }) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -1931,17 +2257,27 @@ function PublicBookingCard({
   const isTelegramConnected = !!telegramSettings?.telegramChatId && telegramSettings?.enabled;
   const [isEnabled, setIsEnabled] = useState(enabled);
   const [days, setDays] = useState(String(maxDaysAhead));
+  const [changesEnabled, setChangesEnabled] = useState(visitorChangesEnabled);
+  const [cutoffHours, setCutoffHours] = useState(String(visitorChangeCutoffHours));
+  const [maxReschedules, setMaxReschedules] = useState(String(visitorMaxReschedules));
   const [saving, setSaving] = useState(false);
   const [copied, setCopied] = useState(false);
 
   useEffect(() => {
     setIsEnabled(enabled);
     setDays(String(maxDaysAhead));
-  }, [enabled, maxDaysAhead]);
+    setChangesEnabled(visitorChangesEnabled);
+    setCutoffHours(String(visitorChangeCutoffHours));
+    setMaxReschedules(String(visitorMaxReschedules));
+  }, [enabled, maxDaysAhead, visitorChangesEnabled, visitorChangeCutoffHours, visitorMaxReschedules]);
 
   const bookingUrl = `${window.location.origin}/book/${orgSlug}`;
 
-  const hasChanges = isEnabled !== enabled || days !== String(maxDaysAhead);
+  const hasChanges = isEnabled !== enabled
+    || days !== String(maxDaysAhead)
+    || changesEnabled !== visitorChangesEnabled
+    || cutoffHours !== String(visitorChangeCutoffHours)
+    || maxReschedules !== String(visitorMaxReschedules);
 
   const handleSave = async () => {
     setSaving(true);
@@ -1951,6 +2287,9 @@ function PublicBookingCard({
         .update({
           public_booking_enabled: isEnabled,
           public_booking_max_days_ahead: parseInt(days) || 14,
+          visitor_changes_enabled: changesEnabled,
+          visitor_change_cutoff_hours: Math.max(0, parseInt(cutoffHours) || 0),
+          visitor_max_reschedules: Math.max(0, parseInt(maxReschedules) || 0),
         })
         .eq('id', orgId);
 
@@ -2030,6 +2369,49 @@ function PublicBookingCard({
               </>
             )}
 
+            <div className="border-t pt-4 space-y-3">
+              <div className="flex items-center gap-3">
+                <Switch
+                  id="visitor-changes-toggle"
+                  checked={changesEnabled}
+                  onCheckedChange={setChangesEnabled}
+                  className="data-[state=unchecked]:bg-gray-300"
+                />
+                <Label htmlFor="visitor-changes-toggle">Let visitors cancel or move their booking</Label>
+              </div>
+              <p className="text-xs text-gray-500">
+                From the booking's share link. You get a Telegram and email notice for every change, flagged when a paid booking needs a refund.
+              </p>
+              {changesEnabled && (
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <Label htmlFor="visitor-cutoff">Cutoff (hours before)</Label>
+                    <Input
+                      id="visitor-cutoff"
+                      type="number"
+                      min="0"
+                      max="720"
+                      value={cutoffHours}
+                      onChange={(e) => setCutoffHours(e.target.value)}
+                      className="w-32"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="visitor-reschedules">Max reschedules</Label>
+                    <Input
+                      id="visitor-reschedules"
+                      type="number"
+                      min="0"
+                      max="10"
+                      value={maxReschedules}
+                      onChange={(e) => setMaxReschedules(e.target.value)}
+                      className="w-32"
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+
             <Button onClick={handleSave} disabled={saving || !hasChanges}>
               <Save className="mr-2 h-4 w-4" />
               {saving ? 'Saving...' : 'Save Changes'}
@@ -2594,9 +2976,13 @@ export function SettingsIntegrationsPage() {
           isAdmin={isAdmin}
           enabled={currentOrg.publicBookingEnabled}
           maxDaysAhead={currentOrg.publicBookingMaxDaysAhead}
+          visitorChangesEnabled={currentOrg.visitorChangesEnabled}
+          visitorChangeCutoffHours={currentOrg.visitorChangeCutoffHours}
+          visitorMaxReschedules={currentOrg.visitorMaxReschedules}
         />
         <StripeIntegrationCard org={currentOrg} isAdmin={isAdmin} />
         <CalendarSyncCard orgId={currentOrg.id} orgName={currentOrg.name} />
+        {isAdmin && <MigrationImportCard />}
         {COMING_SOON_INTEGRATIONS.map((item) => (
           <ComingSoonCard key={item.name} {...item} />
         ))}
@@ -2605,14 +2991,110 @@ export function SettingsIntegrationsPage() {
   );
 }
 
+function MigrationImportCard() {
+  const dataStore = useDataStore();
+  const [source, setSource] = useState<ImportSource>('nexudus');
+  const [openKind, setOpenKind] = useState<ImportKind | null>(null);
+  const { data: batches = [] } = useImportBatches();
+  const rollback = useRollbackImportBatch();
+  const lastBatch = lastImportBatch(batches);
+
+  const { data: clients = [] } = useQuery({
+    queryKey: ['clients'],
+    queryFn: () => dataStore.getClients!(),
+    enabled: openKind === 'members' && !!dataStore.getClients,
+  });
+
+  const dialogProps = (kind: ImportKind) => ({
+    open: openKind === kind,
+    onOpenChange: (open: boolean) => setOpenKind(open ? kind : null),
+    source,
+  });
+
+  return (
+    <Card className="flex flex-col">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <ArrowRightLeft className="h-5 w-5 text-indigo-600" />
+          <CardTitle>Move from another tool</CardTitle>
+        </div>
+        <CardDescription>
+          Bring members, bookings and invoices over from a CSV export. Columns are matched to the tool's export for you, and you review every row before anything is saved.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col flex-1">
+        <div className="space-y-4 flex-1">
+          <div>
+            <Label>Exported from</Label>
+            <Select value={source} onValueChange={(v) => setSource(v as ImportSource)}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(IMPORT_SOURCE_LABELS).map(([key, label]) => (
+                  <SelectItem key={key} value={key}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(IMPORT_KIND_LABELS) as ImportKind[]).map((kind) => (
+              <Button key={kind} variant="outline" onClick={() => setOpenKind(kind)}>
+                <Upload className="mr-2 h-4 w-4" />
+                {IMPORT_KIND_LABELS[kind]}
+              </Button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500">
+            Import members first so bookings and invoices can be linked to them.
+          </p>
+        </div>
+        {lastBatch && (
+          <div className="mt-4 pt-4 border-t flex items-center justify-between gap-3">
+            <p className="text-sm text-gray-600">
+              Last import: {importBatchSummary(lastBatch)},{' '}
+              {new Date(lastBatch.createdAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+            </p>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="outline" size="sm" disabled={rollback.isPending}>
+                  {rollback.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Undo2 className="mr-2 h-4 w-4" />}
+                  Roll back
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Roll back the last import?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    This deletes the {importBatchSummary(lastBatch)}. Bookings changed since the import are kept.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={() => rollback.mutate(lastBatch)}>Roll back</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        )}
+      </CardContent>
+      <ImportMembersDialog {...dialogProps('members')} existingClients={clients} />
+      <ImportBookingsDialog {...dialogProps('bookings')} />
+      <ImportInvoicesDialog {...dialogProps('invoices')} />
+    </Card>
+  );
+}
+
 function DayPassPlanCard() {
   const { currentOrg } = useOrganization();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [price, setPrice] = useState(currentOrg?.defaultPricePerDay?.toString() || '8');
+  const [halfDayPrice, setHalfDayPrice] = useState(currentOrg?.halfDayPrice?.toString() ?? '');
   const [saving, setSaving] = useState(false);
 
-  const hasChanges = price !== (currentOrg?.defaultPricePerDay?.toString() || '8');
+  const hasChanges = price !== (currentOrg?.defaultPricePerDay?.toString() || '8')
+    || halfDayPrice !== (currentOrg?.halfDayPrice?.toString() ?? '');
 
   const handleSave = async () => {
     if (!currentOrg) return;
@@ -2620,7 +3102,11 @@ function DayPassPlanCard() {
     try {
       const { error } = await supabaseClient
         .from('organizations')
-        .update({ default_price_per_day: parseFloat(price) || 0 })
+        .update({
+          default_price_per_day: parseFloat(price) || 0,
+          // Empty or zero turns half-day passes off
+          half_day_price: parseFloat(halfDayPrice) > 0 ? parseFloat(halfDayPrice) : null,
+        })
         .eq('id', currentOrg.id);
       if (error) throw error;
       queryClient.invalidateQueries({ queryKey: ['user-organizations'] });
@@ -2656,6 +3142,605 @@ function DayPassPlanCard() {
               onChange={(e) => setPrice(e.target.value)}
             />
           </div>
+          <div>
+            <Label htmlFor="halfDayPrice">Half-day price ({currentOrg.currency})</Label>
+            <Input
+              id="halfDayPrice"
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="Not offered"
+              value={halfDayPrice}
+              onChange={(e) => setHalfDayPrice(e.target.value)}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Price for a morning or afternoon at a desk. Leave empty to sell full days only.
+            </p>
+          </div>
+        </div>
+        <div className="mt-4 pt-4 border-t">
+          <Button onClick={handleSave} disabled={saving || !hasChanges}>
+            <Save className="mr-2 h-4 w-4" />
+            {saving ? 'Saving...' : 'Save Changes'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function CheckInSettingsCard() {
+  const { currentOrg, legacyDesks } = useOrganization();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [releaseTime, setReleaseTime] = useState(currentOrg?.autoReleaseTime ?? '');
+  const [saving, setSaving] = useState(false);
+  const [showQrCodes, setShowQrCodes] = useState(false);
+
+  useEffect(() => {
+    setReleaseTime(currentOrg?.autoReleaseTime ?? '');
+  }, [currentOrg?.autoReleaseTime]);
+
+  const hasChanges = releaseTime !== (currentOrg?.autoReleaseTime ?? '');
+
+  const handleSave = async () => {
+    if (!currentOrg) return;
+    setSaving(true);
+    try {
+      const { error } = await supabaseClient
+        .from('organizations')
+        // Empty turns auto-release off
+        .update({ auto_release_time: releaseTime || null })
+        .eq('id', currentOrg.id);
+      if (error) throw error;
+      queryClient.invalidateQueries({ queryKey: ['user-organizations'] });
+      toast({ title: 'Saved', description: releaseTime ? `Unchecked day passes are released at ${releaseTime}.` : 'Auto-release turned off.' });
+    } catch {
+      toast({ title: 'Error', description: 'Failed to save.', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!currentOrg) return null;
+
+  return (
+    <Card className="flex flex-col">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <QrCode className="h-5 w-5 text-blue-600" />
+          <CardTitle>Check-in</CardTitle>
+        </div>
+        <CardDescription>
+          People check in at the front desk, from their booking link or by scanning the QR code on their desk.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col flex-1">
+        <div className="space-y-4 flex-1">
+          <div>
+            <Label htmlFor="autoReleaseTime">Release unchecked day passes at</Label>
+            <Input
+              id="autoReleaseTime"
+              type="time"
+              value={releaseTime}
+              onChange={(e) => setReleaseTime(e.target.value)}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Day-pass desks nobody checked in to by then are freed to sell again. Members' plans are kept.
+              Leave empty to keep every desk all day.
+            </p>
+          </div>
+          <Button variant="outline" onClick={() => setShowQrCodes(true)} disabled={legacyDesks.length === 0}>
+            <QrCode className="mr-2 h-4 w-4" />
+            Desk QR codes
+          </Button>
+        </div>
+        <div className="mt-4 pt-4 border-t">
+          <Button onClick={handleSave} disabled={saving || !hasChanges}>
+            <Save className="mr-2 h-4 w-4" />
+            {saving ? 'Saving...' : 'Save Changes'}
+          </Button>
+        </div>
+      </CardContent>
+      <DeskQrCodesDialog
+        isOpen={showQrCodes}
+        onClose={() => setShowQrCodes(false)}
+        orgSlug={currentOrg.slug}
+        desks={legacyDesks}
+      />
+    </Card>
+  );
+}
+
+function HoldSettingsCard() {
+  const { currentOrg } = useOrganization();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const saved = currentOrg?.publicHoldHours != null ? String(currentOrg.publicHoldHours) : '';
+  const [holdHours, setHoldHours] = useState(saved);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setHoldHours(saved);
+  }, [saved]);
+
+  const hasChanges = holdHours !== saved;
+  const parsed = holdHours === '' ? null : Number(holdHours);
+  const isValid = parsed === null || (Number.isInteger(parsed) && parsed > 0);
+
+  const handleSave = async () => {
+    if (!currentOrg || !isValid) return;
+    setSaving(true);
+    try {
+      const { error } = await supabaseClient
+        .from('organizations')
+        // Empty keeps public bookings until staff remove them
+        .update({ public_hold_hours: parsed })
+        .eq('id', currentOrg.id);
+      if (error) throw error;
+      queryClient.invalidateQueries({ queryKey: ['user-organizations'] });
+      toast({ title: 'Saved', description: parsed ? `Unpaid public bookings are held for ${parsed} hours.` : 'Public bookings are no longer held.' });
+    } catch {
+      toast({ title: 'Error', description: 'Failed to save.', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!currentOrg) return null;
+
+  return (
+    <Card className="flex flex-col">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Hourglass className="h-5 w-5 text-orange-600" />
+          <CardTitle>Holds</CardTitle>
+        </div>
+        <CardDescription>
+          A hold keeps a desk for someone until a set time. If it isn't paid by then, the desk is released and you are notified.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col flex-1">
+        <div className="space-y-4 flex-1">
+          <div>
+            <Label htmlFor="publicHoldHours">Hold public bookings paid at the space for (hours)</Label>
+            <Input
+              id="publicHoldHours"
+              type="number"
+              min="1"
+              step="1"
+              value={holdHours}
+              onChange={(e) => setHoldHours(e.target.value)}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Also the default length of holds placed from the booking form. Leave empty to keep public bookings until you remove them.
+            </p>
+          </div>
+        </div>
+        <div className="mt-4 pt-4 border-t">
+          <Button onClick={handleSave} disabled={saving || !hasChanges || !isValid}>
+            <Save className="mr-2 h-4 w-4" />
+            {saving ? 'Saving...' : 'Save Changes'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function PricingRulesCard({ isAdmin }: { isAdmin: boolean }) {
+  const { currentOrg, rooms, desks } = useOrganization();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const saved = currentOrg?.pricingRules ?? [];
+  const [rules, setRules] = useState<PricingRule[]>(saved);
+  const [editing, setEditing] = useState<PricingRule | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setRules(currentOrg?.pricingRules ?? []);
+    setEditing(null);
+  }, [currentOrg?.pricingRules]);
+
+  const hasChanges = JSON.stringify(rules) !== JSON.stringify(saved);
+  const editingError = editing ? validatePricingRule(editing) : null;
+
+  const targetName = (rule: PricingRule) => {
+    if (rule.roomIds?.length) return rooms.find(r => r.id === rule.roomIds![0])?.name;
+    if (rule.deskIds?.length) return desks.find(d => d.deskId === rule.deskIds![0])?.label;
+    return undefined;
+  };
+  const targetValue = (rule: PricingRule) =>
+    rule.roomIds?.length ? `room:${rule.roomIds[0]}` : rule.deskIds?.length ? `desk:${rule.deskIds[0]}` : '';
+
+  const update = (changes: Partial<PricingRule>) => setEditing(prev => (prev ? { ...prev, ...changes } : prev));
+
+  const handleAddRule = () => {
+    if (!editing || editingError) return;
+    setRules(prev => {
+      const exists = prev.some(r => r.id === editing.id);
+      return exists ? prev.map(r => (r.id === editing.id ? editing : r)) : [...prev, editing];
+    });
+    setEditing(null);
+  };
+
+  const handleSave = async () => {
+    if (!currentOrg) return;
+    setSaving(true);
+    try {
+      const { error } = await supabaseClient
+        .from('organizations')
+        .update({ pricing_rules: rules })
+        .eq('id', currentOrg.id);
+      if (error) throw error;
+      queryClient.invalidateQueries({ queryKey: ['user-organizations'] });
+      toast({ title: 'Saved', description: 'Pricing rules updated.' });
+    } catch {
+      toast({ title: 'Error', description: 'Failed to save.', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!currentOrg) return null;
+
+  return (
+    <Card className="flex flex-col">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <BadgePercent className="h-5 w-5 text-emerald-600" />
+          <CardTitle>Pricing Rules</CardTitle>
+        </div>
+        <CardDescription>
+          Adjust the plan prices by weekday, season, room or desk, length of stay and member or visitor. Bookings, the public booking page and online payments all use them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col flex-1">
+        <div className="space-y-4 flex-1">
+          {rules.length === 0 && !editing && (
+            <p className="text-sm text-gray-500">No rules yet. Every booking is charged the plan price.</p>
+          )}
+          {rules.length > 0 && (
+            <ul className="divide-y border rounded-md">
+              {rules.map((rule) => (
+                <li key={rule.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">{rule.label}</p>
+                    <p className="text-xs text-gray-500 truncate">{describePricingRule(rule, currentOrg.currency, targetName(rule))}</p>
+                  </div>
+                  {isAdmin && (
+                    <div className="flex items-center gap-1 shrink-0">
+                      <Button variant="ghost" size="sm" onClick={() => setEditing(rule)} aria-label={`Edit ${rule.label}`}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setRules(prev => prev.filter(r => r.id !== rule.id))}
+                        aria-label={`Remove ${rule.label}`}
+                      >
+                        <Trash2 className="h-4 w-4 text-red-500" />
+                      </Button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {editing && (
+            <div className="space-y-3 rounded-md border bg-gray-50 p-3">
+              <p className="text-sm font-medium text-gray-900">{PRICING_RULE_KIND_LABELS[editing.kind]}</p>
+              <div>
+                <Label htmlFor="pricingRuleLabel">Name</Label>
+                <Input
+                  id="pricingRuleLabel"
+                  value={editing.label}
+                  placeholder={editing.kind === 'day_rate' ? 'Weekend rate' : editing.kind === 'season' ? 'Summer' : ''}
+                  onChange={(e) => update({ label: e.target.value })}
+                />
+              </div>
+
+              {editing.kind === 'day_rate' && (
+                <div>
+                  <Label>Days</Label>
+                  <div className="flex flex-wrap gap-1.5 mt-1">
+                    {[1, 2, 3, 4, 5, 6, 7].map((day) => {
+                      const active = editing.weekdays?.includes(day);
+                      return (
+                        <Button
+                          key={day}
+                          type="button"
+                          size="sm"
+                          variant={active ? 'default' : 'outline'}
+                          onClick={() => update({
+                            weekdays: active
+                              ? (editing.weekdays ?? []).filter(d => d !== day)
+                              : [...(editing.weekdays ?? []), day].sort((a, b) => a - b),
+                          })}
+                        >
+                          {DAY_LABELS[day]}
+                        </Button>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
+              {editing.kind === 'season' && (
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <Label htmlFor="pricingRuleStart">From</Label>
+                    <Input id="pricingRuleStart" type="date" value={editing.startDate ?? ''} onChange={(e) => update({ startDate: e.target.value })} />
+                  </div>
+                  <div>
+                    <Label htmlFor="pricingRuleEnd">To</Label>
+                    <Input id="pricingRuleEnd" type="date" value={editing.endDate ?? ''} onChange={(e) => update({ endDate: e.target.value })} />
+                  </div>
+                </div>
+              )}
+
+              {editing.kind === 'premium' && (
+                <div>
+                  <Label>Room or desk</Label>
+                  <Select
+                    value={targetValue(editing)}
+                    onValueChange={(v) => {
+                      const [type, id] = [v.slice(0, v.indexOf(':')), v.slice(v.indexOf(':') + 1)];
+                      update(type === 'room' ? { roomIds: [id], deskIds: [] } : { roomIds: [], deskIds: [id] });
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Pick a room or desk" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {rooms.map((room) => (
+                        <SelectItem key={room.id} value={`room:${room.id}`}>{room.name} (whole room)</SelectItem>
+                      ))}
+                      {desks.map((desk) => (
+                        <SelectItem key={desk.id} value={`desk:${desk.deskId}`}>
+                          {rooms.find(r => r.id === desk.roomId)?.name} · {desk.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {editing.kind === 'long_stay' && (
+                <div>
+                  <Label htmlFor="pricingRuleMinDays">From (days)</Label>
+                  <Input
+                    id="pricingRuleMinDays"
+                    type="number"
+                    min="2"
+                    step="1"
+                    value={editing.minDays ?? ''}
+                    onChange={(e) => update({ minDays: Math.round(Number(e.target.value)) || undefined })}
+                  />
+                </div>
+              )}
+
+              {editing.kind === 'customer_rate' && (
+                <div>
+                  <Label>Applies to</Label>
+                  <Select value={editing.customer ?? 'member'} onValueChange={(v) => update({ customer: v as PricingRule['customer'] })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(PRICING_CUSTOMER_LABELS).map(([key, label]) => (
+                        <SelectItem key={key} value={key}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <div>
+                <Label htmlFor="pricingRuleAmount">
+                  {editing.kind === 'day_rate' ? `Price per day (${currentOrg.currency})` : 'Adjustment (negative for a discount)'}
+                </Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="pricingRuleAmount"
+                    type="number"
+                    step={editing.adjustmentType === 'percent' ? '1' : '0.01'}
+                    value={Number.isFinite(editing.amount) ? editing.amount : ''}
+                    onChange={(e) => update({ amount: e.target.value === '' ? NaN : Number(e.target.value) })}
+                  />
+                  {editing.kind !== 'day_rate' && (
+                    <Select value={editing.adjustmentType} onValueChange={(v) => update({ adjustmentType: v as PolicyFeeType })}>
+                      <SelectTrigger className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="percent">% of price</SelectItem>
+                        <SelectItem value="fixed">{currentOrg.currency} a day</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+              </div>
+
+              {editingError && <p className="text-xs text-gray-500">{editingError}</p>}
+              <div className="flex gap-2">
+                <Button size="sm" onClick={handleAddRule} disabled={!!editingError}>
+                  <Check className="mr-1.5 h-4 w-4" />
+                  {rules.some(r => r.id === editing.id) ? 'Update rule' : 'Add rule'}
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+              </div>
+            </div>
+          )}
+
+          {isAdmin && !editing && (
+            <Select value="" onValueChange={(v) => setEditing(newPricingRule(v as PricingRuleKind))}>
+              <SelectTrigger className="w-56">
+                <Plus className="h-4 w-4 mr-1" />
+                <SelectValue placeholder="Add a rule" />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(PRICING_RULE_KIND_LABELS).map(([key, label]) => (
+                  <SelectItem key={key} value={key}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+        <div className="mt-4 pt-4 border-t">
+          <Button onClick={handleSave} disabled={!isAdmin || saving || !hasChanges || !!editing}>
+            <Save className="mr-2 h-4 w-4" />
+            {saving ? 'Saving...' : 'Save Changes'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function BookingPolicyCard() {
+  const { currentOrg } = useOrganization();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const policy = currentOrg?.bookingPolicy ?? null;
+  const [enabled, setEnabled] = useState(!!policy);
+  const [freeHours, setFreeHours] = useState(String(policy?.freeCancellationHours ?? 24));
+  const [lateType, setLateType] = useState<PolicyFeeType>(policy?.lateCancellationFeeType ?? 'percent');
+  const [lateFee, setLateFee] = useState(String(policy?.lateCancellationFee ?? 50));
+  const [noShowType, setNoShowType] = useState<PolicyFeeType>(policy?.noShowFeeType ?? 'percent');
+  const [noShowFee, setNoShowFee] = useState(String(policy?.noShowFee ?? 100));
+  const [text, setText] = useState(policy?.text ?? '');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setEnabled(!!policy);
+    setFreeHours(String(policy?.freeCancellationHours ?? 24));
+    setLateType(policy?.lateCancellationFeeType ?? 'percent');
+    setLateFee(String(policy?.lateCancellationFee ?? 50));
+    setNoShowType(policy?.noShowFeeType ?? 'percent');
+    setNoShowFee(String(policy?.noShowFee ?? 100));
+    setText(policy?.text ?? '');
+  }, [policy]);
+
+  const draft: BookingPolicy | null = enabled
+    ? {
+        freeCancellationHours: Math.max(0, Math.round(Number(freeHours) || 0)),
+        lateCancellationFeeType: lateType,
+        lateCancellationFee: Math.max(0, Number(lateFee) || 0),
+        noShowFeeType: noShowType,
+        noShowFee: Math.max(0, Number(noShowFee) || 0),
+        text: text.trim() || null,
+      }
+    : null;
+  const hasChanges = !draft || !policy
+    ? !!draft !== !!policy
+    : draft.freeCancellationHours !== policy.freeCancellationHours
+      || draft.lateCancellationFeeType !== policy.lateCancellationFeeType
+      || draft.lateCancellationFee !== policy.lateCancellationFee
+      || draft.noShowFeeType !== policy.noShowFeeType
+      || draft.noShowFee !== policy.noShowFee
+      || draft.text !== (policy.text ?? null);
+
+  const handleSave = async () => {
+    if (!currentOrg) return;
+    setSaving(true);
+    try {
+      const { error } = await supabaseClient
+        .from('organizations')
+        .update({ booking_policy: draft })
+        .eq('id', currentOrg.id);
+      if (error) throw error;
+      queryClient.invalidateQueries({ queryKey: ['user-organizations'] });
+      toast({ title: 'Saved', description: enabled ? 'Booking policy updated.' : 'Booking policy turned off.' });
+    } catch {
+      toast({ title: 'Error', description: 'Failed to save.', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!currentOrg) return null;
+
+  const feeFields = (
+    id: string,
+    label: string,
+    type: PolicyFeeType,
+    setType: (type: PolicyFeeType) => void,
+    value: string,
+    setValue: (value: string) => void,
+  ) => (
+    <div>
+      <Label htmlFor={id}>{label}</Label>
+      <div className="flex gap-2">
+        <Input
+          id={id}
+          type="number"
+          min="0"
+          step={type === 'percent' ? '1' : '0.01'}
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+        />
+        <Select value={type} onValueChange={(v) => setType(v as PolicyFeeType)}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="percent">% of price</SelectItem>
+            <SelectItem value="fixed">{currentOrg.currency} fixed</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+
+  return (
+    <Card className="flex flex-col">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Scale className="h-5 w-5 text-blue-600" />
+          <CardTitle>Cancellation Policy</CardTitle>
+        </div>
+        <CardDescription>
+          Fees for late cancellations and no-shows. Visitors see the policy before they book.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col flex-1">
+        <div className="space-y-4 flex-1">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="bookingPolicyEnabled">Charge cancellation and no-show fees</Label>
+            <Switch id="bookingPolicyEnabled" checked={enabled} onCheckedChange={setEnabled} />
+          </div>
+          {enabled && (
+            <>
+              <div>
+                <Label htmlFor="freeCancellationHours">Free cancellation until (hours before start)</Label>
+                <Input
+                  id="freeCancellationHours"
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={freeHours}
+                  onChange={(e) => setFreeHours(e.target.value)}
+                />
+              </div>
+              {feeFields('lateCancellationFee', 'Late cancellation fee', lateType, setLateType, lateFee, setLateFee)}
+              {feeFields('noShowFee', 'No-show fee', noShowType, setNoShowType, noShowFee, setNoShowFee)}
+              <div>
+                <Label htmlFor="bookingPolicyText">Policy text <span className="text-gray-400 font-normal">(optional)</span></Label>
+                <Textarea
+                  id="bookingPolicyText"
+                  rows={3}
+                  value={text}
+                  onChange={(e) => setText(e.target.value)}
+                  placeholder={describePolicy({ ...draft!, text: null }, currentOrg.currency) ?? ''}
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Shown on the booking page and share links. Leave empty to use the text above.
+                </p>
+              </div>
+            </>
+          )}
         </div>
         <div className="mt-4 pt-4 border-t">
           <Button onClick={handleSave} disabled={saving || !hasChanges}>
@@ -2825,7 +3910,108 @@ export function SettingsPlansPage() {
           flexPlanPrice={currentOrg.flexPlanPrice ?? null}
           isAdmin={isAdmin}
         />
+        <PricingRulesCard isAdmin={isAdmin} />
+        <BookingPolicyCard />
+        <CheckInSettingsCard />
+        <HoldSettingsCard />
       </div>
     </div>
   );
 }
+
+const ALL_FILTER_VALUE = 'all';
+
+export function SettingsActivityPage() {
+  const { currentOrg, currentRole } = useOrganization();
+  if (!currentOrg || (currentRole !== 'owner' && currentRole !== 'admin')) return null;
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <h1 className="text-2xl font-bold text-gray-900 mb-6">Activity</h1>
+      <ActivityLogCard />
+    </div>
+  );
+}
+
+function ActivityLogCard() {
+  const [entityType, setEntityType] = useState<string>(ALL_FILTER_VALUE);
+  const [action, setAction] = useState<string>(ALL_FILTER_VALUE);
+  const [actor, setActor] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  const filter = useMemo<AuditLogFilter>(() => ({
+    entityType: entityType === ALL_FILTER_VALUE ? undefined : entityType as AuditLogFilter['entityType'],
+    action: action === ALL_FILTER_VALUE ? undefined : action as AuditLogFilter['action'],
+    actor: actor.trim() || undefined,
+    from: from || undefined,
+    to: to || undefined,
+  }), [entityType, action, actor, from, to]);
+
+  const { data: entries, isLoading } = useAuditLog(filter);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Change history
+        </CardTitle>
+        <CardDescription>
+          Who created, changed or deleted bookings, members, invoices and expenses.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+          <div>
+            <Label className="text-xs text-gray-500">Type</Label>
+            <Select value={entityType} onValueChange={setEntityType}>
+              <SelectTrigger className="mt-1"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_FILTER_VALUE}>Everything</SelectItem>
+                <SelectItem value="booking">Bookings</SelectItem>
+                <SelectItem value="client">Members</SelectItem>
+                <SelectItem value="invoice">Invoices</SelectItem>
+                <SelectItem value="expense">Expenses</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="text-xs text-gray-500">Action</Label>
+            <Select value={action} onValueChange={setAction}>
+              <SelectTrigger className="mt-1"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_FILTER_VALUE}>Any action</SelectItem>
+                <SelectItem value="create">Created</SelectItem>
+                <SelectItem value="update">Updated</SelectItem>
+                <SelectItem value="delete">Deleted</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="activityActor" className="text-xs text-gray-500">Changed by</Label>
+            <Input
+              id="activityActor"
+              value={actor}
+              onChange={(e) => setActor(e.target.value)}
+              placeholder="Email"
+              className="mt-1"
+            />
+          </div>
+          <div>
+            <Label htmlFor="activityFrom" className="text-xs text-gray-500">From</Label>
+            <Input id="activityFrom" type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="mt-1" />
+          </div>
+          <div>
+            <Label htmlFor="activityTo" className="text-xs text-gray-500">To</Label>
+            <Input id="activityTo" type="date" value={to} onChange={(e) => setTo(e.target.value)} className="mt-1" />
+          </div>
+        </div>
+        <AuditEntryList
+          entries={entries}
+          isLoading={isLoading}
+          emptyText="No activity matches these filters."
+        />
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,32 +1,48 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { useParams } from 'react-router-dom';
-import { SharedBooking } from '@shared/schema';
+import { SharedBooking, SharedBookingChange } from '@shared/schema';
 import { SupabaseDataStore } from '@/lib/supabaseDataStore';
-import { Loader2, CalendarCheck, Clock } from 'lucide-react';
+import { isBookingConflictError } from '@/lib/bookingConflicts';
+import { todayString } from '@/lib/dateUtils';
+import { visitorChangeStatus } from '@/lib/visitorChanges';
+import { describePolicy, lateCancellationFee } from '@/lib/bookingPolicy';
+import { rememberShareToken } from '@/lib/checkIn';
+import { currencySymbol } from '@/lib/settings';
+import { AvailabilityCalendar } from '@/components/booking/AvailabilityCalendar';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { Loader2, CalendarCheck, CalendarX, Clock, UserCheck } from 'lucide-react';
+
+const ALL_DAYS = [1, 2, 3, 4, 5, 6, 7];
+
+function formatDate(dateStr: string) {
+  const d = new Date(dateStr + 'T00:00:00');
+  return d.toLocaleDateString('en-GB', { weekday: 'short', day: 'numeric', month: 'long', year: 'numeric' });
+}
 
 export default function SharePage() {
   const { token } = useParams<{ token: string }>();
   const [booking, setBooking] = useState<SharedBooking | null>(null);
   const [loading, setLoading] = useState(true);
   const [notFound, setNotFound] = useState(false);
+  const [cancelled, setCancelled] = useState<SharedBookingChange | null>(null);
 
-  useEffect(() => {
+  const load = async () => {
     if (!token) return;
-    SupabaseDataStore.getSharedBooking(token).then((data) => {
-      if (data) {
-        setBooking(data);
-      } else {
-        setNotFound(true);
-      }
-      setLoading(false);
-    });
-  }, [token]);
-
-  const formatDate = (dateStr: string) => {
-    const d = new Date(dateStr + 'T00:00:00');
-    return d.toLocaleDateString('en-GB', { weekday: 'short', day: 'numeric', month: 'long', year: 'numeric' });
+    const data = await SupabaseDataStore.getSharedBooking(token);
+    if (data) {
+      setBooking(data);
+      // Lets the QR code on the desk recognise this visitor
+      rememberShareToken(token);
+    } else {
+      setNotFound(true);
+    }
+    setLoading(false);
   };
 
+  useEffect(() => {
+    load();
+  }, [token]);
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -35,6 +51,33 @@ export default function SharePage() {
     );
   }
 
+  if (cancelled && booking) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <div className="max-w-md w-full">
+          <div className="bg-white rounded-2xl shadow-sm border p-8 text-center">
+            <CalendarX className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h1 className="text-xl font-semibold text-gray-900">Booking Cancelled</h1>
+            <p className="text-gray-500 mt-2">
+              Your desk at <span className="font-medium">{booking.spaceName}</span> on {formatDate(cancelled.previousDate)} has been released.
+            </p>
+            {cancelled.refundRequired && (
+              <p className="mt-4 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-xl px-4 py-3">
+                You paid online. The space has been notified and will arrange your refund.
+              </p>
+            )}
+            {(cancelled.fee ?? 0) > 0 && (
+              <p className="mt-4 text-sm text-gray-700 bg-gray-50 border border-gray-200 rounded-xl px-4 py-3">
+                A late cancellation fee of {currencySymbol(booking.currency ?? 'EUR')}{cancelled.fee!.toFixed(2)} applies under the space's policy.
+              </p>
+            )}
+          </div>
+          <Footer />
+        </div>
+      </div>
+    );
+  }
+
   if (notFound || !booking) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
@@ -112,6 +155,12 @@ export default function SharePage() {
               {booking.status}
             </div>
           </div>
+
+          {token && <CheckIn token={token} booking={booking} />}
+
+          {booking.visitorChanges && token && (
+            <ManageBooking token={token} booking={booking} onCancelled={setCancelled} onRescheduled={load} />
+          )}
         </div>
 
         <Footer />
@@ -120,6 +169,255 @@ export default function SharePage() {
   );
 }
 
+function formatTime(iso: string, timeZone?: string) {
+  return new Date(iso).toLocaleTimeString('en-GB', {
+    hour: '2-digit', minute: '2-digit',
+    ...(timeZone ? { timeZone } : {}),
+  });
+}
+
+/** Check in on a day of the booking, here or by scanning the desk's QR code. */
+function CheckIn({ token, booking }: { token: string; booking: SharedBooking }) {
+  const [checkedInAt, setCheckedInAt] = useState(booking.checkedInAt ?? null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const today = todayString(booking.timezone);
+  if (today < booking.startDate || today > booking.endDate) return null;
+
+  const handleCheckIn = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      setCheckedInAt((await SupabaseDataStore.checkInSharedBooking(token)).checkedInAt);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to check in.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (checkedInAt) {
+    return (
+      <p className="mt-6 text-sm text-green-700 bg-green-50 rounded-xl px-4 py-3 flex items-center justify-center gap-2">
+        <UserCheck className="h-4 w-4" />
+        Checked in at {formatTime(checkedInAt, booking.timezone)}. Enjoy your day!
+      </p>
+    );
+  }
+
+  return (
+    <div className="mt-6 space-y-2">
+      <button
+        onClick={handleCheckIn}
+        disabled={busy}
+        className="w-full py-3 px-4 bg-green-600 hover:bg-green-700 disabled:bg-green-400 text-white font-semibold rounded-xl transition-colors text-sm flex items-center justify-center gap-2"
+      >
+        {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <UserCheck className="h-4 w-4" />}
+        I'm here - check in
+      </button>
+      {error && <p className="text-sm text-red-700">{error}</p>}
+    </div>
+  );
+}
+
+function formatDeadline(deadline: Date, timeZone?: string) {
+  return deadline.toLocaleString('en-GB', {
+    weekday: 'short', day: 'numeric', month: 'long', hour: '2-digit', minute: '2-digit',
+    ...(timeZone ? { timeZone } : {}),
+  });
+}
+
+/** Cancel or move the booking, within the space's rules. */
+function ManageBooking({
+  token,
+  booking,
+  onCancelled,
+  onRescheduled,
+}: {
+  token: string;
+  booking: SharedBooking;
+  onCancelled: (change: SharedBookingChange) => void;
+  onRescheduled: () => Promise<void>;
+}) {
+  const status = visitorChangeStatus(booking);
+  const currency = booking.currency ?? 'EUR';
+  const policyText = describePolicy(booking.bookingPolicy, currency);
+  const cancelFee = lateCancellationFee(
+    booking.bookingPolicy,
+    { ...booking, date: booking.startDate, price: booking.price ?? undefined },
+    new Date(),
+    booking.timezone,
+  );
+  const [picking, setPicking] = useState(false);
+  const [newDate, setNewDate] = useState<string | null>(null);
+  const [confirmCancel, setConfirmCancel] = useState(false);
+  const [busy, setBusy] = useState<'move' | 'cancel' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [moved, setMoved] = useState<string | null>(null);
+
+  const today = new Date(todayString(booking.timezone) + 'T00:00:00');
+  const { availabilityMap, maxDate } = useMemo(() => {
+    const dates = (booking.rescheduleDates ?? []).filter(d => d !== booking.startDate).sort();
+    return {
+      availabilityMap: Object.fromEntries(dates.map(d => [d, 1])) as Record<string, number>,
+      maxDate: dates.length > 0 ? new Date(dates[dates.length - 1] + 'T00:00:00') : today,
+    };
+  }, [booking.rescheduleDates, booking.startDate]);
+  const canMove = !status.rescheduleBlocked && Object.keys(availabilityMap).length > 0;
+
+  const handleMove = async () => {
+    if (!newDate) return;
+    setBusy('move');
+    setError(null);
+    try {
+      await SupabaseDataStore.rescheduleSharedBooking(token, newDate);
+      setMoved(newDate);
+      setNewDate(null);
+      setPicking(false);
+      await onRescheduled();
+    } catch (err) {
+      if (isBookingConflictError(err)) {
+        setError('That day was just taken. Please pick another one.');
+        setNewDate(null);
+        await onRescheduled();
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to move the booking.');
+      }
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleCancel = async () => {
+    setBusy('cancel');
+    setError(null);
+    try {
+      onCancelled(await SupabaseDataStore.cancelSharedBooking(token));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel the booking.');
+      setConfirmCancel(false);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="mt-6 pt-6 border-t text-left space-y-3">
+      <p className="text-sm font-medium text-gray-900">Need to change your plans?</p>
+
+      {moved && (
+        <p className="text-sm text-green-700 bg-green-50 rounded-xl px-4 py-3">
+          Moved to {formatDate(moved)}. The space has been notified.
+        </p>
+      )}
+
+      {status.cancelBlocked ? (
+        <p className="text-sm text-gray-500">{status.cancelBlocked}</p>
+      ) : (
+        <p className="text-xs text-gray-500">
+          You can cancel{canMove ? ' or move' : ''} this booking until {formatDeadline(status.deadline!, booking.timezone)}.
+          {canMove && ` ${status.reschedulesLeft} move${status.reschedulesLeft === 1 ? '' : 's'} left.`}
+        </p>
+      )}
+      {!status.cancelBlocked && status.rescheduleBlocked && (
+        <p className="text-xs text-gray-500">{status.rescheduleBlocked}</p>
+      )}
+      {policyText && (
+        <p className="text-xs text-gray-500">
+          <span className="font-medium text-gray-700">Cancellation policy: </span>{policyText}
+        </p>
+      )}
+
+      {picking && !newDate && (
+        <AvailabilityCalendar
+          today={today}
+          maxDate={maxDate}
+          workingDays={ALL_DAYS}
+          availabilityMap={availabilityMap}
+          onSelect={setNewDate}
+          onCancel={() => setPicking(false)}
+        />
+      )}
+
+      {newDate && (
+        <div className="bg-blue-50 rounded-xl p-4 space-y-3">
+          <p className="text-sm text-gray-900">
+            Move your booking from {formatDate(booking.startDate)} to <span className="font-medium">{formatDate(newDate)}</span>?
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={handleMove}
+              disabled={busy !== null}
+              className="flex-1 py-2 px-4 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white font-semibold rounded-xl transition-colors text-sm"
+            >
+              {busy === 'move' ? <Loader2 className="h-4 w-4 animate-spin mx-auto" /> : 'Move booking'}
+            </button>
+            <button
+              onClick={() => setNewDate(null)}
+              disabled={busy !== null}
+              className="flex-1 py-2 px-4 border border-gray-200 hover:bg-gray-50 text-gray-700 rounded-xl transition-colors text-sm"
+            >
+              Pick another day
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-xl px-4 py-3">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      {!status.cancelBlocked && !picking && !newDate && (
+        <div className="flex gap-2">
+          {canMove && (
+            <button
+              onClick={() => { setPicking(true); setError(null); }}
+              className="flex-1 py-2 px-4 border border-blue-200 hover:bg-blue-50 text-blue-700 font-medium rounded-xl transition-colors text-sm"
+            >
+              Move to another day
+            </button>
+          )}
+          <button
+            onClick={() => setConfirmCancel(true)}
+            className="flex-1 py-2 px-4 border border-red-200 hover:bg-red-50 text-red-600 font-medium rounded-xl transition-colors text-sm"
+          >
+            Cancel booking
+          </button>
+        </div>
+      )}
+
+      <AlertDialog open={confirmCancel} onOpenChange={setConfirmCancel}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancel booking</AlertDialogTitle>
+            <AlertDialogDescription>
+              Your desk at {booking.spaceName} for {booking.startDate === booking.endDate
+                ? formatDate(booking.startDate)
+                : `${formatDate(booking.startDate)} - ${formatDate(booking.endDate)}`} is released.
+              {booking.paymentStatus === 'paid' && ' The space will be notified to refund your payment.'}
+              {cancelFee > 0 && ` A late cancellation fee of ${currencySymbol(currency)}${cancelFee.toFixed(2)} applies.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={busy === 'cancel'}>Keep booking</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleCancel}
+              disabled={busy === 'cancel'}
+              className="bg-red-600 hover:bg-red-700 text-white"
+            >
+              {busy === 'cancel' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Cancel booking
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
 function Footer() {
   return (
     <div className="text-center mt-6 space-y-3">
@@ -0,0 +1,363 @@
+import { useState, useMemo, useCallback } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import TodayCheckInList from '@/components/calendar/TodayCheckInList';
+import BookingModal from '@/components/bookings/BookingModal';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { CalendarX, PauseCircle, Armchair, DoorOpen, Wallet, Loader2 } from 'lucide-react';
+import { useBookings } from '@/hooks/use-bookings';
+import { useDeskBlocks } from '@/hooks/use-desk-blocks';
+import { useBookingActions } from '@/hooks/use-booking-actions';
+import { useMeetingRooms } from '@/hooks/use-meeting-rooms';
+import { useMeetingRoomBookings } from '@/hooks/use-meeting-room-bookings';
+import { useOpenInvoices, useMarkInvoicePaid } from '@/hooks/use-invoices';
+import { useMarkBookingPaid } from '@/hooks/use-mark-booking-paid';
+import { useMarkOngoingPaid } from '@/hooks/use-mark-ongoing-paid';
+import { useToast } from '@/hooks/use-toast';
+import { useToday } from '@/hooks/use-today';
+import { useOrganization } from '@/contexts/OrganizationContext';
+import { useDataStore } from '@/contexts/DataStoreContext';
+import { DEFAULT_DESKS } from '@/lib/deskConfig';
+import { currencySymbols } from '@/lib/settings';
+import { formatDateRange, formatInvoiceDate, getAppTimeZone, zonedTimeString } from '@/lib/dateUtils';
+import { DAY_PART_SHORT_LABELS, dayPartOf, isHalfDay } from '@/lib/dayParts';
+import { DEFAULT_WORKING_DAYS } from '@/lib/workingDays';
+import { freeDesks, pausedPlans, plansEndingOn, unpaidOn } from '@/lib/todayDashboard';
+import { DayPart, DeskBooking, Currency } from '@shared/schema';
+
+function SectionHeader({ icon: Icon, title, count }: { icon: typeof Wallet; title: string; count?: number }) {
+  return (
+    <div className="flex items-center justify-between mb-2">
+      <div className="flex items-center">
+        <Icon className="h-5 w-5 text-gray-500 mr-2" />
+        <h3 className="text-sm font-medium text-gray-900">{title}</h3>
+      </div>
+      {count !== undefined && <span className="text-xs text-gray-500">{count}</span>}
+    </div>
+  );
+}
+
+/**
+ * Front-desk view of today: arrivals to check in, desks free for walk-ins,
+ * plans ending or paused, the meeting-room schedule and what is still unpaid.
+ */
+export default function TodayPage() {
+  const { legacyDesks, currentOrg, hasMeetingRooms } = useOrganization();
+  const dataStore = useDataStore();
+  const { toast } = useToast();
+  const desks = legacyDesks.length > 0 ? legacyDesks : DEFAULT_DESKS;
+  const currentCurrency: Currency = currentOrg?.currency || 'EUR';
+  const today = useToday(currentOrg?.timezone);
+  const timeZone = getAppTimeZone();
+
+  const { data: bookings = {} } = useBookings(today, today);
+  const { data: blocks = [] } = useDeskBlocks(today, today);
+  const { data: planBookings = [] } = useQuery({
+    queryKey: ['org-plan-bookings'],
+    queryFn: () => dataStore.getOrgPlanBookings!(),
+    enabled: !!dataStore.getOrgPlanBookings,
+  });
+  const { data: rooms = [] } = useMeetingRooms(hasMeetingRooms ? currentOrg?.id : undefined);
+  const { data: roomBookings = [] } = useMeetingRoomBookings(hasMeetingRooms ? currentOrg?.id : undefined, today);
+  const { data: openInvoices = [] } = useOpenInvoices(currentOrg?.id);
+
+  const markBookingPaid = useMarkBookingPaid();
+  const markOngoingPaid = useMarkOngoingPaid();
+  const markInvoicePaid = useMarkInvoicePaid();
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const deskLabels = useMemo(() => new Map(desks.map(d => [d.id, d.label])), [desks]);
+  const roomNames = useMemo(() => new Map(rooms.map(r => [r.id, r.name])), [rooms]);
+  const todayRows = useMemo(() => Object.values(bookings), [bookings]);
+  const free = useMemo(() => freeDesks(desks, bookings, blocks, today), [desks, bookings, blocks, today]);
+  const ending = useMemo(() => plansEndingOn(todayRows, today), [todayRows, today]);
+  const unpaid = useMemo(() => unpaidOn(todayRows, today), [todayRows, today]);
+  const paused = useMemo(() => pausedPlans(planBookings), [planBookings]);
+  const roomSchedule = useMemo(
+    () => roomBookings
+      .filter(b => b.status !== 'cancelled')
+      .sort((a, b) => a.startTime.localeCompare(b.startTime)),
+    [roomBookings],
+  );
+
+  const [selectedBooking, setSelectedBooking] = useState<{
+    booking: DeskBooking | null;
+    deskId: string;
+    date: string;
+    dayPart?: DayPart;
+  } | null>(null);
+  const [isBookingModalOpen, setIsBookingModalOpen] = useState(false);
+
+  const {
+    handleBookingSave,
+    handleDiscardBooking,
+    handleMarkNoShow,
+    handleCheckIn,
+    handleCancelSeries,
+  } = useBookingActions(
+    currentCurrency,
+    selectedBooking,
+    setSelectedBooking,
+    setIsBookingModalOpen,
+    [],
+    desks,
+    currentOrg?.workingDays ?? DEFAULT_WORKING_DAYS,
+    currentOrg?.closures
+  );
+
+  const openBooking = useCallback((booking: DeskBooking) => {
+    setSelectedBooking({ booking, deskId: booking.deskId, date: booking.date, dayPart: booking.dayPart });
+    setIsBookingModalOpen(true);
+  }, []);
+
+  const handleWalkIn = useCallback((deskId: string, dayPart: DayPart) => {
+    setSelectedBooking({ booking: null, deskId, date: today, dayPart: dayPart === 'full' ? undefined : dayPart });
+    setIsBookingModalOpen(true);
+  }, [today]);
+
+  const handleMarkBookingPaid = async (booking: DeskBooking) => {
+    setPendingId(booking.id);
+    try {
+      if (booking.isOngoing) {
+        await markOngoingPaid.mutateAsync({
+          deskId: booking.deskId,
+          clientId: booking.clientId ?? null,
+          startDate: booking.startDate,
+          endDate: booking.endDate,
+          personName: booking.personName || 'Booking',
+        });
+      } else {
+        await markBookingPaid(booking);
+      }
+    } catch (error) {
+      // Ongoing payments report their own failure toast
+      if (!booking.isOngoing) {
+        toast({
+          title: 'Failed to mark as paid',
+          description: error instanceof Error ? error.message : 'Could not record payment.',
+          variant: 'destructive',
+        });
+      }
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleMarkInvoicePaid = async (invoiceId: string) => {
+    setPendingId(invoiceId);
+    try {
+      await markInvoicePaid.mutateAsync(invoiceId);
+      toast({ title: 'Invoice marked as paid' });
+    } catch (error) {
+      toast({
+        title: 'Failed to mark as paid',
+        description: error instanceof Error ? error.message : 'Could not update the invoice.',
+        variant: 'destructive',
+      });
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const bookingLine = (booking: DeskBooking) => (
+    <>
+      {deskLabels.get(booking.deskId) ?? booking.deskId}
+      {isHalfDay(booking) && ` · ${DAY_PART_SHORT_LABELS[dayPartOf(booking)]}`}
+    </>
+  );
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <h1 className="text-2xl font-bold text-gray-900 mb-6">Today</h1>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div>
+          <TodayCheckInList
+            desks={desks}
+            autoReleaseTime={currentOrg?.autoReleaseTime}
+            onBookingClick={openBooking}
+          />
+
+          <Card className="mt-6">
+            <CardContent className="p-4">
+              <SectionHeader icon={Wallet} title="Unpaid" count={unpaid.length + openInvoices.length} />
+              {unpaid.length === 0 && openInvoices.length === 0 ? (
+                <p className="text-sm text-gray-500">Nothing outstanding.</p>
+              ) : (
+                <div className="divide-y">
+                  {unpaid.map(booking => (
+                    <div key={booking.id} className="flex items-center justify-between gap-3 py-2">
+                      <button type="button" onClick={() => openBooking(booking)} className="min-w-0 text-left">
+                        <div className="text-sm font-medium text-gray-900 truncate">
+                          {booking.personName || 'Unnamed booking'}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {bookingLine(booking)}
+                          {booking.price ? ` · ${currencySymbols[booking.currency || currentCurrency]}${booking.price}` : ''}
+                        </div>
+                      </button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="h-7 shrink-0"
+                        disabled={pendingId === booking.id}
+                        onClick={() => handleMarkBookingPaid(booking)}
+                      >
+                        {pendingId === booking.id ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : 'Mark paid'}
+                      </Button>
+                    </div>
+                  ))}
+                  {openInvoices.map(invoice => (
+                    <div key={invoice.id} className="flex items-center justify-between gap-3 py-2">
+                      <div className="min-w-0">
+                        <div className="text-sm font-medium text-gray-900 truncate">
+                          {invoice.invoiceNumber} · {invoice.buyerSnapshot?.name}
+                        </div>
+                        <div className={`text-xs ${invoice.dueDate && invoice.dueDate < today ? 'text-rose-600' : 'text-gray-500'}`}>
+                          {currencySymbols[invoice.currency]}{invoice.total.toFixed(2)}
+                          {invoice.dueDate && ` · due ${formatInvoiceDate(invoice.dueDate)}`}
+                        </div>
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="h-7 shrink-0"
+                        disabled={pendingId === invoice.id}
+                        onClick={() => handleMarkInvoicePaid(invoice.id)}
+                      >
+                        {pendingId === invoice.id ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : 'Mark paid'}
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <div>
+          <Card className="mt-6">
+            <CardContent className="p-4">
+              <SectionHeader icon={Armchair} title="Free desks" count={free.length} />
+              {free.length === 0 ? (
+                <p className="text-sm text-gray-500">Every desk is taken today.</p>
+              ) : (
+                <div className="divide-y">
+                  {free.map(({ desk, dayPart }) => (
+                    <div key={desk.id} className="flex items-center justify-between gap-3 py-2">
+                      <div className="min-w-0">
+                        <div className="text-sm font-medium text-gray-900 truncate">{desk.label}</div>
+                        <div className="text-xs text-gray-500">
+                          {desk.roomName ? `${desk.roomName} · ` : ''}{DAY_PART_SHORT_LABELS[dayPart]}
+                        </div>
+                      </div>
+                      <Button size="sm" variant="outline" className="h-7 shrink-0" onClick={() => handleWalkIn(desk.id, dayPart)}>
+                        Walk-in
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="mt-6">
+            <CardContent className="p-4">
+              <SectionHeader icon={CalendarX} title="Plans ending today" count={ending.length} />
+              {ending.length === 0 ? (
+                <p className="text-sm text-gray-500">No plans end today.</p>
+              ) : (
+                <div className="divide-y">
+                  {ending.map(booking => (
+                    <button
+                      key={booking.id}
+                      type="button"
+                      onClick={() => openBooking(booking)}
+                      className="block w-full py-2 text-left"
+                    >
+                      <div className="text-sm font-medium text-gray-900 truncate">
+                        {booking.personName || 'Unnamed booking'}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {bookingLine(booking)} · {formatDateRange(booking.startDate, booking.endDate)}
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {paused.length > 0 && (
+            <Card className="mt-6">
+              <CardContent className="p-4">
+                <SectionHeader icon={PauseCircle} title="Paused plans" count={paused.length} />
+                <div className="divide-y">
+                  {paused.map(plan => (
+                    <div key={plan.clientId ?? plan.personName ?? plan.deskId} className="py-2">
+                      <div className="text-sm font-medium text-gray-900 truncate">
+                        {plan.personName || 'Unnamed member'}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {deskLabels.get(plan.deskId) ?? plan.deskId} · paused since {formatInvoiceDate(plan.pausedAt)} · {plan.bankedDays} day{plan.bankedDays === 1 ? '' : 's'} banked
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {hasMeetingRooms && (
+            <Card className="mt-6">
+              <CardContent className="p-4">
+                <SectionHeader icon={DoorOpen} title="Meeting rooms" count={roomSchedule.length} />
+                {roomSchedule.length === 0 ? (
+                  <p className="text-sm text-gray-500">No meeting-room bookings today.</p>
+                ) : (
+                  <div className="divide-y">
+                    {roomSchedule.map(booking => (
+                      <div key={booking.id} className="flex items-center justify-between gap-3 py-2">
+                        <div className="min-w-0">
+                          <div className="text-sm font-medium text-gray-900 truncate">
+                            {booking.title || booking.personName || 'Meeting'}
+                          </div>
+                          <div className="text-xs text-gray-500">
+                            {roomNames.get(booking.meetingRoomId) ?? 'Room'}
+                            {booking.title && booking.personName && ` · ${booking.personName}`}
+                          </div>
+                        </div>
+                        <span className="text-xs text-gray-700 shrink-0">
+                          {zonedTimeString(new Date(booking.startTime), timeZone)}–{zonedTimeString(new Date(booking.endTime), timeZone)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+
+      <BookingModal
+        isOpen={isBookingModalOpen}
+        onClose={() => {
+          setIsBookingModalOpen(false);
+          setSelectedBooking(null);
+        }}
+        booking={selectedBooking?.booking || null}
+        deskId={selectedBooking?.deskId || ''}
+        date={selectedBooking?.date || ''}
+        dayPart={selectedBooking?.dayPart}
+        desks={desks}
+        currency={currentCurrency}
+        onSave={handleBookingSave}
+        onDiscard={handleDiscardBooking}
+        onMarkNoShow={handleMarkNoShow}
+        onCheckIn={handleCheckIn}
+        onCancelSeries={handleCancelSeries}
+      />
+    </div>
+  );
+}
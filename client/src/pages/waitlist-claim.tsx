@@ -0,0 +1,136 @@
+import { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { WaitlistClaim, WaitlistClaimResult } from '@shared/schema';
+import { SupabaseDataStore } from '@/lib/supabaseDataStore';
+import { isBookingConflictError } from '@/lib/bookingConflicts';
+import { Loader2, CalendarCheck, CalendarX, Clock } from 'lucide-react';
+import { PoweredByFooter } from '@/components/booking/PoweredByFooter';
+
+function formatDate(dateStr: string) {
+  const d = new Date(dateStr + 'T00:00:00');
+  return d.toLocaleDateString('en-GB', { weekday: 'short', day: 'numeric', month: 'long', year: 'numeric' });
+}
+
+function formatDates(startDate: string, endDate: string) {
+  return startDate === endDate ? formatDate(startDate) : `${formatDate(startDate)} - ${formatDate(endDate)}`;
+}
+
+function formatExpiry(iso: string) {
+  return new Date(iso).toLocaleString('en-GB', {
+    weekday: 'short', day: 'numeric', month: 'long', hour: '2-digit', minute: '2-digit',
+  });
+}
+
+/**
+ * Claim link from a waiting-list offer email.
+ * URL: /book/:orgSlug/claim/:token
+ *
+ * Shows the desk that freed up and books it for the visitor in one tap,
+ * as long as the offer has not run out.
+ */
+export default function WaitlistClaimPage() {
+  const { orgSlug, token } = useParams<{ orgSlug: string; token: string }>();
+  const [claim, setClaim] = useState<WaitlistClaim | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [claiming, setClaiming] = useState(false);
+  const [result, setResult] = useState<WaitlistClaimResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+    SupabaseDataStore.getWaitlistClaim(token)
+      .then(setClaim)
+      .finally(() => setLoading(false));
+  }, [token]);
+
+  const handleClaim = async () => {
+    if (!token) return;
+    setClaiming(true);
+    setError(null);
+    try {
+      setResult(await SupabaseDataStore.claimWaitlistOffer(token));
+    } catch (err) {
+      setError(isBookingConflictError(err)
+        ? 'Sorry, the desk was taken in the meantime. You stay on the waiting list.'
+        : 'Failed to claim the desk. Please try again.');
+    } finally {
+      setClaiming(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  const expired = claim?.status === 'expired' || (claim?.status === 'open' && new Date(claim.expiresAt) <= new Date());
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <div className="max-w-md w-full">
+        <div className="bg-white rounded-2xl shadow-sm border p-8 text-center">
+          {result ? (
+            <>
+              <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-green-100 mb-6">
+                <CalendarCheck className="h-8 w-8 text-green-600" />
+              </div>
+              <h1 className="text-2xl font-bold text-gray-900">The desk is yours!</h1>
+              <p className="text-gray-500 mt-3">
+                <span className="font-medium">{result.deskLabel}</span>, {formatDates(result.startDate, result.endDate)}.
+                The space will be in touch about payment.
+              </p>
+            </>
+          ) : !claim || claim.orgSlug !== orgSlug ? (
+            <>
+              <CalendarX className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+              <h1 className="text-xl font-semibold text-gray-900">Offer not found</h1>
+              <p className="text-gray-500 mt-2">This link is not valid. Check the email you received from the space.</p>
+            </>
+          ) : claim.status === 'claimed' ? (
+            <>
+              <CalendarCheck className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+              <h1 className="text-xl font-semibold text-gray-900">Already booked</h1>
+              <p className="text-gray-500 mt-2">This desk was already claimed with this link.</p>
+            </>
+          ) : expired ? (
+            <>
+              <Clock className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+              <h1 className="text-xl font-semibold text-gray-900">Offer expired</h1>
+              <p className="text-gray-500 mt-2">
+                The desk was held for you until {formatExpiry(claim.expiresAt)} and has been offered to the next person.
+                Contact {claim.orgName} if you still need a desk.
+              </p>
+            </>
+          ) : (
+            <>
+              <h1 className="text-2xl font-bold text-gray-900">A desk is free for you</h1>
+              <p className="text-gray-500 mt-3">
+                Hi {claim.name}, <span className="font-medium">{claim.deskLabel}</span> at {claim.orgName} is
+                free {formatDates(claim.startDate, claim.endDate)}.
+              </p>
+              <p className="text-sm text-orange-700 bg-orange-50 border border-orange-200 rounded-xl px-4 py-2.5 mt-5">
+                Claim it before {formatExpiry(claim.expiresAt)}, or it goes to the next person on the waiting list.
+              </p>
+              {error && (
+                <div className="bg-red-50 border border-red-200 rounded-xl px-4 py-3 mt-4">
+                  <p className="text-sm text-red-700">{error}</p>
+                </div>
+              )}
+              <button
+                onClick={handleClaim}
+                disabled={claiming}
+                className="w-full mt-5 py-3 px-4 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white font-semibold rounded-xl transition-colors text-sm active:scale-[0.98]"
+              >
+                {claiming ? <Loader2 className="h-4 w-4 animate-spin mx-auto" /> : 'Claim this desk'}
+              </button>
+            </>
+          )}
+        </div>
+        <PoweredByFooter />
+      </div>
+    </div>
+  );
+}
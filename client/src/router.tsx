@@ -9,11 +9,14 @@ import OnboardingPage from '@/pages/onboarding';
 import DashboardLayout from '@/layouts/DashboardLayout';
 import RevenuePage from '@/pages/revenue';
 import WaitingListPage from '@/pages/waiting-list';
-import SettingsPage, { SettingsRoomsPage, SettingsPlansPage, SettingsTeamPage, SettingsNotificationsPage, SettingsIntegrationsPage } from '@/pages/settings';
+import SettingsPage, { SettingsRoomsPage, SettingsPlansPage, SettingsTeamPage, SettingsNotificationsPage, SettingsIntegrationsPage, SettingsActivityPage } from '@/pages/settings';
 import InsightsPage from '@/pages/insights';
+import TodayPage from '@/pages/today';
 import AdminPage from '@/pages/admin';
 import SharePage from '@/pages/share';
+import CheckInPage from '@/pages/check-in';
 import PublicBookingPage from '@/pages/public-booking';
+import WaitlistClaimPage from '@/pages/waitlist-claim';
 import MeetingRoomsPage from '@/pages/meeting-rooms';
 import MembersPage from '@/pages/members';
 import MemberBookingPage from '@/pages/member-booking';
@@ -194,6 +197,16 @@ export const router = createBrowserRouter(
           path: '/share/:token',
           element: <SharePage />,
         },
+        // Desk QR code check-in (no auth required)
+        {
+          path: '/check-in/:orgSlug/:deskId',
+          element: <CheckInPage />,
+        },
+        // Waiting-list offer claim link (no auth required)
+        {
+          path: '/book/:orgSlug/claim/:token',
+          element: <WaitlistClaimPage />,
+        },
         // Member self-service booking (no auth required)
         {
           path: '/book/:memberId/:orgSlug',
@@ -223,6 +236,10 @@ export const router = createBrowserRouter(
                       path: 'calendar',
                       element: <DeskCalendar />,
                     },
+                    {
+                      path: 'today',
+                      element: <TodayPage />,
+                    },
                     {
                       path: 'members',
                       element: <MembersPage />,
@@ -271,6 +288,10 @@ export const router = createBrowserRouter(
                       path: 'integrations',
                       element: <SettingsIntegrationsPage />,
                     },
+                    {
+                      path: 'activity',
+                      element: <SettingsActivityPage />,
+                    },
                     {
                       path: 'admin',
                       element: <AdminPage />,
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import { formatNotificationDate, renderBookingNotification, type NotificationContext } from './bookingNotifications';
+
+const context: NotificationContext = {
+  orgName: 'Harbour Desks',
+  currency: 'EUR',
+  timeZone: 'Europe/Sofia',
+  appUrl: 'https://app.example.com',
+  deskLabel: (deskId) => (deskId === 'room1-desk1' ? 'Window desk' : deskId),
+};
+
+describe('formatNotificationDate', () => {
+  it('formats the calendar day without shifting it by timezone', () => {
+    expect(formatNotificationDate('2026-03-02')).toBe('Mon 2 Mar');
+  });
+});
+
+describe('renderBookingNotification', () => {
+  it('tells managers about a late cancellation with a fee and a refund', () => {
+    const rendered = renderBookingNotification(
+      {
+        event: 'cancelled',
+        payload: {
+          deskId: 'room1-desk1',
+          visitorName: 'Ana',
+          previousDate: '2026-03-02',
+          date: null,
+          refundRequired: true,
+          fee: 5,
+        },
+      },
+      context,
+    );
+    expect(rendered.to).toBe('managers');
+    expect(rendered.subject).toBe('Booking cancelled: Ana, Mon 2 Mar');
+    expect(rendered.text).toContain('Window desk on Mon 2 Mar');
+    expect(rendered.text).toContain('€5.00');
+    expect(rendered.text).toContain('needs a refund');
+  });
+
+  it('leaves out the fee and refund lines when neither applies', () => {
+    const rendered = renderBookingNotification(
+      {
+        event: 'cancelled',
+        payload: { deskId: 'd9', visitorName: 'Ana', previousDate: '2026-03-02', date: null, refundRequired: false },
+      },
+      context,
+    );
+    expect(rendered.text.split('\n')).toHaveLength(1);
+    expect(rendered.text).toContain('d9');
+  });
+
+  it('names both days of a reschedule', () => {
+    const rendered = renderBookingNotification(
+      {
+        event: 'rescheduled',
+        payload: {
+          deskId: 'room1-desk1',
+          visitorName: 'Ana',
+          previousDate: '2026-03-02',
+          date: '2026-03-04',
+          refundRequired: false,
+        },
+      },
+      context,
+    );
+    expect(rendered.subject).toBe('Booking moved: Ana to Wed 4 Mar');
+    expect(rendered.text).toBe('Ana moved their booking from Mon 2 Mar to Wed 4 Mar, on Window desk.');
+  });
+
+  it('lists released holds once per booking', () => {
+    const rendered = renderBookingNotification(
+      {
+        event: 'hold_expired',
+        payload: {
+          holds: [
+            { deskId: 'room1-desk1', personName: 'Ana', startDate: '2026-03-02', endDate: '2026-03-04' },
+            { deskId: 'd9', personName: null, startDate: '2026-03-05', endDate: '2026-03-05' },
+          ],
+        },
+      },
+      context,
+    );
+    expect(rendered.subject).toBe('2 holds released: Ana, d9');
+    expect(rendered.text.split('\n')).toEqual([
+      'Not paid in time, so these desks are free again:',
+      'Window desk, Mon 2 Mar – Wed 4 Mar (Ana)',
+      'd9, Thu 5 Mar',
+    ]);
+  });
+
+  it('emails the visitor a claim link with its expiry in the space timezone', () => {
+    const rendered = renderBookingNotification(
+      {
+        event: 'waitlist_offer',
+        payload: {
+          email: 'ana@example.com',
+          name: 'Ana',
+          orgSlug: 'harbour',
+          deskId: 'room1-desk1',
+          startDate: '2026-03-02',
+          endDate: '2026-03-02',
+          token: 'abc',
+          expiresAt: '2026-03-01T10:00:00Z',
+        },
+      },
+      context,
+    );
+    expect(rendered.to).toEqual({ email: 'ana@example.com' });
+    expect(rendered.text).toContain('Window desk at Harbour Desks is free for Mon 2 Mar.');
+    expect(rendered.text).toContain('Claim it before Sun 1 Mar, 12:00: https://app.example.com/book/harbour/claim/abc');
+  });
+
+  it('tells managers about public sign-ups and claims', () => {
+    const joined = renderBookingNotification(
+      {
+        event: 'waitlist_joined',
+        payload: {
+          name: 'Ana',
+          email: 'ana@example.com',
+          phone: null,
+          startDate: '2026-03-02',
+          endDate: '2026-03-03',
+          notes: null,
+        },
+      },
+      context,
+    );
+    expect(joined.subject).toBe('Waiting list: Ana, Mon 2 Mar – Tue 3 Mar');
+    expect(joined.text.split('\n')).toHaveLength(2);
+
+    const claimed = renderBookingNotification(
+      {
+        event: 'waitlist_claimed',
+        payload: { deskId: 'd9', deskLabel: 'Desk 9', visitorName: 'Ana', startDate: '2026-03-02', endDate: '2026-03-02' },
+      },
+      context,
+    );
+    expect(claimed.to).toBe('managers');
+    expect(claimed.text).toBe('Ana claimed Desk 9 for Mon 2 Mar from their waiting-list offer.');
+  });
+});
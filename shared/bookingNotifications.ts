@@ -0,0 +1,187 @@
+// Texts of the notifications the booking functions queue in the
+// booking_notifications table.
+//
+// Lives in `shared/` so the send-booking-notifications Edge Function (Deno)
+// sends what Vitest tests — no Deno-specific imports here.
+
+/** A visitor cancelled or moved their booking from its share link. */
+export interface BookingChangePayload {
+  deskId: string;
+  visitorName: string | null;
+  previousDate: string;
+  /** The new day; null when cancelled */
+  date: string | null;
+  refundRequired: boolean;
+  fee?: number | null;
+}
+
+/** Holds nobody paid for in time, released together. */
+export interface HoldsExpiredPayload {
+  holds: { deskId: string; personName: string | null; startDate: string; endDate: string }[];
+}
+
+/** A visitor of the public booking page joined the waiting list. */
+export interface WaitlistJoinedPayload {
+  name: string;
+  email: string;
+  phone: string | null;
+  startDate: string;
+  endDate: string;
+  notes: string | null;
+}
+
+/** A desk offered to someone on the waiting list, claimable until `expiresAt`. */
+export interface WaitlistOfferPayload {
+  email: string;
+  name: string;
+  orgSlug: string;
+  deskId: string;
+  startDate: string;
+  endDate: string;
+  token: string;
+  expiresAt: string;
+}
+
+/** An offer claimed through its link, as claim_waitlist_offer returns it. */
+export interface WaitlistClaimedPayload {
+  deskId: string;
+  deskLabel: string;
+  visitorName: string;
+  startDate: string;
+  endDate: string;
+}
+
+/** A booking_notifications row as the Edge Function claims it. */
+export type BookingNotification =
+  | { event: 'cancelled'; payload: BookingChangePayload }
+  | { event: 'rescheduled'; payload: BookingChangePayload }
+  | { event: 'hold_expired'; payload: HoldsExpiredPayload }
+  | { event: 'waitlist_joined'; payload: WaitlistJoinedPayload }
+  | { event: 'waitlist_offer'; payload: WaitlistOfferPayload }
+  | { event: 'waitlist_claimed'; payload: WaitlistClaimedPayload };
+
+export interface NotificationContext {
+  orgName: string;
+  currency: string;
+  timeZone: string;
+  /** Origin of the app, for links in visitor emails */
+  appUrl: string;
+  /** Desk label by desk id; the id itself when unknown */
+  deskLabel: (deskId: string) => string;
+}
+
+export interface RenderedNotification {
+  /** The space's managers (Telegram and email), or one visitor by email */
+  to: 'managers' | { email: string };
+  subject: string;
+  text: string;
+}
+
+/** e.g. "Mon, 2 Mar" */
+export function formatNotificationDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-GB', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    timeZone: 'UTC',
+  });
+}
+
+function formatDays(startDate: string, endDate: string): string {
+  return startDate === endDate
+    ? formatNotificationDate(startDate)
+    : `${formatNotificationDate(startDate)} – ${formatNotificationDate(endDate)}`;
+}
+
+function formatMoney(amount: number, currency: string): string {
+  return new Intl.NumberFormat('en', { style: 'currency', currency }).format(amount);
+}
+
+export function waitlistClaimUrl(origin: string, orgSlug: string, token: string): string {
+  return `${origin}/book/${orgSlug}/claim/${token}`;
+}
+
+export function renderBookingNotification(
+  notification: BookingNotification,
+  context: NotificationContext,
+): RenderedNotification {
+  switch (notification.event) {
+    case 'cancelled': {
+      const change = notification.payload;
+      const visitor = change.visitorName ?? 'A visitor';
+      const lines = [
+        `${visitor} cancelled their booking of ${context.deskLabel(change.deskId)} on ${formatNotificationDate(change.previousDate)} from the share link.`,
+      ];
+      if (change.fee) lines.push(`A late cancellation fee of ${formatMoney(change.fee, context.currency)} was recorded.`);
+      if (change.refundRequired) lines.push('They paid online, so the payment needs a refund.');
+      return {
+        to: 'managers',
+        subject: `Booking cancelled: ${visitor}, ${formatNotificationDate(change.previousDate)}`,
+        text: lines.join('\n'),
+      };
+    }
+    case 'rescheduled': {
+      const change = notification.payload;
+      const visitor = change.visitorName ?? 'A visitor';
+      const date = formatNotificationDate(change.date ?? change.previousDate);
+      return {
+        to: 'managers',
+        subject: `Booking moved: ${visitor} to ${date}`,
+        text: `${visitor} moved their booking from ${formatNotificationDate(change.previousDate)} to ${date}, on ${context.deskLabel(change.deskId)}.`,
+      };
+    }
+    case 'hold_expired': {
+      const { holds } = notification.payload;
+      const names = Array.from(new Set(holds.map(h => h.personName || context.deskLabel(h.deskId))));
+      const lines = holds.map(h =>
+        `${context.deskLabel(h.deskId)}, ${formatDays(h.startDate, h.endDate)}${h.personName ? ` (${h.personName})` : ''}`);
+      return {
+        to: 'managers',
+        subject: `${holds.length} hold${holds.length === 1 ? '' : 's'} released: ${names.join(', ')}`,
+        text: ['Not paid in time, so these desks are free again:', ...lines].join('\n'),
+      };
+    }
+    case 'waitlist_joined': {
+      const entry = notification.payload;
+      const lines = [
+        `${entry.name} joined the waiting list from the booking page for ${formatDays(entry.startDate, entry.endDate)}.`,
+        `Contact: ${[entry.email, entry.phone].filter(Boolean).join(', ')}`,
+      ];
+      if (entry.notes) lines.push(`Notes: ${entry.notes}`);
+      return {
+        to: 'managers',
+        subject: `Waiting list: ${entry.name}, ${formatDays(entry.startDate, entry.endDate)}`,
+        text: lines.join('\n'),
+      };
+    }
+    case 'waitlist_offer': {
+      const offer = notification.payload;
+      const expires = new Date(offer.expiresAt).toLocaleString('en-GB', {
+        weekday: 'short',
+        day: 'numeric',
+        month: 'short',
+        hour: '2-digit',
+        minute: '2-digit',
+        timeZone: context.timeZone,
+      });
+      return {
+        to: { email: offer.email },
+        subject: `A desk is free for you: ${formatDays(offer.startDate, offer.endDate)}`,
+        text: [
+          `Hi ${offer.name},`,
+          `${context.deskLabel(offer.deskId)} at ${context.orgName} is free for ${formatDays(offer.startDate, offer.endDate)}.`,
+          `Claim it before ${expires}: ${waitlistClaimUrl(context.appUrl, offer.orgSlug, offer.token)}`,
+          'After that the desk is offered to the next person on the waiting list.',
+        ].join('\n'),
+      };
+    }
+    case 'waitlist_claimed': {
+      const claim = notification.payload;
+      return {
+        to: 'managers',
+        subject: `Waiting list desk claimed: ${claim.visitorName}`,
+        text: `${claim.visitorName} claimed ${claim.deskLabel} for ${formatDays(claim.startDate, claim.endDate)} from their waiting-list offer.`,
+      };
+    }
+  }
+}
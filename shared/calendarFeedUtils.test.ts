@@ -10,6 +10,9 @@ import {
   addDaysToDateOnly,
   toEpochDay,
   detectRuns,
+  eventStatus,
+  holdSummary,
+  isExpiredHold,
 } from './calendarFeedUtils';
 
 describe('escapeIcsText', () => {
@@ -366,3 +369,23 @@ describe('detectRuns', () => {
     expect(runs[0].rows[0].bookingId).toBe(1);
   });
 });
+
+describe('holds', () => {
+  const now = new Date('2026-04-14T12:00:00Z');
+  const hold = { status: 'booked', held_until: '2026-04-14T18:00:00Z' };
+  const expired = { status: 'booked', held_until: '2026-04-14T09:00:00Z' };
+  const booked = { status: 'booked', held_until: null };
+
+  it('marks running holds as tentative', () => {
+    expect(eventStatus(hold, now)).toBe('TENTATIVE');
+    expect(eventStatus(booked, now)).toBe('CONFIRMED');
+    expect(holdSummary('Alex arrives', hold, now)).toBe('[Hold] Alex arrives');
+    expect(holdSummary('Alex arrives', booked, now)).toBe('Alex arrives');
+  });
+
+  it('flags expired holds so the feed can drop them', () => {
+    expect(isExpiredHold(expired, now)).toBe(true);
+    expect(isExpiredHold(hold, now)).toBe(false);
+    expect(isExpiredHold({ status: 'assigned', held_until: '2026-04-14T09:00:00Z' }, now)).toBe(false);
+  });
+});
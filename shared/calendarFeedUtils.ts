@@ -75,6 +75,36 @@ export function triggerDuration(minutes: number): string {
   return `-PT${minutes}M`;
 }
 
+// ─── Holds ────────────────────────────────────────────────────────────────
+
+/**
+ * Feed view of a tentative hold (a booked row with `held_until`). Holds go
+ * out as STATUS:TENTATIVE with the summary marked, so they stand apart from
+ * confirmed bookings; an expired hold is left out of the feed altogether.
+ */
+export interface HoldRow {
+  status: string;
+  held_until?: string | null;
+}
+
+export function isActiveHold(row: HoldRow, now: Date = new Date()): boolean {
+  return row.status === 'booked' && !!row.held_until && new Date(row.held_until).getTime() > now.getTime();
+}
+
+export function isExpiredHold(row: HoldRow, now: Date = new Date()): boolean {
+  return row.status === 'booked' && !!row.held_until && !isActiveHold(row, now);
+}
+
+/** VEVENT STATUS value: TENTATIVE for a hold, CONFIRMED otherwise. */
+export function eventStatus(row: HoldRow, now: Date = new Date()): 'TENTATIVE' | 'CONFIRMED' {
+  return isActiveHold(row, now) ? 'TENTATIVE' : 'CONFIRMED';
+}
+
+/** Prefixes a hold's SUMMARY: "Alex arrives" → "[Hold] Alex arrives". */
+export function holdSummary(summary: string, row: HoldRow, now: Date = new Date()): string {
+  return isActiveHold(row, now) ? `[Hold] ${summary}` : summary;
+}
+
 // ─── Date helpers ─────────────────────────────────────────────────────────
 
 /**
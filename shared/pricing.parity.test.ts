@@ -0,0 +1,146 @@
+import { readFileSync } from 'fs';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { PGlite } from '@electric-sql/pglite';
+import type { DayPart, PricingCustomer, PricingRule } from './schema';
+import { quotePrice, type PricingSettings } from './pricing';
+
+// quote_price in the pricing migration prices what the booking pages show
+// with quotePrice. Both run here on the same rules and days.
+
+const migration = readFileSync(
+  new URL('../supabase/migrations/20260301000017_add_pricing_rules.sql', import.meta.url),
+  'utf8',
+);
+
+function rule(overrides: Partial<PricingRule> & Pick<PricingRule, 'id' | 'kind'>): PricingRule {
+  return { label: overrides.id, adjustmentType: 'percent', amount: 0, ...overrides };
+}
+
+const weekend = rule({ id: 'Weekend', kind: 'day_rate', adjustmentType: 'fixed', amount: 5, weekdays: [6, 7] });
+const summer = rule({ id: 'Summer', kind: 'season', amount: 20, startDate: '2026-07-01', endDate: '2026-08-31' });
+const window = rule({ id: 'Window desk', kind: 'premium', adjustmentType: 'fixed', amount: 2, deskIds: ['room1-desk1'] });
+const quietRoom = rule({ id: 'Quiet room', kind: 'premium', amount: 10, roomIds: ['r2'] });
+const tenDays = rule({ id: '10+ days', kind: 'long_stay', amount: -10, minDays: 10 });
+const twentyDays = rule({ id: '20+ days', kind: 'long_stay', adjustmentType: 'fixed', amount: -1, minDays: 20 });
+const members = rule({ id: 'Members', kind: 'customer_rate', amount: -25, customer: 'member' });
+const visitors = rule({ id: 'Visitors', kind: 'customer_rate', adjustmentType: 'fixed', amount: 0.5, customer: 'visitor' });
+const allRules = [weekend, summer, window, quietRoom, tenDays, twentyDays, members, visitors];
+
+const desks = [
+  { deskId: 'room1-desk1', roomId: 'r1' },
+  { deskId: 'room1-desk2', roomId: 'r1' },
+  { deskId: 'r2-desk1', roomId: 'r2' },
+];
+const roomOf = new Map(desks.map(d => [d.deskId, d.roomId]));
+
+/** `count` consecutive days from `start`, on `deskId` */
+function stay(start: string, count: number, deskId: string): { date: string; deskId: string }[] {
+  return Array.from({ length: count }, (_, i) => {
+    const day = new Date(start + 'T00:00:00Z');
+    day.setUTCDate(day.getUTCDate() + i);
+    return { date: day.toISOString().slice(0, 10), deskId };
+  });
+}
+
+interface Scenario {
+  name: string;
+  settings?: Partial<PricingSettings>;
+  plan: 'day_pass' | 'flex';
+  days: { date: string; deskId: string }[];
+  dayPart?: DayPart;
+  customer: PricingCustomer;
+}
+
+const base: PricingSettings = {
+  defaultPricePerDay: 10,
+  halfDayPrice: 6,
+  flexPlanPrice: 90,
+  flexPlanDays: 10,
+  pricingRules: allRules,
+};
+
+const scenarios: Scenario[] = [
+  { name: 'a flat day without rules', settings: { pricingRules: [] }, plan: 'day_pass', days: stay('2026-03-02', 1, 'room1-desk2'), customer: 'visitor' },
+  { name: 'a weekend on the window desk', plan: 'day_pass', days: stay('2026-03-06', 3, 'room1-desk1'), customer: 'visitor' },
+  { name: 'a summer weekend in the quiet room', plan: 'day_pass', days: stay('2026-07-03', 3, 'r2-desk1'), customer: 'visitor' },
+  { name: 'a ten-day member stay', plan: 'day_pass', days: stay('2026-03-02', 12, 'room1-desk2'), customer: 'member' },
+  { name: 'a stay over both long-stay discounts', plan: 'day_pass', days: stay('2026-06-20', 21, 'room1-desk1'), customer: 'visitor' },
+  { name: 'summer mornings', plan: 'day_pass', days: stay('2026-06-29', 4, 'r2-desk1'), dayPart: 'am', customer: 'visitor' },
+  {
+    name: 'half days without a half-day price',
+    settings: { halfDayPrice: null },
+    plan: 'day_pass',
+    days: stay('2026-03-07', 2, 'room1-desk1'),
+    dayPart: 'pm',
+    customer: 'member',
+  },
+  { name: 'flex visits over a weekend', plan: 'flex', days: stay('2026-08-28', 4, 'room1-desk1'), customer: 'member' },
+  {
+    name: 'flex visits that do not split evenly',
+    settings: { flexPlanPrice: 100, flexPlanDays: 7 },
+    plan: 'flex',
+    days: [...stay('2026-03-02', 2, 'r2-desk1'), ...stay('2026-03-04', 3, 'room1-desk2')],
+    customer: 'member',
+  },
+  { name: 'flex without a flex price', settings: { flexPlanPrice: null }, plan: 'flex', days: stay('2026-03-02', 2, 'room1-desk1'), customer: 'member' },
+];
+
+describe('quote_price matches quotePrice', () => {
+  let db: PGlite;
+
+  beforeAll(async () => {
+    db = new PGlite();
+    await db.exec(`
+      CREATE ROLE anon;
+      CREATE ROLE authenticated;
+      CREATE TABLE organizations (
+        id TEXT PRIMARY KEY,
+        slug TEXT,
+        default_price_per_day NUMERIC,
+        half_day_price NUMERIC,
+        flex_plan_price NUMERIC,
+        flex_plan_days INT
+      );
+      CREATE TABLE desks (organization_id TEXT, desk_id TEXT, room_id TEXT);
+    `);
+    await db.exec(migration);
+    for (const desk of desks) {
+      await db.query('INSERT INTO desks VALUES ($1, $2, $3)', ['org', desk.deskId, desk.roomId]);
+    }
+  }, 30_000);
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  it.each(scenarios)('for $name', async ({ settings: overrides, plan, days, dayPart = 'full', customer }) => {
+    const settings = { ...base, ...overrides };
+    await db.query('DELETE FROM organizations');
+    await db.query(
+      `INSERT INTO organizations (id, slug, default_price_per_day, half_day_price, flex_plan_price, flex_plan_days, pricing_rules)
+       VALUES ('org', 'org', $1, $2, $3, $4, $5)`,
+      [
+        settings.defaultPricePerDay,
+        settings.halfDayPrice ?? null,
+        settings.flexPlanPrice ?? null,
+        settings.flexPlanDays ?? null,
+        JSON.stringify(settings.pricingRules ?? []),
+      ],
+    );
+
+    const { rows } = await db.query<{ date: string; price: number }>(
+      `SELECT q.date::TEXT AS date, q.price::FLOAT8 AS price
+       FROM organizations o, quote_price(o, $1, $2, $3, $4) AS q
+       WHERE o.id = 'org'`,
+      [plan, JSON.stringify(days), dayPart, customer],
+    );
+    const quote = quotePrice(settings, {
+      plan,
+      days: days.map(d => ({ ...d, roomId: roomOf.get(d.deskId) })),
+      dayPart,
+      customer,
+    });
+
+    expect(rows).toEqual(quote?.days ?? []);
+  });
+});
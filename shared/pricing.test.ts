@@ -0,0 +1,169 @@
+import { describe, it, expect } from 'vitest';
+import type { PricingRule } from './schema';
+import { isoWeekday, quotePrice, validatePricingRule, type PricingSettings } from './pricing';
+
+function rule(overrides: Partial<PricingRule> & Pick<PricingRule, 'id' | 'kind'>): PricingRule {
+  return { label: overrides.id, adjustmentType: 'percent', amount: 0, ...overrides };
+}
+
+const weekend = rule({ id: 'Weekend', kind: 'day_rate', adjustmentType: 'fixed', amount: 5, weekdays: [6, 7] });
+const summer = rule({ id: 'Summer', kind: 'season', amount: 20, startDate: '2026-07-01', endDate: '2026-08-31' });
+const window = rule({ id: 'Window desk', kind: 'premium', adjustmentType: 'fixed', amount: 2, deskIds: ['room1-desk1'] });
+const quietRoom = rule({ id: 'Quiet room', kind: 'premium', amount: 10, roomIds: ['r2'] });
+const tenDays = rule({ id: '10+ days', kind: 'long_stay', amount: -10, minDays: 10 });
+const twentyDays = rule({ id: '20+ days', kind: 'long_stay', amount: -20, minDays: 20 });
+const members = rule({ id: 'Members', kind: 'customer_rate', amount: -25, customer: 'member' });
+
+const settings: PricingSettings = {
+  defaultPricePerDay: 10,
+  halfDayPrice: 6,
+  weeklyPlanPrice: 40,
+  flexPlanPrice: 90,
+  flexPlanDays: 10,
+  pricingRules: [weekend, summer, window, quietRoom, tenDays, twentyDays, members],
+};
+
+// Mon 2 – Fri 13 March 2026 on weekdays
+const twoWeeks = ['02', '03', '04', '05', '06', '09', '10', '11', '12', '13'].map(d => ({ date: `2026-03-${d}` }));
+
+describe('isoWeekday', () => {
+  it('numbers Monday 1 to Sunday 7', () => {
+    expect(isoWeekday('2026-03-02')).toBe(1);
+    expect(isoWeekday('2026-03-08')).toBe(7);
+  });
+});
+
+describe('quotePrice', () => {
+  it('is the flat price when no rule applies', () => {
+    const quote = quotePrice({ ...settings, pricingRules: [] }, { plan: 'day_pass', days: [{ date: '2026-03-02' }] });
+    expect(quote).toEqual({
+      price: 10,
+      lines: [{ label: 'Day pass, 1 day', amount: 10 }],
+      days: [{ date: '2026-03-02', price: 10 }],
+    });
+  });
+
+  it('replaces the day price on weekend days', () => {
+    const quote = quotePrice(settings, { plan: 'custom', days: [{ date: '2026-03-06' }, { date: '2026-03-07' }] });
+    expect(quote?.lines).toEqual([
+      { label: 'Day pass, 2 days', amount: 20 },
+      { label: 'Weekend, 1 day', amount: -5, ruleId: 'Weekend' },
+    ]);
+    expect(quote?.days).toEqual([{ date: '2026-03-06', price: 10 }, { date: '2026-03-07', price: 5 }]);
+  });
+
+  it('adds seasonal and desk or room premiums on the day price', () => {
+    const quote = quotePrice(settings, {
+      plan: 'day_pass',
+      days: [{ date: '2026-07-04', deskId: 'room1-desk1' }],
+    });
+    // Weekend rate 5, +20% summer on it, +2 for the window desk
+    expect(quote?.price).toBe(8);
+    expect(quote?.lines.map(l => l.label)).toEqual(['Day pass, 1 day', 'Weekend', 'Summer', 'Window desk']);
+
+    const room = quotePrice(settings, { plan: 'day_pass', days: [{ date: '2026-03-02', deskId: 'room2-desk1', roomId: 'r2' }] });
+    expect(room?.price).toBe(11);
+  });
+
+  it('takes the best length-of-stay discount the stay qualifies for', () => {
+    expect(quotePrice(settings, { plan: 'custom', days: twoWeeks })?.lines).toEqual([
+      { label: 'Day pass, 10 days', amount: 100 },
+      { label: '10+ days', amount: -10, ruleId: '10+ days' },
+    ]);
+    expect(quotePrice(settings, { plan: 'custom', days: twoWeeks.slice(0, 9) })?.price).toBe(90);
+  });
+
+  it('applies member rates after the stay discount, and only to members', () => {
+    expect(quotePrice(settings, { plan: 'custom', days: twoWeeks, customer: 'member' })?.lines.slice(-1))
+      .toEqual([{ label: 'Members', amount: -22.5, ruleId: 'Members' }]);
+    expect(quotePrice(settings, { plan: 'custom', days: twoWeeks, customer: 'visitor' })?.price).toBe(90);
+  });
+
+  it('keeps half-day and plan prices instead of day rates', () => {
+    expect(quotePrice(settings, { plan: 'day_pass', dayPart: 'am', days: [{ date: '2026-03-07' }] })?.price).toBe(6);
+    // The weekly price is shared out over its days; no stay discount on plans
+    const weekly = quotePrice(settings, {
+      plan: 'weekly',
+      days: twoWeeks.slice(0, 5).map(d => ({ ...d, deskId: 'room1-desk1' })),
+    });
+    expect(weekly?.lines).toEqual([
+      { label: 'Weekly plan', amount: 40 },
+      { label: 'Window desk', amount: 10, ruleId: 'Window desk' },
+    ]);
+  });
+
+  it('prices flex visits from the flex plan', () => {
+    expect(quotePrice(settings, { plan: 'flex', days: [{ date: '2026-03-02' }], customer: 'member' })?.price).toBe(6.75);
+  });
+
+  it('is null when the plan has no price', () => {
+    expect(quotePrice(settings, { plan: 'monthly', days: twoWeeks })).toBeNull();
+  });
+
+  it('splits the price over the days so the rows add up', () => {
+    const quote = quotePrice({ defaultPricePerDay: 10, pricingRules: [members] }, {
+      plan: 'custom',
+      days: twoWeeks.slice(0, 3),
+      customer: 'member',
+    });
+    expect(quote?.price).toBe(22.5);
+    expect(quote?.days.map(d => d.price)).toEqual([7.5, 7.5, 7.5]);
+  });
+
+  it('takes fixed stay discounts and customer rates per charged day', () => {
+    const week = rule({ id: 'Week', kind: 'long_stay', adjustmentType: 'fixed', amount: -1, minDays: 3 });
+    const visitors = rule({ id: 'Visitors', kind: 'customer_rate', adjustmentType: 'fixed', amount: 2, customer: 'visitor' });
+    const quote = quotePrice({ defaultPricePerDay: 10, pricingRules: [week, visitors] }, {
+      plan: 'day_pass',
+      days: twoWeeks.slice(0, 3),
+      customer: 'visitor',
+    });
+    expect(quote?.lines).toEqual([
+      { label: 'Day pass, 3 days', amount: 30 },
+      { label: 'Week', amount: -3, ruleId: 'Week' },
+      { label: 'Visitors', amount: 6, ruleId: 'Visitors' },
+    ]);
+    expect(quote?.price).toBe(33);
+  });
+
+  it('adds premiums to half days and counts season ends as in season', () => {
+    expect(quotePrice(settings, { plan: 'day_pass', dayPart: 'pm', days: [{ date: '2026-03-02', roomId: 'r2' }] })?.price)
+      .toBe(6.6);
+    expect(quotePrice(settings, { plan: 'day_pass', days: [{ date: '2026-08-31' }] })?.price).toBe(12);
+  });
+
+  it('leaves the rounding to the last day', () => {
+    const twoThirdsOff = rule({ id: 'Two thirds off', kind: 'customer_rate', amount: -66.67, customer: 'visitor' });
+    const quote = quotePrice({ defaultPricePerDay: 10, pricingRules: [twoThirdsOff] }, {
+      plan: 'day_pass',
+      days: twoWeeks.slice(0, 3),
+      customer: 'visitor',
+    });
+    expect(quote?.price).toBe(10);
+    expect(quote?.days.map(d => d.price)).toEqual([3.33, 3.33, 3.34]);
+  });
+
+  it('never goes below zero', () => {
+    const free = rule({ id: 'Free', kind: 'customer_rate', adjustmentType: 'fixed', amount: -50, customer: 'visitor' });
+    expect(quotePrice({ defaultPricePerDay: 10, pricingRules: [free] }, {
+      plan: 'day_pass',
+      days: [{ date: '2026-03-02' }],
+      customer: 'visitor',
+    })?.price).toBe(0);
+  });
+});
+
+describe('validatePricingRule', () => {
+  it('accepts complete rules', () => {
+    for (const r of [weekend, summer, window, tenDays, members]) expect(validatePricingRule(r)).toBeNull();
+  });
+
+  it('explains what is missing', () => {
+    expect(validatePricingRule({ ...summer, label: ' ' })).toBe('Give the rule a name.');
+    expect(validatePricingRule({ ...weekend, weekdays: [] })).toBe('Pick at least one weekday.');
+    expect(validatePricingRule({ ...summer, endDate: '2026-06-01' })).toBe('The season ends before it starts.');
+    expect(validatePricingRule({ ...window, deskIds: [] })).toBe('Pick a room or desk.');
+    expect(validatePricingRule({ ...tenDays, amount: -120 })).toBe('A discount cannot be more than 100%.');
+    expect(validatePricingRule({ ...members, amount: 0 })).toBe('Enter an amount other than zero.');
+  });
+});
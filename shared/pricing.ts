@@ -0,0 +1,239 @@
+// Pricing engine: a booking's price from the space's flat prices and its
+// pricing rules, with a line for every rule that changed it.
+//
+// Lives in `shared/` with no client-only imports, so it runs in Vitest next
+// to quote_price, the database function that prices the bookings
+// (see pricing.parity.test.ts).
+
+import type { DayPart, PlanType, PricingCustomer, PricingRule } from './schema';
+
+/** The flat prices of a space; an Organization or the public page's org fits. */
+export interface PricingSettings {
+  defaultPricePerDay: number;
+  halfDayPrice?: number | null;
+  weeklyPlanPrice?: number | null;
+  monthlyPlanPrice?: number | null;
+  flexPlanPrice?: number | null;
+  flexPlanDays?: number | null;
+  pricingRules?: readonly PricingRule[] | null;
+}
+
+/** A day the booking is charged for, on the desk it takes that day when known. */
+export interface PricedDay {
+  date: string;
+  deskId?: string | null;
+  roomId?: string | null;
+}
+
+export interface PriceQuoteInput {
+  plan: PlanType;
+  /** Charged days: open days only. Weekly and monthly plans spread their price over them. */
+  days: readonly PricedDay[];
+  dayPart?: DayPart;
+  /** Who books; customer rates are skipped when unknown. */
+  customer?: PricingCustomer;
+}
+
+export interface PriceLine {
+  label: string;
+  amount: number;
+  /** The rule behind the line; missing on the base price line. */
+  ruleId?: string;
+}
+
+export interface PriceQuote {
+  price: number;
+  /** Base price first, then every rule that changed it. Amounts add up to `price`. */
+  lines: PriceLine[];
+  /** `price` split over the days, for one booking row per day. */
+  days: { date: string; price: number }[];
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function plural(n: number, word: string): string {
+  return `${n} ${word}${n === 1 ? '' : 's'}`;
+}
+
+/** ISO weekday (1 = Monday … 7 = Sunday) of a YYYY-MM-DD date, whatever the local timezone. */
+export function isoWeekday(date: string): number {
+  const day = new Date(date + 'T00:00:00Z').getUTCDay();
+  return day === 0 ? 7 : day;
+}
+
+/** Day rates replace the day-pass price; plans and half days keep theirs. */
+function takesDayRate(plan: PlanType, dayPart: DayPart): boolean {
+  return (plan === 'day_pass' || plan === 'custom') && dayPart === 'full';
+}
+
+/** Length-of-stay discounts are for stays priced by the day; plans are already priced for length. */
+function takesLongStay(plan: PlanType): boolean {
+  return plan === 'day_pass' || plan === 'custom';
+}
+
+function basePrice(
+  settings: PricingSettings,
+  plan: PlanType,
+  dayCount: number,
+  dayPart: DayPart,
+): { total: number; label: string } | null {
+  switch (plan) {
+    case 'weekly':
+      return settings.weeklyPlanPrice ? { total: settings.weeklyPlanPrice, label: 'Weekly plan' } : null;
+    case 'monthly':
+      return settings.monthlyPlanPrice ? { total: settings.monthlyPlanPrice, label: 'Monthly plan' } : null;
+    case 'flex': {
+      if (!settings.flexPlanPrice || !settings.flexPlanDays) return null;
+      return { total: (settings.flexPlanPrice / settings.flexPlanDays) * dayCount, label: `Flex, ${plural(dayCount, 'visit')}` };
+    }
+    default: {
+      if (dayPart !== 'full') {
+        return { total: (settings.halfDayPrice ?? settings.defaultPricePerDay) * dayCount, label: `Half-day pass, ${plural(dayCount, 'day')}` };
+      }
+      return { total: settings.defaultPricePerDay * dayCount, label: `Day pass, ${plural(dayCount, 'day')}` };
+    }
+  }
+}
+
+function adjustment(rule: PricingRule, price: number): number {
+  return rule.adjustmentType === 'fixed' ? rule.amount : (price * rule.amount) / 100;
+}
+
+function appliesOnDay(rule: PricingRule, day: PricedDay): boolean {
+  switch (rule.kind) {
+    case 'season':
+      return !!rule.startDate && !!rule.endDate && rule.startDate <= day.date && day.date <= rule.endDate;
+    case 'premium':
+      return (!!day.deskId && !!rule.deskIds?.includes(day.deskId))
+        || (!!day.roomId && !!rule.roomIds?.includes(day.roomId));
+    default:
+      return false;
+  }
+}
+
+/**
+ * Price of a booking under the space's rules. Per day: the base price (the
+ * plan price shared out over the days for weekly and monthly plans), a day
+ * rate for the weekday, then season and desk or room adjustments on that.
+ * Over the stay: the best length-of-stay discount it qualifies for, then
+ * member or visitor rates. Null when the plan has no price set.
+ */
+export function quotePrice(settings: PricingSettings, input: PriceQuoteInput): PriceQuote | null {
+  const dayPart = input.dayPart ?? 'full';
+  const n = input.days.length;
+  const base = basePrice(settings, input.plan, n, dayPart);
+  if (!base) return null;
+
+  const rules = settings.pricingRules ?? [];
+  const deltas = new Map<string, { rule: PricingRule; amount: number; days: number }>();
+  const addDelta = (rule: PricingRule, amount: number, days: number) => {
+    const entry = deltas.get(rule.id) ?? { rule, amount: 0, days: 0 };
+    entry.amount += amount;
+    entry.days += days;
+    deltas.set(rule.id, entry);
+  };
+
+  const dayShare = n > 0 ? base.total / n : 0;
+  const dayPrices = input.days.map((day) => {
+    let price = dayShare;
+    if (takesDayRate(input.plan, dayPart)) {
+      const weekday = isoWeekday(day.date);
+      const rate = rules.find(r => r.kind === 'day_rate' && r.weekdays?.includes(weekday));
+      if (rate) {
+        addDelta(rate, rate.amount - price, 1);
+        price = rate.amount;
+      }
+    }
+    let adjusted = price;
+    for (const rule of rules) {
+      if (!appliesOnDay(rule, day)) continue;
+      const delta = adjustment(rule, price);
+      addDelta(rule, delta, 1);
+      adjusted += delta;
+    }
+    return adjusted;
+  });
+
+  let running = dayPrices.reduce((sum, p) => sum + p, 0);
+  if (takesLongStay(input.plan)) {
+    const longStay = rules
+      .filter(r => r.kind === 'long_stay' && (r.minDays ?? 0) <= n)
+      .sort((a, b) => (b.minDays ?? 0) - (a.minDays ?? 0))[0];
+    if (longStay) {
+      const delta = longStay.adjustmentType === 'fixed' ? longStay.amount * n : adjustment(longStay, running);
+      addDelta(longStay, delta, n);
+      running += delta;
+    }
+  }
+  if (input.customer) {
+    const stayPrice = running;
+    for (const rule of rules) {
+      if (rule.kind !== 'customer_rate' || rule.customer !== input.customer) continue;
+      const delta = rule.adjustmentType === 'fixed' ? rule.amount * n : adjustment(rule, stayPrice);
+      addDelta(rule, delta, n);
+      running += delta;
+    }
+  }
+
+  const lines: PriceLine[] = [{ label: base.label, amount: round2(base.total) }];
+  // Rules in the order they were applied, which is the order of `rules`
+  // except that day rates come first and stay-wide rules last
+  const order: PricingRule['kind'][] = ['day_rate', 'season', 'premium', 'long_stay', 'customer_rate'];
+  const applied = Array.from(deltas.values())
+    .sort((a, b) => order.indexOf(a.rule.kind) - order.indexOf(b.rule.kind));
+  for (const { rule, amount, days } of applied) {
+    const rounded = round2(amount);
+    if (rounded === 0) continue;
+    const perDay = rule.kind === 'day_rate' || rule.kind === 'season' || rule.kind === 'premium';
+    const label = perDay && days < n ? `${rule.label}, ${plural(days, 'day')}` : rule.label;
+    lines.push({ label, amount: rounded, ruleId: rule.id });
+  }
+
+  const price = Math.max(0, round2(lines.reduce((sum, line) => sum + line.amount, 0)));
+  return { price, lines, days: splitOverDays(price, input.days, dayPrices) };
+}
+
+// Each day's share of `price` in proportion to its own price; the last day
+// takes the rounding so the rows add up to the quote.
+function splitOverDays(price: number, days: readonly PricedDay[], weights: number[]): { date: string; price: number }[] {
+  if (days.length === 0) return [];
+  const totalWeight = weights.reduce((sum, w) => sum + Math.max(0, w), 0);
+  let assigned = 0;
+  return days.map((day, i) => {
+    if (i === days.length - 1) return { date: day.date, price: round2(price - assigned) };
+    const share = totalWeight > 0 ? Math.max(0, weights[i]) / totalWeight : 1 / days.length;
+    const dayPrice = round2(price * share);
+    assigned += dayPrice;
+    return { date: day.date, price: dayPrice };
+  });
+}
+
+/** What is wrong with a rule, or null when it can be saved. */
+export function validatePricingRule(rule: PricingRule): string | null {
+  if (!rule.label.trim()) return 'Give the rule a name.';
+  if (!Number.isFinite(rule.amount)) return 'Enter an amount.';
+  switch (rule.kind) {
+    case 'day_rate':
+      if (!rule.weekdays?.length) return 'Pick at least one weekday.';
+      if (rule.amount < 0) return 'A day rate cannot be negative.';
+      return null;
+    case 'season':
+      if (!rule.startDate || !rule.endDate) return 'Pick the first and last day of the season.';
+      if (rule.endDate < rule.startDate) return 'The season ends before it starts.';
+      break;
+    case 'premium':
+      if (!rule.roomIds?.length && !rule.deskIds?.length) return 'Pick a room or desk.';
+      break;
+    case 'long_stay':
+      if (!rule.minDays || rule.minDays < 2) return 'A stay discount needs at least 2 days.';
+      break;
+    case 'customer_rate':
+      if (!rule.customer) return 'Pick members or visitors.';
+      break;
+  }
+  if (rule.amount === 0) return 'Enter an amount other than zero.';
+  if (rule.adjustmentType === 'percent' && rule.amount < -100) return 'A discount cannot be more than 100%.';
+  return null;
+}
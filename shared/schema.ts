@@ -11,6 +11,11 @@ export const planTypeSchema = z.enum([
 ]);
 export type PlanType = z.infer<typeof planTypeSchema>;
 
+// Part of the day a booking covers. Rows without one are full-day bookings;
+// a morning and an afternoon booking can share a desk on the same date.
+export const dayPartSchema = z.enum(["full", "am", "pm"]);
+export type DayPart = z.infer<typeof dayPartSchema>;
+
 export const currencySchema = z.string().regex(/^[A-Z]{3}$/, 'Must be a 3-letter ISO currency code');
 
 export const orgMemberRoleSchema = z.enum(["owner", "admin", "member"]);
@@ -41,9 +46,70 @@ export const deskBookingSchema = z.object({
   paymentStatus: z.enum(['pending', 'paid', 'refunded', 'failed']).nullable().optional(),
   stripeCheckoutSessionId: z.string().nullable().optional(),
   stripePaymentIntentId: z.string().nullable().optional(),
+  // Occurrence of a recurring series (see bookingSeriesSchema); each
+  // occurrence is its own single-day run.
+  seriesId: z.string().nullable().optional(),
+  // Desk of a group booking (see bookingGroupSchema) — several desks booked
+  // together by one company
+  bookingGroupId: z.string().nullable().optional(),
+  dayPart: dayPartSchema.optional(),
+  // The person didn't turn up on this day; the desk stays theirs
+  noShow: z.boolean().optional(),
+  // When the person checked in on this day (ISO timestamp)
+  checkedInAt: z.string().nullable().optional(),
+  // Tentative hold: a booked row that frees itself at this moment (ISO
+  // timestamp) unless it is paid for first
+  heldUntil: z.string().nullable().optional(),
   createdAt: z.string(),
 });
 
+// Cancellation and no-show policy of a space. Cancelling a booking later than
+// freeCancellationHours before it starts, or not turning up, charges a fee:
+// a percentage of the booking's price or a fixed amount.
+export const policyFeeTypeSchema = z.enum(['percent', 'fixed']);
+
+export const bookingPolicySchema = z.object({
+  freeCancellationHours: z.number().default(24),
+  lateCancellationFeeType: policyFeeTypeSchema.default('percent'),
+  lateCancellationFee: z.number().default(0),
+  noShowFeeType: policyFeeTypeSchema.default('percent'),
+  noShowFee: z.number().default(0),
+  // Shown to visitors as written; generated from the rules when empty
+  text: z.string().nullable().optional(),
+});
+export type PolicyFeeType = z.infer<typeof policyFeeTypeSchema>;
+export type BookingPolicy = z.infer<typeof bookingPolicySchema>;
+
+// Pricing rules of a space, applied over its flat prices by shared/pricing.ts.
+// A day rate replaces the day-pass price on some weekdays; the other kinds
+// adjust the price by a percentage or a fixed amount a day, negative for a
+// discount.
+export const pricingRuleKindSchema = z.enum(['day_rate', 'season', 'premium', 'long_stay', 'customer_rate']);
+export const pricingCustomerSchema = z.enum(['member', 'visitor']);
+
+export const pricingRuleSchema = z.object({
+  id: z.string(),
+  kind: pricingRuleKindSchema,
+  label: z.string(),
+  adjustmentType: policyFeeTypeSchema.default('percent'),
+  amount: z.number(),
+  // day_rate: ISO weekdays (1 = Monday) it applies on
+  weekdays: z.array(z.number()).optional(),
+  // season: inclusive YYYY-MM-DD range
+  startDate: z.string().optional(),
+  endDate: z.string().optional(),
+  // premium: rooms and desks (by desk id, e.g. "room1-desk2") it applies to
+  roomIds: z.array(z.string()).optional(),
+  deskIds: z.array(z.string()).optional(),
+  // long_stay: charged days from which it applies
+  minDays: z.number().optional(),
+  // customer_rate: who it applies to
+  customer: pricingCustomerSchema.optional(),
+});
+export type PricingRuleKind = z.infer<typeof pricingRuleKindSchema>;
+export type PricingCustomer = z.infer<typeof pricingCustomerSchema>;
+export type PricingRule = z.infer<typeof pricingRuleSchema>;
+
 export const sharedBookingSchema = z.object({
   deskId: z.string(),
   startDate: z.string(),
@@ -59,15 +125,54 @@ export const sharedBookingSchema = z.object({
   contactTelegram: z.string().nullable().optional(),
   contactViberEnabled: z.boolean().default(false),
   contactWhatsappEnabled: z.boolean().default(false),
+  /** IANA timezone of the space; the change cutoff is counted from midnight there. */
+  timezone: z.string().optional(),
+  paymentStatus: z.enum(['pending', 'paid', 'refunded', 'failed']).nullable().optional(),
+  rescheduleCount: z.number().default(0),
+  /** The space's rules for changes from the share link; null when it takes them by phone only. */
+  visitorChanges: z.object({
+    cutoffHours: z.number(),
+    maxReschedules: z.number(),
+  }).nullable().optional(),
+  /** Days the booking can move to: a desk is free there for the whole booking. */
+  rescheduleDates: z.array(z.string()).optional(),
+  /** The space's cancellation policy, with the booking's price to charge a late fee on. */
+  bookingPolicy: bookingPolicySchema.nullable().optional(),
+  price: z.number().nullable().optional(),
+  currency: z.string().optional(),
+  /** When the visitor checked in, on the booking's day. */
+  checkedInAt: z.string().nullable().optional(),
 });
 
 export type SharedBooking = z.infer<typeof sharedBookingSchema>;
 
+export const waitlistOfferSchema = z.object({
+  deskId: z.string(),
+  startDate: z.string(),
+  endDate: z.string(),
+  token: z.string(),
+  expiresAt: z.string(),
+});
+
 export const waitingListEntrySchema = z.object({
   id: z.string(),
   name: z.string(),
-  preferredDates: z.string(),
+  // Free-text dates of entries made before the structured fields below
+  preferredDates: z.string().optional(),
+  // Days the person needs a desk (YYYY-MM-DD). A missing start means as soon
+  // as possible; a missing end means the length of `planType` from the start.
+  startDate: z.string().nullable().optional(),
+  endDate: z.string().nullable().optional(),
+  planType: planTypeSchema.nullable().optional(),
+  // Desk they would like; another desk with `deskAttributes` also matches
+  deskId: z.string().nullable().optional(),
+  deskAttributes: z.array(z.string()).optional(),
+  clientId: z.string().nullable().optional(),
   contactInfo: z.string().optional(),
+  // Where offers are emailed; set on sign-ups from the public booking page
+  contactEmail: z.string().nullable().optional(),
+  // Desk offered when one freed up; claimable through its link until it expires
+  offer: waitlistOfferSchema.nullable().optional(),
   notes: z.string().optional(),
   organizationId: z.string().optional(),
   createdAt: z.string(),
@@ -85,6 +190,7 @@ export const deskSchema = z.object({
   number: z.number(),
   label: z.string(),
   roomName: z.string().optional(),
+  attributes: z.array(z.string()).optional(),
 });
 
 export const bulkAvailabilitySchema = z.object({
@@ -94,6 +200,17 @@ export const bulkAvailabilitySchema = z.object({
   status: deskStatusSchema,
 });
 
+// A day or date range the whole space is closed (public holiday, summer
+// break). Closed days count as non-working days everywhere.
+export const orgClosureSchema = z.object({
+  id: z.string(),
+  startDate: z.string(), // YYYY-MM-DD
+  endDate: z.string(), // YYYY-MM-DD, inclusive; equals startDate for a single day
+  label: z.string(),
+  // Code of the holiday set it was imported from (e.g. 'BG'); unset when added by hand
+  holidaySet: z.string().nullable().optional(),
+});
+
 // Multi-tenancy schemas
 export const organizationSchema = z.object({
   id: z.string(),
@@ -107,8 +224,21 @@ export const organizationSchema = z.object({
   floorPlanUrl: z.string().nullable().optional(),
   logoUrl: z.string().nullable().optional(),
   workingDays: z.array(z.number()).default([1, 2, 3, 4, 5]),
+  closures: z.array(orgClosureSchema).default([]),
   publicBookingEnabled: z.boolean().default(false),
   publicBookingMaxDaysAhead: z.number().default(14),
+  // Share-link holders may cancel or move their booking themselves
+  visitorChangesEnabled: z.boolean().default(false),
+  visitorChangeCutoffHours: z.number().default(24),
+  visitorMaxReschedules: z.number().default(1),
+  // Null when the space charges no cancellation or no-show fees
+  bookingPolicy: bookingPolicySchema.nullable().optional(),
+  // "HH:MM" in the space's timezone: day-pass desks nobody checked in to by
+  // then are freed to sell again. Null keeps them all day.
+  autoReleaseTime: z.string().nullable().optional(),
+  // Public bookings paid at the space are held this many hours, then
+  // released. Null keeps them until staff remove them.
+  publicHoldHours: z.number().nullable().optional(),
   contactPhone: z.string().nullable().optional(),
   contactEmail: z.string().nullable().optional(),
   contactTelegram: z.string().nullable().optional(),
@@ -118,6 +248,9 @@ export const organizationSchema = z.object({
   flexPlanPrice: z.number().nullable().optional(),
   weeklyPlanPrice: z.number().nullable().optional(),
   monthlyPlanPrice: z.number().nullable().optional(),
+  // Price of a morning or afternoon day pass; null when half days aren't sold
+  halfDayPrice: z.number().nullable().optional(),
+  pricingRules: z.array(pricingRuleSchema).default([]),
   groupId: z.string().nullable().optional(),
   floorPlanCombined: z.boolean().default(false),
   stripePublishableKey: z.string().nullable().optional(),
@@ -166,6 +299,8 @@ export const orgDeskSchema = z.object({
   label: z.string(),
   deskId: z.string(), // legacy desk_id like "room1-desk1"
   sortOrder: z.number().default(0),
+  // Free-text tags such as "Dual monitor" or "Window seat"
+  attributes: z.array(z.string()).default([]),
   createdAt: z.string(),
 });
 
@@ -176,12 +311,14 @@ export type BulkAvailability = z.infer<typeof bulkAvailabilitySchema>;
 export type Currency = z.infer<typeof currencySchema>;
 export type AppSettings = z.infer<typeof appSettingsSchema>;
 export type WaitingListEntry = z.infer<typeof waitingListEntrySchema>;
+export type WaitlistOffer = z.infer<typeof waitlistOfferSchema>;
 export type Organization = z.infer<typeof organizationSchema>;
 export type OrganizationGroup = z.infer<typeof organizationGroupSchema>;
 export type OrganizationMember = z.infer<typeof organizationMemberSchema>;
 export type Room = z.infer<typeof roomSchema>;
 export type OrgDesk = z.infer<typeof orgDeskSchema>;
 export type OrgMemberRole = z.infer<typeof orgMemberRoleSchema>;
+export type OrgClosure = z.infer<typeof orgClosureSchema>;
 
 // Client (space visitor/member) schema
 // TODO: Consider adding more fields as needs become clear. Candidates:
@@ -356,6 +493,7 @@ export interface PublicAvailabilityDesk {
   id: string;
   deskId: string;
   label: string;
+  attributes?: string[];
 }
 
 export interface PublicAvailabilityRoom {
@@ -371,6 +509,10 @@ export interface PublicAvailability {
     slug: string;
     currency: string;
     workingDays: number[];
+    /** IANA timezone day boundaries are computed in; the visitor's own when missing. */
+    timezone?: string;
+    /** Closed days and ranges; nothing is bookable on them. */
+    closures?: { startDate: string; endDate: string; label?: string }[];
     maxDaysAhead: number;
     logoUrl: string | null;
     contactPhone: string | null;
@@ -379,10 +521,83 @@ export interface PublicAvailability {
     contactViberEnabled: boolean;
     contactWhatsappEnabled: boolean;
     defaultPricePerDay: number;
+    halfDayPrice?: number | null;
+    pricingRules?: PricingRule[];
     stripePublicBookingPayments: boolean;
+    bookingPolicy?: BookingPolicy | null;
+    /** Hours a public booking awaiting payment is held; null holds it indefinitely. */
+    publicHoldHours?: number | null;
   };
   rooms: PublicAvailabilityRoom[];
-  bookedSlots: { deskId: string; date: string }[];
+  /**
+   * Missing `dayPart` means the desk is taken for the whole day. Holds carry
+   * `heldUntil` and stop taking the desk once it has passed.
+   */
+  bookedSlots: { deskId: string; date: string; dayPart?: DayPart | null; heldUntil?: string | null }[];
+  /** Desk-days taken out of service. Never sold, whatever the bookings say. */
+  blockedSlots?: { deskId: string; date: string }[];
+}
+
+/** A booking from the public page as the server priced and held it. */
+export interface PublicBookingResult {
+  /** When the unpaid booking is released; null when the space keeps it. */
+  heldUntil: string | null;
+  price: number;
+  currency: string;
+  days: { date: string; deskId: string; price: number }[];
+}
+
+/** A flex member's self-booking as the server priced it. */
+export interface MemberBookingResult {
+  price: number;
+  currency: string;
+  days: { date: string; deskId: string; price: number }[];
+}
+
+/** What a cancel or reschedule from the share link changed, for the manager's notification. */
+export interface SharedBookingChange {
+  organizationId: string;
+  deskId: string;
+  visitorName: string | null;
+  /** First day of the booking before the change. */
+  previousDate: string;
+  /** First day after a reschedule; null when cancelled. */
+  date: string | null;
+  /** The visitor paid online, so the manager has to refund or credit them. */
+  refundRequired: boolean;
+  /** Late cancellation fee recorded under the space's policy. */
+  fee?: number | null;
+}
+
+/** A waiting-list offer as its claim link shows it. */
+export interface WaitlistClaim {
+  orgName: string;
+  orgSlug: string;
+  name: string;
+  deskLabel: string;
+  startDate: string;
+  endDate: string;
+  expiresAt: string;
+  status: 'open' | 'expired' | 'claimed';
+}
+
+/** The booking a claimed offer became, for the manager's notification. */
+export interface WaitlistClaimResult {
+  organizationId: string;
+  deskId: string;
+  deskLabel: string;
+  visitorName: string;
+  startDate: string;
+  endDate: string;
+}
+
+/** Check-in from outside the app: the share page, a desk's QR code or the member page. */
+export interface CheckInResult {
+  deskId: string;
+  deskLabel: string;
+  date: string;
+  personName: string | null;
+  checkedInAt: string;
 }
 
 // Floor plan types
@@ -422,6 +637,117 @@ export const publicBookingRequestSchema = z.object({
 
 export type PublicBookingRequest = z.infer<typeof publicBookingRequestSchema>;
 
+// Recurring booking series schemas
+export const recurrenceRuleSchema = z.object({
+  // ISO day numbers (1=Monday ... 7=Sunday), same as organization.workingDays
+  weekdays: z.array(z.number().int().min(1).max(7)).min(1),
+  intervalWeeks: z.number().int().min(1).default(1),
+  startDate: z.string(), // YYYY-MM-DD, first possible occurrence
+  // Ends on a date or after a number of occurrences
+  untilDate: z.string().nullable().optional(),
+  occurrenceCount: z.number().int().min(1).nullable().optional(),
+});
+
+export const bookingSeriesSchema = z.object({
+  id: z.string(),
+  organizationId: z.string().optional(),
+  deskId: z.string(),
+  rule: recurrenceRuleSchema,
+  status: deskStatusSchema,
+  personName: z.string(),
+  title: z.string().optional(),
+  price: z.number().optional(), // per occurrence
+  currency: currencySchema.optional(),
+  clientId: z.string().optional(),
+  createdAt: z.string(),
+});
+export type RecurrenceRule = z.infer<typeof recurrenceRuleSchema>;
+export type BookingSeries = z.infer<typeof bookingSeriesSchema>;
+
+// Out-of-service desk blocks — a desk taken out of use (repairs, an event)
+// for a date range. Blocks are not bookings: they earn nothing and the
+// blocked desk-days drop out of occupancy.
+export const deskBlockReasonSchema = z.enum(['maintenance', 'event', 'other']);
+
+export const deskBlockSchema = z.object({
+  id: z.string(),
+  organizationId: z.string().optional(),
+  deskId: z.string(),
+  startDate: z.string(), // YYYY-MM-DD
+  endDate: z.string(), // YYYY-MM-DD, inclusive
+  reason: deskBlockReasonSchema,
+  note: z.string().optional(),
+  createdAt: z.string(),
+});
+export type DeskBlockReason = z.infer<typeof deskBlockReasonSchema>;
+export type DeskBlock = z.infer<typeof deskBlockSchema>;
+
+// Group bookings — one company booking several desks for the same dates.
+// The desks are regular runs carrying bookingGroupId; the group holds what they
+// share. A 'total' price is split over the seats, a 'per_seat' one repeated.
+export const groupPricingSchema = z.enum(['total', 'per_seat']);
+
+export const bookingGroupSchema = z.object({
+  id: z.string(),
+  organizationId: z.string().optional(),
+  name: z.string(), // e.g. "Acme sprint week"
+  personName: z.string(), // the company or contact the desks are booked for
+  clientId: z.string().optional(),
+  pricing: groupPricingSchema,
+  price: z.number().optional(),
+  currency: currencySchema.optional(),
+  createdAt: z.string(),
+});
+export type GroupPricing = z.infer<typeof groupPricingSchema>;
+export type BookingGroup = z.infer<typeof bookingGroupSchema>;
+
+// Fees charged under the booking policy. They outlive the booking they came
+// from (a cancelled booking is deleted), so they keep the desk, day and who
+// to bill; invoiceId is set once a fee went on an invoice.
+export const bookingFeeKindSchema = z.enum(['late_cancellation', 'no_show']);
+
+export const bookingFeeSchema = z.object({
+  id: z.string(),
+  organizationId: z.string().optional(),
+  kind: bookingFeeKindSchema,
+  deskId: z.string(),
+  date: z.string(), // YYYY-MM-DD, the booking's first day or the missed day
+  personName: z.string().optional(),
+  clientId: z.string().optional(),
+  amount: z.number().nonnegative(),
+  currency: currencySchema.optional(),
+  invoiceId: z.string().nullable().optional(),
+  createdAt: z.string(),
+});
+export type BookingFeeKind = z.infer<typeof bookingFeeKindSchema>;
+export type BookingFee = z.infer<typeof bookingFeeSchema>;
+
+// A migration import from another coworking tool (see lib/migrationImport).
+// It lists what it created so the last batch can be rolled back;
+// rolledBackAt is set once it was.
+export const importSourceSchema = z.enum(['nexudus', 'officernd', 'cobot']);
+export const importKindSchema = z.enum(['members', 'bookings', 'invoices']);
+
+export const importBatchSchema = z.object({
+  id: z.string(),
+  organizationId: z.string().optional(),
+  source: importSourceSchema,
+  kind: importKindSchema,
+  clientIds: z.array(z.string()).default([]),
+  // Day rows written, with the createdAt they were written with
+  bookingRows: z.array(z.object({
+    deskId: z.string(),
+    date: z.string(),
+    createdAt: z.string(),
+  })).default([]),
+  invoiceIds: z.array(z.string()).default([]),
+  rolledBackAt: z.string().nullable().optional(),
+  createdAt: z.string(),
+});
+export type ImportSource = z.infer<typeof importSourceSchema>;
+export type ImportKind = z.infer<typeof importKindSchema>;
+export type ImportBatch = z.infer<typeof importBatchSchema>;
+
 // Meeting room schemas
 export const meetingRoomSchema = z.object({
   id: z.string(),
@@ -453,3 +779,34 @@ export const meetingRoomBookingSchema = z.object({
   createdAt: z.string(),
 });
 export type MeetingRoomBooking = z.infer<typeof meetingRoomBookingSchema>;
+
+// Audit log schemas
+export const auditEntityTypeSchema = z.enum(['booking', 'client', 'invoice', 'expense']);
+export const auditActionSchema = z.enum(['create', 'update', 'delete']);
+
+export const auditChangeSchema = z.object({
+  before: z.unknown(),
+  after: z.unknown(),
+});
+
+export const auditEntrySchema = z.object({
+  id: z.string(),
+  organizationId: z.string().optional(),
+  entityType: auditEntityTypeSchema,
+  entityId: z.string(),
+  action: auditActionSchema,
+  actorId: z.string().nullable().optional(),
+  actorName: z.string().nullable().optional(),
+  summary: z.string(),
+  changes: z.record(auditChangeSchema),
+  // Lookup keys for the per-booking and per-member history views
+  clientId: z.string().nullable().optional(),
+  deskId: z.string().nullable().optional(),
+  startDate: z.string().nullable().optional(),
+  endDate: z.string().nullable().optional(),
+  createdAt: z.string(),
+});
+export type AuditEntityType = z.infer<typeof auditEntityTypeSchema>;
+export type AuditAction = z.infer<typeof auditActionSchema>;
+export type AuditChange = z.infer<typeof auditChangeSchema>;
+export type AuditEntry = z.infer<typeof auditEntrySchema>;
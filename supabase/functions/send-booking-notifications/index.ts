@@ -0,0 +1,134 @@
+// Delivers the rows queued in booking_notifications: Telegram and email to the
+// space's managers, per its notification settings, or email to a visitor.
+//
+// Called by the database after each insert and every five minutes by cron,
+// with the service role key. Secrets: TELEGRAM_BOT_TOKEN, RESEND_API_KEY,
+// NOTIFY_EMAIL_FROM, and APP_URL for the claim links in waiting-list offers.
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import {
+  renderBookingNotification,
+  type BookingNotification,
+  type RenderedNotification,
+} from '../../../shared/bookingNotifications.ts';
+
+interface QueuedNotification {
+  id: number;
+  organization_id: string;
+  event: BookingNotification['event'];
+  payload: BookingNotification['payload'];
+}
+
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey);
+
+async function sendTelegram(chatId: number, text: string): Promise<void> {
+  const token = Deno.env.get('TELEGRAM_BOT_TOKEN');
+  if (!token) throw new Error('TELEGRAM_BOT_TOKEN is not set');
+  const res = await fetch(`https://api.telegram.org/bot${token}/sendMessage`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ chat_id: chatId, text }),
+  });
+  if (!res.ok) throw new Error(`Telegram: ${res.status} ${await res.text()}`);
+}
+
+async function sendEmail(to: string[], subject: string, text: string): Promise<void> {
+  const apiKey = Deno.env.get('RESEND_API_KEY');
+  if (!apiKey) throw new Error('RESEND_API_KEY is not set');
+  const res = await fetch('https://api.resend.com/emails', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${apiKey}` },
+    body: JSON.stringify({ from: Deno.env.get('NOTIFY_EMAIL_FROM'), to, subject, text }),
+  });
+  if (!res.ok) throw new Error(`Resend: ${res.status} ${await res.text()}`);
+}
+
+async function managerEmails(organizationId: string): Promise<string[]> {
+  const { data: members, error } = await supabase
+    .from('organization_members')
+    .select('user_id')
+    .eq('organization_id', organizationId)
+    .in('role', ['owner', 'admin']);
+  if (error) throw error;
+
+  const emails: string[] = [];
+  for (const member of members ?? []) {
+    const { data } = await supabase.auth.admin.getUserById(member.user_id);
+    if (data.user?.email) emails.push(data.user.email);
+  }
+  return emails;
+}
+
+/**
+ * Sends one notification on every channel it goes to. Throws only when every
+ * channel failed, so a row is never sent twice because one channel is down.
+ */
+async function deliver(row: QueuedNotification): Promise<string | null> {
+  const [{ data: org, error: orgError }, { data: desks }, { data: settings }] = await Promise.all([
+    supabase.from('organizations').select('name, currency, timezone').eq('id', row.organization_id).single(),
+    supabase.from('desks').select('desk_id, label').eq('organization_id', row.organization_id),
+    supabase.from('notification_settings').select('*').eq('organization_id', row.organization_id).maybeSingle(),
+  ]);
+  if (orgError) throw orgError;
+
+  const labels = new Map((desks ?? []).map((d) => [d.desk_id as string, d.label as string]));
+  const rendered: RenderedNotification = renderBookingNotification(
+    { event: row.event, payload: row.payload } as BookingNotification,
+    {
+      orgName: org.name,
+      currency: org.currency,
+      timeZone: org.timezone,
+      appUrl: Deno.env.get('APP_URL') ?? '',
+      deskLabel: (deskId) => labels.get(deskId) ?? deskId,
+    },
+  );
+  const subject = `${org.name}: ${rendered.subject}`;
+
+  const sends: Promise<void>[] = [];
+  if (rendered.to === 'managers') {
+    if (settings?.enabled && settings.telegram_chat_id) {
+      sends.push(sendTelegram(settings.telegram_chat_id, `${rendered.subject}\n\n${rendered.text}`));
+    }
+    if (settings?.email_enabled && settings.email_booking_alerts !== false) {
+      sends.push(managerEmails(row.organization_id).then((to) => (to.length ? sendEmail(to, subject, rendered.text) : undefined)));
+    }
+  } else {
+    sends.push(sendEmail([rendered.to.email], subject, rendered.text));
+  }
+
+  const results = await Promise.allSettled(sends);
+  const errors = results.flatMap((r) => (r.status === 'rejected' ? [String(r.reason?.message ?? r.reason)] : []));
+  if (errors.length && errors.length === results.length) throw new Error(errors.join('; '));
+  return errors.length ? errors.join('; ') : null;
+}
+
+Deno.serve(async (req) => {
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  const { data: rows, error } = await supabase.rpc('claim_booking_notifications', { p_limit: 50 });
+  if (error) return Response.json({ error: error.message }, { status: 500 });
+
+  let sent = 0;
+  let failed = 0;
+  for (const row of (rows ?? []) as QueuedNotification[]) {
+    try {
+      const partialError = await deliver(row);
+      await supabase
+        .from('booking_notifications')
+        .update({ sent_at: new Date().toISOString(), claimed_until: null, last_error: partialError })
+        .eq('id', row.id);
+      sent++;
+    } catch (err) {
+      await supabase
+        .from('booking_notifications')
+        .update({ claimed_until: null, last_error: err instanceof Error ? err.message : String(err) })
+        .eq('id', row.id);
+      failed++;
+    }
+  }
+
+  return Response.json({ sent, failed });
+});
@@ -0,0 +1,110 @@
+-- Migration: Conflict-checked booking saves
+-- Date: 2026-03-01
+-- Purpose: Keep two bookings off the same desk on the same day, and save desk
+--          booking rows in one transaction, refusing to overwrite a booking
+--          another manager saved since the client last read it.
+-- SAFETY: The unique index cannot be created while two bookings share a desk
+--         and day; list them with
+--
+--   SELECT a.id, b.id, a.organization_id, a.desk_id, a.date
+--   FROM desk_bookings a
+--   JOIN desk_bookings b
+--     ON a.organization_id = b.organization_id AND a.desk_id = b.desk_id
+--    AND a.date = b.date AND a.id < b.id
+--   WHERE a.status <> 'available' AND b.status <> 'available'
+--     AND NOT COALESCE(a.is_frozen, false) AND NOT COALESCE(b.is_frozen, false);
+--
+--         and delete the stale copy before running this migration. The
+--         function runs with the caller's rights, so the usual desk_bookings
+--         row level security applies.
+
+-- ============================================================
+-- Step 1: One booking per desk and day
+-- Available and frozen rows don't occupy the desk.
+-- ============================================================
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_desk_bookings_slot
+  ON desk_bookings(organization_id, desk_id, date)
+  WHERE status <> 'available' AND NOT COALESCE(is_frozen, false);
+
+-- ============================================================
+-- Step 2: save_desk_bookings(organization, rows, deletions)
+--   p_rows:      desk_bookings rows as JSON; only the keys given are written,
+--                so columns the client doesn't know about keep their values.
+--   p_deletions: [{desk_id, date}] slots cleared first, e.g. the old dates of
+--                a booking being edited. A row that is also listed in p_rows
+--                by id is updated in place instead.
+-- A row whose id already exists is only overwritten when it is the same
+-- booking (same created_at) or an available/frozen placeholder. Otherwise the
+-- call fails with a unique violation naming the slot and nothing is written.
+-- Rows with another id in a taken slot trip idx_desk_bookings_slot.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION save_desk_bookings(
+  p_organization_id UUID,
+  p_rows JSONB,
+  p_deletions JSONB DEFAULT '[]'::jsonb
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_row JSONB;
+  v_id BIGINT;
+  v_existing desk_bookings%ROWTYPE;
+  v_columns TEXT;
+BEGIN
+  DELETE FROM desk_bookings b
+  USING jsonb_to_recordset(p_deletions) AS d(desk_id TEXT, date DATE)
+  WHERE b.organization_id IS NOT DISTINCT FROM p_organization_id
+    AND b.desk_id = d.desk_id
+    AND b.date = d.date
+    AND b.id NOT IN (
+      SELECT (r->>'id')::BIGINT FROM jsonb_array_elements(p_rows) AS r WHERE r ? 'id'
+    );
+
+  FOR v_row IN SELECT value FROM jsonb_array_elements(p_rows) LOOP
+    IF p_organization_id IS NOT NULL THEN
+      v_row := v_row || jsonb_build_object('organization_id', p_organization_id);
+    END IF;
+
+    SELECT string_agg(quote_ident(c.column_name), ', ')
+    INTO v_columns
+    FROM information_schema.columns c
+    WHERE c.table_schema = 'public'
+      AND c.table_name = 'desk_bookings'
+      AND v_row ? c.column_name;
+
+    v_id := (v_row->>'id')::BIGINT;
+    SELECT * INTO v_existing FROM desk_bookings WHERE id = v_id FOR UPDATE;
+
+    IF FOUND THEN
+      IF v_existing.organization_id IS DISTINCT FROM p_organization_id
+        OR NOT (
+          v_existing.status = 'available'
+          OR COALESCE(v_existing.is_frozen, false)
+          OR v_existing.created_at::timestamptz = (v_row->>'created_at')::timestamptz
+        )
+      THEN
+        RAISE EXCEPTION 'Desk % is already taken on %', v_row->>'desk_id', v_row->>'date'
+          USING ERRCODE = '23505',
+                DETAIL = format(
+                  'Key (organization_id, desk_id, date)=(%s, %s, %s) already exists.',
+                  p_organization_id, v_row->>'desk_id', v_row->>'date'
+                );
+      END IF;
+
+      EXECUTE format(
+        'UPDATE desk_bookings SET (%1$s) = (SELECT %1$s FROM jsonb_populate_record(NULL::desk_bookings, $1)) WHERE id = $2',
+        v_columns
+      ) USING v_row, v_id;
+    ELSE
+      EXECUTE format(
+        'INSERT INTO desk_bookings (%1$s) SELECT %1$s FROM jsonb_populate_record(NULL::desk_bookings, $1)',
+        v_columns
+      ) USING v_row;
+    END IF;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,48 @@
+-- Migration: Add audit log
+-- Date: 2026-03-01
+-- Purpose: Change history for bookings, members, invoices and expenses
+-- SAFETY: New table only. Entries are append-only for managers.
+
+-- ============================================================
+-- Step 1: audit_log table
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id BIGSERIAL PRIMARY KEY,
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('booking', 'client', 'invoice', 'expense')),
+  -- Bookings use their creation time (see bookingEntityId), so the id
+  -- survives edits and moves; other entities use their primary key
+  entity_id TEXT NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('create', 'update', 'delete')),
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  actor_name TEXT,
+  summary TEXT NOT NULL,
+  changes JSONB NOT NULL DEFAULT '{}'::jsonb,
+  client_id TEXT,
+  desk_id TEXT,
+  start_date DATE,
+  end_date DATE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_org_created ON audit_log(organization_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log(organization_id, entity_type, entity_id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_client ON audit_log(organization_id, client_id);
+
+-- ============================================================
+-- Step 2: RLS — members read and append, nobody edits history
+-- ============================================================
+
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view audit log in their orgs" ON audit_log
+  FOR SELECT TO authenticated
+  USING (organization_id IN (SELECT organization_id FROM organization_members WHERE user_id = auth.uid()));
+
+CREATE POLICY "Users can record audit entries in their orgs" ON audit_log
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    organization_id IN (SELECT organization_id FROM organization_members WHERE user_id = auth.uid())
+    AND (actor_id IS NULL OR actor_id = auth.uid())
+  );
@@ -0,0 +1,67 @@
+-- Migration: Add recurring booking series
+-- Date: 2026-03-01
+-- Purpose: Store repeat rules ("every Tuesday and Thursday") and link the
+--          single-day desk_bookings rows they produce back to their series.
+-- SAFETY: New table and a nullable column. Deleting a series keeps its rows
+--         as one-off bookings.
+
+-- ============================================================
+-- Step 1: booking_series table
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS booking_series (
+  id BIGSERIAL PRIMARY KEY,
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  desk_id TEXT NOT NULL,
+  -- ISO weekdays, 1 = Monday
+  weekdays INTEGER[] NOT NULL CHECK (cardinality(weekdays) > 0 AND weekdays <@ ARRAY[1,2,3,4,5,6,7]),
+  interval_weeks INTEGER NOT NULL DEFAULT 1 CHECK (interval_weeks >= 1),
+  start_date DATE NOT NULL,
+  until_date DATE,
+  -- Same limits as validateRecurrence in the client
+  occurrence_count INTEGER CHECK (occurrence_count BETWEEN 1 AND 260),
+  status TEXT NOT NULL,
+  person_name TEXT,
+  title TEXT,
+  price NUMERIC(10,2),
+  currency TEXT,
+  client_id BIGINT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (until_date IS NOT NULL OR occurrence_count IS NOT NULL),
+  CHECK (until_date IS NULL OR until_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_series_org ON booking_series(organization_id);
+
+-- ============================================================
+-- Step 2: Link occurrences to their series
+-- ============================================================
+
+ALTER TABLE desk_bookings ADD COLUMN IF NOT EXISTS series_id BIGINT REFERENCES booking_series(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN desk_bookings.series_id IS 'Recurring series this occurrence belongs to; NULL for one-off bookings';
+
+CREATE INDEX IF NOT EXISTS idx_desk_bookings_series ON desk_bookings(series_id) WHERE series_id IS NOT NULL;
+
+-- ============================================================
+-- Step 3: RLS
+-- ============================================================
+
+ALTER TABLE booking_series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view booking series in their orgs" ON booking_series
+  FOR SELECT TO authenticated
+  USING (organization_id IN (SELECT organization_id FROM organization_members WHERE user_id = auth.uid()));
+
+CREATE POLICY "Users can insert booking series in their orgs" ON booking_series
+  FOR INSERT TO authenticated
+  WITH CHECK (organization_id IN (SELECT organization_id FROM organization_members WHERE user_id = auth.uid()));
+
+CREATE POLICY "Users can update booking series in their orgs" ON booking_series
+  FOR UPDATE TO authenticated
+  USING (organization_id IN (SELECT organization_id FROM organization_members WHERE user_id = auth.uid()))
+  WITH CHECK (organization_id IN (SELECT organization_id FROM organization_members WHERE user_id = auth.uid()));
+
+CREATE POLICY "Users can delete booking series in their orgs" ON booking_series
+  FOR DELETE TO authenticated
+  USING (organization_id IN (SELECT organization_id FROM organization_members WHERE user_id = auth.uid()));
@@ -0,0 +1,259 @@
+-- Migration: Add half-day bookings
+-- Date: 2026-03-01
+-- Purpose: Let a desk be booked for the morning or the afternoon, make the
+--          database refuse overlapping bookings of the same desk on the same
+--          day, and show the public booking page which half of a day is taken.
+-- SAFETY: Existing rows are backfilled as full-day bookings. The overlap
+--         constraint cannot be added while overlapping rows exist; list them with
+--
+--   SELECT a.id, b.id, a.organization_id, a.desk_id, a.date
+--   FROM desk_bookings a
+--   JOIN desk_bookings b
+--     ON a.organization_id = b.organization_id AND a.desk_id = b.desk_id
+--    AND a.date = b.date AND a.id < b.id
+--   WHERE a.status <> 'available' AND b.status <> 'available'
+--     AND NOT COALESCE(a.is_frozen, false) AND NOT COALESCE(b.is_frozen, false);
+--
+--         and delete the stale copy before running this migration.
+
+-- ============================================================
+-- Step 1: Day part column and half-day price
+-- ============================================================
+
+ALTER TABLE desk_bookings ADD COLUMN IF NOT EXISTS day_part TEXT;
+UPDATE desk_bookings SET day_part = 'full' WHERE day_part IS NULL;
+ALTER TABLE desk_bookings ALTER COLUMN day_part SET DEFAULT 'full';
+ALTER TABLE desk_bookings ALTER COLUMN day_part SET NOT NULL;
+
+DO $$
+BEGIN
+  ALTER TABLE desk_bookings DROP CONSTRAINT IF EXISTS desk_bookings_day_part_check;
+  ALTER TABLE desk_bookings ADD CONSTRAINT desk_bookings_day_part_check CHECK (day_part IN ('full', 'am', 'pm'));
+END $$;
+
+COMMENT ON COLUMN desk_bookings.day_part IS 'Part of the day the booking covers: full, am (morning) or pm (afternoon)';
+
+ALTER TABLE organizations ADD COLUMN IF NOT EXISTS half_day_price NUMERIC(10,2);
+
+COMMENT ON COLUMN organizations.half_day_price IS 'Price of a morning or afternoon visit. NULL hides half-day booking.';
+
+-- ============================================================
+-- Step 2: Replace per-day unique keys with a day-part aware overlap check
+-- A unique key on (organization_id, desk_id, date), such as
+-- idx_desk_bookings_slot, rejects a morning and an afternoon booking of the
+-- same desk, so any such key is dropped.
+-- ============================================================
+
+DO $$
+DECLARE
+  idx RECORD;
+BEGIN
+  FOR idx IN
+    SELECT i.indexrelid::regclass AS index_name, c.conname
+    FROM pg_index i
+    LEFT JOIN pg_constraint c ON c.conindid = i.indexrelid
+    WHERE i.indrelid = 'desk_bookings'::regclass
+      AND i.indisunique
+      AND NOT i.indisprimary
+      AND EXISTS (
+        SELECT 1 FROM pg_attribute a
+        WHERE a.attrelid = i.indrelid AND a.attnum = ANY (i.indkey) AND a.attname = 'date'
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM pg_attribute a
+        WHERE a.attrelid = i.indrelid AND a.attnum = ANY (i.indkey) AND a.attname = 'day_part'
+      )
+  LOOP
+    IF idx.conname IS NOT NULL THEN
+      EXECUTE format('ALTER TABLE desk_bookings DROP CONSTRAINT %I', idx.conname);
+    ELSE
+      EXECUTE format('DROP INDEX %s', idx.index_name);
+    END IF;
+  END LOOP;
+END $$;
+
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+-- Morning is [0,1), afternoon [1,2), full day [0,2): overlapping spans clash,
+-- so a full day can't be booked over either half and vice versa.
+CREATE OR REPLACE FUNCTION desk_day_span(p_day_part TEXT)
+RETURNS INT4RANGE
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_day_part
+    WHEN 'am' THEN int4range(0, 1)
+    WHEN 'pm' THEN int4range(1, 2)
+    ELSE int4range(0, 2)
+  END
+$$;
+
+-- Available and frozen rows don't occupy the desk. Deferrable so one
+-- statement may shuffle bookings between slots.
+DO $$
+BEGIN
+  ALTER TABLE desk_bookings DROP CONSTRAINT IF EXISTS desk_bookings_no_overlap;
+  ALTER TABLE desk_bookings ADD CONSTRAINT desk_bookings_no_overlap
+    EXCLUDE USING gist (
+      organization_id WITH =,
+      desk_id WITH =,
+      date WITH =,
+      desk_day_span(day_part) WITH &&
+    )
+    WHERE (status <> 'available' AND NOT COALESCE(is_frozen, false))
+    DEFERRABLE INITIALLY IMMEDIATE;
+END $$;
+
+-- ============================================================
+-- Step 3: save_desk_bookings clears slots by part of the day
+-- p_deletions entries gain day_part; a missing one means the whole day.
+-- Rows with another id in an overlapping slot trip desk_bookings_no_overlap.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION save_desk_bookings(
+  p_organization_id UUID,
+  p_rows JSONB,
+  p_deletions JSONB DEFAULT '[]'::jsonb
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_row JSONB;
+  v_id BIGINT;
+  v_existing desk_bookings%ROWTYPE;
+  v_columns TEXT;
+BEGIN
+  DELETE FROM desk_bookings b
+  USING jsonb_to_recordset(p_deletions) AS d(desk_id TEXT, date DATE, day_part TEXT)
+  WHERE b.organization_id IS NOT DISTINCT FROM p_organization_id
+    AND b.desk_id = d.desk_id
+    AND b.date = d.date
+    AND b.day_part = COALESCE(d.day_part, 'full')
+    AND b.id NOT IN (
+      SELECT (r->>'id')::BIGINT FROM jsonb_array_elements(p_rows) AS r WHERE r ? 'id'
+    );
+
+  FOR v_row IN SELECT value FROM jsonb_array_elements(p_rows) LOOP
+    IF p_organization_id IS NOT NULL THEN
+      v_row := v_row || jsonb_build_object('organization_id', p_organization_id);
+    END IF;
+
+    SELECT string_agg(quote_ident(c.column_name), ', ')
+    INTO v_columns
+    FROM information_schema.columns c
+    WHERE c.table_schema = 'public'
+      AND c.table_name = 'desk_bookings'
+      AND v_row ? c.column_name;
+
+    v_id := (v_row->>'id')::BIGINT;
+    SELECT * INTO v_existing FROM desk_bookings WHERE id = v_id FOR UPDATE;
+
+    IF FOUND THEN
+      IF v_existing.organization_id IS DISTINCT FROM p_organization_id
+        OR NOT (
+          v_existing.status = 'available'
+          OR COALESCE(v_existing.is_frozen, false)
+          OR v_existing.created_at::timestamptz = (v_row->>'created_at')::timestamptz
+        )
+      THEN
+        RAISE EXCEPTION 'Desk % is already taken on %', v_row->>'desk_id', v_row->>'date'
+          USING ERRCODE = '23505',
+                DETAIL = format(
+                  'Key (organization_id, desk_id, date)=(%s, %s, %s) already exists.',
+                  p_organization_id, v_row->>'desk_id', v_row->>'date'
+                );
+      END IF;
+
+      EXECUTE format(
+        'UPDATE desk_bookings SET (%1$s) = (SELECT %1$s FROM jsonb_populate_record(NULL::desk_bookings, $1)) WHERE id = $2',
+        v_columns
+      ) USING v_row, v_id;
+    ELSE
+      EXECUTE format(
+        'INSERT INTO desk_bookings (%1$s) SELECT %1$s FROM jsonb_populate_record(NULL::desk_bookings, $1)',
+        v_columns
+      ) USING v_row;
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- ============================================================
+-- Step 4: get_public_availability(slug) — the public booking page
+-- NULL unless the space takes online bookings. Slots cover today to the
+-- end of the booking window; a missing dayPart means the whole day.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION get_public_availability(p_org_slug TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org organizations%ROWTYPE;
+  v_today DATE;
+  v_last DATE;
+BEGIN
+  SELECT * INTO v_org FROM organizations WHERE slug = p_org_slug AND public_booking_enabled;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+  v_today := (now() AT TIME ZONE v_org.timezone)::DATE;
+  v_last := v_today + COALESCE(v_org.public_booking_max_days_ahead, 14);
+
+  RETURN jsonb_build_object(
+    'org', jsonb_build_object(
+      'id', v_org.id,
+      'name', v_org.name,
+      'slug', v_org.slug,
+      'currency', v_org.currency,
+      'workingDays', to_jsonb(COALESCE(v_org.working_days, ARRAY[1, 2, 3, 4, 5])),
+      'maxDaysAhead', COALESCE(v_org.public_booking_max_days_ahead, 14),
+      'logoUrl', v_org.logo_url,
+      'contactPhone', v_org.contact_phone,
+      'contactEmail', v_org.contact_email,
+      'contactTelegram', v_org.contact_telegram,
+      'contactViberEnabled', COALESCE(v_org.contact_viber_enabled, false),
+      'contactWhatsappEnabled', COALESCE(v_org.contact_whatsapp_enabled, false),
+      'defaultPricePerDay', v_org.default_price_per_day,
+      'halfDayPrice', v_org.half_day_price,
+      'stripePublicBookingPayments', COALESCE(v_org.stripe_public_booking_payments, false)
+    ),
+    'rooms', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'id', r.id,
+        'name', r.name,
+        'desks', (
+          SELECT COALESCE(jsonb_agg(jsonb_build_object(
+            'id', d.id,
+            'deskId', d.desk_id,
+            'label', d.label
+          ) ORDER BY d.sort_order), '[]'::jsonb)
+          FROM desks d
+          WHERE d.room_id = r.id
+        )
+      ) ORDER BY r.sort_order), '[]'::jsonb)
+      FROM rooms r
+      WHERE r.organization_id = v_org.id
+    ),
+    'bookedSlots', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'deskId', b.desk_id,
+        'date', b.date,
+        'dayPart', NULLIF(b.day_part, 'full')
+      )), '[]'::jsonb)
+      FROM desk_bookings b
+      WHERE b.organization_id = v_org.id
+        AND b.date BETWEEN v_today AND v_last
+        AND b.status <> 'available'
+        AND NOT COALESCE(b.is_frozen, false)
+    )
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_public_availability(TEXT) TO anon, authenticated;
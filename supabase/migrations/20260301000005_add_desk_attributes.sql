@@ -0,0 +1,93 @@
+-- Migration: Add desk attributes
+-- Date: 2026-03-01
+-- Purpose: Free-text desk tags such as "Dual monitor" or "Window seat", used to
+--          filter the desk grid and the public booking page.
+-- SAFETY: Additive. Existing desks start with no attributes.
+--         get_public_availability keeps every field it returned.
+
+-- ============================================================
+-- Step 1: attributes column
+-- ============================================================
+
+ALTER TABLE desks ADD COLUMN IF NOT EXISTS attributes TEXT[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN desks.attributes IS 'Desk tags shown to visitors and matched by attribute filters';
+
+-- ============================================================
+-- Step 2: get_public_availability(slug) also returns desk attributes
+-- Replaces the version from 20260301000004_add_half_day_bookings,
+-- keeping every field it returned.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION get_public_availability(p_org_slug TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org organizations%ROWTYPE;
+  v_today DATE;
+  v_last DATE;
+BEGIN
+  SELECT * INTO v_org FROM organizations WHERE slug = p_org_slug AND public_booking_enabled;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+  v_today := (now() AT TIME ZONE v_org.timezone)::DATE;
+  v_last := v_today + COALESCE(v_org.public_booking_max_days_ahead, 14);
+
+  RETURN jsonb_build_object(
+    'org', jsonb_build_object(
+      'id', v_org.id,
+      'name', v_org.name,
+      'slug', v_org.slug,
+      'currency', v_org.currency,
+      'workingDays', to_jsonb(COALESCE(v_org.working_days, ARRAY[1, 2, 3, 4, 5])),
+      'maxDaysAhead', COALESCE(v_org.public_booking_max_days_ahead, 14),
+      'logoUrl', v_org.logo_url,
+      'contactPhone', v_org.contact_phone,
+      'contactEmail', v_org.contact_email,
+      'contactTelegram', v_org.contact_telegram,
+      'contactViberEnabled', COALESCE(v_org.contact_viber_enabled, false),
+      'contactWhatsappEnabled', COALESCE(v_org.contact_whatsapp_enabled, false),
+      'defaultPricePerDay', v_org.default_price_per_day,
+      'halfDayPrice', v_org.half_day_price,
+      'stripePublicBookingPayments', COALESCE(v_org.stripe_public_booking_payments, false)
+    ),
+    'rooms', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'id', r.id,
+        'name', r.name,
+        'desks', (
+          SELECT COALESCE(jsonb_agg(jsonb_build_object(
+            'id', d.id,
+            'deskId', d.desk_id,
+            'label', d.label,
+            'attributes', to_jsonb(d.attributes)
+          ) ORDER BY d.sort_order), '[]'::jsonb)
+          FROM desks d
+          WHERE d.room_id = r.id
+        )
+      ) ORDER BY r.sort_order), '[]'::jsonb)
+      FROM rooms r
+      WHERE r.organization_id = v_org.id
+    ),
+    'bookedSlots', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'deskId', b.desk_id,
+        'date', b.date,
+        'dayPart', NULLIF(b.day_part, 'full')
+      )), '[]'::jsonb)
+      FROM desk_bookings b
+      WHERE b.organization_id = v_org.id
+        AND b.date BETWEEN v_today AND v_last
+        AND b.status <> 'available'
+        AND NOT COALESCE(b.is_frozen, false)
+    )
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_public_availability(TEXT) TO anon, authenticated;
@@ -0,0 +1,103 @@
+-- Migration: Return the organization timezone to the public booking page
+-- Date: 2026-03-01
+-- Purpose: The public booking page counts today and the booking window in
+--          the space's timezone instead of the visitor's.
+-- SAFETY: Replaces get_public_availability, keeping every field it returned.
+
+-- ============================================================
+-- Step 1: get_public_availability(slug) also returns the timezone
+-- Replaces the version from 20260301000007_add_org_closures,
+-- keeping every field it returned.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION get_public_availability(p_org_slug TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org organizations%ROWTYPE;
+  v_today DATE;
+  v_last DATE;
+BEGIN
+  SELECT * INTO v_org FROM organizations WHERE slug = p_org_slug AND public_booking_enabled;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+  v_today := (now() AT TIME ZONE v_org.timezone)::DATE;
+  v_last := v_today + COALESCE(v_org.public_booking_max_days_ahead, 14);
+
+  RETURN jsonb_build_object(
+    'org', jsonb_build_object(
+      'id', v_org.id,
+      'name', v_org.name,
+      'slug', v_org.slug,
+      'currency', v_org.currency,
+      'workingDays', to_jsonb(COALESCE(v_org.working_days, ARRAY[1, 2, 3, 4, 5])),
+      'timezone', v_org.timezone,
+      'closures', (
+        SELECT COALESCE(jsonb_agg(jsonb_build_object(
+          'startDate', c->>'startDate',
+          'endDate', COALESCE(c->>'endDate', c->>'startDate'),
+          'label', c->>'label'
+        )), '[]'::jsonb)
+        FROM jsonb_array_elements(COALESCE(v_org.closures, '[]'::jsonb)) AS c
+      ),
+      'maxDaysAhead', COALESCE(v_org.public_booking_max_days_ahead, 14),
+      'logoUrl', v_org.logo_url,
+      'contactPhone', v_org.contact_phone,
+      'contactEmail', v_org.contact_email,
+      'contactTelegram', v_org.contact_telegram,
+      'contactViberEnabled', COALESCE(v_org.contact_viber_enabled, false),
+      'contactWhatsappEnabled', COALESCE(v_org.contact_whatsapp_enabled, false),
+      'defaultPricePerDay', v_org.default_price_per_day,
+      'halfDayPrice', v_org.half_day_price,
+      'stripePublicBookingPayments', COALESCE(v_org.stripe_public_booking_payments, false)
+    ),
+    'rooms', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'id', r.id,
+        'name', r.name,
+        'desks', (
+          SELECT COALESCE(jsonb_agg(jsonb_build_object(
+            'id', d.id,
+            'deskId', d.desk_id,
+            'label', d.label,
+            'attributes', to_jsonb(d.attributes)
+          ) ORDER BY d.sort_order), '[]'::jsonb)
+          FROM desks d
+          WHERE d.room_id = r.id
+        )
+      ) ORDER BY r.sort_order), '[]'::jsonb)
+      FROM rooms r
+      WHERE r.organization_id = v_org.id
+    ),
+    'bookedSlots', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'deskId', b.desk_id,
+        'date', b.date,
+        'dayPart', NULLIF(b.day_part, 'full')
+      )), '[]'::jsonb)
+      FROM desk_bookings b
+      WHERE b.organization_id = v_org.id
+        AND b.date BETWEEN v_today AND v_last
+        AND b.status <> 'available'
+        AND NOT COALESCE(b.is_frozen, false)
+    ),
+    'blockedSlots', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object('deskId', k.desk_id, 'date', g.day::DATE)), '[]'::jsonb)
+      FROM desk_blocks k
+      CROSS JOIN LATERAL generate_series(
+        GREATEST(k.start_date, v_today), LEAST(k.end_date, v_last), INTERVAL '1 day'
+      ) AS g(day)
+      WHERE k.organization_id = v_org.id
+        AND k.end_date >= v_today
+        AND k.start_date <= v_last
+    )
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_public_availability(TEXT) TO anon, authenticated;
@@ -0,0 +1,58 @@
+-- Migration: Add group bookings
+-- Date: 2026-03-01
+-- Purpose: Several desks booked together for one company or team, priced as
+--          a total or per seat. Each desk day stays a desk_bookings row that
+--          points at its group.
+-- SAFETY: New table and a nullable column. Deleting a group keeps its rows
+--         as ordinary bookings.
+
+-- ============================================================
+-- Step 1: booking_groups table
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS booking_groups (
+  id BIGSERIAL PRIMARY KEY,
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  person_name TEXT NOT NULL,
+  client_id BIGINT,
+  pricing TEXT NOT NULL DEFAULT 'total' CHECK (pricing IN ('total', 'per_seat')),
+  price NUMERIC(10,2),
+  currency TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_groups_org ON booking_groups(organization_id);
+
+-- ============================================================
+-- Step 2: Link desk rows to their group
+-- ============================================================
+
+ALTER TABLE desk_bookings ADD COLUMN IF NOT EXISTS booking_group_id BIGINT REFERENCES booking_groups(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN desk_bookings.booking_group_id IS 'Group booking this desk day belongs to; NULL for individual bookings';
+
+CREATE INDEX IF NOT EXISTS idx_desk_bookings_group ON desk_bookings(booking_group_id) WHERE booking_group_id IS NOT NULL;
+
+-- ============================================================
+-- Step 3: RLS
+-- ============================================================
+
+ALTER TABLE booking_groups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view booking groups in their orgs" ON booking_groups
+  FOR SELECT TO authenticated
+  USING (organization_id IN (SELECT organization_id FROM organization_members WHERE user_id = auth.uid()));
+
+CREATE POLICY "Users can insert booking groups in their orgs" ON booking_groups
+  FOR INSERT TO authenticated
+  WITH CHECK (organization_id IN (SELECT organization_id FROM organization_members WHERE user_id = auth.uid()));
+
+CREATE POLICY "Users can update booking groups in their orgs" ON booking_groups
+  FOR UPDATE TO authenticated
+  USING (organization_id IN (SELECT organization_id FROM organization_members WHERE user_id = auth.uid()))
+  WITH CHECK (organization_id IN (SELECT organization_id FROM organization_members WHERE user_id = auth.uid()));
+
+CREATE POLICY "Users can delete booking groups in their orgs" ON booking_groups
+  FOR DELETE TO authenticated
+  USING (organization_id IN (SELECT organization_id FROM organization_members WHERE user_id = auth.uid()));
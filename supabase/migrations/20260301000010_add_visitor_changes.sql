@@ -0,0 +1,455 @@
+-- Migration: Add visitor self-service changes
+-- Date: 2026-03-01
+-- Purpose: Let the holder of a booking's share link cancel it or move it to
+--          another day, within the space's rules: a cutoff before the
+--          booking starts and a maximum number of moves. The space hears
+--          about each change once, from the send-booking-notifications
+--          Edge Function.
+-- SAFETY: Additive. Changes stay off until a space enables them. The share
+--         link functions run as their owner so anonymous visitors can call
+--         them; every rule is checked here, the share page only mirrors them.
+
+-- ============================================================
+-- Step 1: Settings and reschedule counter
+-- ============================================================
+
+ALTER TABLE organizations ADD COLUMN IF NOT EXISTS visitor_changes_enabled BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE organizations ADD COLUMN IF NOT EXISTS visitor_change_cutoff_hours INTEGER NOT NULL DEFAULT 24 CHECK (visitor_change_cutoff_hours >= 0);
+ALTER TABLE organizations ADD COLUMN IF NOT EXISTS visitor_max_reschedules INTEGER NOT NULL DEFAULT 1 CHECK (visitor_max_reschedules >= 0);
+
+COMMENT ON COLUMN organizations.visitor_change_cutoff_hours IS 'Changes from the share link close this many hours before midnight of the booking''s first day';
+COMMENT ON COLUMN organizations.visitor_max_reschedules IS 'How often a visitor may move one booking';
+
+ALTER TABLE desk_bookings ADD COLUMN IF NOT EXISTS reschedule_count INTEGER NOT NULL DEFAULT 0;
+
+-- ============================================================
+-- Step 2: Helpers shared by the public booking functions
+-- ============================================================
+
+-- Whether the space is open on a day: one of its working days (ISO, 1 =
+-- Monday) and not inside a closure. Mirrors isOpenDay in the client.
+CREATE OR REPLACE FUNCTION org_open_on(p_org organizations, p_date DATE)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXTRACT(ISODOW FROM p_date)::INT = ANY (COALESCE(p_org.working_days, ARRAY[1, 2, 3, 4, 5]))
+    AND NOT EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(COALESCE(p_org.closures, '[]'::jsonb)) AS c
+      WHERE p_date BETWEEN (c->>'startDate')::DATE AND COALESCE(c->>'endDate', c->>'startDate')::DATE
+    )
+$$;
+
+-- Whether nothing occupies the desk in that part of the day and it isn't
+-- blocked. `p_except_id` is the row being moved, which doesn't block itself.
+CREATE OR REPLACE FUNCTION desk_slot_free(
+  p_organization_id UUID,
+  p_desk_id TEXT,
+  p_date DATE,
+  p_day_part TEXT,
+  p_except_id BIGINT DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1 FROM desk_bookings b
+    WHERE b.organization_id = p_organization_id
+      AND b.desk_id = p_desk_id
+      AND b.date = p_date
+      AND b.status <> 'available'
+      AND NOT COALESCE(b.is_frozen, false)
+      AND desk_day_span(b.day_part) && desk_day_span(p_day_part)
+      AND b.id IS DISTINCT FROM p_except_id
+  )
+  AND NOT EXISTS (
+    SELECT 1 FROM desk_blocks k
+    WHERE k.organization_id = p_organization_id
+      AND k.desk_id = p_desk_id
+      AND p_date BETWEEN k.start_date AND k.end_date
+  )
+$$;
+
+-- Last moment a visitor may change a booking starting on `p_date`: midnight
+-- in the space's timezone minus the cutoff. Mirrors visitorChangeDeadline.
+CREATE OR REPLACE FUNCTION visitor_change_deadline(p_org organizations, p_date DATE)
+RETURNS TIMESTAMPTZ
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT (p_date::TIMESTAMP AT TIME ZONE p_org.timezone) - make_interval(hours => p_org.visitor_change_cutoff_hours)
+$$;
+
+-- Days a one-day booking can move to: open, bookable online, still before
+-- the change cutoff, with some desk free in the booking's part of the day.
+CREATE OR REPLACE FUNCTION visitor_reschedule_dates(p_row desk_bookings, p_org organizations)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(jsonb_agg(to_char(g.day, 'YYYY-MM-DD') ORDER BY g.day), '[]'::jsonb)
+  FROM generate_series(
+    (now() AT TIME ZONE p_org.timezone)::DATE,
+    (now() AT TIME ZONE p_org.timezone)::DATE + COALESCE(p_org.public_booking_max_days_ahead, 14),
+    INTERVAL '1 day'
+  ) AS g(day)
+  WHERE g.day::DATE <> p_row.date
+    AND org_open_on(p_org, g.day::DATE)
+    AND now() < visitor_change_deadline(p_org, g.day::DATE)
+    AND EXISTS (
+      SELECT 1 FROM desks k
+      WHERE k.organization_id = p_org.id
+        AND desk_slot_free(p_org.id, k.desk_id, g.day::DATE, p_row.day_part, p_row.id)
+    )
+$$;
+
+-- The row a share token sits on, locked for a change. Raises when unknown.
+CREATE OR REPLACE FUNCTION shared_booking_row(p_token TEXT)
+RETURNS desk_bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row desk_bookings%ROWTYPE;
+BEGIN
+  SELECT * INTO v_row FROM desk_bookings WHERE share_token = p_token LIMIT 1 FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+  RETURN v_row;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION shared_booking_row(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Why a visitor can't change the booking now, or NULL. Mirrors
+-- visitorChangeStatus; `p_reschedule` adds the rules for moving it.
+CREATE OR REPLACE FUNCTION visitor_change_blocked(p_row desk_bookings, p_org organizations, p_reschedule BOOLEAN)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    WHEN NOT p_org.visitor_changes_enabled THEN 'Contact the space to change this booking.'
+    WHEN p_row.end_date < (now() AT TIME ZONE p_org.timezone)::DATE THEN 'This booking has ended.'
+    WHEN now() >= visitor_change_deadline(p_org, p_row.start_date) THEN
+      'Changes are closed for this booking. Contact the space instead.'
+    WHEN p_reschedule AND p_row.start_date <> p_row.end_date THEN
+      'Bookings of several days can only be moved by the space.'
+    WHEN p_reschedule AND p_row.reschedule_count >= p_org.visitor_max_reschedules THEN
+      'This booking was already moved as often as the space allows.'
+  END
+$$;
+
+-- ============================================================
+-- Step 3: get_shared_booking(token) — what the share page shows
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION get_shared_booking(p_token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row desk_bookings%ROWTYPE;
+  v_org organizations%ROWTYPE;
+  v_today DATE;
+  v_label TEXT;
+  v_room TEXT;
+BEGIN
+  SELECT * INTO v_row FROM desk_bookings WHERE share_token = p_token LIMIT 1;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+  SELECT * INTO v_org FROM organizations WHERE id = v_row.organization_id;
+  v_today := (now() AT TIME ZONE v_org.timezone)::DATE;
+
+  SELECT d.label, r.name INTO v_label, v_room
+  FROM desks d
+  LEFT JOIN rooms r ON r.id = d.room_id
+  WHERE d.organization_id = v_org.id AND d.desk_id = v_row.desk_id
+  LIMIT 1;
+
+  RETURN jsonb_build_object(
+    'deskId', v_row.desk_id,
+    'startDate', v_row.start_date,
+    'endDate', v_row.end_date,
+    'status', v_row.status,
+    'title', v_row.title,
+    'spaceName', v_org.name,
+    'roomName', COALESCE(v_room, ''),
+    'deskLabel', COALESCE(v_label, v_row.desk_id),
+    'expired', v_row.end_date < v_today,
+    'contactPhone', v_org.contact_phone,
+    'contactEmail', v_org.contact_email,
+    'contactTelegram', v_org.contact_telegram,
+    'contactViberEnabled', COALESCE(v_org.contact_viber_enabled, false),
+    'contactWhatsappEnabled', COALESCE(v_org.contact_whatsapp_enabled, false),
+    'timezone', v_org.timezone,
+    'paymentStatus', v_row.payment_status,
+    'rescheduleCount', v_row.reschedule_count,
+    'visitorChanges', CASE WHEN v_org.visitor_changes_enabled THEN jsonb_build_object(
+      'cutoffHours', v_org.visitor_change_cutoff_hours,
+      'maxReschedules', v_org.visitor_max_reschedules
+    ) END,
+    'rescheduleDates', CASE
+      WHEN visitor_change_blocked(v_row, v_org, true) IS NULL THEN visitor_reschedule_dates(v_row, v_org)
+      ELSE '[]'::jsonb
+    END
+  );
+END;
+$$;
+
+-- ============================================================
+-- Step 4: cancel_shared_booking(token)
+-- Frees every day of the booking.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION cancel_shared_booking(p_token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row desk_bookings%ROWTYPE;
+  v_org organizations%ROWTYPE;
+  v_blocked TEXT;
+  v_change JSONB;
+BEGIN
+  v_row := shared_booking_row(p_token);
+  SELECT * INTO v_org FROM organizations WHERE id = v_row.organization_id;
+  v_blocked := visitor_change_blocked(v_row, v_org, false);
+  IF v_blocked IS NOT NULL THEN
+    RAISE EXCEPTION '%', v_blocked;
+  END IF;
+
+  DELETE FROM desk_bookings b
+  WHERE b.organization_id = v_row.organization_id
+    AND b.desk_id = v_row.desk_id
+    AND b.start_date = v_row.start_date
+    AND b.end_date = v_row.end_date
+    AND b.day_part = v_row.day_part;
+
+  v_change := jsonb_build_object(
+    'organizationId', v_org.id,
+    'deskId', v_row.desk_id,
+    'visitorName', COALESCE(v_row.visitor_name, v_row.person_name),
+    'previousDate', v_row.start_date,
+    'date', NULL,
+    'refundRequired', COALESCE(v_row.payment_status = 'paid', false)
+  );
+
+  INSERT INTO booking_notifications (organization_id, event, payload)
+  VALUES (v_org.id, 'cancelled', v_change);
+
+  RETURN v_change;
+END;
+$$;
+
+-- ============================================================
+-- Step 5: reschedule_shared_booking(token, date)
+-- Moves a one-day booking, keeping its desk when that is free on the new day
+-- and taking another free desk otherwise. A day nothing is free on fails
+-- with a unique violation naming the slot, like a staff double booking.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION reschedule_shared_booking(p_token TEXT, p_date DATE)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row desk_bookings%ROWTYPE;
+  v_org organizations%ROWTYPE;
+  v_blocked TEXT;
+  v_change JSONB;
+  v_today DATE;
+  v_desk TEXT;
+BEGIN
+  v_row := shared_booking_row(p_token);
+  SELECT * INTO v_org FROM organizations WHERE id = v_row.organization_id;
+  v_blocked := visitor_change_blocked(v_row, v_org, true);
+  IF v_blocked IS NOT NULL THEN
+    RAISE EXCEPTION '%', v_blocked;
+  END IF;
+
+  v_today := (now() AT TIME ZONE v_org.timezone)::DATE;
+  IF p_date = v_row.date
+    OR p_date < v_today
+    OR p_date > v_today + COALESCE(v_org.public_booking_max_days_ahead, 14)
+    OR NOT org_open_on(v_org, p_date)
+    OR now() >= visitor_change_deadline(v_org, p_date)
+  THEN
+    RAISE EXCEPTION 'The booking can''t be moved to that day';
+  END IF;
+
+  IF desk_slot_free(v_org.id, v_row.desk_id, p_date, v_row.day_part, v_row.id) THEN
+    v_desk := v_row.desk_id;
+  ELSE
+    SELECT d.desk_id INTO v_desk
+    FROM desks d
+    LEFT JOIN rooms r ON r.id = d.room_id
+    WHERE d.organization_id = v_org.id
+      AND desk_slot_free(v_org.id, d.desk_id, p_date, v_row.day_part, v_row.id)
+    ORDER BY r.sort_order, d.sort_order
+    LIMIT 1;
+  END IF;
+
+  IF v_desk IS NULL THEN
+    RAISE EXCEPTION 'No desk is free on %', p_date
+      USING ERRCODE = '23505',
+            DETAIL = format('Key (organization_id, desk_id, date)=(%s, %s, %s) already exists.', v_org.id, v_row.desk_id, p_date);
+  END IF;
+
+  UPDATE desk_bookings
+  SET desk_id = v_desk,
+      date = p_date,
+      start_date = p_date,
+      end_date = p_date,
+      reschedule_count = reschedule_count + 1
+  WHERE id = v_row.id;
+
+  v_change := jsonb_build_object(
+    'organizationId', v_org.id,
+    'deskId', v_desk,
+    'visitorName', COALESCE(v_row.visitor_name, v_row.person_name),
+    'previousDate', v_row.start_date,
+    'date', p_date,
+    'refundRequired', false
+  );
+
+  INSERT INTO booking_notifications (organization_id, event, payload)
+  VALUES (v_org.id, 'rescheduled', v_change);
+
+  RETURN v_change;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_shared_booking(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION cancel_shared_booking(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION reschedule_shared_booking(TEXT, DATE) TO anon, authenticated;
+
+-- ============================================================
+-- Step 6: Manager notifications
+-- The share link functions queue a row here in the same transaction as the
+-- change. The send-booking-notifications Edge Function delivers each row
+-- once, over Telegram and email per the space's notification settings.
+-- Inserting wakes the function; a cron job retries whatever is left.
+-- ============================================================
+
+CREATE EXTENSION IF NOT EXISTS pg_net;
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+CREATE TABLE IF NOT EXISTS booking_notifications (
+  id BIGSERIAL PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  event TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  sent_at TIMESTAMPTZ,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  claimed_until TIMESTAMPTZ,
+  last_error TEXT
+);
+
+DO $$
+BEGIN
+  ALTER TABLE booking_notifications DROP CONSTRAINT IF EXISTS booking_notifications_event_check;
+  ALTER TABLE booking_notifications ADD CONSTRAINT booking_notifications_event_check
+    CHECK (event IN ('cancelled', 'rescheduled'));
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_booking_notifications_pending
+  ON booking_notifications(created_at) WHERE sent_at IS NULL;
+
+-- Only the service role reads or writes the queue
+ALTER TABLE booking_notifications ENABLE ROW LEVEL SECURITY;
+
+-- Hands the Edge Function up to p_limit unsent rows and keeps them from other
+-- runs for five minutes. A row that fails ten times stays unsent for a person
+-- to look at.
+CREATE OR REPLACE FUNCTION claim_booking_notifications(p_limit INTEGER DEFAULT 50)
+RETURNS SETOF booking_notifications
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE booking_notifications n
+  SET claimed_until = now() + INTERVAL '5 minutes',
+      attempts = n.attempts + 1
+  WHERE n.id IN (
+    SELECT id FROM booking_notifications
+    WHERE sent_at IS NULL
+      AND attempts < 10
+      AND (claimed_until IS NULL OR claimed_until < now())
+    ORDER BY created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING n.*
+$$;
+
+REVOKE ALL ON FUNCTION claim_booking_notifications(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_booking_notifications(INTEGER) TO service_role;
+
+-- Calls the Edge Function with the project URL and service role key from
+-- Vault (secrets 'project_url' and 'service_role_key'). Without them, or when
+-- the call can't be queued, the rows wait for the cron job.
+CREATE OR REPLACE FUNCTION request_booking_notification_delivery()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_url TEXT;
+  v_key TEXT;
+BEGIN
+  SELECT decrypted_secret INTO v_url FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO v_key FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+  IF v_url IS NULL OR v_key IS NULL THEN
+    RETURN;
+  END IF;
+
+  PERFORM net.http_post(
+    url := v_url || '/functions/v1/send-booking-notifications',
+    headers := jsonb_build_object('Content-Type', 'application/json', 'Authorization', 'Bearer ' || v_key),
+    body := '{}'::jsonb
+  );
+EXCEPTION WHEN OTHERS THEN
+  RAISE WARNING 'Could not request booking notification delivery: %', SQLERRM;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION request_booking_notification_delivery() FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION booking_notifications_queued()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM request_booking_notification_delivery();
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS booking_notifications_deliver ON booking_notifications;
+CREATE TRIGGER booking_notifications_deliver
+  AFTER INSERT ON booking_notifications
+  FOR EACH STATEMENT EXECUTE FUNCTION booking_notifications_queued();
+
+SELECT cron.schedule(
+  'deliver-booking-notifications',
+  '*/5 * * * *',
+  $cron$
+    SELECT request_booking_notification_delivery()
+    WHERE EXISTS (SELECT 1 FROM booking_notifications WHERE sent_at IS NULL AND attempts < 10)
+  $cron$
+);
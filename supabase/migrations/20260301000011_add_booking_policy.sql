@@ -0,0 +1,377 @@
+-- Migration: Add cancellation and no-show policy
+-- Date: 2026-03-01
+-- Purpose: A per-organization booking policy, a no-show mark on booking days
+--          and the fees charged under the policy.
+-- SAFETY: Additive. Organizations without a policy charge no fees. The share
+--         link and public availability functions keep every field they
+--         returned.
+
+-- ============================================================
+-- Step 1: Policy and no-show mark
+-- ============================================================
+
+ALTER TABLE organizations ADD COLUMN IF NOT EXISTS booking_policy JSONB;
+
+COMMENT ON COLUMN organizations.booking_policy IS 'Free cancellation window and late cancellation / no-show fees (see bookingPolicySchema)';
+
+ALTER TABLE desk_bookings ADD COLUMN IF NOT EXISTS no_show BOOLEAN NOT NULL DEFAULT FALSE;
+
+COMMENT ON COLUMN desk_bookings.no_show IS 'The person did not turn up on this day; the desk stays theirs';
+
+-- ============================================================
+-- Step 2: booking_fees table
+-- Fees outlive the booking they came from (a cancelled booking is deleted),
+-- so they keep the desk, day and who to bill.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS booking_fees (
+  id BIGSERIAL PRIMARY KEY,
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('late_cancellation', 'no_show')),
+  desk_id TEXT NOT NULL,
+  date DATE NOT NULL,
+  person_name TEXT,
+  client_id BIGINT,
+  amount NUMERIC(10,2) NOT NULL CHECK (amount >= 0),
+  currency TEXT,
+  -- invoices.id once the fee went on an invoice
+  invoice_id TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_fees_org_date ON booking_fees(organization_id, date);
+CREATE INDEX IF NOT EXISTS idx_booking_fees_client ON booking_fees(organization_id, client_id) WHERE invoice_id IS NULL;
+
+-- ============================================================
+-- Step 3: RLS
+-- ============================================================
+
+ALTER TABLE booking_fees ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view booking fees in their orgs" ON booking_fees
+  FOR SELECT TO authenticated
+  USING (organization_id IN (SELECT organization_id FROM organization_members WHERE user_id = auth.uid()));
+
+CREATE POLICY "Users can insert booking fees in their orgs" ON booking_fees
+  FOR INSERT TO authenticated
+  WITH CHECK (organization_id IN (SELECT organization_id FROM organization_members WHERE user_id = auth.uid()));
+
+CREATE POLICY "Users can update booking fees in their orgs" ON booking_fees
+  FOR UPDATE TO authenticated
+  USING (organization_id IN (SELECT organization_id FROM organization_members WHERE user_id = auth.uid()))
+  WITH CHECK (organization_id IN (SELECT organization_id FROM organization_members WHERE user_id = auth.uid()));
+
+CREATE POLICY "Users can delete booking fees in their orgs" ON booking_fees
+  FOR DELETE TO authenticated
+  USING (organization_id IN (SELECT organization_id FROM organization_members WHERE user_id = auth.uid()));
+
+-- ============================================================
+-- Step 4: get_shared_booking(token) also returns the policy and the price
+-- the fees are worked out from. Replaces the version from
+-- 20260301000010_add_visitor_changes.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION get_shared_booking(p_token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row desk_bookings%ROWTYPE;
+  v_org organizations%ROWTYPE;
+  v_today DATE;
+  v_label TEXT;
+  v_room TEXT;
+BEGIN
+  SELECT * INTO v_row FROM desk_bookings WHERE share_token = p_token LIMIT 1;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+  SELECT * INTO v_org FROM organizations WHERE id = v_row.organization_id;
+  v_today := (now() AT TIME ZONE v_org.timezone)::DATE;
+
+  SELECT d.label, r.name INTO v_label, v_room
+  FROM desks d
+  LEFT JOIN rooms r ON r.id = d.room_id
+  WHERE d.organization_id = v_org.id AND d.desk_id = v_row.desk_id
+  LIMIT 1;
+
+  RETURN jsonb_build_object(
+    'deskId', v_row.desk_id,
+    'startDate', v_row.start_date,
+    'endDate', v_row.end_date,
+    'status', v_row.status,
+    'title', v_row.title,
+    'spaceName', v_org.name,
+    'roomName', COALESCE(v_room, ''),
+    'deskLabel', COALESCE(v_label, v_row.desk_id),
+    'expired', v_row.end_date < v_today,
+    'contactPhone', v_org.contact_phone,
+    'contactEmail', v_org.contact_email,
+    'contactTelegram', v_org.contact_telegram,
+    'contactViberEnabled', COALESCE(v_org.contact_viber_enabled, false),
+    'contactWhatsappEnabled', COALESCE(v_org.contact_whatsapp_enabled, false),
+    'timezone', v_org.timezone,
+    'paymentStatus', v_row.payment_status,
+    'rescheduleCount', v_row.reschedule_count,
+    'visitorChanges', CASE WHEN v_org.visitor_changes_enabled THEN jsonb_build_object(
+      'cutoffHours', v_org.visitor_change_cutoff_hours,
+      'maxReschedules', v_org.visitor_max_reschedules
+    ) END,
+    'rescheduleDates', CASE
+      WHEN visitor_change_blocked(v_row, v_org, true) IS NULL THEN visitor_reschedule_dates(v_row, v_org)
+      ELSE '[]'::jsonb
+    END,
+    'bookingPolicy', v_org.booking_policy,
+    'price', v_row.price,
+    'currency', v_row.currency
+  );
+END;
+$$;
+
+-- ============================================================
+-- Step 5: cancel_shared_booking(token) records late cancellation fees
+-- After the policy's free window a late cancellation fee is recorded, like
+-- lateCancellationFee in the client.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION cancel_shared_booking(p_token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row desk_bookings%ROWTYPE;
+  v_org organizations%ROWTYPE;
+  v_blocked TEXT;
+  v_change JSONB;
+  v_policy JSONB;
+  v_value NUMERIC;
+  v_fee NUMERIC := 0;
+BEGIN
+  v_row := shared_booking_row(p_token);
+  SELECT * INTO v_org FROM organizations WHERE id = v_row.organization_id;
+  v_blocked := visitor_change_blocked(v_row, v_org, false);
+  IF v_blocked IS NOT NULL THEN
+    RAISE EXCEPTION '%', v_blocked;
+  END IF;
+
+  v_policy := v_org.booking_policy;
+  v_value := COALESCE((v_policy->>'lateCancellationFee')::NUMERIC, 0);
+  IF v_policy IS NOT NULL AND v_value > 0 AND now() >= (v_row.start_date::TIMESTAMP AT TIME ZONE v_org.timezone)
+      - make_interval(hours => COALESCE((v_policy->>'freeCancellationHours')::INT, 24)) THEN
+    v_fee := CASE
+      WHEN v_policy->>'lateCancellationFeeType' = 'fixed' THEN round(v_value, 2)
+      ELSE round(COALESCE(v_row.price, 0) * v_value / 100, 2)
+    END;
+  END IF;
+
+  DELETE FROM desk_bookings b
+  WHERE b.organization_id = v_row.organization_id
+    AND b.desk_id = v_row.desk_id
+    AND b.start_date = v_row.start_date
+    AND b.end_date = v_row.end_date
+    AND b.day_part = v_row.day_part;
+
+  IF v_fee > 0 THEN
+    INSERT INTO booking_fees (organization_id, kind, desk_id, date, person_name, client_id, amount, currency)
+    VALUES (v_org.id, 'late_cancellation', v_row.desk_id, v_row.start_date,
+            COALESCE(v_row.visitor_name, v_row.person_name), v_row.client_id, v_fee, v_row.currency);
+  END IF;
+
+  v_change := jsonb_build_object(
+    'organizationId', v_org.id,
+    'deskId', v_row.desk_id,
+    'visitorName', COALESCE(v_row.visitor_name, v_row.person_name),
+    'previousDate', v_row.start_date,
+    'date', NULL,
+    'refundRequired', COALESCE(v_row.payment_status = 'paid', false),
+    'fee', v_fee
+  );
+
+  INSERT INTO booking_notifications (organization_id, event, payload)
+  VALUES (v_org.id, 'cancelled', v_change);
+
+  RETURN v_change;
+END;
+$$;
+
+-- ============================================================
+-- Step 6: reschedule_shared_booking(token, date) clears the no-show mark
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION reschedule_shared_booking(p_token TEXT, p_date DATE)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row desk_bookings%ROWTYPE;
+  v_org organizations%ROWTYPE;
+  v_blocked TEXT;
+  v_change JSONB;
+  v_today DATE;
+  v_desk TEXT;
+BEGIN
+  v_row := shared_booking_row(p_token);
+  SELECT * INTO v_org FROM organizations WHERE id = v_row.organization_id;
+  v_blocked := visitor_change_blocked(v_row, v_org, true);
+  IF v_blocked IS NOT NULL THEN
+    RAISE EXCEPTION '%', v_blocked;
+  END IF;
+
+  v_today := (now() AT TIME ZONE v_org.timezone)::DATE;
+  IF p_date = v_row.date
+    OR p_date < v_today
+    OR p_date > v_today + COALESCE(v_org.public_booking_max_days_ahead, 14)
+    OR NOT org_open_on(v_org, p_date)
+    OR now() >= visitor_change_deadline(v_org, p_date)
+  THEN
+    RAISE EXCEPTION 'The booking can''t be moved to that day';
+  END IF;
+
+  IF desk_slot_free(v_org.id, v_row.desk_id, p_date, v_row.day_part, v_row.id) THEN
+    v_desk := v_row.desk_id;
+  ELSE
+    SELECT d.desk_id INTO v_desk
+    FROM desks d
+    LEFT JOIN rooms r ON r.id = d.room_id
+    WHERE d.organization_id = v_org.id
+      AND desk_slot_free(v_org.id, d.desk_id, p_date, v_row.day_part, v_row.id)
+    ORDER BY r.sort_order, d.sort_order
+    LIMIT 1;
+  END IF;
+
+  IF v_desk IS NULL THEN
+    RAISE EXCEPTION 'No desk is free on %', p_date
+      USING ERRCODE = '23505',
+            DETAIL = format('Key (organization_id, desk_id, date)=(%s, %s, %s) already exists.', v_org.id, v_row.desk_id, p_date);
+  END IF;
+
+  UPDATE desk_bookings
+  SET desk_id = v_desk,
+      date = p_date,
+      start_date = p_date,
+      end_date = p_date,
+      reschedule_count = reschedule_count + 1,
+      no_show = false
+  WHERE id = v_row.id;
+
+  v_change := jsonb_build_object(
+    'organizationId', v_org.id,
+    'deskId', v_desk,
+    'visitorName', COALESCE(v_row.visitor_name, v_row.person_name),
+    'previousDate', v_row.start_date,
+    'date', p_date,
+    'refundRequired', false
+  );
+
+  INSERT INTO booking_notifications (organization_id, event, payload)
+  VALUES (v_org.id, 'rescheduled', v_change);
+
+  RETURN v_change;
+END;
+$$;
+
+-- ============================================================
+-- Step 7: get_public_availability(slug) also returns the policy
+-- Replaces the version from 20260301000008_add_public_org_timezone,
+-- keeping every field it returned.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION get_public_availability(p_org_slug TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org organizations%ROWTYPE;
+  v_today DATE;
+  v_last DATE;
+BEGIN
+  SELECT * INTO v_org FROM organizations WHERE slug = p_org_slug AND public_booking_enabled;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+  v_today := (now() AT TIME ZONE v_org.timezone)::DATE;
+  v_last := v_today + COALESCE(v_org.public_booking_max_days_ahead, 14);
+
+  RETURN jsonb_build_object(
+    'org', jsonb_build_object(
+      'id', v_org.id,
+      'name', v_org.name,
+      'slug', v_org.slug,
+      'currency', v_org.currency,
+      'workingDays', to_jsonb(COALESCE(v_org.working_days, ARRAY[1, 2, 3, 4, 5])),
+      'timezone', v_org.timezone,
+      'closures', (
+        SELECT COALESCE(jsonb_agg(jsonb_build_object(
+          'startDate', c->>'startDate',
+          'endDate', COALESCE(c->>'endDate', c->>'startDate'),
+          'label', c->>'label'
+        )), '[]'::jsonb)
+        FROM jsonb_array_elements(COALESCE(v_org.closures, '[]'::jsonb)) AS c
+      ),
+      'maxDaysAhead', COALESCE(v_org.public_booking_max_days_ahead, 14),
+      'logoUrl', v_org.logo_url,
+      'contactPhone', v_org.contact_phone,
+      'contactEmail', v_org.contact_email,
+      'contactTelegram', v_org.contact_telegram,
+      'contactViberEnabled', COALESCE(v_org.contact_viber_enabled, false),
+      'contactWhatsappEnabled', COALESCE(v_org.contact_whatsapp_enabled, false),
+      'defaultPricePerDay', v_org.default_price_per_day,
+      'halfDayPrice', v_org.half_day_price,
+      'stripePublicBookingPayments', COALESCE(v_org.stripe_public_booking_payments, false),
+      'bookingPolicy', v_org.booking_policy
+    ),
+    'rooms', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'id', r.id,
+        'name', r.name,
+        'desks', (
+          SELECT COALESCE(jsonb_agg(jsonb_build_object(
+            'id', d.id,
+            'deskId', d.desk_id,
+            'label', d.label,
+            'attributes', to_jsonb(d.attributes)
+          ) ORDER BY d.sort_order), '[]'::jsonb)
+          FROM desks d
+          WHERE d.room_id = r.id
+        )
+      ) ORDER BY r.sort_order), '[]'::jsonb)
+      FROM rooms r
+      WHERE r.organization_id = v_org.id
+    ),
+    'bookedSlots', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'deskId', b.desk_id,
+        'date', b.date,
+        'dayPart', NULLIF(b.day_part, 'full')
+      )), '[]'::jsonb)
+      FROM desk_bookings b
+      WHERE b.organization_id = v_org.id
+        AND b.date BETWEEN v_today AND v_last
+        AND b.status <> 'available'
+        AND NOT COALESCE(b.is_frozen, false)
+    ),
+    'blockedSlots', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object('deskId', k.desk_id, 'date', g.day::DATE)), '[]'::jsonb)
+      FROM desk_blocks k
+      CROSS JOIN LATERAL generate_series(
+        GREATEST(k.start_date, v_today), LEAST(k.end_date, v_last), INTERVAL '1 day'
+      ) AS g(day)
+      WHERE k.organization_id = v_org.id
+        AND k.end_date >= v_today
+        AND k.start_date <= v_last
+    )
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_public_availability(TEXT) TO anon, authenticated;
@@ -0,0 +1,419 @@
+-- Migration: Add check-in tracking
+-- Date: 2026-03-01
+-- Purpose: Record when a person checks in on a booking day, release unchecked
+--          day-pass desks after a time each space sets, and let visitors and
+--          members check in from a share link, a desk QR code or their
+--          booking page.
+-- SAFETY: Additive. The public check-in functions run as their owner so
+--         anonymous visitors can call them; each only marks a row it resolved
+--         from the caller's token or member id, and only on the booking's day.
+--         get_shared_booking keeps every field it returned.
+
+-- ============================================================
+-- Step 1: Columns
+-- ============================================================
+
+ALTER TABLE desk_bookings ADD COLUMN IF NOT EXISTS checked_in_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN desk_bookings.checked_in_at IS 'When the person checked in on this day';
+
+ALTER TABLE organizations ADD COLUMN IF NOT EXISTS auto_release_time TEXT;
+
+DO $$
+BEGIN
+  ALTER TABLE organizations DROP CONSTRAINT IF EXISTS organizations_auto_release_time_check;
+  ALTER TABLE organizations ADD CONSTRAINT organizations_auto_release_time_check
+    CHECK (auto_release_time IS NULL OR auto_release_time ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$');
+END $$;
+
+COMMENT ON COLUMN organizations.auto_release_time IS 'HH:MM in the space''s timezone after which unchecked day-pass desks are released. NULL keeps them all day.';
+
+-- ============================================================
+-- Step 2: check_in_desk_booking(id) — internal
+-- Same window as canCheckIn in the client: an active booking, on its own day
+-- in the space's timezone. Checking in clears a no-show mark; a day already
+-- checked in keeps its first check-in time.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION check_in_desk_booking(p_booking_id BIGINT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row desk_bookings%ROWTYPE;
+  v_today DATE;
+  v_label TEXT;
+BEGIN
+  SELECT * INTO v_row FROM desk_bookings WHERE id = p_booking_id FOR UPDATE;
+  IF NOT FOUND OR v_row.status = 'available' OR COALESCE(v_row.is_frozen, false) THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  SELECT (now() AT TIME ZONE o.timezone)::date INTO v_today
+  FROM organizations o WHERE o.id = v_row.organization_id;
+  IF v_row.date <> v_today THEN
+    RAISE EXCEPTION 'Check-in is only possible on the day of the booking';
+  END IF;
+
+  IF v_row.checked_in_at IS NULL THEN
+    UPDATE desk_bookings SET checked_in_at = now(), no_show = false
+    WHERE id = v_row.id
+    RETURNING * INTO v_row;
+  END IF;
+
+  SELECT d.label INTO v_label
+  FROM desks d
+  WHERE d.organization_id = v_row.organization_id AND d.desk_id = v_row.desk_id
+  LIMIT 1;
+
+  RETURN jsonb_build_object(
+    'deskId', v_row.desk_id,
+    'deskLabel', COALESCE(v_label, v_row.desk_id),
+    'date', v_row.date,
+    'personName', v_row.person_name,
+    'checkedInAt', v_row.checked_in_at
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION check_in_desk_booking(BIGINT) FROM PUBLIC, anon, authenticated;
+
+-- Today's day row of the booking a share token belongs to. The token sits on
+-- one row of a multi-day booking; its other rows share desk, part of the day
+-- and start/end dates.
+CREATE OR REPLACE FUNCTION shared_booking_today_row(p_token TEXT)
+RETURNS BIGINT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT b.id
+  FROM desk_bookings t
+  JOIN organizations o ON o.id = t.organization_id
+  JOIN desk_bookings b
+    ON b.organization_id = t.organization_id
+   AND b.desk_id = t.desk_id
+   AND b.start_date = t.start_date
+   AND b.end_date = t.end_date
+   AND b.day_part = t.day_part
+  WHERE t.share_token = p_token
+    AND b.date = (now() AT TIME ZONE o.timezone)::date
+  LIMIT 1
+$$;
+
+REVOKE ALL ON FUNCTION shared_booking_today_row(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================
+-- Step 3: Public check-in functions
+-- ============================================================
+
+-- From the share page
+CREATE OR REPLACE FUNCTION check_in_shared_booking(p_token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id BIGINT;
+BEGIN
+  -- Any row of the booking when none is today, so the day check explains why
+  v_id := COALESCE(
+    shared_booking_today_row(p_token),
+    (SELECT id FROM desk_bookings WHERE share_token = p_token LIMIT 1)
+  );
+  IF v_id IS NULL THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+  RETURN check_in_desk_booking(v_id);
+END;
+$$;
+
+-- From a desk's QR code: the visitor is recognised by share links opened on
+-- the same device. NULL when none of them is for today's booking on the desk.
+CREATE OR REPLACE FUNCTION check_in_at_desk(p_org_slug TEXT, p_desk_id TEXT, p_tokens TEXT[])
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id BIGINT;
+BEGIN
+  SELECT b.id INTO v_id
+  FROM desk_bookings b
+  JOIN organizations o ON o.id = b.organization_id
+  WHERE o.slug = p_org_slug
+    AND b.desk_id = p_desk_id
+    AND b.date = (now() AT TIME ZONE o.timezone)::date
+    AND b.status <> 'available'
+    AND NOT COALESCE(b.is_frozen, false)
+    AND EXISTS (
+      SELECT 1 FROM desk_bookings t
+      WHERE t.share_token = ANY (p_tokens)
+        AND t.organization_id = b.organization_id
+        AND t.desk_id = b.desk_id
+        AND t.start_date = b.start_date
+        AND t.end_date = b.end_date
+        AND t.day_part = b.day_part
+    )
+  ORDER BY b.checked_in_at NULLS FIRST
+  LIMIT 1;
+
+  IF v_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+  RETURN check_in_desk_booking(v_id);
+END;
+$$;
+
+-- From the member booking page
+CREATE OR REPLACE FUNCTION check_in_member_booking(p_client_id BIGINT, p_org_slug TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id BIGINT;
+BEGIN
+  SELECT b.id INTO v_id
+  FROM desk_bookings b
+  JOIN organizations o ON o.id = b.organization_id
+  WHERE o.slug = p_org_slug
+    AND b.client_id = p_client_id
+    AND b.date = (now() AT TIME ZONE o.timezone)::date
+    AND b.status <> 'available'
+    AND NOT COALESCE(b.is_frozen, false)
+  ORDER BY b.checked_in_at NULLS FIRST
+  LIMIT 1;
+
+  IF v_id IS NULL THEN
+    RAISE EXCEPTION 'You have no desk booked for today';
+  END IF;
+  RETURN check_in_desk_booking(v_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION check_in_shared_booking(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION check_in_at_desk(TEXT, TEXT, TEXT[]) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION check_in_member_booking(BIGINT, TEXT) TO anon, authenticated;
+
+-- ============================================================
+-- Step 4: The share link shows today's check-in, and a moved booking
+-- starts unchecked. Replaces the versions from
+-- 20260301000011_add_booking_policy.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION get_shared_booking(p_token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row desk_bookings%ROWTYPE;
+  v_org organizations%ROWTYPE;
+  v_today DATE;
+  v_label TEXT;
+  v_room TEXT;
+  v_checked_in_at TIMESTAMPTZ;
+BEGIN
+  SELECT * INTO v_row FROM desk_bookings WHERE share_token = p_token LIMIT 1;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+  SELECT * INTO v_org FROM organizations WHERE id = v_row.organization_id;
+  v_today := (now() AT TIME ZONE v_org.timezone)::DATE;
+
+  SELECT d.label, r.name INTO v_label, v_room
+  FROM desks d
+  LEFT JOIN rooms r ON r.id = d.room_id
+  WHERE d.organization_id = v_org.id AND d.desk_id = v_row.desk_id
+  LIMIT 1;
+
+  SELECT b.checked_in_at INTO v_checked_in_at
+  FROM desk_bookings b
+  WHERE b.organization_id = v_row.organization_id
+    AND b.desk_id = v_row.desk_id
+    AND b.start_date = v_row.start_date
+    AND b.end_date = v_row.end_date
+    AND b.day_part = v_row.day_part
+    AND b.date = v_today
+  LIMIT 1;
+
+  RETURN jsonb_build_object(
+    'deskId', v_row.desk_id,
+    'startDate', v_row.start_date,
+    'endDate', v_row.end_date,
+    'status', v_row.status,
+    'title', v_row.title,
+    'spaceName', v_org.name,
+    'roomName', COALESCE(v_room, ''),
+    'deskLabel', COALESCE(v_label, v_row.desk_id),
+    'expired', v_row.end_date < v_today,
+    'contactPhone', v_org.contact_phone,
+    'contactEmail', v_org.contact_email,
+    'contactTelegram', v_org.contact_telegram,
+    'contactViberEnabled', COALESCE(v_org.contact_viber_enabled, false),
+    'contactWhatsappEnabled', COALESCE(v_org.contact_whatsapp_enabled, false),
+    'timezone', v_org.timezone,
+    'paymentStatus', v_row.payment_status,
+    'rescheduleCount', v_row.reschedule_count,
+    'visitorChanges', CASE WHEN v_org.visitor_changes_enabled THEN jsonb_build_object(
+      'cutoffHours', v_org.visitor_change_cutoff_hours,
+      'maxReschedules', v_org.visitor_max_reschedules
+    ) END,
+    'rescheduleDates', CASE
+      WHEN visitor_change_blocked(v_row, v_org, true) IS NULL THEN visitor_reschedule_dates(v_row, v_org)
+      ELSE '[]'::jsonb
+    END,
+    'bookingPolicy', v_org.booking_policy,
+    'price', v_row.price,
+    'currency', v_row.currency,
+    'checkedInAt', v_checked_in_at
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reschedule_shared_booking(p_token TEXT, p_date DATE)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row desk_bookings%ROWTYPE;
+  v_org organizations%ROWTYPE;
+  v_blocked TEXT;
+  v_change JSONB;
+  v_today DATE;
+  v_desk TEXT;
+BEGIN
+  v_row := shared_booking_row(p_token);
+  SELECT * INTO v_org FROM organizations WHERE id = v_row.organization_id;
+  v_blocked := visitor_change_blocked(v_row, v_org, true);
+  IF v_blocked IS NOT NULL THEN
+    RAISE EXCEPTION '%', v_blocked;
+  END IF;
+
+  v_today := (now() AT TIME ZONE v_org.timezone)::DATE;
+  IF p_date = v_row.date
+    OR p_date < v_today
+    OR p_date > v_today + COALESCE(v_org.public_booking_max_days_ahead, 14)
+    OR NOT org_open_on(v_org, p_date)
+    OR now() >= visitor_change_deadline(v_org, p_date)
+  THEN
+    RAISE EXCEPTION 'The booking can''t be moved to that day';
+  END IF;
+
+  IF desk_slot_free(v_org.id, v_row.desk_id, p_date, v_row.day_part, v_row.id) THEN
+    v_desk := v_row.desk_id;
+  ELSE
+    SELECT d.desk_id INTO v_desk
+    FROM desks d
+    LEFT JOIN rooms r ON r.id = d.room_id
+    WHERE d.organization_id = v_org.id
+      AND desk_slot_free(v_org.id, d.desk_id, p_date, v_row.day_part, v_row.id)
+    ORDER BY r.sort_order, d.sort_order
+    LIMIT 1;
+  END IF;
+
+  IF v_desk IS NULL THEN
+    RAISE EXCEPTION 'No desk is free on %', p_date
+      USING ERRCODE = '23505',
+            DETAIL = format('Key (organization_id, desk_id, date)=(%s, %s, %s) already exists.', v_org.id, v_row.desk_id, p_date);
+  END IF;
+
+  UPDATE desk_bookings
+  SET desk_id = v_desk,
+      date = p_date,
+      start_date = p_date,
+      end_date = p_date,
+      reschedule_count = reschedule_count + 1,
+      checked_in_at = NULL,
+      no_show = false
+  WHERE id = v_row.id;
+
+  v_change := jsonb_build_object(
+    'organizationId', v_org.id,
+    'deskId', v_desk,
+    'visitorName', COALESCE(v_row.visitor_name, v_row.person_name),
+    'previousDate', v_row.start_date,
+    'date', p_date,
+    'refundRequired', false,
+    'fee', NULL
+  );
+
+  INSERT INTO booking_notifications (organization_id, event, payload)
+  VALUES (v_org.id, 'rescheduled', v_change);
+
+  RETURN v_change;
+END;
+$$;
+
+-- ============================================================
+-- Step 5: release_unchecked_desks() — run every minute by cron
+-- Deletes today's day-pass bookings nobody checked in to once each space's
+-- auto_release_time has passed in its timezone, with an audit entry per
+-- booking. Mirrors bookingsToAutoRelease in the client.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION release_unchecked_desks()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  WITH released AS (
+    DELETE FROM desk_bookings b
+    USING organizations o
+    WHERE b.organization_id = o.id
+      AND o.auto_release_time IS NOT NULL
+      AND o.timezone IN (SELECT name FROM pg_timezone_names)
+      AND b.date = (now() AT TIME ZONE o.timezone)::DATE
+      AND now() >= (b.date + o.auto_release_time::TIME) AT TIME ZONE o.timezone
+      AND b.status <> 'available'
+      AND NOT COALESCE(b.is_frozen, false)
+      AND b.checked_in_at IS NULL
+      AND COALESCE(
+        b.plan_type,
+        CASE WHEN b.is_flex THEN 'flex' WHEN b.start_date = b.end_date THEN 'day_pass' ELSE 'custom' END
+      ) = 'day_pass'
+    RETURNING b.*
+  )
+  INSERT INTO audit_log (
+    organization_id, entity_type, entity_id, action, actor_name, summary,
+    client_id, desk_id, start_date, end_date
+  )
+  SELECT
+    r.organization_id,
+    'booking',
+    'booking-' || to_char(r.created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'),
+    'delete',
+    'Auto-release',
+    format('Deleted %s booking%s on %s (%s – %s)', r.status,
+           COALESCE(' for ' || NULLIF(r.person_name, ''), ''), r.desk_id, r.start_date, r.end_date),
+    r.client_id::TEXT,
+    r.desk_id,
+    r.start_date,
+    r.end_date
+  FROM released r;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION release_unchecked_desks() FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('release-unchecked-desks', '* * * * *', 'SELECT release_unchecked_desks()');
@@ -0,0 +1,356 @@
+-- Migration: Add tentative holds
+-- Date: 2026-03-01
+-- Purpose: A booked (unpaid) booking can be held until a set moment and is
+--          released when nobody paid by then. Public bookings paid at the
+--          space are held for the organization's hold period.
+--          An expired hold counts as free everywhere: it is released before
+--          any write that could need its slot, and by cron every minute,
+--          which also tells the space's managers once.
+-- SAFETY: Additive. Existing bookings are not held. get_public_availability
+--         and save_desk_bookings keep their signatures and every field
+--         get_public_availability returned.
+
+-- ============================================================
+-- Step 1: Hold columns
+-- ============================================================
+
+ALTER TABLE desk_bookings ADD COLUMN IF NOT EXISTS held_until TIMESTAMPTZ;
+
+-- Paid bookings are never held
+DO $$
+BEGIN
+  ALTER TABLE desk_bookings DROP CONSTRAINT IF EXISTS desk_bookings_held_until_check;
+  ALTER TABLE desk_bookings ADD CONSTRAINT desk_bookings_held_until_check
+    CHECK (held_until IS NULL OR status = 'booked');
+END $$;
+
+COMMENT ON COLUMN desk_bookings.held_until IS 'Tentative hold: the booking is released at this moment unless paid first';
+
+CREATE INDEX IF NOT EXISTS idx_desk_bookings_held ON desk_bookings(organization_id, held_until) WHERE held_until IS NOT NULL;
+
+ALTER TABLE organizations ADD COLUMN IF NOT EXISTS public_hold_hours INTEGER CHECK (public_hold_hours IS NULL OR public_hold_hours > 0);
+
+COMMENT ON COLUMN organizations.public_hold_hours IS 'Hours a public booking paid at the space is held before release. NULL keeps it until staff remove it.';
+
+-- ============================================================
+-- Step 2: get_public_availability(slug) also returns holds and the hold period
+-- Replaces the version from 20260301000011_add_booking_policy,
+-- keeping every field it returned. Expired holds are left out.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION get_public_availability(p_org_slug TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org organizations%ROWTYPE;
+  v_today DATE;
+  v_last DATE;
+BEGIN
+  SELECT * INTO v_org FROM organizations WHERE slug = p_org_slug AND public_booking_enabled;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+  v_today := (now() AT TIME ZONE v_org.timezone)::DATE;
+  v_last := v_today + COALESCE(v_org.public_booking_max_days_ahead, 14);
+
+  RETURN jsonb_build_object(
+    'org', jsonb_build_object(
+      'id', v_org.id,
+      'name', v_org.name,
+      'slug', v_org.slug,
+      'currency', v_org.currency,
+      'workingDays', to_jsonb(COALESCE(v_org.working_days, ARRAY[1, 2, 3, 4, 5])),
+      'timezone', v_org.timezone,
+      'closures', (
+        SELECT COALESCE(jsonb_agg(jsonb_build_object(
+          'startDate', c->>'startDate',
+          'endDate', COALESCE(c->>'endDate', c->>'startDate'),
+          'label', c->>'label'
+        )), '[]'::jsonb)
+        FROM jsonb_array_elements(COALESCE(v_org.closures, '[]'::jsonb)) AS c
+      ),
+      'maxDaysAhead', COALESCE(v_org.public_booking_max_days_ahead, 14),
+      'logoUrl', v_org.logo_url,
+      'contactPhone', v_org.contact_phone,
+      'contactEmail', v_org.contact_email,
+      'contactTelegram', v_org.contact_telegram,
+      'contactViberEnabled', COALESCE(v_org.contact_viber_enabled, false),
+      'contactWhatsappEnabled', COALESCE(v_org.contact_whatsapp_enabled, false),
+      'defaultPricePerDay', v_org.default_price_per_day,
+      'halfDayPrice', v_org.half_day_price,
+      'stripePublicBookingPayments', COALESCE(v_org.stripe_public_booking_payments, false),
+      'bookingPolicy', v_org.booking_policy,
+      'publicHoldHours', v_org.public_hold_hours
+    ),
+    'rooms', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'id', r.id,
+        'name', r.name,
+        'desks', (
+          SELECT COALESCE(jsonb_agg(jsonb_build_object(
+            'id', d.id,
+            'deskId', d.desk_id,
+            'label', d.label,
+            'attributes', to_jsonb(d.attributes)
+          ) ORDER BY d.sort_order), '[]'::jsonb)
+          FROM desks d
+          WHERE d.room_id = r.id
+        )
+      ) ORDER BY r.sort_order), '[]'::jsonb)
+      FROM rooms r
+      WHERE r.organization_id = v_org.id
+    ),
+    'bookedSlots', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'deskId', b.desk_id,
+        'date', b.date,
+        'dayPart', NULLIF(b.day_part, 'full'),
+        'heldUntil', b.held_until
+      )), '[]'::jsonb)
+      FROM desk_bookings b
+      WHERE b.organization_id = v_org.id
+        AND b.date BETWEEN v_today AND v_last
+        AND b.status <> 'available'
+        AND NOT COALESCE(b.is_frozen, false)
+        AND (b.held_until IS NULL OR b.held_until > now())
+    ),
+    'blockedSlots', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object('deskId', k.desk_id, 'date', g.day::DATE)), '[]'::jsonb)
+      FROM desk_blocks k
+      CROSS JOIN LATERAL generate_series(
+        GREATEST(k.start_date, v_today), LEAST(k.end_date, v_last), INTERVAL '1 day'
+      ) AS g(day)
+      WHERE k.organization_id = v_org.id
+        AND k.end_date >= v_today
+        AND k.start_date <= v_last
+    )
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_public_availability(TEXT) TO anon, authenticated;
+
+-- ============================================================
+-- Step 3: release_expired_holds(org) — frees holds nobody paid for in time
+-- Deletes them with an audit entry each and queues one notification per
+-- space listing them. Without an organization it covers every space.
+-- ============================================================
+
+DO $$
+BEGIN
+  ALTER TABLE booking_notifications DROP CONSTRAINT IF EXISTS booking_notifications_event_check;
+  ALTER TABLE booking_notifications ADD CONSTRAINT booking_notifications_event_check
+    CHECK (event IN ('cancelled', 'rescheduled', 'hold_expired'));
+END $$;
+
+CREATE OR REPLACE FUNCTION release_expired_holds(
+  p_organization_id UUID DEFAULT NULL,
+  p_except_id BIGINT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  WITH released AS (
+    DELETE FROM desk_bookings b
+    WHERE b.held_until IS NOT NULL
+      AND b.held_until <= now()
+      AND (p_organization_id IS NULL OR b.organization_id = p_organization_id)
+      AND b.id IS DISTINCT FROM p_except_id
+    RETURNING b.*
+  ),
+  audited AS (
+    INSERT INTO audit_log (
+      organization_id, entity_type, entity_id, action, actor_name, summary,
+      client_id, desk_id, start_date, end_date
+    )
+    SELECT
+      r.organization_id,
+      'booking',
+      'booking-' || to_char(r.created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'),
+      'delete',
+      'Hold expiry',
+      format('Deleted %s booking%s on %s (%s – %s)', r.status,
+             COALESCE(' for ' || NULLIF(r.person_name, ''), ''), r.desk_id, r.start_date, r.end_date),
+      r.client_id::TEXT,
+      r.desk_id,
+      r.start_date,
+      r.end_date
+    FROM released r
+  ),
+  notified AS (
+    INSERT INTO booking_notifications (organization_id, event, payload)
+    SELECT h.organization_id, 'hold_expired',
+           jsonb_build_object('holds', jsonb_agg(h.hold ORDER BY h.hold->>'startDate', h.hold->>'deskId'))
+    FROM (
+      SELECT DISTINCT r.organization_id, jsonb_build_object(
+        'deskId', r.desk_id,
+        'personName', r.person_name,
+        'startDate', r.start_date,
+        'endDate', r.end_date
+      ) AS hold
+      FROM released r
+      WHERE r.organization_id IS NOT NULL
+    ) h
+    GROUP BY h.organization_id
+  )
+  SELECT count(*) INTO v_count FROM released;
+
+  RETURN v_count;
+END;
+$$;
+
+-- Staff writes reach it through save_desk_bookings and the trigger below; it
+-- only ever removes holds whose time is up.
+REVOKE ALL ON FUNCTION release_expired_holds(UUID, BIGINT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION release_expired_holds(UUID, BIGINT) TO authenticated;
+
+-- ============================================================
+-- Step 4: Expired holds never block a write
+-- Before a row takes a slot, the space's expired holds are released, so
+-- desk_bookings_no_overlap and idx_desk_bookings_slot don't trip on them.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION release_expired_holds_before_write()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status <> 'available' AND NEW.organization_id IS NOT NULL THEN
+    PERFORM release_expired_holds(NEW.organization_id, NEW.id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS desk_bookings_release_expired_holds ON desk_bookings;
+CREATE TRIGGER desk_bookings_release_expired_holds
+  BEFORE INSERT OR UPDATE OF desk_id, date, day_part, status ON desk_bookings
+  FOR EACH ROW EXECUTE FUNCTION release_expired_holds_before_write();
+
+-- Whether nothing occupies the desk in that part of the day and it isn't
+-- blocked. Replaces the version from 20260301000010_add_visitor_changes;
+-- an expired hold no longer occupies the desk.
+CREATE OR REPLACE FUNCTION desk_slot_free(
+  p_organization_id UUID,
+  p_desk_id TEXT,
+  p_date DATE,
+  p_day_part TEXT,
+  p_except_id BIGINT DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1 FROM desk_bookings b
+    WHERE b.organization_id = p_organization_id
+      AND b.desk_id = p_desk_id
+      AND b.date = p_date
+      AND b.status <> 'available'
+      AND NOT COALESCE(b.is_frozen, false)
+      AND (b.held_until IS NULL OR b.held_until > now())
+      AND desk_day_span(b.day_part) && desk_day_span(p_day_part)
+      AND b.id IS DISTINCT FROM p_except_id
+  )
+  AND NOT EXISTS (
+    SELECT 1 FROM desk_blocks k
+    WHERE k.organization_id = p_organization_id
+      AND k.desk_id = p_desk_id
+      AND p_date BETWEEN k.start_date AND k.end_date
+  )
+$$;
+
+-- ============================================================
+-- Step 5: save_desk_bookings releases expired holds first
+-- Replaces the version from 20260301000004_add_half_day_bookings, so a
+-- booking written over an expired hold's row isn't taken for a conflict.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION save_desk_bookings(
+  p_organization_id UUID,
+  p_rows JSONB,
+  p_deletions JSONB DEFAULT '[]'::jsonb
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_row JSONB;
+  v_id BIGINT;
+  v_existing desk_bookings%ROWTYPE;
+  v_columns TEXT;
+BEGIN
+  PERFORM release_expired_holds(p_organization_id);
+
+  DELETE FROM desk_bookings b
+  USING jsonb_to_recordset(p_deletions) AS d(desk_id TEXT, date DATE, day_part TEXT)
+  WHERE b.organization_id IS NOT DISTINCT FROM p_organization_id
+    AND b.desk_id = d.desk_id
+    AND b.date = d.date
+    AND b.day_part = COALESCE(d.day_part, 'full')
+    AND b.id NOT IN (
+      SELECT (r->>'id')::BIGINT FROM jsonb_array_elements(p_rows) AS r WHERE r ? 'id'
+    );
+
+  FOR v_row IN SELECT value FROM jsonb_array_elements(p_rows) LOOP
+    IF p_organization_id IS NOT NULL THEN
+      v_row := v_row || jsonb_build_object('organization_id', p_organization_id);
+    END IF;
+
+    SELECT string_agg(quote_ident(c.column_name), ', ')
+    INTO v_columns
+    FROM information_schema.columns c
+    WHERE c.table_schema = 'public'
+      AND c.table_name = 'desk_bookings'
+      AND v_row ? c.column_name;
+
+    v_id := (v_row->>'id')::BIGINT;
+    SELECT * INTO v_existing FROM desk_bookings WHERE id = v_id FOR UPDATE;
+
+    IF FOUND THEN
+      IF v_existing.organization_id IS DISTINCT FROM p_organization_id
+        OR NOT (
+          v_existing.status = 'available'
+          OR COALESCE(v_existing.is_frozen, false)
+          OR v_existing.created_at::timestamptz = (v_row->>'created_at')::timestamptz
+        )
+      THEN
+        RAISE EXCEPTION 'Desk % is already taken on %', v_row->>'desk_id', v_row->>'date'
+          USING ERRCODE = '23505',
+                DETAIL = format(
+                  'Key (organization_id, desk_id, date)=(%s, %s, %s) already exists.',
+                  p_organization_id, v_row->>'desk_id', v_row->>'date'
+                );
+      END IF;
+
+      EXECUTE format(
+        'UPDATE desk_bookings SET (%1$s) = (SELECT %1$s FROM jsonb_populate_record(NULL::desk_bookings, $1)) WHERE id = $2',
+        v_columns
+      ) USING v_row, v_id;
+    ELSE
+      EXECUTE format(
+        'INSERT INTO desk_bookings (%1$s) SELECT %1$s FROM jsonb_populate_record(NULL::desk_bookings, $1)',
+        v_columns
+      ) USING v_row;
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- ============================================================
+-- Step 6: Release expired holds every minute
+-- ============================================================
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('release-expired-holds', '* * * * *', 'SELECT release_expired_holds()');
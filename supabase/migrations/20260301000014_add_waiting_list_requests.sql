@@ -0,0 +1,15 @@
+-- Migration: Add structured waiting-list requests
+-- Date: 2026-03-01
+-- Purpose: Waiting-list entries ask for a date range or plan, optionally a
+--          desk or desk attributes, and can belong to a member, so freed
+--          desks can be matched to them.
+-- SAFETY: Additive. Older entries keep their free-text dates.
+
+ALTER TABLE waiting_list_entries ADD COLUMN IF NOT EXISTS start_date DATE;
+ALTER TABLE waiting_list_entries ADD COLUMN IF NOT EXISTS end_date DATE;
+ALTER TABLE waiting_list_entries ADD COLUMN IF NOT EXISTS plan_type TEXT;
+ALTER TABLE waiting_list_entries ADD COLUMN IF NOT EXISTS desk_id TEXT;
+ALTER TABLE waiting_list_entries ADD COLUMN IF NOT EXISTS desk_attributes TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE waiting_list_entries ADD COLUMN IF NOT EXISTS client_id BIGINT;
+
+COMMENT ON COLUMN waiting_list_entries.desk_attributes IS 'Any desk with all of these attributes matches, besides desk_id';
@@ -0,0 +1,401 @@
+-- Migration: Add waiting-list offers
+-- Date: 2026-03-01
+-- Purpose: Sign-ups from the public booking page, and desks offered to the
+--          person waiting longest through a claim link that runs out.
+--          Offers are made here, by cron, and emailed once from the
+--          booking_notifications queue.
+-- SAFETY: Additive. The sign-up and claim functions run as their owner so
+--         anonymous visitors can call them; claims only act on the entry
+--         their token belongs to.
+
+-- ============================================================
+-- Step 1: Contact and offer columns
+-- ============================================================
+
+ALTER TABLE waiting_list_entries ADD COLUMN IF NOT EXISTS contact_email TEXT;
+
+-- Public sign-ups take their id from the database. The manager's app still
+-- numbers its own entries by creation time, so the sequence starts past them.
+CREATE SEQUENCE IF NOT EXISTS waiting_list_entries_id_seq OWNED BY waiting_list_entries.id;
+SELECT setval('waiting_list_entries_id_seq',
+              GREATEST(COALESCE((SELECT max(id) FROM waiting_list_entries), 0), 1));
+ALTER TABLE waiting_list_entries ALTER COLUMN id SET DEFAULT nextval('waiting_list_entries_id_seq');
+
+ALTER TABLE waiting_list_entries ADD COLUMN IF NOT EXISTS offer_desk_id TEXT;
+ALTER TABLE waiting_list_entries ADD COLUMN IF NOT EXISTS offer_start_date DATE;
+ALTER TABLE waiting_list_entries ADD COLUMN IF NOT EXISTS offer_end_date DATE;
+ALTER TABLE waiting_list_entries ADD COLUMN IF NOT EXISTS claim_token TEXT;
+ALTER TABLE waiting_list_entries ADD COLUMN IF NOT EXISTS claim_expires_at TIMESTAMPTZ;
+ALTER TABLE waiting_list_entries ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN waiting_list_entries.claim_token IS 'Token of the claim link emailed with the current offer';
+COMMENT ON COLUMN waiting_list_entries.claimed_at IS 'When the offer was claimed; the entry is off the waiting list from then on';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_waiting_list_claim_token ON waiting_list_entries(claim_token) WHERE claim_token IS NOT NULL;
+
+DO $$
+BEGIN
+  ALTER TABLE waiting_list_entries DROP CONSTRAINT IF EXISTS waiting_list_entries_offer_check;
+  ALTER TABLE waiting_list_entries ADD CONSTRAINT waiting_list_entries_offer_check
+    CHECK (claim_token IS NULL OR (
+      offer_desk_id IS NOT NULL
+      AND offer_start_date IS NOT NULL
+      AND offer_end_date >= offer_start_date
+      AND claim_expires_at IS NOT NULL
+    ));
+END $$;
+
+-- ============================================================
+-- Step 2: Offers run out after 24 hours
+-- A new offer may expire sooner than that, never later, whatever expiry the
+-- manager's app sent along (DEFAULT_CLAIM_HOURS in the client).
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION limit_waitlist_claim_expiry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.claim_token IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.claim_token IS DISTINCT FROM OLD.claim_token) THEN
+    NEW.claim_expires_at := LEAST(NEW.claim_expires_at, now() + INTERVAL '24 hours');
+    NEW.claimed_at := NULL;
+  ELSIF TG_OP = 'UPDATE' AND NEW.claim_token IS NOT NULL THEN
+    -- The expiry of an offer already out can't be pushed back
+    NEW.claim_expires_at := LEAST(NEW.claim_expires_at, OLD.claim_expires_at);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS waiting_list_entries_claim_expiry ON waiting_list_entries;
+CREATE TRIGGER waiting_list_entries_claim_expiry
+  BEFORE INSERT OR UPDATE ON waiting_list_entries
+  FOR EACH ROW EXECUTE FUNCTION limit_waitlist_claim_expiry();
+
+-- ============================================================
+-- Step 3: join_public_waiting_list — public sign-ups
+-- Visitors of the public booking page may add themselves to a space that
+-- takes online bookings, with dates and an email, but no offer. The space's
+-- managers are told.
+-- ============================================================
+
+-- Sign-ups go through join_public_waiting_list only
+DROP POLICY IF EXISTS "Visitors can join public waiting lists" ON waiting_list_entries;
+
+CREATE OR REPLACE FUNCTION join_public_waiting_list(
+  p_organization_id UUID,
+  p_name TEXT,
+  p_email TEXT,
+  p_phone TEXT,
+  p_start_date DATE,
+  p_end_date DATE,
+  p_desk_attributes TEXT[],
+  p_notes TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry waiting_list_entries%ROWTYPE;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM organizations WHERE id = p_organization_id AND public_booking_enabled) THEN
+    RAISE EXCEPTION 'This space does not take online bookings';
+  END IF;
+  IF btrim(COALESCE(p_name, '')) = '' OR COALESCE(p_email, '') !~ '^\S+@\S+\.\S+$' THEN
+    RAISE EXCEPTION 'A name and an email address are required';
+  END IF;
+  IF p_start_date IS NULL OR p_end_date IS NULL OR p_end_date < p_start_date THEN
+    RAISE EXCEPTION 'Pick the days you need a desk';
+  END IF;
+
+  INSERT INTO waiting_list_entries (
+    organization_id, name, start_date, end_date, desk_attributes,
+    contact_info, contact_email, notes, created_at
+  )
+  VALUES (
+    p_organization_id, btrim(p_name), p_start_date, p_end_date, COALESCE(p_desk_attributes, '{}'),
+    NULLIF(btrim(p_phone), ''), btrim(p_email), NULLIF(btrim(p_notes), ''), now()
+  )
+  RETURNING * INTO v_entry;
+
+  INSERT INTO booking_notifications (organization_id, event, payload)
+  VALUES (p_organization_id, 'waitlist_joined', jsonb_build_object(
+    'name', v_entry.name,
+    'email', v_entry.contact_email,
+    'phone', v_entry.contact_info,
+    'startDate', v_entry.start_date,
+    'endDate', v_entry.end_date,
+    'notes', v_entry.notes
+  ));
+END;
+$$;
+
+-- ============================================================
+-- Step 4: get_waitlist_claim(token) — what the claim link shows
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION get_waitlist_claim(p_token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry waiting_list_entries%ROWTYPE;
+  v_org organizations%ROWTYPE;
+  v_label TEXT;
+BEGIN
+  SELECT * INTO v_entry FROM waiting_list_entries WHERE claim_token = p_token;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+  SELECT * INTO v_org FROM organizations WHERE id = v_entry.organization_id;
+
+  SELECT d.label INTO v_label
+  FROM desks d
+  WHERE d.organization_id = v_org.id AND d.desk_id = v_entry.offer_desk_id
+  LIMIT 1;
+
+  RETURN jsonb_build_object(
+    'orgName', v_org.name,
+    'orgSlug', v_org.slug,
+    'name', v_entry.name,
+    'deskLabel', COALESCE(v_label, v_entry.offer_desk_id),
+    'startDate', v_entry.offer_start_date,
+    'endDate', v_entry.offer_end_date,
+    'expiresAt', v_entry.claim_expires_at,
+    'status', CASE
+      WHEN v_entry.claimed_at IS NOT NULL THEN 'claimed'
+      WHEN now() >= v_entry.claim_expires_at THEN 'expired'
+      ELSE 'open'
+    END
+  );
+END;
+$$;
+
+-- ============================================================
+-- Step 5: claim_waitlist_offer(token)
+-- Books every open day of the offer on the offered desk when it is still
+-- free, else on the first free desk with the asked-for attributes, and takes
+-- the entry off the waiting list. Expired and claimed offers are refused.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION claim_waitlist_offer(p_token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry waiting_list_entries%ROWTYPE;
+  v_org organizations%ROWTYPE;
+  v_days DATE[];
+  v_desk TEXT;
+  v_label TEXT;
+  v_result JSONB;
+BEGIN
+  SELECT * INTO v_entry FROM waiting_list_entries WHERE claim_token = p_token FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Offer not found';
+  END IF;
+  IF v_entry.claimed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This desk was already claimed with this link.';
+  END IF;
+  IF now() >= v_entry.claim_expires_at THEN
+    RAISE EXCEPTION 'This offer has expired.';
+  END IF;
+  SELECT * INTO v_org FROM organizations WHERE id = v_entry.organization_id;
+
+  SELECT array_agg(g.day::DATE ORDER BY g.day) INTO v_days
+  FROM generate_series(v_entry.offer_start_date, v_entry.offer_end_date, INTERVAL '1 day') AS g(day)
+  WHERE org_open_on(v_org, g.day::DATE);
+  IF v_days IS NULL THEN
+    RAISE EXCEPTION 'The space is closed on the offered days.';
+  END IF;
+
+  SELECT d.desk_id INTO v_desk
+  FROM desks d
+  LEFT JOIN rooms r ON r.id = d.room_id
+  WHERE d.organization_id = v_org.id
+    AND (d.desk_id = v_entry.offer_desk_id OR d.attributes @> v_entry.desk_attributes)
+    AND NOT EXISTS (
+      SELECT 1 FROM unnest(v_days) AS day
+      WHERE NOT desk_slot_free(v_org.id, d.desk_id, day, 'full')
+    )
+  ORDER BY d.desk_id = v_entry.offer_desk_id DESC, r.sort_order, d.sort_order
+  LIMIT 1;
+
+  IF v_desk IS NULL THEN
+    RAISE EXCEPTION 'No desk is free for the offered days'
+      USING ERRCODE = '23505',
+            DETAIL = format('Key (organization_id, desk_id, date)=(%s, %s, %s) already exists.',
+                            v_org.id, v_entry.offer_desk_id, v_days[1]);
+  END IF;
+
+  INSERT INTO desk_bookings (
+    organization_id, desk_id, date, start_date, end_date, day_part, status,
+    person_name, visitor_name, visitor_email, visitor_phone, client_id, title, created_at
+  )
+  SELECT v_org.id, v_desk, day, v_entry.offer_start_date, v_entry.offer_end_date, 'full', 'booked',
+         v_entry.name, v_entry.name, v_entry.contact_email, v_entry.contact_info, v_entry.client_id,
+         v_entry.notes, now()
+  FROM unnest(v_days) AS day;
+
+  UPDATE waiting_list_entries SET claimed_at = now() WHERE id = v_entry.id;
+
+  SELECT d.label INTO v_label
+  FROM desks d
+  WHERE d.organization_id = v_org.id AND d.desk_id = v_desk
+  LIMIT 1;
+
+  v_result := jsonb_build_object(
+    'organizationId', v_org.id,
+    'deskId', v_desk,
+    'deskLabel', COALESCE(v_label, v_desk),
+    'visitorName', v_entry.name,
+    'startDate', v_entry.offer_start_date,
+    'endDate', v_entry.offer_end_date
+  );
+
+  INSERT INTO booking_notifications (organization_id, event, payload)
+  VALUES (v_org.id, 'waitlist_claimed', v_result);
+
+  RETURN v_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION join_public_waiting_list(UUID, TEXT, TEXT, TEXT, DATE, DATE, TEXT[], TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_waitlist_claim(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_waitlist_offer(TEXT) TO anon, authenticated;
+
+-- ============================================================
+-- Step 6: offer_waitlist_desks() — run every minute by cron
+-- Matches each space's entries, oldest first, to desks free on every open
+-- day of their range, like findWaitlistMatches in the client: the preferred
+-- desk first, then others with the asked-for attributes, each desk promised
+-- once per day. Entries with an email and no offer yet get one for 24 hours,
+-- set only while the entry still has none, and the claim link is emailed
+-- from the booking_notifications queue. Lapsed offers are passed over.
+-- ============================================================
+
+DO $$
+BEGIN
+  ALTER TABLE booking_notifications DROP CONSTRAINT IF EXISTS booking_notifications_event_check;
+  ALTER TABLE booking_notifications ADD CONSTRAINT booking_notifications_event_check
+    CHECK (event IN (
+      'cancelled', 'rescheduled', 'hold_expired',
+      'waitlist_joined', 'waitlist_offer', 'waitlist_claimed'
+    ));
+END $$;
+
+CREATE OR REPLACE FUNCTION offer_waitlist_desks()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org organizations%ROWTYPE;
+  v_entry waiting_list_entries%ROWTYPE;
+  v_today DATE;
+  v_start DATE;
+  v_end DATE;
+  v_days DATE[];
+  v_desk TEXT;
+  v_taken TEXT[];
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_org IN
+    SELECT o.* FROM organizations o
+    WHERE o.timezone IN (SELECT name FROM pg_timezone_names)
+      AND EXISTS (
+        SELECT 1 FROM waiting_list_entries e
+        WHERE e.organization_id = o.id
+          AND e.contact_email IS NOT NULL
+          AND e.claim_token IS NULL
+          AND e.claimed_at IS NULL
+      )
+  LOOP
+    v_today := (now() AT TIME ZONE v_org.timezone)::DATE;
+    v_taken := '{}';
+
+    FOR v_entry IN
+      SELECT * FROM waiting_list_entries e
+      WHERE e.organization_id = v_org.id
+        AND e.claimed_at IS NULL
+        AND (e.claim_expires_at IS NULL OR e.claim_expires_at > now())
+        AND (e.start_date IS NOT NULL OR e.end_date IS NOT NULL OR e.plan_type IS NOT NULL)
+      ORDER BY e.created_at
+    LOOP
+      -- The days still needed, like waitlistRange in the client
+      v_start := GREATEST(COALESCE(v_entry.start_date, v_today), v_today);
+      v_end := COALESCE(v_entry.end_date, CASE v_entry.plan_type
+        WHEN 'weekly' THEN v_start + 6
+        WHEN 'monthly' THEN (v_start + INTERVAL '1 month')::DATE - 1
+        ELSE v_start
+      END);
+      CONTINUE WHEN v_end < v_start;
+
+      SELECT array_agg(g.day::DATE ORDER BY g.day) INTO v_days
+      FROM generate_series(v_start, v_end, INTERVAL '1 day') AS g(day)
+      WHERE org_open_on(v_org, g.day::DATE);
+      CONTINUE WHEN v_days IS NULL;
+
+      v_desk := NULL;
+      SELECT d.desk_id INTO v_desk
+      FROM desks d
+      LEFT JOIN rooms r ON r.id = d.room_id
+      WHERE d.organization_id = v_org.id
+        AND d.attributes @> v_entry.desk_attributes
+        AND NOT EXISTS (
+          SELECT 1 FROM unnest(v_days) AS day
+          WHERE NOT desk_slot_free(v_org.id, d.desk_id, day, 'full')
+            OR d.desk_id || ':' || day = ANY (v_taken)
+        )
+      ORDER BY d.desk_id = COALESCE(v_entry.offer_desk_id, v_entry.desk_id) DESC, r.sort_order, d.sort_order
+      LIMIT 1;
+      CONTINUE WHEN v_desk IS NULL;
+
+      v_taken := v_taken || ARRAY(SELECT v_desk || ':' || day FROM unnest(v_days) AS day);
+      CONTINUE WHEN v_entry.contact_email IS NULL OR v_entry.claim_token IS NOT NULL;
+
+      UPDATE waiting_list_entries
+      SET offer_desk_id = v_desk,
+          offer_start_date = v_start,
+          offer_end_date = v_end,
+          claim_token = gen_random_uuid()::TEXT,
+          claim_expires_at = now() + INTERVAL '24 hours'
+      WHERE id = v_entry.id
+        AND claim_token IS NULL
+        AND claimed_at IS NULL
+      RETURNING * INTO v_entry;
+      CONTINUE WHEN NOT FOUND;
+
+      INSERT INTO booking_notifications (organization_id, event, payload)
+      VALUES (v_org.id, 'waitlist_offer', jsonb_build_object(
+        'email', v_entry.contact_email,
+        'name', v_entry.name,
+        'orgSlug', v_org.slug,
+        'deskId', v_desk,
+        'startDate', v_start,
+        'endDate', v_end,
+        'token', v_entry.claim_token,
+        'expiresAt', v_entry.claim_expires_at
+      ));
+      v_count := v_count + 1;
+    END LOOP;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION offer_waitlist_desks() FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('offer-waitlist-desks', '* * * * *', 'SELECT offer_waitlist_desks()');
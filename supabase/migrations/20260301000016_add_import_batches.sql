@@ -0,0 +1,47 @@
+-- Migration: Add import batches
+-- Date: 2026-03-01
+-- Purpose: Record what each import from another coworking tool (Nexudus,
+--          OfficeRnD, Cobot) wrote, so a batch can be rolled back.
+-- SAFETY: New table only. Rolling back marks the batch; it is kept as
+--         history.
+
+-- ============================================================
+-- Step 1: import_batches table
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS import_batches (
+  id BIGINT PRIMARY KEY,
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  source TEXT NOT NULL CHECK (source IN ('nexudus', 'officernd', 'cobot')),
+  kind TEXT NOT NULL CHECK (kind IN ('members', 'bookings', 'invoices')),
+  -- clients.id of the members created
+  client_ids TEXT[] NOT NULL DEFAULT '{}',
+  -- [{deskId, date, createdAt}] day rows written; createdAt tells them apart
+  -- from rows written later on the same slot
+  booking_rows JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- invoices.id of the invoices created
+  invoice_ids TEXT[] NOT NULL DEFAULT '{}',
+  rolled_back_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_batches_org_created ON import_batches(organization_id, created_at DESC);
+
+-- ============================================================
+-- Step 2: RLS — batches are kept, so members can't delete them
+-- ============================================================
+
+ALTER TABLE import_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view import batches in their orgs" ON import_batches
+  FOR SELECT TO authenticated
+  USING (organization_id IN (SELECT organization_id FROM organization_members WHERE user_id = auth.uid()));
+
+CREATE POLICY "Users can insert import batches in their orgs" ON import_batches
+  FOR INSERT TO authenticated
+  WITH CHECK (organization_id IN (SELECT organization_id FROM organization_members WHERE user_id = auth.uid()));
+
+CREATE POLICY "Users can update import batches in their orgs" ON import_batches
+  FOR UPDATE TO authenticated
+  USING (organization_id IN (SELECT organization_id FROM organization_members WHERE user_id = auth.uid()))
+  WITH CHECK (organization_id IN (SELECT organization_id FROM organization_members WHERE user_id = auth.uid()));
@@ -0,0 +1,458 @@
+-- Migration: Add pricing rules and server-priced public bookings
+-- Date: 2026-03-01
+-- Purpose: Store a space's pricing rules (day rates, seasons, room/desk
+--          premiums, length-of-stay discounts, member/visitor rates) and
+--          book the public page's visitors and flex members at the price
+--          computed here, visitors with the hold the space set.
+-- SAFETY: Additive. Spaces start without rules and keep their flat prices.
+--         submit_public_booking and submit_member_booking run as their
+--         owner so anonymous visitors and members can call them; they take
+--         desks and dates from the caller but set price, currency, status
+--         and hold themselves. get_public_availability keeps
+--         every field it returned.
+
+-- ============================================================
+-- Step 1: pricing_rules column
+-- ============================================================
+
+ALTER TABLE organizations ADD COLUMN IF NOT EXISTS pricing_rules JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN organizations.pricing_rules IS 'Pricing rules applied on top of the flat prices (see pricingRuleSchema and shared/pricing.ts)';
+
+-- ============================================================
+-- Step 2: quote_price — day-pass and flex pricing
+-- The same steps as quotePrice in shared/pricing.ts for day passes and flex
+-- visits, so the booking pages charge what they show
+-- (shared/pricing.parity.test.ts runs both). Per day: the base price, the
+-- weekday's day rate (full-day passes only), then season and desk or room
+-- adjustments on that. Over the stay: the best length-of-stay discount (day
+-- passes only), then the customer's rates. The total is split over the days
+-- by their own prices.
+-- ============================================================
+
+-- Math.round(value * 100) / 100, which rounds halves up also below zero
+CREATE OR REPLACE FUNCTION price_round2(p_value NUMERIC)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT floor(p_value * 100 + 0.5) / 100
+$$;
+
+-- p_plan: 'day_pass' or 'flex'. p_days: [{date, deskId}] in date order.
+-- One row per day with its price; none when the plan has no price set.
+CREATE OR REPLACE FUNCTION quote_price(p_org organizations, p_plan TEXT, p_days JSONB, p_day_part TEXT, p_customer TEXT)
+RETURNS TABLE (date DATE, desk_id TEXT, price NUMERIC)
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_rules JSONB := COALESCE(p_org.pricing_rules, '[]'::jsonb);
+  v_n INT := jsonb_array_length(p_days);
+  v_share NUMERIC;
+  v_day JSONB;
+  v_rule JSONB;
+  v_date DATE;
+  v_room TEXT;
+  v_day_price NUMERIC;
+  v_adjusted NUMERIC;
+  v_delta NUMERIC;
+  v_prices NUMERIC[] := '{}';
+  -- rule id -> summed adjustment; each is rounded once, like a quote line
+  v_deltas JSONB := '{}'::jsonb;
+  v_running NUMERIC;
+  v_stay NUMERIC;
+  v_total NUMERIC;
+  v_weight NUMERIC;
+  v_assigned NUMERIC := 0;
+  v_part NUMERIC;
+  i INT;
+BEGIN
+  IF v_n = 0 THEN
+    RETURN;
+  END IF;
+  IF p_plan = 'flex' THEN
+    IF COALESCE(p_org.flex_plan_price, 0) = 0 OR COALESCE(p_org.flex_plan_days, 0) = 0 THEN
+      RETURN;
+    END IF;
+    v_share := p_org.flex_plan_price::NUMERIC / p_org.flex_plan_days;
+  ELSIF p_plan = 'day_pass' THEN
+    v_share := CASE WHEN p_day_part = 'full' THEN p_org.default_price_per_day
+                    ELSE COALESCE(p_org.half_day_price, p_org.default_price_per_day) END;
+  ELSE
+    RAISE EXCEPTION 'Invalid plan: %', p_plan;
+  END IF;
+
+  FOR v_day IN SELECT value FROM jsonb_array_elements(p_days) LOOP
+    v_date := (v_day->>'date')::DATE;
+    SELECT k.room_id::TEXT INTO v_room
+    FROM desks k WHERE k.organization_id = p_org.id AND k.desk_id = v_day->>'deskId' LIMIT 1;
+
+    v_day_price := v_share;
+    IF p_plan = 'day_pass' AND p_day_part = 'full' THEN
+      SELECT r.value INTO v_rule
+      FROM jsonb_array_elements(v_rules) WITH ORDINALITY AS r(value, pos)
+      WHERE r.value->>'kind' = 'day_rate'
+        AND COALESCE(r.value->'weekdays', '[]'::jsonb) @> to_jsonb(EXTRACT(ISODOW FROM v_date)::INT)
+      ORDER BY r.pos
+      LIMIT 1;
+      IF FOUND THEN
+        v_delta := (v_rule->>'amount')::NUMERIC - v_day_price;
+        v_deltas := v_deltas || jsonb_build_object(v_rule->>'id', COALESCE((v_deltas->>(v_rule->>'id'))::NUMERIC, 0) + v_delta);
+        v_day_price := (v_rule->>'amount')::NUMERIC;
+      END IF;
+    END IF;
+
+    v_adjusted := v_day_price;
+    FOR v_rule IN SELECT value FROM jsonb_array_elements(v_rules) LOOP
+      CONTINUE WHEN NOT CASE v_rule->>'kind'
+        WHEN 'season' THEN v_date BETWEEN (v_rule->>'startDate')::DATE AND (v_rule->>'endDate')::DATE
+        WHEN 'premium' THEN COALESCE(v_rule->'deskIds', '[]'::jsonb) ? (v_day->>'deskId')
+                            OR (v_room IS NOT NULL AND COALESCE(v_rule->'roomIds', '[]'::jsonb) ? v_room)
+        ELSE false
+      END;
+      v_delta := CASE WHEN v_rule->>'adjustmentType' = 'fixed' THEN (v_rule->>'amount')::NUMERIC
+                      ELSE v_day_price * (v_rule->>'amount')::NUMERIC / 100 END;
+      v_deltas := v_deltas || jsonb_build_object(v_rule->>'id', COALESCE((v_deltas->>(v_rule->>'id'))::NUMERIC, 0) + v_delta);
+      v_adjusted := v_adjusted + v_delta;
+    END LOOP;
+    v_prices := v_prices || v_adjusted;
+  END LOOP;
+
+  SELECT sum(p) INTO v_running FROM unnest(v_prices) AS p;
+
+  -- The longest stay discount the booking qualifies for
+  SELECT r.value INTO v_rule
+  FROM jsonb_array_elements(v_rules) WITH ORDINALITY AS r(value, pos)
+  WHERE p_plan = 'day_pass'
+    AND r.value->>'kind' = 'long_stay' AND COALESCE((r.value->>'minDays')::INT, 0) <= v_n
+  ORDER BY COALESCE((r.value->>'minDays')::INT, 0) DESC, r.pos
+  LIMIT 1;
+  IF FOUND THEN
+    v_delta := CASE WHEN v_rule->>'adjustmentType' = 'fixed' THEN (v_rule->>'amount')::NUMERIC * v_n
+                    ELSE v_running * (v_rule->>'amount')::NUMERIC / 100 END;
+    v_deltas := v_deltas || jsonb_build_object(v_rule->>'id', v_delta);
+    v_running := v_running + v_delta;
+  END IF;
+
+  v_stay := v_running;
+  FOR v_rule IN
+    SELECT value FROM jsonb_array_elements(v_rules)
+    WHERE p_customer IS NOT NULL AND value->>'kind' = 'customer_rate' AND value->>'customer' = p_customer
+  LOOP
+    v_delta := CASE WHEN v_rule->>'adjustmentType' = 'fixed' THEN (v_rule->>'amount')::NUMERIC * v_n
+                    ELSE v_stay * (v_rule->>'amount')::NUMERIC / 100 END;
+    v_deltas := v_deltas || jsonb_build_object(v_rule->>'id', v_delta);
+  END LOOP;
+
+  SELECT GREATEST(0, price_round2(price_round2(v_share * v_n) + COALESCE(sum(price_round2(d.value::NUMERIC)), 0)))
+  INTO v_total
+  FROM jsonb_each_text(v_deltas) AS d;
+
+  SELECT sum(GREATEST(0, p)) INTO v_weight FROM unnest(v_prices) AS p;
+  FOR i IN 1..v_n LOOP
+    v_day := p_days->(i - 1);
+    IF i = v_n THEN
+      v_part := price_round2(v_total - v_assigned);
+    ELSE
+      v_part := price_round2(v_total * CASE WHEN v_weight > 0 THEN GREATEST(0, v_prices[i]) / v_weight
+                                            ELSE 1.0 / v_n END);
+      v_assigned := v_assigned + v_part;
+    END IF;
+    date := (v_day->>'date')::DATE;
+    desk_id := v_day->>'deskId';
+    price := v_part;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+-- ============================================================
+-- Step 3: submit_public_booking — a booking from the public page
+-- p_assignments: [{date, deskId}], the desk picked for each day. Every day
+-- must be open and within the booking window, and the desk free. Rows are
+-- priced as one stay at the visitor rate, and held for the space's hold
+-- hours when set. A taken desk fails with a unique violation naming it.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION submit_public_booking(
+  p_org_slug TEXT,
+  p_assignments JSONB,
+  p_day_part TEXT,
+  p_visitor_name TEXT,
+  p_visitor_phone TEXT DEFAULT NULL,
+  p_visitor_notes TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org organizations%ROWTYPE;
+  v_days JSONB;
+  v_today DATE;
+  v_held_until TIMESTAMPTZ;
+  v_title TEXT;
+  v_slot RECORD;
+  v_result JSONB;
+BEGIN
+  SELECT * INTO v_org FROM organizations WHERE slug = p_org_slug AND public_booking_enabled;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Online booking is not available for this space';
+  END IF;
+  IF p_day_part NOT IN ('full', 'am', 'pm') THEN
+    RAISE EXCEPTION 'Invalid part of the day: %', p_day_part;
+  END IF;
+  IF COALESCE(btrim(p_visitor_name), '') = '' THEN
+    RAISE EXCEPTION 'Please fill in your name.';
+  END IF;
+
+  SELECT jsonb_agg(jsonb_build_object('date', a.date, 'deskId', a."deskId") ORDER BY a.date)
+  INTO v_days
+  FROM jsonb_to_recordset(p_assignments) AS a(date DATE, "deskId" TEXT);
+  IF v_days IS NULL THEN
+    RAISE EXCEPTION 'Pick at least one day';
+  END IF;
+
+  v_today := (now() AT TIME ZONE v_org.timezone)::DATE;
+  FOR v_slot IN SELECT * FROM jsonb_to_recordset(v_days) AS a(date DATE, "deskId" TEXT) LOOP
+    IF v_slot.date < v_today
+      OR v_slot.date > v_today + COALESCE(v_org.public_booking_max_days_ahead, 14)
+      OR NOT org_open_on(v_org, v_slot.date)
+    THEN
+      RAISE EXCEPTION '% can''t be booked online', v_slot.date;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM desks WHERE organization_id = v_org.id AND desk_id = v_slot."deskId") THEN
+      RAISE EXCEPTION 'Desk not found';
+    END IF;
+    IF NOT desk_slot_free(v_org.id, v_slot."deskId", v_slot.date, p_day_part) THEN
+      RAISE EXCEPTION 'Desk % is already taken on %', v_slot."deskId", v_slot.date
+        USING ERRCODE = '23505',
+              DETAIL = format('Key (organization_id, desk_id, date)=(%s, %s, %s) already exists.',
+                              v_org.id, v_slot."deskId", v_slot.date);
+    END IF;
+  END LOOP;
+
+  -- Paid at the space: held for a while, then released if still unpaid
+  v_held_until := CASE WHEN v_org.public_hold_hours IS NOT NULL
+                       THEN now() + make_interval(hours => v_org.public_hold_hours) END;
+  v_title := NULLIF(concat_ws(' | ', NULLIF(btrim(p_visitor_phone), ''), NULLIF(btrim(p_visitor_notes), '')), '');
+
+  WITH inserted AS (
+    INSERT INTO desk_bookings (
+      organization_id, desk_id, date, start_date, end_date, day_part, status,
+      visitor_name, visitor_email, visitor_phone, visitor_notes, person_name, title,
+      held_until, price, currency, created_at
+    )
+    SELECT v_org.id, q.desk_id, q.date, q.date, q.date, p_day_part, 'booked',
+           btrim(p_visitor_name), '', NULLIF(btrim(p_visitor_phone), ''), NULLIF(btrim(p_visitor_notes), ''),
+           btrim(p_visitor_name), v_title, v_held_until, q.price, v_org.currency, now()
+    FROM quote_price(v_org, 'day_pass', v_days, p_day_part, 'visitor') AS q
+    RETURNING desk_bookings.desk_id, desk_bookings.date, desk_bookings.price
+  )
+  SELECT jsonb_build_object(
+    'heldUntil', v_held_until,
+    'price', sum(i.price),
+    'currency', v_org.currency,
+    'days', jsonb_agg(jsonb_build_object('date', i.date, 'deskId', i.desk_id, 'price', i.price) ORDER BY i.date)
+  )
+  INTO v_result
+  FROM inserted AS i;
+  RETURN v_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_public_booking(TEXT, JSONB, TEXT, TEXT, TEXT, TEXT) TO anon, authenticated;
+
+-- ============================================================
+-- Step 4: submit_member_booking — a flex member's self-booking
+-- p_assignments: [{date, deskId}], the desk picked for each day, checked
+-- like submit_public_booking's. Each visit carries its share of the flex
+-- plan at the member rate, or nothing when the space set no flex price.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION submit_member_booking(
+  p_org_slug TEXT,
+  p_client_id BIGINT,
+  p_assignments JSONB,
+  p_day_part TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org organizations%ROWTYPE;
+  v_person TEXT;
+  v_days JSONB;
+  v_today DATE;
+  v_slot RECORD;
+  v_result JSONB;
+BEGIN
+  SELECT * INTO v_org FROM organizations WHERE slug = p_org_slug AND public_booking_enabled;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Online booking is not available for this space';
+  END IF;
+  SELECT name INTO v_person FROM clients WHERE id = p_client_id AND organization_id = v_org.id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Member not found';
+  END IF;
+  IF p_day_part NOT IN ('full', 'am', 'pm') THEN
+    RAISE EXCEPTION 'Invalid part of the day: %', p_day_part;
+  END IF;
+
+  SELECT jsonb_agg(jsonb_build_object('date', a.date, 'deskId', a."deskId") ORDER BY a.date)
+  INTO v_days
+  FROM jsonb_to_recordset(p_assignments) AS a(date DATE, "deskId" TEXT);
+  IF v_days IS NULL THEN
+    RAISE EXCEPTION 'Pick at least one day';
+  END IF;
+
+  v_today := (now() AT TIME ZONE v_org.timezone)::DATE;
+  FOR v_slot IN SELECT * FROM jsonb_to_recordset(v_days) AS a(date DATE, "deskId" TEXT) LOOP
+    IF v_slot.date < v_today
+      OR v_slot.date > v_today + COALESCE(v_org.public_booking_max_days_ahead, 14)
+      OR NOT org_open_on(v_org, v_slot.date)
+    THEN
+      RAISE EXCEPTION '% can''t be booked online', v_slot.date;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM desks WHERE organization_id = v_org.id AND desk_id = v_slot."deskId") THEN
+      RAISE EXCEPTION 'Desk not found';
+    END IF;
+    IF NOT desk_slot_free(v_org.id, v_slot."deskId", v_slot.date, p_day_part) THEN
+      RAISE EXCEPTION 'Desk % is already taken on %', v_slot."deskId", v_slot.date
+        USING ERRCODE = '23505',
+              DETAIL = format('Key (organization_id, desk_id, date)=(%s, %s, %s) already exists.',
+                              v_org.id, v_slot."deskId", v_slot.date);
+    END IF;
+  END LOOP;
+
+  WITH inserted AS (
+    INSERT INTO desk_bookings (
+      organization_id, desk_id, date, start_date, end_date, day_part, status,
+      person_name, client_id, is_flex, price, currency, created_at
+    )
+    -- A half day still uses one flex visit
+    SELECT v_org.id, d."deskId", d.date, d.date, d.date, p_day_part, 'assigned',
+           v_person, p_client_id, true, COALESCE(q.price, 0), COALESCE(v_org.currency, 'EUR'), now()
+    FROM jsonb_to_recordset(v_days) AS d(date DATE, "deskId" TEXT)
+    LEFT JOIN quote_price(v_org, 'flex', v_days, p_day_part, 'member') AS q ON q.date = d.date
+    RETURNING desk_bookings.desk_id, desk_bookings.date, desk_bookings.price
+  )
+  SELECT jsonb_build_object(
+    'price', sum(i.price),
+    'currency', COALESCE(v_org.currency, 'EUR'),
+    'days', jsonb_agg(jsonb_build_object('date', i.date, 'deskId', i.desk_id, 'price', i.price) ORDER BY i.date)
+  )
+  INTO v_result
+  FROM inserted AS i;
+  RETURN v_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_member_booking(TEXT, BIGINT, JSONB, TEXT) TO anon, authenticated;
+
+-- ============================================================
+-- Step 5: get_public_availability(slug) also returns the pricing rules
+-- Replaces the version from 20260301000013_add_booking_holds,
+-- keeping every field it returned.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION get_public_availability(p_org_slug TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org organizations%ROWTYPE;
+  v_today DATE;
+  v_last DATE;
+BEGIN
+  SELECT * INTO v_org FROM organizations WHERE slug = p_org_slug AND public_booking_enabled;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+  v_today := (now() AT TIME ZONE v_org.timezone)::DATE;
+  v_last := v_today + COALESCE(v_org.public_booking_max_days_ahead, 14);
+
+  RETURN jsonb_build_object(
+    'org', jsonb_build_object(
+      'id', v_org.id,
+      'name', v_org.name,
+      'slug', v_org.slug,
+      'currency', v_org.currency,
+      'workingDays', to_jsonb(COALESCE(v_org.working_days, ARRAY[1, 2, 3, 4, 5])),
+      'timezone', v_org.timezone,
+      'closures', (
+        SELECT COALESCE(jsonb_agg(jsonb_build_object(
+          'startDate', c->>'startDate',
+          'endDate', COALESCE(c->>'endDate', c->>'startDate'),
+          'label', c->>'label'
+        )), '[]'::jsonb)
+        FROM jsonb_array_elements(COALESCE(v_org.closures, '[]'::jsonb)) AS c
+      ),
+      'maxDaysAhead', COALESCE(v_org.public_booking_max_days_ahead, 14),
+      'logoUrl', v_org.logo_url,
+      'contactPhone', v_org.contact_phone,
+      'contactEmail', v_org.contact_email,
+      'contactTelegram', v_org.contact_telegram,
+      'contactViberEnabled', COALESCE(v_org.contact_viber_enabled, false),
+      'contactWhatsappEnabled', COALESCE(v_org.contact_whatsapp_enabled, false),
+      'defaultPricePerDay', v_org.default_price_per_day,
+      'halfDayPrice', v_org.half_day_price,
+      'pricingRules', COALESCE(v_org.pricing_rules, '[]'::jsonb),
+      'stripePublicBookingPayments', COALESCE(v_org.stripe_public_booking_payments, false),
+      'bookingPolicy', v_org.booking_policy,
+      'publicHoldHours', v_org.public_hold_hours
+    ),
+    'rooms', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'id', r.id,
+        'name', r.name,
+        'desks', (
+          SELECT COALESCE(jsonb_agg(jsonb_build_object(
+            'id', d.id,
+            'deskId', d.desk_id,
+            'label', d.label,
+            'attributes', to_jsonb(d.attributes)
+          ) ORDER BY d.sort_order), '[]'::jsonb)
+          FROM desks d
+          WHERE d.room_id = r.id
+        )
+      ) ORDER BY r.sort_order), '[]'::jsonb)
+      FROM rooms r
+      WHERE r.organization_id = v_org.id
+    ),
+    'bookedSlots', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'deskId', b.desk_id,
+        'date', b.date,
+        'dayPart', NULLIF(b.day_part, 'full'),
+        'heldUntil', b.held_until
+      )), '[]'::jsonb)
+      FROM desk_bookings b
+      WHERE b.organization_id = v_org.id
+        AND b.date BETWEEN v_today AND v_last
+        AND b.status <> 'available'
+        AND NOT COALESCE(b.is_frozen, false)
+        AND (b.held_until IS NULL OR b.held_until > now())
+    ),
+    'blockedSlots', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object('deskId', k.desk_id, 'date', g.day::DATE)), '[]'::jsonb)
+      FROM desk_blocks k
+      CROSS JOIN LATERAL generate_series(
+        GREATEST(k.start_date, v_today), LEAST(k.end_date, v_last), INTERVAL '1 day'
+      ) AS g(day)
+      WHERE k.organization_id = v_org.id
+        AND k.end_date >= v_today
+        AND k.start_date <= v_last
+    )
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_public_availability(TEXT) TO anon, authenticated;